@@ -7,10 +7,14 @@
  *
  * This allows Konva to render affine (skewed) overlays without
  * runtime transform support, which Konva Groups don't provide.
+ *
+ * Projective and thin-plate spline placements are baked the same way
+ * (see placementWarp.js) and share the affine tile cache.
  */
 
 const sharp = require('sharp');
 const tileCache = require('./tileCache');
+const placementWarp = require('./placementWarp');
 
 // Configuration (matches tileGenerator.js)
 const TILE_SIZE = 256;
@@ -195,11 +199,18 @@ function sampleBilinear(data, width, height, x, y) {
  * @param {string} imageHash - Hash for cache directory
  * @param {number[]} affineMatrix - [a, b, tx, c, d, ty]
  * @param {function} onProgress - Progress callback (0-100)
+ * @param {Object|null} warp - Projective / thin-plate spline warp (see placementWarp.js); when
+ *   given it replaces affineMatrix for the bounds and sampling (affineMatrix is still
+ *   recorded, as the least-squares affine of the same control points)
  * @returns {Promise<Object>} Metadata including transformed dimensions
  */
-async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgress = null) {
+async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgress = null, warp = null) {
+  warp = placementWarp.bakedWarp(warp);
   console.log(`[AffineTileGenerator] Starting for image: ${imagePath}`);
   console.log(`[AffineTileGenerator] Forward matrix (overlay→parent): [${affineMatrix.join(', ')}]`);
+  if (warp) {
+    console.log(`[AffineTileGenerator] Warp: ${warp.type}`);
+  }
 
   // 1. Load source image as raw RGBA
   const sourceRaw = await sharp(imagePath, { limitInputPixels: false })
@@ -216,7 +227,9 @@ async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgres
   if (onProgress) onProgress(5);
 
   // 2. Compute output bounding box using the FORWARD matrix
-  const bounds = computeTransformedBounds(srcWidth, srcHeight, affineMatrix);
+  const bounds = warp
+    ? await placementWarp.computeWarpBounds(warp, srcWidth, srcHeight)
+    : computeTransformedBounds(srcWidth, srcHeight, affineMatrix);
   console.log(`[AffineTileGenerator] Transformed bounds:`, bounds);
 
   // Pick an oversample factor that preserves source detail along the worst-compressed axis.
@@ -240,6 +253,12 @@ async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgres
 
   console.log(`[AffineTileGenerator] Inverse matrix (parent→overlay): [${invMatrix.join(', ')}]`);
 
+  // Non-affine warps have no inverse matrix; map each output pixel back instead
+  const mapToSource = warp
+    ? await placementWarp.createInverseMapper(warp, bounds, oversample, outputWidth, outputHeight)
+    : null;
+  const sourcePoint = [0, 0];
+
   if (onProgress) onProgress(10);
 
   // 4. Create output buffer and perform inverse transform sampling
@@ -260,8 +279,12 @@ async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgres
 
       // Apply inverse transform to get source (overlay) position
       // source = M^(-1) * parent
-      const srcX = aInv * parentX + bInv * parentY + txInv;
-      const srcY = cInv * parentX + dInv * parentY + tyInv;
+      let srcX = aInv * parentX + bInv * parentY + txInv;
+      let srcY = cInv * parentX + dInv * parentY + tyInv;
+      if (mapToSource) {
+        if (!mapToSource(ox, oy, sourcePoint)) continue; // Left transparent
+        [srcX, srcY] = sourcePoint;
+      }
 
       // Sample from source with bilinear interpolation
       const [r, g, b, a] = sampleBilinear(srcData, srcWidth, srcHeight, srcX, srcY);
@@ -360,6 +383,7 @@ async function generateAffineTiles(imagePath, imageHash, affineMatrix, onProgres
     parentSpaceHeight,
     oversample,
     affineMatrix,
+    warp: warp || null,
     boundsOffset: { x: bounds.minX, y: bounds.minY },
     tileSize: TILE_SIZE,
     tilePadding: TILE_PADDING,
@@ -433,9 +457,10 @@ async function generateSingleTile(data, imageWidth, imageHeight, channels, tileX
  *
  * @param {string} imageHash - Image hash
  * @param {number[]} affineMatrix - Matrix to check against
+ * @param {Object|null} warp - Non-affine warp to check against (null for affine placement)
  * @returns {Promise<boolean>} True if tiles exist with matching matrix
  */
-async function hasMatchingAffineTiles(imageHash, affineMatrix) {
+async function hasMatchingAffineTiles(imageHash, affineMatrix, warp = null) {
   const metadata = await tileCache.loadAffineMetadata(imageHash);
   if (!metadata) return false;
 
@@ -447,6 +472,9 @@ async function hasMatchingAffineTiles(imageHash, affineMatrix) {
   // up the oversampled buffer.
   if (typeof metadata.oversample !== 'number') return false;
 
+  // Tiles baked with a different warp (or before warps existed, for non-affine) are stale
+  if (JSON.stringify(metadata.warp || null) !== JSON.stringify(placementWarp.bakedWarp(warp))) return false;
+
   // Check if matrices match
   const storedMatrix = metadata.affineMatrix;
   if (!storedMatrix || storedMatrix.length !== 6) return false;
@@ -0,0 +1,112 @@
+/**
+ * COCO Dataset Export (Main Process)
+ *
+ * Writes a COCO instance-segmentation dataset planned by the renderer
+ * (src/services/cocoDataset) into a folder:
+ *
+ *   images/train/*.jpg
+ *   images/val/*.jpg
+ *   annotations/instances_train.json
+ *   annotations/instances_val.json
+ *
+ * Images are cropped at full resolution from the micrograph decoded the
+ * same way its tiles are generated, so crop offsets match spot coordinates.
+ * Each micrograph is decoded once for all of its crops.
+ *
+ * @module cocoExport
+ */
+
+const fs = require('fs');
+const path = require('path');
+const log = require('electron-log');
+const sharp = require('sharp');
+const tileGenerator = require('./tileGenerator');
+
+const JPEG_QUALITY = 92;
+
+/**
+ * Write a planned COCO dataset to disk.
+ *
+ * @param {object} plan - CocoExportPlan from the renderer
+ * @param {string} outputDir - Folder to write into
+ * @param {string} imagesFolder - Project images folder
+ * @param {(imagePath: string) => Promise<string>} resolveImagePath - Resolves legacy image locations
+ * @param {(progress: object) => void} onProgress - Progress callback
+ * @returns {Promise<{exported: number, errors: Array<{name: string, error: string}>}>}
+ */
+async function writeCocoDataset(plan, outputDir, imagesFolder, resolveImagePath, onProgress) {
+  const splits = Object.keys(plan.datasets).filter((split) => plan.datasets[split].images.length > 0);
+  for (const split of splits) {
+    await fs.promises.mkdir(path.join(outputDir, 'images', split), { recursive: true });
+  }
+  await fs.promises.mkdir(path.join(outputDir, 'annotations'), { recursive: true });
+
+  // Group crops by micrograph so each image is decoded once
+  const jobsByImage = new Map();
+  for (const job of plan.images) {
+    if (!jobsByImage.has(job.imagePath)) jobsByImage.set(job.imagePath, []);
+    jobsByImage.get(job.imagePath).push(job);
+  }
+
+  const total = plan.images.length;
+  const errors = [];
+  let completed = 0;
+  let exported = 0;
+
+  for (const [imagePath, jobs] of jobsByImage) {
+    let imageData = null;
+    try {
+      const resolvedPath = await resolveImagePath(path.join(imagesFolder, imagePath));
+      imageData = await tileGenerator.decodeAuto(resolvedPath);
+    } catch (error) {
+      log.error(`[CocoExport] Failed to decode ${jobs[0].micrographName}:`, error);
+      errors.push({ name: jobs[0].micrographName, error: error.message });
+      completed += jobs.length;
+      continue;
+    }
+
+    for (const job of jobs) {
+      onProgress({
+        current: completed + 1,
+        total,
+        currentName: job.fileName,
+        status: 'processing',
+      });
+
+      try {
+        const left = Math.max(0, Math.min(imageData.width - 1, Math.floor(job.region.x)));
+        const top = Math.max(0, Math.min(imageData.height - 1, Math.floor(job.region.y)));
+        const width = Math.max(1, Math.min(imageData.width - left, Math.round(job.region.width)));
+        const height = Math.max(1, Math.min(imageData.height - top, Math.round(job.region.height)));
+
+        await sharp(imageData.data, {
+          raw: { width: imageData.width, height: imageData.height, channels: 4 },
+          limitInputPixels: false,
+        })
+          .extract({ left, top, width, height })
+          .removeAlpha()
+          .jpeg({ quality: JPEG_QUALITY })
+          .toFile(path.join(outputDir, 'images', job.split, job.fileName));
+        exported++;
+      } catch (error) {
+        log.error(`[CocoExport] Failed to write ${job.fileName}:`, error);
+        errors.push({ name: job.fileName, error: error.message });
+      }
+      completed++;
+    }
+  }
+
+  for (const split of splits) {
+    await fs.promises.writeFile(
+      path.join(outputDir, 'annotations', `instances_${split}.json`),
+      JSON.stringify(plan.datasets[split])
+    );
+  }
+
+  log.info(`[CocoExport] Wrote ${exported} images (${splits.join(', ')}) to ${outputDir}`);
+  return { exported, errors };
+}
+
+module.exports = {
+  writeCocoDataset,
+};
@@ -0,0 +1,503 @@
+/**
+ * Headless Batch Mode
+ *
+ * Runs exports, tile rebuilds and StraboTools analyses on a project from
+ * the command line, without opening a window, so batches of projects can
+ * be scripted:
+ *
+ *   StraboMicro2 --headless --project <id|folder> [commands...]
+ *   StraboMicro2 --headless --smz <file.smz> [--overwrite] [commands...]
+ *
+ * In development: npm run headless -- --project <id|folder> [commands...]
+ *
+ * Commands run in the order given:
+ *   --export-json <file>                     Project JSON (legacy format)
+ *   --export-pdf <file>                      PDF report
+ *   --export-smz <file>                      .smz archive
+ *   --export-svg <micrograph> <file>         Micrograph composite as SVG
+ *   --rebuild-tiles                          Rebuild every micrograph's tile cache
+ *   --strabo-tools <tool> <micrograph> [key=value ...]
+ *       tool: edge-fabric | color-index | edge-detect | mode
+ *       keys: threshold, adaptive, highlightColor, numPhases, previewWidth,
+ *             output (file to save the result image to, as JPEG)
+ *
+ * Chromium switches such as --no-sandbox go before --headless.
+ *
+ * Micrographs are named by id or name. A project folder may live outside
+ * StraboMicro2Data. Opening an .smz imports it into StraboMicro2Data
+ * exactly as File > Open does. If a local copy of the same project exists
+ * the import is refused unless --overwrite is given, which replaces it.
+ *
+ * One JSON report goes to stdout; all logging goes to stderr. The exit code
+ * is 0 when every command succeeds, 1 when any fails and 2 for invalid
+ * arguments.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const util = require('util');
+const log = require('electron-log');
+const projectFolders = require('./projectFolders');
+const projectSerializer = require('./projectSerializer');
+const pdfProjectExport = require('./pdfReactExport');
+const smzExport = require('./smzExport');
+const smzImport = require('./smzImport');
+const svgExport = require('./svgExport');
+const straboToolsMain = require('./straboToolsMain');
+const scratchSpace = require('./scratchSpace');
+
+const HEADLESS_FLAG = '--headless';
+
+const STRABO_TOOLS = ['edge-fabric', 'color-index', 'edge-detect', 'mode'];
+
+const NUMERIC_TOOL_PARAMS = ['threshold', 'numPhases'];
+
+const USAGE = `Usage:
+  StraboMicro2 --headless (--project <id|folder> | --smz <file.smz> [--overwrite]) [commands...]
+
+  --overwrite    Let --smz replace a local project with the same id
+
+Commands (run in order):
+  --export-json <file>
+  --export-pdf <file>
+  --export-smz <file>
+  --export-svg <micrograph> <file>
+  --rebuild-tiles
+  --strabo-tools <tool> <micrograph> [key=value ...]
+      tool: ${STRABO_TOOLS.join(' | ')}
+      keys: threshold, adaptive, highlightColor, numPhases, previewWidth, output`;
+
+class UsageError extends Error {}
+
+// =============================================================================
+// ARGUMENTS
+// =============================================================================
+
+/**
+ * True when the app was launched in headless mode
+ * @param {string[]} argv - process.argv
+ */
+function isHeadlessLaunch(argv) {
+  return argv.includes(HEADLESS_FLAG);
+}
+
+/**
+ * Parse the arguments after --headless into a project source and command list
+ * @param {string[]} argv - process.argv
+ * @returns {{ help: boolean, source: Object|null, overwrite: boolean, commands: Object[] }}
+ */
+function parseArgs(argv) {
+  const args = argv.slice(argv.indexOf(HEADLESS_FLAG) + 1);
+  const parsed = { help: false, source: null, overwrite: false, commands: [] };
+
+  const take = (flag, count) => {
+    const values = args.splice(0, count);
+    if (values.length < count || values.some((v) => v.startsWith('--'))) {
+      throw new UsageError(`${flag} expects ${count} argument${count === 1 ? '' : 's'}`);
+    }
+    return values;
+  };
+
+  const setSource = (type, value) => {
+    if (parsed.source) throw new UsageError('Only one --project or --smz may be given');
+    parsed.source = { type, value };
+  };
+
+  while (args.length > 0) {
+    const flag = args.shift();
+    switch (flag) {
+      case '--help':
+      case '-h':
+        parsed.help = true;
+        break;
+      case '--project':
+        setSource('project', take(flag, 1)[0]);
+        break;
+      case '--smz':
+        setSource('smz', take(flag, 1)[0]);
+        break;
+      case '--overwrite':
+        parsed.overwrite = true;
+        break;
+      case '--export-json':
+      case '--export-pdf':
+      case '--export-smz':
+        parsed.commands.push({ command: flag.slice(2), outputPath: path.resolve(take(flag, 1)[0]) });
+        break;
+      case '--export-svg': {
+        const [micrograph, outputPath] = take(flag, 2);
+        parsed.commands.push({ command: 'export-svg', micrograph, outputPath: path.resolve(outputPath) });
+        break;
+      }
+      case '--rebuild-tiles':
+        parsed.commands.push({ command: 'rebuild-tiles' });
+        break;
+      case '--strabo-tools': {
+        const [tool, micrograph] = take(flag, 2);
+        if (!STRABO_TOOLS.includes(tool)) {
+          throw new UsageError(`Unknown StraboTools tool '${tool}' (expected ${STRABO_TOOLS.join(', ')})`);
+        }
+        const params = {};
+        while (args.length > 0 && !args[0].startsWith('--')) {
+          const pair = args.shift();
+          const eq = pair.indexOf('=');
+          if (eq <= 0) throw new UsageError(`Expected key=value after --strabo-tools, got '${pair}'`);
+          params[pair.slice(0, eq)] = pair.slice(eq + 1);
+        }
+        parsed.commands.push({ command: 'strabo-tools', tool, micrograph, ...parseToolParams(params) });
+        break;
+      }
+      default:
+        throw new UsageError(`Unexpected argument '${flag}'`);
+    }
+  }
+
+  if (!parsed.help && !parsed.source) {
+    throw new UsageError('A project is required: --project <id|folder> or --smz <file.smz>');
+  }
+  if (parsed.overwrite && parsed.source?.type !== 'smz') {
+    throw new UsageError('--overwrite only applies to --smz');
+  }
+  return parsed;
+}
+
+/**
+ * Split StraboTools key=value pairs into tool parameters and run options
+ */
+function parseToolParams(params) {
+  const { output, previewWidth, ...rest } = params;
+  const toolParams = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (NUMERIC_TOOL_PARAMS.includes(key)) {
+      const number = Number(value);
+      if (!Number.isFinite(number)) throw new UsageError(`${key} must be a number, got '${value}'`);
+      toolParams[key] = number;
+    } else if (key === 'adaptive') {
+      toolParams.adaptive = value === 'true' || value === '1';
+    } else if (key === 'highlightColor') {
+      toolParams.highlightColor = value;
+    } else {
+      throw new UsageError(`Unknown StraboTools parameter '${key}'`);
+    }
+  }
+
+  let width;
+  if (previewWidth !== undefined) {
+    width = Number(previewWidth);
+    if (!Number.isInteger(width) || width <= 0) {
+      throw new UsageError(`previewWidth must be a positive integer, got '${previewWidth}'`);
+    }
+  }
+
+  return {
+    toolParams,
+    previewWidth: width,
+    outputPath: output ? path.resolve(output) : null,
+  };
+}
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+
+/**
+ * Keep stdout for the JSON report: send console output and the
+ * electron-log console transport to stderr.
+ */
+function routeLogsToStderr() {
+  const toStderr = (...args) => process.stderr.write(`${util.format(...args)}\n`);
+  console.log = toStderr;
+  console.info = toStderr;
+  console.debug = toStderr;
+  log.transports.console.level = 'info';
+  log.transports.console.writeFn = ({ message }) => toStderr(...message.data);
+}
+
+/**
+ * Write the JSON report to stdout, resolving once it has been flushed
+ */
+function writeReport(report) {
+  return new Promise((resolve) => {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`, () => resolve());
+  });
+}
+
+/**
+ * Progress callback that logs each new phase once
+ */
+function phaseLogger(prefix) {
+  let lastPhase = null;
+  return (progress) => {
+    const phase = progress?.phase || progress?.stage;
+    if (phase && phase !== lastPhase) {
+      lastPhase = phase;
+      log.info(`[Headless] ${prefix}: ${phase}`);
+    }
+  };
+}
+
+// =============================================================================
+// PROJECT
+// =============================================================================
+
+/**
+ * Open the project named on the command line.
+ * @param {Object} source - Project source from parseArgs
+ * @param {boolean} overwrite - Whether an .smz may replace a local project with the same id
+ * @returns {Promise<{ projectId: string, projectData: Object, folderPaths: Object }>}
+ */
+async function openProject(source, overwrite) {
+  if (source.type === 'smz') {
+    const smzPath = path.resolve(source.value);
+
+    // The import deletes a local project with the same id; only do that on request
+    const inspection = await smzImport.inspectSmz(smzPath);
+    if (!inspection.success) {
+      throw new Error(`Could not import ${smzPath}: ${inspection.error}`);
+    }
+    if (inspection.projectExists && !overwrite) {
+      throw new Error(
+        `Project "${inspection.projectName}" (${inspection.projectId}) already exists locally; ` +
+          'pass --overwrite to replace it with the .smz'
+      );
+    }
+
+    const result = await smzImport.importSmz(smzPath, phaseLogger('Import'));
+    if (!result.success) {
+      throw new Error(`Could not import ${smzPath}: ${result.error}`);
+    }
+    return {
+      projectId: result.projectId,
+      projectData: result.projectData,
+      folderPaths: projectFolders.getProjectFolderPaths(result.projectId),
+    };
+  }
+
+  // A folder path, or the id of a project in StraboMicro2Data
+  let projectPath = path.resolve(source.value);
+  if (!fs.existsSync(projectPath)) {
+    projectPath = projectFolders.getProjectFolderPath(source.value);
+  }
+  if (fs.existsSync(projectPath) && fs.statSync(projectPath).isFile()) {
+    projectPath = path.dirname(projectPath);
+  }
+
+  const folderPaths = projectFolders.getProjectFolderPathsAt(projectPath);
+  if (!fs.existsSync(folderPaths.projectJson)) {
+    throw new Error(`No project.json found for '${source.value}'`);
+  }
+  const projectData = await projectSerializer.readProjectJson(folderPaths.projectJson);
+
+  return { projectId: projectData.id || path.basename(projectPath), projectData, folderPaths };
+}
+
+/**
+ * Find a micrograph by id, or by name when the name is unique
+ */
+function findMicrograph(projectData, nameOrId) {
+  const micrographs = [];
+  for (const dataset of projectData.datasets || []) {
+    for (const sample of dataset.samples || []) {
+      micrographs.push(...(sample.micrographs || []));
+    }
+  }
+
+  const byId = micrographs.find((m) => m.id === nameOrId);
+  if (byId) return byId;
+
+  const byName = micrographs.filter((m) => m.name === nameOrId);
+  if (byName.length === 1) return byName[0];
+  if (byName.length > 1) {
+    throw new Error(`Micrograph name '${nameOrId}' is ambiguous; use one of the ids: ${byName.map((m) => m.id).join(', ')}`);
+  }
+  throw new Error(`Micrograph '${nameOrId}' not found in project`);
+}
+
+async function ensureParentDir(filePath) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+}
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+/**
+ * Run one command against the open project
+ * @returns {Promise<Object>} Command result (without the command name)
+ */
+async function runCommand(command, project, deps) {
+  const { projectId, projectData, folderPaths } = project;
+
+  switch (command.command) {
+    case 'export-json': {
+      await ensureParentDir(command.outputPath);
+      const legacyProjectData = projectSerializer.serializeToLegacyFormat(projectData);
+      await fs.promises.writeFile(command.outputPath, JSON.stringify(legacyProjectData, null, 2), 'utf8');
+      return { success: true, filePath: command.outputPath };
+    }
+
+    case 'export-pdf': {
+      await ensureParentDir(command.outputPath);
+      await pdfProjectExport.generateProjectPDF(
+        command.outputPath,
+        projectData,
+        projectId,
+        folderPaths,
+        deps.generateCompositeBuffer,
+        phaseLogger('PDF')
+      );
+      return { success: true, filePath: command.outputPath };
+    }
+
+    case 'export-smz': {
+      await ensureParentDir(command.outputPath);
+      const pdfGenerator = async (outputPath, projData, projId, paths, progressCb) => {
+        await pdfProjectExport.generateProjectPDF(
+          outputPath,
+          projData,
+          projId,
+          paths,
+          deps.generateCompositeBuffer,
+          progressCb
+        );
+      };
+      return smzExport.exportSmz(
+        command.outputPath,
+        projectId,
+        projectData,
+        folderPaths,
+        phaseLogger('SMZ'),
+        pdfGenerator,
+        projectSerializer
+      );
+    }
+
+    case 'export-svg': {
+      const micrograph = findMicrograph(projectData, command.micrograph);
+      const { svg, width, height } = await svgExport.exportMicrographAsSvg(
+        projectId,
+        micrograph.id,
+        projectData,
+        folderPaths
+      );
+      await ensureParentDir(command.outputPath);
+      await fs.promises.writeFile(command.outputPath, svg, 'utf8');
+      return { success: true, micrographId: micrograph.id, filePath: command.outputPath, width, height };
+    }
+
+    case 'rebuild-tiles': {
+      let lastMicrograph = null;
+      return deps.rebuildProjectTiles(projectData, folderPaths, (progress) => {
+        if (progress.micrographName !== lastMicrograph) {
+          lastMicrograph = progress.micrographName;
+          log.info(`[Headless] Tiles ${progress.current}/${progress.total}: ${progress.micrographName}`);
+        }
+      });
+    }
+
+    case 'strabo-tools': {
+      const micrograph = findMicrograph(projectData, command.micrograph);
+      const imagePath = await deps.resolveImagePathWithLegacyFallback(
+        path.join(folderPaths.images, micrograph.imagePath || micrograph.id)
+      );
+
+      await scratchSpace.ensureScratchDir();
+      const result = await straboToolsMain.processFullResolution({
+        imagePath,
+        tool: command.tool,
+        toolParams: command.toolParams,
+        previewWidth: command.previewWidth,
+        progressCallback: phaseLogger(`StraboTools ${command.tool}`),
+      });
+
+      if (command.outputPath) {
+        await scratchSpace.moveToFinal(result.identifier, command.outputPath);
+      } else {
+        await scratchSpace.deleteScratchFile(result.identifier);
+      }
+
+      return {
+        success: true,
+        micrographId: micrograph.id,
+        width: result.width,
+        height: result.height,
+        analyticalResults: result.analyticalResults,
+        ...(command.outputPath ? { filePath: command.outputPath } : {}),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command.command}`);
+  }
+}
+
+// =============================================================================
+// ENTRY POINT
+// =============================================================================
+
+/**
+ * Run a headless session: open the project, run each command in order
+ * (continuing past failures) and write the JSON report.
+ *
+ * @param {string[]} argv - process.argv
+ * @param {Object} deps - Helpers that live in main.js
+ * @param {Function} deps.generateCompositeBuffer - Composite image generator for PDF export
+ * @param {Function} deps.rebuildProjectTiles - Tile cache rebuild
+ * @param {Function} deps.resolveImagePathWithLegacyFallback - Legacy uiImages fallback
+ * @returns {Promise<number>} Process exit code
+ */
+async function run(argv, deps) {
+  let parsed;
+  try {
+    parsed = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${USAGE}\n`);
+    await writeReport({ success: false, error: error.message });
+    return 2;
+  }
+
+  if (parsed.help) {
+    process.stderr.write(`${USAGE}\n`);
+    await writeReport({ success: true, usage: USAGE });
+    return 0;
+  }
+
+  let project;
+  try {
+    project = await openProject(parsed.source, parsed.overwrite);
+  } catch (error) {
+    log.error('[Headless] Failed to open project:', error);
+    await writeReport({ success: false, error: error.message, results: [] });
+    return 1;
+  }
+
+  const results = [];
+  for (const command of parsed.commands) {
+    log.info(`[Headless] Running ${command.command}`);
+    try {
+      results.push({ command: command.command, ...(await runCommand(command, project, deps)) });
+    } catch (error) {
+      log.error(`[Headless] ${command.command} failed:`, error);
+      results.push({ command: command.command, success: false, error: error.message });
+    }
+  }
+
+  const success = results.every((result) => result.success);
+  await writeReport({
+    success,
+    project: {
+      id: project.projectId,
+      name: project.projectData.name || null,
+      path: project.folderPaths.projectPath,
+    },
+    results,
+  });
+  return success ? 0 : 1;
+}
+
+module.exports = {
+  isHeadlessLaunch,
+  routeLogsToStderr,
+  run,
+};
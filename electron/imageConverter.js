@@ -736,4 +736,5 @@ module.exports = {
   isValidImage,
   validateImageFile,
   resizeScratchImage,
+  calculateDownscaledDimensions,
 };
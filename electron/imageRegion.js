@@ -0,0 +1,77 @@
+/**
+ * Image Region Reads
+ *
+ * Reads a rectangular block of an image file as raw pixels without decoding
+ * the rest of it: sharp extracts the window while streaming the file, so
+ * memory follows the size of the block rather than the image. Values come
+ * straight from the file (8 bits per channel), unlike the tile cache, whose
+ * WebP tiles and JPEG previews are lossy. Used where pixel values are
+ * measured (element map sampling) and where tools need an area of an image
+ * at full detail.
+ */
+
+const sharp = require('sharp');
+
+/**
+ * Read a block of an image as raw pixels.
+ *
+ * Grayscale images stay single-channel; everything else is returned as RGB.
+ * Alpha is dropped and higher bit depths are reduced to 8 bits.
+ *
+ * @param {string} filePath - Image file
+ * @param {Object} [options]
+ * @param {{ x: number, y: number, width: number, height: number }} [options.region] -
+ *   Block to read in image pixels (clamped to the image; whole image if omitted)
+ * @param {number} [options.maxSize] - Long edge the block is reduced to
+ * @param {string} [options.kernel] - sharp resize kernel for the reduction
+ *   ('nearest' keeps coded values such as angles intact)
+ * @returns {Promise<{ x: number, y: number, width: number, height: number,
+ *   regionWidth: number, regionHeight: number, channels: number, data: Buffer }>}
+ *   Block origin and size in image pixels, size as returned, and interleaved pixels
+ */
+async function readImageRegion(filePath, { region, maxSize, kernel } = {}) {
+  const metadata = await sharp(filePath, { limitInputPixels: false }).metadata();
+  let pipeline = sharp(filePath, { limitInputPixels: false });
+
+  let x = 0;
+  let y = 0;
+  let regionWidth = metadata.width;
+  let regionHeight = metadata.height;
+  if (region) {
+    x = Math.max(0, Math.min(metadata.width - 1, Math.floor(region.x)));
+    y = Math.max(0, Math.min(metadata.height - 1, Math.floor(region.y)));
+    regionWidth = Math.max(1, Math.min(metadata.width - x, Math.ceil(region.width)));
+    regionHeight = Math.max(1, Math.min(metadata.height - y, Math.ceil(region.height)));
+    pipeline = pipeline.extract({ left: x, top: y, width: regionWidth, height: regionHeight });
+  }
+  if (maxSize) {
+    pipeline = pipeline.resize({
+      width: maxSize,
+      height: maxSize,
+      fit: 'inside',
+      withoutEnlargement: true,
+      ...(kernel && { kernel }),
+    });
+  }
+
+  // Keep single-channel images single-channel (sharp outputs sRGB by default)
+  const grayscale = metadata.channels <= 2;
+  const { data, info } = await pipeline
+    .removeAlpha()
+    .toColourspace(grayscale ? 'b-w' : 'srgb')
+    .raw({ depth: 'uchar' })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    x,
+    y,
+    width: info.width,
+    height: info.height,
+    regionWidth,
+    regionHeight,
+    channels: info.channels,
+    data,
+  };
+}
+
+module.exports = { readImageRegion };
@@ -137,8 +137,17 @@ const autoUpdaterModule = require('./autoUpdater');
 const logService = require('./logService');
 const pointCountStorage = require('./pointCountStorage');
 const fastsamService = require('./fastsamService');
+const modelRegistry = require('./modelRegistry');
+const cocoExport = require('./cocoExport');
 const straboToolsMain = require('./straboToolsMain');
+const mosaicStitcher = require('./mosaicStitcher');
+const rotationSeries = require('./rotationSeries');
+const imageRegion = require('./imageRegion');
 const deepLink = require('./deepLink');
+const headless = require('./headless');
+
+// Headless batch mode (--headless): run command-line jobs without windows
+const isHeadless = headless.isHeadlessLaunch(process.argv);
 
 // Handle EPIPE errors at process level (prevents crash on broken stdout pipe)
 process.stdout.on('error', (err) => {
@@ -175,6 +184,11 @@ log.errorHandler.startCatching({
   }
 });
 
+// Headless mode keeps stdout for its JSON report
+if (isHeadless) {
+  headless.routeLogsToStderr();
+}
+
 // Log application startup
 log.info('StraboMicro application starting...');
 log.info(`Electron version: ${process.versions.electron}`);
@@ -286,7 +300,8 @@ app.on('open-url', (event, url) => {
 
 // Windows/Linux: Single instance lock and command line argument handling
 // When a second instance tries to open, we get the file path from argv
-const gotTheLock = app.requestSingleInstanceLock();
+// Headless runs are independent batch jobs and may run alongside the app
+const gotTheLock = isHeadless || app.requestSingleInstanceLock();
 
 if (!gotTheLock) {
   // Another instance is already running; it receives the second-instance
@@ -299,7 +314,7 @@ if (!gotTheLock) {
   // already running).
   log.info('[FileAssoc] Another instance is running, exiting');
   app.exit(0);
-} else {
+} else if (!isHeadless) {
   // We got the lock, handle second-instance events
   app.on('second-instance', (event, argv, workingDirectory) => {
     log.info('[FileAssoc] second-instance event, argv:', argv);
@@ -746,6 +761,22 @@ function createWindow() {
             }
           }
         },
+        {
+          label: 'Export Training Dataset (COCO)...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:export-coco-dataset');
+            }
+          }
+        },
+        {
+          label: 'Import Segmentation Predictions (COCO)...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:import-coco-predictions');
+            }
+          }
+        },
         { type: 'separator' },
         {
           label: 'Preferences...',
@@ -834,6 +865,30 @@ function createWindow() {
             }
           }
         },
+        {
+          label: 'Line Intercept Grain Size...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:line-intercept');
+            }
+          }
+        },
+        {
+          label: 'Fry Strain Analysis...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:fry-analysis');
+            }
+          }
+        },
+        {
+          label: 'Grain Boundary Network...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:grain-boundary-network');
+            }
+          }
+        },
         {
           label: 'StraboTools...',
           accelerator: 'CmdOrCtrl+Shift+T',
@@ -843,6 +898,30 @@ function createWindow() {
             }
           }
         },
+        {
+          label: 'Element Maps...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:element-maps');
+            }
+          }
+        },
+        {
+          label: 'Rotation Series...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:rotation-series');
+            }
+          }
+        },
+        {
+          label: 'Phase Classification...',
+          click: () => {
+            if (mainWindow) {
+              mainWindow.webContents.send('menu:phase-classification');
+            }
+          }
+        },
         { type: 'separator' },
         {
           label: 'Rebuild Tile Cache...',
@@ -1501,6 +1580,17 @@ function createWindow() {
 let buildMenuFn = null;
 
 app.whenReady().then(async () => {
+  if (isHeadless) {
+    if (app.dock) app.dock.hide();
+    const exitCode = await headless.run(process.argv, {
+      generateCompositeBuffer,
+      rebuildProjectTiles,
+      resolveImagePathWithLegacyFallback,
+    });
+    app.exit(exitCode);
+    return;
+  }
+
   const isDev = !app.isPackaged;
 
   // Enable cross-origin isolation for WebAssembly multi-threading.
@@ -1958,7 +2048,7 @@ ipcMain.handle('micrograph:export-composite', async (event, projectId, micrograp
         }
 
         // Handle affine-transformed overlays specially - load pre-transformed image from cache
-        if (child.placementType === 'affine' && child.affineTileHash) {
+        if (placementWarp.isWarpedPlacement(child.placementType) && child.affineTileHash) {
           log.info(`[IPC] Loading affine overlay ${child.id} from cache`);
           const tileCache = require('./tileCache');
           const affineBuffer = await tileCache.loadAffineMedium(child.affineTileHash);
@@ -2216,7 +2306,10 @@ ipcMain.handle('micrograph:export-composite', async (event, projectId, micrograp
               ? (spot.geometry.coordinates[0] || [])
               : spot.points?.map(p => [p.X ?? 0, p.Y ?? 0]) || [];
 
-            if (coords.length >= 3) {
+            const ringsPath = svgExport.getSpotRingsPathData(spot);
+            if (ringsPath) {
+              svgParts.push(`<path d="${ringsPath}" fill-rule="evenodd" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
+            } else if (coords.length >= 3) {
               const pointsStr = coords.map(c => `${c[0]},${c[1]}`).join(' ');
               svgParts.push(`<polygon points="${pointsStr}" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
             }
@@ -2555,6 +2648,7 @@ const tileCache = require('./tileCache');
 const tileGenerator = require('./tileGenerator');
 const tileQueue = require('./tileQueue');
 const affineTileGenerator = require('./affineTileGenerator');
+const placementWarp = require('./placementWarp');
 
 /**
  * Resolve image path with fallback to uiImages for legacy projects.
@@ -2765,6 +2859,56 @@ ipcMain.handle('image:load-tiles-batch', async (event, imageHash, tiles) => {
   }
 });
 
+/**
+ * Load a region of the full-resolution image, downscaled to fit maxSize.
+ * Used by tools that run models on the area around the viewport.
+ * Region is in original image pixels and is clamped to the image.
+ */
+ipcMain.handle('image:load-region', async (event, imageHash, region, maxSize) => {
+  try {
+    const metadata = await tileCache.loadMetadata(imageHash);
+    if (!metadata) {
+      throw new Error(`Metadata not found for hash: ${imageHash}`);
+    }
+
+    // Extract just the block from the original file, so memory follows the
+    // region rather than the image and repeated reads need no cached decode
+    const block = await imageRegion.readImageRegion(metadata.originalPath, { region, maxSize });
+    const data = await sharp(block.data, {
+      raw: { width: block.width, height: block.height, channels: block.channels },
+    })
+      .png()
+      .toBuffer();
+
+    return {
+      dataUrl: `data:image/png;base64,${data.toString('base64')}`,
+      x: block.x,
+      y: block.y,
+      regionWidth: block.regionWidth,
+      regionHeight: block.regionHeight,
+      width: block.width,
+      height: block.height,
+    };
+  } catch (error) {
+    log.error('Error loading image region:', error);
+    throw error;
+  }
+});
+
+/**
+ * Read a block of an image file as raw 8-bit pixels, straight from the file
+ * rather than the lossy tile cache. Used where pixel values are measured.
+ * Region is in image pixels and is clamped to the image.
+ */
+ipcMain.handle('image:read-region', async (event, imagePath, region) => {
+  try {
+    return await imageRegion.readImageRegion(imagePath, { region });
+  } catch (error) {
+    log.error('Error reading image region:', error);
+    throw error;
+  }
+});
+
 /**
  * Get cache statistics
  */
@@ -2818,16 +2962,18 @@ ipcMain.handle('image:clear-all-caches', async () => {
 });
 
 // ========== Affine Tile Handlers ==========
-// These handlers support pre-transformed tiles for 3-point registration placement
+// These handlers support pre-transformed tiles for control point placement
+// (affine, projective and thin-plate spline overlays all bake into the affine cache)
 
 /**
  * Generate affine-transformed tiles for an overlay image
- * Used when placing overlays using 3-point registration
+ * Used when placing overlays using control point registration. `warp` is the
+ * non-affine warp for projective / thin-plate spline placement (null for affine).
  */
-ipcMain.handle('tiles:generate-affine', async (event, imagePath, imageHash, affineMatrix) => {
+ipcMain.handle('tiles:generate-affine', async (event, imagePath, imageHash, affineMatrix, warp = null) => {
   try {
     log.info(`[Affine] Generating tiles for: ${imagePath}`);
-    log.info(`[Affine] Matrix: [${affineMatrix.join(', ')}]`);
+    log.info(`[Affine] Matrix: [${affineMatrix.join(', ')}]${warp ? `, warp: ${warp.type}` : ''}`);
 
     // Generate progress channel for this request
     const progressChannel = `affine-progress-${Date.now()}`;
@@ -2839,7 +2985,8 @@ ipcMain.handle('tiles:generate-affine', async (event, imagePath, imageHash, affi
       affineMatrix,
       (progress) => {
         event.sender.send(progressChannel, progress);
-      }
+      },
+      warp
     );
 
     log.info(`[Affine] Tile generation complete: ${metadata.totalTiles} tiles`);
@@ -2865,14 +3012,14 @@ const affineGenerationInFlight = new Map();
  * overlay failed to render with "Affine thumbnail not found". This rebuilds them
  * under the SAME hash the renderer reads from (the micrograph's affineTileHash).
  */
-ipcMain.handle('tiles:ensure-affine-tiles', async (event, imagePath, imageHash, affineMatrix) => {
+ipcMain.handle('tiles:ensure-affine-tiles', async (event, imagePath, imageHash, affineMatrix, warp = null) => {
   try {
     if (!imageHash || !Array.isArray(affineMatrix) || affineMatrix.length !== 6) {
       return { success: false, error: 'Missing image hash or affine matrix' };
     }
 
     // Fast path: tiles already baked with a matching matrix — nothing to do.
-    if (await affineTileGenerator.hasMatchingAffineTiles(imageHash, affineMatrix)) {
+    if (await affineTileGenerator.hasMatchingAffineTiles(imageHash, affineMatrix, warp)) {
       return { success: true, regenerated: false };
     }
 
@@ -2884,7 +3031,7 @@ ipcMain.handle('tiles:ensure-affine-tiles', async (event, imagePath, imageHash,
         log.info(`[Affine] Regenerating missing affine tiles for ${imageHash} from ${resolvedPath}`);
         // Drop any stale/partial affine subdir before re-baking under this hash.
         await tileCache.deleteAffineTiles(imageHash);
-        await affineTileGenerator.generateAffineTiles(resolvedPath, imageHash, affineMatrix);
+        await affineTileGenerator.generateAffineTiles(resolvedPath, imageHash, affineMatrix, null, warp);
       })().finally(() => affineGenerationInFlight.delete(imageHash));
       affineGenerationInFlight.set(imageHash, pending);
     }
@@ -2900,107 +3047,128 @@ ipcMain.handle('tiles:ensure-affine-tiles', async (event, imagePath, imageHash,
 /**
  * Force-rebuild the tile cache for every micrograph in a project.
  *
- * Streams progress events on `tiles:rebuild-progress` so a renderer dialog can
- * show per-micrograph status. Micrographs without a scale set (e.g. batch
- * imports awaiting setup) are skipped — they have no tile cache to rebuild.
- */
-ipcMain.handle('tiles:rebuild-project', async (event, projectId, projectData) => {
-  try {
-    log.info(`[RebuildTiles] Starting full rebuild for project: ${projectId}`);
-
-    const allMicrographs = collectAllMicrographs(projectData);
-    const rebuildable = allMicrographs.filter(({ micrograph }) =>
-      micrograph.imagePath &&
-      micrograph.scalePixelsPerCentimeter !== undefined &&
-      micrograph.scalePixelsPerCentimeter !== null
-    );
-    const total = rebuildable.length;
-    const skipped = allMicrographs.length - total;
-
-    if (total === 0) {
-      return { success: false, error: 'No rebuildable micrographs found in project', skipped };
-    }
+ * Reports per-micrograph status through onProgress. Micrographs without a
+ * scale set (e.g. batch imports awaiting setup) are skipped — they have no
+ * tile cache to rebuild. Shared by the IPC handler and headless mode.
+ *
+ * @param {Object} projectData - Project data
+ * @param {Object} folderPaths - Project folder paths
+ * @param {Function} onProgress - Receives tiles:rebuild-progress payloads
+ */
+async function rebuildProjectTiles(projectData, folderPaths, onProgress) {
+  const allMicrographs = collectAllMicrographs(projectData);
+  const rebuildable = allMicrographs.filter(({ micrograph }) =>
+    micrograph.imagePath &&
+    micrograph.scalePixelsPerCentimeter !== undefined &&
+    micrograph.scalePixelsPerCentimeter !== null
+  );
+  const total = rebuildable.length;
+  const skipped = allMicrographs.length - total;
 
-    log.info(`[RebuildTiles] ${total} micrographs to rebuild (${skipped} skipped — no scale set)`);
+  if (total === 0) {
+    return { success: false, error: 'No rebuildable micrographs found in project', skipped };
+  }
 
-    const folderPaths = await projectFolders.getProjectFolderPaths(projectId);
-    const imagesDir = folderPaths.images;
-    const errors = [];
+  log.info(`[RebuildTiles] ${total} micrographs to rebuild (${skipped} skipped — no scale set)`);
 
-    for (let i = 0; i < total; i++) {
-      const { micrograph } = rebuildable[i];
-      const micrographName = micrograph.name || 'Unnamed';
-      const current = i + 1;
+  const imagesDir = folderPaths.images;
+  const errors = [];
 
-      try {
-        // Resolve the image path. imagePath is stored as the micrograph ID; resolve to absolute.
-        const candidatePath = path.join(imagesDir, micrograph.imagePath);
-        const resolvedPath = await resolveImagePathWithLegacyFallback(candidatePath);
-        const hash = await tileCache.generateImageHash(resolvedPath);
+  for (let i = 0; i < total; i++) {
+    const { micrograph } = rebuildable[i];
+    const micrographName = micrograph.name || 'Unnamed';
+    const current = i + 1;
 
-        // Wipe the regular image cache (tiles, thumbnail, medium) under the project-path
-        // hash. Affine tiles usually live under a different hash and are cleared separately
-        // below before being re-baked.
-        await tileCache.clearImageCache(hash);
+    try {
+      // Resolve the image path. imagePath is stored as the micrograph ID; resolve to absolute.
+      const candidatePath = path.join(imagesDir, micrograph.imagePath);
+      const resolvedPath = await resolveImagePathWithLegacyFallback(candidatePath);
+      const hash = await tileCache.generateImageHash(resolvedPath);
+
+      // Wipe the regular image cache (tiles, thumbnail, medium) under the project-path
+      // hash. Affine tiles usually live under a different hash and are cleared separately
+      // below before being re-baked.
+      await tileCache.clearImageCache(hash);
+
+      onProgress({
+        current, total, micrographName,
+        phase: 'regular',
+        tilesGenerated: 0,
+        totalTiles: 0,
+        status: 'processing',
+      });
 
-        event.sender.send('tiles:rebuild-progress', {
+      // Regenerate regular tiles with per-tile progress.
+      await tileGenerator.processImageComplete(resolvedPath, (tilesDone, totalTiles) => {
+        onProgress({
           current, total, micrographName,
           phase: 'regular',
-          tilesGenerated: 0,
-          totalTiles: 0,
+          tilesGenerated: tilesDone,
+          totalTiles,
           status: 'processing',
         });
+      });
 
-        // Regenerate regular tiles with per-tile progress.
-        await tileGenerator.processImageComplete(resolvedPath, (tilesDone, totalTiles) => {
-          event.sender.send('tiles:rebuild-progress', {
-            current, total, micrographName,
-            phase: 'regular',
-            tilesGenerated: tilesDone,
-            totalTiles,
-            status: 'processing',
-          });
-        });
-
-        // Regenerate affine tiles if this micrograph uses 3-point registration.
-        if (micrograph.affineMatrix && micrograph.placementType === 'affine') {
-          event.sender.send('tiles:rebuild-progress', {
-            current, total, micrographName,
-            phase: 'affine',
-            tilesGenerated: 0,
-            totalTiles: 0,
-            status: 'processing',
-          });
-          // Affine tiles live under affineTileHash (computed from the scratch path at
-          // registration time), which is usually a DIFFERENT cache dir than the regular
-          // project-path hash cleared above. Regenerate under that same hash — and clear
-          // its affine subdir first — so the renderer actually finds the rebuilt tiles.
-          const affineHash = micrograph.affineTileHash || hash;
-          await tileCache.deleteAffineTiles(affineHash);
-          await affineTileGenerator.generateAffineTiles(resolvedPath, affineHash, micrograph.affineMatrix);
-        }
-      } catch (err) {
-        log.error(`[RebuildTiles] Failed for ${micrographName}:`, err);
-        errors.push({ micrographName, error: err.message });
-        event.sender.send('tiles:rebuild-progress', {
+      // Regenerate affine tiles if this micrograph is placed by control points.
+      if (micrograph.affineMatrix && placementWarp.isWarpedPlacement(micrograph.placementType)) {
+        onProgress({
           current, total, micrographName,
-          phase: 'regular',
+          phase: 'affine',
           tilesGenerated: 0,
           totalTiles: 0,
-          status: 'error',
-          error: err.message,
+          status: 'processing',
         });
+        // Affine tiles live under affineTileHash (computed from the scratch path at
+        // registration time), which is usually a DIFFERENT cache dir than the regular
+        // project-path hash cleared above. Regenerate under that same hash — and clear
+        // its affine subdir first — so the renderer actually finds the rebuilt tiles.
+        const affineHash = micrograph.affineTileHash || hash;
+        await tileCache.deleteAffineTiles(affineHash);
+        await affineTileGenerator.generateAffineTiles(
+          resolvedPath,
+          affineHash,
+          micrograph.affineMatrix,
+          null,
+          placementWarp.getMicrographWarp(micrograph)
+        );
       }
+    } catch (err) {
+      log.error(`[RebuildTiles] Failed for ${micrographName}:`, err);
+      errors.push({ micrographName, error: err.message });
+      onProgress({
+        current, total, micrographName,
+        phase: 'regular',
+        tilesGenerated: 0,
+        totalTiles: 0,
+        status: 'error',
+        error: err.message,
+      });
     }
+  }
 
-    log.info(`[RebuildTiles] Complete. ${total - errors.length}/${total} succeeded, ${skipped} skipped`);
-    return {
-      success: errors.length === 0,
-      total,
-      skipped,
-      succeeded: total - errors.length,
-      errors,
-    };
+  log.info(`[RebuildTiles] Complete. ${total - errors.length}/${total} succeeded, ${skipped} skipped`);
+  return {
+    success: errors.length === 0,
+    total,
+    skipped,
+    succeeded: total - errors.length,
+    errors,
+  };
+}
+
+/**
+ * Force-rebuild the tile cache for every micrograph in a project.
+ *
+ * Streams progress events on `tiles:rebuild-progress` so a renderer dialog can
+ * show per-micrograph status.
+ */
+ipcMain.handle('tiles:rebuild-project', async (event, projectId, projectData) => {
+  try {
+    log.info(`[RebuildTiles] Starting full rebuild for project: ${projectId}`);
+    const folderPaths = await projectFolders.getProjectFolderPaths(projectId);
+    return await rebuildProjectTiles(projectData, folderPaths, (progress) => {
+      event.sender.send('tiles:rebuild-progress', progress);
+    });
   } catch (error) {
     log.error('[RebuildTiles] Unexpected error:', error);
     return { success: false, error: error.message };
@@ -3822,7 +3990,7 @@ ipcMain.handle('composite:generate-thumbnail', async (event, projectId, microgra
         }
 
         // Handle affine-transformed overlays specially - load pre-transformed image from cache
-        if (child.placementType === 'affine' && child.affineTileHash) {
+        if (placementWarp.isWarpedPlacement(child.placementType) && child.affineTileHash) {
           log.info(`[IPC] Loading affine overlay ${child.id} for thumbnail from cache`);
           const tileCache = require('./tileCache');
           const affineBuffer = await tileCache.loadAffineMedium(child.affineTileHash);
@@ -4847,7 +5015,7 @@ async function generateCompositeBuffer(projectId, micrograph, projectData, folde
       }
 
       // Handle affine-placed overlays specially
-      if (child.placementType === 'affine') {
+      if (placementWarp.isWarpedPlacement(child.placementType)) {
         try {
           const affineTileHash = child.affineTileHash;
           if (!affineTileHash) {
@@ -5113,7 +5281,10 @@ async function generateCompositeBuffer(projectId, micrograph, projectData, folde
           const coords = Array.isArray(spot.geometry?.coordinates)
             ? (spot.geometry.coordinates[0] || [])
             : spot.points?.map(p => [p.X ?? 0, p.Y ?? 0]) || [];
-          if (coords.length >= 3) {
+          const ringsPath = svgExport.getSpotRingsPathData(spot);
+          if (ringsPath) {
+            svgParts.push(`<path d="${ringsPath}" fill-rule="evenodd" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
+          } else if (coords.length >= 3) {
             const pointsStr = coords.map(c => `${c[0]},${c[1]}`).join(' ');
             svgParts.push(`<polygon points="${pointsStr}" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
           }
@@ -5313,6 +5484,81 @@ ipcMain.handle('project:export-all-images', async (event, projectId, projectData
   }
 });
 
+/**
+ * Export a COCO training dataset planned by the renderer into a folder.
+ * Sends progress updates to renderer via IPC
+ */
+ipcMain.handle('coco:export-dataset', async (event, projectId, plan) => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Choose Folder for Training Dataset',
+      buttonLabel: 'Export Here',
+      properties: ['openDirectory', 'createDirectory']
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const outputDir = result.filePaths[0];
+    log.info(`[CocoExport] Exporting ${plan.images.length} images for project ${projectId} to ${outputDir}`);
+
+    const folderPaths = await projectFolders.getProjectFolderPaths(projectId);
+    const { exported, errors } = await cocoExport.writeCocoDataset(
+      plan,
+      outputDir,
+      folderPaths.images,
+      resolveImagePathWithLegacyFallback,
+      (progress) => event.sender.send('coco:export-progress', progress)
+    );
+
+    event.sender.send('coco:export-progress', {
+      current: plan.images.length,
+      total: plan.images.length,
+      currentName: '',
+      status: 'complete'
+    });
+
+    return {
+      success: true,
+      folderPath: outputDir,
+      exported,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  } catch (error) {
+    log.error('[CocoExport] Export failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * Open and parse a COCO JSON file (predictions or dataset)
+ */
+ipcMain.handle('coco:open-json', async (event, title) => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: title || 'Open COCO JSON',
+      filters: [
+        { name: 'COCO JSON', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const filePath = result.filePaths[0];
+    const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    log.info(`[CocoImport] Opened ${filePath}`);
+    return { success: true, filePath, data };
+  } catch (error) {
+    log.error('[CocoImport] Failed to open COCO JSON:', error);
+    return { success: false, error: error.message };
+  }
+});
+
 /**
  * Convert SimpleCoord to legacy format (uppercase X/Y)
  */
@@ -6605,6 +6851,81 @@ ipcMain.handle('fastsam:load-model-bytes', async () => {
   }
 });
 
+// ============================================================================
+// Segmentation Model Registry
+// User-registered ONNX models (inference runs in the renderer like FastSAM)
+// ============================================================================
+
+/**
+ * List registered segmentation models
+ */
+ipcMain.handle('models:list', async () => {
+  try {
+    return { success: true, models: modelRegistry.listModels() };
+  } catch (error) {
+    log.error('[ModelRegistry] Error listing models:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * Pick a model manifest and register it
+ */
+ipcMain.handle('models:register', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: 'Select Model Manifest',
+    filters: [
+      { name: 'Model Manifest', extensions: ['json'] },
+      { name: 'All Files', extensions: ['*'] }
+    ],
+    properties: ['openFile']
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const model = modelRegistry.registerModel(result.filePaths[0]);
+    log.info('[ModelRegistry] Registered model:', model.manifest.name);
+    return { success: true, model };
+  } catch (error) {
+    log.error('[ModelRegistry] Registration failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * Remove a model from the registry (model files are kept)
+ */
+ipcMain.handle('models:remove', async (event, id) => {
+  try {
+    modelRegistry.removeModel(id);
+    return { success: true };
+  } catch (error) {
+    log.error('[ModelRegistry] Error removing model:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * Read a registered model's bytes for onnxruntime-web in the renderer
+ */
+ipcMain.handle('models:load-bytes', async (event, id) => {
+  try {
+    const modelPath = modelRegistry.getModelPath(id);
+    if (!modelPath || !fs.existsSync(modelPath)) {
+      return { success: false, error: 'Model file not found' };
+    }
+    log.info('[ModelRegistry] Reading model file:', modelPath);
+    const buffer = await fs.promises.readFile(modelPath);
+    return { success: true, buffer };
+  } catch (error) {
+    log.error('[ModelRegistry] Error reading model file:', error);
+    return { success: false, error: error.message };
+  }
+});
+
 // ========== StraboTools Full-Resolution Processing ==========
 
 ipcMain.handle('strabo-tools:process-full-resolution', async (event, params) => {
@@ -6635,3 +6956,58 @@ ipcMain.handle('strabo-tools:overwrite-image', async (event, { identifier, targe
     return { success: false, error: error.message };
   }
 });
+
+// ========== Mosaic Stitching ==========
+
+ipcMain.handle('mosaic:stitch', async (event, params) => {
+  try {
+    const result = await mosaicStitcher.stitchMosaic({
+      ...params,
+      progressCallback: (progress) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('mosaic:progress', progress);
+        }
+      },
+    });
+    return { success: true, ...result };
+  } catch (error) {
+    log.error('[MosaicStitcher] Stitching error:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ========== Rotation Series ==========
+
+ipcMain.handle('rotation-series:compute-maps', async (event, params) => {
+  try {
+    const { projectId, ...rest } = params;
+    const folderPaths = await projectFolders.getProjectFolderPaths(projectId);
+    const result = await rotationSeries.computeRotationMaps({
+      ...rest,
+      outputDir: folderPaths.associatedFiles,
+      progressCallback: (progress) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('rotation-series:progress', progress);
+        }
+      },
+    });
+    return { success: true, ...result };
+  } catch (error) {
+    log.error('[RotationSeries] Map computation error:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('rotation-series:read-map', async (event, { projectId, fileName, region, maxSize }) => {
+  try {
+    const folderPaths = await projectFolders.getProjectFolderPaths(projectId);
+    const result = await rotationSeries.readRotationMap(
+      path.join(folderPaths.associatedFiles, path.basename(fileName)),
+      { region, maxSize }
+    );
+    return { success: true, ...result };
+  } catch (error) {
+    log.error('[RotationSeries] Map read error:', error);
+    return { success: false, error: error.message };
+  }
+});
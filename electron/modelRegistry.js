@@ -0,0 +1,233 @@
+/**
+ * Segmentation Model Registry (Main Process)
+ *
+ * Keeps track of user-registered ONNX segmentation models. Each model is
+ * described by a JSON manifest next to the .onnx file:
+ *
+ *   {
+ *     "name": "Granite phases v2",
+ *     "model": "granite-phases.onnx",
+ *     "input": { "size": 512, "mean": [0.485, 0.456, 0.406], "std": [0.229, 0.224, 0.225] },
+ *     "output": {
+ *       "type": "semantic",
+ *       "classes": [
+ *         { "index": 0, "name": "Background", "background": true },
+ *         { "index": 1, "name": "Quartz", "mineral": "Quartz" }
+ *       ]
+ *     }
+ *   }
+ *
+ * Output types:
+ * - instance-masks: YOLOv8-seg outputs (detections + mask prototypes), like FastSAM
+ * - semantic: per-pixel class scores [1, C, H, W] or class indices [1, H, W]
+ * - boundary: grain boundary probability [1, 1, H, W]
+ *
+ * The registry itself is a JSON file in the user data directory; model
+ * files stay where the user keeps them. Inference runs in the renderer.
+ *
+ * @module modelRegistry
+ */
+
+const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const { app } = require('electron');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const REGISTRY_FILENAME = 'registry.json';
+
+const OUTPUT_TYPES = ['instance-masks', 'semantic', 'boundary'];
+
+const DEFAULT_INPUT = {
+  size: 1024,
+  mean: [0, 0, 0],
+  std: [1, 1, 1],
+  channelOrder: 'rgb',
+};
+
+const DEFAULT_BOUNDARY_THRESHOLD = 0.5;
+
+// ============================================================================
+// Registry File
+// ============================================================================
+
+function getRegistryPath() {
+  return path.join(app.getPath('userData'), 'models', REGISTRY_FILENAME);
+}
+
+function readRegistry() {
+  const registryPath = getRegistryPath();
+  if (!fs.existsSync(registryPath)) {
+    return [];
+  }
+  try {
+    const entries = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.error('[ModelRegistry] Failed to read registry:', error);
+    return [];
+  }
+}
+
+function writeRegistry(entries) {
+  const registryPath = getRegistryPath();
+  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+  fs.writeFileSync(registryPath, JSON.stringify(entries, null, 2));
+}
+
+// ============================================================================
+// Manifest Validation
+// ============================================================================
+
+function isNumberTriple(value) {
+  return Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && isFinite(v));
+}
+
+/**
+ * Validate a parsed manifest and fill in defaults.
+ *
+ * @param {object} raw - Parsed manifest JSON
+ * @returns {object} Normalized manifest
+ * @throws {Error} Describing the first problem found
+ */
+function validateManifest(raw) {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Manifest must be a JSON object');
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    throw new Error('Manifest is missing "name"');
+  }
+  if (typeof raw.model !== 'string' || !raw.model.trim()) {
+    throw new Error('Manifest is missing "model" (path to the .onnx file)');
+  }
+
+  const input = { ...DEFAULT_INPUT, ...(raw.input || {}) };
+  if (!Number.isInteger(input.size) || input.size < 32 || input.size > 4096) {
+    throw new Error('"input.size" must be an integer between 32 and 4096');
+  }
+  if (!isNumberTriple(input.mean) || !isNumberTriple(input.std) || input.std.some((v) => v === 0)) {
+    throw new Error('"input.mean" and "input.std" must be three numbers (std non-zero)');
+  }
+  if (input.channelOrder !== 'rgb' && input.channelOrder !== 'bgr') {
+    throw new Error('"input.channelOrder" must be "rgb" or "bgr"');
+  }
+
+  const output = raw.output || {};
+  if (!OUTPUT_TYPES.includes(output.type)) {
+    throw new Error(`"output.type" must be one of: ${OUTPUT_TYPES.join(', ')}`);
+  }
+
+  const normalizedOutput = { type: output.type };
+  if (output.type === 'semantic') {
+    if (!Array.isArray(output.classes) || output.classes.length === 0) {
+      throw new Error('Semantic models need an "output.classes" list');
+    }
+    const seen = new Set();
+    normalizedOutput.classes = output.classes.map((cls) => {
+      if (!Number.isInteger(cls.index) || cls.index < 0 || typeof cls.name !== 'string' || !cls.name.trim()) {
+        throw new Error('Each class needs an integer "index" and a "name"');
+      }
+      if (seen.has(cls.index)) {
+        throw new Error(`Class index ${cls.index} is listed twice`);
+      }
+      seen.add(cls.index);
+      return {
+        index: cls.index,
+        name: cls.name,
+        mineral: typeof cls.mineral === 'string' && cls.mineral.trim() ? cls.mineral : undefined,
+        background: cls.background === true,
+      };
+    });
+  } else if (output.type === 'boundary') {
+    const threshold = output.threshold ?? DEFAULT_BOUNDARY_THRESHOLD;
+    if (typeof threshold !== 'number' || threshold <= 0 || threshold >= 1) {
+      throw new Error('"output.threshold" must be between 0 and 1');
+    }
+    normalizedOutput.threshold = threshold;
+    normalizedOutput.sigmoid = output.sigmoid === true;
+  }
+
+  return {
+    name: raw.name.trim(),
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    model: raw.model,
+    input,
+    output: normalizedOutput,
+  };
+}
+
+// ============================================================================
+// Model Management
+// ============================================================================
+
+/**
+ * List registered models, flagging those whose files have gone missing.
+ */
+function listModels() {
+  return readRegistry().map((entry) => ({
+    ...entry,
+    available: fs.existsSync(entry.modelPath),
+  }));
+}
+
+/**
+ * Register a model from its manifest file. Registering the same manifest
+ * again refreshes its entry.
+ *
+ * @param {string} manifestPath - Path to the manifest JSON
+ * @returns {object} The registry entry
+ */
+function registerModel(manifestPath) {
+  let raw;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read manifest: ${error.message}`);
+  }
+
+  const manifest = validateManifest(raw);
+  const modelPath = path.resolve(path.dirname(manifestPath), manifest.model);
+  if (!fs.existsSync(modelPath)) {
+    throw new Error(`Model file not found: ${modelPath}`);
+  }
+
+  const entries = readRegistry();
+  const existing = entries.find((entry) => entry.manifestPath === manifestPath);
+  const entry = {
+    id: existing ? existing.id : crypto.randomUUID(),
+    manifestPath,
+    modelPath,
+    manifest,
+    registeredAt: new Date().toISOString(),
+  };
+
+  writeRegistry(existing ? entries.map((e) => (e.id === entry.id ? entry : e)) : [...entries, entry]);
+  console.log('[ModelRegistry] Registered model:', manifest.name, modelPath);
+  return { ...entry, available: true };
+}
+
+/**
+ * Remove a model from the registry (its files are left alone).
+ */
+function removeModel(id) {
+  writeRegistry(readRegistry().filter((entry) => entry.id !== id));
+}
+
+/**
+ * Get the ONNX file path of a registered model.
+ */
+function getModelPath(id) {
+  const entry = readRegistry().find((e) => e.id === id);
+  return entry ? entry.modelPath : null;
+}
+
+module.exports = {
+  validateManifest,
+  listModels,
+  registerModel,
+  removeModel,
+  getModelPath,
+};
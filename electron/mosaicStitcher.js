@@ -0,0 +1,709 @@
+/**
+ * Mosaic Stitcher
+ *
+ * Stitches a grid of overlapping camera fields (converted scratch JPEGs) into
+ * one image:
+ * 1. Each pair of neighboring fields is aligned by phase correlation over the
+ *    strip where they are expected to overlap, and the alignment is checked
+ *    by normalized cross-correlation of the actual overlap.
+ * 2. Field positions are found by a weighted least-squares fit to all pairwise
+ *    offsets, so errors are spread over the grid instead of accumulating.
+ *    Pairs that could not be aligned fall back to the nominal grid offset.
+ * 3. Fields are feather-blended (weights fall off linearly toward each field's
+ *    edges) band by band, so only the fields crossing the current band are
+ *    held in memory.
+ *
+ * The result is written to scratch space at the same size limit and JPEG
+ * quality as imageConverter, ready to be moved into a project.
+ */
+
+const sharp = require('sharp');
+const log = require('electron-log');
+const scratchSpace = require('./scratchSpace');
+const imageConverter = require('./imageConverter');
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Long edge (px) fields are reduced to for measuring offsets */
+const ANALYSIS_SIZE = 1024;
+
+/** Strip searched for the overlap, beyond the nominal overlap (fraction of field size) */
+const SEARCH_MARGIN = 0.05;
+
+/** Pixels over which correlated regions fade to zero at their borders */
+const TAPER_WIDTH = 8;
+
+/** Phase correlation peaks checked by cross-correlation */
+const CANDIDATE_PEAKS = 4;
+
+/** Smallest overlap (fraction of the field's side) a candidate offset may leave */
+const MIN_OVERLAP_FRACTION = 0.01;
+
+/** Cross-correlation below which a measured offset is not trusted */
+const MIN_CORRELATION = 0.3;
+
+/** Weight of a nominal (unmeasured) offset relative to a measured one */
+const NOMINAL_WEIGHT = 0.05;
+
+/** Largest disagreement (analysis px) a measured offset may have with the global fit */
+const MAX_RESIDUAL = 3;
+
+/** Output rows blended at a time */
+const BAND_HEIGHT = 256;
+
+const PREVIEW_SIZE = 800;
+
+const LUMINANCE_R = 0.2989;
+const LUMINANCE_G = 0.5870;
+const LUMINANCE_B = 0.1140;
+
+// ─── FFT ─────────────────────────────────────────────────────────────────────
+
+function nextPowerOfTwo(n) {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
+
+/**
+ * In-place iterative radix-2 FFT of a power-of-two length signal.
+ * @param {Float64Array} re
+ * @param {Float64Array} im
+ * @param {boolean} inverse
+ */
+function fft1d(re, im, inverse) {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    const half = len >> 1;
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * In-place 2D FFT (rows, then columns) of a width x height signal.
+ */
+function fft2d(re, im, width, height, inverse) {
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    for (let x = 0; x < width; x++) {
+      rowRe[x] = re[offset + x];
+      rowIm[x] = im[offset + x];
+    }
+    fft1d(rowRe, rowIm, inverse);
+    for (let x = 0; x < width; x++) {
+      re[offset + x] = rowRe[x];
+      im[offset + x] = rowIm[x];
+    }
+  }
+
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    fft1d(colRe, colIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
+  }
+}
+
+// ─── Pairwise Alignment ──────────────────────────────────────────────────────
+
+/**
+ * Load a field as grayscale at analysis scale.
+ * @returns {Promise<{ data: Float32Array, width: number, height: number }>}
+ */
+async function loadAnalysisImage(imagePath, scale) {
+  const metadata = await sharp(imagePath).metadata();
+  const { data, info } = await sharp(imagePath)
+    .resize(Math.max(1, Math.round(metadata.width * scale)), Math.max(1, Math.round(metadata.height * scale)), {
+      fit: 'fill',
+    })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixelCount = info.width * info.height;
+  const gray = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const p = i * info.channels;
+    gray[i] = info.channels >= 3
+      ? LUMINANCE_R * data[p] + LUMINANCE_G * data[p + 1] + LUMINANCE_B * data[p + 2]
+      : data[p];
+  }
+  return { data: gray, width: info.width, height: info.height };
+}
+
+/**
+ * Border taper (a Tukey window): full weight except within TAPER_WIDTH of
+ * the region edge. A window tapering all the way to the center would fade
+ * out the overlap, which lies along the strip edges.
+ */
+function taper(i, n) {
+  const distance = Math.min(i + 0.5, n - i - 0.5);
+  if (distance >= TAPER_WIDTH) return 1;
+  return 0.5 - 0.5 * Math.cos((Math.PI * distance) / TAPER_WIDTH);
+}
+
+/**
+ * Copy a region of an image into a zero-padded FFT buffer, mean-subtracted
+ * and tapered so the region borders don't dominate the correlation.
+ */
+function prepareRegion(image, x0, y0, width, height, fftWidth, fftHeight) {
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) sum += image.data[(y0 + y) * image.width + x0 + x];
+  }
+  const mean = sum / (width * height);
+
+  const re = new Float64Array(fftWidth * fftHeight);
+  for (let y = 0; y < height; y++) {
+    const wy = taper(y, height);
+    for (let x = 0; x < width; x++) {
+      const wx = taper(x, width);
+      re[y * fftWidth + x] = (image.data[(y0 + y) * image.width + x0 + x] - mean) * wx * wy;
+    }
+  }
+  return re;
+}
+
+/**
+ * Strongest peaks of a correlation surface, at least a few pixels apart.
+ * @returns {Array<{ x: number, y: number }>}
+ */
+function findPeaks(surface, width, height, count) {
+  const peaks = [];
+  const suppressed = new Uint8Array(width * height);
+  const radius = 3;
+
+  for (let k = 0; k < count; k++) {
+    let best = -1;
+    let bestValue = -Infinity;
+    for (let i = 0; i < surface.length; i++) {
+      if (!suppressed[i] && surface[i] > bestValue) {
+        bestValue = surface[i];
+        best = i;
+      }
+    }
+    if (best < 0) break;
+
+    const px = best % width;
+    const py = Math.floor(best / width);
+    peaks.push({ x: px, y: py });
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const x = (px + dx + width) % width;
+        const y = (py + dy + height) % height;
+        suppressed[y * width + x] = 1;
+      }
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Normalized cross-correlation of two images over their overlap when the
+ * second is placed at (dx, dy) in the first's coordinates.
+ * @returns {number|null} Correlation, or null if the overlap is too small
+ */
+function overlapCorrelation(a, b, dx, dy) {
+  const x0 = Math.max(0, dx);
+  const y0 = Math.max(0, dy);
+  const x1 = Math.min(a.width, dx + b.width);
+  const y1 = Math.min(a.height, dy + b.height);
+  const minSide = Math.min(a.width, a.height, b.width, b.height);
+  if (x1 - x0 < Math.max(4, MIN_OVERLAP_FRACTION * minSide) || y1 - y0 < Math.max(4, MIN_OVERLAP_FRACTION * minSide)) {
+    return null;
+  }
+
+  let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+  const n = (x1 - x0) * (y1 - y0);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const va = a.data[y * a.width + x];
+      const vb = b.data[(y - dy) * b.width + (x - dx)];
+      sumA += va;
+      sumB += vb;
+      sumAA += va * va;
+      sumBB += vb * vb;
+      sumAB += va * vb;
+    }
+  }
+
+  const covariance = sumAB - (sumA * sumB) / n;
+  const varianceA = sumAA - (sumA * sumA) / n;
+  const varianceB = sumBB - (sumB * sumB) / n;
+  if (varianceA <= 0 || varianceB <= 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Subpixel refinement of a correlation peak by fitting a parabola through
+ * it and its two neighbors along one axis.
+ */
+function parabolicOffset(before, peak, after) {
+  const denominator = before - 2 * peak + after;
+  if (denominator >= 0) return 0;
+  const offset = (0.5 * (before - after)) / denominator;
+  return Math.max(-0.5, Math.min(0.5, offset));
+}
+
+/**
+ * Measure the offset of field b relative to field a, when b lies to the
+ * right of a (horizontal) or below it.
+ *
+ * @param {{ data: Float32Array, width: number, height: number }} a
+ * @param {{ data: Float32Array, width: number, height: number }} b
+ * @param {boolean} horizontal - b is the right neighbor (else the bottom neighbor)
+ * @param {number} overlap - Nominal overlap (fraction of the field size)
+ * @returns {{ dx: number, dy: number, correlation: number } | null}
+ */
+function measurePairOffset(a, b, horizontal, overlap) {
+  // Equal-size strips along the shared edge: the right (or bottom) of a and
+  // the left (or top) of b
+  const alongA = horizontal ? a.width : a.height;
+  const alongB = horizontal ? b.width : b.height;
+  const strip = Math.max(8, Math.min(alongA, alongB, Math.round(Math.min(alongA, alongB) * (2 * overlap + SEARCH_MARGIN))));
+  const across = horizontal ? Math.min(a.height, b.height) : Math.min(a.width, b.width);
+
+  const regionWidth = horizontal ? strip : across;
+  const regionHeight = horizontal ? across : strip;
+  const originAX = horizontal ? a.width - strip : 0;
+  const originAY = horizontal ? 0 : a.height - strip;
+
+  const fftWidth = nextPowerOfTwo(regionWidth);
+  const fftHeight = nextPowerOfTwo(regionHeight);
+
+  const aRe = prepareRegion(a, originAX, originAY, regionWidth, regionHeight, fftWidth, fftHeight);
+  const aIm = new Float64Array(aRe.length);
+  const bRe = prepareRegion(b, 0, 0, regionWidth, regionHeight, fftWidth, fftHeight);
+  const bIm = new Float64Array(bRe.length);
+  fft2d(aRe, aIm, fftWidth, fftHeight, false);
+  fft2d(bRe, bIm, fftWidth, fftHeight, false);
+
+  // Normalized cross-power spectrum; its inverse peaks at the shift d where
+  // a(x) = b(x - d)
+  for (let i = 0; i < aRe.length; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aIm[i] * bRe[i] - aRe[i] * bIm[i];
+    const magnitude = Math.hypot(re, im) + 1e-12;
+    aRe[i] = re / magnitude;
+    aIm[i] = im / magnitude;
+  }
+  fft2d(aRe, aIm, fftWidth, fftHeight, true);
+
+  // Each peak is ambiguous up to the FFT size; check every interpretation
+  // against the actual overlap
+  let best = null;
+  for (const peak of findPeaks(aRe, fftWidth, fftHeight, CANDIDATE_PEAKS)) {
+    for (const shiftX of [peak.x, peak.x - fftWidth]) {
+      for (const shiftY of [peak.y, peak.y - fftHeight]) {
+        const dx = originAX + shiftX;
+        const dy = originAY + shiftY;
+        const correlation = overlapCorrelation(a, b, dx, dy);
+        if (correlation !== null && (!best || correlation > best.correlation)) {
+          best = { dx, dy, correlation, peak };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  const at = (x, y) => aRe[((y + fftHeight) % fftHeight) * fftWidth + ((x + fftWidth) % fftWidth)];
+  const { x: px, y: py } = best.peak;
+  return {
+    dx: best.dx + parabolicOffset(at(px - 1, py), at(px, py), at(px + 1, py)),
+    dy: best.dy + parabolicOffset(at(px, py - 1), at(px, py), at(px, py + 1)),
+    correlation: best.correlation,
+  };
+}
+
+// ─── Global Placement ────────────────────────────────────────────────────────
+
+/**
+ * Solve a dense linear system with two right-hand sides by Gaussian
+ * elimination with partial pivoting.
+ * @param {number[][]} matrix - n x n (modified)
+ * @param {number[][]} rhs - n x 2 (modified)
+ * @returns {number[][]} n x 2 solution
+ */
+function solveLinearSystem(matrix, rhs) {
+  const n = matrix.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) {
+      throw new Error('Mosaic layout is not connected');
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) matrix[row][k] -= factor * matrix[col][k];
+      rhs[row][0] -= factor * rhs[col][0];
+      rhs[row][1] -= factor * rhs[col][1];
+    }
+  }
+
+  const solution = Array.from({ length: n }, () => [0, 0]);
+  for (let row = n - 1; row >= 0; row--) {
+    for (const axis of [0, 1]) {
+      let value = rhs[row][axis];
+      for (let k = row + 1; k < n; k++) value -= matrix[row][k] * solution[k][axis];
+      solution[row][axis] = value / matrix[row][row];
+    }
+  }
+  return solution;
+}
+
+/**
+ * Field positions best agreeing with the pairwise offsets (weighted least
+ * squares, first field fixed at the origin).
+ *
+ * @param {number} count - Number of fields
+ * @param {Array<{ from: number, to: number, dx: number, dy: number, weight: number }>} links
+ * @returns {Array<[number, number]>}
+ */
+function solvePositions(count, links) {
+  if (count === 1) return [[0, 0]];
+
+  // Normal equations of sum w * |p_to - p_from - d|^2 over fields 1..count-1
+  const n = count - 1;
+  const matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  const rhs = Array.from({ length: n }, () => [0, 0]);
+  for (const link of links) {
+    const i = link.from - 1;
+    const j = link.to - 1;
+    if (i >= 0) {
+      matrix[i][i] += link.weight;
+      rhs[i][0] -= link.weight * link.dx;
+      rhs[i][1] -= link.weight * link.dy;
+    }
+    if (j >= 0) {
+      matrix[j][j] += link.weight;
+      rhs[j][0] += link.weight * link.dx;
+      rhs[j][1] += link.weight * link.dy;
+    }
+    if (i >= 0 && j >= 0) {
+      matrix[i][j] -= link.weight;
+      matrix[j][i] -= link.weight;
+    }
+  }
+
+  return [[0, 0], ...solveLinearSystem(matrix, rhs)];
+}
+
+// ─── Blending ────────────────────────────────────────────────────────────────
+
+/** Feather weight of a pixel index along a field side of length n */
+function featherRamp(n) {
+  const ramp = new Float32Array(n);
+  for (let i = 0; i < n; i++) ramp[i] = Math.min(i + 1, n - i);
+  return ramp;
+}
+
+/**
+ * Decode a field resized to its size in the mosaic.
+ */
+async function loadBlendImage(field) {
+  const { data, info } = await sharp(field.path)
+    .resize(field.outWidth, field.outHeight, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    data,
+    channels: info.channels,
+    rampX: featherRamp(field.outWidth),
+    rampY: featherRamp(field.outHeight),
+  };
+}
+
+/**
+ * Feather-blend the fields into an RGB buffer, one band of rows at a time.
+ */
+async function blendFields(fields, width, height, progress) {
+  const output = Buffer.alloc(width * height * 3);
+  const accumulator = new Float32Array(width * BAND_HEIGHT * 3);
+  const weights = new Float32Array(width * BAND_HEIGHT);
+  const decoded = new Map();
+
+  for (let bandTop = 0; bandTop < height; bandTop += BAND_HEIGHT) {
+    const bandBottom = Math.min(height, bandTop + BAND_HEIGHT);
+    accumulator.fill(0);
+    weights.fill(0);
+
+    // Drop fields the bands have moved past
+    for (const [index, field] of fields.entries()) {
+      if (decoded.has(index) && field.outY + field.outHeight <= bandTop) decoded.delete(index);
+    }
+
+    for (const [index, field] of fields.entries()) {
+      const top = Math.max(bandTop, field.outY);
+      const bottom = Math.min(bandBottom, field.outY + field.outHeight);
+      if (top >= bottom) continue;
+
+      if (!decoded.has(index)) decoded.set(index, await loadBlendImage(field));
+      const image = decoded.get(index);
+      const left = Math.max(0, field.outX);
+      const right = Math.min(width, field.outX + field.outWidth);
+
+      for (let y = top; y < bottom; y++) {
+        const fy = y - field.outY;
+        const wy = image.rampY[fy];
+        for (let x = left; x < right; x++) {
+          const fx = x - field.outX;
+          const weight = wy * image.rampX[fx];
+          const src = (fy * field.outWidth + fx) * image.channels;
+          const dst = (y - bandTop) * width + x;
+          if (image.channels >= 3) {
+            accumulator[dst * 3] += weight * image.data[src];
+            accumulator[dst * 3 + 1] += weight * image.data[src + 1];
+            accumulator[dst * 3 + 2] += weight * image.data[src + 2];
+          } else {
+            const value = weight * image.data[src];
+            accumulator[dst * 3] += value;
+            accumulator[dst * 3 + 1] += value;
+            accumulator[dst * 3 + 2] += value;
+          }
+          weights[dst] += weight;
+        }
+      }
+    }
+
+    // Pixels no field covers stay black
+    const bandPixels = (bandBottom - bandTop) * width;
+    const outOffset = bandTop * width * 3;
+    for (let i = 0; i < bandPixels; i++) {
+      const weight = weights[i];
+      if (weight <= 0) continue;
+      output[outOffset + i * 3] = Math.round(accumulator[i * 3] / weight);
+      output[outOffset + i * 3 + 1] = Math.round(accumulator[i * 3 + 1] / weight);
+      output[outOffset + i * 3 + 2] = Math.round(accumulator[i * 3 + 2] / weight);
+    }
+
+    progress('Blending fields...', Math.round((bandBottom / height) * 100));
+  }
+
+  return output;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Stitch a grid of overlapping fields into one scratch JPEG.
+ *
+ * @param {Object} params
+ * @param {Array<{ path: string, column: number, row: number }>} params.fields - Field images and their grid cells
+ * @param {number} params.overlap - Nominal overlap between neighbors (fraction of the field size)
+ * @param {Function} [params.progressCallback] - Receives { stage, percent }
+ * @returns {Promise<Object>} Scratch identifier, mosaic size, the scale from field to
+ *   mosaic pixels, each field's position (field pixels), the pairwise links, and a preview
+ */
+async function stitchMosaic({ fields, overlap, progressCallback }) {
+  const progress = (stage, percent) => {
+    if (progressCallback) progressCallback({ stage, percent });
+  };
+
+  if (!fields || fields.length < 2) {
+    throw new Error('At least two fields are needed to stitch a mosaic');
+  }
+
+  const sizes = [];
+  for (const field of fields) {
+    const metadata = await sharp(field.path).metadata();
+    sizes.push({ width: metadata.width, height: metadata.height });
+  }
+
+  // Step 1: Measure the offset between each pair of grid neighbors
+  const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(...sizes.map((s) => Math.max(s.width, s.height))));
+  const cellIndex = new Map(fields.map((field, index) => [`${field.column},${field.row}`, index]));
+  const pairs = [];
+  for (const [index, field] of fields.entries()) {
+    const right = cellIndex.get(`${field.column + 1},${field.row}`);
+    const below = cellIndex.get(`${field.column},${field.row + 1}`);
+    if (right !== undefined) pairs.push({ from: index, to: right, horizontal: true });
+    if (below !== undefined) pairs.push({ from: index, to: below, horizontal: false });
+  }
+  if (pairs.length === 0) {
+    throw new Error('No two fields are neighbors in the grid');
+  }
+
+  progress('Measuring overlaps...', 0);
+  const analysisImages = new Map();
+  const links = [];
+  for (const [pairIndex, pair] of pairs.entries()) {
+    for (const index of [pair.from, pair.to]) {
+      if (!analysisImages.has(index)) {
+        analysisImages.set(index, await loadAnalysisImage(fields[index].path, analysisScale));
+      }
+    }
+    const a = analysisImages.get(pair.from);
+    const b = analysisImages.get(pair.to);
+
+    const nominal = pair.horizontal
+      ? { dx: a.width * (1 - overlap), dy: 0 }
+      : { dx: 0, dy: a.height * (1 - overlap) };
+    const measured = measurePairOffset(a, b, pair.horizontal, overlap);
+    const trusted = measured !== null && measured.correlation >= MIN_CORRELATION;
+
+    links.push({
+      from: pair.from,
+      to: pair.to,
+      nominal,
+      measured: trusted ? measured : null,
+      correlation: measured ? measured.correlation : null,
+    });
+
+    // Analysis images are only needed for pairs not yet measured
+    for (const index of [pair.from, pair.to]) {
+      if (!pairs.slice(pairIndex + 1).some((p) => p.from === index || p.to === index)) {
+        analysisImages.delete(index);
+      }
+    }
+    progress('Measuring overlaps...', Math.round(((pairIndex + 1) / pairs.length) * 100));
+  }
+
+  // Step 2: Global placement, demoting measured offsets that disagree with
+  // the rest of the grid to their nominal offset one at a time
+  const toEquation = (link) => link.measured
+    ? { from: link.from, to: link.to, dx: link.measured.dx, dy: link.measured.dy, weight: link.measured.correlation }
+    : { from: link.from, to: link.to, dx: link.nominal.dx, dy: link.nominal.dy, weight: NOMINAL_WEIGHT };
+
+  let positions = solvePositions(fields.length, links.map(toEquation));
+  for (;;) {
+    let worst = null;
+    let worstResidual = MAX_RESIDUAL;
+    for (const link of links) {
+      if (!link.measured) continue;
+      const residual = Math.hypot(
+        positions[link.to][0] - positions[link.from][0] - link.measured.dx,
+        positions[link.to][1] - positions[link.from][1] - link.measured.dy
+      );
+      if (residual > worstResidual) {
+        worst = link;
+        worstResidual = residual;
+      }
+    }
+    if (!worst) break;
+
+    log.info(`[MosaicStitcher] Rejecting offset ${worst.from} → ${worst.to} (residual ${worstResidual.toFixed(1)} px)`);
+    worst.measured = null;
+    positions = solvePositions(fields.length, links.map(toEquation));
+  }
+
+  // Back to field pixels, with the mosaic's top-left at the origin
+  const minX = Math.min(...positions.map((p) => p[0]));
+  const minY = Math.min(...positions.map((p) => p[1]));
+  const fieldPositions = positions.map(([x, y]) => ({
+    x: (x - minX) / analysisScale,
+    y: (y - minY) / analysisScale,
+  }));
+
+  // Step 3: Blend at output resolution (mosaics larger than the import limit
+  // are reduced the same way a single large image would be)
+  const mosaicWidth = Math.max(...fieldPositions.map((p, i) => p.x + sizes[i].width));
+  const mosaicHeight = Math.max(...fieldPositions.map((p, i) => p.y + sizes[i].height));
+  const target = imageConverter.calculateDownscaledDimensions(Math.ceil(mosaicWidth), Math.ceil(mosaicHeight));
+  const scale = target.width / Math.ceil(mosaicWidth);
+
+  const blendFieldsList = fields.map((field, index) => ({
+    path: field.path,
+    outX: Math.round(fieldPositions[index].x * scale),
+    outY: Math.round(fieldPositions[index].y * scale),
+    outWidth: Math.max(1, Math.round(sizes[index].width * scale)),
+    outHeight: Math.max(1, Math.round(sizes[index].height * scale)),
+  }));
+
+  log.info(`[MosaicStitcher] Blending ${fields.length} fields into ${target.width}x${target.height}`);
+  progress('Blending fields...', 0);
+  let output = await blendFields(blendFieldsList, target.width, target.height, progress);
+
+  progress('Saving mosaic...', 0);
+  await scratchSpace.ensureScratchDir();
+  const identifier = `scratch-${Date.now()}.jpg`;
+  const scratchPath = scratchSpace.getScratchPath(identifier);
+  const info = await sharp(output, {
+    raw: { width: target.width, height: target.height, channels: 3 },
+    limitInputPixels: false,
+  })
+    .jpeg({
+      quality: 95,
+      mozjpeg: true,
+    })
+    .toFile(scratchPath);
+  output = null;
+
+  const preview = await sharp(scratchPath)
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside' })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+  progress('Saving mosaic...', 100);
+
+  log.info(`[MosaicStitcher] Mosaic written to ${scratchPath}: ${info.width}x${info.height}`);
+
+  return {
+    identifier,
+    scratchPath,
+    width: info.width,
+    height: info.height,
+    scale,
+    positions: fieldPositions,
+    links: links.map((link) => ({
+      from: link.from,
+      to: link.to,
+      measured: link.measured !== null,
+      correlation: link.correlation,
+    })),
+    preview: `data:image/jpeg;base64,${preview.toString('base64')}`,
+  };
+}
+
+module.exports = { stitchMosaic };
@@ -0,0 +1,214 @@
+/**
+ * Placement Warp
+ *
+ * Applies the non-affine control point placements of overlays: projective
+ * (homography) and thin-plate spline. The parameters are fitted in the
+ * renderer (src/utils/placementWarp.ts) and stored on the micrograph; this
+ * module applies them for tile generation and exports. Warps are evaluated by
+ * placementWarpMath.mjs, the same module the renderer uses, so the baked
+ * bounds agree with the bounds stored in the project.
+ */
+
+// Output pixels between the nodes at which the inverse spline is solved exactly;
+// pixels in between are interpolated
+const SPLINE_GRID_STEP = 8;
+
+// Newton refinement of the inverse spline against the forward one
+const SPLINE_NEWTON_ITERATIONS = 4;
+const SPLINE_NEWTON_TOLERANCE = 0.01; // parent pixels
+const SPLINE_MAX_MISS = 0.5; // parent pixels; nodes missing by more are where the warp folds
+
+/**
+ * Whether a placement type is positioned by a control point warp (and
+ * rendered from pre-warped tiles).
+ *
+ * @param {string} placementType
+ * @returns {boolean}
+ */
+function isWarpedPlacement(placementType) {
+  return placementType === 'affine' || placementType === 'homography' || placementType === 'thinPlateSpline';
+}
+
+/**
+ * The non-affine warp a micrograph is placed with, in the form the tile
+ * generator takes, or null for affine and other placements.
+ *
+ * @param {Object} micrograph - Micrograph metadata
+ * @returns {Object|null} { type: 'homography', matrix } or { type: 'thinPlateSpline', forward, inverse }
+ */
+function getMicrographWarp(micrograph) {
+  if (micrograph.placementType === 'homography' && Array.isArray(micrograph.homographyMatrix)
+    && micrograph.homographyMatrix.length === 9) {
+    return { type: 'homography', matrix: micrograph.homographyMatrix };
+  }
+  if (micrograph.placementType === 'thinPlateSpline' && micrograph.thinPlateSpline) {
+    return {
+      type: 'thinPlateSpline',
+      forward: micrograph.thinPlateSpline.forward,
+      inverse: micrograph.thinPlateSpline.inverse
+    };
+  }
+  return null;
+}
+
+/**
+ * The warp tiles are baked with: null for affine placement, which is baked
+ * from the affine matrix alone. Lets callers pass the renderer's warp as is.
+ *
+ * @param {Object|null|undefined} warp
+ * @returns {Object|null}
+ */
+function bakedWarp(warp) {
+  return warp && warp.type !== 'affine' ? warp : null;
+}
+
+let warpMath = null;
+
+/**
+ * Load the warp evaluators shared with the renderer (an ES module).
+ *
+ * @returns {Promise<Object>} placementWarpMath.mjs exports
+ */
+async function loadWarpMath() {
+  if (!warpMath) warpMath = await import('./placementWarpMath.mjs');
+  return warpMath;
+}
+
+/**
+ * Bounding box of a warped image in parent pixels.
+ *
+ * @param {Object} warp - Warp from getMicrographWarp()
+ * @param {number} width - Source image width
+ * @param {number} height - Source image height
+ * @returns {Promise<{minX: number, minY: number, maxX: number, maxY: number, width: number, height: number}>}
+ */
+async function computeWarpBounds(warp, width, height) {
+  const { computeWarpBounds: bounds } = await loadWarpMath();
+  return bounds(warp, width, height);
+}
+
+/**
+ * Solve the spline for the overlay pixel that lands on a parent pixel: start
+ * from the fitted inverse spline and refine with Newton steps on the forward
+ * spline (numeric Jacobian).
+ *
+ * @returns {number[]|null} [x, y], or null where the warp folds over itself
+ */
+function invertSplineAt(applyThinPlateSpline, warp, parentX, parentY) {
+  let [x, y] = applyThinPlateSpline(warp.inverse, parentX, parentY);
+  let miss = Infinity;
+
+  for (let iter = 0; iter < SPLINE_NEWTON_ITERATIONS; iter++) {
+    const [fx, fy] = applyThinPlateSpline(warp.forward, x, y);
+    const rx = fx - parentX;
+    const ry = fy - parentY;
+    miss = Math.hypot(rx, ry);
+    if (miss < SPLINE_NEWTON_TOLERANCE) break;
+
+    const [fxDx, fyDx] = applyThinPlateSpline(warp.forward, x + 1, y);
+    const [fxDy, fyDy] = applyThinPlateSpline(warp.forward, x, y + 1);
+    const j11 = fxDx - fx;
+    const j21 = fyDx - fy;
+    const j12 = fxDy - fx;
+    const j22 = fyDy - fy;
+    const det = j11 * j22 - j12 * j21;
+    if (Math.abs(det) < 1e-12) break;
+
+    x -= (j22 * rx - j12 * ry) / det;
+    y -= (-j21 * rx + j11 * ry) / det;
+  }
+
+  if (miss >= SPLINE_NEWTON_TOLERANCE) {
+    const [fx, fy] = applyThinPlateSpline(warp.forward, x, y);
+    miss = Math.hypot(fx - parentX, fy - parentY);
+  }
+  return miss <= SPLINE_MAX_MISS ? [x, y] : null;
+}
+
+/**
+ * Create the parent→overlay mapping used to sample the warped output buffer.
+ * Output pixel (ox, oy) covers parent position bounds.min + o / oversample.
+ *
+ * The returned function writes the overlay position into `out` and returns
+ * false for output pixels with no overlay pixel behind them.
+ *
+ * @param {Object} warp - Warp from getMicrographWarp()
+ * @param {{minX: number, minY: number}} bounds - Parent-space bounds of the output buffer
+ * @param {number} oversample - Output pixels per parent pixel
+ * @param {number} outputWidth - Output buffer width
+ * @param {number} outputHeight - Output buffer height
+ * @returns {Promise<function(number, number, number[]): boolean>}
+ */
+async function createInverseMapper(warp, bounds, oversample, outputWidth, outputHeight) {
+  const { applyThinPlateSpline, invertHomography } = await loadWarpMath();
+  if (warp.type === 'homography') {
+    const [a, b, c, d, e, f, g, h, i] = invertHomography(warp.matrix);
+    return (ox, oy, out) => {
+      const px = bounds.minX + ox / oversample;
+      const py = bounds.minY + oy / oversample;
+      const w = g * px + h * py + i;
+      if (w <= 0) return false;
+      out[0] = (a * px + b * py + c) / w;
+      out[1] = (d * px + e * py + f) / w;
+      return true;
+    };
+  }
+
+  // Thin-plate spline: solve exactly on a coarse grid, interpolate in between
+  const nodesX = Math.ceil((outputWidth - 1) / SPLINE_GRID_STEP) + 1;
+  const nodesY = Math.ceil((outputHeight - 1) / SPLINE_GRID_STEP) + 1;
+  const grid = new Float64Array(nodesX * nodesY * 2).fill(NaN);
+  for (let ny = 0; ny < nodesY; ny++) {
+    const py = bounds.minY + (ny * SPLINE_GRID_STEP) / oversample;
+    for (let nx = 0; nx < nodesX; nx++) {
+      const px = bounds.minX + (nx * SPLINE_GRID_STEP) / oversample;
+      const source = invertSplineAt(applyThinPlateSpline, warp, px, py);
+      if (source) {
+        grid[(ny * nodesX + nx) * 2] = source[0];
+        grid[(ny * nodesX + nx) * 2 + 1] = source[1];
+      }
+    }
+  }
+
+  return (ox, oy, out) => {
+    const gx = ox / SPLINE_GRID_STEP;
+    const gy = oy / SPLINE_GRID_STEP;
+    const x0 = Math.min(Math.floor(gx), nodesX - 1);
+    const y0 = Math.min(Math.floor(gy), nodesY - 1);
+    const x1 = Math.min(x0 + 1, nodesX - 1);
+    const y1 = Math.min(y0 + 1, nodesY - 1);
+    const tx = gx - x0;
+    const ty = gy - y0;
+
+    for (let axis = 0; axis < 2; axis++) {
+      const v00 = grid[(y0 * nodesX + x0) * 2 + axis];
+      const v10 = grid[(y0 * nodesX + x1) * 2 + axis];
+      const v01 = grid[(y1 * nodesX + x0) * 2 + axis];
+      const v11 = grid[(y1 * nodesX + x1) * 2 + axis];
+      const value = (v00 * (1 - tx) + v10 * tx) * (1 - ty) + (v01 * (1 - tx) + v11 * tx) * ty;
+      if (Number.isNaN(value)) {
+        // Next to a fold: solve this pixel exactly
+        const source = invertSplineAt(
+          applyThinPlateSpline,
+          warp,
+          bounds.minX + ox / oversample,
+          bounds.minY + oy / oversample
+        );
+        if (!source) return false;
+        out[0] = source[0];
+        out[1] = source[1];
+        return true;
+      }
+      out[axis] = value;
+    }
+    return true;
+  };
+}
+
+module.exports = {
+  isWarpedPlacement,
+  getMicrographWarp,
+  bakedWarp,
+  computeWarpBounds,
+  createInverseMapper
+};
@@ -0,0 +1,35 @@
+/**
+ * Types for placementWarpMath.mjs (shared by the renderer and main process).
+ */
+
+type Point = [number, number];
+
+interface SplineParams {
+  origin: Point;
+  scale: number;
+  centers: Point[];
+  weights: Point[];
+  affine: number[];
+}
+
+type Warp =
+  | { type: 'affine'; matrix: number[] }
+  | { type: 'homography'; matrix: number[] }
+  | { type: 'thinPlateSpline'; forward: SplineParams; inverse: SplineParams };
+
+interface WarpBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+export const SPLINE_EDGE_SAMPLES: number;
+export function applyHomography(matrix: number[], x: number, y: number): Point;
+export function invertHomography(matrix: number[]): number[];
+export function applyThinPlateSpline(params: SplineParams, x: number, y: number): Point;
+export function warpPoint(warp: Warp, x: number, y: number): Point;
+export function warpOutline(warp: Warp, width: number, height: number): Point[];
+export function computeWarpBounds(warp: Warp, width: number, height: number): WarpBounds;
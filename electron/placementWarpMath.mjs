@@ -0,0 +1,145 @@
+/**
+ * Placement Warp Evaluation
+ *
+ * Applies fitted control point warps (affine, projective and thin-plate
+ * spline) to overlay pixels. This is the one implementation both processes
+ * use: the renderer imports it through src/utils/placementWarp.ts, where the
+ * warps are fitted, and the main process loads it in placementWarp.js to bake
+ * warped tiles. Sharing it keeps the outline the renderer stores and the
+ * bounds the tiles are baked to identical.
+ *
+ * Kept as a plain ES module so the main process can import() it without a
+ * build step; types are in placementWarpMath.d.mts.
+ */
+
+// Points sampled along each image edge to outline a thin-plate spline warp
+export const SPLINE_EDGE_SAMPLES = 32;
+
+/**
+ * Apply a homography to a point.
+ *
+ * @param {number[]} matrix - Row-major 3x3 matrix
+ * @returns {number[]} [x, y]
+ */
+export function applyHomography(matrix, x, y) {
+  const [h11, h12, h13, h21, h22, h23, h31, h32, h33] = matrix;
+  const w = h31 * x + h32 * y + h33;
+  return [(h11 * x + h12 * y + h13) / w, (h21 * x + h22 * y + h23) / w];
+}
+
+/**
+ * Invert a homography.
+ *
+ * @param {number[]} matrix - Row-major 3x3 matrix
+ * @returns {number[]} Inverse matrix
+ * @throws {Error} If the matrix is singular
+ */
+export function invertHomography(matrix) {
+  const [a, b, c, d, e, f, g, h, i] = matrix;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-15) {
+    throw new Error('Matrix is not invertible (determinant ≈ 0)');
+  }
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det
+  ];
+}
+
+/**
+ * Evaluate a thin-plate spline at a point.
+ *
+ * @param {Object} params - { origin, scale, centers, weights, affine }
+ * @returns {number[]} [x, y]
+ */
+export function applyThinPlateSpline(params, x, y) {
+  const qx = (x - params.origin[0]) / params.scale;
+  const qy = (y - params.origin[1]) / params.scale;
+  const [a, b, tx, c, d, ty] = params.affine;
+  let outX = a * qx + b * qy + tx;
+  let outY = c * qx + d * qy + ty;
+  for (let i = 0; i < params.centers.length; i++) {
+    const dx = qx - params.centers[i][0];
+    const dy = qy - params.centers[i][1];
+    const r2 = dx * dx + dy * dy;
+    const u = r2 > 0 ? r2 * Math.log(r2) : 0;
+    outX += params.weights[i][0] * u;
+    outY += params.weights[i][1] * u;
+  }
+  return [outX, outY];
+}
+
+/**
+ * Map an overlay pixel to parent pixels.
+ *
+ * @param {Object} warp - { type: 'affine' | 'homography', matrix } or { type: 'thinPlateSpline', forward, inverse }
+ * @returns {number[]} [x, y]
+ */
+export function warpPoint(warp, x, y) {
+  switch (warp.type) {
+    case 'affine': {
+      const [a, b, tx, c, d, ty] = warp.matrix;
+      return [a * x + b * y + tx, c * x + d * y + ty];
+    }
+    case 'homography':
+      return applyHomography(warp.matrix, x, y);
+    default:
+      return applyThinPlateSpline(warp.forward, x, y);
+  }
+}
+
+/**
+ * Outline of a warped image in parent pixels: the corners, plus points along
+ * each edge for a thin-plate spline (whose edges curve).
+ *
+ * @param {Object} warp - Warp as for warpPoint()
+ * @param {number} width - Source image width
+ * @param {number} height - Source image height
+ * @returns {number[][]} [x, y] points
+ */
+export function warpOutline(warp, width, height) {
+  const corners = [[0, 0], [width, 0], [width, height], [0, height]];
+  const samples = warp.type === 'thinPlateSpline' ? SPLINE_EDGE_SAMPLES : 1;
+  const outline = [];
+  for (let edge = 0; edge < 4; edge++) {
+    const [x1, y1] = corners[edge];
+    const [x2, y2] = corners[(edge + 1) % 4];
+    for (let k = 0; k < samples; k++) {
+      const t = k / samples;
+      outline.push(warpPoint(warp, x1 + (x2 - x1) * t, y1 + (y2 - y1) * t));
+    }
+  }
+  return outline;
+}
+
+/**
+ * Bounding box of a warped image in parent pixels.
+ *
+ * @param {Object} warp - Warp as for warpPoint()
+ * @param {number} width - Source image width
+ * @param {number} height - Source image height
+ * @returns {{minX: number, minY: number, maxX: number, maxY: number, width: number, height: number}}
+ * @throws {Error} If a projective warp sends part of the image to infinity
+ */
+export function computeWarpBounds(warp, width, height) {
+  if (warp.type === 'homography') {
+    const [, , , , , , g, h, i] = warp.matrix;
+    const corners = [[0, 0], [width, 0], [width, height], [0, height]];
+    if (corners.some(([x, y]) => g * x + h * y + i <= 0)) {
+      throw new Error('Projective transform folds the overlay - check the control points');
+    }
+  }
+
+  const outline = warpOutline(warp, width, height);
+  const xs = outline.map(p => p[0]);
+  const ys = outline.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY };
+}
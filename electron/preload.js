@@ -186,6 +186,8 @@ contextBridge.exposeInMainWorld('api', {
   loadOpencvScript: () => ipcRenderer.invoke('load-opencv-script'),
   loadTile: (imageHash, tileX, tileY) => ipcRenderer.invoke('image:load-tile', imageHash, tileX, tileY),
   loadTilesBatch: (imageHash, tiles) => ipcRenderer.invoke('image:load-tiles-batch', imageHash, tiles),
+  loadImageRegion: (imageHash, region, maxSize) => ipcRenderer.invoke('image:load-region', imageHash, region, maxSize),
+  readImageRegion: (imagePath, region) => ipcRenderer.invoke('image:read-region', imagePath, region),
   getCacheStats: () => ipcRenderer.invoke('image:cache-stats'),
   clearImageCache: (imageHash) => ipcRenderer.invoke('image:clear-cache', imageHash),
   clearAllCaches: () => ipcRenderer.invoke('image:clear-all-caches'),
@@ -220,11 +222,11 @@ contextBridge.exposeInMainWorld('api', {
     return () => ipcRenderer.removeListener('tile-queue:tile-progress', handler);
   },
 
-  // Affine tile operations (3-point registration placement)
-  generateAffineTiles: (imagePath, imageHash, affineMatrix) =>
-    ipcRenderer.invoke('tiles:generate-affine', imagePath, imageHash, affineMatrix),
-  ensureAffineTiles: (imagePath, imageHash, affineMatrix) =>
-    ipcRenderer.invoke('tiles:ensure-affine-tiles', imagePath, imageHash, affineMatrix),
+  // Affine tile operations (control point placement)
+  generateAffineTiles: (imagePath, imageHash, affineMatrix, warp) =>
+    ipcRenderer.invoke('tiles:generate-affine', imagePath, imageHash, affineMatrix, warp ?? null),
+  ensureAffineTiles: (imagePath, imageHash, affineMatrix, warp) =>
+    ipcRenderer.invoke('tiles:ensure-affine-tiles', imagePath, imageHash, affineMatrix, warp ?? null),
   loadAffineTile: (imageHash, tileX, tileY) =>
     ipcRenderer.invoke('tiles:load-affine-tile', imageHash, tileX, tileY),
   loadAffineTilesBatch: (imageHash, tiles) =>
@@ -328,6 +330,16 @@ contextBridge.exposeInMainWorld('api', {
     return () => ipcRenderer.removeListener('menu:export-all-images', callback);
   },
 
+  // Menu events for COCO training datasets
+  onExportCocoDataset: (callback) => {
+    ipcRenderer.on('menu:export-coco-dataset', callback);
+    return () => ipcRenderer.removeListener('menu:export-coco-dataset', callback);
+  },
+  onImportCocoPredictions: (callback) => {
+    ipcRenderer.on('menu:import-coco-predictions', callback);
+    return () => ipcRenderer.removeListener('menu:import-coco-predictions', callback);
+  },
+
   // Menu event for export with sketches
   onExportWithSketches: (callback) => {
     ipcRenderer.on('menu:export-with-sketches', callback);
@@ -686,6 +698,36 @@ contextBridge.exposeInMainWorld('api', {
     ipcRenderer.on('menu:strabo-tools', handler);
     return () => ipcRenderer.removeListener('menu:strabo-tools', handler);
   },
+  onElementMaps: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:element-maps', handler);
+    return () => ipcRenderer.removeListener('menu:element-maps', handler);
+  },
+  onRotationSeries: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:rotation-series', handler);
+    return () => ipcRenderer.removeListener('menu:rotation-series', handler);
+  },
+  onPhaseClassification: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:phase-classification', handler);
+    return () => ipcRenderer.removeListener('menu:phase-classification', handler);
+  },
+  onLineIntercept: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:line-intercept', handler);
+    return () => ipcRenderer.removeListener('menu:line-intercept', handler);
+  },
+  onFryAnalysis: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:fry-analysis', handler);
+    return () => ipcRenderer.removeListener('menu:fry-analysis', handler);
+  },
+  onGrainBoundaryNetwork: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:grain-boundary-network', handler);
+    return () => ipcRenderer.removeListener('menu:grain-boundary-network', handler);
+  },
   straboTools: {
     processFullResolution: (params) => ipcRenderer.invoke('strabo-tools:process-full-resolution', params),
     overwriteImage: (params) => ipcRenderer.invoke('strabo-tools:overwrite-image', params),
@@ -695,6 +737,23 @@ contextBridge.exposeInMainWorld('api', {
       return () => ipcRenderer.removeListener('strabo-tools:progress', handler);
     },
   },
+  mosaic: {
+    stitch: (params) => ipcRenderer.invoke('mosaic:stitch', params),
+    onProgress: (callback) => {
+      const handler = (event, progress) => callback(progress);
+      ipcRenderer.on('mosaic:progress', handler);
+      return () => ipcRenderer.removeListener('mosaic:progress', handler);
+    },
+  },
+  rotationSeries: {
+    computeMaps: (params) => ipcRenderer.invoke('rotation-series:compute-maps', params),
+    readMap: (params) => ipcRenderer.invoke('rotation-series:read-map', params),
+    onProgress: (callback) => {
+      const handler = (event, progress) => callback(progress);
+      ipcRenderer.on('rotation-series:progress', handler);
+      return () => ipcRenderer.removeListener('rotation-series:progress', handler);
+    },
+  },
   onSpotColorMode: (callback) => {
     const handler = (event, mode) => callback(mode);
     ipcRenderer.on('view:spot-color-mode', handler);
@@ -720,4 +779,29 @@ contextBridge.exposeInMainWorld('api', {
     // Read model file bytes (renderer passes to onnxruntime-web directly)
     loadModelBytes: () => ipcRenderer.invoke('fastsam:load-model-bytes'),
   },
+
+  // Segmentation model registry (user-registered ONNX models; inference runs in renderer)
+  models: {
+    // List registered models
+    list: () => ipcRenderer.invoke('models:list'),
+    // Pick a model manifest and register it
+    register: () => ipcRenderer.invoke('models:register'),
+    // Remove a model from the registry
+    remove: (id) => ipcRenderer.invoke('models:remove', id),
+    // Read model file bytes (renderer passes to onnxruntime-web directly)
+    loadBytes: (id) => ipcRenderer.invoke('models:load-bytes', id),
+  },
+
+  // COCO training datasets and predictions
+  coco: {
+    // Pick a folder and write a planned dataset into it
+    exportDataset: (projectId, plan) => ipcRenderer.invoke('coco:export-dataset', projectId, plan),
+    // Pick and parse a COCO JSON file
+    openJson: (title) => ipcRenderer.invoke('coco:open-json', title),
+    onExportProgress: (callback) => {
+      const handler = (event, progress) => callback(progress);
+      ipcRenderer.on('coco:export-progress', handler);
+      return () => ipcRenderer.removeListener('coco:export-progress', handler);
+    },
+  },
 });
@@ -207,8 +207,16 @@ async function projectFolderExists(projectId) {
  * @returns {Object} Object containing paths to all subfolders
  */
 function getProjectFolderPaths(projectId) {
-  const projectPath = getProjectFolderPath(projectId);
+  return getProjectFolderPathsAt(getProjectFolderPath(projectId));
+}
 
+/**
+ * Get paths to all subfolders of a project folder at any location
+ * (e.g. a project folder copied outside StraboMicro2Data)
+ * @param {string} projectPath - Path to the project folder
+ * @returns {Object} Object containing paths to all subfolders
+ */
+function getProjectFolderPathsAt(projectPath) {
   return {
     projectPath,
     associatedFiles: path.join(projectPath, 'associatedFiles'),
@@ -431,6 +439,22 @@ async function cleanupOrphanedAssociatedFiles(projectId, projectData) {
         for (const af of micrograph.associatedFiles || []) {
           if (af.fileName) referencedFiles.add(af.fileName);
         }
+        // Element map overlays store their source maps alongside associated files
+        for (const map of micrograph.elementMaps || []) {
+          if (map.fileName) referencedFiles.add(map.fileName);
+        }
+        // Rotation series images and their computed maps live there too
+        const series = micrograph.rotationSeries;
+        if (series) {
+          for (const image of series.images || []) {
+            if (image.fileName) referencedFiles.add(image.fileName);
+          }
+          if (series.maps) {
+            referencedFiles.add(series.maps.maxIntensityFileName);
+            referencedFiles.add(series.maps.extinctionAngleFileName);
+            referencedFiles.add(series.maps.retardationFileName);
+          }
+        }
         for (const spot of micrograph.spots || []) {
           for (const af of spot.associatedFiles || []) {
             if (af.fileName) referencedFiles.add(af.fileName);
@@ -470,6 +494,7 @@ module.exports = {
   createProjectFolders,
   projectFolderExists,
   getProjectFolderPaths,
+  getProjectFolderPathsAt,
   deleteProjectFolder,
   listProjectFolders,
   copyFileToAssociatedFiles,
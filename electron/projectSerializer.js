@@ -245,13 +245,18 @@ async function saveProjectJson(project, projectId) {
  * @returns {Promise<Object>} Deserialized project data
  */
 async function loadProjectJson(projectId) {
-  try {
-    log.info(`[ProjectSerializer] Loading project: ${projectId}`);
-
-    // Get project folder paths
-    const folderPaths = projectFolders.getProjectFolderPaths(projectId);
-    const projectJsonPath = folderPaths.projectJson;
+  log.info(`[ProjectSerializer] Loading project: ${projectId}`);
+  const folderPaths = projectFolders.getProjectFolderPaths(projectId);
+  return readProjectJson(folderPaths.projectJson);
+}
 
+/**
+ * Read and deserialize a project.json file at any path
+ * @param {string} projectJsonPath - Path to project.json
+ * @returns {Promise<Object>} Deserialized project data
+ */
+async function readProjectJson(projectJsonPath) {
+  try {
     // Check if file exists
     await fs.promises.access(projectJsonPath, fs.constants.F_OK);
 
@@ -425,7 +430,9 @@ function serializeMicrograph(micrograph) {
     // Affine transform placement data
     placementType: micrograph.placementType || undefined,
     affineMatrix: micrograph.affineMatrix || undefined,
-    affineControlPoints: micrograph.affineControlPoints || undefined,
+    controlPoints: micrograph.controlPoints || undefined,
+    homographyMatrix: micrograph.homographyMatrix || undefined,
+    thinPlateSpline: micrograph.thinPlateSpline || undefined,
     affineBoundsOffset: micrograph.affineBoundsOffset || undefined,
     affineTransformedWidth: micrograph.affineTransformedWidth || undefined,
     affineTransformedHeight: micrograph.affineTransformedHeight || undefined,
@@ -438,6 +445,13 @@ function serializeMicrograph(micrograph) {
     sketchLayers: micrograph.sketchLayers || undefined,
     // StraboTools analysis results
     straboTools: cleanObjectForDb(micrograph.straboTools),
+    // EDS/WDS element map overlays (new feature - not in legacy schema)
+    elementMaps: cleanObjectForDb(micrograph.elementMaps),
+    // Stage-rotation image series and computed extinction maps (new feature - not in legacy schema)
+    // (images is kept as an empty array: a series may be created before any image is added)
+    rotationSeries: micrograph.rotationSeries
+      ? { ...cleanObjectForDb(micrograph.rotationSeries), images: cleanObjectForDb(micrograph.rotationSeries.images) || [] }
+      : undefined,
     // Batch-import completion flag: set when "Instrument and Image Info" was skipped at import.
     // Cleared (false) once the user supplies the info via the post-batch completion dialog.
     needsInstrumentInfo: micrograph.needsInstrumentInfo === true ? true : undefined,
@@ -450,13 +464,14 @@ function serializeMicrograph(micrograph) {
  * Note: Nested objects (*Info) are cleaned to remove null values
  */
 function serializeSpot(spot) {
-  // Round numeric values in points array
-  const roundedPoints = (spot.points || []).map(point => {
+  // Round numeric values in a ring of points
+  const roundRing = (ring) => (ring || []).map(point => {
     if (typeof point === 'object' && point !== null) {
       return roundObjectNumbers(point);
     }
     return point;
   });
+  const roundedPoints = roundRing(spot.points);
 
   return {
     id: spot.id,
@@ -471,6 +486,14 @@ function serializeSpot(spot) {
     modifiedTimestamp: spot.modifiedTimestamp || Date.now(),
     geometryType: spot.geometryType || '',
     points: roundedPoints,
+    // Interior rings and extra polygons (new feature - not in legacy schema)
+    holes: spot.holes?.length ? spot.holes.map(roundRing) : undefined,
+    parts: spot.parts?.length
+      ? spot.parts.map(part => ({
+          points: roundRing(part.points),
+          holes: part.holes?.length ? part.holes.map(roundRing) : undefined,
+        }))
+      : undefined,
     mineralogy: cleanObjectForDb(spot.mineralogy),
     grainInfo: cleanObjectForDb(spot.grainInfo),
     fabricInfo: cleanObjectForDb(spot.fabricInfo),
@@ -628,7 +651,10 @@ function deserializeMicrograph(micrograph) {
     // Affine transform placement data
     placementType: micrograph.placementType,
     affineMatrix: micrograph.affineMatrix,
-    affineControlPoints: micrograph.affineControlPoints,
+    // Older saves wrote the control points under affineControlPoints
+    controlPoints: micrograph.controlPoints ?? micrograph.affineControlPoints,
+    homographyMatrix: micrograph.homographyMatrix,
+    thinPlateSpline: micrograph.thinPlateSpline,
     affineBoundsOffset: micrograph.affineBoundsOffset,
     affineTransformedWidth: micrograph.affineTransformedWidth,
     affineTransformedHeight: micrograph.affineTransformedHeight,
@@ -641,6 +667,10 @@ function deserializeMicrograph(micrograph) {
     sketchLayers: micrograph.sketchLayers,
     // StraboTools analysis results
     straboTools: micrograph.straboTools,
+    // EDS/WDS element map overlays
+    elementMaps: micrograph.elementMaps,
+    // Stage-rotation image series and computed extinction maps
+    rotationSeries: micrograph.rotationSeries,
     // Batch-import completion flag
     needsInstrumentInfo: micrograph.needsInstrumentInfo,
   };
@@ -663,6 +693,8 @@ function deserializeSpot(spot) {
     modifiedTimestamp: spot.modifiedTimestamp,
     geometryType: spot.geometryType,
     points: spot.points,
+    holes: spot.holes,
+    parts: spot.parts,
     mineralogy: spot.mineralogy,
     grainInfo: spot.grainInfo,
     fabricInfo: spot.fabricInfo,
@@ -696,6 +728,7 @@ function deserializeSpot(spot) {
 module.exports = {
   saveProjectJson,
   loadProjectJson,
+  readProjectJson,
   serializeToLegacyFormat,
   deserializeFromLegacyFormat,
 };
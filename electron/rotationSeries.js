@@ -0,0 +1,350 @@
+/**
+ * Rotation Series Maps
+ *
+ * Computes per-pixel maps from crossed-polars images of one field taken at
+ * known rotation angles (stage or polarizers), each already registered to the
+ * micrograph:
+ * 1. Every image is resampled into the map grid (the micrograph extent,
+ *    reduced to MAX_MAP_SIZE) through its registration.
+ * 2. Between crossed polars an anisotropic grain's brightness varies as
+ *    I(θ) = a + b·cos 4θ + c·sin 4θ, dark every 90° (extinction) and
+ *    brightest 45° from extinction. The three coefficients are fitted per
+ *    pixel by least squares; with every image covering the pixel the normal
+ *    matrix is the same everywhere, so it is inverted once.
+ * 3. Maps are written to the project's associatedFiles folder as PNGs:
+ *    - maximum intensity: RGB of the brightest image at each pixel
+ *    - extinction angle: angle of the fitted minimum, 0-90° as 0-255
+ *    - retardation proxy: peak-to-peak fitted modulation (2·√(b² + c²)),
+ *      which grows with birefringence × thickness through the first order
+ *
+ * Pixels not covered by every image are left black in all maps.
+ */
+
+const path = require('path');
+const sharp = require('sharp');
+const log = require('electron-log');
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Long edge (px) of the computed maps */
+const MAX_MAP_SIZE = 2048;
+
+/** Levels the extinction angle is quantized to over 90° (value 256 wraps to 0) */
+const EXTINCTION_LEVELS = 256;
+
+/** Normal-matrix determinant (per image³) below which the angles cannot separate cos 4θ from sin 4θ */
+const MIN_ANGLE_SPREAD = 1e-3;
+
+const LUMINANCE_R = 0.2989;
+const LUMINANCE_G = 0.5870;
+const LUMINANCE_B = 0.1140;
+
+// ─── Fit ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Invert the normal matrix of the fit I = a + b·cos 4θ + c·sin 4θ over the
+ * given angles.
+ * @param {number[]} angles - Angles in degrees
+ * @returns {number[][]} Inverse of the 3×3 normal matrix
+ * @throws {Error} If the angles do not determine the fit
+ */
+function invertNormalMatrix(angles) {
+  const n = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (const angle of angles) {
+    const t = (4 * angle * Math.PI) / 180;
+    const row = [1, Math.cos(t), Math.sin(t)];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) n[i][j] += row[i] * row[j];
+    }
+  }
+
+  const det =
+    n[0][0] * (n[1][1] * n[2][2] - n[1][2] * n[2][1]) -
+    n[0][1] * (n[1][0] * n[2][2] - n[1][2] * n[2][0]) +
+    n[0][2] * (n[1][0] * n[2][1] - n[1][1] * n[2][0]);
+
+  if (det / angles.length ** 3 < MIN_ANGLE_SPREAD) {
+    throw new Error(
+      'The image angles cannot resolve extinction: at least three angles that differ modulo 90° ' +
+      '(and not only by 45°) are needed, e.g. 0°, 30° and 60°.'
+    );
+  }
+
+  const inv = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      const r0 = (j + 1) % 3;
+      const r1 = (j + 2) % 3;
+      const c0 = (i + 1) % 3;
+      const c1 = (i + 2) % 3;
+      inv[i][j] = (n[r0][c0] * n[r1][c1] - n[r0][c1] * n[r1][c0]) / det;
+    }
+  }
+  return inv;
+}
+
+// ─── Resampling ──────────────────────────────────────────────────────────────
+
+/**
+ * Load an image as RGB, reduced so one pixel is about one map pixel.
+ * @param {string} imagePath
+ * @param {number} factor - Loaded pixels per image pixel (at most 1)
+ */
+async function loadImage(imagePath, factor) {
+  const metadata = await sharp(imagePath, { limitInputPixels: false }).metadata();
+  const width = Math.max(1, Math.round(metadata.width * factor));
+  const height = Math.max(1, Math.round(metadata.height * factor));
+  const { data, info } = await sharp(imagePath, { limitInputPixels: false })
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data,
+    width: info.width,
+    height: info.height,
+    channels: info.channels,
+    scaleX: info.width / metadata.width,
+    scaleY: info.height / metadata.height,
+  };
+}
+
+/**
+ * Invert an affine matrix [a, b, tx, c, d, ty].
+ */
+function invertAffine([a, b, tx, c, d, ty]) {
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-12) {
+    throw new Error('Image registration is degenerate');
+  }
+  return [d / det, -b / det, (b * ty - d * tx) / det, -c / det, a / det, (c * tx - a * ty) / det];
+}
+
+/**
+ * Add one image to the accumulators: resample it into the map grid
+ * (bilinear), then accumulate the fit sums and track the brightest color.
+ */
+function accumulateImage(image, toImage, angle, mapWidth, mapHeight, acc) {
+  const t = (4 * angle * Math.PI) / 180;
+  const cos4 = Math.cos(t);
+  const sin4 = Math.sin(t);
+  const { data, width, height, channels } = image;
+  const [a, b, tx, c, d, ty] = toImage;
+
+  for (let my = 0; my < mapHeight; my++) {
+    for (let mx = 0; mx < mapWidth; mx++) {
+      // Map pixel center to loaded-image pixel index space
+      const px = mx + 0.5;
+      const py = my + 0.5;
+      const ix = a * px + b * py + tx - 0.5;
+      const iy = c * px + d * py + ty - 0.5;
+      if (ix < 0 || iy < 0 || ix > width - 1 || iy > height - 1) continue;
+
+      const x0 = Math.floor(ix);
+      const y0 = Math.floor(iy);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = ix - x0;
+      const fy = iy - y0;
+      const w00 = (1 - fx) * (1 - fy);
+      const w10 = fx * (1 - fy);
+      const w01 = (1 - fx) * fy;
+      const w11 = fx * fy;
+      const p00 = (y0 * width + x0) * channels;
+      const p10 = (y0 * width + x1) * channels;
+      const p01 = (y1 * width + x0) * channels;
+      const p11 = (y1 * width + x1) * channels;
+
+      const r = w00 * data[p00] + w10 * data[p10] + w01 * data[p01] + w11 * data[p11];
+      const g = w00 * data[p00 + 1] + w10 * data[p10 + 1] + w01 * data[p01 + 1] + w11 * data[p11 + 1];
+      const bl = w00 * data[p00 + 2] + w10 * data[p10 + 2] + w01 * data[p01 + 2] + w11 * data[p11 + 2];
+      const lum = LUMINANCE_R * r + LUMINANCE_G * g + LUMINANCE_B * bl;
+
+      const i = my * mapWidth + mx;
+      acc.sum[i] += lum;
+      acc.sumCos[i] += lum * cos4;
+      acc.sumSin[i] += lum * sin4;
+      acc.coverage[i]++;
+      if (lum > acc.maxLum[i]) {
+        acc.maxLum[i] = lum;
+        acc.maxRgb[i * 3] = r;
+        acc.maxRgb[i * 3 + 1] = g;
+        acc.maxRgb[i * 3 + 2] = bl;
+      }
+    }
+  }
+}
+
+// ─── Main Entry ──────────────────────────────────────────────────────────────
+
+/**
+ * Compute maximum-intensity, extinction-angle and retardation-proxy maps.
+ *
+ * @param {Object} params
+ * @param {Array<{ path: string, angle: number, matrix: number[] }>} params.images -
+ *   Images with their angle (degrees) and registration (image px → micrograph px)
+ * @param {number} params.width - Micrograph width in pixels
+ * @param {number} params.height - Micrograph height in pixels
+ * @param {string} params.outputDir - Folder the map PNGs are written to
+ * @param {Function} [params.progressCallback] - Called with { stage, percent }
+ * @returns {Promise<Object>} Map file names and dimensions
+ */
+async function computeRotationMaps({ images, width, height, outputDir, progressCallback }) {
+  const progress = (stage, percent) => progressCallback?.({ stage, percent });
+
+  if (!images || images.length < 3) {
+    throw new Error('At least three images are needed to compute rotation series maps');
+  }
+  const inverse = invertNormalMatrix(images.map((image) => image.angle));
+
+  const factor = Math.min(1, MAX_MAP_SIZE / Math.max(width, height));
+  const mapWidth = Math.max(1, Math.round(width * factor));
+  const mapHeight = Math.max(1, Math.round(height * factor));
+  const mapScaleX = mapWidth / width;
+  const mapScaleY = mapHeight / height;
+  const pixelCount = mapWidth * mapHeight;
+
+  const acc = {
+    sum: new Float32Array(pixelCount),
+    sumCos: new Float32Array(pixelCount),
+    sumSin: new Float32Array(pixelCount),
+    coverage: new Uint8Array(pixelCount),
+    maxLum: new Float32Array(pixelCount).fill(-1),
+    maxRgb: new Uint8ClampedArray(pixelCount * 3),
+  };
+
+  log.info(`[RotationSeries] Computing ${mapWidth}x${mapHeight} maps from ${images.length} images`);
+
+  for (let index = 0; index < images.length; index++) {
+    const { path: imagePath, angle, matrix } = images[index];
+    progress(`Resampling image ${index + 1} of ${images.length}...`, (index / images.length) * 100);
+
+    // Loaded pixels per image pixel: about one loaded pixel per map pixel
+    const imageScale = Math.sqrt(Math.abs(matrix[0] * matrix[4] - matrix[1] * matrix[3]));
+    const image = await loadImage(imagePath, Math.min(1, imageScale * factor));
+
+    // Map px → micrograph px → image px → loaded px
+    const [a, b, tx, c, d, ty] = invertAffine(matrix);
+    const toImage = [
+      (a / mapScaleX) * image.scaleX,
+      (b / mapScaleY) * image.scaleX,
+      tx * image.scaleX,
+      (c / mapScaleX) * image.scaleY,
+      (d / mapScaleY) * image.scaleY,
+      ty * image.scaleY,
+    ];
+    accumulateImage(image, toImage, angle, mapWidth, mapHeight, acc);
+  }
+
+  progress('Fitting extinction...', 100);
+
+  const maxIntensity = Buffer.alloc(pixelCount * 3);
+  const extinction = Buffer.alloc(pixelCount);
+  const retardation = Buffer.alloc(pixelCount);
+  let coveredCount = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (acc.coverage[i] !== images.length) continue;
+    coveredCount++;
+
+    const rhs = [acc.sum[i], acc.sumCos[i], acc.sumSin[i]];
+    const b = inverse[1][0] * rhs[0] + inverse[1][1] * rhs[1] + inverse[1][2] * rhs[2];
+    const c = inverse[2][0] * rhs[0] + inverse[2][1] * rhs[1] + inverse[2][2] * rhs[2];
+
+    // Minimum of a + R·cos(4θ − φ) lies at 4θ = φ + π
+    const minimumAt = ((Math.atan2(c, b) + Math.PI) / 4) * (180 / Math.PI);
+    const degrees = ((minimumAt % 90) + 90) % 90;
+    extinction[i] = Math.round((degrees / 90) * EXTINCTION_LEVELS) % EXTINCTION_LEVELS;
+    retardation[i] = Math.min(255, Math.round(2 * Math.hypot(b, c)));
+
+    maxIntensity[i * 3] = acc.maxRgb[i * 3];
+    maxIntensity[i * 3 + 1] = acc.maxRgb[i * 3 + 1];
+    maxIntensity[i * 3 + 2] = acc.maxRgb[i * 3 + 2];
+  }
+
+  if (coveredCount === 0) {
+    throw new Error('The registered images do not overlap');
+  }
+
+  progress('Saving maps...', 100);
+  const stamp = Date.now();
+  const files = {
+    maxIntensityFileName: `rotationseries-${stamp}-max-intensity.png`,
+    extinctionAngleFileName: `rotationseries-${stamp}-extinction-angle.png`,
+    retardationFileName: `rotationseries-${stamp}-retardation.png`,
+  };
+  const write = (buffer, channels, fileName) =>
+    sharp(buffer, { raw: { width: mapWidth, height: mapHeight, channels } })
+      .toColourspace(channels === 1 ? 'b-w' : 'srgb')
+      .png()
+      .toFile(path.join(outputDir, fileName));
+
+  await write(maxIntensity, 3, files.maxIntensityFileName);
+  await write(extinction, 1, files.extinctionAngleFileName);
+  await write(retardation, 1, files.retardationFileName);
+
+  log.info(
+    `[RotationSeries] Maps written (${Math.round((coveredCount / pixelCount) * 100)}% of the field covered by all images)`
+  );
+
+  return {
+    ...files,
+    width: mapWidth,
+    height: mapHeight,
+    imageCount: images.length,
+  };
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read raw map pixels straight from the saved PNG.
+ *
+ * The tile cache stores lossy WebP/JPEG, which smears the extinction codes
+ * (0 and 255 are neighboring angles, so compression artifacts there decode as
+ * spurious angles); sampling and display read the PNG instead. Downsampling
+ * uses nearest neighbor for the same reason.
+ *
+ * @param {string} filePath - Map PNG
+ * @param {Object} [options]
+ * @param {{ x: number, y: number, width: number, height: number }} [options.region] -
+ *   Block to read in map pixels (clamped to the map)
+ * @param {number} [options.maxSize] - Long edge the result is reduced to
+ * @returns {Promise<{ x: number, y: number, width: number, height: number, channels: number, data: Buffer }>}
+ *   Block origin in map pixels, its size as returned, and interleaved pixels
+ */
+async function readRotationMap(filePath, { region, maxSize } = {}) {
+  const metadata = await sharp(filePath, { limitInputPixels: false }).metadata();
+  let pipeline = sharp(filePath, { limitInputPixels: false });
+
+  let x = 0;
+  let y = 0;
+  if (region) {
+    x = Math.max(0, Math.min(metadata.width - 1, Math.floor(region.x)));
+    y = Math.max(0, Math.min(metadata.height - 1, Math.floor(region.y)));
+    const width = Math.max(1, Math.min(metadata.width - x, Math.ceil(region.width)));
+    const height = Math.max(1, Math.min(metadata.height - y, Math.ceil(region.height)));
+    pipeline = pipeline.extract({ left: x, top: y, width, height });
+  }
+  if (maxSize) {
+    pipeline = pipeline.resize({
+      width: maxSize,
+      height: maxSize,
+      fit: 'inside',
+      withoutEnlargement: true,
+      kernel: 'nearest',
+    });
+  }
+
+  // Keep single-channel maps single-channel (sharp outputs sRGB by default)
+  const { data, info } = await pipeline
+    .removeAlpha()
+    .toColourspace(metadata.channels <= 2 ? 'b-w' : 'srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { x, y, width: info.width, height: info.height, channels: info.channels, data };
+}
+
+module.exports = { computeRotationMaps, readRotationMap };
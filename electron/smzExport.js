@@ -34,6 +34,7 @@ const sharp = require('sharp');
 const archiver = require('archiver');
 const tileCache = require('./tileCache');
 const tileGenerator = require('./tileGenerator');
+const placementWarp = require('./placementWarp');
 
 /**
  * Resolve image path with fallback to uiImages for legacy projects.
@@ -324,7 +325,7 @@ async function generateCompositeBufferNoSpots(projectId, micrograph, projectData
       }
 
       // Handle affine-placed overlays specially
-      if (child.placementType === 'affine') {
+      if (placementWarp.isWarpedPlacement(child.placementType)) {
         try {
           const affineTileHash = child.affineTileHash;
           if (!affineTileHash) {
@@ -809,7 +810,7 @@ async function exportSmz(
         }
 
         // Affine overlays: also package the pre-transformed pyramid to tilesAffine/<id>/.
-        if (micrograph.placementType === 'affine') {
+        if (placementWarp.isWarpedPlacement(micrograph.placementType)) {
           const affineHash = micrograph.affineTileHash;
           if (!affineHash) {
             log.warn(`[SmzExport] Affine micrograph ${micrographId} missing affineTileHash, skipping affine tiles`);
@@ -19,6 +19,7 @@ const projectFolders = require('./projectFolders');
 const projectSerializer = require('./projectSerializer');
 const versionHistory = require('./versionHistory');
 const affineTileGenerator = require('./affineTileGenerator');
+const placementWarp = require('./placementWarp');
 const tileCache = require('./tileCache');
 
 /**
@@ -1015,7 +1016,7 @@ async function importSmz(smzPath, progressCallback) {
     for (const dataset of projectData.datasets || []) {
       for (const sample of dataset.samples || []) {
         for (const micrograph of sample.micrographs || []) {
-          if (micrograph.placementType === 'affine' && micrograph.affineMatrix) {
+          if (placementWarp.isWarpedPlacement(micrograph.placementType) && micrograph.affineMatrix) {
             affineMicrographs.push(micrograph);
           }
         }
@@ -1054,11 +1055,13 @@ async function importSmz(smzPath, progressCallback) {
           log.info(`[SmzImport] Generating affine tiles for: ${label} (hash ${affineHash})`);
           sendProgress('Regenerating affine tiles', 94 + Math.round((i / affineMicrographs.length) * 4), `Processing: ${label}`);
 
-          // Generate affine tiles using the stored matrix
+          // Generate affine tiles using the stored matrix (and warp, for projective / spline placement)
           await affineTileGenerator.generateAffineTiles(
             imagePath,
             affineHash,
-            micro.affineMatrix
+            micro.affineMatrix,
+            null,
+            placementWarp.getMicrographWarp(micro)
           );
 
           // Confirm the bake actually produced a loadable bundle.
@@ -12,6 +12,7 @@ const path = require('path');
 const log = require('electron-log');
 const sharp = require('sharp');
 const tileCache = require('./tileCache');
+const placementWarp = require('./placementWarp');
 
 /**
  * Resolve image path with fallback to uiImages for legacy projects.
@@ -91,7 +92,7 @@ async function generateCompositeBaseImage(micrograph, projectData, folderPaths)
       if (child.isMicroVisible === false) continue;
 
       // Handle affine-placed overlays specially
-      if (child.placementType === 'affine') {
+      if (placementWarp.isWarpedPlacement(child.placementType)) {
         try {
           const affineTileHash = child.affineTileHash;
           if (!affineTileHash) {
@@ -348,6 +349,38 @@ function escapeXml(str) {
     .replace(/'/g, '&apos;');
 }
 
+/**
+ * SVG path data for a polygon spot with holes or several parts: every ring
+ * becomes a closed subpath, to be filled with fill-rule="evenodd"
+ * @param {Object} spot - Spot object
+ * @returns {string|null} Path data, or null for a simple polygon
+ */
+function getSpotRingsPathData(spot) {
+  let polygons;
+  if (spot.geometry?.type === 'MultiPolygon') {
+    polygons = spot.geometry.coordinates || [];
+  } else if (spot.geometry?.type === 'Polygon') {
+    if (!Array.isArray(spot.geometry.coordinates) || spot.geometry.coordinates.length < 2) return null;
+    polygons = [spot.geometry.coordinates];
+  } else {
+    if (!spot.holes?.length && !spot.parts?.length) return null;
+    const toRing = (points) => (points || []).map(p => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0]);
+    polygons = [
+      [spot.points, ...(spot.holes || [])],
+      ...(spot.parts || []).map(part => [part.points, ...(part.holes || [])]),
+    ].map(rings => rings.map(toRing));
+  }
+
+  const subpaths = [];
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      if (ring.length < 3) continue;
+      subpaths.push(ring.map((c, i) => `${i === 0 ? 'M' : 'L'}${c[0]},${c[1]}`).join(' ') + ' Z');
+    }
+  }
+  return subpaths.length > 0 ? subpaths.join(' ') : null;
+}
+
 /**
  * Generate vector SVG elements for spots
  * @param {Array} spots - Array of spot objects
@@ -422,7 +455,10 @@ function generateSpotSvgElements(spots, width, height) {
         ? (spot.geometry.coordinates[0] || [])
         : spot.points?.map(p => [p.X ?? 0, p.Y ?? 0]) || [];
 
-      if (coords.length >= 3) {
+      const ringsPath = getSpotRingsPathData(spot);
+      if (ringsPath) {
+        svgParts.push(`      <path d="${ringsPath}" fill-rule="evenodd" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
+      } else if (coords.length >= 3) {
         const pointsStr = coords.map(c => `${c[0]},${c[1]}`).join(' ');
         svgParts.push(`      <polygon points="${pointsStr}" fill="${color}" fill-opacity="${opacity}" stroke="${color}" stroke-width="${lineStrokeWidth}"/>`);
       }
@@ -548,4 +584,5 @@ module.exports = {
   exportMicrographAsSvg,
   generateCompositeBaseImage,
   generateSpotSvgElements,
+  getSpotRingsPathData,
 };
@@ -12,6 +12,8 @@ import { AboutDialog } from './components/dialogs/AboutDialog';
 import { LogViewerModal } from './components/dialogs/LogViewerModal';
 import { SendErrorReportModal } from './components/dialogs/SendErrorReportModal';
 import { ExportAllImagesDialog } from './components/dialogs/ExportAllImagesDialog';
+import { ExportCocoDialog } from './components/dialogs/ExportCocoDialog';
+import { ImportCocoPredictionsDialog } from './components/dialogs/ImportCocoPredictionsDialog';
 import { RebuildTileCacheDialog } from './components/dialogs/RebuildTileCacheDialog';
 import { ExportPDFDialog } from './components/dialogs/ExportPDFDialog';
 import { ExportSmzDialog } from './components/dialogs/ExportSmzDialog';
@@ -19,6 +21,7 @@ import { PushToServerDialog } from './components/dialogs/PushToServerDialog';
 import { VersionHistoryDialog } from './components/dialogs/VersionHistoryDialog';
 import { StatisticsPanel } from './components/StatisticsPanel';
 import { QuickClassifyToolbar } from './components/QuickClassifyToolbar';
+import { LineInterceptToolbar } from './components/LineInterceptToolbar';
 import { ConfigureShortcutsDialog } from './components/dialogs/ConfigureShortcutsDialog';
 import { ImportSmzDialog } from './components/dialogs/ImportSmzDialog';
 import { DeepLinkOpenDialog } from './components/dialogs/DeepLinkOpenDialog';
@@ -31,6 +34,12 @@ import { GrainDetectionDialog } from './components/dialogs/GrainDetectionDialog'
 import { ImageComparatorDialog } from './components/dialogs/ImageComparatorDialog';
 import { GrainSizeAnalysisDialog } from './components/dialogs/GrainSizeAnalysisDialog';
 import { StraboToolsDialog } from './components/dialogs/StraboToolsDialog';
+import { ElementMapsDialog } from './components/dialogs/ElementMapsDialog';
+import { RotationSeriesDialog } from './components/dialogs/RotationSeriesDialog';
+import { PhaseClassificationDialog } from './components/dialogs/PhaseClassificationDialog';
+import { LineInterceptDialog } from './components/dialogs/LineInterceptDialog';
+import { FryAnalysisDialog } from './components/dialogs/FryAnalysisDialog';
+import { GrainBoundaryNetworkDialog } from './components/dialogs/GrainBoundaryNetworkDialog';
 import { MineralColorDialog } from './components/dialogs/MineralColorDialog';
 import { QuickEditEntryDialog } from './components/dialogs/QuickEditEntryDialog';
 import { QuickApplyPresetsDialog } from './components/dialogs/QuickApplyPresetsDialog';
@@ -41,7 +50,7 @@ import {
   IncompleteMicrograph,
 } from './components/dialogs/IncompleteMicrographsDialog';
 import UpdateNotification from './components/UpdateNotification';
-import { useAppStore, useTemporalStore } from '@/store';
+import { useAppStore, useTemporalStore, runAsHistoryStep } from '@/store';
 import { useAuthStore } from '@/store/useAuthStore';
 import { useTheme } from './hooks/useTheme';
 import { useAutosave } from './hooks/useAutosave';
@@ -171,6 +180,8 @@ function App() {
   const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
   const [isLoginDialogOpen, setIsLoginDialogOpen] = useState(false);
   const [isExportAllImagesOpen, setIsExportAllImagesOpen] = useState(false);
+  const [isExportCocoOpen, setIsExportCocoOpen] = useState(false);
+  const [isImportCocoOpen, setIsImportCocoOpen] = useState(false);
   const [isRebuildTileCacheOpen, setIsRebuildTileCacheOpen] = useState(false);
   const [isExportPDFOpen, setIsExportPDFOpen] = useState(false);
   const [isExportSmzOpen, setIsExportSmzOpen] = useState(false);
@@ -196,6 +207,12 @@ function App() {
   const [isGrainSizeAnalysisDialogOpen, setIsGrainSizeAnalysisDialogOpen] = useState(false);
   const [isStraboToolsDialogOpen, setIsStraboToolsDialogOpen] = useState(false);
   const [straboToolsInitialMicrographId, setStraboToolsInitialMicrographId] = useState<string | null>(null);
+  const [isElementMapsDialogOpen, setIsElementMapsDialogOpen] = useState(false);
+  const [isRotationSeriesDialogOpen, setIsRotationSeriesDialogOpen] = useState(false);
+  const [isPhaseClassificationDialogOpen, setIsPhaseClassificationDialogOpen] = useState(false);
+  const [isLineInterceptDialogOpen, setIsLineInterceptDialogOpen] = useState(false);
+  const [isFryAnalysisDialogOpen, setIsFryAnalysisDialogOpen] = useState(false);
+  const [isGrainBoundaryNetworkDialogOpen, setIsGrainBoundaryNetworkDialogOpen] = useState(false);
   const [isQuickEditEntryDialogOpen, setIsQuickEditEntryDialogOpen] = useState(false);
   const [isQuickApplyPresetsDialogOpen, setIsQuickApplyPresetsDialogOpen] = useState(false);
   const [isMineralColorDialogOpen, setIsMineralColorDialogOpen] = useState(false);
@@ -499,6 +516,36 @@ function App() {
       setIsStraboToolsDialogOpen(true);
     }));
 
+    // Element Maps menu item (Tools menu)
+    unsubscribers.push(window.api.onElementMaps(() => {
+      setIsElementMapsDialogOpen(true);
+    }));
+
+    // Rotation Series menu item (Tools menu)
+    unsubscribers.push(window.api.onRotationSeries(() => {
+      setIsRotationSeriesDialogOpen(true);
+    }));
+
+    // Phase Classification menu item (Tools menu)
+    unsubscribers.push(window.api.onPhaseClassification(() => {
+      setIsPhaseClassificationDialogOpen(true);
+    }));
+
+    // Line Intercept Grain Size menu item (Tools menu)
+    unsubscribers.push(window.api.onLineIntercept(() => {
+      setIsLineInterceptDialogOpen(true);
+    }));
+
+    // Fry Strain Analysis menu item (Tools menu)
+    unsubscribers.push(window.api.onFryAnalysis(() => {
+      setIsFryAnalysisDialogOpen(true);
+    }));
+
+    // Grain Boundary Network menu item (Tools menu)
+    unsubscribers.push(window.api.onGrainBoundaryNetwork(() => {
+      setIsGrainBoundaryNetworkDialogOpen(true);
+    }));
+
     // Grain Size Analysis from PropertiesPanel summary
     const handleOpenGrainAnalysis = () => setIsGrainSizeAnalysisDialogOpen(true);
     window.addEventListener('open-grain-size-analysis', handleOpenGrainAnalysis);
@@ -1021,9 +1068,11 @@ function App() {
       const spots = generateTestSpots(100, imageWidth, imageHeight);
 
       // Add each spot to the micrograph
-      for (const spot of spots) {
-        addSpot(activeMicrographId, spot);
-      }
+      runAsHistoryStep(`Generate ${spots.length} test spots`, () => {
+        for (const spot of spots) {
+          addSpot(activeMicrographId, spot);
+        }
+      });
 
       console.log(`[Debug] Generated ${spots.length} test spots`);
     }));
@@ -1080,6 +1129,22 @@ function App() {
       setIsExportAllImagesOpen(true);
     }));
 
+    // File: COCO training dataset export / predictions import
+    unsubscribers.push(window.api.onExportCocoDataset(() => {
+      if (!project) {
+        alert('No project loaded. Please load a project first.');
+        return;
+      }
+      setIsExportCocoOpen(true);
+    }));
+    unsubscribers.push(window.api.onImportCocoPredictions(() => {
+      if (!project) {
+        alert('No project loaded. Please load a project first.');
+        return;
+      }
+      setIsImportCocoOpen(true);
+    }));
+
     // Tools: Rebuild Tile Cache menu item
     if (window.api.onRebuildTileCache) {
       unsubscribers.push(window.api.onRebuildTileCache(() => {
@@ -1303,6 +1368,14 @@ function App() {
         projectId={project?.id ?? null}
         projectData={project}
       />
+      <ExportCocoDialog
+        open={isExportCocoOpen}
+        onClose={() => setIsExportCocoOpen(false)}
+      />
+      <ImportCocoPredictionsDialog
+        open={isImportCocoOpen}
+        onClose={() => setIsImportCocoOpen(false)}
+      />
       <RebuildTileCacheDialog
         open={isRebuildTileCacheOpen}
         onClose={() => setIsRebuildTileCacheOpen(false)}
@@ -1416,6 +1489,7 @@ function App() {
       <GrainDetectionDialog
         isOpen={isGrainDetectionDialogOpen}
         onClose={() => setIsGrainDetectionDialogOpen(false)}
+        onOpen={() => setIsGrainDetectionDialogOpen(true)}
         micrographId={activeMicrographId}
       />
       <ImageComparatorDialog
@@ -1430,6 +1504,30 @@ function App() {
         }}
         initialMicrographId={straboToolsInitialMicrographId}
       />
+      <ElementMapsDialog
+        open={isElementMapsDialogOpen}
+        onClose={() => setIsElementMapsDialogOpen(false)}
+      />
+      <RotationSeriesDialog
+        open={isRotationSeriesDialogOpen}
+        onClose={() => setIsRotationSeriesDialogOpen(false)}
+      />
+      <PhaseClassificationDialog
+        open={isPhaseClassificationDialogOpen}
+        onClose={() => setIsPhaseClassificationDialogOpen(false)}
+      />
+      <LineInterceptDialog
+        open={isLineInterceptDialogOpen}
+        onClose={() => setIsLineInterceptDialogOpen(false)}
+      />
+      <FryAnalysisDialog
+        open={isFryAnalysisDialogOpen}
+        onClose={() => setIsFryAnalysisDialogOpen(false)}
+      />
+      <GrainBoundaryNetworkDialog
+        open={isGrainBoundaryNetworkDialogOpen}
+        onClose={() => setIsGrainBoundaryNetworkDialogOpen(false)}
+      />
       <GrainSizeAnalysisDialog
         open={isGrainSizeAnalysisDialogOpen}
         onClose={() => setIsGrainSizeAnalysisDialogOpen(false)}
@@ -1456,6 +1554,7 @@ function App() {
       <QuickClassifyToolbar
         onOpenSettings={() => setIsConfigureShortcutsOpen(true)}
       />
+      <LineInterceptToolbar />
       <ConfigureShortcutsDialog
         open={isConfigureShortcutsOpen}
         onClose={() => setIsConfigureShortcutsOpen(false)}
@@ -17,6 +17,7 @@ import { Group, Image as KonvaImage, Rect, Line } from 'react-konva';
 import { MicrographMetadata } from '@/types/project-types';
 import { useAppStore } from '@/store';
 import { releaseImage, isImageUsable } from '@/utils/imageUtils';
+import { getPlacementWarp, isWarpedPlacement, warpOutline } from '@/utils/placementWarp';
 
 // Render modes based on screen coverage and zoom
 export type RenderMode = 'THUMBNAIL' | 'MEDIUM' | 'TILED';
@@ -110,7 +111,7 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
   // from tile loading because overlayTransform needs it synchronously for positioning,
   // even in THUMBNAIL/MEDIUM modes before tiles are requested.
   useEffect(() => {
-    if (micrograph.placementType !== 'affine' || !micrograph.affineTileHash || !window.api) {
+    if (!isWarpedPlacement(micrograph.placementType) || !micrograph.affineTileHash || !window.api) {
       setAffineOversample(1);
       return;
     }
@@ -266,7 +267,8 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
   /**
    * Calculate position and scale for rendering overlay on parent
    *
-   * For affine placement:
+   * For affine placement (and projective / thin-plate spline placement, which
+   * share the affine tile cache):
    * - The affine transform is already baked into the tiles
    * - Position using affineBoundsOffset (top-left corner in parent space)
    * - No additional scale/rotation needed
@@ -280,7 +282,7 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
    */
   const overlayTransform = useMemo(() => {
     // Handle affine placement type
-    if (micrograph.placementType === 'affine') {
+    if (isWarpedPlacement(micrograph.placementType)) {
       // Parent-space AABB dimensions (footprint on the parent canvas). These come from
       // project.json and represent the size of the placed parallelogram's bounding box.
       const parentSpaceWidth = micrograph.affineTransformedWidth || micrograph.imageWidth || 0;
@@ -290,24 +292,18 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
       const outputWidth = parentSpaceWidth * affineOversample;
       const outputHeight = parentSpaceHeight * affineOversample;
       const boundsOffset = micrograph.affineBoundsOffset || { x: 0, y: 0 };
-      const matrix = micrograph.affineMatrix;
+      const warp = getPlacementWarp(micrograph);
       const srcWidth = micrograph.imageWidth || 0;
       const srcHeight = micrograph.imageHeight || 0;
 
-      // Compute the outline points for the affine parallelogram in output-buffer coords
-      // (Konva group's 1/oversample scale brings them back to parent-coord space).
+      // Compute the outline points for the warped image (a parallelogram for affine) in
+      // output-buffer coords (Konva group's 1/oversample scale brings them back to
+      // parent-coord space).
       let affineOutlinePoints: number[] | null = null;
-      if (matrix && matrix.length === 6) {
-        const [a, b, tx, c, d, ty] = matrix;
-        const corners = [
-          [0, 0],
-          [srcWidth, 0],
-          [srcWidth, srcHeight],
-          [0, srcHeight],
-        ];
-        affineOutlinePoints = corners.flatMap(([x, y]) => [
-          (a * x + b * y + tx - boundsOffset.x) * affineOversample,
-          (c * x + d * y + ty - boundsOffset.y) * affineOversample,
+      if (warp) {
+        affineOutlinePoints = warpOutline(warp, srcWidth, srcHeight).flatMap(([x, y]) => [
+          (x - boundsOffset.x) * affineOversample,
+          (y - boundsOffset.y) * affineOversample,
         ]);
       }
 
@@ -385,7 +381,7 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
 
     // Capture imagePath in a non-null variable for TypeScript
     const imagePath = micrograph.imagePath;
-    const isAffine = micrograph.placementType === 'affine';
+    const isAffine = isWarpedPlacement(micrograph.placementType);
 
     // Max retries to avoid infinite loops
     const MAX_RETRIES = 3;
@@ -443,7 +439,7 @@ export const AssociatedImageRenderer: React.FC<AssociatedImageRendererProps> = (
         // retry, regenerate the tiles on demand from the source image + stored matrix under
         // the same hash before loading. Gated on retryCount so the healthy path pays nothing.
         if (isAffine && micrograph.affineMatrix && imageState.retryCount > 0) {
-          await window.api!.ensureAffineTiles(fullPath, imageHash, micrograph.affineMatrix);
+          await window.api!.ensureAffineTiles(fullPath, imageHash, micrograph.affineMatrix, getPlacementWarp(micrograph));
         }
 
         if (targetMode === 'THUMBNAIL') {
@@ -8,56 +8,79 @@
  * - Position offset (where the child is placed on the parent)
  * - Scale difference (pixels-per-centimeter ratio between parent and child)
  * - Rotation (child micrograph rotation)
- * - Affine transform (when the child is placed via 3-Point Registration)
+ * - Control point warp (when the child is placed by affine, projective or
+ *   thin-plate spline registration)
  */
 
 import { useMemo } from 'react';
 import { Group } from 'react-konva';
-import { MicrographMetadata, Spot, Geometry } from '@/types/project-types';
-import type { AffineMatrix } from '@/utils/affineTransform';
+import { MicrographMetadata, Spot, Geometry, SimpleCoord } from '@/types/project-types';
+import { getPlacementWarp, warpPath, warpPoint, type PlacementWarp } from '@/utils/placementWarp';
 import { SpotRenderer } from './SpotRenderer';
 
-// Apply a 2x3 affine matrix [a, b, tx, c, d, ty] to a 2D point.
-const applyAffine = (matrix: AffineMatrix, x: number, y: number): [number, number] => {
-  const [a, b, tx, c, d, ty] = matrix;
-  return [a * x + b * y + tx, c * x + d * y + ty];
+type Pair = [number, number];
+
+// Map a ring or polyline of spot points through the warp.
+const warpSpotPoints = (warp: PlacementWarp, points: SimpleCoord[], closed: boolean): SimpleCoord[] =>
+  warpPath(
+    warp,
+    points.map((p) => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0] as Pair),
+    closed
+  ).map(([x, y]) => ({ X: x, Y: y }));
+
+// Map a closed GeoJSON ring through the warp, keeping it closed.
+const warpGeometryRing = (warp: PlacementWarp, ring: Pair[]): Pair[] => {
+  const open = ring.length > 1 ? ring.slice(0, -1) : ring;
+  const warped = warpPath(warp, open, true);
+  return warped.length > 0 ? [...warped, warped[0]] : warped;
 };
 
-// Return a shallow-cloned Spot with its geometry/points mapped through the
-// affine matrix. The original spot is untouched so callers (selection, edit
-// callbacks) keep operating on the canonical spot in child coordinate space.
-const transformSpotByAffine = (spot: Spot, matrix: AffineMatrix): Spot => {
+// Return a shallow-cloned Spot with its geometry/points (and holes/parts)
+// mapped through the placement warp. The original spot is untouched so
+// callers (selection, edit callbacks) keep operating on the canonical spot in
+// child coordinate space.
+const transformSpotByWarp = (spot: Spot, warp: PlacementWarp): Spot => {
   const next: Spot = { ...spot };
 
   if (spot.geometry) {
     const { type, coordinates } = spot.geometry;
     if (type === 'Point') {
-      const [x, y] = coordinates as [number, number];
-      next.geometry = { ...spot.geometry, coordinates: applyAffine(matrix, x, y) } as Geometry;
+      const [x, y] = coordinates as Pair;
+      next.geometry = { ...spot.geometry, coordinates: warpPoint(warp, x, y) } as Geometry;
     } else if (type === 'LineString') {
       next.geometry = {
         ...spot.geometry,
-        coordinates: (coordinates as Array<[number, number]>).map(([x, y]) =>
-          applyAffine(matrix, x, y)
-        ),
+        coordinates: warpPath(warp, coordinates as Pair[], false),
       } as Geometry;
     } else if (type === 'Polygon') {
       next.geometry = {
         ...spot.geometry,
-        coordinates: (coordinates as Array<Array<[number, number]>>).map((ring) =>
-          ring.map(([x, y]) => applyAffine(matrix, x, y))
+        coordinates: (coordinates as Pair[][]).map((ring) => warpGeometryRing(warp, ring)),
+      } as Geometry;
+    } else if (type === 'MultiPolygon') {
+      next.geometry = {
+        ...spot.geometry,
+        coordinates: (coordinates as Pair[][][]).map((polygon) =>
+          polygon.map((ring) => warpGeometryRing(warp, ring))
         ),
       } as Geometry;
     }
   }
 
+  const geometryType = spot.geometryType || spot.geometry?.type;
+  const closed = geometryType !== 'line' && geometryType !== 'LineString';
   if (spot.points) {
-    next.points = spot.points.map((p) => {
-      const sx = p.X ?? p.x ?? 0;
-      const sy = p.Y ?? p.y ?? 0;
-      const [nx, ny] = applyAffine(matrix, sx, sy);
-      return { X: nx, Y: ny };
-    });
+    next.points = warpSpotPoints(warp, spot.points, closed);
+  }
+  if (spot.holes) {
+    next.holes = spot.holes.map((hole) => warpSpotPoints(warp, hole, true));
+  }
+  if (spot.parts) {
+    next.parts = spot.parts.map((part) => ({
+      ...part,
+      points: warpSpotPoints(warp, part.points, true),
+      holes: part.holes?.map((hole) => warpSpotPoints(warp, hole, true)) ?? part.holes,
+    }));
   }
 
   return next;
@@ -98,24 +121,20 @@ export const ChildSpotsRenderer: React.FC<ChildSpotsRendererProps> = ({
     return null;
   }
 
-  // For affine (3-Point Registration) placements, the child→parent mapping is
-  // an arbitrary 2x3 matrix that doesn't decompose cleanly into Konva's
-  // Group transform fields (x/y/scale/rotation/skew/offset). Pre-transform
-  // each spot's vertices into parent coordinates and render with an identity
-  // Group so strokes still scale 1:1 with the stage zoom.
-  const isAffine =
-    childMicrograph.placementType === 'affine' &&
-    Array.isArray(childMicrograph.affineMatrix) &&
-    childMicrograph.affineMatrix.length === 6;
+  // For control point placements (affine, projective, thin-plate spline), the
+  // child→parent mapping doesn't decompose into Konva's Group transform fields
+  // (x/y/scale/rotation/skew/offset). Pre-transform each spot's vertices into
+  // parent coordinates and render with an identity Group so strokes still
+  // scale 1:1 with the stage zoom.
+  const warp = useMemo(() => getPlacementWarp(childMicrograph), [childMicrograph]);
 
   const affineSpots = useMemo(() => {
-    if (!isAffine || !childMicrograph.affineMatrix || !childMicrograph.spots) return null;
-    const matrix = childMicrograph.affineMatrix as AffineMatrix;
+    if (!warp || !childMicrograph.spots) return null;
     return childMicrograph.spots.map((original) => ({
       original,
-      transformed: transformSpotByAffine(original, matrix),
+      transformed: transformSpotByWarp(original, warp),
     }));
-  }, [isAffine, childMicrograph.affineMatrix, childMicrograph.spots]);
+  }, [warp, childMicrograph.spots]);
 
   /**
    * Calculate the transformation to map child coordinates to parent coordinates.
@@ -163,7 +182,7 @@ export const ChildSpotsRenderer: React.FC<ChildSpotsRendererProps> = ({
     };
   }, [childMicrograph, parentMetadata]);
 
-  // Affine path: spot coords are already in parent space, so render at identity
+  // Warped path: spot coords are already in parent space, so render at identity
   // and pass stageScale as the effective scale (strokes are in parent pixels).
   if (affineSpots) {
     return (
@@ -9,7 +9,8 @@ import './DrawingToolbar.css';
  * DrawingToolbar - Floating toolbar for drawing tools
  *
  * Dockable to any edge of the viewer canvas (right/bottom/left/top).
- * Contains drawing tools: Point, Line, Polygon, Lasso, Sketch, and Measure.
+ * Contains drawing tools: Point, Line, Polygon, Click to Segment, Magic Wand,
+ * Lasso, Sketch, and Measure.
  * Hidden when in point count mode or sketch mode.
  */
 const DrawingToolbar: React.FC = () => {
@@ -21,6 +22,10 @@ const DrawingToolbar: React.FC = () => {
   const sketchModeActive = useAppStore((state) => state.sketchModeActive);
   const setSketchModeActive = useAppStore((state) => state.setSketchModeActive);
   const activeMicrographId = useAppStore((state) => state.activeMicrographId);
+  const topologySnapping = useAppStore((state) => state.topologySnapping);
+  const setTopologySnapping = useAppStore((state) => state.setTopologySnapping);
+  const livewireTracing = useAppStore((state) => state.livewireTracing);
+  const setLivewireTracing = useAppStore((state) => state.setLivewireTracing);
 
   const { isHorizontal, positionStyle, tooltipPlacement, cycleDock } = useToolbarDock();
 
@@ -41,6 +46,14 @@ const DrawingToolbar: React.FC = () => {
     setActiveTool(activeTool === 'polygon' ? null : 'polygon');
   };
 
+  const handleSegmentClick = () => {
+    setActiveTool(activeTool === 'segment' ? null : 'segment');
+  };
+
+  const handleMagicWandClick = () => {
+    setActiveTool(activeTool === 'magic-wand' ? null : 'magic-wand');
+  };
+
   const handleLassoClick = () => {
     // Toggle lasso tool - deactivate any drawing tool first
     if (spotLassoToolActive) {
@@ -121,6 +134,92 @@ const DrawingToolbar: React.FC = () => {
         </IconButton>
       </Tooltip>
 
+      <Tooltip title="Click to Segment Grain" placement={tooltipPlacement}>
+        <IconButton
+          className={`toolbar-button ${activeTool === 'segment' ? 'active' : ''}`}
+          onClick={handleSegmentClick}
+          aria-label="Click to segment tool"
+        >
+          {/* Segment icon - grain outline with a click point */}
+          <svg width="20" height="20" viewBox="0 0 20 20">
+            <path
+              d="M5 5 L12 3 L17 8 L15 15 L7 17 L3 11 Z"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinejoin="round"
+              strokeDasharray="3 2"
+            />
+            <circle cx="10" cy="10" r="2.5" fill="currentColor" />
+          </svg>
+        </IconButton>
+      </Tooltip>
+
+      <Tooltip title="Magic Wand (Shift+Click to add, Alt+Click to subtract)" placement={tooltipPlacement}>
+        <IconButton
+          className={`toolbar-button ${activeTool === 'magic-wand' ? 'active' : ''}`}
+          onClick={handleMagicWandClick}
+          aria-label="Magic wand tool"
+        >
+          {/* Magic wand icon - wand with a sparkle */}
+          <svg width="20" height="20" viewBox="0 0 20 20">
+            <line x1="3" y1="17" x2="12" y2="8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+            <path
+              d="M14 2 L14.9 4.6 L17.5 5.5 L14.9 6.4 L14 9 L13.1 6.4 L10.5 5.5 L13.1 4.6 Z"
+              fill="currentColor"
+            />
+          </svg>
+        </IconButton>
+      </Tooltip>
+
+      <Tooltip
+        title={topologySnapping ? "Snap to Neighboring Spots: On (Alt+Drag to skip)" : "Snap to Neighboring Spots: Off"}
+        placement={tooltipPlacement}
+      >
+        <IconButton
+          className={`toolbar-button ${topologySnapping ? 'active' : ''}`}
+          onClick={() => setTopologySnapping(!topologySnapping)}
+          aria-label="Topology snapping"
+        >
+          {/* Snapping icon - two polygons sharing an edge */}
+          <svg width="20" height="20" viewBox="0 0 20 20">
+            <path
+              d="M10 3 L3 6 L4 15 L10 17 Z M10 3 L17 5 L16 14 L10 17"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinejoin="round"
+            />
+            <circle cx="10" cy="3" r="2" fill="currentColor" />
+            <circle cx="10" cy="17" r="2" fill="currentColor" />
+          </svg>
+        </IconButton>
+      </Tooltip>
+
+      <Tooltip
+        title={livewireTracing ? "Trace Along Image Edges: On (Line and Polygon)" : "Trace Along Image Edges: Off"}
+        placement={tooltipPlacement}
+      >
+        <IconButton
+          className={`toolbar-button ${livewireTracing ? 'active' : ''}`}
+          onClick={() => setLivewireTracing(!livewireTracing)}
+          aria-label="Edge tracing"
+        >
+          {/* Edge tracing icon - path following a curved edge between two anchors */}
+          <svg width="20" height="20" viewBox="0 0 20 20">
+            <path
+              d="M3 15 C6 15, 6 9, 9 8 C12 7, 13 11, 17 5"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+            />
+            <rect x="1.5" y="13.5" width="3" height="3" fill="currentColor" />
+            <rect x="15.5" y="3.5" width="3" height="3" fill="currentColor" />
+          </svg>
+        </IconButton>
+      </Tooltip>
+
       {/* Divider */}
       <Box sx={dividerSx} />
 
@@ -0,0 +1,172 @@
+/**
+ * ElementMapRenderer Component
+ *
+ * Renders a micrograph's EDS/WDS element maps as false-colored overlays.
+ * Each grayscale map is loaded through the tile cache (medium resolution),
+ * tinted with its layer color and blended additively ('lighter') onto the
+ * base tiles, so overlapping elements mix the way they do in SEM software
+ * (e.g. red Fe + green Mg = yellow where both are present).
+ *
+ * Maps are stretched over the full micrograph extent regardless of their
+ * own pixel dimensions.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Group, Image as KonvaImage } from 'react-konva';
+import type { ElementMapLayer } from '@/types/project-types';
+import { loadElementMapSource } from '@/services/elementMaps';
+import { releaseImage } from '@/utils/imageUtils';
+
+interface ElementMapRendererProps {
+  /** Element map layers of the active micrograph (rendered bottom to top) */
+  layers: ElementMapLayer[];
+  /** Project owning the map files */
+  projectId: string;
+  /** Micrograph width in pixels (maps are stretched to this extent) */
+  width: number;
+  /** Micrograph height in pixels */
+  height: number;
+}
+
+interface TintedMap {
+  /** Cache key: file + color, so recoloring re-tints but opacity changes do not */
+  key: string;
+  canvas: HTMLCanvasElement;
+}
+
+/**
+ * Multiply a grayscale map by a color. Black stays black, so additive blending
+ * leaves the base image untouched wherever the element is absent.
+ */
+function tintMap(image: HTMLImageElement, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Load a map's medium-resolution preview from the tile cache as an image element.
+ */
+async function loadMapImage(projectId: string, layer: ElementMapLayer): Promise<HTMLImageElement> {
+  const source = await loadElementMapSource(projectId, layer);
+  const dataUrl = await window.api!.loadMedium(source.hash);
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error(`Failed to load element map: ${layer.fileName}`));
+    img.src = dataUrl;
+  });
+  return img;
+}
+
+export const ElementMapRenderer: React.FC<ElementMapRendererProps> = ({
+  layers,
+  projectId,
+  width,
+  height,
+}) => {
+  const [tinted, setTinted] = useState<Map<string, TintedMap>>(new Map());
+  const tintedRef = useRef(tinted);
+  tintedRef.current = tinted;
+
+  // Load and tint any visible layer whose file or color changed
+  useEffect(() => {
+    if (!window.api) return;
+    let cancelled = false;
+
+    const pending = layers.filter((layer) => {
+      if (!layer.visible) return false;
+      const cached = tintedRef.current.get(layer.id);
+      return !cached || cached.key !== `${layer.fileName}|${layer.color}`;
+    });
+
+    if (pending.length === 0) return;
+
+    (async () => {
+      for (const layer of pending) {
+        try {
+          const img = await loadMapImage(projectId, layer);
+          if (cancelled) {
+            releaseImage(img);
+            return;
+          }
+          const canvas = tintMap(img, layer.color);
+          releaseImage(img);
+          setTinted((prev) => {
+            const next = new Map(prev);
+            const stale = prev.get(layer.id);
+            if (stale) {
+              stale.canvas.width = 0;
+              stale.canvas.height = 0;
+            }
+            next.set(layer.id, { key: `${layer.fileName}|${layer.color}`, canvas });
+            return next;
+          });
+        } catch (error) {
+          console.error(`[ElementMapRenderer] Failed to load map for ${layer.element}:`, error);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [layers, projectId]);
+
+  // Drop canvases for layers that were removed
+  useEffect(() => {
+    const ids = new Set(layers.map((l) => l.id));
+    if ([...tinted.keys()].every((id) => ids.has(id))) return;
+    setTinted((prev) => {
+      const next = new Map(prev);
+      for (const [id, entry] of prev) {
+        if (!ids.has(id)) {
+          entry.canvas.width = 0;
+          entry.canvas.height = 0;
+          next.delete(id);
+        }
+      }
+      return next;
+    });
+  }, [layers, tinted]);
+
+  // Release canvas memory on unmount
+  useEffect(() => {
+    return () => {
+      for (const entry of tintedRef.current.values()) {
+        entry.canvas.width = 0;
+        entry.canvas.height = 0;
+      }
+    };
+  }, []);
+
+  return (
+    <Group listening={false}>
+      {layers.map((layer) => {
+        if (!layer.visible) return null;
+        const entry = tinted.get(layer.id);
+        if (!entry) return null;
+        return (
+          <KonvaImage
+            key={layer.id}
+            image={entry.canvas}
+            x={0}
+            y={0}
+            width={width}
+            height={height}
+            opacity={layer.opacity}
+            globalCompositeOperation="lighter"
+          />
+        );
+      })}
+    </Group>
+  );
+};
+
+export default ElementMapRenderer;
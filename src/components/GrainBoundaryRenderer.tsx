@@ -0,0 +1,109 @@
+/**
+ * GrainBoundaryRenderer Component
+ *
+ * Renders the grain boundary network of the active micrograph on the Konva
+ * canvas after Tools > Grain Boundary Network has been run with the overlay
+ * shown.
+ *
+ * Visual features:
+ * - Shared boundaries: colored by phase pair (same colors as the dialog's table)
+ * - Triple junctions: white dots
+ * - Free boundary ends: small hollow dots
+ */
+
+import { useMemo } from 'react';
+import { Circle, Line, Group } from 'react-konva';
+import { useAppStore } from '@/store';
+import { getPhasePairColors } from '@/services/grainBoundaries';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Stroke width of boundaries in screen pixels */
+const BOUNDARY_WIDTH = 2.5;
+
+/** Radius of triple junction markers in screen pixels */
+const JUNCTION_RADIUS = 4;
+
+/** Radius of free end markers in screen pixels */
+const END_RADIUS = 2.5;
+
+const JUNCTION_COLOR = '#FFFFFF';
+const OUTLINE_COLOR = '#000000';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface GrainBoundaryRendererProps {
+  /** Current zoom level for size scaling */
+  scale: number;
+}
+
+// ============================================================================
+// MAIN RENDERER COMPONENT
+// ============================================================================
+
+export function GrainBoundaryRenderer({ scale }: GrainBoundaryRendererProps) {
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const network = useAppStore((s) => s.grainBoundaryNetwork);
+
+  const colors = useMemo(() => (network ? getPhasePairColors(network) : new Map<string, string>()), [network]);
+  const edgePoints = useMemo(
+    () => network?.edges.map((edge) => edge.points.flatMap((p) => [p.x, p.y])) ?? [],
+    [network]
+  );
+
+  // Only show the overlay on the micrograph it was built for
+  if (!network || network.micrographId !== activeMicrographId) {
+    return null;
+  }
+
+  return (
+    <Group name="grain-boundary-layer" listening={false}>
+      {/* Boundaries */}
+      {network.edges.map((edge, i) => (
+        <Line
+          key={edge.index}
+          points={edgePoints[i]}
+          closed={edge.closed}
+          stroke={colors.get(edge.pairKey)}
+          strokeWidth={BOUNDARY_WIDTH / scale}
+          lineCap="round"
+          lineJoin="round"
+          shadowColor={OUTLINE_COLOR}
+          shadowBlur={2 / scale}
+          shadowOpacity={0.6}
+          perfectDrawEnabled={false}
+        />
+      ))}
+
+      {/* Junctions and free ends */}
+      {network.nodes.map((node) =>
+        node.kind === 'triple' ? (
+          <Circle
+            key={node.index}
+            x={node.position.x}
+            y={node.position.y}
+            radius={JUNCTION_RADIUS / scale}
+            fill={JUNCTION_COLOR}
+            stroke={OUTLINE_COLOR}
+            strokeWidth={1 / scale}
+            perfectDrawEnabled={false}
+          />
+        ) : (
+          <Circle
+            key={node.index}
+            x={node.position.x}
+            y={node.position.y}
+            radius={END_RADIUS / scale}
+            stroke={JUNCTION_COLOR}
+            strokeWidth={1 / scale}
+            perfectDrawEnabled={false}
+          />
+        )
+      )}
+    </Group>
+  );
+}
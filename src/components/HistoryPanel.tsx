@@ -0,0 +1,109 @@
+/**
+ * History Panel Component
+ *
+ * Displays the History tab content in the sidebar: the undo history as a
+ * list of labeled steps, oldest first. Clicking a step undoes or redoes to
+ * that point; steps after the current state are dimmed until redone.
+ */
+
+import { useMemo, useEffect, useRef } from 'react';
+import { useStore } from 'zustand';
+import {
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+} from '@mui/material';
+import { Undo, Redo } from '@mui/icons-material';
+import { useAppStore, useTemporalStore, getHistoryEntries } from '@/store';
+
+export function HistoryPanel() {
+  const project = useAppStore((state) => state.project);
+  const historyLabel = useAppStore((state) => state.historyLabel);
+  const pastStates = useStore(useTemporalStore, (state) => state.pastStates);
+  const futureStates = useStore(useTemporalStore, (state) => state.futureStates);
+  const currentRef = useRef<HTMLDivElement>(null);
+
+  const entries = useMemo(
+    () => getHistoryEntries(pastStates, futureStates, { historyLabel }),
+    [pastStates, futureStates, historyLabel]
+  );
+
+  // Keep the current step in view as the history grows
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [entries]);
+
+  const jumpTo = (offset: number) => {
+    const temporal = useTemporalStore.getState();
+    if (offset < 0) temporal.undo(-offset);
+    else if (offset > 0) temporal.redo(offset);
+  };
+
+  if (!project) {
+    return (
+      <Box sx={{ p: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          No project loaded
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {/* Header with undo/redo buttons */}
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          p: 1,
+          borderBottom: 1,
+          borderColor: 'divider',
+        }}
+      >
+        <Typography variant="body2" sx={{ fontWeight: 500 }}>
+          {pastStates.length} undo step{pastStates.length === 1 ? '' : 's'}
+        </Typography>
+        <Box>
+          <Tooltip title="Undo">
+            <span>
+              <IconButton size="small" onClick={() => jumpTo(-1)} disabled={pastStates.length === 0}>
+                <Undo fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Redo">
+            <span>
+              <IconButton size="small" onClick={() => jumpTo(1)} disabled={futureStates.length === 0}>
+                <Redo fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      </Box>
+
+      {/* History list */}
+      <List dense disablePadding sx={{ flex: 1, overflow: 'auto' }}>
+        {entries.map((entry) => (
+          <ListItemButton
+            key={entry.offset}
+            ref={entry.offset === 0 ? currentRef : undefined}
+            selected={entry.offset === 0}
+            onClick={() => jumpTo(entry.offset)}
+            sx={{ opacity: entry.offset > 0 ? 0.5 : 1 }}
+          >
+            <ListItemText
+              primary={entry.label}
+              primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    </Box>
+  );
+}
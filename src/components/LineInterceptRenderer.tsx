@@ -0,0 +1,170 @@
+/**
+ * LineInterceptRenderer Component
+ *
+ * Renders line-intercept test lines and marked intersections on the Konva
+ * canvas while a line-intercept grain size measurement is active.
+ *
+ * Visual features:
+ * - Test lines: dashed white, solid once measured
+ * - Current line: gold, thicker, with the marker position as a crosshair tick
+ * - Boundary intersections: red dots
+ * - Triple junctions: magenta diamonds (counted as 1.5)
+ */
+
+import { useMemo } from 'react';
+import { Circle, Line, Group, RegularPolygon } from 'react-konva';
+import { useAppStore } from '@/store';
+import { getInterceptPosition } from '@/services/grainAnalysis/lineIntercept';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Stroke width of test lines in screen pixels */
+const LINE_WIDTH = 1.5;
+
+/** Stroke width of the current line in screen pixels */
+const CURRENT_LINE_WIDTH = 3;
+
+/** Radius of intersection markers in screen pixels */
+const MARK_RADIUS = 5;
+
+/** Half-length of the marker tick across the current line in screen pixels */
+const CURSOR_TICK_LENGTH = 14;
+
+const LINE_COLOR = '#FFFFFF';
+const MEASURED_LINE_COLOR = '#81C784';
+const CURRENT_LINE_COLOR = '#FFD700'; // Gold, matches the point count current point
+const BOUNDARY_COLOR = '#F44336';
+const TRIPLE_COLOR = '#E040FB';
+const OUTLINE_COLOR = '#000000';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface LineInterceptRendererProps {
+  /** Current zoom level for size scaling */
+  scale: number;
+}
+
+// ============================================================================
+// MAIN RENDERER COMPONENT
+// ============================================================================
+
+export function LineInterceptRenderer({ scale }: LineInterceptRendererProps) {
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const session = useAppStore((s) => s.lineInterceptSession);
+  const currentTestLineIndex = useAppStore((s) => s.currentTestLineIndex);
+  const cursor = useAppStore((s) => s.lineInterceptCursor);
+
+  const measured = useMemo(() => new Set(session?.measuredLineIndices ?? []), [session?.measuredLineIndices]);
+
+  // Only show the layer while measuring this micrograph
+  if (!session || session.micrographId !== activeMicrographId) {
+    return null;
+  }
+
+  const currentLine = session.lines[currentTestLineIndex] ?? null;
+  const linesById = new Map(session.lines.map((line) => [line.index, line]));
+
+  // Tick across the current line at the marker position
+  let cursorTick: number[] | null = null;
+  let cursorPosition: { x: number; y: number } | null = null;
+  if (currentLine && currentLine.length > 0) {
+    cursorPosition = getInterceptPosition(currentLine, cursor);
+    const nx = -(currentLine.y2 - currentLine.y1) / currentLine.length;
+    const ny = (currentLine.x2 - currentLine.x1) / currentLine.length;
+    const half = CURSOR_TICK_LENGTH / scale;
+    cursorTick = [
+      cursorPosition.x - nx * half,
+      cursorPosition.y - ny * half,
+      cursorPosition.x + nx * half,
+      cursorPosition.y + ny * half,
+    ];
+  }
+
+  return (
+    <Group name="line-intercept-layer" listening={false}>
+      {/* Test lines */}
+      {session.lines.map((line, i) => {
+        if (i === currentTestLineIndex) return null;
+        const isMeasured = measured.has(line.index);
+        return (
+          <Line
+            key={line.index}
+            points={[line.x1, line.y1, line.x2, line.y2]}
+            stroke={isMeasured ? MEASURED_LINE_COLOR : LINE_COLOR}
+            strokeWidth={LINE_WIDTH / scale}
+            dash={isMeasured ? undefined : [8 / scale, 6 / scale]}
+            opacity={0.8}
+            shadowColor={OUTLINE_COLOR}
+            shadowBlur={2 / scale}
+            shadowOpacity={0.6}
+          />
+        );
+      })}
+
+      {/* Current line */}
+      {currentLine && (
+        <Line
+          points={[currentLine.x1, currentLine.y1, currentLine.x2, currentLine.y2]}
+          stroke={CURRENT_LINE_COLOR}
+          strokeWidth={CURRENT_LINE_WIDTH / scale}
+          shadowColor={OUTLINE_COLOR}
+          shadowBlur={3 / scale}
+          shadowOpacity={0.7}
+        />
+      )}
+
+      {/* Intersections */}
+      {session.marks.map((mark) => {
+        const line = linesById.get(mark.lineIndex);
+        if (!line) return null;
+        const { x, y } = getInterceptPosition(line, mark.t);
+        return mark.kind === 'triple' ? (
+          <RegularPolygon
+            key={mark.id}
+            x={x}
+            y={y}
+            sides={4}
+            radius={(MARK_RADIUS * 1.4) / scale}
+            fill={TRIPLE_COLOR}
+            stroke={OUTLINE_COLOR}
+            strokeWidth={1 / scale}
+          />
+        ) : (
+          <Circle
+            key={mark.id}
+            x={x}
+            y={y}
+            radius={MARK_RADIUS / scale}
+            fill={BOUNDARY_COLOR}
+            stroke={OUTLINE_COLOR}
+            strokeWidth={1 / scale}
+          />
+        );
+      })}
+
+      {/* Marker on the current line */}
+      {cursorTick && cursorPosition && (
+        <>
+          <Line
+            points={cursorTick}
+            stroke={CURRENT_LINE_COLOR}
+            strokeWidth={2 / scale}
+            shadowColor={OUTLINE_COLOR}
+            shadowBlur={2 / scale}
+          />
+          <Circle
+            x={cursorPosition.x}
+            y={cursorPosition.y}
+            radius={(MARK_RADIUS + 3) / scale}
+            stroke={CURRENT_LINE_COLOR}
+            strokeWidth={2 / scale}
+          />
+        </>
+      )}
+    </Group>
+  );
+}
@@ -0,0 +1,467 @@
+/**
+ * Line Intercept Toolbar - Draggable floating toolbar for line-intercept grain size
+ *
+ * Shown while a line-intercept measurement is active. Intersections with
+ * grain boundaries are marked along the current test line from the
+ * keyboard (or by clicking the line), and the mean intercept length,
+ * corrected grain size and anisotropy update live.
+ *
+ * Results are saved to the micrograph's grain size info.
+ */
+
+import React, { useEffect, useCallback, useMemo, useState, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Button,
+  LinearProgress,
+  IconButton,
+  Tooltip,
+  Paper,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  DragIndicator as DragIcon,
+  Save as SaveIcon,
+  FileDownload as ExportIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '../store';
+import { findMicrographById } from '../store/helpers';
+import {
+  calculateLineInterceptResults,
+  exportLineInterceptToCSV,
+  getInterceptPosition,
+  lineInterceptResultsToGrainSize,
+} from '../services/grainAnalysis/lineIntercept';
+
+// Keys for marking and navigation (not configurable)
+const INTERCEPT_KEYS: Record<string, string> = {
+  ' ': 'boundary',       // Space - mark a grain boundary at the marker
+  'x': 'boundary',
+  't': 'triple',         // Mark a triple junction at the marker
+  'Backspace': 'undo',   // Remove the last mark on this line
+  'Enter': 'next',       // Next test line
+  'n': 'next',
+  'p': 'previous',       // Previous test line
+  'ArrowRight': 'forward',  // Move the marker along the line
+  'ArrowLeft': 'backward',
+  'Escape': 'exit',      // Exit line-intercept mode
+};
+
+/** Marker step as a fraction of the line length (Shift for fine steps) */
+const MARKER_STEP = 0.005;
+const MARKER_FINE_STEP = 0.001;
+
+const TOOLBAR_WIDTH = 560;
+const TOOLBAR_DEFAULT_Y_OFFSET = 170; // From bottom of screen
+
+export const LineInterceptToolbar: React.FC = () => {
+  const project = useAppStore((state) => state.project);
+  const activeTool = useAppStore((state) => state.activeTool);
+  const viewerRef = useAppStore((state) => state.viewerRef);
+  const updateMicrographMetadata = useAppStore((state) => state.updateMicrographMetadata);
+
+  // Store - line intercept mode
+  const session = useAppStore((state) => state.lineInterceptSession);
+  const currentTestLineIndex = useAppStore((state) => state.currentTestLineIndex);
+  const cursor = useAppStore((state) => state.lineInterceptCursor);
+  const addLineIntercept = useAppStore((state) => state.addLineIntercept);
+  const removeLastLineIntercept = useAppStore((state) => state.removeLastLineIntercept);
+  const setLineInterceptCursor = useAppStore((state) => state.setLineInterceptCursor);
+  const goToTestLine = useAppStore((state) => state.goToTestLine);
+  const exitLineInterceptMode = useAppStore((state) => state.exitLineInterceptMode);
+
+  // Dragging state
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const dragStartRef = useRef<{ mouseX: number; mouseY: number; panelX: number; panelY: number } | null>(null);
+
+  const visible = session !== null;
+
+  // Initialize position when toolbar becomes visible, reset when hidden
+  useEffect(() => {
+    if (visible && position === null) {
+      setPosition({
+        x: (window.innerWidth - TOOLBAR_WIDTH) / 2,
+        y: window.innerHeight - TOOLBAR_DEFAULT_Y_OFFSET,
+      });
+    } else if (!visible && position !== null) {
+      setPosition(null);
+    }
+  }, [visible, position]);
+
+  // Drag handlers
+  const handleDragStart = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!position) return;
+
+    setIsDragging(true);
+    dragStartRef.current = {
+      mouseX: e.clientX,
+      mouseY: e.clientY,
+      panelX: position.x,
+      panelY: position.y,
+    };
+
+    document.body.style.cursor = 'grabbing';
+    document.body.style.userSelect = 'none';
+  }, [position]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!dragStartRef.current) return;
+
+      const newX = dragStartRef.current.panelX + e.clientX - dragStartRef.current.mouseX;
+      const newY = dragStartRef.current.panelY + e.clientY - dragStartRef.current.mouseY;
+
+      setPosition({
+        x: Math.max(0, Math.min(newX, window.innerWidth - TOOLBAR_WIDTH)),
+        y: Math.max(0, Math.min(newY, window.innerHeight - 80)),
+      });
+    };
+
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      dragStartRef.current = null;
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging]);
+
+  // ============================================================================
+  // RESULTS
+  // ============================================================================
+
+  const micrograph = useMemo(
+    () => (project && session ? findMicrographById(project, session.micrographId) : null),
+    [project, session]
+  );
+
+  const results = useMemo(() => {
+    if (!session) return null;
+    const measuredLines = session.lines.filter((line) => session.measuredLineIndices.includes(line.index));
+    return calculateLineInterceptResults(
+      measuredLines,
+      session.marks,
+      micrograph?.scalePixelsPerCentimeter,
+      session.correctionFactor
+    );
+  }, [session, micrograph?.scalePixelsPerCentimeter]);
+
+  const currentLine = session?.lines[currentTestLineIndex] ?? null;
+  const marksOnLine = useMemo(
+    () => (session && currentLine ? session.marks.filter((m) => m.lineIndex === currentLine.index) : []),
+    [session, currentLine]
+  );
+
+  // Keep the marker in view as it moves along the line
+  useEffect(() => {
+    if (!currentLine || !viewerRef?.current) return;
+    const { x, y } = getInterceptPosition(currentLine, cursor);
+    viewerRef.current.panToPoint(x, y);
+  }, [currentLine, cursor, viewerRef]);
+
+  // ============================================================================
+  // ACTIONS
+  // ============================================================================
+
+  const handleExit = useCallback(() => {
+    if (session && session.marks.length > 0) {
+      const shouldExit = window.confirm(
+        'Exit line-intercept mode?\n\nIntersections that have not been saved to the micrograph will be discarded.'
+      );
+      if (!shouldExit) return;
+    }
+    exitLineInterceptMode();
+  }, [session, exitLineInterceptMode]);
+
+  const handleSave = useCallback(() => {
+    if (!session || !micrograph || !results || results.intersections === 0) return;
+
+    const entry = lineInterceptResultsToGrainSize(results, session.pattern, session.phases);
+
+    // Replace an earlier line-intercept entry for the same phases so re-measuring updates it
+    const phaseKey = (phases: string[] | null | undefined) => [...(phases ?? [])].sort().join('|');
+    const existing = micrograph.grainInfo?.grainSizeInfo ?? [];
+    const kept = existing.filter(
+      (item) => !(item.method === 'line-intercept' && phaseKey(item.phases) === phaseKey(session.phases))
+    );
+
+    updateMicrographMetadata(micrograph.id, {
+      grainInfo: { ...micrograph.grainInfo, grainSizeInfo: [...kept, entry] },
+    });
+    exitLineInterceptMode();
+  }, [session, micrograph, results, updateMicrographMetadata, exitLineInterceptMode]);
+
+  const handleExport = useCallback(() => {
+    if (!results || results.intersections === 0) return;
+
+    const blob = new Blob([exportLineInterceptToCSV(results)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    const baseName = (micrograph?.name || 'micrograph').replace(/[^a-zA-Z0-9-_]/g, '-');
+    a.download = `${baseName}-line-intercept-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [results, micrograph?.name]);
+
+  const handleNextLine = useCallback(() => {
+    if (!session) return;
+    if (currentTestLineIndex < session.lines.length - 1) {
+      goToTestLine(currentTestLineIndex + 1);
+    } else {
+      // Count the last line as measured without leaving it
+      goToTestLine(currentTestLineIndex);
+    }
+  }, [session, currentTestLineIndex, goToTestLine]);
+
+  // ============================================================================
+  // KEYBOARD HANDLING
+  // ============================================================================
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (!session) return;
+
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      // Let shortcuts with modifier keys pass through to the system/menu handlers
+      if (e.metaKey || e.ctrlKey || e.altKey) {
+        return;
+      }
+
+      if (activeTool && activeTool !== 'select') {
+        return;
+      }
+
+      const action = INTERCEPT_KEYS[e.key] ?? INTERCEPT_KEYS[e.key.toLowerCase()];
+      if (!action) return;
+      e.preventDefault();
+
+      switch (action) {
+        case 'boundary':
+        case 'triple':
+          addLineIntercept(action);
+          break;
+        case 'undo':
+          removeLastLineIntercept();
+          break;
+        case 'next':
+          handleNextLine();
+          break;
+        case 'previous':
+          if (currentTestLineIndex > 0) goToTestLine(currentTestLineIndex - 1);
+          break;
+        case 'forward':
+        case 'backward': {
+          const step = (e.shiftKey ? MARKER_FINE_STEP : MARKER_STEP) * (action === 'forward' ? 1 : -1);
+          setLineInterceptCursor(cursor + step);
+          break;
+        }
+        case 'exit':
+          handleExit();
+          break;
+      }
+    },
+    [
+      session,
+      activeTool,
+      cursor,
+      currentTestLineIndex,
+      addLineIntercept,
+      removeLastLineIntercept,
+      handleNextLine,
+      goToTestLine,
+      setLineInterceptCursor,
+      handleExit,
+    ]
+  );
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [handleKeyDown]);
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  if (!session || !results) return null;
+
+  const unit = results.sizeUnit === 'um' ? 'µm' : 'px';
+  const format = (value: number | null, decimals: number = 1) =>
+    value !== null ? value.toFixed(decimals) : '—';
+  const progress = session.lines.length > 0
+    ? (session.measuredLineIndices.length / session.lines.length) * 100
+    : 0;
+
+  return (
+    <Paper
+      elevation={8}
+      sx={{
+        position: 'fixed',
+        left: position?.x ?? (window.innerWidth - TOOLBAR_WIDTH) / 2,
+        top: position?.y ?? window.innerHeight - TOOLBAR_DEFAULT_Y_OFFSET,
+        width: TOOLBAR_WIDTH,
+        zIndex: 1500,
+        bgcolor: 'background.paper',
+        borderRadius: 1,
+        overflow: 'hidden',
+        boxShadow: isDragging ? 12 : 6,
+        transition: isDragging ? 'none' : 'box-shadow 0.2s ease',
+      }}
+    >
+      {/* Header - Drag Handle */}
+      <Box
+        onMouseDown={handleDragStart}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          px: 1,
+          py: 0.5,
+          borderBottom: 1,
+          borderColor: 'divider',
+          bgcolor: 'action.hover',
+          cursor: isDragging ? 'grabbing' : 'grab',
+          userSelect: 'none',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <DragIcon fontSize="small" sx={{ color: 'text.secondary', fontSize: 16 }} />
+          <Typography variant="body2" sx={{ fontWeight: 600, color: 'text.primary' }}>
+            Line Intercept
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'text.secondary', ml: 1 }}>
+            Line {currentTestLineIndex + 1} of {session.lines.length}
+            {currentLine && ` • ${Math.round(currentLine.angle)}°`}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+          <Tooltip title="Export CSV">
+            <span>
+              <IconButton
+                size="small"
+                onClick={(e) => { e.stopPropagation(); handleExport(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                disabled={results.intersections === 0}
+                sx={{ color: 'text.secondary', p: 0.5 }}
+              >
+                <ExportIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Close (Esc)">
+            <IconButton
+              size="small"
+              onClick={(e) => { e.stopPropagation(); handleExit(); }}
+              onMouseDown={(e) => e.stopPropagation()}
+              sx={{ color: 'text.secondary', p: 0.5 }}
+            >
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      </Box>
+
+      <LinearProgress variant="determinate" value={progress} sx={{ height: 3 }} />
+
+      <Box sx={{ px: 1.5, py: 1 }}>
+        {/* Current line */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <IconButton
+            size="small"
+            onClick={() => goToTestLine(currentTestLineIndex - 1)}
+            disabled={currentTestLineIndex <= 0}
+          >
+            <ChevronLeftIcon fontSize="small" />
+          </IconButton>
+          <Typography variant="body2" sx={{ flex: 1 }}>
+            {marksOnLine.length} intersection{marksOnLine.length === 1 ? '' : 's'} on this line
+            {marksOnLine.some((m) => m.kind === 'triple') &&
+              ` (${marksOnLine.filter((m) => m.kind === 'triple').length} triple)`}
+          </Typography>
+          <IconButton
+            size="small"
+            onClick={handleNextLine}
+            disabled={currentTestLineIndex >= session.lines.length - 1}
+          >
+            <ChevronRightIcon fontSize="small" />
+          </IconButton>
+        </Box>
+
+        {/* Live results */}
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(3, 1fr)',
+            gap: 0.5,
+            mb: 1,
+            fontFamily: 'monospace',
+          }}
+        >
+          <Typography variant="caption">
+            Mean intercept: <strong>{format(results.meanInterceptLength)} {unit}</strong>
+          </Typography>
+          <Typography variant="caption">
+            Grain size (×{results.correctionFactor}): <strong>{format(results.correctedGrainSize)} {unit}</strong>
+          </Typography>
+          <Typography variant="caption">
+            ASTM G: <strong>{format(results.astmGrainSizeNumber)}</strong>
+          </Typography>
+          <Typography variant="caption">
+            Lines: {results.lineCount} • P = {results.intersections}
+          </Typography>
+          <Typography variant="caption">
+            Rel. accuracy: {results.relativeAccuracy !== null ? `${format(results.relativeAccuracy)}%` : '—'}
+          </Typography>
+          <Typography variant="caption">
+            Anisotropy: {format(results.anisotropyIndex, 2)}
+            {results.degreeOfOrientation !== null && ` • Ω ${format(results.degreeOfOrientation, 2)}`}
+          </Typography>
+        </Box>
+
+        {/* Key hints and save */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+          <Chip size="small" variant="outlined" label="←/→ move" />
+          <Chip size="small" variant="outlined" label="Space boundary" />
+          <Chip size="small" variant="outlined" label="T triple" />
+          <Chip size="small" variant="outlined" label="⌫ undo" />
+          <Chip size="small" variant="outlined" label="Enter next" />
+          <Box sx={{ flex: 1 }} />
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<SaveIcon />}
+            onClick={handleSave}
+            disabled={results.intersections === 0}
+          >
+            Save to Micrograph
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
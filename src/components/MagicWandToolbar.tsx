@@ -0,0 +1,112 @@
+/**
+ * MagicWandToolbar Component
+ *
+ * Options for the magic wand tool (color tolerance, edge smoothing and
+ * sampling the PPL/XPL sibling) with Keep/Discard buttons for the previewed
+ * region. Positioned at the top of the canvas while the tool is active.
+ */
+
+import { useState, useEffect } from 'react';
+import { Box, Button, Checkbox, FormControlLabel, Slider, Typography } from '@mui/material';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+import { useAppStore } from '@/store';
+
+interface MagicWandToolbarProps {
+  /** Whether the micrograph has a PPL/XPL sibling to sample */
+  hasSibling: boolean;
+  /** Whether there is a region to keep */
+  canCommit: boolean;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+export const MagicWandToolbar: React.FC<MagicWandToolbarProps> = ({ hasSibling, canCommit, onCommit, onCancel }) => {
+  const options = useAppStore((state) => state.magicWandOptions);
+  const setMagicWandOptions = useAppStore((state) => state.setMagicWandOptions);
+
+  // Slider positions while dragging; the region is only redone on release
+  const [tolerance, setTolerance] = useState(options.tolerance);
+  const [smoothing, setSmoothing] = useState(options.smoothing);
+
+  useEffect(() => {
+    setTolerance(options.tolerance);
+    setSmoothing(options.smoothing);
+  }, [options.tolerance, options.smoothing]);
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        top: 16,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 1000,
+        backgroundColor: 'background.paper',
+        borderRadius: 1,
+        boxShadow: 3,
+        px: 2,
+        py: 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2,
+      }}
+    >
+      <Box sx={{ width: 140 }}>
+        <Typography variant="caption" color="text.secondary">
+          Tolerance: {tolerance}
+        </Typography>
+        <Slider
+          size="small"
+          value={tolerance}
+          min={1}
+          max={128}
+          onChange={(_, value) => setTolerance(value as number)}
+          onChangeCommitted={(_, value) => setMagicWandOptions({ tolerance: value as number })}
+        />
+      </Box>
+
+      <Box sx={{ width: 110 }}>
+        <Typography variant="caption" color="text.secondary">
+          Smoothing: {smoothing === 0 ? 'Off' : smoothing}
+        </Typography>
+        <Slider
+          size="small"
+          value={smoothing}
+          min={0}
+          max={8}
+          step={1}
+          onChange={(_, value) => setSmoothing(value as number)}
+          onChangeCommitted={(_, value) => setMagicWandOptions({ smoothing: value as number })}
+        />
+      </Box>
+
+      {hasSibling && (
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={options.useSibling}
+              onChange={(e) => setMagicWandOptions({ useSibling: e.target.checked })}
+            />
+          }
+          label={<Typography variant="body2">Also match PPL/XPL sibling</Typography>}
+        />
+      )}
+
+      <Button variant="outlined" size="small" startIcon={<CloseIcon />} onClick={onCancel} color="inherit">
+        Discard
+      </Button>
+      <Button
+        variant="contained"
+        size="small"
+        startIcon={<CheckIcon />}
+        onClick={onCommit}
+        disabled={!canCommit}
+        color="primary"
+      >
+        Create Spot
+      </Button>
+    </Box>
+  );
+};
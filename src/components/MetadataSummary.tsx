@@ -623,11 +623,11 @@ function SpotMeasurements({ spot, scale }: { spot: Spot; scale: number }) {
     : null;
 
   const polygonArea = isPolygon
-    ? calculatePolygonArea(spot.geometry, spot.points, scale)
+    ? calculatePolygonArea(spot.geometry, spot.points, scale, spot)
     : null;
 
   const polygonPerimeter = isPolygon
-    ? calculatePolygonPerimeter(spot.geometry, spot.points, scale)
+    ? calculatePolygonPerimeter(spot.geometry, spot.points, scale, spot)
     : null;
 
   if (!lineLength && !polygonArea && !polygonPerimeter) return null;
@@ -1211,9 +1211,10 @@ export function MetadataSummary({ micrographId, spotId, onEditSection }: Metadat
                     const sizeStr = sizeValue !== null
                       ? `${sizeValue}${size.sizeUnit}${size.standardDeviation !== null ? ` ± ${size.standardDeviation}` : ''}`
                       : '';
+                    const methodStr = size.method === 'line-intercept' ? ' (line intercept)' : '';
                     return (
                       <Typography key={index} variant="body2">
-                        • {size.phases} - {sizeStr}
+                        • {size.phases} - {sizeStr}{methodStr}
                       </Typography>
                     );
                   })}
@@ -1243,6 +1244,7 @@ export function MetadataSummary({ micrographId, spotId, onEditSection }: Metadat
                   {toArray(data.grainInfo.grainOrientationInfo).map((orient: GrainOrientationType, index: number) => (
                     <Typography key={index} variant="body2">
                       • {orient.phases} - {orient.meanOrientation}° from {orient.relativeTo}
+                      {orient.rfPhi?.strainRatio != null ? ` (Rf/φ Rs ${orient.rfPhi.strainRatio})` : ''}
                     </Typography>
                   ))}
                 </Box>
@@ -2,10 +2,14 @@
  * Point Counting Statistics Component
  *
  * Displays live modal analysis statistics including mineral percentages,
- * confidence intervals, and classification progress.
+ * confidence intervals, and classification progress. Area-fraction modes of
+ * classified polygon spots are shown side by side with the point-count modes
+ * once the user turns them on (resolving polygon overlaps is too slow to
+ * redo on every spot edit), and spots vectorized from an element map phase
+ * map get their own section.
  */
 
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useState } from 'react';
 import {
   Box,
   Typography,
@@ -21,6 +25,8 @@ import {
   Stack,
   Tooltip,
   Divider,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Download,
@@ -30,9 +36,18 @@ import { useAppStore } from '@/store';
 import {
   calculatePointCountStatisticsForMicrograph,
   calculateStatisticsFromSession,
+  countClassifiedPolygonSpots,
+  calculateAreaModalStatistics,
+  compareModalAnalyses,
   exportStatisticsToCSV,
+  exportAreaStatisticsToCSV,
+  type AreaModalStatistics,
   type PointCountStatistics as Stats,
 } from '@/services/pointCounting';
+import {
+  calculatePhaseModalStatistics,
+  type PhaseModalStatistics,
+} from '@/services/phaseClassification';
 import { getMineralColor } from '@/types/point-count-types';
 
 // ============================================================================
@@ -96,6 +111,142 @@ function SimpleBarChart({ data, maxPercentage = 100 }: BarChartProps) {
   );
 }
 
+// ============================================================================
+// AREA COMPARISON SECTION
+// ============================================================================
+
+interface AreaComparisonSectionProps {
+  pointStats: Stats | null;
+  areaStats: AreaModalStatistics;
+}
+
+function AreaComparisonSection({ pointStats, areaStats }: AreaComparisonSectionProps) {
+  const hasPoints = !!pointStats && pointStats.classifiedPoints > 0;
+  const rows = useMemo(
+    () => compareModalAnalyses(hasPoints ? pointStats : null, areaStats),
+    [hasPoints, pointStats, areaStats]
+  );
+
+  const classifiedPercentage = 100 - areaStats.unclassifiedPercentage;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">
+          {hasPoints ? 'Point Count vs Area Fraction' : 'Area Fraction'}
+        </Typography>
+        <Tooltip title="Area modes from classified polygon spots. Where polygons overlap, the top-most spot counts.">
+          <Info fontSize="small" color="action" />
+        </Tooltip>
+      </Stack>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {areaStats.polygonCount} polygon{areaStats.polygonCount === 1 ? '' : 's'} cover{' '}
+        {classifiedPercentage.toFixed(1)}% of the image ({areaStats.unclassifiedPercentage.toFixed(1)}% unclassified
+        {areaStats.overlapAreaPixels > 0
+          ? `, ${((areaStats.overlapAreaPixels / Math.max(1, areaStats.imageAreaPixels)) * 100).toFixed(1)}% overlapping`
+          : ''}
+        )
+      </Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Mineral</TableCell>
+              {hasPoints && <TableCell align="right">Points %</TableCell>}
+              <TableCell align="right">Area %</TableCell>
+              {hasPoints && <TableCell align="right">&Delta;</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.name}>
+                <TableCell component="th" scope="row">
+                  {row.name}
+                </TableCell>
+                {hasPoints && (
+                  <TableCell align="right">
+                    {row.pointPercentage !== null
+                      ? `${row.pointPercentage.toFixed(1)} ±${row.pointConfidenceInterval!.toFixed(1)}`
+                      : '—'}
+                  </TableCell>
+                )}
+                <TableCell align="right">
+                  {row.areaPercentage !== null ? row.areaPercentage.toFixed(1) : '—'}
+                </TableCell>
+                {hasPoints && (
+                  <TableCell
+                    align="right"
+                    sx={{ color: row.withinConfidenceInterval === false ? 'warning.main' : undefined }}
+                  >
+                    {row.difference !== null
+                      ? `${row.difference >= 0 ? '+' : ''}${row.difference.toFixed(1)}`
+                      : '—'}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
+
+// ============================================================================
+// PHASE MAP SECTION
+// ============================================================================
+
+interface PhaseMapSectionProps {
+  stats: PhaseModalStatistics;
+  compact: boolean;
+}
+
+function PhaseMapSection({ stats, compact }: PhaseMapSectionProps) {
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">
+          Phase Map Composition
+        </Typography>
+        <Tooltip title={`Area fractions of ${stats.regionCount} phase-classification spots`}>
+          <Info fontSize="small" color="action" />
+        </Tooltip>
+      </Stack>
+      <SimpleBarChart
+        data={stats.phases.map((p) => ({
+          name: p.name,
+          percentage: p.percentage,
+          color: getMineralColor(p.name),
+        }))}
+      />
+      {!compact && (
+        <TableContainer sx={{ mt: 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Phase</TableCell>
+                <TableCell align="right">Regions</TableCell>
+                <TableCell align="right">Area %</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.phases.map((phase) => (
+                <TableRow key={phase.name}>
+                  <TableCell component="th" scope="row">
+                    {phase.name}
+                  </TableCell>
+                  <TableCell align="right">{phase.regionCount}</TableCell>
+                  <TableCell align="right">{phase.percentage.toFixed(1)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -138,11 +289,65 @@ export function PointCountingStatistics({
     return calculatePointCountStatisticsForMicrograph(spots);
   }, [pointCountMode, activeSession, spots]);
 
+  // Area-fraction modes of classified polygon spots, for comparison with the point count.
+  // Only computed while the user has them turned on.
+  const [showAreaStats, setShowAreaStats] = useState(false);
+  const areaPolygonCount = useMemo(() => countClassifiedPolygonSpots(spots), [spots]);
+  const hasAreaPolygons = areaPolygonCount > 0;
+  const imageWidth = micrograph?.imageWidth || micrograph?.width || 0;
+  const imageHeight = micrograph?.imageHeight || micrograph?.height || 0;
+  const scale = micrograph?.scalePixelsPerCentimeter;
+  const areaStats = useMemo(
+    () =>
+      showAreaStats && hasAreaPolygons
+        ? calculateAreaModalStatistics(spots, imageWidth, imageHeight, scale)
+        : null,
+    [showAreaStats, hasAreaPolygons, spots, imageWidth, imageHeight, scale]
+  );
+  const hasAreaStats = !!areaStats && areaStats.polygonCount > 0;
+
+  // Area-based composition of phase-classification spots (independent of point counting)
+  const phaseStats = useMemo(
+    () =>
+      showAreaStats && hasAreaPolygons && !pointCountMode
+        ? calculatePhaseModalStatistics(spots, imageWidth, imageHeight)
+        : null,
+    [showAreaStats, hasAreaPolygons, pointCountMode, spots, imageWidth, imageHeight]
+  );
+  const hasPhaseStats = !!phaseStats && phaseStats.phases.length > 0;
+
+  const areaSection = hasAreaPolygons && (
+    <>
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={showAreaStats}
+            onChange={(e) => setShowAreaStats(e.target.checked)}
+          />
+        }
+        label={
+          <Typography variant="body2">
+            Area fractions ({areaPolygonCount} classified polygon{areaPolygonCount === 1 ? '' : 's'})
+          </Typography>
+        }
+        sx={{ mb: 1 }}
+      />
+      {hasAreaStats && (
+        <AreaComparisonSection pointStats={stats} areaStats={areaStats!} />
+      )}
+      {hasPhaseStats && <PhaseMapSection stats={phaseStats!} compact={compact} />}
+    </>
+  );
+
   // Handle export
   const handleExport = useCallback(() => {
-    if (!stats) return;
+    const sections: string[] = [];
+    if (stats && stats.totalPoints > 0) sections.push(exportStatisticsToCSV(stats));
+    if (areaStats && areaStats.polygonCount > 0) sections.push(exportAreaStatisticsToCSV(areaStats));
+    if (sections.length === 0) return;
 
-    const csv = exportStatisticsToCSV(stats);
+    const csv = sections.join('\n\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -156,10 +361,28 @@ export function PointCountingStatistics({
     a.download = `${baseName}-${dateStr}.csv`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [stats, pointCountMode, activeSession]);
+  }, [stats, areaStats, pointCountMode, activeSession]);
 
   // No stats to show
   if (!stats || stats.totalPoints === 0) {
+    if (hasAreaPolygons) {
+      return (
+        <Paper variant="outlined" sx={{ p: 2 }}>
+          {areaSection}
+          {showExport && hasAreaStats && (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<Download />}
+              onClick={handleExport}
+              fullWidth
+            >
+              Export to CSV
+            </Button>
+          )}
+        </Paper>
+      );
+    }
     return (
       <Paper variant="outlined" sx={{ p: 2 }}>
         <Typography color="text.secondary" align="center">
@@ -283,6 +506,14 @@ export function PointCountingStatistics({
         </>
       )}
 
+      {/* Area-fraction modes side by side with the point count, and phase map composition */}
+      {hasAreaPolygons && (
+        <>
+          <Divider sx={{ my: 2 }} />
+          {areaSection}
+        </>
+      )}
+
       {/* Export Button */}
       {showExport && (
         <>
@@ -56,7 +56,7 @@ import {
   arrayMove,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { useAppStore } from '@/store';
+import { useAppStore, runAsHistoryStep } from '@/store';
 import { NewDatasetDialog } from './dialogs/NewDatasetDialog';
 import { NewSampleDialog } from './dialogs/NewSampleDialog';
 import { NewMicrographDialog } from './dialogs/NewMicrographDialog';
@@ -69,11 +69,13 @@ import { EditMicrographDialog } from './dialogs/metadata/EditMicrographDialog';
 import { EditMicrographLocationDialog } from './dialogs/EditMicrographLocationDialog';
 import { CompleteInstrumentInfoDialog } from './dialogs/CompleteInstrumentInfoDialog';
 import { BatchImportDialog } from './dialogs/BatchImportDialog';
+import { MosaicStitchDialog } from './dialogs/MosaicStitchDialog';
 import { SetScaleDialog } from './dialogs/SetScaleDialog';
 import { LinkSiblingDialog } from './dialogs/LinkSiblingDialog';
 import { AddSiblingDialog } from './dialogs/AddSiblingDialog';
 import { findMicrographById } from '@/store/helpers';
 import type { DatasetMetadata, SampleMetadata, MicrographMetadata } from '@/types/project-types';
+import { isWarpedPlacement } from '@/utils/placementWarp';
 
 /**
  * Micrograph Thumbnail Component
@@ -361,6 +363,9 @@ export function ProjectTree() {
     null
   );
 
+  // Mosaic stitching dialog state
+  const [mosaicStitchSampleId, setMosaicStitchSampleId] = useState<string | null>(null);
+
   // Set scale dialog state (for batch-imported reference micrographs)
   const [showSetScale, setShowSetScale] = useState(false);
   const [setScaleMicrographId, setSetScaleMicrographId] = useState<string | null>(null);
@@ -729,7 +734,7 @@ export function ProjectTree() {
       micrograph.offsetInParent ||
       micrograph.pointInParent ||
       micrograph.xOffset !== undefined ||
-      micrograph.placementType === 'affine';
+      isWarpedPlacement(micrograph.placementType);
     if (isAssociated && (noScale || !hasLocation)) {
       setEditLocationMicrographId(micrographId);
       setShowEditLocation(true);
@@ -985,8 +990,8 @@ export function ProjectTree() {
 
     // Check if micrograph needs setup (missing scale, location, or instrument info)
     const needsScale = !micrograph.scalePixelsPerCentimeter;
-    // Location can be set via offsetInParent (scaled rectangle), pointInParent (approximate point), or affine placement
-    const hasLocation = micrograph.offsetInParent || micrograph.pointInParent || micrograph.xOffset !== undefined || micrograph.placementType === 'affine';
+    // Location can be set via offsetInParent (scaled rectangle), pointInParent (approximate point), or control point placement
+    const hasLocation = micrograph.offsetInParent || micrograph.pointInParent || micrograph.xOffset !== undefined || isWarpedPlacement(micrograph.placementType);
     const needsLocation = !isReference && !hasLocation;
     // Set only by Batch Import when "Instrument and Image Info" was unchecked; legacy/manual-import micrographs leave this absent.
     const needsInstrumentInfo = !!micrograph.needsInstrumentInfo;
@@ -1291,8 +1296,10 @@ export function ProjectTree() {
               <MenuItem
                 onClick={() => {
                   // Set isMicroVisible: true on all direct children
-                  children.forEach((child) => {
-                    updateMicrographMetadata(child.id, { isMicroVisible: true });
+                  runAsHistoryStep('Show associated micrographs', () => {
+                    children.forEach((child) => {
+                      updateMicrographMetadata(child.id, { isMicroVisible: true });
+                    });
                   });
                   setMicrographOptionsAnchor({ ...micrographOptionsAnchor, [micrograph.id]: null });
                 }}
@@ -1302,8 +1309,10 @@ export function ProjectTree() {
               <MenuItem
                 onClick={() => {
                   // Set isMicroVisible: false on all direct children
-                  children.forEach((child) => {
-                    updateMicrographMetadata(child.id, { isMicroVisible: false });
+                  runAsHistoryStep('Hide associated micrographs', () => {
+                    children.forEach((child) => {
+                      updateMicrographMetadata(child.id, { isMicroVisible: false });
+                    });
                   });
                   setMicrographOptionsAnchor({ ...micrographOptionsAnchor, [micrograph.id]: null });
                 }}
@@ -1522,6 +1531,14 @@ export function ProjectTree() {
           >
             Batch Import Reference Micrographs
           </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setMosaicStitchSampleId(sample.id);
+              setSampleAddAnchor({ ...sampleAddAnchor, [sample.id]: null });
+            }}
+          >
+            Stitch Mosaic Reference Micrograph
+          </MenuItem>
         </Menu>
       </Box>
     );
@@ -2072,6 +2089,13 @@ export function ProjectTree() {
         parentMicrographId={batchImportParentMicrographId}
       />
 
+      {/* Mosaic Stitching Dialog */}
+      <MosaicStitchDialog
+        isOpen={mosaicStitchSampleId !== null}
+        onClose={() => setMosaicStitchSampleId(null)}
+        sampleId={mosaicStitchSampleId}
+      />
+
       {/* Set Scale Dialog (for batch-imported reference micrographs) */}
       {setScaleMicrographId && (
         <SetScaleDialog
@@ -2210,8 +2234,10 @@ export function ProjectTree() {
                     m => m.parentID === batchOpacityParentId && m.offsetInParent
                   );
                   // Update each overlay child's opacity
-                  overlayChildren.forEach(child => {
-                    updateMicrographMetadata(child.id, { opacity: newValue as number });
+                  runAsHistoryStep('Change overlay opacity', () => {
+                    overlayChildren.forEach(child => {
+                      updateMicrographMetadata(child.id, { opacity: newValue as number });
+                    });
                   });
                 }
               }}
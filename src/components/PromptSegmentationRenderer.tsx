@@ -0,0 +1,108 @@
+/**
+ * PromptSegmentationRenderer Component
+ *
+ * Renders the click-to-segment preview on the Konva canvas: the segmented
+ * grain outline, the prompt points and the prompt box. The magic wand tool
+ * reuses it for its region and clicks.
+ *
+ * Visual style:
+ * - Grain outline in grain-detection orange with a light fill
+ * - Green points the grain must include, red points it must exclude
+ * - Dashed box for box prompts (and while dragging one)
+ */
+
+import { memo } from 'react';
+import { Circle, Group, Line, Rect } from 'react-konva';
+import type { SegmentationPrompt } from '@/services/fastsamInference';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Grain outline color (matches grain detection spots) */
+const GRAIN_STROKE_COLOR = '#FFA500';
+
+/** Grain fill color (semi-transparent) */
+const GRAIN_FILL_COLOR = 'rgba(255, 165, 0, 0.25)';
+
+/** Prompt point colors */
+const POSITIVE_POINT_COLOR = '#4CAF50';
+const NEGATIVE_POINT_COLOR = '#F44336';
+
+/** Prompt box color */
+const BOX_STROKE_COLOR = '#2196F3';
+
+/** Line width and point radius (in screen pixels, will be scaled) */
+const STROKE_WIDTH = 2;
+const POINT_RADIUS = 5;
+
+/** Dash pattern for the prompt box */
+const BOX_DASH = [8, 4];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface PromptSegmentationRendererProps {
+  /** Segmented grain outline in image pixels */
+  outline: Array<{ X: number; Y: number }> | null;
+  /** Current prompt */
+  prompt: SegmentationPrompt | null;
+  /** Box being dragged ([x1, y1, x2, y2] in image pixels) */
+  dragBox: [number, number, number, number] | null;
+  /** Current zoom scale (for consistent line width) */
+  scale: number;
+}
+
+export const PromptSegmentationRenderer = memo(function PromptSegmentationRenderer({
+  outline,
+  prompt,
+  dragBox,
+  scale,
+}: PromptSegmentationRendererProps) {
+  const strokeWidth = STROKE_WIDTH / scale;
+  const box = dragBox || prompt?.box || null;
+
+  return (
+    <Group listening={false}>
+      {outline && outline.length >= 3 && (
+        <Line
+          points={outline.flatMap((p) => [p.X, p.Y])}
+          stroke={GRAIN_STROKE_COLOR}
+          strokeWidth={strokeWidth}
+          fill={GRAIN_FILL_COLOR}
+          closed
+          perfectDrawEnabled={false}
+        />
+      )}
+
+      {box && (
+        <Rect
+          x={box[0]}
+          y={box[1]}
+          width={box[2] - box[0]}
+          height={box[3] - box[1]}
+          stroke={BOX_STROKE_COLOR}
+          strokeWidth={strokeWidth}
+          dash={BOX_DASH.map((d) => d / scale)}
+          perfectDrawEnabled={false}
+        />
+      )}
+
+      {prompt?.points.map((point, index) => (
+        <Circle
+          key={index}
+          x={point.x}
+          y={point.y}
+          radius={POINT_RADIUS / scale}
+          fill={point.positive ? POSITIVE_POINT_COLOR : NEGATIVE_POINT_COLOR}
+          stroke="white"
+          strokeWidth={strokeWidth / 2}
+          perfectDrawEnabled={false}
+        />
+      ))}
+    </Group>
+  );
+});
+
+export default PromptSegmentationRenderer;
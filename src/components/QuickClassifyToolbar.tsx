@@ -30,7 +30,8 @@ import {
   Gesture as LassoIcon,
 } from '@mui/icons-material';
 import { useAppStore } from '../store';
-import { findMicrographById, findSpotById } from '../store/helpers';
+import { findMicrographById, findSpotById, findSpotParentMicrograph } from '../store/helpers';
+import { RotationSeriesSpotReadout } from './RotationSeriesSpotReadout';
 import type { MineralogyType, MineralType } from '../types/project-types';
 import type { PresetWithScope } from '../types/preset-types';
 
@@ -237,6 +238,12 @@ export const QuickClassifyToolbar: React.FC<QuickClassifyToolbarProps> = ({
     return findSpotById(project, activeSpotId);
   }, [project, activeSpotId]);
 
+  // Micrograph of the current Quick Edit spot, for its rotation series maps
+  const activeSpotMicrograph = useMemo(() => {
+    if (!quickEditMode || !activeSpotId || !project) return null;
+    return findSpotParentMicrograph(project, activeSpotId);
+  }, [quickEditMode, project, activeSpotId]);
+
   const spotStats = useMemo(() => {
     const total = spots.length;
     const classified = spots.filter((s) => {
@@ -1262,6 +1269,16 @@ export const QuickClassifyToolbar: React.FC<QuickClassifyToolbarProps> = ({
             Done
           </Button>
         </Box>
+
+        {/* Extinction sampled from rotation series maps (Quick Edit mode only) */}
+        {project && activeSpot && activeSpotMicrograph?.rotationSeries?.maps && selectedSpotIds.length === 0 && (
+          <RotationSeriesSpotReadout
+            projectId={project.id}
+            micrograph={activeSpotMicrograph}
+            spot={activeSpot}
+            compact
+          />
+        )}
       </Box>
     </Paper>
   );
@@ -0,0 +1,208 @@
+/**
+ * RotationSeriesRenderer Component
+ *
+ * Renders one map of a micrograph's rotation series as an overlay:
+ * - Maximum intensity: the brightest color of each pixel over the series
+ * - Extinction angle: a cyclic hue wheel (0° and 90° share a color), darkened
+ *   where the retardation proxy is low so isotropic areas fade to black
+ * - Retardation: grayscale, stretched to the map's 99th percentile
+ *
+ * Maps are read from their PNGs (the tile cache's lossy previews smear the
+ * extinction codes), reduced by nearest neighbor, and stretched over the full
+ * micrograph extent.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Group, Image as KonvaImage } from 'react-konva';
+import type { RotationSeries, RotationSeriesMapType } from '@/types/project-types';
+import { decodeExtinctionAngle, readRotationMap, type RotationMapPixels } from '@/services/rotationSeries';
+
+interface RotationSeriesRendererProps {
+  /** Rotation series of the active micrograph (its maps must be computed) */
+  series: RotationSeries;
+  /** Project owning the map files */
+  projectId: string;
+  /** Micrograph width in pixels (maps are stretched to this extent) */
+  width: number;
+  /** Micrograph height in pixels */
+  height: number;
+}
+
+interface RenderedMap {
+  /** Cache key: map files + map type */
+  key: string;
+  canvas: HTMLCanvasElement;
+}
+
+/** Percentile of the retardation proxy shown at full brightness */
+const RETARDATION_STRETCH_PERCENTILE = 0.99;
+
+/** Long edge (px) of the displayed maps */
+const DISPLAY_MAP_SIZE = 2048;
+
+/**
+ * Read a map for display.
+ */
+function loadMapPixels(projectId: string, fileName: string): Promise<RotationMapPixels> {
+  return readRotationMap(projectId, fileName, undefined, DISPLAY_MAP_SIZE);
+}
+
+/**
+ * Retardation value shown at full brightness: a high percentile, so a few
+ * saturated pixels do not leave the rest of the map dark.
+ */
+function getStretchLimit(retardation: RotationMapPixels): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < retardation.data.length; i++) histogram[retardation.data[i]]++;
+
+  const target = retardation.data.length * RETARDATION_STRETCH_PERCENTILE;
+  let cumulative = 0;
+  for (let value = 0; value < 256; value++) {
+    cumulative += histogram[value];
+    if (cumulative >= target) return Math.max(1, value);
+  }
+  return 255;
+}
+
+/**
+ * Convert a hue (0-1) at full saturation to RGB (0-255).
+ */
+function hueToRgb(hue: number): [number, number, number] {
+  const h = hue * 6;
+  const x = 1 - Math.abs((h % 2) - 1);
+  const [r, g, b] =
+    h < 1 ? [1, x, 0] : h < 2 ? [x, 1, 0] : h < 3 ? [0, 1, x] : h < 4 ? [0, x, 1] : h < 5 ? [x, 0, 1] : [1, 0, x];
+  return [r * 255, g * 255, b * 255];
+}
+
+/**
+ * Build the display canvas for a map.
+ */
+async function renderMap(
+  projectId: string,
+  series: RotationSeries,
+  mapType: RotationSeriesMapType
+): Promise<HTMLCanvasElement> {
+  const maps = series.maps!;
+  const canvas = document.createElement('canvas');
+
+  if (mapType === 'maxIntensity') {
+    const pixels = await loadMapPixels(projectId, maps.maxIntensityFileName);
+    const output = new ImageData(pixels.width, pixels.height);
+    for (let p = 0, i = 0; i < output.data.length; p += pixels.channels, i += 4) {
+      output.data[i] = pixels.data[p];
+      output.data[i + 1] = pixels.data[p + 1];
+      output.data[i + 2] = pixels.data[p + 2];
+      output.data[i + 3] = 255;
+    }
+    canvas.width = output.width;
+    canvas.height = output.height;
+    canvas.getContext('2d')!.putImageData(output, 0, 0);
+    return canvas;
+  }
+
+  const retardation = await loadMapPixels(projectId, maps.retardationFileName);
+  const limit = getStretchLimit(retardation);
+  const output = new ImageData(retardation.width, retardation.height);
+
+  if (mapType === 'retardation') {
+    for (let p = 0, i = 0; i < output.data.length; p++, i += 4) {
+      const value = Math.min(255, (retardation.data[p] / limit) * 255);
+      output.data[i] = value;
+      output.data[i + 1] = value;
+      output.data[i + 2] = value;
+      output.data[i + 3] = 255;
+    }
+  } else {
+    const extinction = await loadMapPixels(projectId, maps.extinctionAngleFileName);
+    for (let p = 0, i = 0; i < output.data.length; p++, i += 4) {
+      const [r, g, b] = hueToRgb(decodeExtinctionAngle(extinction.data[p]) / 90);
+      const brightness = Math.min(1, retardation.data[p] / limit);
+      output.data[i] = r * brightness;
+      output.data[i + 1] = g * brightness;
+      output.data[i + 2] = b * brightness;
+      output.data[i + 3] = 255;
+    }
+  }
+
+  canvas.width = output.width;
+  canvas.height = output.height;
+  canvas.getContext('2d')!.putImageData(output, 0, 0);
+  return canvas;
+}
+
+export const RotationSeriesRenderer: React.FC<RotationSeriesRendererProps> = ({
+  series,
+  projectId,
+  width,
+  height,
+}) => {
+  const [rendered, setRendered] = useState<RenderedMap | null>(null);
+  const renderedRef = useRef(rendered);
+  renderedRef.current = rendered;
+
+  const mapType = series.displayMap ?? null;
+  const key =
+    series.maps && mapType
+      ? `${series.maps.maxIntensityFileName}|${series.maps.extinctionAngleFileName}|${mapType}`
+      : null;
+
+  // Build the display canvas whenever the shown map changes
+  useEffect(() => {
+    if (!window.api || !key || !mapType || renderedRef.current?.key === key) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const canvas = await renderMap(projectId, series, mapType);
+        if (cancelled) {
+          canvas.width = 0;
+          canvas.height = 0;
+          return;
+        }
+        setRendered((prev) => {
+          if (prev) {
+            prev.canvas.width = 0;
+            prev.canvas.height = 0;
+          }
+          return { key, canvas };
+        });
+      } catch (error) {
+        console.error(`[RotationSeriesRenderer] Failed to render ${mapType} map:`, error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // series is read only for its map files, which the key covers
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, mapType, projectId]);
+
+  // Release canvas memory on unmount
+  useEffect(() => {
+    return () => {
+      if (renderedRef.current) {
+        renderedRef.current.canvas.width = 0;
+        renderedRef.current.canvas.height = 0;
+      }
+    };
+  }, []);
+
+  if (!rendered || rendered.key !== key) return null;
+
+  return (
+    <Group listening={false}>
+      <KonvaImage
+        image={rendered.canvas}
+        x={0}
+        y={0}
+        width={width}
+        height={height}
+        opacity={series.opacity}
+      />
+    </Group>
+  );
+};
+
+export default RotationSeriesRenderer;
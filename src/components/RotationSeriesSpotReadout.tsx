@@ -0,0 +1,104 @@
+/**
+ * RotationSeriesSpotReadout Component
+ *
+ * Samples a micrograph's rotation series maps inside one spot and shows the
+ * extinction angle, its spread (undulose/patchy extinction) and the
+ * retardation proxy. Renders nothing when the micrograph has no computed maps.
+ *
+ * Used compactly in the Quick Edit toolbar, and as a panel with an
+ * "Add to Notes" action in the extinction microstructure dialog.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Box, Button, Paper, Typography, CircularProgress } from '@mui/material';
+import type { MicrographMetadata, Spot } from '@/types/project-types';
+import { formatRotationStats, sampleSpotRotationMaps, type RotationMapStats } from '@/services/rotationSeries';
+
+interface RotationSeriesSpotReadoutProps {
+  /** Project owning the map files */
+  projectId: string;
+  /** Micrograph the spot belongs to */
+  micrograph: MicrographMetadata;
+  /** Spot to sample */
+  spot: Spot;
+  /** Single caption line instead of a panel */
+  compact?: boolean;
+  /** Show an "Add to Notes" button that passes the formatted summary */
+  onAddToNotes?: (text: string) => void;
+}
+
+export const RotationSeriesSpotReadout: React.FC<RotationSeriesSpotReadoutProps> = ({
+  projectId,
+  micrograph,
+  spot,
+  compact = false,
+  onAddToNotes,
+}) => {
+  const [stats, setStats] = useState<RotationMapStats | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const maps = micrograph.rotationSeries?.maps ?? null;
+
+  // Resample when the spot's shape or the maps change
+  useEffect(() => {
+    if (!window.api || !maps) {
+      setStats(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+
+    sampleSpotRotationMaps(projectId, micrograph, [spot])
+      .then(([result]) => {
+        if (!cancelled) setStats(result ?? null);
+      })
+      .catch((error) => {
+        console.error('[RotationSeriesSpotReadout] Failed to sample rotation series maps:', error);
+        if (!cancelled) setStats(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // micrograph is read for its dimensions and maps, which maps covers
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, maps, spot.id, spot.geometry, spot.points]);
+
+  if (!maps) return null;
+
+  const summary = stats ? formatRotationStats(stats) : null;
+
+  if (compact) {
+    return (
+      <Typography variant="caption" color="text.secondary" noWrap sx={{ display: 'block', mt: 0.5 }}>
+        {loading ? 'Sampling rotation series...' : summary}
+      </Typography>
+    );
+  }
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5, mb: 2, display: 'flex', alignItems: 'center', gap: 2 }}>
+      <Box sx={{ flex: 1 }}>
+        <Typography variant="subtitle2">Rotation Series Maps</Typography>
+        {loading ? (
+          <CircularProgress size={16} />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            {summary}
+            {stats && stats.pixelCount > 0 && ` (${stats.pixelCount} map pixels)`}
+          </Typography>
+        )}
+      </Box>
+      {onAddToNotes && (
+        <Button size="small" disabled={!summary || loading} onClick={() => summary && onAddToNotes(summary)}>
+          Add to Notes
+        </Button>
+      )}
+    </Paper>
+  );
+};
+
+export default RotationSeriesSpotReadout;
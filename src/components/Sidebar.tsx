@@ -4,6 +4,7 @@ import { ProjectTree } from './ProjectTree';
 import { GroupsPanel } from './GroupsPanel';
 import { SpotsPanel } from './SpotsPanel';
 import { TagsPanel } from './TagsPanel';
+import { HistoryPanel } from './HistoryPanel';
 import { useAppStore } from '@/store';
 
 interface TabPanelProps {
@@ -71,6 +72,8 @@ const Sidebar: React.FC = () => {
           borderBottom: 1,
           borderColor: 'divider',
           '& .MuiTab-root': {
+            minWidth: 0, // Let five tabs share a narrow sidebar
+            px: 1,
             color: 'text.primary', // Keep text white
             '&.Mui-selected': {
               color: 'text.primary', // Keep selected tab text white (not red)
@@ -85,6 +88,7 @@ const Sidebar: React.FC = () => {
         <Tab label="Groups" disableRipple />
         <Tab label="Spots" disableRipple />
         <Tab label="Tags" disableRipple />
+        <Tab label="History" disableRipple />
       </Tabs>
 
       <Box sx={{ flex: 1, overflow: 'auto' }}>
@@ -100,6 +104,9 @@ const Sidebar: React.FC = () => {
         <TabPanel value={activeTab} index={3}>
           <TagsPanel />
         </TabPanel>
+        <TabPanel value={activeTab} index={4}>
+          <HistoryPanel />
+        </TabPanel>
       </Box>
 
       {/* Project Stats Footer - only shown when project is open */}
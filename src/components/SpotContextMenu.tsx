@@ -2,7 +2,8 @@
  * SpotContextMenu Component
  *
  * Context menu for spot operations (right-click menu).
- * Supports Edit Geometry, Edit Metadata, Delete, and Batch Edit actions.
+ * Supports Edit Geometry, Edit Metadata, Delete, Batch Edit, Merge/Split,
+ * Subtract/Intersect, hole drawing and shared-boundary cleanup actions.
  */
 
 import { Menu, MenuItem, ListItemIcon, ListItemText, Divider } from '@mui/material';
@@ -12,6 +13,10 @@ import EditNoteIcon from '@mui/icons-material/EditNote';
 import ShapeLineIcon from '@mui/icons-material/Timeline';
 import MergeIcon from '@mui/icons-material/CallMerge';
 import ContentCutIcon from '@mui/icons-material/ContentCut';
+import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
+import DifferenceIcon from '@mui/icons-material/Difference';
+import JoinInnerIcon from '@mui/icons-material/JoinInner';
+import DonutLargeIcon from '@mui/icons-material/DonutLarge';
 import { Spot } from '@/types/project-types';
 
 interface SpotContextMenuProps {
@@ -33,8 +38,16 @@ interface SpotContextMenuProps {
   onMergeSpots?: () => void;
   /** Callback for split spot with line action */
   onSplitSpot?: (spot: Spot) => void;
+  /** Callback for cutting the other selected spots out of this spot */
+  onSubtractSpots?: (spot: Spot) => void;
+  /** Callback for reducing this spot to its overlap with the other selected spots */
+  onIntersectSpots?: (spot: Spot) => void;
+  /** Callback for drawing a hole to cut out of this spot */
+  onDrawHole?: (spot: Spot) => void;
   /** Whether the selected spots can be merged (all polygons) */
   canMerge?: boolean;
+  /** Callback for closing gaps / removing overlaps between selected polygon spots */
+  onCleanTopology?: () => void;
 }
 
 export const SpotContextMenu: React.FC<SpotContextMenuProps> = ({
@@ -50,7 +63,11 @@ export const SpotContextMenu: React.FC<SpotContextMenuProps> = ({
   onBatchEdit,
   onMergeSpots,
   onSplitSpot,
+  onSubtractSpots,
+  onIntersectSpots,
+  onDrawHole,
   canMerge = false,
+  onCleanTopology,
 }) => {
   const handleEditGeometry = () => {
     if (!spot) return;
@@ -85,17 +102,46 @@ export const SpotContextMenu: React.FC<SpotContextMenuProps> = ({
     onClose();
   };
 
+  const handleCleanTopology = () => {
+    onCleanTopology?.();
+    onClose();
+  };
+
   const handleSplitSpot = () => {
     if (!spot) return;
     onSplitSpot?.(spot);
     onClose();
   };
 
+  const handleSubtractSpots = () => {
+    if (!spot) return;
+    onSubtractSpots?.(spot);
+    onClose();
+  };
+
+  const handleIntersectSpots = () => {
+    if (!spot) return;
+    onIntersectSpots?.(spot);
+    onClose();
+  };
+
+  const handleDrawHole = () => {
+    if (!spot) return;
+    onDrawHole?.(spot);
+    onClose();
+  };
+
   const showBatchEdit = selectedCount > 1 && onBatchEdit;
   const showMerge = selectedCount > 1 && onMergeSpots && canMerge;
+  // Cleanup needs the same all-polygon selection as merge
+  const showCleanTopology = selectedCount > 1 && onCleanTopology && canMerge;
   // Can only split polygon spots
   const isPolygon = spot && (spot.points?.length ?? 0) >= 3;
   const showSplit = selectedCount <= 1 && onSplitSpot && isPolygon && !isRecursiveSpot;
+  const showDrawHole = selectedCount <= 1 && onDrawHole && isPolygon && !isRecursiveSpot;
+  // Boolean operations change the right-clicked spot using the rest of the selection
+  const showSubtract = selectedCount > 1 && onSubtractSpots && canMerge && !isRecursiveSpot;
+  const showIntersect = selectedCount > 1 && onIntersectSpots && canMerge && !isRecursiveSpot;
 
   return (
     <Menu
@@ -126,7 +172,35 @@ export const SpotContextMenu: React.FC<SpotContextMenuProps> = ({
         </MenuItem>
       )}
 
-      {(showBatchEdit || showMerge) && <Divider />}
+      {/* Boolean operations on the right-clicked spot */}
+      {showSubtract && (
+        <MenuItem onClick={handleSubtractSpots}>
+          <ListItemIcon>
+            <DifferenceIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Subtract Other Selected Spots from This Spot</ListItemText>
+        </MenuItem>
+      )}
+      {showIntersect && (
+        <MenuItem onClick={handleIntersectSpots}>
+          <ListItemIcon>
+            <JoinInnerIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Intersect This Spot with Other Selected Spots</ListItemText>
+        </MenuItem>
+      )}
+
+      {/* Shared boundary cleanup for selected polygon spots */}
+      {showCleanTopology && (
+        <MenuItem onClick={handleCleanTopology}>
+          <ListItemIcon>
+            <AutoFixHighIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Close Gaps / Remove Overlaps...</ListItemText>
+        </MenuItem>
+      )}
+
+      {(showBatchEdit || showMerge || showCleanTopology) && <Divider />}
 
       {/* Split spot option (single polygon spot only) */}
       {showSplit && (
@@ -138,6 +212,16 @@ export const SpotContextMenu: React.FC<SpotContextMenuProps> = ({
         </MenuItem>
       )}
 
+      {/* Hole drawing (single polygon spot only) */}
+      {showDrawHole && (
+        <MenuItem onClick={handleDrawHole}>
+          <ListItemIcon>
+            <DonutLargeIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Draw Hole in Spot...</ListItemText>
+        </MenuItem>
+      )}
+
       {/* Single-spot operations - hide when multiple spots selected */}
       {selectedCount <= 1 && !isRecursiveSpot && (
         <MenuItem onClick={handleEditGeometry}>
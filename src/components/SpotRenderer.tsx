@@ -6,11 +6,14 @@
  */
 
 import { useState, useEffect, useMemo } from 'react';
-import { Circle, Line, Group, Text, Rect } from 'react-konva';
+import { Circle, Line, Group, Text, Rect, Shape } from 'react-konva';
+import type Konva from 'konva';
 import { Spot } from '@/types/project-types';
 import { useAppStore } from '@/store';
 import { DEFAULT_MINERAL_COLORS, NO_MINERAL_COLOR } from '@/constants/mineralColorDefaults';
 import { loadMinerals } from '@/utils/mineralData';
+import { hasHolesOrParts, spotToMultiPolygon } from '@/utils/spotPolygons';
+import type { ClipMultiPolygon } from '@/services/grainDetection/geometry';
 
 /**
  * Convert legacy color format (0xRRGGBBAA) to web format (#RRGGBB)
@@ -31,6 +34,23 @@ function convertLegacyColor(color: string): string {
   return color; // Return as-is if unknown format
 }
 
+/**
+ * Konva scene function tracing every ring of a multipolygon as one path, so
+ * that with the even-odd fill rule holes are left unfilled
+ */
+function ringsSceneFunc(polygons: ClipMultiPolygon) {
+  return (context: Konva.Context, shape: Konva.Shape) => {
+    context.beginPath();
+    for (const polygon of polygons) {
+      for (const ring of polygon) {
+        ring.forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+        context.closePath();
+      }
+    }
+    context.fillStrokeShape(shape);
+  };
+}
+
 /**
  * Build a Map of lowercase mineral name → abbreviation from mineralDB.
  * Lazily initialized on first access.
@@ -71,8 +91,9 @@ export const SpotRenderer: React.FC<SpotRendererProps> = ({
   const quickEditSpotIds = useAppStore((state) => state.quickEditSpotIds);
   const quickEditCurrentIndex = useAppStore((state) => state.quickEditCurrentIndex);
 
-  // Split mode state
+  // Split / hole drawing mode state
   const splitModeSpotId = useAppStore((state) => state.splitModeSpotId);
+  const holeModeSpotId = useAppStore((state) => state.holeModeSpotId);
 
   // Spot label mode state
   const spotLabelMode = useAppStore((state) => state.spotLabelMode ?? 'original');
@@ -81,7 +102,7 @@ export const SpotRenderer: React.FC<SpotRendererProps> = ({
   const sketchModeActive = useAppStore((state) => state.sketchModeActive);
 
   // Spots should be non-interactive when a drawing tool is active or sketch mode is on
-  const isDrawingTool = activeTool === 'point' || activeTool === 'line' || activeTool === 'polygon' || activeTool === 'measure';
+  const isDrawingTool = activeTool === 'point' || activeTool === 'line' || activeTool === 'polygon' || activeTool === 'measure' || activeTool === 'segment' || activeTool === 'magic-wand';
   const spotsNonInteractive = sketchModeActive || isDrawingTool;
 
   // Mineral color mode state (with fallbacks for rehydration from older stored state)
@@ -190,8 +211,8 @@ export const SpotRenderer: React.FC<SpotRendererProps> = ({
     if (!isSelected) {
       setIsHovered(true);
     }
-    // Don't change cursor if a drawing/measure tool or split mode is active
-    if (activeTool || splitModeSpotId) return;
+    // Don't change cursor if a drawing/measure tool or split/hole mode is active
+    if (activeTool || splitModeSpotId || holeModeSpotId) return;
     const container = e.target.getStage()?.container();
     if (container) {
       container.style.cursor = 'pointer';
@@ -200,8 +221,8 @@ export const SpotRenderer: React.FC<SpotRendererProps> = ({
 
   const handleMouseLeave = (e: any) => {
     setIsHovered(false);
-    // Don't change cursor if a drawing/measure tool or split mode is active
-    if (activeTool || splitModeSpotId) return;
+    // Don't change cursor if a drawing/measure tool or split/hole mode is active
+    if (activeTool || splitModeSpotId || holeModeSpotId) return;
     const container = e.target.getStage()?.container();
     if (container) {
       container.style.cursor = 'default';
@@ -329,6 +350,43 @@ export const SpotRenderer: React.FC<SpotRendererProps> = ({
       ) : null;
     }
 
+    // Polygons with holes or several parts are drawn as one even-odd path
+    if (hasHolesOrParts(spot)) {
+      const sceneFunc = ringsSceneFunc(spotToMultiPolygon(spot));
+      return (
+        <Group
+          name={`spot-${spot.id}`}
+          listening={!spotsNonInteractive}
+          onClick={handleClick}
+          onContextMenu={handleContextMenu}
+          onMouseEnter={handleMouseEnter}
+          onMouseLeave={handleMouseLeave}
+        >
+          {isSelected && (
+            <Shape
+              key="selection"
+              sceneFunc={sceneFunc}
+              stroke="#ff0000"
+              strokeWidth={5 / scale}
+              listening={false}
+            />
+          )}
+
+          <Shape
+            key="polygon"
+            sceneFunc={sceneFunc}
+            stroke={isSelected ? 'transparent' : strokeColor}
+            strokeWidth={isSelected ? 0 : strokeWidth}
+            dash={isClassified ? undefined : [8 / scale, 4 / scale]}
+            fill={fillOpacity === 0 ? 'transparent' : color}
+            fillRule="evenodd"
+            opacity={opacity}
+            listening={true}
+          />
+        </Group>
+      );
+    }
+
     // Rendering shapes only (skip labels)
     return (
       <Group
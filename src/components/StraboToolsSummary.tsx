@@ -17,6 +17,12 @@ import {
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { useAppStore } from '@/store';
+import {
+  resolveOrientationFrame,
+  imageDirectionToTrendPlunge,
+  imageDirectionToFabricAngle,
+  straboToolsAzimuthToImageAngle,
+} from '@/services/orientation';
 
 interface StraboToolsSummaryProps {
   micrographId: string;
@@ -75,6 +81,12 @@ export function StraboToolsSummary({ micrographId }: StraboToolsSummaryProps) {
   const toolName = TOOL_DISPLAY_NAMES[st.tool] || st.tool;
   const timestamp = st.timestamp ? new Date(st.timestamp).toLocaleDateString() : '';
 
+  // Edge fabric direction in the micrograph's geographic/fabric frame, when oriented
+  const frame = st.azimuth != null ? resolveOrientationFrame(micrograph, micrographIndex) : null;
+  const imageAngle = st.azimuth != null ? straboToolsAzimuthToImageAngle(st.azimuth) : null;
+  const line = frame && imageAngle !== null ? imageDirectionToTrendPlunge(imageAngle, frame) : null;
+  const fabricAngle = frame && imageAngle !== null ? imageDirectionToFabricAngle(imageAngle, frame) : null;
+
   return (
     <StyledAccordion disableGutters elevation={0} defaultExpanded>
       <StyledAccordionSummary expandIcon={<ExpandMoreIcon />}>
@@ -92,6 +104,15 @@ export function StraboToolsSummary({ micrographId }: StraboToolsSummaryProps) {
         {st.tool === 'edge-fabric' && (
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
             <Row label="Azimuth" value={st.azimuth != null ? `${st.azimuth.toFixed(2)}°` : '—'} />
+            {line && (
+              <Row label="Trend/Plunge" value={`${line.trend.toFixed(0)}° / ${line.plunge.toFixed(0)}°`} />
+            )}
+            {frame?.fabricPlane && fabricAngle !== null && (
+              <Row
+                label={`From ${frame.fabricPlane[0]} (${frame.fabricPlane})`}
+                value={`${fabricAngle.toFixed(1)}°`}
+              />
+            )}
             <Row label="Axial Ratio" value={st.axialRatio != null ? st.axialRatio.toFixed(2) : '—'} />
           </Box>
         )}
@@ -17,35 +17,51 @@ import { Stage, Layer, Image as KonvaImage, Circle, Line } from 'react-konva';
 import { Box, CircularProgress, Typography, IconButton, Tooltip } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
-import { useAppStore } from '@/store';
-import { getChildMicrographs } from '@/store/helpers';
+import { useAppStore, runAsHistoryStep } from '@/store';
+import { getChildMicrographs, getNextSpotName } from '@/store/helpers';
 import { AssociatedImageRenderer } from './AssociatedImageRenderer';
+import { ElementMapRenderer } from './ElementMapRenderer';
+import { RotationSeriesRenderer } from './RotationSeriesRenderer';
 import { ChildSpotsRenderer } from './ChildSpotsRenderer';
 import { SpotRenderer } from './SpotRenderer';
 import { SketchLayerRenderer } from './SketchLayerRenderer';
 import { SketchTextInput } from './SketchTextInput';
 import { PointCountRenderer } from './PointCountRenderer';
+import { LineInterceptRenderer } from './LineInterceptRenderer';
+import { GrainBoundaryRenderer } from './GrainBoundaryRenderer';
 import { LassoRenderer } from './LassoRenderer';
+import { PromptSegmentationRenderer } from './PromptSegmentationRenderer';
 import { SpotContextMenu } from './SpotContextMenu';
 import { EditingToolbar } from './EditingToolbar';
+import { MagicWandToolbar } from './MagicWandToolbar';
 import { NewSpotDialog } from './dialogs/NewSpotDialog';
 import { EditSpotDialog } from './dialogs/metadata/EditSpotDialog';
 import { BatchEditSpotsDialog } from './dialogs/BatchEditSpotsDialog';
+import { TopologyCleanupDialog } from './dialogs/TopologyCleanupDialog';
 import RulerCanvas from './RulerCanvas';
 import { Geometry, Spot, SketchLayer, SketchText } from '@/types/project-types';
 import { usePolygonDrawing } from '@/hooks/usePolygonDrawing';
 import { useLineDrawing } from '@/hooks/useLineDrawing';
 import { useRulerTool } from '@/hooks/useRulerTool';
 import { useLasso, getIndicesInPolygon, isPointInPolygon } from '@/hooks/useLasso';
+import { usePromptSegmentation, type SegmentedGrain } from '@/hooks/usePromptSegmentation';
+import { useMagicWand, type MagicWandRegion } from '@/hooks/useMagicWand';
+import { useLivewire } from '@/hooks/useLivewire';
 import { useImperativeGeometryEditing } from '@/hooks/useImperativeGeometryEditing';
 import { getEffectiveTheme } from '@/hooks/useTheme';
 import { releaseImage, isImageUsable } from '@/utils/imageUtils';
+import { calibratedScaleAt } from '@/utils/placementWarp';
+import { projectOntoTestLine } from '@/services/grainAnalysis/lineIntercept';
+import { DEFAULT_SPOT_GENERATION_OPTIONS } from '@/services/grainDetection';
+import { SNAP_RADIUS_SCREEN_PX, SnapIndex, getTopologySpots } from '@/services/spotTopology';
+import { v4 as uuidv4 } from 'uuid';
 import './TiledViewer.css';
 
 const TILE_SIZE = 256;
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 20; // Increased from 5x to 20x for detail work
 const ZOOM_STEP = 1.1;
+const LINE_INTERCEPT_CLICK_TOLERANCE = 10; // Screen pixels from a test line that count as a hit
 
 interface TiledViewerProps {
   imagePath: string | null;
@@ -144,12 +160,18 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
     );
     const [isContextMenuRecursiveSpot, setIsContextMenuRecursiveSpot] = useState(false);
 
+    // Spots being cleaned by the Close Gaps / Remove Overlaps dialog (null when closed)
+    const [topologyCleanupSpotIds, setTopologyCleanupSpotIds] = useState<string[] | null>(null);
+
     // Get project and active micrograph from store
     const project = useAppStore((state) => state.project);
     const activeMicrographId = useAppStore((state) => state.activeMicrographId);
     const activeTool = useAppStore((state) => state.activeTool);
     const activeSpotId = useAppStore((state) => state.activeSpotId);
     const showRulers = useAppStore((state) => state.showRulers);
+    const topologySnapping = useAppStore((state) => state.topologySnapping);
+    const magicWandOptions = useAppStore((state) => state.magicWandOptions);
+    const livewireTracing = useAppStore((state) => state.livewireTracing);
     const spotLabelMode = useAppStore((state) => state.spotLabelMode);
     const showMicrographOutlines = useAppStore((state) => state.showMicrographOutlines);
     const showRecursiveSpots = useAppStore((state) => state.showRecursiveSpots);
@@ -190,11 +212,21 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
     const activePointCountSession = useAppStore((state) => state.activePointCountSession);
     const setSelectedPointIndices = useAppStore((state) => state.setSelectedPointIndices);
 
+    // Line intercept mode actions (session is read on click)
+    const addLineIntercept = useAppStore((state) => state.addLineIntercept);
+    const goToTestLine = useAppStore((state) => state.goToTestLine);
+    const setLineInterceptCursor = useAppStore((state) => state.setLineInterceptCursor);
+
     // Split mode state
     const splitModeSpotId = useAppStore((state) => state.splitModeSpotId);
     const setSplitModeSpotId = useAppStore((state) => state.setSplitModeSpotId);
     const splitSpot = useAppStore((state) => state.splitSpot);
 
+    // Hole drawing mode state
+    const holeModeSpotId = useAppStore((state) => state.holeModeSpotId);
+    const setHoleModeSpotId = useAppStore((state) => state.setHoleModeSpotId);
+    const addSpotHole = useAppStore((state) => state.addSpotHole);
+
     // Initialize lasso hook
     const lasso = useLasso();
 
@@ -394,37 +426,19 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       return children.filter(child => child.isPrimarySibling !== false);
     }, [project, activeMicrographId])();
 
-    // Compute effective scalePixelsPerCentimeter for affine-placed micrographs.
-    // Affine children often have a default scalePixelsPerCentimeter (100) because their real-world
-    // scale is defined by the affine transform relative to the parent. Walk up the ancestor chain,
-    // accumulating affine scale factors, until we reach a micrograph with a calibrated scale.
+    // Compute effective scalePixelsPerCentimeter for micrographs placed by control points.
+    // Such children often have a default scalePixelsPerCentimeter (100) because their real-world
+    // scale is defined by the placement warp relative to the parent. Walk up the ancestor chain,
+    // accumulating warp scale factors, until we reach a micrograph with a calibrated scale.
+    // Projective and spline warps vary in scale across the image; this is the scale at its center.
     const effectiveScalePixelsPerCentimeter = useMemo(() => {
       if (!activeMicrograph) return null;
-
-      // Walk up through affine ancestors accumulating the combined scale factor
-      let cumulativeAffineScale = 1;
-      let current = activeMicrograph;
-
-      while (
-        current.placementType === 'affine' &&
-        current.affineMatrix &&
-        current.parentID
-      ) {
-        const [a, , , c] = current.affineMatrix;
-        const affineScale = Math.sqrt(a * a + c * c);
-        if (affineScale <= 0) break;
-        cumulativeAffineScale *= affineScale;
-
-        const parent = micrographIndex.get(current.parentID);
-        if (!parent) break;
-        current = parent;
-      }
-
-      // current is now the root ancestor (or the micrograph itself if not affine-placed)
-      const rootScale = current.scalePixelsPerCentimeter;
-      if (!rootScale) return activeMicrograph.scalePixelsPerCentimeter ?? null;
-
-      return rootScale / cumulativeAffineScale;
+      return calibratedScaleAt(
+        activeMicrograph,
+        (activeMicrograph.imageWidth || 0) / 2,
+        (activeMicrograph.imageHeight || 0) / 2,
+        (id) => micrographIndex.get(id)
+      );
     }, [activeMicrograph, micrographIndex]);
 
     // Get effective spots - if viewing a secondary sibling (XPL), show spots from primary (PPL)
@@ -448,10 +462,46 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       return activeMicrograph.spots || [];
     }, [activeMicrograph, project]);
 
+    // Topology snapping: snap drawn vertices onto neighboring spots
+    const snapIndex = useMemo(
+      () => (topologySnapping ? new SnapIndex(getTopologySpots(effectiveSpots)) : null),
+      [topologySnapping, effectiveSpots]
+    );
+    const snapToSpots = useMemo(
+      () => (snapIndex ? (x: number, y: number) => snapIndex.snap(x, y, SNAP_RADIUS_SCREEN_PX / zoom) : undefined),
+      [snapIndex, zoom]
+    );
+
+    // Spots the geometry editor can share vertices with (null when snapping is off)
+    const topologySpotsRef = useRef<Spot[] | null>(null);
+    topologySpotsRef.current = topologySnapping ? effectiveSpots : null;
+
+    // Livewire mode: polygon and line edges follow image edges in the visible area
+    const visibleImageRect = useMemo(
+      () => ({
+        x: -position.x / zoom,
+        y: -position.y / zoom,
+        width: stageSize.width / zoom,
+        height: stageSize.height / zoom,
+      }),
+      [position, zoom, stageSize]
+    );
+    const livewire = useLivewire({
+      enabled: livewireTracing && (activeTool === 'polygon' || activeTool === 'line'),
+      imageHash: imageMetadata?.hash ?? null,
+      imageWidth: imageMetadata?.width ?? 0,
+      imageHeight: imageMetadata?.height ?? 0,
+      tilePadding: imageMetadata?.tilePadding,
+      viewport: visibleImageRect,
+      scale: zoom,
+    });
+
     // Drawing hooks for polygon and line tools
     const polygonDrawing = usePolygonDrawing({
       layer: drawingLayerRef.current,
       scale: zoom,
+      snap: snapToSpots,
+      livewire,
       onComplete: (points) => {
         // Convert points to polygon geometry
         const coordinates: Array<[number, number]> = [];
@@ -472,6 +522,8 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
     const lineDrawing = useLineDrawing({
       layer: drawingLayerRef.current,
       scale: zoom,
+      snap: snapToSpots,
+      livewire,
       onComplete: (points) => {
         // Convert points to line geometry
         const coordinates: Array<[number, number]> = [];
@@ -515,6 +567,27 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       },
     });
 
+    // Hole drawing hook (polygon cut out of an existing polygon spot)
+    const holeDrawing = usePolygonDrawing({
+      layer: drawingLayerRef.current,
+      scale: zoom,
+      onComplete: (points) => {
+        if (!holeModeSpotId) return;
+
+        const ring: Array<{ X: number; Y: number }> = [];
+        for (let i = 0; i < points.length; i += 2) {
+          ring.push({ X: points[i], Y: points[i + 1] });
+        }
+
+        const cut = addSpotHole(holeModeSpotId, ring);
+        setHoleModeSpotId(null);
+
+        if (!cut) {
+          alert('Failed to cut hole. Make sure the hole lies inside the polygon and does not cover all of it.');
+        }
+      },
+    });
+
     // Ruler/measurement tool hook
     const rulerTool = useRulerTool({
       layer: drawingLayerRef.current,
@@ -526,6 +599,7 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
     const geometryEditing = useImperativeGeometryEditing({
       layerRef: drawingLayerRef,
       stageRef: stageRef,
+      topologySpotsRef,
     });
 
     // Store reset function in ref to avoid dependency issues
@@ -544,6 +618,150 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       rulerResetRef.current();
     }, [activeMicrographId]);
 
+    // Click-to-segment tool: committed grains become grain-detection spots
+    const handleSegmentedGrain = useCallback(
+      (grain: SegmentedGrain) => {
+        if (!activeMicrographId) return;
+
+        const { namingPattern, color, opacity } = DEFAULT_SPOT_GENERATION_OPTIONS;
+        const spot: Spot = {
+          id: uuidv4(),
+          name: getNextSpotName(effectiveSpots, namingPattern),
+          geometryType: 'polygon',
+          points: grain.points,
+          color,
+          opacity: Math.round(opacity * 100), // Convert 0-1 to 0-100 for SpotRenderer
+          generationMethod: 'grain-detection',
+          generationTimestamp: new Date().toISOString(),
+          areaPixels: grain.areaPixels,
+          centroid: grain.centroid,
+        };
+
+        addSpot(activeMicrographId, spot);
+        selectActiveSpot(spot.id);
+      },
+      [activeMicrographId, effectiveSpots, addSpot, selectActiveSpot]
+    );
+
+    const promptSegmentation = usePromptSegmentation({
+      imageHash: imageMetadata?.hash ?? null,
+      imageWidth: imageMetadata?.width ?? 0,
+      imageHeight: imageMetadata?.height ?? 0,
+      scale: zoom,
+      onComplete: handleSegmentedGrain,
+    });
+
+    // Store cancel function in ref to avoid dependency issues
+    const promptSegmentationCancelRef = useRef(promptSegmentation.cancel);
+    promptSegmentationCancelRef.current = promptSegmentation.cancel;
+
+    // Clear the segmentation prompt when the tool changes away from segment
+    useEffect(() => {
+      if (activeTool !== 'segment') {
+        promptSegmentationCancelRef.current();
+      }
+    }, [activeTool]);
+
+    /**
+     * Enter keeps the segmented grain, Escape discards the prompt
+     */
+    useEffect(() => {
+      if (activeTool !== 'segment') return;
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+        if (e.key === 'Enter') {
+          if (promptSegmentation.commit()) e.preventDefault();
+        } else if (e.key === 'Escape') {
+          promptSegmentation.cancel();
+        }
+      };
+
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [activeTool, promptSegmentation]);
+
+    // Magic wand tool: committed regions become polygon spots via the new spot dialog
+    const handleMagicWandRegion = useCallback((region: MagicWandRegion) => {
+      const coordinates: Array<[number, number]> = region.points.map((p) => [p.X, p.Y]);
+      setPendingSpotGeometry({ type: 'Polygon', coordinates: [coordinates] });
+      setNewSpotDialogOpen(true);
+    }, []);
+
+    // The wand can also require the region to be homogeneous in the PPL/XPL sibling
+    const siblingMicrograph = activeMicrograph?.siblingImageId
+      ? micrographIndex.get(activeMicrograph.siblingImageId) ?? null
+      : null;
+    const loadSiblingImage = useMemo(() => {
+      if (!project || !siblingMicrograph?.imagePath) return null;
+      const projectId = project.id;
+      const siblingImagePath = siblingMicrograph.imagePath;
+      return async () => {
+        const folderPaths = await window.api!.getProjectFolderPaths(projectId);
+        const result = await window.api!.loadImageWithTiles(`${folderPaths.images}/${siblingImagePath}`);
+        return {
+          hash: result.hash,
+          width: result.metadata.width,
+          height: result.metadata.height,
+          tilePadding: result.metadata.tilePadding,
+        };
+      };
+    }, [project?.id, siblingMicrograph?.imagePath]);
+
+    const magicWand = useMagicWand({
+      imageHash: imageMetadata?.hash ?? null,
+      imageWidth: imageMetadata?.width ?? 0,
+      imageHeight: imageMetadata?.height ?? 0,
+      tilePadding: imageMetadata?.tilePadding,
+      scale: zoom,
+      options: magicWandOptions,
+      loadSiblingImage,
+      onComplete: handleMagicWandRegion,
+    });
+
+    // Clicks drawn as prompt points: green adds, red subtracts
+    const magicWandPrompt = useMemo(
+      () => ({
+        points: magicWand.seeds.map((seed) => ({ x: seed.x, y: seed.y, positive: seed.mode === 'add' })),
+        box: null,
+      }),
+      [magicWand.seeds]
+    );
+
+    // Store cancel function in ref to avoid dependency issues
+    const magicWandCancelRef = useRef(magicWand.cancel);
+    magicWandCancelRef.current = magicWand.cancel;
+
+    // Clear the wand region when the tool changes away from the magic wand
+    useEffect(() => {
+      if (activeTool !== 'magic-wand') {
+        magicWandCancelRef.current();
+      }
+    }, [activeTool]);
+
+    /**
+     * Enter turns the wand region into a spot, Escape discards it
+     */
+    useEffect(() => {
+      if (activeTool !== 'magic-wand') return;
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+        if (e.key === 'Enter') {
+          if (magicWand.commit()) e.preventDefault();
+        } else if (e.key === 'Escape') {
+          magicWand.cancel();
+        }
+      };
+
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [activeTool, magicWand]);
+
     // Store cleanup function in ref to avoid dependency issues
     const cleanupTileMemoryRef = useRef(cleanupTileMemory);
     cleanupTileMemoryRef.current = cleanupTileMemory;
@@ -1156,13 +1374,14 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
 
         // Update stroke widths in drawing hooks
         polygonDrawing.updateStrokeWidth(newZoom);
+        holeDrawing.updateStrokeWidth(newZoom);
         lineDrawing.updateStrokeWidth(newZoom);
         rulerTool.updateStrokeWidth(newZoom);
 
         // Update editing handle sizes if in edit mode
         geometryEditing.updateHandleSizes(newZoom);
       },
-      [zoom, position, polygonDrawing, lineDrawing, rulerTool, geometryEditing]
+      [zoom, position, polygonDrawing, holeDrawing, lineDrawing, rulerTool, geometryEditing]
     );
 
     /**
@@ -1266,6 +1485,28 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           return;
         }
 
+        // Handle click-to-segment (click, drag a box, or Shift/Shift+Alt click to refine)
+        if (activeTool === 'segment') {
+          const stage = stageRef.current;
+          if (!stage) return;
+          const pos = stage.getPointerPosition();
+          if (!pos) return;
+          const imageX = (pos.x - position.x) / zoom;
+          const imageY = (pos.y - position.y) / zoom;
+          promptSegmentation.handleMouseDown(
+            imageX,
+            imageY,
+            { refine: e.evt.shiftKey, negative: e.evt.altKey },
+            {
+              x: -position.x / zoom,
+              y: -position.y / zoom,
+              width: stageSize.width / zoom,
+              height: stageSize.height / zoom,
+            }
+          );
+          return;
+        }
+
         // Handle lasso tool (point count mode only)
         if (lassoToolActive && pointCountMode) {
           const stage = stageRef.current;
@@ -1330,7 +1571,7 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           setLastPointerPos(pos);
         }
       },
-      [activeTool, position, zoom, rulerTool, lassoToolActive, spotLassoToolActive, pointCountMode, lasso, setSpotLassoActiveWithRef, activeSketchLayerId, activeMicrographId, handleEraseStroke, handleEraseText]
+      [activeTool, position, zoom, stageSize, rulerTool, promptSegmentation, lassoToolActive, spotLassoToolActive, pointCountMode, lasso, setSpotLassoActiveWithRef, activeSketchLayerId, activeMicrographId, handleEraseStroke, handleEraseText]
     );
 
     const handleMouseMove = useCallback(() => {
@@ -1366,6 +1607,13 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
         lasso.updateLasso(imageX, imageY);
       }
 
+      // Handle click-to-segment box drag
+      if (activeTool === 'segment') {
+        const imageX = (pos.x - position.x) / zoom;
+        const imageY = (pos.y - position.y) / zoom;
+        promptSegmentation.handleMouseMove(imageX, imageY);
+      }
+
       // Handle spot lasso drawing (Shift+Drag mode)
       // Use ref to avoid stale closure issues
       if (spotLassoActiveRef.current) {
@@ -1433,13 +1681,23 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
         splitLineDrawing.handleMouseMove(imageX, imageY);
       }
 
+      // Handle hole mode preview
+      if (holeModeSpotId) {
+        const imageX = (pos.x - position.x) / zoom;
+        const imageY = (pos.y - position.y) / zoom;
+        holeDrawing.handleMouseMove(imageX, imageY);
+      }
+
       // Update cursor location (convert screen coords to image coords)
       const imageX = (pos.x - position.x) / zoom;
       const imageY = (pos.y - position.y) / zoom;
 
       // Format and send coordinates to parent
       if (onCursorMove && effectiveScalePixelsPerCentimeter) {
-        const scale = effectiveScalePixelsPerCentimeter;
+        // Under a projective or spline placement the scale depends on where the cursor is
+        const scale = (activeMicrograph &&
+          calibratedScaleAt(activeMicrograph, imageX, imageY, (id) => micrographIndex.get(id))) ||
+          effectiveScalePixelsPerCentimeter;
 
         // Convert pixel coordinates to centimeters
         const xInCm = imageX / scale;
@@ -1487,13 +1745,17 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       zoom,
       polygonDrawing,
       lineDrawing,
+      promptSegmentation,
       onCursorMove,
       activeMicrograph,
+      micrographIndex,
       lasso,
       lassoToolActive,
       pointCountMode,
       splitModeSpotId,
       splitLineDrawing,
+      holeModeSpotId,
+      holeDrawing,
     ]);
 
     const handleMouseUp = useCallback(() => {
@@ -1505,6 +1767,14 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
         rulerTool.handleMouseUp();
       }
 
+      // Finish click-to-segment click or box
+      if (activeTool === 'segment') {
+        const pos = stageRef.current?.getPointerPosition();
+        if (pos) {
+          promptSegmentation.handleMouseUp((pos.x - position.x) / zoom, (pos.y - position.y) / zoom);
+        }
+      }
+
       // Finish lasso selection and select points inside (point count mode)
       if (lasso.isDrawing && lassoToolActive && pointCountMode && activePointCountSession) {
         const polygon = lasso.completeLasso();
@@ -1582,7 +1852,7 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
         isEraserDraggingRef.current = false;
         erasedStrokeIdsRef.current.clear();
       }
-    }, [activeTool, rulerTool, lasso, lassoToolActive, pointCountMode, activePointCountSession, setSelectedPointIndices, spotLassoToolActive, setSpotLassoToolActive, activeMicrograph, showArchivedSpots, getSpotCentroid, selectSpot, selectActiveSpot, setSpotLassoActiveWithRef, activeMicrographId, activeSketchLayerId, sketchStrokeColor, sketchStrokeWidth, addSketchStroke]);
+    }, [activeTool, rulerTool, promptSegmentation, position, zoom, lasso, lassoToolActive, pointCountMode, activePointCountSession, setSelectedPointIndices, spotLassoToolActive, setSpotLassoToolActive, activeMicrograph, showArchivedSpots, getSpotCentroid, selectSpot, selectActiveSpot, setSpotLassoActiveWithRef, activeMicrographId, activeSketchLayerId, sketchStrokeColor, sketchStrokeWidth, addSketchStroke]);
 
     const handleMouseLeave = useCallback(() => {
       setIsPanning(false);
@@ -1638,6 +1908,38 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           return;
         }
 
+        // Hole mode: vertices of the hole ring (double-click finishes)
+        if (holeModeSpotId) {
+          holeDrawing.handleClick(imageX, imageY);
+          return;
+        }
+
+        // Handle line-intercept mode: clicking the current test line marks an
+        // intersection (Alt+click marks a triple junction); clicking another
+        // test line makes it current
+        const { lineInterceptSession, currentTestLineIndex } = useAppStore.getState();
+        if (lineInterceptSession?.micrographId === activeMicrographId && (!activeTool || activeTool === 'select')) {
+          const tolerance = LINE_INTERCEPT_CLICK_TOLERANCE / zoom;
+          const currentLine = lineInterceptSession.lines[currentTestLineIndex];
+          const onCurrent = currentLine ? projectOntoTestLine(currentLine, imageX, imageY) : null;
+          if (onCurrent && onCurrent.distance <= tolerance) {
+            addLineIntercept(e.evt?.altKey ? 'triple' : 'boundary', onCurrent.t);
+            return;
+          }
+
+          const nearest = lineInterceptSession.lines
+            .map((line, index) => ({ index, ...projectOntoTestLine(line, imageX, imageY) }))
+            .reduce<{ index: number; t: number; distance: number } | null>(
+              (best, hit) => (hit.distance <= tolerance && (!best || hit.distance < best.distance) ? hit : best),
+              null
+            );
+          if (nearest) {
+            goToTestLine(nearest.index);
+            setLineInterceptCursor(nearest.t);
+            return;
+          }
+        }
+
         // If clicking directly on the stage (not on a spot), clear spot selection
         if (!activeTool || activeTool === 'select') {
           // Check if click target or its parent is a spot (spots have names like "spot-{id}")
@@ -1683,6 +1985,16 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           lineDrawing.handleClick(imageX, imageY);
         }
 
+        // Handle magic wand (click for a new region, Shift+click to add, Alt+click to subtract)
+        if (activeTool === 'magic-wand') {
+          magicWand.handleClick(
+            imageX,
+            imageY,
+            { add: !!e.evt?.shiftKey, subtract: !!e.evt?.altKey },
+            visibleImageRect
+          );
+        }
+
         // Handle text tool - show input overlay at click position (only if layer is visible)
         if (activeTool === 'sketch-text' && isActiveLayerVisible) {
           // Check if we clicked on an existing text item — edit it instead of creating new
@@ -1706,7 +2018,7 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           setTextInputVisible(true);
         }
       },
-      [activeTool, position, zoom, polygonDrawing, lineDrawing, selectActiveSpot, clearSpotSelection, hasDragged, splitModeSpotId, splitLineDrawing, activeSketchLayerId, handleTextDoubleClick]
+      [activeTool, position, zoom, visibleImageRect, polygonDrawing, lineDrawing, magicWand, selectActiveSpot, clearSpotSelection, hasDragged, splitModeSpotId, splitLineDrawing, holeModeSpotId, holeDrawing, activeSketchLayerId, handleTextDoubleClick, activeMicrographId, addLineIntercept, goToTestLine, setLineInterceptCursor]
     );
 
     /**
@@ -1745,6 +2057,30 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       return () => window.removeEventListener('keydown', handleKeyDown);
     }, [splitModeSpotId, setSplitModeSpotId, splitLineDrawing]);
 
+    /**
+     * Cleanup hole outline when hole mode exits
+     */
+    useEffect(() => {
+      if (!holeModeSpotId) {
+        holeDrawing.cleanup();
+      }
+    }, [holeModeSpotId, holeDrawing]);
+
+    /**
+     * Handle ESC key to cancel hole mode
+     */
+    useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape' && holeModeSpotId) {
+          setHoleModeSpotId(null);
+          holeDrawing.cancel();
+        }
+      };
+
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [holeModeSpotId, setHoleModeSpotId, holeDrawing]);
+
     /**
      * Handle saving new spot from dialog
      */
@@ -1828,9 +2164,11 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       const count = allIds.length;
       if (window.confirm(`Delete ${count} selected spots?\n\nThis action cannot be undone.`)) {
         // Delete each spot
-        for (const spotId of allIds) {
-          deleteSpot(spotId);
-        }
+        runAsHistoryStep(`Delete ${count} spots`, () => {
+          for (const spotId of allIds) {
+            deleteSpot(spotId);
+          }
+        });
         // Clear selection
         clearSpotSelection();
         console.log(`Deleted ${count} spots`);
@@ -1877,10 +2215,11 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       setZoom(newZoom);
       setPosition(newPos);
       polygonDrawing.updateStrokeWidth(newZoom);
+      holeDrawing.updateStrokeWidth(newZoom);
       lineDrawing.updateStrokeWidth(newZoom);
       rulerTool.updateStrokeWidth(newZoom);
       geometryEditing.updateHandleSizes(newZoom);
-    }, [zoom, position, stageSize, polygonDrawing, lineDrawing, rulerTool, geometryEditing]);
+    }, [zoom, position, stageSize, polygonDrawing, holeDrawing, lineDrawing, rulerTool, geometryEditing]);
 
     const handleZoomOut = useCallback(() => {
       const newZoom = Math.max(zoom / ZOOM_FACTOR, MIN_ZOOM);
@@ -1898,10 +2237,11 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       setZoom(newZoom);
       setPosition(newPos);
       polygonDrawing.updateStrokeWidth(newZoom);
+      holeDrawing.updateStrokeWidth(newZoom);
       lineDrawing.updateStrokeWidth(newZoom);
       rulerTool.updateStrokeWidth(newZoom);
       geometryEditing.updateHandleSizes(newZoom);
-    }, [zoom, position, stageSize, polygonDrawing, lineDrawing, rulerTool, geometryEditing]);
+    }, [zoom, position, stageSize, polygonDrawing, holeDrawing, lineDrawing, rulerTool, geometryEditing]);
 
     // Snap zoom to an exact value (used by Debug menu for tile-seam sanity checks).
     // Centers on viewport middle so the user can verify the resulting zoom in the indicator.
@@ -1921,10 +2261,11 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
       setZoom(newZoom);
       setPosition(newPos);
       polygonDrawing.updateStrokeWidth(newZoom);
+      holeDrawing.updateStrokeWidth(newZoom);
       lineDrawing.updateStrokeWidth(newZoom);
       rulerTool.updateStrokeWidth(newZoom);
       geometryEditing.updateHandleSizes(newZoom);
-    }, [zoom, position, stageSize, polygonDrawing, lineDrawing, rulerTool, geometryEditing]);
+    }, [zoom, position, stageSize, polygonDrawing, holeDrawing, lineDrawing, rulerTool, geometryEditing]);
 
     useEffect(() => {
       onZoomChange?.(zoom);
@@ -2086,6 +2427,16 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           onCancel={() => geometryEditing.cancelEdits()}
         />
 
+        {/* Magic wand options */}
+        {activeTool === 'magic-wand' && imageMetadata && (
+          <MagicWandToolbar
+            hasSibling={loadSiblingImage !== null}
+            canCommit={magicWand.region !== null}
+            onCommit={() => magicWand.commit()}
+            onCancel={() => magicWand.cancel()}
+          />
+        )}
+
         {/* Back navigation button - shows when navigated via overlay click */}
         {micrographNavigationStack.length > 0 && (
           <Tooltip
@@ -2230,6 +2581,8 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
                     activeTool === 'line' ||
                     activeTool === 'polygon' ||
                     activeTool === 'measure' ||
+                    activeTool === 'segment' ||
+                    activeTool === 'magic-wand' ||
                     activeTool === 'sketch-pen' ||
                     activeTool === 'sketch-marker' ||
                     activeTool === 'sketch-eraser' ||
@@ -2237,7 +2590,8 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
                     lassoToolActive ||
                     spotLassoToolActive ||
                     spotLassoActive ||
-                    splitModeSpotId
+                    splitModeSpotId ||
+                    holeModeSpotId
                       ? 'crosshair'
                       : isPanning
                       ? 'grabbing'
@@ -2292,6 +2646,32 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
                       );
                     })}
 
+                  {/* EDS/WDS element maps, blended additively over the base tiles */}
+                  {activeMicrograph?.elementMaps &&
+                    activeMicrograph.elementMaps.length > 0 &&
+                    project &&
+                    imageMetadata && (
+                      <ElementMapRenderer
+                        layers={activeMicrograph.elementMaps}
+                        projectId={project.id}
+                        width={imageMetadata.width}
+                        height={imageMetadata.height}
+                      />
+                    )}
+
+                  {/* Rotation series map (extinction angle, retardation or maximum intensity) */}
+                  {activeMicrograph?.rotationSeries?.maps &&
+                    activeMicrograph.rotationSeries.displayMap &&
+                    project &&
+                    imageMetadata && (
+                      <RotationSeriesRenderer
+                        series={activeMicrograph.rotationSeries}
+                        projectId={project.id}
+                        width={imageMetadata.width}
+                        height={imageMetadata.height}
+                      />
+                    )}
+
                   {/* Render associated micrographs (overlays) - only rectangle-located ones */}
                   {/* Filter out: batch-imported without scale, and point-located micrographs */}
                   {/* Hide overlays in point count mode */}
@@ -2520,13 +2900,39 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
                     />
                   ))}
 
+                  {/* Grain boundary network, colored by phase pair */}
+                  <GrainBoundaryRenderer scale={zoom} />
+
                   {/* Point Count points (rendered on top of spots when in point count mode) */}
                   <PointCountRenderer scale={zoom} />
 
+                  {/* Line intercept test lines and intersections */}
+                  <LineInterceptRenderer scale={zoom} />
+
                   {/* Lasso selection (point count mode or Shift+Drag spot selection) */}
                   {lasso.isDrawing && lasso.lassoPoints.length > 0 && (
                     <LassoRenderer points={lasso.lassoPoints} scale={zoom} />
                   )}
+
+                  {/* Click-to-segment prompt and grain preview */}
+                  {activeTool === 'segment' && (
+                    <PromptSegmentationRenderer
+                      outline={promptSegmentation.grain?.points ?? null}
+                      prompt={promptSegmentation.prompt}
+                      dragBox={promptSegmentation.dragBox}
+                      scale={zoom}
+                    />
+                  )}
+
+                  {/* Magic wand clicks and region preview */}
+                  {activeTool === 'magic-wand' && (
+                    <PromptSegmentationRenderer
+                      outline={magicWand.region?.points ?? null}
+                      prompt={magicWandPrompt}
+                      dragBox={null}
+                      scale={zoom}
+                    />
+                  )}
                 </Layer>
 
                 {/* Sketch Layers - freeform annotations (above spots, below drawing) */}
@@ -2601,6 +3007,67 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
                 </Typography>
               </Box>
             )}
+
+            {/* Click-to-segment hint and status */}
+            {activeTool === 'segment' && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  bottom: 16,
+                  left: '50%',
+                  transform: 'translateX(-50%)',
+                  zIndex: 1000,
+                  bgcolor: 'rgba(0, 0, 0, 0.75)',
+                  px: 2,
+                  py: 1,
+                  borderRadius: 2,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1.5,
+                  pointerEvents: 'none',
+                }}
+              >
+                {promptSegmentation.status === 'running' && <CircularProgress size={16} sx={{ color: '#ffffff' }} />}
+                <Typography
+                  variant="body2"
+                  sx={{ color: promptSegmentation.status === 'error' ? '#ff8a80' : '#ffffff' }}
+                >
+                  {promptSegmentation.message ||
+                    (promptSegmentation.grain
+                      ? `Grain found (${Math.round(promptSegmentation.grain.confidence * 100)}%). Shift+click to add, Shift+Alt+click to remove, Enter to keep, Esc to discard`
+                      : 'Click a grain or drag a box around it')}
+                </Typography>
+              </Box>
+            )}
+
+            {/* Magic wand hint and status */}
+            {activeTool === 'magic-wand' && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  bottom: 16,
+                  left: '50%',
+                  transform: 'translateX(-50%)',
+                  zIndex: 1000,
+                  bgcolor: 'rgba(0, 0, 0, 0.75)',
+                  px: 2,
+                  py: 1,
+                  borderRadius: 2,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1.5,
+                  pointerEvents: 'none',
+                }}
+              >
+                {magicWand.status === 'running' && <CircularProgress size={16} sx={{ color: '#ffffff' }} />}
+                <Typography variant="body2" sx={{ color: magicWand.status === 'error' ? '#ff8a80' : '#ffffff' }}>
+                  {magicWand.message ||
+                    (magicWand.region
+                      ? 'Shift+click to add, Alt+click to subtract, Enter to create spot, Esc to discard'
+                      : 'Click inside a grain to select similar colors around it')}
+                </Typography>
+              </Box>
+            )}
           </>
         )}
 
@@ -2662,6 +3129,39 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           onSplitSpot={(spot) => {
             setSplitModeSpotId(spot.id);
           }}
+          onDrawHole={(spot) => {
+            setHoleModeSpotId(spot.id);
+          }}
+          onSubtractSpots={(spot) => {
+            // Cut all other selected spots out of the right-clicked spot
+            const otherIds = selectedSpotIds.filter(id => id !== spot.id);
+            if (activeSpotId && activeSpotId !== spot.id && !otherIds.includes(activeSpotId)) {
+              otherIds.push(activeSpotId);
+            }
+            if (otherIds.length > 0 && !useAppStore.getState().subtractSpots(spot.id, otherIds)) {
+              alert('Failed to subtract spots. Make sure the spots overlap and do not cover the whole spot.');
+            }
+          }}
+          onIntersectSpots={(spot) => {
+            // Keep only the part of the right-clicked spot inside the other selected spots
+            const otherIds = selectedSpotIds.filter(id => id !== spot.id);
+            if (activeSpotId && activeSpotId !== spot.id && !otherIds.includes(activeSpotId)) {
+              otherIds.push(activeSpotId);
+            }
+            if (otherIds.length > 0 && !useAppStore.getState().intersectSpots(spot.id, otherIds)) {
+              alert('Failed to intersect spots. Make sure the spots overlap.');
+            }
+          }}
+          onCleanTopology={() => {
+            // Clean all selected spots + context menu spot
+            const allIds = activeSpotId && !selectedSpotIds.includes(activeSpotId)
+              ? [...selectedSpotIds, activeSpotId]
+              : [...selectedSpotIds];
+            if (contextMenuSpot && !allIds.includes(contextMenuSpot.id)) {
+              allIds.push(contextMenuSpot.id);
+            }
+            setTopologyCleanupSpotIds(allIds);
+          }}
           canMerge={(() => {
             // Check if all selected spots are polygons
             const allIds = activeSpotId && !selectedSpotIds.includes(activeSpotId)
@@ -2685,6 +3185,13 @@ export const TiledViewer = forwardRef<TiledViewerRef, TiledViewerProps>(
           onClose={() => setBatchEditDialogOpen(false)}
         />
 
+        {/* Close Gaps / Remove Overlaps Dialog */}
+        <TopologyCleanupDialog
+          open={topologyCleanupSpotIds !== null}
+          onClose={() => setTopologyCleanupSpotIds(null)}
+          spotIds={topologyCleanupSpotIds ?? []}
+        />
+
         {/* Sketch Text Input Overlay */}
         <SketchTextInput
           visible={textInputVisible}
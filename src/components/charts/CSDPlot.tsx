@@ -0,0 +1,222 @@
+/**
+ * CSD Plot Component
+ *
+ * Canvas-based crystal size distribution plot: ln(population density)
+ * against 3D size, with the least-squares line through the classes.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Box, useTheme } from '@mui/material';
+import type { CSDResults } from '@/services/grainAnalysis/types';
+
+interface CSDPlotProps {
+  /** Stereologically corrected size distribution */
+  csd: CSDResults | null;
+  /** Width of the canvas */
+  width?: number;
+  /** Height of the canvas */
+  height?: number;
+  /** Show grid lines */
+  showGrid?: boolean;
+  /** Show the regression line */
+  showFit?: boolean;
+  /** Optional title */
+  title?: string;
+}
+
+// Colors for points and fit line (same in both themes)
+const POINT_COLOR = 'rgba(66, 133, 244, 0.9)';
+const POINT_STROKE_COLOR = 'rgba(25, 118, 210, 1)';
+const FIT_COLOR = 'rgba(244, 67, 54, 0.9)';
+
+export function CSDPlot({
+  csd,
+  width = 400,
+  height = 250,
+  showGrid = true,
+  showFit = true,
+  title,
+}: CSDPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const theme = useTheme();
+  const isDarkMode = theme.palette.mode === 'dark';
+
+  // Theme-aware colors
+  const textColor = isDarkMode ? '#fff' : '#333';
+  const axisColor = isDarkMode ? 'rgba(255, 255, 255, 0.7)' : 'rgba(0, 0, 0, 0.7)';
+  const gridColor = isDarkMode ? 'rgba(255, 255, 255, 0.2)' : 'rgba(0, 0, 0, 0.15)';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set up for high-DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height);
+
+    // Margins for axes
+    const margin = { top: 30, right: 20, bottom: 50, left: 60 };
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+
+    const points = (csd?.bins ?? [])
+      .filter((bin) => bin.lnPopulationDensity !== null)
+      .map((bin) => ({ x: bin.sizeMid, y: bin.lnPopulationDensity! }));
+
+    if (!csd || points.length === 0) {
+      ctx.fillStyle = textColor;
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Not enough grains for a CSD', width / 2, height / 2);
+      return;
+    }
+
+    // Calculate scales (x from zero, as is usual for CSD plots)
+    const xMax = csd.bins[csd.bins.length - 1].sizeMax * 1.05;
+    let yMin = Math.floor(Math.min(...points.map((p) => p.y)));
+    let yMax = Math.ceil(Math.max(...points.map((p) => p.y)));
+    if (yMin === yMax) {
+      yMin -= 1;
+      yMax += 1;
+    }
+
+    // Transform functions
+    const xScale = (v: number): number => margin.left + (v / xMax) * plotWidth;
+    const yScale = (v: number): number => margin.top + plotHeight - ((v - yMin) / (yMax - yMin)) * plotHeight;
+
+    const yTicks = Math.min(8, yMax - yMin);
+    const tickCount = 5;
+
+    // Draw grid
+    if (showGrid) {
+      ctx.strokeStyle = gridColor;
+      ctx.lineWidth = 1;
+      for (let i = 0; i <= yTicks; i++) {
+        const y = yScale(yMin + (i / yTicks) * (yMax - yMin));
+        ctx.beginPath();
+        ctx.moveTo(margin.left, y);
+        ctx.lineTo(width - margin.right, y);
+        ctx.stroke();
+      }
+      for (let i = 1; i <= tickCount; i++) {
+        const x = xScale((i / tickCount) * xMax);
+        ctx.beginPath();
+        ctx.moveTo(x, margin.top);
+        ctx.lineTo(x, height - margin.bottom);
+        ctx.stroke();
+      }
+    }
+
+    // Draw regression line, clipped to the plot area
+    if (showFit && csd.slope !== null && csd.intercept !== null) {
+      const fitX1 = points[0].x;
+      const fitX2 = points[points.length - 1].x;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(margin.left, margin.top, plotWidth, plotHeight);
+      ctx.clip();
+      ctx.strokeStyle = FIT_COLOR;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(xScale(fitX1), yScale(csd.intercept + csd.slope * fitX1));
+      ctx.lineTo(xScale(fitX2), yScale(csd.intercept + csd.slope * fitX2));
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw points
+    for (const point of points) {
+      ctx.beginPath();
+      ctx.arc(xScale(point.x), yScale(point.y), 5, 0, Math.PI * 2);
+      ctx.fillStyle = POINT_COLOR;
+      ctx.fill();
+      ctx.strokeStyle = POINT_STROKE_COLOR;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    // Draw axes
+    ctx.strokeStyle = axisColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(margin.left, margin.top);
+    ctx.lineTo(margin.left, height - margin.bottom);
+    ctx.lineTo(width - margin.right, height - margin.bottom);
+    ctx.stroke();
+
+    // X-axis labels
+    ctx.fillStyle = textColor;
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    for (let i = 0; i <= tickCount; i++) {
+      const tickValue = (i / tickCount) * xMax;
+      const x = xScale(tickValue);
+
+      ctx.beginPath();
+      ctx.moveTo(x, height - margin.bottom);
+      ctx.lineTo(x, height - margin.bottom + 5);
+      ctx.stroke();
+
+      ctx.fillText(tickValue < 1 ? tickValue.toFixed(2) : tickValue.toFixed(1), x, height - margin.bottom + 18);
+    }
+
+    // X-axis title
+    ctx.font = 'bold 15px system-ui, sans-serif';
+    ctx.fillText('Size, long axis (mm)', width / 2, height - 5);
+
+    // Y-axis labels
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.textAlign = 'right';
+    for (let i = 0; i <= yTicks; i++) {
+      const value = yMin + (i / yTicks) * (yMax - yMin);
+      const y = yScale(value);
+
+      ctx.beginPath();
+      ctx.moveTo(margin.left - 5, y);
+      ctx.lineTo(margin.left, y);
+      ctx.stroke();
+
+      ctx.fillText(value.toFixed(0), margin.left - 8, y + 4);
+    }
+
+    // Y-axis title
+    ctx.save();
+    ctx.translate(15, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 15px system-ui, sans-serif';
+    ctx.fillText('ln(n) (mm⁻⁴)', 0, 0);
+    ctx.restore();
+
+    // Title
+    if (title) {
+      ctx.font = 'bold 16px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(title, width / 2, 15);
+    }
+
+  }, [csd, width, height, showGrid, showFit, title, textColor, axisColor, gridColor]);
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          display: 'block',
+          maxWidth: '100%',
+        }}
+      />
+    </Box>
+  );
+}
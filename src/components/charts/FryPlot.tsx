@@ -0,0 +1,147 @@
+/**
+ * Fry Plot Component
+ *
+ * Canvas-based Fry plot: center-to-center separations of grain centroids
+ * plotted around the origin, with the central vacancy ellipse overlaid.
+ * Drawn in image orientation (x right, y down) so the ellipse matches the
+ * micrograph.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Box, useTheme } from '@mui/material';
+import type { FryEllipse, FryPoint } from '@/services/grainAnalysis/types';
+
+interface FryPlotProps {
+  /** Fry points in image pixels */
+  points: FryPoint[];
+  /** Half-width of the plotted area in image pixels */
+  extent: number;
+  /** Central vacancy ellipse to overlay */
+  ellipse?: FryEllipse | null;
+  /** Size of the plot (width and height) */
+  size?: number;
+  /** Optional title */
+  title?: string;
+}
+
+// Colors (same in both themes)
+const ELLIPSE_COLOR = '#D32F2F';
+
+export function FryPlot({
+  points,
+  extent,
+  ellipse,
+  size = 400,
+  title,
+}: FryPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const theme = useTheme();
+  const isDarkMode = theme.palette.mode === 'dark';
+
+  // Theme-aware colors
+  const textColor = isDarkMode ? '#fff' : '#333';
+  const pointColor = isDarkMode ? 'rgba(255, 255, 255, 0.75)' : 'rgba(0, 0, 0, 0.7)';
+  const gridColor = isDarkMode ? 'rgba(255, 255, 255, 0.3)' : 'rgba(128, 128, 128, 0.3)';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set up for high-DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size * dpr;
+    canvas.height = size * dpr;
+    canvas.style.width = `${size}px`;
+    canvas.style.height = `${size}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.clearRect(0, 0, size, size);
+
+    const center = size / 2;
+    const radius = size / 2 - 20;
+
+    if (points.length === 0 || extent <= 0) {
+      ctx.fillStyle = textColor;
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Not enough centroids', center, center);
+      return;
+    }
+
+    const scale = radius / extent;
+
+    // Frame and center cross
+    ctx.strokeStyle = gridColor;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(center - radius, center - radius, radius * 2, radius * 2);
+    ctx.beginPath();
+    ctx.moveTo(center - radius, center);
+    ctx.lineTo(center + radius, center);
+    ctx.moveTo(center, center - radius);
+    ctx.lineTo(center, center + radius);
+    ctx.stroke();
+
+    // Fry points
+    ctx.fillStyle = pointColor;
+    const dotSize = points.length > 20000 ? 1 : 2;
+    for (const point of points) {
+      const x = center + point.dx * scale;
+      const y = center + point.dy * scale;
+      if (Math.abs(x - center) > radius || Math.abs(y - center) > radius) continue;
+      ctx.fillRect(x - dotSize / 2, y - dotSize / 2, dotSize, dotSize);
+    }
+
+    // Vacancy ellipse with its long axis
+    if (ellipse && ellipse.semiMajor > 0 && ellipse.semiMinor > 0) {
+      const rotation = (ellipse.orientation * Math.PI) / 180;
+      ctx.strokeStyle = ELLIPSE_COLOR;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.ellipse(center, center, ellipse.semiMajor * scale, ellipse.semiMinor * scale, rotation, 0, 2 * Math.PI);
+      ctx.stroke();
+
+      const axisLength = Math.min(radius, ellipse.semiMajor * scale * 1.4);
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(center - axisLength * Math.cos(rotation), center - axisLength * Math.sin(rotation));
+      ctx.lineTo(center + axisLength * Math.cos(rotation), center + axisLength * Math.sin(rotation));
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.font = '11px system-ui, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillStyle = ELLIPSE_COLOR;
+      ctx.fillText(
+        `Rs: ${(ellipse.semiMajor / ellipse.semiMinor).toFixed(2)}  ${ellipse.orientation.toFixed(0)}°`,
+        5,
+        size - 5
+      );
+    }
+
+    // Title
+    if (title) {
+      ctx.fillStyle = textColor;
+      ctx.font = 'bold 13px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(title, center, 13);
+    }
+
+  }, [points, extent, ellipse, size, title, textColor, pointColor, gridColor]);
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          display: 'block',
+          maxWidth: '100%',
+        }}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,222 @@
+/**
+ * Rf/φ Plot Component
+ *
+ * Canvas-based Rf/φ scatter plot for strain analysis: grain axial ratio
+ * (log scale) against long-axis orientation relative to the vector mean,
+ * with theta curves for the best-fit strain ratio.
+ */
+
+import { useEffect, useRef, useMemo } from 'react';
+import { Box, useTheme } from '@mui/material';
+import type { RfPhiResults } from '@/services/grainAnalysis/types';
+import { generateThetaCurves } from '@/services/grainAnalysis/rfPhi';
+
+interface RfPhiPlotProps {
+  /** Rf/φ analysis results */
+  results: RfPhiResults | null;
+  /** Width of the canvas */
+  width?: number;
+  /** Height of the canvas */
+  height?: number;
+  /** Show grid lines */
+  showGrid?: boolean;
+  /** Show theta curves for the best-fit strain ratio */
+  showThetaCurves?: boolean;
+  /** Optional title */
+  title?: string;
+}
+
+// Colors for points and curves (same in both themes)
+const POINT_COLOR = 'rgba(66, 133, 244, 0.8)';
+const POINT_STROKE_COLOR = 'rgba(25, 118, 210, 1)';
+const THETA_CURVE_COLOR = 'rgba(244, 67, 54, 0.6)';
+
+export function RfPhiPlot({
+  results,
+  width = 400,
+  height = 250,
+  showGrid = true,
+  showThetaCurves = true,
+  title,
+}: RfPhiPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const theme = useTheme();
+  const isDarkMode = theme.palette.mode === 'dark';
+
+  // Theme-aware colors
+  const textColor = isDarkMode ? '#fff' : '#333';
+  const axisColor = isDarkMode ? 'rgba(255, 255, 255, 0.7)' : 'rgba(0, 0, 0, 0.7)';
+  const gridColor = isDarkMode ? 'rgba(255, 255, 255, 0.2)' : 'rgba(0, 0, 0, 0.15)';
+
+  // Y range: Rf from 1 up to the next whole number above the largest ratio
+  const yMax = useMemo(() => {
+    if (!results || results.points.length === 0) return 2;
+    return Math.max(2, Math.ceil(Math.max(...results.points.map((p) => p.rf))));
+  }, [results]);
+
+  const thetaCurves = useMemo(() => {
+    if (!results?.strainRatio || !showThetaCurves) return [];
+    return generateThetaCurves(results.strainRatio, yMax);
+  }, [results, showThetaCurves, yMax]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set up for high-DPI displays
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.clearRect(0, 0, width, height);
+
+    // Margins for axes
+    const margin = { top: 30, right: 20, bottom: 50, left: 60 };
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+
+    if (!results || results.points.length === 0) {
+      ctx.fillStyle = textColor;
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('No data to display', width / 2, height / 2);
+      return;
+    }
+
+    // Transform functions (log scale for Rf)
+    const logMax = Math.log(yMax);
+    const xScale = (phi: number): number => margin.left + ((phi + 90) / 180) * plotWidth;
+    const yScale = (rf: number): number => margin.top + plotHeight - (Math.log(rf) / logMax) * plotHeight;
+
+    // Y ticks at whole ratios (thinned for large ranges)
+    const yTickStep = yMax > 10 ? Math.ceil(yMax / 10) : 1;
+    const yTicks: number[] = [1];
+    for (let v = 1 + yTickStep; v <= yMax; v += yTickStep) yTicks.push(v);
+    const xTicks = [-90, -60, -30, 0, 30, 60, 90];
+
+    // Draw grid
+    if (showGrid) {
+      ctx.strokeStyle = gridColor;
+      ctx.lineWidth = 1;
+      for (const v of yTicks) {
+        ctx.beginPath();
+        ctx.moveTo(margin.left, yScale(v));
+        ctx.lineTo(width - margin.right, yScale(v));
+        ctx.stroke();
+      }
+      for (const v of xTicks) {
+        ctx.beginPath();
+        ctx.moveTo(xScale(v), margin.top);
+        ctx.lineTo(xScale(v), height - margin.bottom);
+        ctx.stroke();
+      }
+    }
+
+    // Draw theta curves, breaking where a curve wraps across ±90°
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(margin.left, margin.top, plotWidth, plotHeight);
+    ctx.clip();
+    ctx.strokeStyle = THETA_CURVE_COLOR;
+    ctx.lineWidth = 1;
+    for (const curve of thetaCurves) {
+      ctx.beginPath();
+      curve.points.forEach((point, i) => {
+        const x = xScale(point.phi);
+        const y = yScale(point.rf);
+        if (i === 0 || Math.abs(point.phi - curve.points[i - 1].phi) > 90) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    // Draw points
+    for (const point of results.points) {
+      ctx.beginPath();
+      ctx.arc(xScale(point.phi), yScale(point.rf), 3.5, 0, Math.PI * 2);
+      ctx.fillStyle = POINT_COLOR;
+      ctx.fill();
+      ctx.strokeStyle = POINT_STROKE_COLOR;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    // Draw axes
+    ctx.strokeStyle = axisColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(margin.left, margin.top);
+    ctx.lineTo(margin.left, height - margin.bottom);
+    ctx.lineTo(width - margin.right, height - margin.bottom);
+    ctx.stroke();
+
+    // X-axis labels
+    ctx.fillStyle = textColor;
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    for (const v of xTicks) {
+      const x = xScale(v);
+      ctx.beginPath();
+      ctx.moveTo(x, height - margin.bottom);
+      ctx.lineTo(x, height - margin.bottom + 5);
+      ctx.stroke();
+      ctx.fillText(`${v}°`, x, height - margin.bottom + 18);
+    }
+
+    // X-axis title
+    ctx.font = 'bold 15px system-ui, sans-serif';
+    ctx.fillText('φ (from vector mean)', width / 2, height - 5);
+
+    // Y-axis labels
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.textAlign = 'right';
+    for (const v of yTicks) {
+      const y = yScale(v);
+      ctx.beginPath();
+      ctx.moveTo(margin.left - 5, y);
+      ctx.lineTo(margin.left, y);
+      ctx.stroke();
+      ctx.fillText(v.toString(), margin.left - 8, y + 4);
+    }
+
+    // Y-axis title
+    ctx.save();
+    ctx.translate(15, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 15px system-ui, sans-serif';
+    ctx.fillText('Rf', 0, 0);
+    ctx.restore();
+
+    // Title
+    if (title) {
+      ctx.font = 'bold 16px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(title, width / 2, 15);
+    }
+
+  }, [results, thetaCurves, yMax, width, height, showGrid, title, textColor, axisColor, gridColor]);
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          display: 'block',
+          maxWidth: '100%',
+        }}
+      />
+    </Box>
+  );
+}
@@ -3,11 +3,17 @@
  *
  * Circular histogram for orientation data (0-180° axial data).
  * Shows distribution of grain orientations with mean direction indicator.
+ *
+ * Drawn in the convention of the reference frame: geographic trends clockwise
+ * from north at the top, fabric angles counterclockwise from the first axis.
+ * Image angles are drawn with 0° at the top and increasing clockwise by
+ * default, or from horizontal as on the micrograph (see imageZeroAt).
  */
 
 import { useEffect, useRef, useMemo } from 'react';
 import { Box, useTheme } from '@mui/material';
 import { generateRoseSectors, calculateCircularMean, calculateCircularStdDev } from '@/services/grainAnalysis/statistics';
+import type { FabricPlane, ReferenceFrame } from '@/services/orientation/types';
 
 interface RoseDiagramProps {
   /** Array of orientation values in degrees (0-180) */
@@ -20,6 +26,33 @@ interface RoseDiagramProps {
   showMean?: boolean;
   /** Optional title */
   title?: string;
+  /** Reference frame the orientations are in */
+  frame?: ReferenceFrame;
+  /** Section plane, for labelling the fabric frame axes */
+  fabricPlane?: FabricPlane | null;
+  /** Where 0° is drawn for image-frame orientations (both increase clockwise) */
+  imageZeroAt?: 'top' | 'horizontal';
+}
+
+/** Canvas angle (radians, y down) at which an orientation is drawn */
+function canvasAngle(degrees: number, frame: ReferenceFrame, imageZeroAt: 'top' | 'horizontal'): number {
+  switch (frame) {
+    case 'geographic':
+      return ((degrees - 90) * Math.PI) / 180;
+    case 'fabric':
+      return (-degrees * Math.PI) / 180;
+    default:
+      return imageZeroAt === 'top' ? ((degrees - 90) * Math.PI) / 180 : (degrees * Math.PI) / 180;
+  }
+}
+
+/** Label for a tick angle; cardinal directions and fabric axes by name */
+function tickLabel(degrees: number, frame: ReferenceFrame, fabricPlane?: FabricPlane | null): string {
+  if (frame === 'geographic' && degrees === 0) return 'N';
+  if (frame === 'geographic' && degrees === 90) return 'E';
+  if (frame === 'fabric' && fabricPlane && degrees === 0) return fabricPlane[0];
+  if (frame === 'fabric' && fabricPlane && degrees === 90) return fabricPlane[1];
+  return `${degrees}°`;
 }
 
 // Colors (same in both themes)
@@ -33,6 +66,9 @@ export function RoseDiagram({
   sectorCount = 18, // 10° sectors
   showMean = true,
   title,
+  frame = 'image',
+  fabricPlane,
+  imageZeroAt = 'top',
 }: RoseDiagramProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const theme = useTheme();
@@ -124,8 +160,10 @@ export function RoseDiagram({
       if (sector.count === 0) continue;
 
       const radius = (sector.count / maxCount) * maxRadius;
-      const startAngle = ((sector.angleMin - 90) * Math.PI) / 180;
-      const endAngle = ((sector.angleMax - 90) * Math.PI) / 180;
+      const a1 = canvasAngle(sector.angleMin, frame, imageZeroAt);
+      const a2 = canvasAngle(sector.angleMax, frame, imageZeroAt);
+      const startAngle = Math.min(a1, a2);
+      const endAngle = Math.max(a1, a2);
 
       // Draw the petal (and its mirror at +180°)
       for (const offset of [0, Math.PI]) {
@@ -143,7 +181,7 @@ export function RoseDiagram({
 
     // Draw mean direction indicator
     if (showMean && circularStats.resultantLength > 0.1) {
-      const meanRad = ((circularStats.mean - 90) * Math.PI) / 180;
+      const meanRad = canvasAngle(circularStats.mean, frame, imageZeroAt);
       const indicatorLength = maxRadius + 15;
 
       ctx.strokeStyle = MEAN_COLOR;
@@ -151,11 +189,11 @@ export function RoseDiagram({
       ctx.beginPath();
       ctx.moveTo(
         centerX - indicatorLength * Math.cos(meanRad),
-        centerY + indicatorLength * Math.sin(meanRad)
+        centerY - indicatorLength * Math.sin(meanRad)
       );
       ctx.lineTo(
         centerX + indicatorLength * Math.cos(meanRad),
-        centerY - indicatorLength * Math.sin(meanRad)
+        centerY + indicatorLength * Math.sin(meanRad)
       );
       ctx.stroke();
 
@@ -163,18 +201,18 @@ export function RoseDiagram({
       const arrowSize = 8;
       const arrowAngle = 0.5;
       const tipX = centerX + indicatorLength * Math.cos(meanRad);
-      const tipY = centerY - indicatorLength * Math.sin(meanRad);
+      const tipY = centerY + indicatorLength * Math.sin(meanRad);
 
       ctx.beginPath();
       ctx.moveTo(tipX, tipY);
       ctx.lineTo(
         tipX - arrowSize * Math.cos(meanRad - arrowAngle),
-        tipY + arrowSize * Math.sin(meanRad - arrowAngle)
+        tipY - arrowSize * Math.sin(meanRad - arrowAngle)
       );
       ctx.moveTo(tipX, tipY);
       ctx.lineTo(
         tipX - arrowSize * Math.cos(meanRad + arrowAngle),
-        tipY + arrowSize * Math.sin(meanRad + arrowAngle)
+        tipY - arrowSize * Math.sin(meanRad + arrowAngle)
       );
       ctx.stroke();
 
@@ -203,22 +241,13 @@ export function RoseDiagram({
     ctx.textAlign = 'center';
 
     // Cardinal directions
-    const labels = [
-      { angle: 0, label: '0°' },
-      { angle: 30, label: '30°' },
-      { angle: 60, label: '60°' },
-      { angle: 90, label: '90°' },
-      { angle: 120, label: '120°' },
-      { angle: 150, label: '150°' },
-    ];
-
-    for (const { angle, label } of labels) {
-      const rad = ((angle - 90) * Math.PI) / 180;
+    for (const angle of [0, 30, 60, 90, 120, 150]) {
+      const rad = canvasAngle(angle, frame, imageZeroAt);
       const labelRadius = maxRadius + 18;
       ctx.fillText(
-        label,
+        tickLabel(angle, frame, fabricPlane),
         centerX + labelRadius * Math.cos(rad),
-        centerY - labelRadius * Math.sin(rad) + 4
+        centerY + labelRadius * Math.sin(rad) + 4
       );
     }
 
@@ -241,7 +270,7 @@ export function RoseDiagram({
       );
     }
 
-  }, [sectors, orientations.length, circularStats, size, showMean, title, textColor, gridColor]);
+  }, [sectors, orientations.length, circularStats, size, showMean, title, frame, fabricPlane, imageZeroAt, textColor, gridColor]);
 
   return (
     <Box sx={{ position: 'relative' }}>
@@ -4,3 +4,6 @@
 
 export { SizeHistogram } from './SizeHistogram';
 export { RoseDiagram } from './RoseDiagram';
+export { CSDPlot } from './CSDPlot';
+export { RfPhiPlot } from './RfPhiPlot';
+export { FryPlot } from './FryPlot';
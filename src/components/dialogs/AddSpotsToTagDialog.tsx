@@ -23,7 +23,7 @@ import {
   FormControlLabel,
 } from '@mui/material';
 import { ExpandMore, ChevronRight } from '@mui/icons-material';
-import { useAppStore } from '@/store';
+import { useAppStore, runAsHistoryStep } from '@/store';
 import type { Tag, Spot, MicrographMetadata, SampleMetadata } from '@/types/project-types';
 
 interface AddSpotsToTagDialogProps {
@@ -150,12 +150,14 @@ export function AddSpotsToTagDialog({
 
   const handleSubmit = () => {
     // Apply all changes
-    spotChanges.forEach((change) => {
-      if (change.hasTag) {
-        addTagToSpot(tag.id, change.spotId);
-      } else {
-        removeTagFromSpot(tag.id, change.spotId);
-      }
+    runAsHistoryStep(`Assign spots to tag '${tag.name}'`, () => {
+      spotChanges.forEach((change) => {
+        if (change.hasTag) {
+          addTagToSpot(tag.id, change.spotId);
+        } else {
+          removeTagFromSpot(tag.id, change.spotId);
+        }
+      });
     });
 
     onClose();
@@ -1,14 +1,26 @@
 /**
  * AffineRegistrationModal Component
  *
- * Full-screen modal for 3-point registration (affine transform placement).
+ * Full-screen modal for control point registration (affine transform placement).
  * Users click corresponding points on parent and overlay images to compute
  * an affine transformation matrix that maps the overlay onto the parent.
+ * Three points fix the transform exactly; with more, it is fitted by least
+ * squares and each point's residual is reported so mis-clicked points can be
+ * found and removed.
+ *
+ * The same points can instead place the overlay with a projective transform
+ * (oblique photos, 4+ points) or a thin-plate spline warp (distortion that
+ * varies across the image, 3+ points); see utils/placementWarp.ts.
+ *
+ * Auto-Register proposes the points instead: features are matched between
+ * the overlay and the base (or a search region drawn on it) and the
+ * agreeing matches become markers the user can adjust, delete or discard;
+ * see services/autoRegistration.
  *
  * Layout:
- * - Toolbar at top with Pan/Point/Reset tools
+ * - Toolbar at top with Pan/Point/Region/Reset tools, Auto-Register and the transform type
  * - Base and Overlay panels side-by-side
- * - Preview pane at bottom showing live composite
+ * - Preview pane at bottom showing live composite, with the residual table
  */
 
 import React, { useEffect, useLayoutEffect, useState, useRef, useCallback, useMemo } from 'react';
@@ -25,28 +37,182 @@ import {
   ToggleButton,
   Menu,
   MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import PanToolIcon from '@mui/icons-material/PanTool';
 import AdjustIcon from '@mui/icons-material/Adjust';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
-import { Stage, Layer, Image as KonvaImage, Circle, Line, Group, Text } from 'react-konva';
+import DeleteIcon from '@mui/icons-material/Delete';
+import CropFreeIcon from '@mui/icons-material/CropFree';
+import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown';
+import CheckIcon from '@mui/icons-material/Check';
+import { Stage, Layer, Image as KonvaImage, Circle, Line, Group, Text, Rect } from 'react-konva';
 import Konva from 'konva';
 import { useAppStore } from '@/store';
+import { findMicrographById } from '@/store/helpers';
 import { getEffectiveTheme } from '@/hooks/useTheme';
 import {
   computeAffineMatrix,
   arePointsCollinear,
   checkPointDistribution,
-  computeTransformedBounds,
   type ControlPoint,
   type AffineMatrix,
 } from '@/utils/affineTransform';
+import {
+  MIN_CONTROL_POINTS,
+  WARP_PLACEMENT_LABELS,
+  computeWarpBounds,
+  computeWarpResiduals,
+  fitPlacementWarp,
+  warpPoint,
+  type PlacementWarp,
+  type WarpPlacementType,
+} from '@/utils/placementWarp';
+import { loadImageAsImageData } from '@/utils/imageUtils';
+import {
+  DEFAULT_AUTO_REGISTRATION_SETTINGS,
+  runAutoRegistration,
+  type AutoRegistrationSettings,
+  type FeatureDetector,
+  type FeatureImage,
+  type RegistrationProposal,
+} from '@/services/autoRegistration';
 
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 10;
 const ZOOM_STEP = 1.1;
 const MARKER_RADIUS = 10;
 const CROSSHAIR_SIZE = 16;
+const RESIDUAL_PANEL_WIDTH = 280;
+/** Grid cells per side of the triangle mesh a non-affine preview is drawn with */
+const PREVIEW_MESH_CELLS = 32;
+/** Largest side (working pixels) of the images features are matched in */
+const AUTO_REGISTRATION_SIZE = 1024;
+/** Smallest search region side, in screen pixels; smaller drags clear the region */
+const MIN_SEARCH_REGION_SIZE = 8;
+
+const FEATURE_DETECTOR_LABELS: Record<FeatureDetector, string> = {
+  orb: 'ORB (fast)',
+  akaze: 'AKAZE (more robust)',
+};
+
+const PLACEMENT_TYPE_HELP: Record<WarpPlacementType, string> = {
+  affine: 'Shift, rotation, scale and shear (3+ points)',
+  homography: 'Perspective, for oblique photos such as through the eyepiece (4+ points)',
+  thinPlateSpline: 'Smooth warp through every point, for distortion such as SEM scan drift (3+ points)',
+};
+
+const MARKER_COLORS = {
+  selected: '#ffeb3b',
+  outlier: '#f44336',
+  complete: '#4caf50',
+  incomplete: '#ff9800',
+};
+
+/**
+ * Draw one triangle of an image with the affine map taking its source corners
+ * (image pixels) onto its destination corners.
+ */
+function drawImageTriangle(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  src: Array<[number, number]>,
+  dst: Array<[number, number]>
+) {
+  const [[x0, y0], [x1, y1], [x2, y2]] = src;
+  const [[u0, v0], [u1, v1], [u2, v2]] = dst;
+  const det = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+  if (Math.abs(det) < 1e-9) return;
+
+  const a = ((u1 - u0) * (y2 - y0) - (u2 - u0) * (y1 - y0)) / det;
+  const b = ((u2 - u0) * (x1 - x0) - (u1 - u0) * (x2 - x0)) / det;
+  const c = ((v1 - v0) * (y2 - y0) - (v2 - v0) * (y1 - y0)) / det;
+  const d = ((v2 - v0) * (x1 - x0) - (v1 - v0) * (x2 - x0)) / det;
+
+  // Grow the clip slightly about the centroid so neighboring triangles meet without seams
+  const cx = (u0 + u1 + u2) / 3;
+  const cy = (v0 + v1 + v2) / 3;
+  ctx.save();
+  ctx.beginPath();
+  dst.forEach(([u, v], i) => {
+    const length = Math.hypot(u - cx, v - cy) || 1;
+    const grow = 1 + 1 / length;
+    const px = cx + (u - cx) * grow;
+    const py = cy + (v - cy) * grow;
+    if (i === 0) ctx.moveTo(px, py);
+    else ctx.lineTo(px, py);
+  });
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, c, b, d, u0 - a * x0 - b * y0, v0 - c * x0 - d * y0);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Draw an overlay image warped into parent pixels. Canvas transforms are
+ * affine only, so projective and spline warps are drawn as a mesh of small
+ * triangles that are each mapped affinely.
+ */
+function drawWarpedImage(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  warp: PlacementWarp
+) {
+  if (warp.type === 'affine') {
+    const [a, b, tx, c, d, ty] = warp.matrix;
+    ctx.save();
+    // Apply affine transform: x' = a*x + b*y + tx, y' = c*x + d*y + ty
+    // Canvas setTransform uses: x' = a*x + c*y + e, y' = b*x + d*y + f
+    // So we need to map: canvas(a,b,c,d,e,f) = our(a, c, b, d, tx, ty)
+    ctx.transform(a, c, b, d, tx, ty);
+    ctx.drawImage(image, 0, 0, width, height);
+    ctx.restore();
+    return;
+  }
+
+  const cells = PREVIEW_MESH_CELLS;
+  const imageScaleX = image.width / width;
+  const imageScaleY = image.height / height;
+  const source = (i: number, j: number): [number, number] => [(i * width) / cells, (j * height) / cells];
+  const target: Array<Array<[number, number]>> = [];
+  for (let j = 0; j <= cells; j++) {
+    const row: Array<[number, number]> = [];
+    for (let i = 0; i <= cells; i++) {
+      const [x, y] = source(i, j);
+      row.push(warpPoint(warp, x, y));
+    }
+    target.push(row);
+  }
+
+  const inImage = ([x, y]: [number, number]): [number, number] => [x * imageScaleX, y * imageScaleY];
+  for (let j = 0; j < cells; j++) {
+    for (let i = 0; i < cells; i++) {
+      drawImageTriangle(
+        ctx,
+        image,
+        [source(i, j), source(i + 1, j), source(i, j + 1)].map(inImage),
+        [target[j][i], target[j][i + 1], target[j + 1][i]]
+      );
+      drawImageTriangle(
+        ctx,
+        image,
+        [source(i + 1, j), source(i + 1, j + 1), source(i, j + 1)].map(inImage),
+        [target[j][i + 1], target[j + 1][i + 1], target[j + 1][i]]
+      );
+    }
+  }
+}
 
 interface AffineRegistrationModalProps {
   open: boolean;
@@ -57,13 +223,21 @@ interface AffineRegistrationModalProps {
   overlayHeight: number;
   overlayImageHash?: string;
   existingControlPoints?: ControlPoint[];
+  /** Transform type of an existing placement, to reopen it as it was */
+  existingPlacementType?: WarpPlacementType;
+  /**
+   * Called with the fitted placement. affineMatrix is always the
+   * least-squares affine of the points; warp is the transform actually
+   * chosen (the same matrix for affine placement).
+   */
   onApply: (
     affineMatrix: AffineMatrix,
     controlPoints: ControlPoint[],
     boundsOffset: { x: number; y: number },
     transformedWidth: number,
     transformedHeight: number,
-    tileHash: string
+    tileHash: string,
+    warp: PlacementWarp
   ) => void;
 }
 
@@ -78,7 +252,14 @@ interface PointMarker {
   overlayPoint: { x: number; y: number } | null;
 }
 
-type ToolMode = 'pan' | 'point';
+interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type ToolMode = 'pan' | 'point' | 'region';
 type ClickTarget = 'parent' | 'overlay';
 
 export function AffineRegistrationModal({
@@ -90,6 +271,7 @@ export function AffineRegistrationModal({
   overlayHeight: _overlayHeight,
   overlayImageHash,
   existingControlPoints,
+  existingPlacementType,
   onApply,
 }: AffineRegistrationModalProps) {
   const project = useAppStore((state) => state.project);
@@ -103,6 +285,10 @@ export function AffineRegistrationModal({
   // Tool mode
   const [toolMode, setToolMode] = useState<ToolMode>('point');
 
+  // Transform the points are fitted with
+  const [placementType, setPlacementType] = useState<WarpPlacementType>('affine');
+  const minPoints = MIN_CONTROL_POINTS[placementType];
+
   // Container refs
   const parentContainerRef = useRef<HTMLDivElement>(null);
   const overlayContainerRef = useRef<HTMLDivElement>(null);
@@ -182,6 +368,18 @@ export function AffineRegistrationModal({
   // Validation warnings
   const [warning, setWarning] = useState<string | null>(null);
 
+  // Auto-registration: area of the base to search, and the last proposal
+  const [searchRegion, setSearchRegion] = useState<ImageRegion | null>(null);
+  const [regionDragStart, setRegionDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [autoSettings, setAutoSettings] = useState<AutoRegistrationSettings>(DEFAULT_AUTO_REGISTRATION_SETTINGS);
+  const [autoMenuAnchor, setAutoMenuAnchor] = useState<HTMLElement | null>(null);
+  const [isAutoRegistering, setIsAutoRegistering] = useState(false);
+  const [autoProposal, setAutoProposal] = useState<{
+    proposal: RegistrationProposal;
+    /** Markers before the proposal replaced them, restored on discard */
+    previousMarkers: PointMarker[];
+  } | null>(null);
+
   // Count complete point pairs
   const completePairs = markers.filter(
     (m) => m.parentPoint !== null && m.overlayPoint !== null
@@ -198,26 +396,61 @@ export function AffineRegistrationModal({
   const activePanel: 'parent' | 'overlay' = nextClickTarget;
 
   // Check if we can apply
-  const canApply = completePairs >= 3;
+  const canApply = completePairs >= minPoints;
 
-  // Compute affine matrix when we have 3+ points
-  const computedMatrix = useMemo((): AffineMatrix | null => {
-    if (completePairs < 3) return null;
+  // Complete point pairs, in marker order
+  const completeMarkers = useMemo(
+    () => markers.filter((m) => m.parentPoint !== null && m.overlayPoint !== null),
+    [markers]
+  );
 
-    const controlPoints = markers
-      .filter((m) => m.parentPoint && m.overlayPoint)
-      .slice(0, 3)
-      .map((m) => ({
+  const controlPoints = useMemo(
+    (): ControlPoint[] =>
+      completeMarkers.map((m) => ({
         source: [m.overlayPoint!.x, m.overlayPoint!.y] as [number, number],
         target: [m.parentPoint!.x, m.parentPoint!.y] as [number, number],
-      }));
+      })),
+    [completeMarkers]
+  );
+
+  // Compute affine matrix from all pairs (least squares beyond 3)
+  const computedMatrix = useMemo((): AffineMatrix | null => {
+    if (controlPoints.length < 3) return null;
 
     try {
       return computeAffineMatrix(controlPoints);
     } catch {
       return null;
     }
-  }, [markers, completePairs]);
+  }, [controlPoints]);
+
+  // The chosen transform fitted to all pairs
+  const fittedWarp = useMemo((): PlacementWarp | null => {
+    if (placementType === 'affine') {
+      return computedMatrix ? { type: 'affine', matrix: computedMatrix } : null;
+    }
+    if (!computedMatrix || controlPoints.length < MIN_CONTROL_POINTS[placementType]) return null;
+
+    try {
+      return fitPlacementWarp(placementType, controlPoints);
+    } catch {
+      return null;
+    }
+  }, [placementType, controlPoints, computedMatrix]);
+
+  // Fit error at each pair, keyed by marker id
+  const residualReport = useMemo(() => {
+    if (!fittedWarp) return null;
+    const { residuals, rms } = computeWarpResiduals(controlPoints, fittedWarp);
+    const byMarker = new Map(residuals.map((r) => [completeMarkers[r.index].id, r]));
+    return { residuals, rms, byMarker, outlierCount: residuals.filter((r) => r.isOutlier).length };
+  }, [controlPoints, fittedWarp, completeMarkers]);
+
+  // Parent scale, for reporting residuals in microns
+  const micronsPerPixel = useMemo(() => {
+    const parent = findMicrographById(project, parentMicrographId);
+    return parent?.scalePixelsPerCentimeter ? 10000 / parent.scalePixelsPerCentimeter : null;
+  }, [project, parentMicrographId]);
 
   // Get instruction text
   const getInstructionText = (): string => {
@@ -231,8 +464,15 @@ export function AffineRegistrationModal({
         return 'Now click the same feature on the BASE image.';
       }
     }
-    if (completePairs < 3) {
-      return `Add ${3 - completePairs} more point pair${3 - completePairs > 1 ? 's' : ''} (minimum 3 required).`;
+    if (completePairs < minPoints) {
+      return `Add ${minPoints - completePairs} more point pair${minPoints - completePairs > 1 ? 's' : ''} (minimum ${minPoints} required).`;
+    }
+    if (residualReport && residualReport.outlierCount > 0) {
+      return 'Points in red do not agree with the others. Check or delete them, then click Apply.';
+    }
+    if (autoProposal) {
+      const { inlierCount, matchCount, rms } = autoProposal.proposal;
+      return `Auto-registered: ${inlierCount} of ${matchCount} feature matches agree (RMS ${rms.toFixed(1)} px). Adjust the points or click Apply.`;
     }
     return 'Ready to apply. Add more points for better accuracy, or click Apply.';
   };
@@ -248,12 +488,17 @@ export function AffineRegistrationModal({
         }));
         setMarkers(initialMarkers);
         setNextClickTarget('parent');
+        setPlacementType(existingPlacementType ?? 'affine');
       } else {
         setMarkers([]);
         setNextClickTarget('parent');
+        setPlacementType('affine');
       }
       setSelectedMarkerId(null);
       setWarning(null);
+      setSearchRegion(null);
+      setRegionDragStart(null);
+      setAutoProposal(null);
       setIsLoading(true);
       setToolMode('point');
       // Reset images so they reload and re-center
@@ -266,7 +511,7 @@ export function AffineRegistrationModal({
       setPreviewCompositeImage(null);
       setPreviewCentered(false);
     }
-  }, [open, existingControlPoints]);
+  }, [open, existingControlPoints, existingPlacementType]);
 
   // Handle container resize with ResizeObserver
   useLayoutEffect(() => {
@@ -502,20 +747,26 @@ export function AffineRegistrationModal({
     // Draw parent image at full size
     ctx.drawImage(parentImage, 0, 0, parentImageData.width, parentImageData.height);
 
-    // Draw transformed overlay if we have a valid matrix
-    if (computedMatrix && overlayImageData) {
-      const [a, b, tx, c, d, ty] = computedMatrix;
-
-      ctx.save();
-      // Apply affine transform: x' = a*x + b*y + tx, y' = c*x + d*y + ty
-      // Canvas setTransform uses: x' = a*x + c*y + e, y' = b*x + d*y + f
-      // So we need to map: canvas(a,b,c,d,e,f) = our(a, c, b, d, tx, ty)
-      ctx.transform(a, c, b, d, tx, ty);
-
-      // Draw overlay with transparency
-      ctx.globalAlpha = 0.6;
-      ctx.drawImage(overlayImage, 0, 0, overlayImageData.width, overlayImageData.height);
-      ctx.restore();
+    // Draw transformed overlay if we have a valid fit
+    if (fittedWarp && overlayImageData) {
+      if (fittedWarp.type === 'affine') {
+        // Draw overlay with transparency
+        ctx.globalAlpha = 0.6;
+        drawWarpedImage(ctx, overlayImage, overlayImageData.width, overlayImageData.height, fittedWarp);
+        ctx.globalAlpha = 1;
+      } else {
+        // Mesh triangles overlap slightly, so warp onto a layer first and blend that once
+        const layer = document.createElement('canvas');
+        layer.width = canvas.width;
+        layer.height = canvas.height;
+        const layerCtx = layer.getContext('2d');
+        if (layerCtx) {
+          drawWarpedImage(layerCtx, overlayImage, overlayImageData.width, overlayImageData.height, fittedWarp);
+          ctx.globalAlpha = 0.6;
+          ctx.drawImage(layer, 0, 0);
+          ctx.globalAlpha = 1;
+        }
+      }
     }
 
     // Convert canvas to image
@@ -527,7 +778,7 @@ export function AffineRegistrationModal({
     };
     img.src = dataUrl;
 
-  }, [parentImage, overlayImage, parentImageData, overlayImageData, computedMatrix]);
+  }, [parentImage, overlayImage, parentImageData, overlayImageData, fittedWarp]);
 
   // Center preview when size and image are available
   useEffect(() => {
@@ -551,18 +802,11 @@ export function AffineRegistrationModal({
 
   // Validate points when markers change
   useEffect(() => {
-    if (completePairs < 3) {
+    if (controlPoints.length < minPoints) {
       setWarning(null);
       return;
     }
 
-    const controlPoints = markers
-      .filter((m) => m.parentPoint && m.overlayPoint)
-      .map((m) => ({
-        source: [m.overlayPoint!.x, m.overlayPoint!.y] as [number, number],
-        target: [m.parentPoint!.x, m.parentPoint!.y] as [number, number],
-      }));
-
     if (arePointsCollinear(controlPoints)) {
       setWarning('Warning: Points are nearly collinear. Add points that form a triangle.');
       return;
@@ -580,8 +824,13 @@ export function AffineRegistrationModal({
       }
     }
 
+    if (!fittedWarp) {
+      setWarning(`Warning: Cannot fit a ${WARP_PLACEMENT_LABELS[placementType].toLowerCase()} transform to these points.`);
+      return;
+    }
+
     setWarning(null);
-  }, [markers, completePairs, overlayImageData]);
+  }, [controlPoints, overlayImageData, minPoints, fittedWarp, placementType]);
 
   // Handle point click
   const handlePointClick = useCallback(
@@ -701,6 +950,12 @@ export function AffineRegistrationModal({
             handlePointClick(panel, imageX, imageY);
           }
         }
+      } else if (toolMode === 'region' && panel === 'parent' && parentImageData) {
+        // Start dragging out the area of the base to search
+        const imageX = Math.max(0, Math.min(parentImageData.width, (pointer.x - parentPanel.position.x) / parentPanel.zoom));
+        const imageY = Math.max(0, Math.min(parentImageData.height, (pointer.y - parentPanel.position.y) / parentPanel.zoom));
+        setRegionDragStart({ x: imageX, y: imageY });
+        setSearchRegion({ x: imageX, y: imageY, width: 0, height: 0 });
       }
     },
     [toolMode, parentPanel, overlayPanel, parentImageData, overlayImageData, handlePointClick]
@@ -735,6 +990,19 @@ export function AffineRegistrationModal({
         return;
       }
 
+      // Handle search region dragging
+      if (regionDragStart && panel === 'parent' && parentImageData) {
+        const imageX = Math.max(0, Math.min(parentImageData.width, (pointer.x - parentPanel.position.x) / parentPanel.zoom));
+        const imageY = Math.max(0, Math.min(parentImageData.height, (pointer.y - parentPanel.position.y) / parentPanel.zoom));
+        setSearchRegion({
+          x: Math.min(regionDragStart.x, imageX),
+          y: Math.min(regionDragStart.y, imageY),
+          width: Math.abs(imageX - regionDragStart.x),
+          height: Math.abs(imageY - regionDragStart.y),
+        });
+        return;
+      }
+
       // Handle panning
       if (isPanning && panningPanel === panel && lastPointerPos) {
         const dx = pointer.x - lastPointerPos.x;
@@ -751,7 +1019,7 @@ export function AffineRegistrationModal({
         setLastPointerPos(pointer);
       }
     },
-    [draggingMarker, isPanning, panningPanel, lastPointerPos, parentPanel, overlayPanel]
+    [draggingMarker, regionDragStart, parentImageData, isPanning, panningPanel, lastPointerPos, parentPanel, overlayPanel]
   );
 
   // Handle mouse up
@@ -760,7 +1028,14 @@ export function AffineRegistrationModal({
     setPanningPanel(null);
     setLastPointerPos(null);
     setDraggingMarker(null);
-  }, []);
+
+    // A click without a drag clears the search region
+    if (regionDragStart) {
+      const minSize = MIN_SEARCH_REGION_SIZE / parentPanel.zoom;
+      setSearchRegion((prev) => (prev && prev.width >= minSize && prev.height >= minSize ? prev : null));
+      setRegionDragStart(null);
+    }
+  }, [regionDragStart, parentPanel.zoom]);
 
   // Preview panel wheel zoom
   const handlePreviewWheel = useCallback(
@@ -872,47 +1147,109 @@ export function AffineRegistrationModal({
     setNextClickTarget('parent');
     setSelectedMarkerId(null);
     setWarning(null);
+    setSearchRegion(null);
+    setAutoProposal(null);
   }, []);
 
+  // Propose control points from matched image features
+  const handleAutoRegister = useCallback(async () => {
+    if (!parentImageData || !overlayImageData || !window.api) return;
+
+    setIsAutoRegistering(true);
+    setWarning(null);
+
+    try {
+      // Sample both images at about the same size so features appear at similar scales
+      const sample = async (hash: string, region: ImageRegion): Promise<FeatureImage> => {
+        const loaded = await window.api!.loadImageRegion(hash, region, AUTO_REGISTRATION_SIZE);
+        const imageData = await loadImageAsImageData(loaded.dataUrl);
+        return { imageData, x: loaded.x, y: loaded.y, scale: imageData.width / loaded.regionWidth };
+      };
+      const overlay = await sample(overlayImageData.hash, {
+        x: 0,
+        y: 0,
+        width: overlayImageData.width,
+        height: overlayImageData.height,
+      });
+      const parent = await sample(
+        parentImageData.hash,
+        searchRegion ?? { x: 0, y: 0, width: parentImageData.width, height: parentImageData.height }
+      );
+
+      const proposal = await runAutoRegistration(
+        overlay,
+        parent,
+        overlayImageData.width,
+        overlayImageData.height,
+        autoSettings
+      );
+
+      // Markers are the proposal; keep the previous ones so it can be discarded
+      setAutoProposal((prev) => ({ proposal, previousMarkers: prev ? prev.previousMarkers : markers }));
+      setMarkers(
+        proposal.controlPoints.map((cp, index) => ({
+          id: index + 1,
+          parentPoint: { x: cp.target[0], y: cp.target[1] },
+          overlayPoint: { x: cp.source[0], y: cp.source[1] },
+        }))
+      );
+      setNextClickTarget('parent');
+      setSelectedMarkerId(null);
+      setToolMode('point');
+    } catch (error) {
+      console.error('[AffineRegistration] Auto-registration failed:', error);
+      setWarning(`Auto-registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsAutoRegistering(false);
+    }
+  }, [parentImageData, overlayImageData, searchRegion, autoSettings, markers]);
+
+  // Restore the points placed before auto-registration
+  const handleDiscardProposal = useCallback(() => {
+    if (!autoProposal) return;
+    setMarkers(autoProposal.previousMarkers);
+    setNextClickTarget(
+      autoProposal.previousMarkers.some((m) => m.parentPoint !== null && m.overlayPoint === null) ? 'overlay' : 'parent'
+    );
+    setSelectedMarkerId(null);
+    setAutoProposal(null);
+  }, [autoProposal]);
+
   // Handle Apply
   const handleApply = useCallback(async () => {
-    if (!canApply || !overlayImageData || !computedMatrix) return;
+    if (!canApply || !overlayImageData || !computedMatrix || !fittedWarp) return;
 
     setIsGeneratingTiles(true);
     setWarning(null);
 
     try {
-      const bounds = computeTransformedBounds(overlayImageData.width, overlayImageData.height, computedMatrix);
+      const bounds = computeWarpBounds(fittedWarp, overlayImageData.width, overlayImageData.height);
       const hashToUse = overlayImageHash || overlayImageData.hash;
 
       console.log('[AffineRegistration] Generating tiles...');
+      console.log('[AffineRegistration] Transform:', fittedWarp.type);
       console.log('[AffineRegistration] Matrix:', computedMatrix);
       console.log('[AffineRegistration] Bounds:', bounds);
 
       const result = await window.api?.generateAffineTiles(
         overlayImagePath,
         hashToUse,
-        computedMatrix
+        computedMatrix,
+        fittedWarp
       );
 
       if (!result || !result.success) {
         throw new Error(result?.error || 'Tile generation failed');
       }
 
-      const controlPoints = markers
-        .filter((m) => m.parentPoint && m.overlayPoint)
-        .map((m) => ({
-          source: [m.overlayPoint!.x, m.overlayPoint!.y] as [number, number],
-          target: [m.parentPoint!.x, m.parentPoint!.y] as [number, number],
-        }));
-
       onApply(
         computedMatrix,
         controlPoints,
         { x: bounds.minX, y: bounds.minY },
         Math.ceil(bounds.width),
         Math.ceil(bounds.height),
-        hashToUse
+        hashToUse,
+        fittedWarp
       );
       onClose();
     } catch (error) {
@@ -921,7 +1258,7 @@ export function AffineRegistrationModal({
     } finally {
       setIsGeneratingTiles(false);
     }
-  }, [canApply, overlayImageData, computedMatrix, overlayImagePath, overlayImageHash, markers, onApply, onClose]);
+  }, [canApply, overlayImageData, computedMatrix, fittedWarp, overlayImagePath, overlayImageHash, controlPoints, onApply, onClose]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -942,6 +1279,8 @@ export function AffineRegistrationModal({
         setToolMode('pan');
       } else if (e.key === 'v' || e.key === 'V') {
         setToolMode('point');
+      } else if (e.key === 's' || e.key === 'S') {
+        setToolMode('region');
       }
     };
 
@@ -957,6 +1296,14 @@ export function AffineRegistrationModal({
 
       const isComplete = marker.parentPoint !== null && marker.overlayPoint !== null;
       const isSelected = marker.id === selectedMarkerId;
+      const isOutlier = residualReport?.byMarker.get(marker.id)?.isOutlier ?? false;
+      const color = isSelected
+        ? MARKER_COLORS.selected
+        : isOutlier
+          ? MARKER_COLORS.outlier
+          : isComplete
+            ? MARKER_COLORS.complete
+            : MARKER_COLORS.incomplete;
 
       // Scale marker size inversely with zoom
       const markerScale = 1 / zoom;
@@ -969,19 +1316,19 @@ export function AffineRegistrationModal({
           {/* Crosshair */}
           <Line
             points={[-crosshairSize, 0, crosshairSize, 0]}
-            stroke={isSelected ? '#ffeb3b' : isComplete ? '#4caf50' : '#ff9800'}
+            stroke={color}
             strokeWidth={strokeWidth}
           />
           <Line
             points={[0, -crosshairSize, 0, crosshairSize]}
-            stroke={isSelected ? '#ffeb3b' : isComplete ? '#4caf50' : '#ff9800'}
+            stroke={color}
             strokeWidth={strokeWidth}
           />
           {/* Circle */}
           <Circle
             name={`marker-${marker.id}-${panel}`}
             radius={radius}
-            fill={isSelected ? '#ffeb3b' : isComplete ? '#4caf50' : '#ff9800'}
+            fill={color}
             stroke="white"
             strokeWidth={strokeWidth}
             opacity={0.9}
@@ -1011,7 +1358,8 @@ export function AffineRegistrationModal({
     imageData: { width: number; height: number } | null,
     image: HTMLImageElement | null
   ) => {
-    const isActive = toolMode === 'point' && activePanel === panel;
+    const isRegionTarget = toolMode === 'region' && panel === 'parent';
+    const isActive = (toolMode === 'point' && activePanel === panel) || isRegionTarget;
     const label = panel === 'parent' ? 'BASE' : 'OVERLAY';
 
     return (
@@ -1042,7 +1390,7 @@ export function AffineRegistrationModal({
         >
           <Typography variant="caption" fontWeight="bold">
             {label}
-            {isActive && ' ← Click here'}
+            {isActive && (isRegionTarget ? ' ← Drag around where the overlay sits' : ' ← Click here')}
           </Typography>
         </Box>
         <Box
@@ -1090,6 +1438,19 @@ export function AffineRegistrationModal({
               scaleX={panelState.zoom}
               scaleY={panelState.zoom}
             >
+              {panel === 'parent' && searchRegion && (
+                <Rect
+                  x={searchRegion.x}
+                  y={searchRegion.y}
+                  width={searchRegion.width}
+                  height={searchRegion.height}
+                  stroke="#2196f3"
+                  strokeWidth={2 / panelState.zoom}
+                  dash={[8 / panelState.zoom, 4 / panelState.zoom]}
+                  fill="rgba(33, 150, 243, 0.08)"
+                  listening={false}
+                />
+              )}
               {renderMarkers(panel, panelState.zoom)}
             </Layer>
           </Stage>
@@ -1142,18 +1503,61 @@ export function AffineRegistrationModal({
                   <AdjustIcon fontSize="small" />
                 </Tooltip>
               </ToggleButton>
+              <ToggleButton value="region">
+                <Tooltip title="Search Region Tool (S) - area of the base to auto-register in">
+                  <CropFreeIcon fontSize="small" />
+                </Tooltip>
+              </ToggleButton>
             </ToggleButtonGroup>
           </Box>
 
           <Tooltip title="Reset All Points (R)">
-            <IconButton onClick={handleResetAll} disabled={markers.length === 0} size="small">
-              <RestartAltIcon />
-            </IconButton>
+            <span>
+              <IconButton onClick={handleResetAll} disabled={markers.length === 0 && !searchRegion} size="small">
+                <RestartAltIcon />
+              </IconButton>
+            </span>
           </Tooltip>
 
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Tooltip title={searchRegion ? 'Match features in the search region' : 'Match features across the whole base image'}>
+              <span>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={isAutoRegistering ? <CircularProgress size={16} /> : <AutoFixHighIcon />}
+                  onClick={handleAutoRegister}
+                  disabled={isLoading || isAutoRegistering || !parentImageData || !overlayImageData}
+                >
+                  Auto-Register
+                </Button>
+              </span>
+            </Tooltip>
+            <Tooltip title="Auto-Register Options">
+              <IconButton size="small" onClick={(e) => setAutoMenuAnchor(e.currentTarget)}>
+                <ArrowDropDownIcon />
+              </IconButton>
+            </Tooltip>
+          </Box>
+
           <Typography variant="subtitle2" color="text.secondary">
-            3-Point Registration
+            Control Point Registration
           </Typography>
+
+          <ToggleButtonGroup
+            value={placementType}
+            exclusive
+            onChange={(_, value) => value && setPlacementType(value)}
+            size="small"
+          >
+            {(Object.keys(WARP_PLACEMENT_LABELS) as WarpPlacementType[]).map((type) => (
+              <ToggleButton key={type} value={type} sx={{ textTransform: 'none', py: 0.25 }}>
+                <Tooltip title={PLACEMENT_TYPE_HELP[type]}>
+                  <span>{WARP_PLACEMENT_LABELS[type]}</span>
+                </Tooltip>
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
         </Box>
 
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
@@ -1161,6 +1565,12 @@ export function AffineRegistrationModal({
             {warning || getInstructionText()}
           </Typography>
 
+          {autoProposal && (
+            <Button onClick={handleDiscardProposal} color="inherit" size="small">
+              Discard Proposal
+            </Button>
+          )}
+
           <Button
             variant="contained"
             onClick={handleApply}
@@ -1220,130 +1630,241 @@ export function AffineRegistrationModal({
               )}
             </Box>
 
-            {/* Bottom row: Preview - takes more vertical space for better visibility */}
-            <Box
-              sx={{
-                flex: '1.2 1 0',
-                minHeight: 250,
-                display: 'flex',
-                flexDirection: 'column',
-                border: 1,
-                borderColor: canApply ? 'success.main' : 'divider',
-                borderRadius: 1,
-                overflow: 'hidden',
-              }}
-            >
-              {/* Preview header */}
+            {/* Bottom row: Preview and residuals - takes more vertical space for better visibility */}
+            <Box sx={{ flex: '1.2 1 0', minHeight: 250, display: 'flex', gap: 1, minWidth: 0, overflow: 'hidden' }}>
               <Box
                 sx={{
-                  flexShrink: 0,
-                  px: 1,
-                  py: 0.5,
-                  bgcolor: canApply ? 'success.dark' : 'background.paper',
-                  color: canApply ? 'success.contrastText' : 'text.primary',
-                  borderBottom: 1,
-                  borderColor: 'divider',
+                  flex: '1 1 0',
+                  minWidth: 0,
                   display: 'flex',
-                  alignItems: 'center',
-                  gap: 1,
+                  flexDirection: 'column',
+                  border: 1,
+                  borderColor: canApply ? 'success.main' : 'divider',
+                  borderRadius: 1,
+                  overflow: 'hidden',
                 }}
               >
-                <Typography variant="caption" fontWeight="bold">
-                  PREVIEW
-                  {canApply ? ' (3+ points)' : ` (need ${3 - completePairs} more point${3 - completePairs !== 1 ? 's' : ''})`}
-                </Typography>
-                <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
-                  Scroll to zoom, drag to pan
-                </Typography>
+                {/* Preview header */}
+                <Box
+                  sx={{
+                    flexShrink: 0,
+                    px: 1,
+                    py: 0.5,
+                    bgcolor: canApply ? 'success.dark' : 'background.paper',
+                    color: canApply ? 'success.contrastText' : 'text.primary',
+                    borderBottom: 1,
+                    borderColor: 'divider',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 1,
+                  }}
+                >
+                  <Typography variant="caption" fontWeight="bold">
+                    PREVIEW
+                    {canApply
+                      ? ` (${completePairs} point${completePairs !== 1 ? 's' : ''}${
+                        placementType !== 'thinPlateSpline' && completePairs > minPoints ? ', least squares' : ''
+                      })`
+                      : ` (need ${minPoints - completePairs} more point${minPoints - completePairs !== 1 ? 's' : ''})`}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+                    Scroll to zoom, drag to pan
+                  </Typography>
+                </Box>
+                {/* Preview canvas */}
+                <Box
+                  ref={previewContainerRef}
+                  sx={{
+                    flex: '1 1 0',
+                    width: '100%',
+                    height: '100%',
+                    bgcolor: canvasBgColor,
+                    cursor: 'grab',
+                    minHeight: 0,
+                    position: 'relative',
+                    overflow: 'hidden',
+                  }}
+                >
+                  <Stage
+                    ref={previewStageRef}
+                    width={previewSize.width}
+                    height={previewSize.height}
+                    style={{ display: 'block' }}
+                    onWheel={handlePreviewWheel}
+                    onMouseDown={handlePreviewMouseDown}
+                    onMouseMove={handlePreviewMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                  >
+                    <Layer
+                      x={previewPanel.position.x}
+                      y={previewPanel.position.y}
+                      scaleX={previewPanel.zoom}
+                      scaleY={previewPanel.zoom}
+                    >
+                      {previewCompositeImage && parentImageData && (
+                        <KonvaImage
+                          image={previewCompositeImage}
+                          width={parentImageData.width}
+                          height={parentImageData.height}
+                        />
+                      )}
+                    </Layer>
+                    {/* Markers layer for preview */}
+                    <Layer
+                      x={previewPanel.position.x}
+                      y={previewPanel.position.y}
+                      scaleX={previewPanel.zoom}
+                      scaleY={previewPanel.zoom}
+                    >
+                      {markers.map((marker) => {
+                        if (!marker.parentPoint) return null;
+                        const markerScale = 1 / previewPanel.zoom;
+                        const radius = MARKER_RADIUS * markerScale;
+                        return (
+                          <Group key={`preview-${marker.id}`} x={marker.parentPoint.x} y={marker.parentPoint.y}>
+                            <Circle
+                              radius={radius}
+                              fill="#f44336"
+                              stroke="white"
+                              strokeWidth={2 * markerScale}
+                            />
+                            <Text
+                              text={String(marker.id)}
+                              x={-radius * 0.5}
+                              y={-radius * 0.6}
+                              fontSize={radius * 1.2}
+                              fontStyle="bold"
+                              fill="white"
+                              align="center"
+                            />
+                          </Group>
+                        );
+                      })}
+                    </Layer>
+                  </Stage>
+                  {/* Show message when no preview available */}
+                  {!previewCompositeImage && (
+                    <Box
+                      sx={{
+                        position: 'absolute',
+                        top: 0,
+                        left: 0,
+                        right: 0,
+                        bottom: 0,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      <Typography color="text.secondary">
+                        {isLoading ? 'Loading images...' : 'Add control points to see preview'}
+                      </Typography>
+                    </Box>
+                  )}
+                </Box>
               </Box>
-              {/* Preview canvas */}
+
+              {/* Residuals */}
               <Box
-                ref={previewContainerRef}
                 sx={{
-                  flex: '1 1 0',
-                  width: '100%',
-                  height: '100%',
-                  bgcolor: canvasBgColor,
-                  cursor: 'grab',
-                  minHeight: 0,
-                  position: 'relative',
+                  width: RESIDUAL_PANEL_WIDTH,
+                  flexShrink: 0,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  border: 1,
+                  borderColor: residualReport?.outlierCount ? 'error.main' : 'divider',
+                  borderRadius: 1,
                   overflow: 'hidden',
                 }}
               >
-                <Stage
-                  ref={previewStageRef}
-                  width={previewSize.width}
-                  height={previewSize.height}
-                  style={{ display: 'block' }}
-                  onWheel={handlePreviewWheel}
-                  onMouseDown={handlePreviewMouseDown}
-                  onMouseMove={handlePreviewMouseMove}
-                  onMouseUp={handleMouseUp}
-                  onMouseLeave={handleMouseUp}
+                <Box
+                  sx={{
+                    flexShrink: 0,
+                    px: 1,
+                    py: 0.5,
+                    bgcolor: 'background.paper',
+                    borderBottom: 1,
+                    borderColor: 'divider',
+                  }}
                 >
-                  <Layer
-                    x={previewPanel.position.x}
-                    y={previewPanel.position.y}
-                    scaleX={previewPanel.zoom}
-                    scaleY={previewPanel.zoom}
-                  >
-                    {previewCompositeImage && parentImageData && (
-                      <KonvaImage
-                        image={previewCompositeImage}
-                        width={parentImageData.width}
-                        height={parentImageData.height}
-                      />
-                    )}
-                  </Layer>
-                  {/* Markers layer for preview */}
-                  <Layer
-                    x={previewPanel.position.x}
-                    y={previewPanel.position.y}
-                    scaleX={previewPanel.zoom}
-                    scaleY={previewPanel.zoom}
-                  >
-                    {markers.map((marker) => {
-                      if (!marker.parentPoint) return null;
-                      const markerScale = 1 / previewPanel.zoom;
-                      const radius = MARKER_RADIUS * markerScale;
-                      return (
-                        <Group key={`preview-${marker.id}`} x={marker.parentPoint.x} y={marker.parentPoint.y}>
-                          <Circle
-                            radius={radius}
-                            fill="#f44336"
-                            stroke="white"
-                            strokeWidth={2 * markerScale}
-                          />
-                          <Text
-                            text={String(marker.id)}
-                            x={-radius * 0.5}
-                            y={-radius * 0.6}
-                            fontSize={radius * 1.2}
-                            fontStyle="bold"
-                            fill="white"
-                            align="center"
-                          />
-                        </Group>
-                      );
-                    })}
-                  </Layer>
-                </Stage>
-                {/* Show message when no preview available */}
-                {!previewCompositeImage && (
-                  <Box
-                    sx={{
-                      position: 'absolute',
-                      top: 0,
-                      left: 0,
-                      right: 0,
-                      bottom: 0,
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                    }}
-                  >
-                    <Typography color="text.secondary">
-                      {isLoading ? 'Loading images...' : 'Add control points to see preview'}
+                  <Typography variant="caption" fontWeight="bold">
+                    RESIDUALS
+                  </Typography>
+                </Box>
+                <Box sx={{ flex: '1 1 0', overflow: 'auto', minHeight: 0 }}>
+                  {residualReport ? (
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>#</TableCell>
+                          <TableCell align="right">px</TableCell>
+                          <TableCell align="right">µm</TableCell>
+                          <TableCell padding="checkbox" />
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {completeMarkers.map((marker) => {
+                          const residual = residualReport.byMarker.get(marker.id);
+                          if (!residual) return null;
+                          const cellColor = residual.isOutlier ? 'error.main' : undefined;
+                          return (
+                            <TableRow
+                              key={marker.id}
+                              hover
+                              selected={marker.id === selectedMarkerId}
+                              onClick={() => setSelectedMarkerId(marker.id)}
+                              sx={{ cursor: 'pointer' }}
+                            >
+                              <TableCell sx={{ color: cellColor, fontWeight: residual.isOutlier ? 'bold' : undefined }}>
+                                {marker.id}
+                              </TableCell>
+                              <TableCell align="right" sx={{ color: cellColor }}>
+                                {residual.error.toFixed(2)}
+                              </TableCell>
+                              <TableCell align="right" sx={{ color: cellColor }}>
+                                {micronsPerPixel !== null ? (residual.error * micronsPerPixel).toFixed(2) : '—'}
+                              </TableCell>
+                              <TableCell padding="checkbox">
+                                <Tooltip title={`Delete Point ${marker.id}`}>
+                                  <IconButton
+                                    size="small"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleDeleteMarker(marker.id);
+                                    }}
+                                  >
+                                    <DeleteIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+                      Residuals appear once {minPoints} point pairs are placed.
+                    </Typography>
+                  )}
+                </Box>
+                {residualReport && (
+                  <Box sx={{ flexShrink: 0, px: 1, py: 0.5, borderTop: 1, borderColor: 'divider' }}>
+                    <Typography variant="body2" fontWeight="bold">
+                      RMS: {residualReport.rms.toFixed(2)} px
+                      {micronsPerPixel !== null && ` (${(residualReport.rms * micronsPerPixel).toFixed(2)} µm)`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {placementType === 'thinPlateSpline'
+                        ? 'The spline passes through every point; errors are how far each point is from the spline through the others.'
+                        : completePairs === minPoints
+                          ? `${minPoints === 3 ? 'Three' : 'Four'} points fit exactly. Add more to measure the error.`
+                          : completePairs === minPoints + 1
+                            ? `Add a ${minPoints === 3 ? 'fifth' : 'sixth'} point to check for outliers.`
+                            : residualReport.outlierCount > 0
+                              ? `${residualReport.outlierCount} point${residualReport.outlierCount !== 1 ? 's' : ''} in red disagree${residualReport.outlierCount === 1 ? 's' : ''} with the rest.`
+                              : 'Errors in parent image pixels.'}
                     </Typography>
                   </Box>
                 )}
@@ -1354,7 +1875,7 @@ export function AffineRegistrationModal({
       </Box>
 
       {/* Status bar */}
-      {isGeneratingTiles && (
+      {(isGeneratingTiles || isAutoRegistering) && (
         <Box
           sx={{
             px: 2,
@@ -1365,7 +1886,9 @@ export function AffineRegistrationModal({
           }}
         >
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-            <Typography variant="body2">Generating transformed tiles...</Typography>
+            <Typography variant="body2">
+              {isGeneratingTiles ? 'Generating transformed tiles...' : 'Matching image features...'}
+            </Typography>
             <LinearProgress sx={{ flex: 1 }} />
           </Box>
         </Box>
@@ -1386,6 +1909,24 @@ export function AffineRegistrationModal({
           Delete Point {contextMenu?.markerId}
         </MenuItem>
       </Menu>
+
+      {/* Auto-register options */}
+      <Menu anchorEl={autoMenuAnchor} open={autoMenuAnchor !== null} onClose={() => setAutoMenuAnchor(null)}>
+        {(Object.keys(FEATURE_DETECTOR_LABELS) as FeatureDetector[]).map((detector) => (
+          <MenuItem key={detector} onClick={() => setAutoSettings((prev) => ({ ...prev, detector }))}>
+            <ListItemIcon>{autoSettings.detector === detector && <CheckIcon fontSize="small" />}</ListItemIcon>
+            <ListItemText>{FEATURE_DETECTOR_LABELS[detector]}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={() => setAutoSettings((prev) => ({ ...prev, matchEdges: !prev.matchEdges }))}>
+          <ListItemIcon>{autoSettings.matchEdges && <CheckIcon fontSize="small" />}</ListItemIcon>
+          <ListItemText
+            primary="Match on edges"
+            secondary="For PPL against XPL, or images in different colors"
+          />
+        </MenuItem>
+      </Menu>
     </Dialog>
   );
 }
@@ -0,0 +1,401 @@
+/**
+ * Detection Evaluation Panel
+ *
+ * Accuracy section of the Grain Detection dialog. The user traces grains by
+ * hand inside a polygon spot and picks that spot as the reference region;
+ * the hand-traced polygon spots inside it are the ground truth.
+ *
+ * - The current preview is scored live (IoU matching, precision/recall/F1,
+ *   over/under-segmentation, size distribution bias)
+ * - A parameter sweep runs OpenCV detection over a sensitivity/edge
+ *   contrast grid plus the presets and ranks them
+ * - Any ranked setting can be applied, or saved as a validated preset
+ */
+
+import { useState, useMemo, useRef, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  FormControl,
+  FormLabel,
+  Select,
+  MenuItem,
+  Button,
+  LinearProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TextField,
+  Alert,
+  Tooltip,
+} from '@mui/material';
+import { useAppStore } from '@/store';
+import {
+  type DetectionEvaluation,
+  type DetectionPreset,
+  type DetectionResult,
+  type DetectionSettings,
+  type EvaluationGrain,
+  type SweepResult,
+  DEFAULT_SWEEP_GRID,
+  buildSweepCandidates,
+  evaluateDetection,
+  runParameterSweep,
+} from '@/services/grainDetection';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import type { Spot } from '@/types/project-types';
+import { v4 as uuidv4 } from 'uuid';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DetectionEvaluationPanelProps {
+  micrographId: string | null;
+  /** Detection shown in the preview */
+  result: DetectionResult | null;
+  /** Full-resolution image size (spot coordinate space) */
+  imageWidth: number;
+  imageHeight: number;
+  /** Current OpenCV settings (base for the sweep grid) */
+  settings: DetectionSettings;
+  /** Presets included in the sweep */
+  presets: DetectionPreset[];
+  /** Run OpenCV detection on the preview image; null when a sweep is not possible */
+  detectWithSettings: ((settings: DetectionSettings) => Promise<DetectionResult>) | null;
+  /** Apply a ranked setting to the dialog */
+  onApplySettings: (settings: DetectionSettings, presetId?: string) => void;
+  /** Whether other detection work is running */
+  disabled?: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getSpotOutline(spot: Spot): Array<{ x: number; y: number }> {
+  if (spot.geometry?.type === 'Polygon' && spot.geometry.coordinates) {
+    return ((spot.geometry.coordinates as number[][][])[0] || []).map((c) => ({ x: c[0], y: c[1] }));
+  }
+  return (spot.points || []).map((p) => ({ x: p.X ?? p.x ?? 0, y: p.Y ?? p.y ?? 0 }));
+}
+
+/** Scale detected grains from the detection image to full resolution */
+function toImageGrains(result: DetectionResult, imageWidth: number, imageHeight: number): EvaluationGrain[] {
+  const scaleX = imageWidth / result.imageDimensions.width;
+  const scaleY = imageHeight / result.imageDimensions.height;
+  return result.grains.map((grain) => ({
+    contour: grain.contour.map((p) => ({ x: p.x * scaleX, y: p.y * scaleY })),
+  }));
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signedPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+function EvaluationSummary({ evaluation }: { evaluation: DetectionEvaluation }) {
+  const rows: Array<[string, string]> = [
+    ['Reference grains', String(evaluation.referenceCount)],
+    ['Detected grains', String(evaluation.detectedCount)],
+    ['Matched (IoU ≥ 0.5)', `${evaluation.truePositives} • mean IoU ${evaluation.meanMatchedIoU.toFixed(2)}`],
+    ['Precision / Recall', `${percent(evaluation.precision)} / ${percent(evaluation.recall)}`],
+    ['F1', evaluation.f1.toFixed(3)],
+    ['Over-segmented', `${evaluation.overSegmented} reference grains split`],
+    ['Under-segmented', `${evaluation.underSegmented} detected grains merge several`],
+  ];
+  if (evaluation.sizeBias) {
+    rows.push([
+      'Size bias (ECD)',
+      `mean ${signedPercent(evaluation.sizeBias.meanBiasPercent)}, median ${signedPercent(
+        evaluation.sizeBias.medianBiasPercent
+      )} • KS ${evaluation.sizeBias.ksStatistic.toFixed(2)}`,
+    ]);
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.25 }}>
+      {rows.map(([label, value]) => (
+        <Box key={label} sx={{ display: 'contents' }}>
+          <Typography variant="caption" color="text.secondary">
+            {label}
+          </Typography>
+          <Typography variant="caption">{value}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function DetectionEvaluationPanel({
+  micrographId,
+  result,
+  imageWidth,
+  imageHeight,
+  settings,
+  presets,
+  detectWithSettings,
+  onApplySettings,
+  disabled = false,
+}: DetectionEvaluationPanelProps) {
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const saveGrainDetectionPreset = useAppStore((s) => s.saveGrainDetectionPreset);
+  const micrograph = micrographId ? micrographIndex.get(micrographId) : null;
+
+  const [regionSpotId, setRegionSpotId] = useState<string>('');
+  const [sweepResults, setSweepResults] = useState<SweepResult[] | null>(null);
+  const [sweepProgress, setSweepProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+  const [savingResult, setSavingResult] = useState<SweepResult | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const sweepAbortRef = useRef<AbortController | null>(null);
+
+  // Polygon spots that can serve as the reference region
+  const polygonSpots = useMemo(
+    () => (micrograph?.spots || []).filter((spot) => !spot.archived && isPolygonSpot(spot.geometry, spot.geometryType)),
+    [micrograph]
+  );
+  const regionSpot = polygonSpots.find((spot) => spot.id === regionSpotId) || null;
+  const region = useMemo(() => (regionSpot ? getSpotOutline(regionSpot) : null), [regionSpot]);
+
+  // Hand-traced grains: polygon spots not generated by a tool, other than the region itself
+  const reference = useMemo<EvaluationGrain[]>(
+    () =>
+      polygonSpots
+        .filter((spot) => spot.id !== regionSpotId && (!spot.generationMethod || spot.generationMethod === 'manual'))
+        .map((spot) => ({ contour: getSpotOutline(spot) })),
+    [polygonSpots, regionSpotId]
+  );
+
+  // Forget the region and sweep when switching micrographs
+  useEffect(() => {
+    sweepAbortRef.current?.abort();
+    setRegionSpotId('');
+    setSweepResults(null);
+    setSavingResult(null);
+  }, [micrographId]);
+
+  const evaluation = useMemo(
+    () =>
+      region
+        ? evaluateDetection(result ? toImageGrains(result, imageWidth, imageHeight) : [], reference, region)
+        : null,
+    [region, result, reference, imageWidth, imageHeight]
+  );
+
+  const handleRunSweep = useCallback(async () => {
+    if (!detectWithSettings || !region) return;
+
+    const controller = new AbortController();
+    sweepAbortRef.current = controller;
+    const candidates = buildSweepCandidates(settings, DEFAULT_SWEEP_GRID, presets);
+    setSweepResults(null);
+    setSweepError(null);
+    setSavingResult(null);
+    setSweepProgress({ done: 0, total: candidates.length });
+
+    try {
+      const ranked = await runParameterSweep({
+        candidates,
+        reference,
+        region,
+        detect: async (candidateSettings) =>
+          toImageGrains(await detectWithSettings(candidateSettings), imageWidth, imageHeight),
+        onProgress: (done, total) => setSweepProgress({ done, total }),
+        signal: controller.signal,
+      });
+      setSweepResults(ranked);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('[DetectionEvaluation] Sweep failed:', err);
+        setSweepError(err instanceof Error ? err.message : 'Parameter sweep failed');
+      }
+    } finally {
+      if (sweepAbortRef.current === controller) {
+        sweepAbortRef.current = null;
+        setSweepProgress(null);
+      }
+    }
+  }, [detectWithSettings, region, reference, settings, presets, imageWidth, imageHeight]);
+
+  const handleStartSave = useCallback(
+    (sweepResult: SweepResult) => {
+      setSavingResult(sweepResult);
+      setPresetName(`${micrograph?.name || 'Validated'} (F1 ${sweepResult.evaluation.f1.toFixed(2)})`);
+    },
+    [micrograph]
+  );
+
+  const handleSavePreset = useCallback(() => {
+    if (!savingResult || !presetName.trim()) return;
+    const { presetName: _presetName, ...presetSettings } = savingResult.settings;
+    saveGrainDetectionPreset({
+      id: uuidv4(),
+      name: presetName.trim(),
+      isBuiltIn: false,
+      settings: presetSettings,
+      validation: {
+        micrographName: micrograph?.name || '',
+        referenceCount: savingResult.evaluation.referenceCount,
+        precision: savingResult.evaluation.precision,
+        recall: savingResult.evaluation.recall,
+        f1: savingResult.evaluation.f1,
+        evaluatedAt: new Date().toISOString(),
+      },
+    });
+    setSavingResult(null);
+  }, [savingResult, presetName, micrograph, saveGrainDetectionPreset]);
+
+  const isSweeping = sweepProgress !== null;
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Accuracy Evaluation
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+        Trace grains by hand inside a polygon spot and choose it as the reference region. The
+        hand-traced polygon spots inside it are compared with the detected grains.
+      </Typography>
+
+      <Stack spacing={1.5}>
+        <FormControl size="small" fullWidth>
+          <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem' }}>Reference Region</FormLabel>
+          <Select
+            value={regionSpotId}
+            displayEmpty
+            onChange={(e) => {
+              setRegionSpotId(e.target.value);
+              setSweepResults(null);
+            }}
+            disabled={isSweeping}
+          >
+            <MenuItem value="">
+              <em>None</em>
+            </MenuItem>
+            {polygonSpots.map((spot) => (
+              <MenuItem key={spot.id} value={spot.id}>
+                {spot.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {evaluation && evaluation.referenceCount === 0 && (
+          <Alert severity="info">No hand-traced grains lie inside this region.</Alert>
+        )}
+
+        {evaluation && evaluation.referenceCount > 0 && <EvaluationSummary evaluation={evaluation} />}
+
+        {region && (
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Tooltip title={detectWithSettings ? '' : 'Parameter sweeps use the OpenCV method'}>
+              <span>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  onClick={handleRunSweep}
+                  disabled={!detectWithSettings || !evaluation?.referenceCount || isSweeping || disabled}
+                >
+                  Run Parameter Sweep
+                </Button>
+              </span>
+            </Tooltip>
+            {isSweeping && (
+              <>
+                <Box sx={{ flex: 1 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    Evaluating setting {Math.min(sweepProgress.done + 1, sweepProgress.total)} of {sweepProgress.total}
+                  </Typography>
+                  <LinearProgress variant="determinate" value={(sweepProgress.done / sweepProgress.total) * 100} />
+                </Box>
+                <Button size="small" onClick={() => sweepAbortRef.current?.abort()}>
+                  Cancel
+                </Button>
+              </>
+            )}
+          </Stack>
+        )}
+
+        {sweepError && (
+          <Alert severity="error" onClose={() => setSweepError(null)}>
+            {sweepError}
+          </Alert>
+        )}
+
+        {sweepResults && (
+          <TableContainer sx={{ maxHeight: 260 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>Settings</TableCell>
+                  <TableCell align="right">F1</TableCell>
+                  <TableCell align="right">Precision</TableCell>
+                  <TableCell align="right">Recall</TableCell>
+                  <TableCell align="right">Over / Under</TableCell>
+                  <TableCell align="right">Size Bias</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sweepResults.map((sweepResult, index) => (
+                  <TableRow key={sweepResult.label} hover>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>{sweepResult.label}</TableCell>
+                    <TableCell align="right">{sweepResult.evaluation.f1.toFixed(3)}</TableCell>
+                    <TableCell align="right">{percent(sweepResult.evaluation.precision)}</TableCell>
+                    <TableCell align="right">{percent(sweepResult.evaluation.recall)}</TableCell>
+                    <TableCell align="right">
+                      {sweepResult.evaluation.overSegmented} / {sweepResult.evaluation.underSegmented}
+                    </TableCell>
+                    <TableCell align="right">
+                      {sweepResult.evaluation.sizeBias
+                        ? signedPercent(sweepResult.evaluation.sizeBias.meanBiasPercent)
+                        : '—'}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Button size="small" onClick={() => onApplySettings(sweepResult.settings, sweepResult.presetId)}>
+                        Apply
+                      </Button>
+                      <Button size="small" onClick={() => handleStartSave(sweepResult)}>
+                        Save
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {savingResult && (
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              label="Preset Name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              size="small"
+              fullWidth
+              helperText={savingResult.label}
+            />
+            <Button variant="contained" size="small" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              Save Preset
+            </Button>
+            <Button size="small" onClick={() => setSavingResult(null)}>
+              Cancel
+            </Button>
+          </Stack>
+        )}
+      </Stack>
+    </Box>
+  );
+}
+
+export default DetectionEvaluationPanel;
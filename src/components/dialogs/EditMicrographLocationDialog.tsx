@@ -40,6 +40,13 @@ import { PointPlacementCanvas } from './PointPlacementCanvas';
 import { AffineRegistrationModal } from './AffineRegistrationModal';
 import type { MicrographMetadata } from '@/types/project-types';
 import type { AffineMatrix, ControlPoint } from '@/utils/affineTransform';
+import {
+  WARP_PLACEMENT_LABELS,
+  getPlacementWarp,
+  isWarpedPlacement,
+  placementWarpFields,
+  type PlacementWarp,
+} from '@/utils/placementWarp';
 import { computeCopySizePlacement } from '@/utils/copySizePlacement';
 
 interface EditMicrographLocationDialogProps {
@@ -104,6 +111,8 @@ export function EditMicrographLocationDialog({
   const [affineTransformedWidth, setAffineTransformedWidth] = useState<number | null>(null);
   const [affineTransformedHeight, setAffineTransformedHeight] = useState<number | null>(null);
   const [affineTileHash, setAffineTileHash] = useState<string | null>(null);
+  // Transform chosen in the registration modal (affine, projective or thin-plate spline)
+  const [placementWarp, setPlacementWarp] = useState<PlacementWarp | null>(null);
   const [showAffineRegistration, setShowAffineRegistration] = useState(false);
 
   // Project folder paths for constructing image paths
@@ -192,7 +201,7 @@ export function EditMicrographLocationDialog({
     // Determine current location method from existing data
     const hasOffset = !!(micro as { offsetInParent?: unknown }).offsetInParent;
     const hasPoint = !!micro.pointInParent;
-    const hasAffine = micro.placementType === 'affine' && !!micro.affineMatrix;
+    const hasAffine = isWarpedPlacement(micro.placementType) && !!micro.affineMatrix;
 
     // Reset affine state by default; will be populated below if applicable
     setAffineMatrix(null);
@@ -201,6 +210,7 @@ export function EditMicrographLocationDialog({
     setAffineTransformedWidth(null);
     setAffineTransformedHeight(null);
     setAffineTileHash(null);
+    setPlacementWarp(null);
 
     if (hasAffine) {
       setLocationMethod('3-Point Registration');
@@ -213,6 +223,7 @@ export function EditMicrographLocationDialog({
       setAffineTransformedWidth(micro.affineTransformedWidth ?? null);
       setAffineTransformedHeight(micro.affineTransformedHeight ?? null);
       setAffineTileHash(micro.affineTileHash ?? null);
+      setPlacementWarp(getPlacementWarp(micro));
       setOpacity(micro.opacity ?? 1);
     } else if (hasOffset) {
       setLocationMethod('Locate as a scaled rectangle');
@@ -473,6 +484,7 @@ export function EditMicrographLocationDialog({
       // value if any, otherwise default to the parent's scale.
       updateMicrographMetadata(micrographId, {
         placementType: 'affine',
+        ...(placementWarp && placementWarpFields(placementWarp)),
         affineMatrix,
         controlPoints: affineControlPoints?.map((cp) => ({
           source: cp.source,
@@ -502,6 +514,8 @@ export function EditMicrographLocationDialog({
         pointInParent: undefined,
         placementType: undefined,
         affineMatrix: undefined,
+        homographyMatrix: undefined,
+        thinPlateSpline: undefined,
         controlPoints: undefined,
         affineBoundsOffset: undefined,
         affineTransformedWidth: undefined,
@@ -527,6 +541,8 @@ export function EditMicrographLocationDialog({
         scaleY: undefined,
         placementType: undefined,
         affineMatrix: undefined,
+        homographyMatrix: undefined,
+        thinPlateSpline: undefined,
         controlPoints: undefined,
         affineBoundsOffset: undefined,
         affineTransformedWidth: undefined,
@@ -788,6 +804,7 @@ export function EditMicrographLocationDialog({
                       </Box>
                       <Typography variant="body2" color="text.primary">
                         {affineControlPoints?.length || 0} control points defined
+                        {placementWarp && ` (${WARP_PLACEMENT_LABELS[placementWarp.type].toLowerCase()})`}
                       </Typography>
                       <Button
                         variant="outlined"
@@ -815,9 +832,11 @@ export function EditMicrographLocationDialog({
 
                 {affineMatrix && (
                   <Typography variant="caption" color="text.secondary">
-                    The overlay will be transformed using an affine matrix computed from your
-                    control points. This handles translation, rotation, scale, and skew
-                    corrections.
+                    {placementWarp?.type === 'homography'
+                      ? 'The overlay will be transformed using a projective transform computed from your control points. This also corrects the perspective of oblique views.'
+                      : placementWarp?.type === 'thinPlateSpline'
+                        ? 'The overlay will be warped by a thin-plate spline through your control points. This corrects distortion that varies across the image.'
+                        : 'The overlay will be transformed using an affine matrix computed from your control points. This handles translation, rotation, scale, and skew corrections.'}
                   </Typography>
                 )}
               </Stack>
@@ -908,8 +927,10 @@ export function EditMicrographLocationDialog({
         overlayWidth={micrograph.imageWidth || 800}
         overlayHeight={micrograph.imageHeight || 600}
         existingControlPoints={affineControlPoints ?? undefined}
-        onApply={(matrix, controlPoints, boundsOffset, transformedWidth, transformedHeight, tileHash) => {
+        existingPlacementType={placementWarp?.type}
+        onApply={(matrix, controlPoints, boundsOffset, transformedWidth, transformedHeight, tileHash, warp) => {
           setAffineMatrix(matrix);
+          setPlacementWarp(warp);
           setAffineControlPoints(controlPoints);
           setAffineBoundsOffset(boundsOffset);
           setAffineTransformedWidth(transformedWidth);
@@ -0,0 +1,512 @@
+/**
+ * Element Maps Dialog
+ *
+ * Manages the EDS/WDS element map layer stack of the active micrograph.
+ * Features:
+ * - Import one grayscale map per element (element guessed from file name)
+ * - False color, opacity and visibility per layer (additively blended in the viewer)
+ * - Link each map to the micrograph's instrument detectors and WDS standards
+ * - Query map intensities inside spot geometries, with CSV export
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Divider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  IconButton,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  Slider,
+  Tooltip,
+  LinearProgress,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Visibility as VisibilityIcon,
+  VisibilityOff as VisibilityOffIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '@/store';
+import {
+  guessElementFromFileName,
+  getDefaultElementColor,
+  sampleSpotIntensities,
+  exportSpotIntensitiesToCSV,
+  type SpotElementIntensities,
+} from '@/services/elementMaps';
+import type { ElementMapLayer } from '@/types/project-types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ElementMapsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type SpotScope = 'selected' | 'all';
+
+// Stable empty array to prevent unnecessary re-renders
+const EMPTY_LAYERS: ElementMapLayer[] = [];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Build a unique associatedFiles name for an imported map
+ */
+function buildMapFileName(sourcePath: string, index: number): string {
+  const baseName = sourcePath.split(/[\\/]/).pop() || 'map';
+  return `elementmap-${Date.now()}-${index}-${baseName}`;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function ElementMapsDialog({ open, onClose }: ElementMapsDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const selectedSpotIds = useAppStore((s) => s.selectedSpotIds);
+  const addElementMap = useAppStore((s) => s.addElementMap);
+  const updateElementMap = useAppStore((s) => s.updateElementMap);
+  const removeElementMap = useAppStore((s) => s.removeElementMap);
+
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [spotScope, setSpotScope] = useState<SpotScope>('all');
+  const [sampling, setSampling] = useState(false);
+  const [samplingProgress, setSamplingProgress] = useState(0);
+  const [results, setResults] = useState<SpotElementIntensities[] | null>(null);
+
+  const micrograph = useMemo(() => {
+    if (!activeMicrographId) return null;
+    return micrographIndex.get(activeMicrographId) || null;
+  }, [activeMicrographId, micrographIndex]);
+
+  const layers = micrograph?.elementMaps ?? EMPTY_LAYERS;
+
+  // Detector and standards metadata from the micrograph's instrument info
+  const detectorTypes = useMemo(() => {
+    const types = (micrograph?.instrument?.instrumentDetectors || [])
+      .map((d) => d.detectorType)
+      .filter((t): t is string => !!t);
+    return Array.from(new Set(types));
+  }, [micrograph]);
+
+  const standards = useMemo(
+    () => (micrograph?.instrument?.standards || []).filter((s) => !!s.standardName),
+    [micrograph]
+  );
+
+  const querySpots = useMemo(() => {
+    const spots = (micrograph?.spots || []).filter((s) => !s.archived);
+    if (spotScope === 'all') return spots;
+    const selected = new Set(selectedSpotIds);
+    return spots.filter((s) => selected.has(s.id));
+  }, [micrograph, spotScope, selectedSpotIds]);
+
+  // Results belong to one micrograph; clear them when switching
+  useEffect(() => {
+    setResults(null);
+  }, [activeMicrographId]);
+
+  // Import one or more element maps
+  const handleImport = useCallback(async () => {
+    if (!window.api || !project || !micrograph) return;
+
+    const filePaths = await window.api.openMultipleTiffDialog();
+    if (filePaths.length === 0) return;
+
+    setImporting(true);
+    setImportError(null);
+    const usedColors = layers.map((l) => l.color);
+    const defaultDetector =
+      detectorTypes.find((t) => /eds|wds|edx/i.test(t)) ?? detectorTypes[0] ?? null;
+
+    try {
+      for (let i = 0; i < filePaths.length; i++) {
+        const sourcePath = filePaths[i];
+        const originalFileName = sourcePath.split(/[\\/]/).pop() || sourcePath;
+        const fileName = buildMapFileName(sourcePath, i);
+
+        // Read dimensions and warm the tile cache before copying into the project
+        const { metadata } = await window.api.loadImageWithTiles(sourcePath);
+        await window.api.copyToAssociatedFiles(sourcePath, project.id, fileName);
+
+        const element = guessElementFromFileName(originalFileName);
+        const color = getDefaultElementColor(element, usedColors);
+        usedColors.push(color);
+        const standard = standards.find((s) => s.element === element);
+
+        addElementMap(micrograph.id, {
+          element: element || originalFileName.replace(/\.[^.]+$/, ''),
+          fileName,
+          originalFileName,
+          width: metadata.width,
+          height: metadata.height,
+          color,
+          opacity: 1,
+          visible: true,
+          detectorType: defaultDetector,
+          standardName: standard?.standardName ?? null,
+        });
+      }
+    } catch (error) {
+      console.error('[ElementMapsDialog] Failed to import element map:', error);
+      setImportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setImporting(false);
+    }
+  }, [project, micrograph, layers, detectorTypes, standards, addElementMap]);
+
+  // Remove a layer. Its copied map file stays on disk so undo can restore the
+  // layer; orphan cleanup deletes it once the project is reopened without it.
+  const handleRemove = useCallback((layer: ElementMapLayer) => {
+    if (!micrograph) return;
+    removeElementMap(micrograph.id, layer.id);
+    setResults((prev) =>
+      prev?.map((r) => ({ ...r, values: r.values.filter((v) => v.layerId !== layer.id) })) ?? null
+    );
+  }, [micrograph, removeElementMap]);
+
+  // Query intensities inside spots
+  const handleSample = useCallback(async () => {
+    if (!project || !micrograph || layers.length === 0 || querySpots.length === 0) return;
+
+    setSampling(true);
+    setSamplingProgress(0);
+    try {
+      const sampled = await sampleSpotIntensities(
+        project.id,
+        micrograph,
+        querySpots,
+        layers,
+        (completed, total) => setSamplingProgress((completed / total) * 100)
+      );
+      setResults(sampled);
+    } catch (error) {
+      console.error('[ElementMapsDialog] Failed to sample element maps:', error);
+    } finally {
+      setSampling(false);
+    }
+  }, [project, micrograph, layers, querySpots]);
+
+  const handleExportCSV = useCallback(async () => {
+    if (!results) return;
+    const csv = exportSpotIntensitiesToCSV(results, layers);
+    const defaultName = `element-map-intensities-${new Date().toISOString().slice(0, 10)}.csv`;
+    await window.api?.saveTextFile(csv, defaultName, 'csv');
+  }, [results, layers]);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      PaperProps={{
+        sx: { height: '85vh', maxHeight: 800 },
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h6">
+            Element Maps{micrograph ? ` — ${micrograph.name}` : ''}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers sx={{ p: 2 }}>
+        {!micrograph ? (
+          <Alert severity="info">Select a micrograph to manage its element maps.</Alert>
+        ) : (
+          <Stack spacing={2}>
+            {/* Layer stack */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle2">
+                  Layers ({layers.length})
+                </Typography>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<AddIcon />}
+                  onClick={handleImport}
+                  disabled={importing}
+                >
+                  Import Maps...
+                </Button>
+              </Box>
+
+              {importing && <LinearProgress sx={{ mb: 1 }} />}
+              {importError && (
+                <Alert severity="error" sx={{ mb: 1 }} onClose={() => setImportError(null)}>
+                  {importError}
+                </Alert>
+              )}
+
+              {layers.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No element maps yet. Import one grayscale map per element; maps are stretched
+                  over the full micrograph and blended additively on top of it.
+                </Typography>
+              ) : (
+                <Paper variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell padding="checkbox" />
+                        <TableCell>Element</TableCell>
+                        <TableCell>Line</TableCell>
+                        <TableCell>Color</TableCell>
+                        <TableCell sx={{ width: 160 }}>Opacity</TableCell>
+                        <TableCell>Detector</TableCell>
+                        <TableCell>Standard</TableCell>
+                        <TableCell>Size</TableCell>
+                        <TableCell padding="checkbox" />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {layers.map((layer) => (
+                        <TableRow key={layer.id}>
+                          <TableCell padding="checkbox">
+                            <IconButton
+                              size="small"
+                              onClick={() =>
+                                updateElementMap(micrograph.id, layer.id, { visible: !layer.visible })
+                              }
+                            >
+                              {layer.visible ? (
+                                <VisibilityIcon fontSize="small" />
+                              ) : (
+                                <VisibilityOffIcon fontSize="small" />
+                              )}
+                            </IconButton>
+                          </TableCell>
+                          <TableCell>
+                            <Tooltip title={layer.originalFileName || layer.fileName}>
+                              <TextField
+                                size="small"
+                                variant="standard"
+                                value={layer.element}
+                                onChange={(e) =>
+                                  updateElementMap(micrograph.id, layer.id, { element: e.target.value })
+                                }
+                                sx={{ width: 70 }}
+                              />
+                            </Tooltip>
+                          </TableCell>
+                          <TableCell>
+                            <TextField
+                              size="small"
+                              variant="standard"
+                              placeholder="Ka"
+                              value={layer.line ?? ''}
+                              onChange={(e) =>
+                                updateElementMap(micrograph.id, layer.id, { line: e.target.value || null })
+                              }
+                              sx={{ width: 50 }}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <input
+                              type="color"
+                              value={layer.color}
+                              onChange={(e) =>
+                                updateElementMap(micrograph.id, layer.id, { color: e.target.value })
+                              }
+                              style={{ width: 32, height: 24, border: 'none', padding: 0, background: 'none' }}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Slider
+                              size="small"
+                              min={0}
+                              max={1}
+                              step={0.05}
+                              value={layer.opacity}
+                              valueLabelDisplay="auto"
+                              valueLabelFormat={(v) => `${Math.round(v * 100)}%`}
+                              onChange={(_, v) =>
+                                updateElementMap(micrograph.id, layer.id, { opacity: v as number })
+                              }
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              variant="standard"
+                              value={layer.detectorType ?? ''}
+                              displayEmpty
+                              onChange={(e) =>
+                                updateElementMap(micrograph.id, layer.id, {
+                                  detectorType: e.target.value || null,
+                                })
+                              }
+                              sx={{ minWidth: 90 }}
+                            >
+                              <MenuItem value="">
+                                <em>None</em>
+                              </MenuItem>
+                              {detectorTypes.map((type) => (
+                                <MenuItem key={type} value={type}>{type}</MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              variant="standard"
+                              value={layer.standardName ?? ''}
+                              displayEmpty
+                              onChange={(e) =>
+                                updateElementMap(micrograph.id, layer.id, {
+                                  standardName: e.target.value || null,
+                                })
+                              }
+                              sx={{ minWidth: 90 }}
+                            >
+                              <MenuItem value="">
+                                <em>None</em>
+                              </MenuItem>
+                              {standards.map((s, i) => (
+                                <MenuItem key={`${s.standardName}-${i}`} value={s.standardName!}>
+                                  {s.standardName}{s.element ? ` (${s.element})` : ''}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="caption" color="text.secondary">
+                              {layer.width}×{layer.height}
+                            </Typography>
+                          </TableCell>
+                          <TableCell padding="checkbox">
+                            <IconButton size="small" onClick={() => handleRemove(layer)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Paper>
+              )}
+            </Box>
+
+            <Divider />
+
+            {/* Spot intensity query */}
+            <Box>
+              <Stack direction="row" spacing={3} alignItems="center" sx={{ mb: 1 }}>
+                <Typography variant="subtitle2">Spot Intensities</Typography>
+                <FormControl component="fieldset" size="small">
+                  <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Spots</FormLabel>
+                  <RadioGroup
+                    row
+                    value={spotScope}
+                    onChange={(e) => setSpotScope(e.target.value as SpotScope)}
+                  >
+                    <FormControlLabel value="all" control={<Radio size="small" />} label="All spots" />
+                    <FormControlLabel
+                      value="selected"
+                      control={<Radio size="small" />}
+                      label={`Selected spots (${selectedSpotIds.length})`}
+                    />
+                  </RadioGroup>
+                </FormControl>
+                <Button
+                  size="small"
+                  variant="contained"
+                  onClick={handleSample}
+                  disabled={sampling || layers.length === 0 || querySpots.length === 0}
+                >
+                  Sample {querySpots.length} Spot{querySpots.length === 1 ? '' : 's'}
+                </Button>
+              </Stack>
+
+              {sampling && <LinearProgress variant="determinate" value={samplingProgress} sx={{ mb: 1 }} />}
+
+              {results && results.length > 0 && (
+                <Paper variant="outlined" sx={{ maxHeight: 320, overflow: 'auto' }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Spot</TableCell>
+                        <TableCell>Mineral</TableCell>
+                        {layers.map((layer) => (
+                          <TableCell key={layer.id} align="right">
+                            <Box component="span" sx={{ color: layer.color, mr: 0.5 }}>■</Box>
+                            {layer.element}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {results.map((result) => (
+                        <TableRow key={result.spotId}>
+                          <TableCell>{result.spotName}</TableCell>
+                          <TableCell>{result.mineral ?? '—'}</TableCell>
+                          {layers.map((layer) => {
+                            const stats = result.values.find((v) => v.layerId === layer.id);
+                            return (
+                              <TableCell key={layer.id} align="right">
+                                {stats && stats.pixelCount > 0
+                                  ? `${stats.mean.toFixed(1)} ± ${stats.stdDev.toFixed(1)}`
+                                  : '—'}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Paper>
+              )}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          startIcon={<DownloadIcon />}
+          onClick={handleExportCSV}
+          disabled={!results || results.length === 0}
+        >
+          Export CSV
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
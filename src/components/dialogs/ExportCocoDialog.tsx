@@ -0,0 +1,414 @@
+/**
+ * Export COCO Dataset Dialog
+ *
+ * Exports the project's classified polygon spots as a COCO
+ * instance-segmentation training dataset.
+ * Features:
+ * - Classes from spot minerals or tags, with optional renaming/merging and exclusion
+ * - Whole micrographs or overlapping full-resolution tiles
+ * - Train/validation split by micrograph or sample
+ * - Progress while the main process crops and writes the images
+ */
+
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  LinearProgress,
+  Alert,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Checkbox,
+  TextField,
+  Select,
+  MenuItem,
+  InputLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Paper,
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import ErrorIcon from '@mui/icons-material/Error';
+import { useAppStore } from '@/store';
+import {
+  buildCocoExportPlan,
+  listSourceCategories,
+  DEFAULT_COCO_EXPORT_OPTIONS,
+  type CocoExportOptions,
+} from '@/services/cocoDataset';
+import { validateTiledDetectionOptions } from '@/services/grainDetection';
+
+const TILE_SIZES = [512, 640, 1024, 2048];
+
+interface ExportProgress {
+  current: number;
+  total: number;
+  currentName: string;
+  status: 'processing' | 'complete' | 'error';
+  error?: string;
+}
+
+interface ExportCocoDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ExportCocoDialog({ open, onClose }: ExportCocoDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const [options, setOptions] = useState<CocoExportOptions>(DEFAULT_COCO_EXPORT_OPTIONS);
+  const [step, setStep] = useState<'configure' | 'exporting'>('configure');
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<{
+    success: boolean;
+    folderPath?: string;
+    exported?: number;
+    error?: string;
+    errors?: Array<{ name: string; error: string }>;
+  } | null>(null);
+
+  // Reset when dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep('configure');
+      setProgress(null);
+      setResult(null);
+      setIsExporting(false);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !window.api?.coco) return;
+    return window.api.coco.onExportProgress(setProgress);
+  }, [open]);
+
+  const update = (changes: Partial<CocoExportOptions>) => setOptions((prev) => ({ ...prev, ...changes }));
+
+  const sourceCategories = useMemo(
+    () => (project ? listSourceCategories(project, options.categorySource) : []),
+    [project, options.categorySource]
+  );
+
+  const tileError =
+    options.imageMode === 'tiles'
+      ? validateTiledDetectionOptions({ windowSize: options.tileSize, overlap: options.tileOverlap })
+      : null;
+
+  const plan = useMemo(
+    () => (open && project && !tileError ? buildCocoExportPlan(project, options) : null),
+    [open, project, options, tileError]
+  );
+
+  const handleSourceChange = (categorySource: CocoExportOptions['categorySource']) => {
+    // Remapping is per source; start over
+    update({ categorySource, classMap: {} });
+  };
+
+  const setClassTarget = (name: string, target: string | null) => {
+    setOptions((prev) => {
+      const classMap = { ...prev.classMap };
+      if (target === name) {
+        delete classMap[name];
+      } else {
+        classMap[name] = target;
+      }
+      return { ...prev, classMap };
+    });
+  };
+
+  const startExport = useCallback(async () => {
+    if (!project || !plan || !window.api?.coco) return;
+
+    setStep('exporting');
+    setIsExporting(true);
+    setProgress(null);
+    setResult(null);
+
+    try {
+      const exportResult = await window.api.coco.exportDataset(project.id, plan);
+      if (exportResult.canceled) {
+        // User canceled the folder dialog - back to the settings
+        setStep('configure');
+        return;
+      }
+      setResult(exportResult);
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Export failed',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [project, plan]);
+
+  const handleClose = () => {
+    setStep('configure');
+    setProgress(null);
+    setResult(null);
+    setIsExporting(false);
+    onClose();
+  };
+
+  const percentComplete = progress && progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0;
+  const canExport = !!plan && plan.images.length > 0 && plan.datasets.train.categories.length > 0;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={step === 'configure' || result ? handleClose : undefined}
+      maxWidth="md"
+      fullWidth
+      disableEscapeKeyDown={isExporting}
+    >
+      <DialogTitle>Export Training Dataset (COCO)</DialogTitle>
+      <DialogContent>
+        {step === 'configure' && (
+          <Stack spacing={2.5} sx={{ py: 1 }}>
+            {/* Classes */}
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Classes From</FormLabel>
+              <RadioGroup
+                row
+                value={options.categorySource}
+                onChange={(e) => handleSourceChange(e.target.value as CocoExportOptions['categorySource'])}
+              >
+                <FormControlLabel value="mineral" control={<Radio />} label="Mineral (first mineral of each spot)" />
+                <FormControlLabel value="tag" control={<Radio />} label="Tag (first tag of each spot)" />
+              </RadioGroup>
+            </FormControl>
+
+            {sourceCategories.length === 0 ? (
+              <Alert severity="info">
+                No polygon spots have a {options.categorySource === 'mineral' ? 'mineral' : 'tag'} assigned.
+              </Alert>
+            ) : (
+              <Paper variant="outlined" sx={{ maxHeight: 240, overflow: 'auto' }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell padding="checkbox" />
+                      <TableCell>Class</TableCell>
+                      <TableCell align="right">Spots</TableCell>
+                      <TableCell>Export As</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sourceCategories.map(({ name, count }) => {
+                      const target = name in options.classMap ? options.classMap[name] : name;
+                      const included = target !== null;
+                      return (
+                        <TableRow key={name}>
+                          <TableCell padding="checkbox">
+                            <Checkbox
+                              size="small"
+                              checked={included}
+                              onChange={(e) => setClassTarget(name, e.target.checked ? name : null)}
+                            />
+                          </TableCell>
+                          <TableCell>{name}</TableCell>
+                          <TableCell align="right">{count}</TableCell>
+                          <TableCell>
+                            <TextField
+                              size="small"
+                              variant="standard"
+                              value={target ?? ''}
+                              placeholder={name}
+                              disabled={!included}
+                              onChange={(e) => setClassTarget(name, e.target.value)}
+                              fullWidth
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </Paper>
+            )}
+            <Typography variant="caption" color="text.secondary">
+              Give several classes the same name to merge them. Unchecked classes are left out.
+            </Typography>
+
+            {/* Images */}
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Images</FormLabel>
+              <RadioGroup
+                row
+                value={options.imageMode}
+                onChange={(e) => update({ imageMode: e.target.value as CocoExportOptions['imageMode'] })}
+              >
+                <FormControlLabel value="tiles" control={<Radio />} label="Full-resolution tiles" />
+                <FormControlLabel value="full" control={<Radio />} label="Whole micrographs" />
+              </RadioGroup>
+            </FormControl>
+            {options.imageMode === 'tiles' && (
+              <Stack direction="row" spacing={2}>
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>Tile Size</InputLabel>
+                  <Select
+                    label="Tile Size"
+                    value={options.tileSize}
+                    onChange={(e) => update({ tileSize: Number(e.target.value) })}
+                  >
+                    {TILE_SIZES.map((size) => (
+                      <MenuItem key={size} value={size}>{size} px</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Overlap (px)"
+                  value={options.tileOverlap}
+                  onChange={(e) => update({ tileOverlap: Math.max(0, Number(e.target.value) || 0) })}
+                  error={!!tileError}
+                  helperText={tileError}
+                  sx={{ width: 140 }}
+                />
+              </Stack>
+            )}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={options.skipEmptyImages}
+                  onChange={(e) => update({ skipEmptyImages: e.target.checked })}
+                />
+              }
+              label="Skip images without annotations"
+            />
+
+            {/* Split */}
+            <Stack direction="row" spacing={2}>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Split By</InputLabel>
+                <Select
+                  label="Split By"
+                  value={options.splitBy}
+                  onChange={(e) => update({ splitBy: e.target.value as CocoExportOptions['splitBy'] })}
+                >
+                  <MenuItem value="micrograph">Micrograph</MenuItem>
+                  <MenuItem value="sample">Sample</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                size="small"
+                type="number"
+                label="Validation (%)"
+                value={Math.round(options.validationFraction * 100)}
+                onChange={(e) =>
+                  update({ validationFraction: Math.max(0, Math.min(90, Number(e.target.value) || 0)) / 100 })
+                }
+                sx={{ width: 140 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Split Seed"
+                value={options.seed}
+                onChange={(e) => update({ seed: Math.round(Number(e.target.value) || 0) })}
+                sx={{ width: 140 }}
+              />
+            </Stack>
+
+            {/* Summary */}
+            {plan && (
+              <Alert severity={canExport ? 'info' : 'warning'}>
+                {canExport ? (
+                  <>
+                    {plan.datasets.train.categories.length} classes. Train: {plan.datasets.train.images.length} images,{' '}
+                    {plan.datasets.train.annotations.length} annotations. Validation:{' '}
+                    {plan.datasets.val.images.length} images, {plan.datasets.val.annotations.length} annotations.
+                  </>
+                ) : (
+                  'Nothing to export with these settings.'
+                )}
+                {plan.skippedMicrographs.length > 0 && (
+                  <Typography variant="body2" sx={{ mt: 0.5 }}>
+                    Skipped (image not available): {plan.skippedMicrographs.join(', ')}
+                  </Typography>
+                )}
+              </Alert>
+            )}
+          </Stack>
+        )}
+
+        {/* Progress state */}
+        {step === 'exporting' && isExporting && (
+          <Box sx={{ py: 2 }}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {progress ? `Writing image ${progress.current} of ${progress.total}` : 'Preparing export...'}
+            </Typography>
+            {progress && (
+              <Typography variant="body1" fontWeight={500} noWrap>
+                {progress.currentName}
+              </Typography>
+            )}
+            <LinearProgress
+              variant={progress ? 'determinate' : 'indeterminate'}
+              value={percentComplete}
+              sx={{ mt: 2, height: 10, borderRadius: 5 }}
+            />
+          </Box>
+        )}
+
+        {/* Success state */}
+        {result?.success && (
+          <Alert severity="success" icon={<CheckCircleIcon fontSize="inherit" />} sx={{ my: 2 }}>
+            <Typography variant="body1" fontWeight={500}>
+              Export Complete!
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              {result.exported} images and their annotations written to {result.folderPath}.
+            </Typography>
+            {result.errors && (
+              <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                {result.errors.length} failed: {result.errors.map((e) => e.name).join(', ')}
+              </Typography>
+            )}
+          </Alert>
+        )}
+
+        {/* Error state */}
+        {result && !result.success && (
+          <Alert severity="error" icon={<ErrorIcon fontSize="inherit" />} sx={{ my: 2 }}>
+            <Typography variant="body1" fontWeight={500}>
+              Export Failed
+            </Typography>
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              {result.error || 'An unknown error occurred'}
+            </Typography>
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 'configure' && (
+          <>
+            <Button onClick={handleClose}>Cancel</Button>
+            <Button onClick={startExport} variant="contained" disabled={!canExport}>
+              Export...
+            </Button>
+          </>
+        )}
+        {step === 'exporting' && isExporting && <Button disabled>Exporting...</Button>}
+        {step === 'exporting' && !isExporting && result && (
+          <Button onClick={handleClose} variant="contained">
+            {result.success ? 'Done' : 'Close'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * Fry Analysis Dialog
+ *
+ * Center-to-center strain analysis for the active micrograph:
+ * - Centroids from selected or all polygon spots (grain-detection
+ *   centroids are used when stored on the spot)
+ * - Fry plot with the auto-fitted central vacancy ellipse
+ * - Manual adjustment of the ellipse ratio, orientation and size
+ * - Strain ratio and long-axis orientation in image coordinates, and as
+ *   trend/plunge or fabric angle when the micrograph (or its parent) is
+ *   oriented
+ * - Result saved on the micrograph; Fry points exported as CSV
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Slider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Alert,
+  Divider,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Save as SaveIcon,
+  Check as CheckIcon,
+  AutoFixHigh as AutoFitIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '@/store';
+import {
+  calculateFry,
+  getSpotCentroid,
+  fryEllipseToAnalysis,
+  exportFryToCSV,
+  MIN_FRY_CENTROIDS,
+  type FryEllipse,
+} from '@/services/grainAnalysis';
+import { resolveOrientationFrame } from '@/services/orientation';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import { FryPlot } from '@/components/charts';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FryAnalysisDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type CentroidSource = 'selected' | 'all';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_RATIO = 6;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function FryAnalysisDialog({ open, onClose }: FryAnalysisDialogProps) {
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const selectedSpotIds = useAppStore((s) => s.selectedSpotIds);
+  const updateMicrographMetadata = useAppStore((s) => s.updateMicrographMetadata);
+
+  const [source, setSource] = useState<CentroidSource>('all');
+  const [ellipse, setEllipse] = useState<FryEllipse | null>(null);
+  const [fitMethod, setFitMethod] = useState<'auto' | 'manual'>('auto');
+  const [saved, setSaved] = useState(false);
+
+  const micrograph = activeMicrographId ? micrographIndex.get(activeMicrographId) || null : null;
+
+  // Default to the selection when enough spots are selected
+  useEffect(() => {
+    if (open) {
+      setSource(selectedSpotIds.length >= MIN_FRY_CENTROIDS ? 'selected' : 'all');
+    }
+  }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const centroids = useMemo(() => {
+    const selected = new Set(selectedSpotIds);
+    const result: Array<{ X: number; Y: number }> = [];
+    for (const spot of micrograph?.spots || []) {
+      if (spot.archived) continue;
+      if (source === 'selected' && !selected.has(spot.id)) continue;
+      if (!isPolygonSpot(spot.geometry, spot.geometryType) && !spot.centroid) continue;
+      const centroid = getSpotCentroid(spot);
+      if (centroid) result.push(centroid);
+    }
+    return result;
+  }, [micrograph?.spots, selectedSpotIds, source]);
+
+  const fry = useMemo(() => (open ? calculateFry(centroids) : null), [open, centroids]);
+
+  // Start from the auto-fit whenever the point set changes
+  useEffect(() => {
+    setEllipse(fry?.autoEllipse ?? null);
+    setFitMethod('auto');
+  }, [fry]);
+
+  const frame = useMemo(
+    () => (micrograph ? resolveOrientationFrame(micrograph, micrographIndex) : null),
+    [micrograph, micrographIndex]
+  );
+
+  const analysis = useMemo(
+    () => (ellipse && fry ? fryEllipseToAnalysis(ellipse, fry.centroidCount, fitMethod, frame) : null),
+    [ellipse, fry, fitMethod, frame]
+  );
+
+  // Manual adjustment keeps the ellipse area (mean radius) unless size is changed
+  const ratio = ellipse ? ellipse.semiMajor / ellipse.semiMinor : 1;
+  const meanRadius = ellipse ? Math.sqrt(ellipse.semiMajor * ellipse.semiMinor) : 0;
+
+  const adjustEllipse = useCallback(
+    (changes: { ratio?: number; orientation?: number; meanRadius?: number }) => {
+      if (!ellipse) return;
+      const newRatio = changes.ratio ?? ratio;
+      const newRadius = changes.meanRadius ?? meanRadius;
+      setEllipse({
+        semiMajor: newRadius * Math.sqrt(newRatio),
+        semiMinor: newRadius / Math.sqrt(newRatio),
+        orientation: changes.orientation ?? ellipse.orientation,
+      });
+      setFitMethod('manual');
+    },
+    [ellipse, ratio, meanRadius]
+  );
+
+  const handleAutoFit = useCallback(() => {
+    setEllipse(fry?.autoEllipse ?? null);
+    setFitMethod('auto');
+  }, [fry]);
+
+  // Without an auto-fit, start manual fitting from a circle at the mean spacing
+  const handleStartManual = useCallback(() => {
+    if (!fry) return;
+    setEllipse({ semiMajor: fry.meanNearestNeighbor, semiMinor: fry.meanNearestNeighbor, orientation: 0 });
+    setFitMethod('manual');
+  }, [fry]);
+
+  const handleSave = useCallback(() => {
+    if (!micrograph || !analysis) return;
+    updateMicrographMetadata(micrograph.id, { fryAnalysis: analysis });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }, [micrograph, analysis, updateMicrographMetadata]);
+
+  const handleExport = useCallback(async () => {
+    if (!fry || !analysis) return;
+    try {
+      const defaultName = `fry-analysis-${new Date().toISOString().slice(0, 10)}.csv`;
+      await window.api?.saveTextFile(exportFryToCSV(fry, analysis), defaultName, 'csv');
+    } catch (error) {
+      console.error('Failed to export Fry analysis:', error);
+    }
+  }, [fry, analysis]);
+
+  const savedResult = micrograph?.fryAnalysis ?? null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Fry Strain Analysis</DialogTitle>
+      <DialogContent dividers>
+        {!micrograph ? (
+          <Typography color="text.secondary" sx={{ py: 2 }}>
+            Open a micrograph to analyze grain center spacing.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+            {/* Fry plot */}
+            <Box sx={{ flex: '0 0 auto' }}>
+              <FryPlot
+                points={fry?.points ?? []}
+                extent={fry?.extent ?? 0}
+                ellipse={ellipse}
+                size={400}
+              />
+            </Box>
+
+            {/* Controls and results */}
+            <Stack spacing={2} sx={{ flex: '1 1 280px', minWidth: 260 }}>
+              <FormControl component="fieldset" size="small">
+                <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Centroids</FormLabel>
+                <RadioGroup
+                  row
+                  value={source}
+                  onChange={(e) => setSource(e.target.value as CentroidSource)}
+                >
+                  <FormControlLabel value="all" control={<Radio size="small" />} label="All polygon spots" />
+                  <FormControlLabel
+                    value="selected"
+                    control={<Radio size="small" />}
+                    label={`Selected (${selectedSpotIds.length})`}
+                    disabled={selectedSpotIds.length === 0}
+                  />
+                </RadioGroup>
+              </FormControl>
+
+              {!fry ? (
+                <Alert severity="info">
+                  At least {MIN_FRY_CENTROIDS} polygon spots are needed ({centroids.length} found).
+                </Alert>
+              ) : (
+                <>
+                  <Typography variant="body2" color="text.secondary">
+                    {fry.centroidCount} centroids · {fry.points.length} Fry points · mean spacing{' '}
+                    {fry.meanNearestNeighbor.toFixed(1)} px
+                  </Typography>
+
+                  {!fry.autoEllipse && (
+                    <Alert severity="warning">
+                      The central vacancy could not be fitted automatically. Fit it by hand.
+                    </Alert>
+                  )}
+
+                  {ellipse ? (
+                    <Box>
+                      <Typography variant="body2" gutterBottom>
+                        Axial ratio: <strong>{ratio.toFixed(2)}</strong>
+                      </Typography>
+                      <Slider
+                        size="small"
+                        value={Math.min(ratio, MAX_RATIO)}
+                        min={1}
+                        max={MAX_RATIO}
+                        step={0.01}
+                        onChange={(_, value) => adjustEllipse({ ratio: value as number })}
+                      />
+                      <Typography variant="body2" gutterBottom>
+                        Long axis: <strong>{ellipse.orientation.toFixed(0)}°</strong>
+                      </Typography>
+                      <Slider
+                        size="small"
+                        value={ellipse.orientation}
+                        min={0}
+                        max={180}
+                        step={1}
+                        onChange={(_, value) => adjustEllipse({ orientation: value as number })}
+                      />
+                      <Typography variant="body2" gutterBottom>
+                        Size: <strong>{meanRadius.toFixed(1)} px</strong>
+                      </Typography>
+                      <Slider
+                        size="small"
+                        value={meanRadius}
+                        min={fry.extent * 0.05}
+                        max={fry.extent}
+                        step={fry.extent / 200}
+                        onChange={(_, value) => adjustEllipse({ meanRadius: value as number })}
+                      />
+                      <Button
+                        size="small"
+                        startIcon={<AutoFitIcon />}
+                        onClick={handleAutoFit}
+                        disabled={!fry.autoEllipse || fitMethod === 'auto'}
+                      >
+                        Auto-fit
+                      </Button>
+                    </Box>
+                  ) : (
+                    <Button size="small" variant="outlined" onClick={handleStartManual}>
+                      Fit Manually
+                    </Button>
+                  )}
+
+                  {analysis && (
+                    <>
+                      <Divider />
+                      <Box>
+                        <Typography variant="caption" color="text.secondary">
+                          RESULT ({analysis.fitMethod === 'auto' ? 'auto-fit' : 'adjusted'})
+                        </Typography>
+                        <Typography variant="body2">
+                          Strain ratio Rs: <strong>{analysis.strainRatio.toFixed(2)}</strong>
+                        </Typography>
+                        <Typography variant="body2">
+                          Long axis: <strong>{analysis.orientation.toFixed(0)}°</strong> clockwise from image horizontal
+                        </Typography>
+                        {analysis.sectionPlane && analysis.fabricAngle != null && (
+                          <Typography variant="body2">
+                            In {analysis.sectionPlane} section:{' '}
+                            <strong>{analysis.fabricAngle.toFixed(0)}°</strong> from {analysis.sectionPlane[0]} toward{' '}
+                            {analysis.sectionPlane[1]}
+                          </Typography>
+                        )}
+                        {analysis.trend != null && analysis.plunge != null ? (
+                          <Typography variant="body2">
+                            Trend/plunge: <strong>{analysis.trend.toFixed(0)}° / {analysis.plunge.toFixed(0)}°</strong>
+                          </Typography>
+                        ) : (
+                          <Typography variant="caption" color="text.secondary" component="div">
+                            {analysis.sectionPlane
+                              ? 'Add foliation strike/dip and lineation to the micrograph orientation for geographic directions.'
+                              : 'Add top and side edge trend/plunge to the micrograph orientation for geographic directions.'}
+                          </Typography>
+                        )}
+                      </Box>
+                    </>
+                  )}
+                </>
+              )}
+
+              {savedResult && (
+                <Typography variant="caption" color="text.secondary">
+                  Saved: Rs {savedResult.strainRatio.toFixed(2)} at {savedResult.orientation.toFixed(0)}° (
+                  {new Date(savedResult.timestamp).toLocaleDateString()})
+                </Typography>
+              )}
+            </Stack>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<DownloadIcon />} onClick={handleExport} disabled={!analysis}>
+          Export CSV
+        </Button>
+        <Button
+          startIcon={saved ? <CheckIcon /> : <SaveIcon />}
+          onClick={handleSave}
+          disabled={!analysis}
+          color={saved ? 'success' : 'primary'}
+        >
+          {saved ? 'Saved' : 'Save to Micrograph'}
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
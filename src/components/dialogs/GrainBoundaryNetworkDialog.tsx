@@ -0,0 +1,371 @@
+/**
+ * Grain Boundary Network Dialog
+ *
+ * Boundary network topology of the active micrograph's polygon spots:
+ * - Shared boundaries and triple junctions from selected or all polygon
+ *   spots, with a contact tolerance for gaps and overlaps between outlines
+ * - Phase-pair boundary lengths, contact frequencies, curvature and
+ *   straightness (e.g. Qz–Qz vs. Qz–Fsp)
+ * - Dihedral angles at triple junctions by phase, and junction types
+ * - Overlay of the boundaries on the micrograph, colored by phase pair
+ * - Statistics saved to the micrograph's grain boundary info; network
+ *   exported as CSV
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Slider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Switch,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Save as SaveIcon,
+  Check as CheckIcon,
+  Hub as AnalyzeIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '@/store';
+import {
+  getNetworkGrains,
+  buildBoundaryNetwork,
+  calculateBoundaryNetworkStats,
+  getPhasePairColors,
+  applyBoundaryStatistics,
+  exportBoundaryNetworkToCSV,
+  DEFAULT_BOUNDARY_NETWORK_OPTIONS,
+  type BoundaryNetwork,
+} from '@/services/grainBoundaries';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface GrainBoundaryNetworkDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type GrainSource = 'selected' | 'all';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fewer polygon spots than this share no useful network */
+const MIN_NETWORK_GRAINS = 3;
+
+const MAX_TOLERANCE = 20;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function GrainBoundaryNetworkDialog({ open, onClose }: GrainBoundaryNetworkDialogProps) {
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const selectedSpotIds = useAppStore((s) => s.selectedSpotIds);
+  const updateMicrographMetadata = useAppStore((s) => s.updateMicrographMetadata);
+  const overlayNetwork = useAppStore((s) => s.grainBoundaryNetwork);
+  const setGrainBoundaryNetwork = useAppStore((s) => s.setGrainBoundaryNetwork);
+
+  const [source, setSource] = useState<GrainSource>('all');
+  const [tolerance, setTolerance] = useState(DEFAULT_BOUNDARY_NETWORK_OPTIONS.tolerance);
+  const [network, setNetwork] = useState<BoundaryNetwork | null>(null);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [saved, setSaved] = useState(false);
+
+  const micrograph = activeMicrographId ? micrographIndex.get(activeMicrographId) || null : null;
+
+  // Default to the selection when enough spots are selected; pick up the
+  // network currently shown on this micrograph
+  useEffect(() => {
+    if (open) {
+      setSource(selectedSpotIds.length >= MIN_NETWORK_GRAINS ? 'selected' : 'all');
+      const current = overlayNetwork?.micrographId === activeMicrographId ? overlayNetwork : null;
+      setNetwork(current);
+      setShowOverlay(!!current || !overlayNetwork);
+      if (current) setTolerance(current.options.tolerance);
+    }
+  }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const grains = useMemo(() => {
+    const selected = new Set(selectedSpotIds);
+    const spots = (micrograph?.spots || []).filter((spot) => source === 'all' || selected.has(spot.id));
+    return getNetworkGrains(spots);
+  }, [micrograph?.spots, selectedSpotIds, source]);
+
+  const stats = useMemo(() => (network ? calculateBoundaryNetworkStats(network) : null), [network]);
+  const colors = useMemo(() => (network ? getPhasePairColors(network) : new Map<string, string>()), [network]);
+
+  const micronsPerPixel = micrograph?.scalePixelsPerCentimeter ? 10000 / micrograph.scalePixelsPerCentimeter : null;
+  const unit = micronsPerPixel ? 'µm' : 'px';
+  const scale = micronsPerPixel ?? 1;
+
+  const handleAnalyze = useCallback(() => {
+    if (!micrograph) return;
+    const result = buildBoundaryNetwork(micrograph.id, grains, { tolerance });
+    console.log(
+      '[GrainBoundaryNetwork] Built network:',
+      result.edges.length,
+      'boundaries,',
+      result.junctions.length,
+      'triple junctions from',
+      grains.length,
+      'grains'
+    );
+    setNetwork(result);
+    if (showOverlay) setGrainBoundaryNetwork(result);
+  }, [micrograph, grains, tolerance, showOverlay, setGrainBoundaryNetwork]);
+
+  const handleToggleOverlay = useCallback(
+    (show: boolean) => {
+      setShowOverlay(show);
+      if (show && network) setGrainBoundaryNetwork(network);
+      else if (!show && overlayNetwork?.micrographId === activeMicrographId) setGrainBoundaryNetwork(null);
+    },
+    [network, overlayNetwork, activeMicrographId, setGrainBoundaryNetwork]
+  );
+
+  const handleSave = useCallback(() => {
+    if (!micrograph || !network || !stats) return;
+    updateMicrographMetadata(micrograph.id, {
+      grainBoundaryInfo: applyBoundaryStatistics(micrograph.grainBoundaryInfo, network, stats, micronsPerPixel),
+    });
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }, [micrograph, network, stats, micronsPerPixel, updateMicrographMetadata]);
+
+  const handleExport = useCallback(async () => {
+    if (!network || !stats) return;
+    try {
+      const defaultName = `grain-boundary-network-${new Date().toISOString().slice(0, 10)}.csv`;
+      await window.api?.saveTextFile(exportBoundaryNetworkToCSV(network, stats, micronsPerPixel), defaultName, 'csv');
+    } catch (error) {
+      console.error('Failed to export grain boundary network:', error);
+    }
+  }, [network, stats, micronsPerPixel]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Grain Boundary Network</DialogTitle>
+      <DialogContent dividers>
+        {!micrograph ? (
+          <Typography color="text.secondary" sx={{ py: 2 }}>
+            Open a micrograph to analyze the boundaries between its grains.
+          </Typography>
+        ) : (
+          <Stack spacing={2}>
+            {/* Controls */}
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+              <FormControl component="fieldset" size="small">
+                <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Grains</FormLabel>
+                <RadioGroup row value={source} onChange={(e) => setSource(e.target.value as GrainSource)}>
+                  <FormControlLabel value="all" control={<Radio size="small" />} label="All polygon spots" />
+                  <FormControlLabel
+                    value="selected"
+                    control={<Radio size="small" />}
+                    label={`Selected (${selectedSpotIds.length})`}
+                    disabled={selectedSpotIds.length === 0}
+                  />
+                </RadioGroup>
+              </FormControl>
+              <Box sx={{ flex: '1 1 200px', minWidth: 200 }}>
+                <Typography variant="body2" gutterBottom>
+                  Contact tolerance: <strong>{tolerance} px</strong>
+                </Typography>
+                <Slider
+                  size="small"
+                  value={tolerance}
+                  min={1}
+                  max={MAX_TOLERANCE}
+                  step={1}
+                  onChange={(_, value) => setTolerance(value as number)}
+                />
+              </Box>
+              <Button
+                variant="contained"
+                startIcon={<AnalyzeIcon />}
+                onClick={handleAnalyze}
+                disabled={grains.length < MIN_NETWORK_GRAINS}
+                sx={{ alignSelf: 'center' }}
+              >
+                Analyze
+              </Button>
+            </Box>
+
+            {grains.length < MIN_NETWORK_GRAINS && (
+              <Alert severity="info">
+                At least {MIN_NETWORK_GRAINS} adjacent polygon spots are needed ({grains.length} found).
+              </Alert>
+            )}
+
+            {network && stats && (
+              <>
+                <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                    {stats.connectedGrainCount} of {stats.grainCount} grains share boundaries · {stats.segmentCount}{' '}
+                    boundary segments · {(stats.totalLength * scale).toFixed(1)} {unit} total ·{' '}
+                    {stats.tripleJunctionCount} triple junctions · {stats.endNodeCount} free ends
+                  </Typography>
+                  <FormControlLabel
+                    control={
+                      <Switch size="small" checked={showOverlay} onChange={(e) => handleToggleOverlay(e.target.checked)} />
+                    }
+                    label="Show on micrograph"
+                  />
+                </Box>
+
+                {stats.segmentCount === 0 && (
+                  <Alert severity="warning">
+                    No shared boundaries found. Increase the contact tolerance if neighbouring outlines leave gaps.
+                  </Alert>
+                )}
+
+                {/* Phase pairs */}
+                {stats.phasePairs.length > 0 && (
+                  <TableContainer sx={{ maxHeight: 260 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Phase Pair</TableCell>
+                          <TableCell align="right">Segments</TableCell>
+                          <TableCell align="right">Contacts</TableCell>
+                          <TableCell align="right">Length ({unit})</TableCell>
+                          <TableCell align="right">Length %</TableCell>
+                          <TableCell align="right">Mean ({unit})</TableCell>
+                          <TableCell align="right">Curvature (rad/{unit})</TableCell>
+                          <TableCell align="right">Straightness</TableCell>
+                          <TableCell align="right">Opposite Angle</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {stats.phasePairs.map((pair) => (
+                          <TableRow key={pair.pairKey} hover>
+                            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                              <Box
+                                component="span"
+                                sx={{
+                                  display: 'inline-block',
+                                  width: 12,
+                                  height: 12,
+                                  mr: 1,
+                                  borderRadius: 0.5,
+                                  verticalAlign: 'middle',
+                                  bgcolor: colors.get(pair.pairKey),
+                                }}
+                              />
+                              {pair.pairKey}
+                            </TableCell>
+                            <TableCell align="right">{pair.segmentCount}</TableCell>
+                            <TableCell align="right">{(pair.contactFrequency * 100).toFixed(1)}%</TableCell>
+                            <TableCell align="right">{(pair.totalLength * scale).toFixed(1)}</TableCell>
+                            <TableCell align="right">{(pair.lengthFraction * 100).toFixed(1)}%</TableCell>
+                            <TableCell align="right">{(pair.meanSegmentLength * scale).toFixed(1)}</TableCell>
+                            <TableCell align="right">{(pair.meanCurvature / scale).toFixed(4)}</TableCell>
+                            <TableCell align="right">{pair.meanStraightness.toFixed(3)}</TableCell>
+                            <TableCell align="right">
+                              {pair.medianDihedralAngle !== null ? `${pair.medianDihedralAngle.toFixed(0)}°` : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+
+                {/* Dihedral angles and junction types */}
+                <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+                  {stats.dihedralAngles.length > 0 && (
+                    <TableContainer sx={{ flex: '1 1 300px', maxHeight: 200 }}>
+                      <Table size="small" stickyHeader>
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Dihedral Angles In</TableCell>
+                            <TableCell align="right">n</TableCell>
+                            <TableCell align="right">Median</TableCell>
+                            <TableCell align="right">Mean ± SD</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {stats.dihedralAngles.map((phase) => (
+                            <TableRow key={phase.phase} hover>
+                              <TableCell>{phase.phase}</TableCell>
+                              <TableCell align="right">{phase.count}</TableCell>
+                              <TableCell align="right">{phase.median.toFixed(0)}°</TableCell>
+                              <TableCell align="right">
+                                {phase.mean.toFixed(0)}° ± {phase.stdDev.toFixed(0)}°
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  )}
+                  {stats.junctionTypes.length > 0 && (
+                    <TableContainer sx={{ flex: '1 1 240px', maxHeight: 200 }}>
+                      <Table size="small" stickyHeader>
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Junction Phases</TableCell>
+                            <TableCell align="right">Count</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {stats.junctionTypes.map((type) => (
+                            <TableRow key={type.key} hover>
+                              <TableCell>{type.key}</TableCell>
+                              <TableCell align="right">{type.count}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  )}
+                </Box>
+
+                <Typography variant="caption" color="text.secondary">
+                  Opposite angle: median dihedral angle in the third grain where boundaries of the pair meet it
+                  (120° for equilibrated textures).
+                </Typography>
+              </>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<DownloadIcon />} onClick={handleExport} disabled={!stats || stats.segmentCount === 0}>
+          Export CSV
+        </Button>
+        <Button
+          startIcon={saved ? <CheckIcon /> : <SaveIcon />}
+          onClick={handleSave}
+          disabled={!stats || stats.segmentCount === 0}
+          color={saved ? 'success' : 'primary'}
+        >
+          {saved ? 'Saved' : 'Save to Grain Boundary Info'}
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -2,18 +2,24 @@
  * Grain Detection Dialog
  *
  * Allows users to detect grain boundaries using computer vision.
- * Supports two detection methods:
+ * Supports three detection methods:
  * - FastSAM (AI-based, recommended): Uses FastSAM neural network for superior accuracy
  * - OpenCV (traditional): Uses edge detection + watershed segmentation
+ * - Registered models: user ONNX models (instance masks, semantic class maps
+ *   or boundary maps); semantic models produce mineral-labelled spots
  *
  * Features:
  * - Interactive preview with detected boundaries overlaid
  * - Adjustable detection parameters
  * - Preset selection for common rock types (OpenCV only)
  * - Spot generation from detected grains
+ * - Full-resolution tiled detection that runs in the background and is
+ *   reviewed in the preview when it finishes
+ * - Accuracy evaluation against hand-traced grains, with a parameter sweep
+ *   that ranks settings and saves validated presets
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -39,6 +45,8 @@ import {
   ToggleButton,
   ToggleButtonGroup,
   Chip,
+  LinearProgress,
+  Paper,
 } from '@mui/material';
 import {
   ZoomIn,
@@ -46,18 +54,36 @@ import {
   FitScreen,
   AutoAwesome,
   Visibility,
+  GridOn,
+  Delete,
+  Add,
+  ModelTraining,
 } from '@mui/icons-material';
-import { Stage, Layer, Image as KonvaImage, Line, Rect } from 'react-konva';
-import { useAppStore } from '@/store';
+import { Stage, Layer, Group, Image as KonvaImage, Line, Rect } from 'react-konva';
+import { useAppStore, runAsHistoryStep } from '@/store';
 import {
   type DetectionSettings,
   type DetectionResult,
   type DetectedGrain,
+  type DetectionWindow,
+  type TiledDetectionProgress,
   BUILT_IN_PRESETS,
   DEFAULT_DETECTION_SETTINGS,
   DEFAULT_SPOT_GENERATION_OPTIONS,
+  DEFAULT_TILED_DETECTION_OPTIONS,
+  grainsToSpotGeometry,
+  planDetectionWindows,
+  runTiledDetection,
 } from '@/services/grainDetection';
 import * as fastsamInference from '@/services/fastsamInference';
+import {
+  type RegisteredModel,
+  type SegmentationOutputType,
+  runSegmentationModel,
+  unloadSegmentationModel,
+} from '@/services/segmentationModels';
+import { getMineralColor } from '@/types/point-count-types';
+import { DetectionEvaluationPanel } from './DetectionEvaluationPanel';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============================================================================
@@ -67,11 +93,13 @@ import { v4 as uuidv4 } from 'uuid';
 interface GrainDetectionDialogProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Reopens the dialog (from the background tiled detection indicator) */
+  onOpen?: () => void;
   micrographId: string | null;
 }
 
 type LoadingState = 'idle' | 'loading-opencv' | 'loading-image' | 'detecting' | 'ready' | 'error';
-type DetectionMethod = 'fastsam' | 'opencv';
+type DetectionMethod = 'fastsam' | 'opencv' | 'model';
 
 // FastSAM-specific settings
 interface FastSAMSettings {
@@ -88,6 +116,24 @@ const DEFAULT_FASTSAM_SETTINGS: FastSAMSettings = {
   betterQuality: true,
 };
 
+// Full-resolution image in the tile cache
+interface TileInfo {
+  hash: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  tilePadding: number;
+}
+
+// Background tiled detection run (survives closing the dialog)
+interface TiledJob {
+  micrographId: string;
+  status: 'running' | 'cancelling' | 'done' | 'error';
+  progress: TiledDetectionProgress | null;
+  result: DetectionResult | null;
+  error: string | null;
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -102,6 +148,13 @@ const GRAIN_STROKE_COLOR = '#FF9800'; // Orange
 const GRAIN_STROKE_WIDTH = 2;
 const GRAIN_FILL_COLOR = 'rgba(255, 152, 0, 0.15)';
 
+// Output types of registered models, as shown in the model selector
+const MODEL_OUTPUT_LABELS: Record<SegmentationOutputType, string> = {
+  'instance-masks': 'Instance masks',
+  semantic: 'Semantic classes',
+  boundary: 'Boundary map',
+};
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -109,6 +162,7 @@ const GRAIN_FILL_COLOR = 'rgba(255, 152, 0, 0.15)';
 export function GrainDetectionDialog({
   isOpen,
   onClose,
+  onOpen,
   micrographId,
 }: GrainDetectionDialogProps) {
   // Refs
@@ -116,6 +170,7 @@ export function GrainDetectionDialog({
   const containerRef = useRef<HTMLDivElement>(null);
   const detectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const workerRef = useRef<Worker | null>(null);
+  const sweepWorkerRef = useRef<Worker | null>(null); // OpenCV worker for parameter sweeps
   const contourWorkerRef = useRef<Worker | null>(null); // Worker for FastSAM contour extraction
   const contourWorkerReadyRef = useRef<boolean>(false); // Whether OpenCV is loaded in contour worker
 
@@ -125,6 +180,7 @@ export function GrainDetectionDialog({
   // Image state
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [imageData, setImageData] = useState<ImageData | null>(null);
+  const [tileInfo, setTileInfo] = useState<TileInfo | null>(null);
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
   const [error, setError] = useState<string | null>(null);
 
@@ -142,6 +198,10 @@ export function GrainDetectionDialog({
   const [downloadProgress, setDownloadProgress] = useState({ percent: 0, status: '' });
   const downloadProgressUnsubRef = useRef<(() => void) | null>(null);
 
+  // Registered segmentation models
+  const [registeredModels, setRegisteredModels] = useState<RegisteredModel[]>([]);
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
+
   // OpenCV detection settings
   const [settings, setSettings] = useState<DetectionSettings>(DEFAULT_DETECTION_SETTINGS);
   const [selectedPreset, setSelectedPreset] = useState<string>('custom');
@@ -154,6 +214,10 @@ export function GrainDetectionDialog({
   const [isDetecting, setIsDetecting] = useState(false);
   const [detectionProgress, setDetectionProgress] = useState({ step: '', percent: 0 });
 
+  // Full-resolution tiled detection
+  const [tiledJob, setTiledJob] = useState<TiledJob | null>(null);
+  const tiledAbortRef = useRef<AbortController | null>(null);
+
   // Spot generation options
   const [namingPattern, setNamingPattern] = useState(DEFAULT_SPOT_GENERATION_OPTIONS.namingPattern);
   const [spotColor, setSpotColor] = useState(DEFAULT_SPOT_GENERATION_OPTIONS.color);
@@ -165,7 +229,14 @@ export function GrainDetectionDialog({
   const micrographIndex = useAppStore((s) => s.micrographIndex);
   const addSpot = useAppStore((s) => s.addSpot);
   const enterQuickEditMode = useAppStore((s) => s.enterQuickEditMode);
+  const selectMicrograph = useAppStore((s) => s.selectMicrograph);
+  const userPresets = useAppStore((s) => s.grainDetectionPresets);
+  const deleteGrainDetectionPreset = useAppStore((s) => s.deleteGrainDetectionPreset);
+  const allPresets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
   const micrograph = micrographId ? micrographIndex.get(micrographId) : null;
+  const selectedModel = registeredModels.find((m) => m.id === selectedModelId) ?? null;
+  // Semantic and boundary models outline regions themselves (no confidence/overlap filtering)
+  const regionModelSelected = detectionMethod === 'model' && selectedModel?.manifest.output.type !== 'instance-masks';
 
   // Image dimensions - use actual loaded image size, not original micrograph size
   // This ensures polygon coordinates align with the displayed image
@@ -176,6 +247,12 @@ export function GrainDetectionDialog({
   const width = containerWidth;
   const height = CANVAS_HEIGHT;
 
+  // A finished tiled run for this micrograph replaces the live preview until discarded
+  const tiledBusy = tiledJob?.status === 'running' || tiledJob?.status === 'cancelling';
+  const tiledResult =
+    tiledJob?.status === 'done' && tiledJob.micrographId === micrographId ? tiledJob.result : null;
+  const shownResult = tiledResult ?? detectionResult;
+
   // ============================================================================
   // EFFECTS
   // ============================================================================
@@ -207,6 +284,7 @@ export function GrainDetectionDialog({
     setError(null);
     setImage(null);
     setImageData(null);
+    setTileInfo(null);
     setLoadingState('idle');
   }, [isOpen, micrographId]);
 
@@ -238,6 +316,21 @@ export function GrainDetectionDialog({
     checkFastSAM();
   }, [isOpen]);
 
+  // Load registered segmentation models when dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    window.api?.models?.list().then((result) => {
+      if (!result?.success) {
+        console.error('[GrainDetection] Error listing models:', result?.error);
+        return;
+      }
+      const models = (result.models || []).filter((m) => m.available);
+      setRegisteredModels(models);
+      setSelectedModelId((id) => (id && models.some((m) => m.id === id) ? id : models[0]?.id ?? null));
+    });
+  }, [isOpen]);
+
   // Cleanup download progress listener on unmount
   useEffect(() => {
     return () => {
@@ -326,6 +419,13 @@ export function GrainDetectionDialog({
         if (!tileData || !mounted) {
           throw new Error('Failed to load tile data');
         }
+        setTileInfo({
+          hash: tileData.hash,
+          width: tileData.metadata.width,
+          height: tileData.metadata.height,
+          tileSize: tileData.metadata.tileSize,
+          tilePadding: tileData.metadata.tilePadding || 0,
+        });
 
         // Load medium resolution for detection
         let dataUrl = await window.api?.loadMedium(tileData.hash);
@@ -384,6 +484,10 @@ export function GrainDetectionDialog({
         workerRef.current.terminate();
         workerRef.current = null;
       }
+      if (sweepWorkerRef.current) {
+        sweepWorkerRef.current.terminate();
+        sweepWorkerRef.current = null;
+      }
       // NOTE: contourWorkerRef is intentionally NOT terminated here.
       // Its lifecycle is owned by the pre-init effect (keyed on [isOpen]) so
       // it survives reference changes to `micrograph`/`project` that re-fire
@@ -407,8 +511,9 @@ export function GrainDetectionDialog({
   }, [image, loadingState, width, height]);
 
   // Debounced detection when settings change
+  // (paused while a tiled run holds the contour worker or its result is under review)
   useEffect(() => {
-    if (!imageData || loadingState !== 'ready') return;
+    if (!imageData || loadingState !== 'ready' || tiledBusy || tiledResult) return;
 
     // Clear previous timeout
     if (detectionTimeoutRef.current) {
@@ -425,7 +530,7 @@ export function GrainDetectionDialog({
         clearTimeout(detectionTimeoutRef.current);
       }
     };
-  }, [settings, fastsamSettings, imageData, loadingState, detectionMethod]);
+  }, [settings, fastsamSettings, imageData, loadingState, detectionMethod, selectedModelId, tiledBusy, tiledResult]);
 
   // ============================================================================
   // MODEL DOWNLOAD
@@ -468,20 +573,167 @@ export function GrainDetectionDialog({
     }
   }, []);
 
+  // ============================================================================
+  // MODEL REGISTRY
+  // ============================================================================
+
+  // Register a model from its manifest and switch to it
+  const handleRegisterModel = useCallback(async () => {
+    const result = await window.api?.models?.register();
+    if (!result || result.canceled) return;
+    if (!result.success || !result.model) {
+      setError(result.error || 'Failed to register model');
+      return;
+    }
+
+    // Re-registering may point an existing id at a new model file
+    unloadSegmentationModel();
+    const model = result.model;
+    console.log('[GrainDetection] Registered model:', model.manifest.name);
+    setRegisteredModels((models) => [...models.filter((m) => m.id !== model.id), model]);
+    setSelectedModelId(model.id);
+    setDetectionMethod('model');
+    setError(null);
+  }, []);
+
+  // Remove the selected model from the registry (its files are kept)
+  const handleRemoveModel = useCallback(async () => {
+    if (!selectedModelId) return;
+    const result = await window.api?.models?.remove(selectedModelId);
+    if (!result?.success) {
+      setError(result?.error || 'Failed to remove model');
+      return;
+    }
+
+    unloadSegmentationModel();
+    const remaining = registeredModels.filter((m) => m.id !== selectedModelId);
+    setRegisteredModels(remaining);
+    setSelectedModelId(remaining[0]?.id ?? null);
+  }, [selectedModelId, registeredModels]);
+
   // ============================================================================
   // DETECTION
   // ============================================================================
 
-  // Main detection dispatcher - routes to FastSAM or OpenCV based on selected method
+  // Load the FastSAM model into the renderer if it is not cached yet
+  const ensureFastSAMModel = useCallback(async () => {
+    if (fastsamInference.isModelLoaded()) {
+      console.log('[GrainDetection] Model already loaded, skipping');
+      return;
+    }
+
+    console.log('[GrainDetection] Loading model bytes (first run)...');
+    setDetectionProgress({ step: 'Loading model...', percent: 5 });
+    const modelResult = await window.api?.fastsam?.loadModelBytes();
+    if (!modelResult?.success || !modelResult.buffer) {
+      throw new Error(modelResult?.error || 'Failed to load FastSAM model');
+    }
+    console.log('[GrainDetection] Model bytes received:', (modelResult.buffer.byteLength / 1024 / 1024).toFixed(1), 'MB');
+    await fastsamInference.loadModel(modelResult.buffer, (progress) => {
+      setDetectionProgress({ step: progress.step, percent: Math.min(progress.percent * 0.1, 10) });
+    });
+  }, []);
+
+  // Extract grain contours from FastSAM masks in the pre-initialized contour worker
+  const extractMaskContours = useCallback(async (
+    masks: fastsamInference.RawMask[],
+    originalWidth: number,
+    originalHeight: number,
+    previewWidth: number,
+    previewHeight: number,
+    onProgress?: (current: number, total: number) => void
+  ): Promise<DetectedGrain[]> => {
+    // Wait for contour worker to be ready (pre-initialized on dialog open)
+    if (!contourWorkerRef.current || !contourWorkerReadyRef.current) {
+      console.log('[GrainDetection] Waiting for contour worker initialization...');
+      setDetectionProgress({ step: 'Waiting for OpenCV...', percent: 50 });
+      const waitStart = Date.now();
+      while ((!contourWorkerRef.current || !contourWorkerReadyRef.current) && Date.now() - waitStart < 15000) {
+        await new Promise((r) => setTimeout(r, 100));
+      }
+      if (!contourWorkerRef.current || !contourWorkerReadyRef.current) {
+        throw new Error('Contour worker failed to initialize (OpenCV not ready)');
+      }
+    }
+
+    const contourWorker = contourWorkerRef.current;
+    return new Promise<DetectedGrain[]>((resolve, reject) => {
+      contourWorker.onmessage = (event) => {
+        const message = event.data;
+
+        if (message.type === 'progress') {
+          onProgress?.(message.current, message.total);
+        } else if (message.type === 'complete') {
+          console.log('[GrainDetection] Worker complete:', message.grains.length, 'grains');
+          resolve(message.grains);
+        } else if (message.type === 'error') {
+          console.error('[GrainDetection] Worker error:', message.message);
+          reject(new Error(message.message));
+        }
+      };
+
+      contourWorker.onerror = (error) => {
+        console.error('[GrainDetection] Worker error:', error);
+        reject(new Error('Contour extraction worker failed'));
+      };
+
+      // Handle empty masks case
+      if (masks.length === 0) {
+        resolve([]);
+        return;
+      }
+
+      // Send masks directly (worker already has OpenCV initialized)
+      contourWorker.postMessage({
+        type: 'process-masks',
+        masks,
+        originalWidth,
+        originalHeight,
+        previewWidth,
+        previewHeight,
+      });
+    });
+  }, []);
+
+  // Run a registered model and return its grains in the pixels of the given image.
+  // Instance-mask models go through the contour worker like FastSAM.
+  const detectWithModel = useCallback(async (
+    model: RegisteredModel,
+    imgData: ImageData,
+    params: fastsamInference.FastSAMParams,
+    onProgress?: (step: string, percent: number) => void
+  ): Promise<DetectedGrain[]> => {
+    const result = await runSegmentationModel(model, imgData, params, (progress) => {
+      // Scale inference progress to 0-50% range
+      onProgress?.(progress.step, Math.min(progress.percent * 0.5, 50));
+    });
+    if (result.kind === 'grains') {
+      return result.grains;
+    }
+
+    onProgress?.('Processing masks...', 50);
+    return extractMaskContours(
+      result.detection.masks,
+      result.detection.preprocessInfo.origW,
+      result.detection.preprocessInfo.origH,
+      imgData.width,
+      imgData.height,
+      (current, total) => onProgress?.(`Processing mask ${current}/${total}...`, Math.round(55 + (current / total) * 40))
+    );
+  }, [extractMaskContours]);
+
+  // Main detection dispatcher - routes to FastSAM, OpenCV or a registered model based on selected method
   const runDetection = useCallback(async () => {
     if (!imageData || isDetecting) return;
 
     if (detectionMethod === 'fastsam') {
       await runFastSAMDetection();
+    } else if (detectionMethod === 'model') {
+      await runModelDetection();
     } else {
       await runOpenCVDetection(imageData, settings);
     }
-  }, [detectionMethod, imageData, settings, fastsamSettings]);
+  }, [detectionMethod, selectedModelId, imageData, settings, fastsamSettings]);
 
 
   // FastSAM-based detection (AI model) with GrainSight-compatible contour extraction
@@ -500,20 +752,7 @@ export function GrainDetectionDialog({
 
     try {
       // Step 1: Load model if not already cached
-      if (!fastsamInference.isModelLoaded()) {
-        console.log('[GrainDetection] Step 1: Loading model bytes (first run)...');
-        setDetectionProgress({ step: 'Loading model...', percent: 5 });
-        const modelResult = await window.api?.fastsam?.loadModelBytes();
-        if (!modelResult?.success || !modelResult.buffer) {
-          throw new Error(modelResult?.error || 'Failed to load FastSAM model');
-        }
-        console.log('[GrainDetection] Model bytes received:', (modelResult.buffer.byteLength / 1024 / 1024).toFixed(1), 'MB');
-        await fastsamInference.loadModel(modelResult.buffer, (progress) => {
-          setDetectionProgress({ step: progress.step, percent: Math.min(progress.percent * 0.1, 10) });
-        });
-      } else {
-        console.log('[GrainDetection] Step 1: Model already loaded, skipping');
-      }
+      await ensureFastSAMModel();
 
       // Step 2: Run FastSAM inference in renderer via onnxruntime-web
       console.log('[GrainDetection] Step 2: Running FastSAM inference (onnxruntime-web)...');
@@ -550,63 +789,21 @@ export function GrainDetectionDialog({
       console.log('[GrainDetection] Step 3: Extracting contours via worker...');
       setDetectionProgress({ step: 'Processing masks...', percent: 50 });
 
-      const totalMasks = result.masks.length;
-
-      // Wait for contour worker to be ready (pre-initialized on dialog open)
-      if (!contourWorkerRef.current || !contourWorkerReadyRef.current) {
-        console.log('[GrainDetection] Waiting for contour worker initialization...');
-        setDetectionProgress({ step: 'Waiting for OpenCV...', percent: 50 });
-        const waitStart = Date.now();
-        while ((!contourWorkerRef.current || !contourWorkerReadyRef.current) && Date.now() - waitStart < 15000) {
-          await new Promise((r) => setTimeout(r, 100));
-        }
-        if (!contourWorkerRef.current || !contourWorkerReadyRef.current) {
-          throw new Error('Contour worker failed to initialize (OpenCV not ready)');
-        }
-      }
-
-      const contourWorker = contourWorkerRef.current;
-      const allGrains: DetectedGrain[] = await new Promise<DetectedGrain[]>((resolve, reject) => {
-        contourWorker.onmessage = (event) => {
-          const message = event.data;
-
-          if (message.type === 'progress') {
-            // Map progress (1-N) to our range (55-95)
-            const progressPercent = 55 + (message.current / message.total) * 40;
-            setDetectionProgress({
-              step: `Processing mask ${message.current}/${message.total}...`,
-              percent: Math.round(progressPercent),
-            });
-          } else if (message.type === 'complete') {
-            console.log('[GrainDetection] Worker complete:', message.grains.length, 'grains');
-            resolve(message.grains);
-          } else if (message.type === 'error') {
-            console.error('[GrainDetection] Worker error:', message.message);
-            reject(new Error(message.message));
-          }
-        };
-
-        contourWorker.onerror = (error) => {
-          console.error('[GrainDetection] Worker error:', error);
-          reject(new Error('Contour extraction worker failed'));
-        };
-
-        // Handle empty masks case
-        if (totalMasks === 0) {
-          resolve([]);
-          return;
+      const allGrains = await extractMaskContours(
+        result.masks,
+        originalWidth,
+        originalHeight,
+        previewWidth,
+        previewHeight,
+        (current, total) => {
+          // Map progress (1-N) to our range (55-95)
+          const progressPercent = 55 + (current / total) * 40;
+          setDetectionProgress({
+            step: `Processing mask ${current}/${total}...`,
+            percent: Math.round(progressPercent),
+          });
         }
-
-        // Send masks directly (worker already has OpenCV initialized)
-        contourWorker.postMessage({
-          type: 'process-masks',
-          masks: result.masks,
-          originalWidth,
-          originalHeight,
-          previewWidth,
-          previewHeight,
-        });
-      });
+      );
 
       // Step 4: Create detection result
       console.log('[GrainDetection] Step 4: Finalizing results...');
@@ -633,7 +830,49 @@ export function GrainDetectionDialog({
       // Don't terminate the contour worker on error - it's shared across detection runs
       // and managed by the dialog lifecycle (cleanup on close)
     }
-  }, [micrograph, project, imageData, fastsamSettings, settings, imageWidth, imageHeight]);
+  }, [micrograph, project, imageData, fastsamSettings, settings, imageWidth, imageHeight, ensureFastSAMModel, extractMaskContours]);
+
+  // Detection with a registered segmentation model (inference in renderer, like FastSAM)
+  const runModelDetection = useCallback(async () => {
+    if (!imageData || !selectedModel) return;
+
+    console.log('[GrainDetection] Running model', selectedModel.manifest.name, 'with settings:', fastsamSettings);
+    setIsDetecting(true);
+    setError(null);
+    setDetectionProgress({ step: `Starting ${selectedModel.manifest.name}...`, percent: 0 });
+
+    // Yield to event loop so React can render the detecting overlay
+    await new Promise((r) => setTimeout(r, 0));
+
+    const startTime = Date.now();
+    try {
+      const grains = await detectWithModel(
+        selectedModel,
+        imageData,
+        {
+          confidenceThreshold: fastsamSettings.confidenceThreshold,
+          iouThreshold: fastsamSettings.iouThreshold,
+          minAreaPercent: fastsamSettings.minAreaPercent,
+        },
+        (step, percent) => setDetectionProgress({ step, percent })
+      );
+
+      setDetectionResult({
+        grains,
+        processingTimeMs: Date.now() - startTime,
+        settings: settings,
+        imageDimensions: { width: imageWidth, height: imageHeight },
+        scaleFactor: 1,
+      });
+      setIsDetecting(false);
+      setDetectionProgress({ step: 'Complete', percent: 100 });
+      console.log('[GrainDetection] Model detection complete:', grains.length, 'grains');
+    } catch (err) {
+      console.error('[GrainDetection] Model detection error:', err);
+      setError(err instanceof Error ? err.message : 'Model detection failed');
+      setIsDetecting(false);
+    }
+  }, [imageData, selectedModel, fastsamSettings, settings, imageWidth, imageHeight, detectWithModel]);
 
   // OpenCV-based detection (traditional edge detection + watershed)
   const runOpenCVDetection = useCallback(async (imgData: ImageData, detectionSettings: DetectionSettings) => {
@@ -720,6 +959,207 @@ export function GrainDetectionDialog({
     });
   }, []);
 
+  // ============================================================================
+  // TILED DETECTION
+  // ============================================================================
+
+  // Run the selected method over full-resolution windows of the tile pyramid.
+  // The run outlives the dialog; its result is reviewed in the preview when done.
+  const handleRunTiled = useCallback(async () => {
+    if (!micrographId || !tileInfo || tiledAbortRef.current) return;
+
+    const controller = new AbortController();
+    tiledAbortRef.current = controller;
+    const method = detectionMethod;
+    const detectionSettings = settings;
+    const samSettings = fastsamSettings;
+    const model = selectedModel;
+    setError(null);
+    setTiledJob({ micrographId, status: 'running', progress: null, result: null, error: null });
+
+    let opencvWorker: Worker | null = null;
+    try {
+      let detect: (windowData: ImageData, window: DetectionWindow) => Promise<DetectedGrain[]>;
+
+      if (method === 'fastsam') {
+        await ensureFastSAMModel();
+        detect = async (windowData) => {
+          const result = await fastsamInference.detectGrains(windowData, {
+            confidenceThreshold: samSettings.confidenceThreshold,
+            iouThreshold: samSettings.iouThreshold,
+            minAreaPercent: samSettings.minAreaPercent,
+          });
+          return extractMaskContours(
+            result.masks,
+            result.preprocessInfo?.origW || windowData.width,
+            result.preprocessInfo?.origH || windowData.height,
+            windowData.width,
+            windowData.height
+          );
+        };
+      } else if (method === 'model') {
+        if (!model) throw new Error('No segmentation model selected');
+        detect = (windowData) =>
+          detectWithModel(model, windowData, {
+            confidenceThreshold: samSettings.confidenceThreshold,
+            iouThreshold: samSettings.iouThreshold,
+            minAreaPercent: samSettings.minAreaPercent,
+          });
+      } else {
+        let opencvScript: string | null = null;
+        try {
+          const script = await window.api?.loadOpencvScript();
+          opencvScript = script && script.length > 0 ? script : null;
+        } catch (err) {
+          console.warn('[GrainDetection] Failed to load OpenCV via IPC, worker will try fetch:', err);
+        }
+
+        // One worker for the whole run (it keeps OpenCV loaded between windows)
+        const worker = new Worker(
+          new URL('@/services/grainDetection/worker.ts', import.meta.url),
+          { type: 'module' }
+        );
+        opencvWorker = worker;
+
+        detect = (windowData) =>
+          new Promise<DetectedGrain[]>((resolve, reject) => {
+            worker.onmessage = (event) => {
+              const message = event.data;
+              if (message.type === 'result') {
+                resolve(message.grains);
+              } else if (message.type === 'error') {
+                reject(new Error(message.message));
+              }
+            };
+            worker.onerror = () => reject(new Error('Detection worker failed'));
+            worker.postMessage({
+              type: 'detect',
+              imageData: windowData,
+              opencvScript,
+              settings: {
+                sensitivity: detectionSettings.sensitivity,
+                minGrainSize: detectionSettings.minGrainSize,
+                edgeContrast: detectionSettings.edgeContrast,
+                simplifyOutlines: detectionSettings.simplifyOutlines,
+                simplifyTolerance: detectionSettings.simplifyTolerance,
+              },
+            });
+          });
+      }
+
+      const result = await runTiledDetection({
+        imageHash: tileInfo.hash,
+        imageWidth: tileInfo.width,
+        imageHeight: tileInfo.height,
+        tileSize: tileInfo.tileSize,
+        tilePadding: tileInfo.tilePadding,
+        options: DEFAULT_TILED_DETECTION_OPTIONS,
+        settings: detectionSettings,
+        detect,
+        onProgress: (progress) =>
+          setTiledJob((job) => (job && job.status === 'running' ? { ...job, progress } : job)),
+        signal: controller.signal,
+      });
+
+      setTiledJob((job) => (job ? { ...job, status: 'done', result } : job));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('[GrainDetection] Tiled detection cancelled');
+        setTiledJob(null);
+      } else {
+        console.error('[GrainDetection] Tiled detection failed:', err);
+        const message = err instanceof Error ? err.message : 'Tiled detection failed';
+        setTiledJob((job) => (job ? { ...job, status: 'error', error: message } : job));
+      }
+    } finally {
+      opencvWorker?.terminate();
+      tiledAbortRef.current = null;
+    }
+  }, [micrographId, tileInfo, detectionMethod, settings, fastsamSettings, selectedModel, ensureFastSAMModel, extractMaskContours, detectWithModel]);
+
+  // Stop after the current window (the contour worker must finish it first)
+  const handleCancelTiled = useCallback(() => {
+    tiledAbortRef.current?.abort();
+    setTiledJob((job) => (job && job.status === 'running' ? { ...job, status: 'cancelling' } : job));
+  }, []);
+
+  // Drop a finished or failed run and return to the live preview
+  const handleDiscardTiled = useCallback(() => {
+    setTiledJob(null);
+  }, []);
+
+  // Open the dialog on the micrograph the run belongs to
+  const handleReviewTiled = useCallback(async () => {
+    if (!tiledJob) return;
+    if (tiledJob.micrographId !== micrographId) {
+      const navigated = await selectMicrograph(tiledJob.micrographId);
+      if (!navigated) return;
+    }
+    onOpen?.();
+  }, [tiledJob, micrographId, selectMicrograph, onOpen]);
+
+  // ============================================================================
+  // EVALUATION
+  // ============================================================================
+
+  // OpenCV detection of the preview image with given settings, for parameter sweeps.
+  // Uses its own worker so the live preview is untouched; OpenCV stays loaded between runs.
+  const detectWithSettings = useCallback(async (detectionSettings: DetectionSettings): Promise<DetectionResult> => {
+    if (!imageData) throw new Error('Image is not loaded');
+
+    let opencvScript: string | null = null;
+    if (!sweepWorkerRef.current) {
+      try {
+        const script = await window.api?.loadOpencvScript();
+        opencvScript = script && script.length > 0 ? script : null;
+      } catch (err) {
+        console.warn('[GrainDetection] Failed to load OpenCV via IPC, worker will try fetch:', err);
+      }
+      sweepWorkerRef.current = new Worker(
+        new URL('@/services/grainDetection/worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+    }
+    const worker = sweepWorkerRef.current;
+
+    return new Promise<DetectionResult>((resolve, reject) => {
+      worker.onmessage = (event) => {
+        const message = event.data;
+        if (message.type === 'result') {
+          resolve({
+            grains: message.grains,
+            processingTimeMs: message.processingTimeMs,
+            settings: detectionSettings,
+            imageDimensions: message.imageDimensions,
+            scaleFactor: message.scaleFactor,
+          });
+        } else if (message.type === 'error') {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = () => reject(new Error('Detection worker failed'));
+      worker.postMessage({
+        type: 'detect',
+        imageData,
+        opencvScript,
+        settings: {
+          sensitivity: detectionSettings.sensitivity,
+          minGrainSize: detectionSettings.minGrainSize,
+          edgeContrast: detectionSettings.edgeContrast,
+          simplifyOutlines: detectionSettings.simplifyOutlines,
+          simplifyTolerance: detectionSettings.simplifyTolerance,
+        },
+      });
+    });
+  }, [imageData]);
+
+  // Apply settings ranked by a parameter sweep
+  const handleApplySweepSettings = useCallback((sweepSettings: DetectionSettings, presetId?: string) => {
+    setDetectionMethod('opencv');
+    setSelectedPreset(presetId || 'custom');
+    setSettings({ ...sweepSettings, presetName: sweepSettings.presetName || 'custom' });
+  }, []);
+
   // ============================================================================
   // SETTINGS HANDLERS
   // ============================================================================
@@ -729,14 +1169,20 @@ export function GrainDetectionDialog({
 
     if (presetId === 'custom') return;
 
-    const preset = BUILT_IN_PRESETS.find((p) => p.id === presetId);
+    const preset = allPresets.find((p) => p.id === presetId);
     if (preset) {
       setSettings({
         ...preset.settings,
         presetName: preset.name,
       });
     }
-  }, []);
+  }, [allPresets]);
+
+  const handleDeletePreset = useCallback(() => {
+    deleteGrainDetectionPreset(selectedPreset);
+    setSelectedPreset('custom');
+    setSettings((prev) => ({ ...prev, presetName: 'custom' }));
+  }, [selectedPreset, deleteGrainDetectionPreset]);
 
   const handleSettingChange = useCallback((key: keyof DetectionSettings, value: number | boolean) => {
     setSelectedPreset('custom');
@@ -850,15 +1296,15 @@ export function GrainDetectionDialog({
   // ============================================================================
 
   const handleGenerate = useCallback(() => {
-    if (!detectionResult || !micrographId || !micrograph) return;
+    if (!shownResult || !micrographId || !micrograph) return;
 
-    const grains = detectionResult.grains;
+    const grains = shownResult.grains;
     console.log('[GrainDetection] Generating', grains.length, 'spots');
 
     // Calculate scale factor from detection image to original image
-    // Detection runs on medium resolution, but spots need full resolution coordinates
-    const detectionWidth = detectionResult.imageDimensions.width;
-    const detectionHeight = detectionResult.imageDimensions.height;
+    // Preview detection runs on medium resolution, but spots need full resolution coordinates
+    const detectionWidth = shownResult.imageDimensions.width;
+    const detectionHeight = shownResult.imageDimensions.height;
     const originalWidth = micrograph.imageWidth || micrograph.width || detectionWidth;
     const originalHeight = micrograph.imageHeight || micrograph.height || detectionHeight;
 
@@ -871,14 +1317,15 @@ export function GrainDetectionDialog({
       scale: `${scaleX.toFixed(2)}x${scaleY.toFixed(2)}`,
     });
 
-    // Create spots from detected grains
-    grains.forEach((grain, index) => {
+    // Create spots from detected grains (one undo step for the whole batch)
+    const geometries = grainsToSpotGeometry(grains);
+    runAsHistoryStep(`Detect ${grains.length} grains`, () => geometries.forEach((geometry, index) => {
       const spotName = namingPattern.replace('{n}', String(index + 1));
 
       // Convert contour to spot points format, scaling to original image coordinates
-      const points = grain.contour.map((p) => ({
-        X: Math.round(p.x * scaleX),
-        Y: Math.round(p.y * scaleY),
+      const points = geometry.points.map((p) => ({
+        X: Math.round(p.X * scaleX),
+        Y: Math.round(p.Y * scaleY),
       }));
 
       addSpot(micrographId, {
@@ -886,20 +1333,25 @@ export function GrainDetectionDialog({
         name: spotName,
         geometryType: 'polygon',
         points,
-        color: spotColor,
+        // Grains labelled by a semantic model are classified with their mineral
+        color: geometry.mineral ? getMineralColor(geometry.mineral) : spotColor,
         opacity: Math.round(spotOpacity * 100), // Convert 0-1 to 0-100 for SpotRenderer
+        ...(geometry.mineral && { mineralogy: { minerals: [{ name: geometry.mineral }] } }),
         // Mark as generated by grain detection
         generationMethod: 'grain-detection' as const,
         generationTimestamp: new Date().toISOString(),
-        areaPixels: grain.area * scaleX * scaleY, // Scale area to original resolution
+        areaPixels: (geometry.area ?? 0) * scaleX * scaleY, // Scale area to original resolution
         centroid: {
-          X: Math.round(grain.centroid.x * scaleX),
-          Y: Math.round(grain.centroid.y * scaleY),
+          X: Math.round(geometry.centroid!.X * scaleX),
+          Y: Math.round(geometry.centroid!.Y * scaleY),
         },
       });
-    });
+    }));
 
     console.log('[GrainDetection] Generated', grains.length, 'spots');
+    if (tiledResult) {
+      setTiledJob(null);
+    }
     onClose();
 
     // Optionally enter Quick Edit mode for immediate classification
@@ -907,587 +1359,838 @@ export function GrainDetectionDialog({
       // Use 'all' filter (all spots are unclassified) and 'spatial' sorting for natural flow
       enterQuickEditMode('all', 'spatial');
     }
-  }, [detectionResult, micrographId, micrograph, namingPattern, spotColor, spotOpacity, addSpot, onClose, openQuickEdit, enterQuickEditMode]);
+  }, [shownResult, tiledResult, micrographId, micrograph, namingPattern, spotColor, spotOpacity, addSpot, onClose, openQuickEdit, enterQuickEditMode]);
 
   // ============================================================================
   // RENDER
   // ============================================================================
 
-  const grainCount = detectionResult?.grains.length ?? 0;
-  const processingTime = detectionResult?.processingTimeMs ?? 0;
+  const grainCount = shownResult?.grains.length ?? 0;
+  const processingTime = shownResult?.processingTimeMs ?? 0;
+
+  // Grain coordinates are in the detection image; scale them onto the preview image
+  const previewScale = shownResult ? imageWidth / shownResult.imageDimensions.width : 1;
+
+  const tiledWindowCount = tileInfo
+    ? planDetectionWindows(tileInfo.width, tileInfo.height, DEFAULT_TILED_DETECTION_OPTIONS).length
+    : 0;
+  const tiledMicrographName = tiledJob ? micrographIndex.get(tiledJob.micrographId)?.name : undefined;
+  const tiledProgressText = tiledJob?.status === 'cancelling'
+    ? 'Cancelling after the current window...'
+    : tiledJob?.progress?.stage === 'merging'
+      ? `Stitching ${tiledJob.progress.grainCount} grains across window seams...`
+      : tiledJob?.progress
+        ? `Window ${tiledJob.progress.windowsDone} of ${tiledJob.progress.windowCount} • ${tiledJob.progress.grainCount} grains`
+        : 'Starting...';
+  const tiledPercent = tiledJob?.progress
+    ? (tiledJob.progress.windowsDone / tiledJob.progress.windowCount) * 100
+    : 0;
 
   return (
-    <Dialog
-      open={isOpen}
-      onClose={onClose}
-      maxWidth="md"
-      fullWidth
-      PaperProps={{ sx: { maxHeight: '90vh' } }}
-    >
-      <DialogTitle>
-        <Stack direction="row" alignItems="center" justifyContent="space-between">
-          <Typography variant="h6">Grain Detection</Typography>
-          {micrograph && (
-            <Typography variant="body2" color="text.secondary">
-              {micrograph.name}
-            </Typography>
-          )}
-        </Stack>
-      </DialogTitle>
-
-      <DialogContent dividers>
-        <Stack spacing={2}>
-          {/* Error display */}
-          {error && (
-            <Alert severity="error" onClose={() => setError(null)}>
-              {error}
-            </Alert>
-          )}
+    <>
+      <Dialog
+        open={isOpen}
+        onClose={onClose}
+        maxWidth="md"
+        fullWidth
+        PaperProps={{ sx: { maxHeight: '90vh' } }}
+      >
+        <DialogTitle>
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="h6">Grain Detection</Typography>
+            {micrograph && (
+              <Typography variant="body2" color="text.secondary">
+                {micrograph.name}
+              </Typography>
+            )}
+          </Stack>
+        </DialogTitle>
+
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            {/* Error display */}
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            {/* Preview Canvas */}
+            <Box ref={containerRef} sx={{ width: '100%' }}>
+              <Box sx={{ position: 'relative', width, height, bgcolor: 'grey.900', borderRadius: 1 }}>
+                {/* Loading overlay */}
+                {(loadingState === 'idle' || loadingState === 'loading-opencv' || loadingState === 'loading-image') && (
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      inset: 0,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      zIndex: 20,
+                      bgcolor: 'rgba(0,0,0,0.7)',
+                    }}
+                  >
+                    <CircularProgress size={40} />
+                    <Typography color="white" sx={{ mt: 2 }}>
+                      {loadingState === 'loading-opencv' ? 'Loading OpenCV.js...' : 'Loading image...'}
+                    </Typography>
+                  </Box>
+                )}
+
+                {/* Detecting overlay - shows during detection AND while waiting to start detection */}
+                {(isDetecting || tiledBusy || (loadingState === 'ready' && !shownResult)) && (
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      inset: 0,
+                      zIndex: 15,
+                      bgcolor: 'rgba(0,0,0,0.6)',
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      gap: 2,
+                    }}
+                  >
+                    <CircularProgress size={48} sx={{ color: 'white' }} />
+                    <Typography variant="body1" color="white" fontWeight="medium">
+                      {tiledBusy ? 'Detecting grains at full resolution...' : 'Detecting grains...'}
+                    </Typography>
+                    <Typography variant="body2" color="rgba(255,255,255,0.8)">
+                      {tiledBusy ? tiledProgressText : detectionProgress.step || 'Preparing...'}
+                    </Typography>
+                    {(tiledBusy ? tiledPercent : detectionProgress.percent) > 0 && (
+                      <Box sx={{ width: 200, mt: 1 }}>
+                        <Box
+                          sx={{
+                            height: 4,
+                            bgcolor: 'rgba(255,255,255,0.2)',
+                            borderRadius: 2,
+                            overflow: 'hidden',
+                          }}
+                        >
+                          <Box
+                            sx={{
+                              height: '100%',
+                              width: `${tiledBusy ? tiledPercent : detectionProgress.percent}%`,
+                              bgcolor: 'primary.main',
+                              transition: 'width 0.3s ease',
+                            }}
+                          />
+                        </Box>
+                      </Box>
+                    )}
+                  </Box>
+                )}
 
-          {/* Preview Canvas */}
-          <Box ref={containerRef} sx={{ width: '100%' }}>
-            <Box sx={{ position: 'relative', width, height, bgcolor: 'grey.900', borderRadius: 1 }}>
-              {/* Loading overlay */}
-              {(loadingState === 'idle' || loadingState === 'loading-opencv' || loadingState === 'loading-image') && (
-                <Box
+                {/* Zoom controls */}
+                <Stack
+                  direction="row"
+                  spacing={0.5}
                   sx={{
                     position: 'absolute',
-                    inset: 0,
-                    display: 'flex',
-                    flexDirection: 'column',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    zIndex: 20,
-                    bgcolor: 'rgba(0,0,0,0.7)',
+                    top: 8,
+                    right: 8,
+                    zIndex: 10,
+                    bgcolor: 'rgba(0, 0, 0, 0.6)',
+                    borderRadius: 1,
+                    p: 0.5,
                   }}
                 >
-                  <CircularProgress size={40} />
-                  <Typography color="white" sx={{ mt: 2 }}>
-                    {loadingState === 'loading-opencv' ? 'Loading OpenCV.js...' : 'Loading image...'}
-                  </Typography>
-                </Box>
-              )}
+                  <Tooltip title="Zoom In">
+                    <IconButton size="small" onClick={handleZoomIn} sx={{ color: 'white' }}>
+                      <ZoomIn fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Zoom Out">
+                    <IconButton size="small" onClick={handleZoomOut} sx={{ color: 'white' }}>
+                      <ZoomOut fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Fit to View">
+                    <IconButton size="small" onClick={handleFitToScreen} sx={{ color: 'white' }}>
+                      <FitScreen fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Stack>
 
-              {/* Detecting overlay - shows during detection AND while waiting to start detection */}
-              {(isDetecting || (loadingState === 'ready' && !detectionResult)) && (
-                <Box
+                {/* Status indicators */}
+                <Typography
+                  variant="caption"
                   sx={{
                     position: 'absolute',
-                    inset: 0,
-                    zIndex: 15,
-                    bgcolor: 'rgba(0,0,0,0.6)',
-                    display: 'flex',
-                    flexDirection: 'column',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    gap: 2,
+                    bottom: 8,
+                    left: 8,
+                    zIndex: 10,
+                    bgcolor: 'rgba(0, 0, 0, 0.6)',
+                    color: 'white',
+                    px: 1,
+                    py: 0.25,
+                    borderRadius: 0.5,
                   }}
                 >
-                  <CircularProgress size={48} sx={{ color: 'white' }} />
-                  <Typography variant="body1" color="white" fontWeight="medium">
-                    Detecting grains...
-                  </Typography>
-                  <Typography variant="body2" color="rgba(255,255,255,0.8)">
-                    {detectionProgress.step || 'Preparing...'}
-                  </Typography>
-                  {detectionProgress.percent > 0 && (
-                    <Box sx={{ width: 200, mt: 1 }}>
-                      <Box
-                        sx={{
-                          height: 4,
-                          bgcolor: 'rgba(255,255,255,0.2)',
-                          borderRadius: 2,
-                          overflow: 'hidden',
-                        }}
-                      >
-                        <Box
-                          sx={{
-                            height: '100%',
-                            width: `${detectionProgress.percent}%`,
-                            bgcolor: 'primary.main',
-                            transition: 'width 0.3s ease',
-                          }}
-                        />
-                      </Box>
-                    </Box>
-                  )}
-                </Box>
-              )}
+                  {grainCount} grains detected
+                  {tiledResult && ' • full resolution'}
+                  {processingTime > 0 && ` • ${processingTime.toFixed(0)}ms`}
+                </Typography>
 
-              {/* Zoom controls */}
-              <Stack
-                direction="row"
-                spacing={0.5}
-                sx={{
-                  position: 'absolute',
-                  top: 8,
-                  right: 8,
-                  zIndex: 10,
-                  bgcolor: 'rgba(0, 0, 0, 0.6)',
-                  borderRadius: 1,
-                  p: 0.5,
-                }}
-              >
-                <Tooltip title="Zoom In">
-                  <IconButton size="small" onClick={handleZoomIn} sx={{ color: 'white' }}>
-                    <ZoomIn fontSize="small" />
-                  </IconButton>
-                </Tooltip>
-                <Tooltip title="Zoom Out">
-                  <IconButton size="small" onClick={handleZoomOut} sx={{ color: 'white' }}>
-                    <ZoomOut fontSize="small" />
-                  </IconButton>
-                </Tooltip>
-                <Tooltip title="Fit to View">
-                  <IconButton size="small" onClick={handleFitToScreen} sx={{ color: 'white' }}>
-                    <FitScreen fontSize="small" />
-                  </IconButton>
-                </Tooltip>
-              </Stack>
-
-              {/* Status indicators */}
-              <Typography
-                variant="caption"
-                sx={{
-                  position: 'absolute',
-                  bottom: 8,
-                  left: 8,
-                  zIndex: 10,
-                  bgcolor: 'rgba(0, 0, 0, 0.6)',
-                  color: 'white',
-                  px: 1,
-                  py: 0.25,
-                  borderRadius: 0.5,
-                }}
-              >
-                {grainCount} grains detected
-                {processingTime > 0 && ` • ${processingTime.toFixed(0)}ms`}
-              </Typography>
-
-              <Typography
-                variant="caption"
-                sx={{
-                  position: 'absolute',
-                  bottom: 8,
-                  right: 8,
-                  zIndex: 10,
-                  bgcolor: 'rgba(0, 0, 0, 0.6)',
-                  color: 'white',
-                  px: 1,
-                  py: 0.25,
-                  borderRadius: 0.5,
-                }}
-              >
-                {Math.round(zoom * 100)}%
-              </Typography>
-
-              {/* Canvas */}
-              {loadingState === 'ready' && (
-                <Stage
-                  ref={stageRef}
-                  width={width}
-                  height={height}
-                  onWheel={handleWheel}
-                  onMouseDown={handleMouseDown}
-                  onMouseMove={handleMouseMove}
-                  onMouseUp={handleMouseUp}
-                  onMouseLeave={handleMouseUp}
-                  style={{ cursor: isPanning ? 'grabbing' : 'grab' }}
+                <Typography
+                  variant="caption"
+                  sx={{
+                    position: 'absolute',
+                    bottom: 8,
+                    right: 8,
+                    zIndex: 10,
+                    bgcolor: 'rgba(0, 0, 0, 0.6)',
+                    color: 'white',
+                    px: 1,
+                    py: 0.25,
+                    borderRadius: 0.5,
+                  }}
                 >
-                  {/* Background */}
-                  <Layer>
-                    <Rect x={0} y={0} width={width} height={height} fill="#1a1a1a" />
-                  </Layer>
-
-                  {/* Image and grains layer */}
-                  <Layer x={position.x} y={position.y} scaleX={zoom} scaleY={zoom}>
-                    {/* Micrograph image */}
-                    {image && (
-                      <KonvaImage
-                        image={image}
-                        x={0}
-                        y={0}
-                        width={imageWidth}
-                        height={imageHeight}
-                      />
-                    )}
-
-                    {/* Detected grain polygons */}
-                    {detectionResult?.grains.map((grain) => {
-                      // Flatten contour for Konva Line
-                      const flatPoints = grain.contour.flatMap((p) => [p.x, p.y]);
-                      const strokeWidth = GRAIN_STROKE_WIDTH / zoom;
-
-                      return (
-                        <Line
-                          key={grain.tempId}
-                          points={flatPoints}
-                          closed
-                          stroke={GRAIN_STROKE_COLOR}
-                          strokeWidth={strokeWidth}
-                          fill={GRAIN_FILL_COLOR}
-                          listening={false}
+                  {Math.round(zoom * 100)}%
+                </Typography>
+
+                {/* Canvas */}
+                {loadingState === 'ready' && (
+                  <Stage
+                    ref={stageRef}
+                    width={width}
+                    height={height}
+                    onWheel={handleWheel}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                    style={{ cursor: isPanning ? 'grabbing' : 'grab' }}
+                  >
+                    {/* Background */}
+                    <Layer>
+                      <Rect x={0} y={0} width={width} height={height} fill="#1a1a1a" />
+                    </Layer>
+
+                    {/* Image and grains layer */}
+                    <Layer x={position.x} y={position.y} scaleX={zoom} scaleY={zoom}>
+                      {/* Micrograph image */}
+                      {image && (
+                        <KonvaImage
+                          image={image}
+                          x={0}
+                          y={0}
+                          width={imageWidth}
+                          height={imageHeight}
                         />
-                      );
-                    })}
-                  </Layer>
-                </Stage>
-              )}
+                      )}
+
+                      {/* Detected grain polygons */}
+                      <Group scaleX={previewScale} scaleY={previewScale} listening={false}>
+                        {shownResult?.grains.map((grain) => {
+                          // Flatten contour for Konva Line
+                          const flatPoints = grain.contour.flatMap((p) => [p.x, p.y]);
+                          const strokeWidth = GRAIN_STROKE_WIDTH / (zoom * previewScale);
+
+                          return (
+                            <Line
+                              key={grain.tempId}
+                              points={flatPoints}
+                              closed
+                              stroke={GRAIN_STROKE_COLOR}
+                              strokeWidth={strokeWidth}
+                              fill={GRAIN_FILL_COLOR}
+                              listening={false}
+                            />
+                          );
+                        })}
+                      </Group>
+                    </Layer>
+                  </Stage>
+                )}
+              </Box>
             </Box>
-          </Box>
 
-          <Divider />
+            <Divider />
 
-          {/* Detection Settings */}
-          <Box>
-            <Typography variant="subtitle2" gutterBottom>
-              Detection Settings
-            </Typography>
+            {/* Detection Settings */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Detection Settings
+              </Typography>
 
-            <Stack spacing={2}>
-              {/* Detection method selector */}
-              <Box>
-                <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem', display: 'block' }}>Method</FormLabel>
-                <Stack direction="row" spacing={1} alignItems="center">
-                  <ToggleButtonGroup
-                    value={detectionMethod}
-                    exclusive
-                    onChange={(_, value) => value && setDetectionMethod(value)}
-                    size="small"
-                  >
-                    <ToggleButton
-                      value="fastsam"
-                      disabled={!fastsamAvailable}
-                      sx={{ textTransform: 'none' }}
-                    >
-                      <AutoAwesome sx={{ mr: 0.5, fontSize: 16 }} />
-                      FastSAM (AI)
-                    </ToggleButton>
-                    <ToggleButton value="opencv" sx={{ textTransform: 'none' }}>
-                      <Visibility sx={{ mr: 0.5, fontSize: 16 }} />
-                      OpenCV
-                    </ToggleButton>
-                  </ToggleButtonGroup>
-                  {fastsamAvailable === null && (
-                    <CircularProgress size={16} />
-                  )}
-                  {fastsamAvailable === false && !isDownloadingModel && (
-                    <Button
+              <Stack spacing={2}>
+                {/* Detection method selector */}
+                <Box>
+                  <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem', display: 'block' }}>Method</FormLabel>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <ToggleButtonGroup
+                      value={detectionMethod}
+                      exclusive
+                      onChange={(_, value) => value && setDetectionMethod(value)}
                       size="small"
-                      variant="outlined"
-                      color="primary"
-                      onClick={handleDownloadModel}
-                      sx={{ textTransform: 'none', fontSize: '0.75rem' }}
                     >
-                      Download Model (276MB)
-                    </Button>
-                  )}
-                  {isDownloadingModel && (
-                    <Stack direction="row" spacing={1} alignItems="center">
+                      <ToggleButton
+                        value="fastsam"
+                        disabled={!fastsamAvailable}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        <AutoAwesome sx={{ mr: 0.5, fontSize: 16 }} />
+                        FastSAM (AI)
+                      </ToggleButton>
+                      <ToggleButton value="opencv" sx={{ textTransform: 'none' }}>
+                        <Visibility sx={{ mr: 0.5, fontSize: 16 }} />
+                        OpenCV
+                      </ToggleButton>
+                      <ToggleButton value="model" sx={{ textTransform: 'none' }}>
+                        <ModelTraining sx={{ mr: 0.5, fontSize: 16 }} />
+                        Custom Model
+                      </ToggleButton>
+                    </ToggleButtonGroup>
+                    {fastsamAvailable === null && (
                       <CircularProgress size={16} />
-                      <Typography variant="caption" color="text.secondary">
-                        {downloadProgress.status || `${downloadProgress.percent}%`}
-                      </Typography>
-                    </Stack>
-                  )}
-                  {fastsamAvailable && detectionMethod === 'fastsam' && (
-                    <Chip
-                      label="Recommended"
-                      size="small"
-                      color="success"
-                      variant="outlined"
-                    />
-                  )}
-                </Stack>
-              </Box>
-
-              {/* FastSAM-specific settings */}
-              {detectionMethod === 'fastsam' && (
-                <>
-                  {/* Confidence threshold slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Confidence Threshold
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {Math.round(fastsamSettings.confidenceThreshold * 100)}%
-                      </Typography>
-                    </Stack>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">Lower</Typography>
-                      <Slider
-                        value={fastsamSettings.confidenceThreshold}
-                        onChange={(_, v) => setFastsamSettings(s => ({ ...s, confidenceThreshold: v as number }))}
-                        min={0.1}
-                        max={0.9}
-                        step={0.05}
+                    )}
+                    {fastsamAvailable === false && !isDownloadingModel && (
+                      <Button
                         size="small"
-                      />
-                      <Typography variant="caption" color="text.secondary">Higher</Typography>
-                    </Stack>
-                  </Box>
-
-                  {/* Min area slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Minimum Grain Size
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {fastsamSettings.minAreaPercent.toFixed(2)}% of image
-                      </Typography>
-                    </Stack>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">Smaller</Typography>
-                      <Slider
-                        value={fastsamSettings.minAreaPercent}
-                        onChange={(_, v) => setFastsamSettings(s => ({ ...s, minAreaPercent: v as number }))}
-                        min={0.01}
-                        max={0.5}
-                        step={0.01}
+                        variant="outlined"
+                        color="primary"
+                        onClick={handleDownloadModel}
+                        sx={{ textTransform: 'none', fontSize: '0.75rem' }}
+                      >
+                        Download Model (276MB)
+                      </Button>
+                    )}
+                    {isDownloadingModel && (
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <CircularProgress size={16} />
+                        <Typography variant="caption" color="text.secondary">
+                          {downloadProgress.status || `${downloadProgress.percent}%`}
+                        </Typography>
+                      </Stack>
+                    )}
+                    {fastsamAvailable && detectionMethod === 'fastsam' && (
+                      <Chip
+                        label="Recommended"
                         size="small"
+                        color="success"
+                        variant="outlined"
                       />
-                      <Typography variant="caption" color="text.secondary">Larger</Typography>
-                    </Stack>
-                  </Box>
+                    )}
+                  </Stack>
+                </Box>
 
-                  {/* IOU threshold slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Overlap Threshold (IOU)
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {Math.round(fastsamSettings.iouThreshold * 100)}%
-                      </Typography>
-                    </Stack>
+                {/* Registered model selector */}
+                {detectionMethod === 'model' && (
+                  <FormControl size="small" fullWidth>
+                    <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem' }}>Model</FormLabel>
                     <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">More overlap</Typography>
-                      <Slider
-                        value={fastsamSettings.iouThreshold}
-                        onChange={(_, v) => setFastsamSettings(s => ({ ...s, iouThreshold: v as number }))}
-                        min={0.3}
-                        max={0.9}
-                        step={0.05}
+                      {registeredModels.length > 0 && (
+                        <Select
+                          value={selectedModelId ?? ''}
+                          onChange={(e) => setSelectedModelId(e.target.value)}
+                          fullWidth
+                        >
+                          {registeredModels.map((model) => (
+                            <MenuItem key={model.id} value={model.id}>
+                              {model.manifest.name}
+                              <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                                {MODEL_OUTPUT_LABELS[model.manifest.output.type]}
+                              </Typography>
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      )}
+                      {selectedModel && (
+                        <Tooltip title="Remove from Registry (model files are kept)">
+                          <IconButton size="small" onClick={handleRemoveModel}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      <Button
                         size="small"
-                      />
-                      <Typography variant="caption" color="text.secondary">Less overlap</Typography>
+                        variant="outlined"
+                        startIcon={<Add />}
+                        onClick={handleRegisterModel}
+                        sx={{ textTransform: 'none', whiteSpace: 'nowrap', flexShrink: 0 }}
+                      >
+                        Register Model...
+                      </Button>
                     </Stack>
-                  </Box>
-
-                  {/* Better quality checkbox */}
-                  <FormControlLabel
-                    control={
-                      <Checkbox
-                        checked={fastsamSettings.betterQuality}
-                        onChange={(e) => setFastsamSettings(s => ({ ...s, betterQuality: e.target.checked }))}
-                        size="small"
-                      />
-                    }
-                    label={
-                      <Typography variant="body2">
-                        Morphological cleanup (cleaner boundaries)
+                    {registeredModels.length === 0 ? (
+                      <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                        Register an ONNX model by selecting its JSON manifest.
                       </Typography>
-                    }
-                  />
-                </>
-              )}
-
-              {/* OpenCV-specific settings */}
-              {detectionMethod === 'opencv' && (
-                <>
-                  {/* Preset selector */}
-                  <FormControl size="small" fullWidth>
-                    <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem' }}>Preset</FormLabel>
-                    <Select
-                      value={selectedPreset}
-                      onChange={(e) => handlePresetChange(e.target.value)}
-                    >
-                      <MenuItem value="custom">Custom</MenuItem>
-                      <Divider />
-                      {BUILT_IN_PRESETS.map((preset) => (
-                        <MenuItem key={preset.id} value={preset.id}>
-                          {preset.name}
-                        </MenuItem>
-                      ))}
-                    </Select>
+                    ) : selectedModel?.manifest.output.type === 'semantic' ? (
+                      <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                        Spots are labelled{' '}
+                        {selectedModel.manifest.output.classes
+                          .filter((cls) => !cls.background)
+                          .map((cls) => cls.mineral || cls.name)
+                          .join(', ')}
+                      </Typography>
+                    ) : selectedModel?.manifest.description ? (
+                      <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                        {selectedModel.manifest.description}
+                      </Typography>
+                    ) : null}
                   </FormControl>
+                )}
+
+                {/* FastSAM and registered model settings */}
+                {(detectionMethod === 'fastsam' || (detectionMethod === 'model' && selectedModel)) && (
+                  <>
+                    {/* Confidence threshold slider */}
+                    {!regionModelSelected && (
+                      <Box>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center">
+                          <FormLabel sx={{ fontSize: '0.875rem' }}>
+                            Confidence Threshold
+                          </FormLabel>
+                          <Typography variant="caption" color="text.secondary">
+                            {Math.round(fastsamSettings.confidenceThreshold * 100)}%
+                          </Typography>
+                        </Stack>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="caption" color="text.secondary">Lower</Typography>
+                          <Slider
+                            value={fastsamSettings.confidenceThreshold}
+                            onChange={(_, v) => setFastsamSettings(s => ({ ...s, confidenceThreshold: v as number }))}
+                            min={0.1}
+                            max={0.9}
+                            step={0.05}
+                            size="small"
+                          />
+                          <Typography variant="caption" color="text.secondary">Higher</Typography>
+                        </Stack>
+                      </Box>
+                    )}
 
-                  {/* Sensitivity slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Sensitivity
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {settings.sensitivity}%
-                      </Typography>
-                    </Stack>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">Fewer</Typography>
-                      <Slider
-                        value={settings.sensitivity}
-                        onChange={(_, v) => handleSettingChange('sensitivity', v as number)}
-                        min={0}
-                        max={100}
-                        size="small"
-                      />
-                      <Typography variant="caption" color="text.secondary">More</Typography>
-                    </Stack>
-                  </Box>
+                    {/* Min area slider */}
+                    <Box>
+                      <Stack direction="row" justifyContent="space-between" alignItems="center">
+                        <FormLabel sx={{ fontSize: '0.875rem' }}>
+                          Minimum Grain Size
+                        </FormLabel>
+                        <Typography variant="caption" color="text.secondary">
+                          {fastsamSettings.minAreaPercent.toFixed(2)}% of image
+                        </Typography>
+                      </Stack>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="caption" color="text.secondary">Smaller</Typography>
+                        <Slider
+                          value={fastsamSettings.minAreaPercent}
+                          onChange={(_, v) => setFastsamSettings(s => ({ ...s, minAreaPercent: v as number }))}
+                          min={0.01}
+                          max={0.5}
+                          step={0.01}
+                          size="small"
+                        />
+                        <Typography variant="caption" color="text.secondary">Larger</Typography>
+                      </Stack>
+                    </Box>
 
-                  {/* Min grain size slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Minimum Grain Size
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {settings.minGrainSize} px²
-                      </Typography>
-                    </Stack>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">Small</Typography>
-                      <Slider
-                        value={settings.minGrainSize}
-                        onChange={(_, v) => handleSettingChange('minGrainSize', v as number)}
-                        min={10}
-                        max={500}
-                        size="small"
-                      />
-                      <Typography variant="caption" color="text.secondary">Large</Typography>
-                    </Stack>
-                  </Box>
+                    {/* IOU threshold slider */}
+                    {!regionModelSelected && (
+                      <Box>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center">
+                          <FormLabel sx={{ fontSize: '0.875rem' }}>
+                            Overlap Threshold (IOU)
+                          </FormLabel>
+                          <Typography variant="caption" color="text.secondary">
+                            {Math.round(fastsamSettings.iouThreshold * 100)}%
+                          </Typography>
+                        </Stack>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="caption" color="text.secondary">More overlap</Typography>
+                          <Slider
+                            value={fastsamSettings.iouThreshold}
+                            onChange={(_, v) => setFastsamSettings(s => ({ ...s, iouThreshold: v as number }))}
+                            min={0.3}
+                            max={0.9}
+                            step={0.05}
+                            size="small"
+                          />
+                          <Typography variant="caption" color="text.secondary">Less overlap</Typography>
+                        </Stack>
+                      </Box>
+                    )}
 
-                  {/* Edge contrast slider */}
-                  <Box>
-                    <Stack direction="row" justifyContent="space-between" alignItems="center">
-                      <FormLabel sx={{ fontSize: '0.875rem' }}>
-                        Edge Contrast
-                      </FormLabel>
-                      <Typography variant="caption" color="text.secondary">
-                        {settings.edgeContrast}%
-                      </Typography>
-                    </Stack>
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="caption" color="text.secondary">Soft</Typography>
-                      <Slider
-                        value={settings.edgeContrast}
-                        onChange={(_, v) => handleSettingChange('edgeContrast', v as number)}
-                        min={0}
-                        max={100}
-                        size="small"
+                    {/* Better quality checkbox */}
+                    {!regionModelSelected && (
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={fastsamSettings.betterQuality}
+                            onChange={(e) => setFastsamSettings(s => ({ ...s, betterQuality: e.target.checked }))}
+                            size="small"
+                          />
+                        }
+                        label={
+                          <Typography variant="body2">
+                            Morphological cleanup (cleaner boundaries)
+                          </Typography>
+                        }
                       />
-                      <Typography variant="caption" color="text.secondary">Sharp</Typography>
-                    </Stack>
+                    )}
+                  </>
+                )}
+
+                {/* OpenCV-specific settings */}
+                {detectionMethod === 'opencv' && (
+                  <>
+                    {/* Preset selector */}
+                    <FormControl size="small" fullWidth>
+                      <FormLabel sx={{ mb: 0.5, fontSize: '0.875rem' }}>Preset</FormLabel>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Select
+                          value={selectedPreset}
+                          onChange={(e) => handlePresetChange(e.target.value)}
+                          fullWidth
+                        >
+                          <MenuItem value="custom">Custom</MenuItem>
+                          <Divider />
+                          {BUILT_IN_PRESETS.map((preset) => (
+                            <MenuItem key={preset.id} value={preset.id}>
+                              {preset.name}
+                            </MenuItem>
+                          ))}
+                          {userPresets.length > 0 && <Divider />}
+                          {userPresets.map((preset) => (
+                            <MenuItem key={preset.id} value={preset.id}>
+                              {preset.name}
+                              {preset.validation && (
+                                <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                                  F1 {preset.validation.f1.toFixed(2)}
+                                </Typography>
+                              )}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                        {userPresets.some((p) => p.id === selectedPreset) && (
+                          <Tooltip title="Delete Preset">
+                            <IconButton size="small" onClick={handleDeletePreset}>
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Stack>
+                    </FormControl>
+
+                    {/* Sensitivity slider */}
+                    <Box>
+                      <Stack direction="row" justifyContent="space-between" alignItems="center">
+                        <FormLabel sx={{ fontSize: '0.875rem' }}>
+                          Sensitivity
+                        </FormLabel>
+                        <Typography variant="caption" color="text.secondary">
+                          {settings.sensitivity}%
+                        </Typography>
+                      </Stack>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="caption" color="text.secondary">Fewer</Typography>
+                        <Slider
+                          value={settings.sensitivity}
+                          onChange={(_, v) => handleSettingChange('sensitivity', v as number)}
+                          min={0}
+                          max={100}
+                          size="small"
+                        />
+                        <Typography variant="caption" color="text.secondary">More</Typography>
+                      </Stack>
+                    </Box>
+
+                    {/* Min grain size slider */}
+                    <Box>
+                      <Stack direction="row" justifyContent="space-between" alignItems="center">
+                        <FormLabel sx={{ fontSize: '0.875rem' }}>
+                          Minimum Grain Size
+                        </FormLabel>
+                        <Typography variant="caption" color="text.secondary">
+                          {settings.minGrainSize} px²
+                        </Typography>
+                      </Stack>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="caption" color="text.secondary">Small</Typography>
+                        <Slider
+                          value={settings.minGrainSize}
+                          onChange={(_, v) => handleSettingChange('minGrainSize', v as number)}
+                          min={10}
+                          max={500}
+                          size="small"
+                        />
+                        <Typography variant="caption" color="text.secondary">Large</Typography>
+                      </Stack>
+                    </Box>
+
+                    {/* Edge contrast slider */}
+                    <Box>
+                      <Stack direction="row" justifyContent="space-between" alignItems="center">
+                        <FormLabel sx={{ fontSize: '0.875rem' }}>
+                          Edge Contrast
+                        </FormLabel>
+                        <Typography variant="caption" color="text.secondary">
+                          {settings.edgeContrast}%
+                        </Typography>
+                      </Stack>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="caption" color="text.secondary">Soft</Typography>
+                        <Slider
+                          value={settings.edgeContrast}
+                          onChange={(_, v) => handleSettingChange('edgeContrast', v as number)}
+                          min={0}
+                          max={100}
+                          size="small"
+                        />
+                        <Typography variant="caption" color="text.secondary">Sharp</Typography>
+                      </Stack>
+                    </Box>
+
+                    {/* Simplify outlines checkbox */}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={settings.simplifyOutlines}
+                          onChange={(e) => handleSettingChange('simplifyOutlines', e.target.checked)}
+                          size="small"
+                        />
+                      }
+                      label={
+                        <Typography variant="body2">
+                          Simplify outlines (fewer vertices)
+                        </Typography>
+                      }
+                    />
+                  </>
+                )}
+              </Stack>
+            </Box>
+
+            <Divider />
+
+            {/* Full-resolution tiled detection */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Full-Resolution Detection
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                The preview is detected on a downscaled image. Tiled detection runs the selected
+                method over {tiledWindowCount > 0 ? `${tiledWindowCount} ` : ''}overlapping
+                {' '}{DEFAULT_TILED_DETECTION_OPTIONS.windowSize}px windows of the full image and
+                stitches grains cut by window seams. It keeps running if you close this dialog.
+              </Typography>
+
+              {!tiledJob && (
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<GridOn />}
+                  onClick={handleRunTiled}
+                  disabled={!tileInfo || isDetecting || loadingState !== 'ready'}
+                >
+                  Run Tiled Detection
+                </Button>
+              )}
+
+              {tiledBusy && (
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Box sx={{ flex: 1 }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {tiledJob?.micrographId !== micrographId && tiledMicrographName
+                        ? `${tiledMicrographName}: ${tiledProgressText}`
+                        : tiledProgressText}
+                    </Typography>
+                    <LinearProgress variant="determinate" value={tiledPercent} />
                   </Box>
+                  <Button size="small" onClick={handleCancelTiled} disabled={tiledJob?.status === 'cancelling'}>
+                    Cancel
+                  </Button>
+                </Stack>
+              )}
 
-                  {/* Simplify outlines checkbox */}
-                  <FormControlLabel
-                    control={
-                      <Checkbox
-                        checked={settings.simplifyOutlines}
-                        onChange={(e) => handleSettingChange('simplifyOutlines', e.target.checked)}
-                        size="small"
-                      />
-                    }
-                    label={
-                      <Typography variant="body2">
-                        Simplify outlines (fewer vertices)
-                      </Typography>
-                    }
-                  />
-                </>
+              {tiledJob?.status === 'done' && (
+                <Alert
+                  severity="success"
+                  action={
+                    tiledResult ? (
+                      <Button color="inherit" size="small" onClick={handleDiscardTiled}>
+                        Discard
+                      </Button>
+                    ) : (
+                      <Button color="inherit" size="small" onClick={handleReviewTiled}>
+                        Review
+                      </Button>
+                    )
+                  }
+                >
+                  {tiledResult
+                    ? `Reviewing ${tiledResult.grains.length} grains from full-resolution detection. Discard to return to the live preview.`
+                    : `Full-resolution detection of ${tiledMicrographName || 'another micrograph'} found ${tiledJob.result?.grains.length ?? 0} grains.`}
+                </Alert>
               )}
-            </Stack>
-          </Box>
 
-          <Divider />
+              {tiledJob?.status === 'error' && (
+                <Alert severity="error" onClose={handleDiscardTiled}>
+                  Tiled detection failed: {tiledJob.error}
+                </Alert>
+              )}
+            </Box>
 
-          {/* Spot Generation Options */}
-          <Box>
-            <Typography variant="subtitle2" gutterBottom>
-              Spot Generation
-            </Typography>
+            <Divider />
+
+            {/* Accuracy evaluation against hand-traced grains */}
+            <DetectionEvaluationPanel
+              micrographId={micrographId}
+              result={shownResult}
+              imageWidth={micrograph?.imageWidth || micrograph?.width || imageWidth}
+              imageHeight={micrograph?.imageHeight || micrograph?.height || imageHeight}
+              settings={settings}
+              presets={allPresets}
+              detectWithSettings={imageData && loadingState === 'ready' ? detectWithSettings : null}
+              onApplySettings={handleApplySweepSettings}
+              disabled={tiledBusy}
+            />
+
+            <Divider />
+
+            {/* Spot Generation Options */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Spot Generation
+              </Typography>
 
-            <Stack spacing={2}>
-              {/* Naming pattern */}
-              <TextField
-                label="Naming Pattern"
-                value={namingPattern}
-                onChange={(e) => setNamingPattern(e.target.value)}
-                size="small"
-                fullWidth
-                helperText="Use {n} for sequential number"
-              />
-
-              {/* Color picker */}
-              <Stack direction="row" spacing={2} alignItems="center">
-                <FormLabel sx={{ fontSize: '0.875rem', minWidth: 60 }}>Color</FormLabel>
-                <input
-                  type="color"
-                  value={spotColor}
-                  onChange={(e) => setSpotColor(e.target.value)}
-                  style={{ width: 40, height: 30, border: 'none', cursor: 'pointer' }}
-                />
+              <Stack spacing={2}>
+                {/* Naming pattern */}
                 <TextField
-                  value={spotColor}
-                  onChange={(e) => setSpotColor(e.target.value)}
+                  label="Naming Pattern"
+                  value={namingPattern}
+                  onChange={(e) => setNamingPattern(e.target.value)}
                   size="small"
-                  sx={{ width: 100 }}
+                  fullWidth
+                  helperText="Use {n} for sequential number"
                 />
-              </Stack>
 
-              {/* Opacity slider */}
-              <Box>
-                <Stack direction="row" justifyContent="space-between" alignItems="center">
-                  <FormLabel sx={{ fontSize: '0.875rem' }}>Opacity</FormLabel>
-                  <Typography variant="caption" color="text.secondary">
-                    {Math.round(spotOpacity * 100)}%
-                  </Typography>
+                {/* Color picker */}
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <FormLabel sx={{ fontSize: '0.875rem', minWidth: 60 }}>Color</FormLabel>
+                  <input
+                    type="color"
+                    value={spotColor}
+                    onChange={(e) => setSpotColor(e.target.value)}
+                    style={{ width: 40, height: 30, border: 'none', cursor: 'pointer' }}
+                  />
+                  <TextField
+                    value={spotColor}
+                    onChange={(e) => setSpotColor(e.target.value)}
+                    size="small"
+                    sx={{ width: 100 }}
+                  />
                 </Stack>
-                <Slider
-                  value={spotOpacity}
-                  onChange={(_, v) => setSpotOpacity(v as number)}
-                  min={0}
-                  max={1}
-                  step={0.05}
-                  size="small"
-                />
-              </Box>
 
-              {/* Quick Edit option */}
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    checked={openQuickEdit}
-                    onChange={(e) => setOpenQuickEdit(e.target.checked)}
+                {/* Opacity slider */}
+                <Box>
+                  <Stack direction="row" justifyContent="space-between" alignItems="center">
+                    <FormLabel sx={{ fontSize: '0.875rem' }}>Opacity</FormLabel>
+                    <Typography variant="caption" color="text.secondary">
+                      {Math.round(spotOpacity * 100)}%
+                    </Typography>
+                  </Stack>
+                  <Slider
+                    value={spotOpacity}
+                    onChange={(_, v) => setSpotOpacity(v as number)}
+                    min={0}
+                    max={1}
+                    step={0.05}
                     size="small"
                   />
-                }
-                label={
-                  <Typography variant="body2">
-                    Open Quick Edit for classification
-                  </Typography>
-                }
-              />
-            </Stack>
-          </Box>
-        </Stack>
-      </DialogContent>
-
-      <DialogActions>
-        <Button onClick={onClose}>Cancel</Button>
-        <Button
-          variant="contained"
-          onClick={handleGenerate}
-          disabled={!detectionResult || detectionResult.grains.length === 0 || isDetecting}
+                </Box>
+
+                {/* Quick Edit option */}
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={openQuickEdit}
+                      onChange={(e) => setOpenQuickEdit(e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label={
+                    <Typography variant="body2">
+                      Open Quick Edit for classification
+                    </Typography>
+                  }
+                />
+              </Stack>
+            </Box>
+          </Stack>
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleGenerate}
+            disabled={!shownResult || shownResult.grains.length === 0 || isDetecting || tiledBusy}
+          >
+            Generate {grainCount} Spots
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Background tiled detection status (while the dialog is closed) */}
+      {!isOpen && tiledJob && (
+        <Paper
+          elevation={3}
+          sx={{
+            position: 'fixed',
+            bottom: 16,
+            left: 16,
+            px: 2,
+            py: 1.5,
+            borderRadius: 2,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1.5,
+            maxWidth: 360,
+            zIndex: 1000,
+            bgcolor: 'background.paper',
+          }}
         >
-          Generate {grainCount} Spots
-        </Button>
-      </DialogActions>
-    </Dialog>
+          {tiledBusy && <CircularProgress size={20} thickness={4} />}
+          <Box sx={{ minWidth: 0, flex: 1 }}>
+            <Typography variant="body2" fontWeight="medium">
+              {tiledJob.status === 'done'
+                ? `Grain detection finished: ${tiledJob.result?.grains.length ?? 0} grains`
+                : tiledJob.status === 'error'
+                  ? 'Grain detection failed'
+                  : 'Detecting grains at full resolution'}
+            </Typography>
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            >
+              {tiledJob.status === 'error' ? tiledJob.error : tiledBusy ? tiledProgressText : tiledMicrographName}
+            </Typography>
+          </Box>
+          {tiledBusy && (
+            <Button size="small" onClick={handleCancelTiled} disabled={tiledJob.status === 'cancelling'}>
+              Cancel
+            </Button>
+          )}
+          {tiledJob.status === 'done' && onOpen && (
+            <Button size="small" variant="contained" onClick={handleReviewTiled}>
+              Review
+            </Button>
+          )}
+          {tiledJob.status === 'error' && (
+            <Button size="small" onClick={handleDiscardTiled}>
+              Dismiss
+            </Button>
+          )}
+        </Paper>
+      )}
+    </>
   );
 }
 
@@ -4,10 +4,12 @@
  * Provides quantitative grain size analysis for polygon spots.
  * Features:
  * - Size distribution histogram with rock-type classification overlay
- * - Orientation rose diagram
+ * - Stereologically corrected 3D crystal size distribution (CSD) plot
+ * - Orientation rose diagram in image, geographic or fabric reference frame
+ * - Rf/φ strain analysis and bulk shape tensor, saved as grain orientation
  * - Population statistics (mean, median, sorting, etc.)
  * - Grouping by mineral
- * - CSV and PDF export
+ * - CSV and PDF export (grain metrics and CSD)
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
@@ -35,21 +37,41 @@ import {
   Chip,
   CircularProgress,
   Alert,
+  TextField,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   Close as CloseIcon,
   Download as DownloadIcon,
   ContentCopy as CopyIcon,
   Check as CheckIcon,
+  Save as SaveIcon,
 } from '@mui/icons-material';
 import { useAppStore } from '@/store';
 import { calculateAllGrainMetrics, type GrainMetrics } from '@/utils/grainMetrics';
 import {
   analyzeGrains,
+  exportCSDToCSV,
+  exportRfPhiToCSV,
+  rfPhiResultsToGrainOrientation,
+  calculateCircularMean,
+  SPHERE_SHAPE,
   type RockType,
   type GrainAnalysisResults,
+  type CSDShape,
 } from '@/services/grainAnalysis';
-import { SizeHistogram, RoseDiagram } from '@/components/charts';
+import {
+  resolveOrientationFrame,
+  availableReferenceFrames,
+  transformImageDirection,
+  imageDirectionToTrendPlunge,
+  describeReferenceFrame,
+  type OrientationFrame,
+  type ReferenceFrame,
+  type FabricPlane,
+} from '@/services/orientation';
+import { SizeHistogram, RoseDiagram, CSDPlot, RfPhiPlot } from '@/components/charts';
 import type { MicrographMetadata, Spot } from '@/types/project-types';
 
 // =============================================================================
@@ -63,6 +85,16 @@ interface GrainSizeAnalysisDialogProps {
 
 type AnalysisScope = 'current' | 'all';
 
+type CSDShapeMode = 'sphere' | 'custom';
+
+type OrientationSource = 'tensor' | 'vector-mean';
+
+const REFERENCE_FRAME_LABELS: Record<ReferenceFrame, string> = {
+  image: 'Image',
+  geographic: 'Geographic',
+  fabric: 'Fabric',
+};
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -146,6 +178,7 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
   const project = useAppStore((s) => s.project);
   const activeMicrographId = useAppStore((s) => s.activeMicrographId);
   const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const updateMicrographMetadata = useAppStore((s) => s.updateMicrographMetadata);
 
   // Persisted grain analysis selection from store
   const storeSpotFilter = useAppStore((s) => s.grainAnalysisSpotFilter);
@@ -162,6 +195,11 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
   const [showGrid, setShowGrid] = useState(true);
   const [copied, setCopied] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [csdShapeMode, setCsdShapeMode] = useState<CSDShapeMode>('sphere');
+  const [customShape, setCustomShape] = useState<CSDShape>({ short: 1, intermediate: 1.5, long: 2 });
+  const [orientationSource, setOrientationSource] = useState<OrientationSource>('tensor');
+  const [orientationSaved, setOrientationSaved] = useState(false);
+  const [referenceFrame, setReferenceFrame] = useState<ReferenceFrame>('image');
 
   // Get current micrograph
   const currentMicrograph = useMemo(() => {
@@ -223,6 +261,49 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
     return allPolygonSpots.filter(({ spot }) => selectedSpotIds.has(spot.id));
   }, [allPolygonSpots, spotFilter, selectedSpotIds]);
 
+  // Orientation frame of each analyzed micrograph, for geographic/fabric directions
+  const orientationFrames = useMemo(() => {
+    const frames = new Map<string, OrientationFrame>();
+    for (const micrograph of micrographsToAnalyze) {
+      frames.set(micrograph.id, resolveOrientationFrame(micrograph, micrographIndex));
+    }
+    return frames;
+  }, [micrographsToAnalyze, micrographIndex]);
+
+  // Frame of the micrograph each grain was measured on
+  const spotFrames = useMemo(() => {
+    const frames = new Map<string, OrientationFrame>();
+    for (const { spot, micrograph } of spots) {
+      const frame = orientationFrames.get(micrograph.id);
+      if (frame) frames.set(spot.id, frame);
+    }
+    return frames;
+  }, [spots, orientationFrames]);
+
+  // Reference frames offered: geographic when any grain can be oriented, fabric
+  // only when every fabric-referenced micrograph is the same section plane
+  const { referenceFrames, fabricPlane } = useMemo(() => {
+    const available = new Set<ReferenceFrame>(['image']);
+    const planes = new Set<FabricPlane>();
+    for (const frame of orientationFrames.values()) {
+      for (const f of availableReferenceFrames(frame)) available.add(f);
+      if (frame.fabricPlane) planes.add(frame.fabricPlane);
+    }
+    if (planes.size > 1) available.delete('fabric');
+    const plane = planes.size === 1 ? [...planes][0] : null;
+    return {
+      referenceFrames: (['image', 'geographic', 'fabric'] as ReferenceFrame[]).filter((f) => available.has(f)),
+      fabricPlane: plane,
+    };
+  }, [orientationFrames]);
+
+  // Fall back to image coordinates when the scope no longer supports the frame
+  useEffect(() => {
+    if (!referenceFrames.includes(referenceFrame)) {
+      setReferenceFrame('image');
+    }
+  }, [referenceFrames, referenceFrame]);
+
   // Calculate grain metrics
   const grainMetrics = useMemo(() => {
     const metrics: GrainMetrics[] = [];
@@ -236,6 +317,13 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
     return metrics;
   }, [spots]);
 
+  // Shape assumption for the stereological correction
+  const csdShape = useMemo((): CSDShape => {
+    if (csdShapeMode === 'sphere') return SPHERE_SHAPE;
+    const valid = customShape.short > 0 && customShape.intermediate > 0 && customShape.long > 0;
+    return valid ? customShape : SPHERE_SHAPE;
+  }, [csdShapeMode, customShape]);
+
   // Perform full analysis
   const analysisResults = useMemo((): GrainAnalysisResults | null => {
     if (grainMetrics.length === 0) return null;
@@ -277,9 +365,10 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
       sampleName,
       scale,
       totalMicrographAreaMicrons2,
-      rockType
+      rockType,
+      { shape: csdShape }
     );
-  }, [grainMetrics, micrographsToAnalyze, rockType, project]);
+  }, [grainMetrics, micrographsToAnalyze, rockType, project, csdShape]);
 
   // Extract data for charts
   const chartData = useMemo(() => {
@@ -294,6 +383,25 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
     };
   }, [analysisResults]);
 
+  // Grain orientations in the selected reference frame; grains on micrographs
+  // without that orientation are left out
+  const frameOrientations = useMemo(() => {
+    if (!analysisResults) return { orientations: [], excluded: 0 };
+    const orientations: number[] = [];
+    for (const g of analysisResults.grains) {
+      const frame = spotFrames.get(g.spotId);
+      const azimuth = frame ? transformImageDirection(g.orientationDegrees, frame, referenceFrame) : null;
+      if (azimuth !== null) orientations.push(azimuth);
+    }
+    return { orientations, excluded: analysisResults.grains.length - orientations.length };
+  }, [analysisResults, spotFrames, referenceFrame]);
+
+  // Mean direction in the selected reference frame
+  const frameMean = useMemo(
+    () => (frameOrientations.orientations.length > 0 ? calculateCircularMean(frameOrientations.orientations).mean : null),
+    [frameOrientations]
+  );
+
   // CSV Export handler
   const handleExportCSV = useCallback(async () => {
     if (!analysisResults) return;
@@ -313,9 +421,25 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
         'MinorAxisMicrons',
         'AspectRatio',
         'OrientationDegrees',
+        ...(referenceFrame === 'geographic' ? ['TrendDegrees', 'PlungeDegrees'] : []),
+        ...(referenceFrame === 'fabric' ? [`FabricAngleDegrees${fabricPlane ? `_${fabricPlane}` : ''}`] : []),
         'Circularity',
       ];
 
+      // Orientation columns for the selected reference frame (blank where unavailable)
+      const frameColumns = (g: GrainMetrics): string[] => {
+        const frame = spotFrames.get(g.spotId);
+        if (referenceFrame === 'geographic') {
+          const line = frame ? imageDirectionToTrendPlunge(g.orientationDegrees, frame) : null;
+          return line ? [line.trend.toFixed(1), line.plunge.toFixed(1)] : ['', ''];
+        }
+        if (referenceFrame === 'fabric') {
+          const angle = frame ? transformImageDirection(g.orientationDegrees, frame, 'fabric') : null;
+          return [angle !== null ? angle.toFixed(1) : ''];
+        }
+        return [];
+      };
+
       const rows = analysisResults.grains.map(g => [
         g.spotId,
         g.spotName,
@@ -328,6 +452,7 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
         g.minorAxisMicrons.toFixed(2),
         g.aspectRatio.toFixed(3),
         g.orientationDegrees.toFixed(1),
+        ...frameColumns(g),
         g.circularity.toFixed(3),
       ]);
 
@@ -344,13 +469,66 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
     } finally {
       setExporting(false);
     }
+  }, [analysisResults, referenceFrame, fabricPlane, spotFrames]);
+
+  // CSD Export handler
+  const handleExportCSD = useCallback(async () => {
+    if (!analysisResults?.csd) return;
+
+    setExporting(true);
+    try {
+      const defaultName = `grain-csd-${new Date().toISOString().slice(0, 10)}.csv`;
+      await window.api?.saveTextFile(exportCSDToCSV(analysisResults.csd), defaultName, 'csv');
+    } catch (error) {
+      console.error('Failed to export CSD:', error);
+    } finally {
+      setExporting(false);
+    }
   }, [analysisResults]);
 
+  // Rf/φ Export handler
+  const handleExportRfPhi = useCallback(async () => {
+    if (!analysisResults?.rfPhi) return;
+
+    setExporting(true);
+    try {
+      const defaultName = `grain-rf-phi-${new Date().toISOString().slice(0, 10)}.csv`;
+      await window.api?.saveTextFile(exportRfPhiToCSV(analysisResults.rfPhi), defaultName, 'csv');
+    } catch (error) {
+      console.error('Failed to export Rf/phi data:', error);
+    } finally {
+      setExporting(false);
+    }
+  }, [analysisResults]);
+
+  // Save the shape-preferred orientation to the current micrograph's grain info
+  const handleSaveOrientation = useCallback(() => {
+    if (!analysisResults?.rfPhi || scope !== 'current' || !currentMicrograph) return;
+
+    const phases = analysisResults.mineralGroups
+      .map((group) => group.mineral)
+      .filter((mineral) => mineral !== 'Unclassified');
+    const entry = rfPhiResultsToGrainOrientation(analysisResults.rfPhi, orientationSource, phases);
+
+    // Replace an earlier measured entry for the same phases so re-analysis updates it
+    const phaseKey = (list: string[] | null | undefined) => [...(list ?? [])].sort().join('|');
+    const existing = currentMicrograph.grainInfo?.grainOrientationInfo ?? [];
+    const kept = existing.filter((item) => !(item.rfPhi && phaseKey(item.phases) === phaseKey(entry.phases)));
+
+    updateMicrographMetadata(currentMicrograph.id, {
+      grainInfo: { ...currentMicrograph.grainInfo, grainOrientationInfo: [...kept, entry] },
+    });
+    setOrientationSaved(true);
+    setTimeout(() => setOrientationSaved(false), 2000);
+  }, [analysisResults, scope, currentMicrograph, orientationSource, updateMicrographMetadata]);
+
   // Copy statistics to clipboard
   const handleCopyStats = useCallback(async () => {
     if (!analysisResults) return;
 
     const stats = analysisResults.sizeStats;
+    const csd = analysisResults.csd;
+    const rfPhi = analysisResults.rfPhi;
     const text = [
       `Grain Size Analysis Results`,
       `Date: ${new Date().toLocaleDateString()}`,
@@ -375,12 +553,25 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
       analysisResults.preferredOrientation !== null
         ? `  Preferred Orientation: ${analysisResults.preferredOrientation.toFixed(0)}° ± ${(Math.sqrt(-2 * Math.log(analysisResults.orientationStrength)) * 180 / Math.PI / 2).toFixed(0)}°`
         : '',
+      referenceFrame !== 'image' && frameMean
+        ? `  Preferred Orientation (${describeReferenceFrame(referenceFrame, fabricPlane)}): ${frameMean.toFixed(0)}°`
+        : '',
+      csd ? `CSD (S:I:L = ${csd.shape.short}:${csd.shape.intermediate}:${csd.shape.long})` : '',
+      csd?.slope != null ? `  Slope: ${csd.slope.toFixed(3)} mm⁻¹` : '',
+      csd?.intercept != null ? `  Intercept ln(n⁰): ${csd.intercept.toFixed(2)}` : '',
+      csd?.characteristicLength != null ? `  Characteristic Length: ${formatSize(csd.characteristicLength * 1000)}` : '',
+      csd?.rSquared != null ? `  R²: ${csd.rSquared.toFixed(3)}` : '',
+      rfPhi ? `STRAIN (Rf/φ)` : '',
+      rfPhi ? `  Harmonic Mean Rf: ${rfPhi.harmonicMeanRf.toFixed(2)}` : '',
+      rfPhi ? `  Vector Mean: ${rfPhi.vectorMeanOrientation.toFixed(0)}° (strength ${rfPhi.vectorMeanStrength.toFixed(2)})` : '',
+      rfPhi?.strainRatio != null ? `  Strain Ratio Rs: ${rfPhi.strainRatio.toFixed(2)} (χ² ${rfPhi.chiSquared?.toFixed(1)})` : '',
+      rfPhi ? `  Shape Tensor: Rs ${rfPhi.shapeTensor.ratio.toFixed(2)} at ${rfPhi.shapeTensor.orientation.toFixed(0)}°` : '',
     ].filter(line => line !== '').join('\n');
 
     await navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [analysisResults]);
+  }, [analysisResults, referenceFrame, fabricPlane, frameMean]);
 
   // Reset copied state when dialog closes
   useEffect(() => {
@@ -598,17 +789,184 @@ export function GrainSizeAnalysisDialog({ open, onClose }: GrainSizeAnalysisDial
                 />
               </Paper>
 
+              {/* Crystal Size Distribution */}
+              <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                  <Typography variant="subtitle2">Crystal Size Distribution (3D)</Typography>
+                  <Button
+                    size="small"
+                    startIcon={<DownloadIcon />}
+                    onClick={handleExportCSD}
+                    disabled={!analysisResults.csd || exporting}
+                  >
+                    Export CSD
+                  </Button>
+                </Box>
+                <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 1 }} flexWrap="wrap">
+                  <RadioGroup
+                    row
+                    value={csdShapeMode}
+                    onChange={(e) => setCsdShapeMode(e.target.value as CSDShapeMode)}
+                  >
+                    <FormControlLabel value="sphere" control={<Radio size="small" />} label="Sphere" />
+                    <FormControlLabel value="custom" control={<Radio size="small" />} label="Aspect ratios" />
+                  </RadioGroup>
+                  {csdShapeMode === 'custom' && (
+                    <Stack direction="row" spacing={1}>
+                      {(['short', 'intermediate', 'long'] as const).map((axis) => (
+                        <TextField
+                          key={axis}
+                          label={axis.charAt(0).toUpperCase()}
+                          type="number"
+                          size="small"
+                          value={customShape[axis]}
+                          onChange={(e) => setCustomShape((prev) => ({ ...prev, [axis]: Number(e.target.value) }))}
+                          inputProps={{ min: 0.1, step: 0.1 }}
+                          sx={{ width: 80 }}
+                        />
+                      ))}
+                    </Stack>
+                  )}
+                </Stack>
+                <CSDPlot
+                  csd={analysisResults.csd}
+                  width={520}
+                  height={300}
+                  showGrid={showGrid}
+                />
+                {analysisResults.csd && (
+                  <Box sx={{ mt: 1 }}>
+                    {analysisResults.csd.slope !== null && (
+                      <Typography variant="body2">
+                        Slope: <strong>{analysisResults.csd.slope.toFixed(3)} mm⁻¹</strong>
+                        {analysisResults.csd.characteristicLength !== null && (
+                          <> · Characteristic length: <strong>{formatSize(analysisResults.csd.characteristicLength * 1000)}</strong></>
+                        )}
+                      </Typography>
+                    )}
+                    {analysisResults.csd.intercept !== null && analysisResults.csd.rSquared !== null && (
+                      <Typography variant="body2">
+                        Intercept ln(n⁰): <strong>{analysisResults.csd.intercept.toFixed(2)}</strong>
+                        {' · '}R²: <strong>{analysisResults.csd.rSquared.toFixed(3)}</strong>
+                      </Typography>
+                    )}
+                    {analysisResults.csd.negativeBinCount > 0 && (
+                      <Typography variant="caption" color="warning.main">
+                        {analysisResults.csd.negativeBinCount} size class(es) unfolded to negative values and were set to zero.
+                        Try a different shape or more grains.
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+              </Paper>
+
               {/* Rose Diagram */}
               {chartData.aspectRatios.some(ar => ar > 1.2) && (
-                <Paper variant="outlined" sx={{ p: 2 }}>
-                  <Typography variant="subtitle2" sx={{ mb: 1 }}>Orientation</Typography>
+                <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                    <Typography variant="subtitle2">Orientation</Typography>
+                    <Select
+                      size="small"
+                      value={referenceFrame}
+                      onChange={(e) => setReferenceFrame(e.target.value as ReferenceFrame)}
+                      disabled={referenceFrames.length < 2}
+                      sx={{ minWidth: 140 }}
+                    >
+                      {referenceFrames.map((frame) => (
+                        <MenuItem key={frame} value={frame}>{REFERENCE_FRAME_LABELS[frame]}</MenuItem>
+                      ))}
+                    </Select>
+                  </Box>
                   <Box sx={{ display: 'flex', justifyContent: 'center' }}>
                     <RoseDiagram
-                      orientations={chartData.orientations}
+                      orientations={frameOrientations.orientations}
                       size={280}
                       showMean={true}
+                      frame={referenceFrame}
+                      fabricPlane={fabricPlane}
                     />
                   </Box>
+                  <Typography variant="caption" color="text.secondary" component="div" sx={{ textAlign: 'center' }}>
+                    {describeReferenceFrame(referenceFrame, fabricPlane)}
+                    {frameOrientations.excluded > 0 &&
+                      ` · ${frameOrientations.excluded} grain(s) on micrographs without this orientation left out`}
+                  </Typography>
+                  {referenceFrames.length < 2 && (
+                    <Typography variant="caption" color="text.secondary" component="div" sx={{ textAlign: 'center' }}>
+                      Add orientation to the micrograph (or its parent) for geographic or fabric directions.
+                    </Typography>
+                  )}
+                </Paper>
+              )}
+
+              {/* Rf/φ Strain Analysis */}
+              {analysisResults.rfPhi && (
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                    <Typography variant="subtitle2">Strain (Rf/φ)</Typography>
+                    <Button
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      onClick={handleExportRfPhi}
+                      disabled={exporting}
+                    >
+                      Export Rf/φ
+                    </Button>
+                  </Box>
+                  <RfPhiPlot
+                    results={analysisResults.rfPhi}
+                    width={520}
+                    height={300}
+                    showGrid={showGrid}
+                  />
+                  <Box sx={{ mt: 1 }}>
+                    <Typography variant="body2">
+                      Harmonic mean Rf: <strong>{analysisResults.rfPhi.harmonicMeanRf.toFixed(2)}</strong>
+                      {' · '}Vector mean: <strong>{analysisResults.rfPhi.vectorMeanOrientation.toFixed(0)}°</strong>
+                      {' '}(strength {analysisResults.rfPhi.vectorMeanStrength.toFixed(2)})
+                    </Typography>
+                    <Typography variant="body2">
+                      Strain ratio Rs (θ curves):{' '}
+                      {analysisResults.rfPhi.strainRatio !== null ? (
+                        <>
+                          <strong>{analysisResults.rfPhi.strainRatio.toFixed(2)}</strong>
+                          {' '}(χ² {analysisResults.rfPhi.chiSquared!.toFixed(1)}, 95% critical {analysisResults.rfPhi.chiSquaredCritical!.toFixed(1)})
+                        </>
+                      ) : (
+                        <em>needs more grains</em>
+                      )}
+                    </Typography>
+                    <Typography variant="body2">
+                      Shape tensor: <strong>{analysisResults.rfPhi.shapeTensor.ratio.toFixed(2)}</strong>
+                      {' at '}<strong>{analysisResults.rfPhi.shapeTensor.orientation.toFixed(0)}°</strong>
+                    </Typography>
+                  </Box>
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1.5 }}>
+                    <Select
+                      size="small"
+                      value={orientationSource}
+                      onChange={(e) => setOrientationSource(e.target.value as OrientationSource)}
+                      sx={{ minWidth: 200 }}
+                    >
+                      <MenuItem value="tensor">Shape tensor orientation</MenuItem>
+                      <MenuItem value="vector-mean">Rf/φ vector mean</MenuItem>
+                    </Select>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={orientationSaved ? <CheckIcon /> : <SaveIcon />}
+                      color={orientationSaved ? 'success' : 'primary'}
+                      onClick={handleSaveOrientation}
+                      disabled={scope !== 'current' || !currentMicrograph}
+                    >
+                      {orientationSaved ? 'Saved' : 'Save to Micrograph'}
+                    </Button>
+                  </Stack>
+                  {scope !== 'current' && (
+                    <Typography variant="caption" color="text.secondary">
+                      Switch to the current micrograph scope to save the orientation.
+                    </Typography>
+                  )}
                 </Paper>
               )}
             </Box>
@@ -32,6 +32,7 @@ import { Stage, Layer, Image as KonvaImage, Group, Circle, Line, Rect } from 're
 import { useAppStore } from '@/store';
 import { getEffectiveTheme } from '@/hooks/useTheme';
 import type { MicrographMetadata, Spot } from '@/types/project-types';
+import { getPlacementWarp, isWarpedPlacement, warpOutline } from '@/utils/placementWarp';
 
 const TILE_SIZE = 256;
 const MIN_ZOOM = 0.05;
@@ -245,8 +246,8 @@ function ComparatorCanvas({
         // Load overlay images
         const loadedOverlays: OverlayImage[] = [];
         for (const overlay of overlays) {
-          // Handle affine overlays
-          if (overlay.placementType === 'affine') {
+          // Handle affine (and projective / spline) overlays
+          if (isWarpedPlacement(overlay.placementType)) {
             try {
               const overlayPath = `${folderPaths.images}/${overlay.id}`;
               const overlayResult = await window.api?.loadImageWithTiles(overlayPath);
@@ -268,24 +269,17 @@ function ComparatorCanvas({
               const transformedWidth = overlay.affineTransformedWidth || overlay.imageWidth || 0;
               const transformedHeight = overlay.affineTransformedHeight || overlay.imageHeight || 0;
               const boundsOffset = overlay.affineBoundsOffset || { x: 0, y: 0 };
-              const matrix = overlay.affineMatrix;
+              const warp = getPlacementWarp(overlay);
               const srcWidth = overlay.imageWidth || 0;
               const srcHeight = overlay.imageHeight || 0;
 
-              // Calculate parallelogram outline points from affine matrix
+              // Calculate outline points (a parallelogram for affine) from the placement warp
               let affineOutlinePoints: number[] | undefined;
-              if (matrix && matrix.length === 6) {
-                const [a, b, tx, c, d, ty] = matrix;
-                const corners = [
-                  [0, 0],
-                  [srcWidth, 0],
-                  [srcWidth, srcHeight],
-                  [0, srcHeight],
-                ];
-                // Transform corners and subtract boundsOffset to get positions relative to tile grid
-                affineOutlinePoints = corners.flatMap(([x, y]) => [
-                  a * x + b * y + tx - boundsOffset.x,
-                  c * x + d * y + ty - boundsOffset.y,
+              if (warp) {
+                // Subtract boundsOffset to get positions relative to tile grid
+                affineOutlinePoints = warpOutline(warp, srcWidth, srcHeight).flatMap(([x, y]) => [
+                  x - boundsOffset.x,
+                  y - boundsOffset.y,
                 ]);
               }
 
@@ -0,0 +1,268 @@
+/**
+ * Import COCO Predictions Dialog
+ *
+ * Turns instance-segmentation predictions in COCO form back into polygon
+ * spots (generationMethod 'model-prediction').
+ * Features:
+ * - COCO results lists (with the dataset they were predicted on) or full datasets
+ * - Predictions placed on the micrograph (and tile offset) their image came from
+ * - Score threshold
+ * - Predicted class recorded as the spot's mineral, as a tag, or not at all
+ */
+
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Alert,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Slider,
+} from '@mui/material';
+import { FileOpen as FileOpenIcon } from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { useAppStore, runAsHistoryStep } from '@/store';
+import type { Spot, Tag } from '@/types/project-types';
+import { getMineralColor } from '@/types/point-count-types';
+import { ringCentroid } from '@/services/grainDetection/geometry';
+import {
+  parseCocoPredictions,
+  resolveCocoPredictions,
+  DEFAULT_COCO_IMPORT_OPTIONS,
+  type CocoImportOptions,
+} from '@/services/cocoDataset';
+
+/** Color of spots without a predicted class */
+const UNCLASSIFIED_COLOR = '#ffff00';
+
+interface OpenedFile {
+  filePath: string;
+  data: unknown;
+}
+
+interface ImportCocoPredictionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+export function ImportCocoPredictionsDialog({ open, onClose }: ImportCocoPredictionsDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const addSpots = useAppStore((s) => s.addSpots);
+  const createTag = useAppStore((s) => s.createTag);
+  const [predictionsFile, setPredictionsFile] = useState<OpenedFile | null>(null);
+  const [datasetFile, setDatasetFile] = useState<OpenedFile | null>(null);
+  const [options, setOptions] = useState<CocoImportOptions>(DEFAULT_COCO_IMPORT_OPTIONS);
+  const [openError, setOpenError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPredictionsFile(null);
+      setDatasetFile(null);
+      setOpenError(null);
+    }
+  }, [open]);
+
+  const openFile = useCallback(async (title: string, setter: (file: OpenedFile) => void) => {
+    setOpenError(null);
+    const result = await window.api?.coco.openJson(title);
+    if (!result || result.canceled) return;
+    if (!result.success || !result.filePath) {
+      setOpenError(result.error || 'Could not open file');
+      return;
+    }
+    setter({ filePath: result.filePath, data: result.data });
+  }, []);
+
+  const parsed = useMemo(() => {
+    if (!predictionsFile) return null;
+    try {
+      return { set: parseCocoPredictions(predictionsFile.data, datasetFile?.data), error: null };
+    } catch (err) {
+      return { set: null, error: err instanceof Error ? err.message : 'Invalid COCO file' };
+    }
+  }, [predictionsFile, datasetFile]);
+
+  const resolved = useMemo(
+    () => (parsed?.set && project ? resolveCocoPredictions(parsed.set, project, options) : null),
+    [parsed, project, options]
+  );
+
+  const micrographCount = useMemo(
+    () => new Set(resolved?.spots.map((spot) => spot.micrographId)).size,
+    [resolved]
+  );
+
+  const handleImport = useCallback(() => {
+    if (!resolved || !project || resolved.spots.length === 0) return;
+
+    const timestamp = new Date().toISOString();
+    const counters = new Map<string, number>();
+    const tagIds = new Map((project.tags || []).map((tag) => [tag.name, tag.id]));
+    const newTags: Tag[] = [];
+    const spotsByMicrograph = new Map<string, Spot[]>();
+
+    for (const predicted of resolved.spots) {
+      const category = predicted.category;
+      const label = category || 'Prediction';
+      const n = (counters.get(label) || 0) + 1;
+      counters.set(label, n);
+      const color = category ? getMineralColor(category) : UNCLASSIFIED_COLOR;
+
+      let tagId: string | undefined;
+      if (options.assignCategoryAs === 'tag' && category) {
+        tagId = tagIds.get(category);
+        if (!tagId) {
+          tagId = uuidv4();
+          tagIds.set(category, tagId);
+          newTags.push({
+            id: tagId,
+            name: category,
+            tagType: 'Other',
+            otherTagType: 'Legacy',
+            lineColor: color,
+            fillColor: color,
+            transparency: 50,
+            tagSize: 10,
+            isExpanded: true,
+          });
+        }
+      }
+
+      const centroid = ringCentroid(predicted.ring);
+      const spot: Spot = {
+        id: uuidv4(),
+        name: `${label} ${n}`,
+        notes: predicted.score !== null ? `Prediction score ${predicted.score.toFixed(3)}` : null,
+        geometryType: 'polygon',
+        points: predicted.ring.slice(0, -1).map(([x, y]) => ({ X: x, Y: y })),
+        color,
+        opacity: 50,
+        ...(options.assignCategoryAs === 'mineral' && category && { mineralogy: { minerals: [{ name: category }] } }),
+        ...(tagId && { tags: [tagId] }),
+        generationMethod: 'model-prediction' as const,
+        generationTimestamp: timestamp,
+        areaPixels: predicted.area,
+        centroid: { X: Math.round(centroid.x), Y: Math.round(centroid.y) },
+      };
+
+      const list = spotsByMicrograph.get(predicted.micrographId) || [];
+      list.push(spot);
+      spotsByMicrograph.set(predicted.micrographId, list);
+    }
+
+    console.log('[CocoImport] Importing', resolved.spots.length, 'predicted spots on', spotsByMicrograph.size, 'micrographs');
+
+    runAsHistoryStep(`Import ${resolved.spots.length} predicted spots`, () => {
+      newTags.forEach((tag) => createTag(tag));
+      spotsByMicrograph.forEach((spots, micrographId) => addSpots(micrographId, spots));
+    });
+    onClose();
+  }, [resolved, project, options.assignCategoryAs, createTag, addSpots, onClose]);
+
+  const needsDataset = !!parsed?.set && parsed.set.images.length === 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import Segmentation Predictions (COCO)</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ py: 1 }}>
+          {/* Files */}
+          <Box>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Button
+                variant="outlined"
+                startIcon={<FileOpenIcon />}
+                onClick={() => openFile('Open COCO Predictions', setPredictionsFile)}
+              >
+                Predictions...
+              </Button>
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {predictionsFile ? fileName(predictionsFile.filePath) : 'Results list or COCO dataset'}
+              </Typography>
+            </Stack>
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+              <Button
+                variant="outlined"
+                startIcon={<FileOpenIcon />}
+                onClick={() => openFile('Open Exported COCO Dataset', setDatasetFile)}
+              >
+                Dataset...
+              </Button>
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {datasetFile
+                  ? fileName(datasetFile.filePath)
+                  : 'The instances_*.json the predictions were made on (for results lists)'}
+              </Typography>
+            </Stack>
+          </Box>
+
+          {openError && <Alert severity="error">{openError}</Alert>}
+          {parsed?.error && <Alert severity="error">{parsed.error}</Alert>}
+          {needsDataset && (
+            <Alert severity="warning">
+              This results list has no images. Choose the dataset it was predicted on.
+            </Alert>
+          )}
+
+          {/* Options */}
+          <Box>
+            <Typography variant="body2" gutterBottom>
+              Minimum Score: {options.minScore.toFixed(2)}
+            </Typography>
+            <Slider
+              value={options.minScore}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(_e, value) => setOptions((prev) => ({ ...prev, minScore: value as number }))}
+              size="small"
+            />
+          </Box>
+          <FormControl component="fieldset">
+            <FormLabel component="legend">Record Predicted Class As</FormLabel>
+            <RadioGroup
+              row
+              value={options.assignCategoryAs}
+              onChange={(e) =>
+                setOptions((prev) => ({ ...prev, assignCategoryAs: e.target.value as CocoImportOptions['assignCategoryAs'] }))
+              }
+            >
+              <FormControlLabel value="mineral" control={<Radio />} label="Mineral" />
+              <FormControlLabel value="tag" control={<Radio />} label="Tag" />
+              <FormControlLabel value="none" control={<Radio />} label="Spot name only" />
+            </RadioGroup>
+          </FormControl>
+
+          {/* Summary */}
+          {resolved && !needsDataset && (
+            <Alert severity={resolved.spots.length > 0 ? 'info' : 'warning'}>
+              {resolved.spots.length} spots on {micrographCount} micrograph{micrographCount === 1 ? '' : 's'}.
+              {resolved.belowThreshold > 0 && ` ${resolved.belowThreshold} below the score threshold.`}
+              {resolved.unmatched > 0 && ` ${resolved.unmatched} on images not matching any micrograph.`}
+              {resolved.invalid > 0 && ` ${resolved.invalid} without a usable outline.`}
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleImport} disabled={!resolved || resolved.spots.length === 0}>
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import {
 } from '@mui/material';
 import { Warning as WarningIcon } from '@mui/icons-material';
 import type { ProjectMetadata } from '@/types/project-types';
+import { isWarpedPlacement } from '@/utils/placementWarp';
 
 export interface IncompleteMicrograph {
   id: string;
@@ -143,8 +144,8 @@ export function findIncompleteMicrographs(project: ProjectMetadata): IncompleteM
       for (const micro of sample.micrographs ?? []) {
         const isReference = !micro.parentID;
         const needsScale = !micro.scalePixelsPerCentimeter;
-        // Location can be set via offsetInParent (scaled rectangle), pointInParent (approximate point), or affine placement
-        const hasLocation = micro.offsetInParent || micro.pointInParent || micro.xOffset !== undefined || micro.placementType === 'affine';
+        // Location can be set via offsetInParent (scaled rectangle), pointInParent (approximate point), or control point placement
+        const hasLocation = micro.offsetInParent || micro.pointInParent || micro.xOffset !== undefined || isWarpedPlacement(micro.placementType);
         const needsLocation = !isReference && !hasLocation;
         const needsInstrumentInfo = !!micro.needsInstrumentInfo;
 
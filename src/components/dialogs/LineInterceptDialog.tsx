@@ -0,0 +1,227 @@
+/**
+ * Line Intercept Dialog
+ *
+ * Entry point for line-intercept grain size measurement. Configures the
+ * test lines laid over the active micrograph:
+ * - Pattern: parallel, orthogonal, multi-directional or random lines
+ * - Number of lines and direction of the first line set
+ * - Factor converting mean intercept length to grain size
+ * - Phases the measurement applies to
+ *
+ * Starting a measurement enters line-intercept mode, where intersections
+ * are marked from the Line Intercept toolbar.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Slider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  TextField,
+  Select,
+  MenuItem,
+  InputLabel,
+  Alert,
+} from '@mui/material';
+import { useAppStore } from '@/store';
+import { findMicrographById, getAvailablePhasesFromMicrograph } from '@/store/helpers';
+import { generateTestLines, type TestLinePattern } from '@/services/pointCounting';
+import { INTERCEPT_CORRECTION_FACTORS } from '@/services/grainAnalysis';
+import { PhaseSelector } from './metadata/reusable/PhaseSelector';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface LineInterceptDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MIN_LINES = 2;
+const MAX_LINES = 50;
+const DEFAULT_LINES = 10;
+const DEFAULT_CORRECTION_FACTOR = 1.5;
+
+const PATTERN_DESCRIPTIONS: Record<TestLinePattern, string> = {
+  parallel: 'One set of evenly spaced lines in a single direction.',
+  orthogonal: 'Two perpendicular sets of lines. Gives anisotropy index and degree of orientation.',
+  multidirectional: 'Four sets of lines 45° apart. Resolves the direction of grain elongation.',
+  random: 'Short lines in random directions spread evenly over the image. Insensitive to fabric.',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function LineInterceptDialog({ open, onClose }: LineInterceptDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const pointCountMode = useAppStore((s) => s.pointCountMode);
+  const enterLineInterceptMode = useAppStore((s) => s.enterLineInterceptMode);
+  const setQuickClassifyVisible = useAppStore((s) => s.setQuickClassifyVisible);
+
+  const [pattern, setPattern] = useState<TestLinePattern>('orthogonal');
+  const [lineCount, setLineCount] = useState(DEFAULT_LINES);
+  const [angle, setAngle] = useState<number | ''>(0);
+  const [correctionFactor, setCorrectionFactor] = useState(DEFAULT_CORRECTION_FACTOR);
+  const [phases, setPhases] = useState<string[]>([]);
+
+  const micrograph = useMemo(
+    () => (project && activeMicrographId ? findMicrographById(project, activeMicrographId) : null),
+    [project, activeMicrographId]
+  );
+  const availablePhases = useMemo(() => getAvailablePhasesFromMicrograph(micrograph ?? null), [micrograph]);
+
+  const imageWidth = micrograph?.imageWidth || micrograph?.width || 0;
+  const imageHeight = micrograph?.imageHeight || micrograph?.height || 0;
+
+  const totalLines = pattern === 'orthogonal' ? lineCount * 2 : pattern === 'multidirectional' ? lineCount * 4 : lineCount;
+
+  const handleStart = useCallback(() => {
+    if (!micrograph || imageWidth <= 0 || imageHeight <= 0) return;
+
+    const lines = generateTestLines(imageWidth, imageHeight, {
+      pattern,
+      lineCount,
+      angle: angle === '' ? 0 : angle,
+    });
+
+    setQuickClassifyVisible(false);
+    enterLineInterceptMode({
+      micrographId: micrograph.id,
+      pattern,
+      lines,
+      marks: [],
+      measuredLineIndices: [],
+      correctionFactor,
+      phases,
+    });
+    onClose();
+  }, [micrograph, imageWidth, imageHeight, pattern, lineCount, angle, correctionFactor, phases, setQuickClassifyVisible, enterLineInterceptMode, onClose]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Line Intercept Grain Size</DialogTitle>
+      <DialogContent>
+        {!micrograph ? (
+          <Typography color="text.secondary" sx={{ py: 2 }}>
+            Open a micrograph to measure grain size.
+          </Typography>
+        ) : (
+          <Stack spacing={3} sx={{ mt: 1 }}>
+            {pointCountMode && (
+              <Alert severity="warning">
+                Exit Point Count mode before starting a line-intercept measurement.
+              </Alert>
+            )}
+            {!micrograph.scalePixelsPerCentimeter && (
+              <Alert severity="info">
+                This micrograph has no scale. Intercept lengths will be reported in pixels
+                and no ASTM grain size number can be calculated.
+              </Alert>
+            )}
+
+            {/* Pattern */}
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Test Lines</FormLabel>
+              <RadioGroup
+                row
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value as TestLinePattern)}
+              >
+                <FormControlLabel value="parallel" control={<Radio />} label="Parallel" />
+                <FormControlLabel value="orthogonal" control={<Radio />} label="Orthogonal" />
+                <FormControlLabel value="multidirectional" control={<Radio />} label="Multi-directional" />
+                <FormControlLabel value="random" control={<Radio />} label="Random" />
+              </RadioGroup>
+              <Typography variant="caption" color="text.secondary">
+                {PATTERN_DESCRIPTIONS[pattern]}
+              </Typography>
+            </FormControl>
+
+            {/* Line count */}
+            <Box>
+              <Typography gutterBottom>
+                {pattern === 'random' ? 'Lines' : 'Lines per direction'}: <strong>{lineCount}</strong>
+                {totalLines !== lineCount && (
+                  <Typography component="span" variant="body2" color="text.secondary">
+                    {' '}({totalLines} total)
+                  </Typography>
+                )}
+              </Typography>
+              <Slider
+                value={lineCount}
+                onChange={(_, value) => setLineCount(value as number)}
+                min={MIN_LINES}
+                max={MAX_LINES}
+                step={1}
+              />
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Direction (°)"
+                type="number"
+                size="small"
+                value={angle}
+                onChange={(e) => setAngle(e.target.value === '' ? '' : Number(e.target.value))}
+                disabled={pattern === 'random'}
+                helperText="0° = horizontal, 90° = vertical"
+                inputProps={{ min: 0, max: 180, step: 1 }}
+                sx={{ width: 180 }}
+              />
+              <FormControl size="small" sx={{ flex: 1 }}>
+                <InputLabel>Grain Size Correction</InputLabel>
+                <Select
+                  value={correctionFactor}
+                  label="Grain Size Correction"
+                  onChange={(e) => setCorrectionFactor(Number(e.target.value))}
+                >
+                  {INTERCEPT_CORRECTION_FACTORS.map((factor) => (
+                    <MenuItem key={factor.value} value={factor.value}>
+                      {factor.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            {/* Phases */}
+            <PhaseSelector
+              availablePhases={availablePhases}
+              selectedPhases={phases}
+              onChange={setPhases}
+              helperText="Phases the grain size applies to (optional)"
+            />
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleStart}
+          disabled={!micrograph || pointCountMode || imageWidth <= 0 || imageHeight <= 0}
+        >
+          Start Measuring
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
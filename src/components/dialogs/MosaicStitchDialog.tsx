@@ -0,0 +1,676 @@
+/**
+ * Mosaic Stitch Dialog
+ *
+ * Stitches a thin section captured as a grid of overlapping camera fields
+ * into one reference micrograph:
+ * 1. Select the field images and describe the grid (size, scan order, overlap)
+ * 2. Stitch: each field is converted like a normal import, then the main
+ *    process measures the overlaps, places the fields and blends the seams
+ *    (see electron/mosaicStitcher.js)
+ * 3. Review the preview and add the mosaic to the sample, optionally keeping
+ *    the source fields as associated micrographs placed on it by an affine
+ *    transform
+ *
+ * Like batch-imported micrographs, the mosaic is flagged for instrument info,
+ * and for scale unless the field pixel size is entered here.
+ */
+
+import { useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Stack,
+  Typography,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Paper,
+  LinearProgress,
+  Alert,
+  TextField,
+  MenuItem,
+} from '@mui/material';
+import { Delete, CloudUpload, Warning } from '@mui/icons-material';
+import { useAppStore, runAsHistoryStep } from '@/store';
+import type { MicrographMetadata } from '@/types/project-types';
+import { computeTransformedBounds, type AffineMatrix } from '@/utils/affineTransform';
+
+interface MosaicStitchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sampleId: string | null;
+}
+
+interface SelectedFile {
+  path: string;
+  name: string;
+  validationError?: string;
+}
+
+/** Order the camera visited the grid cells in */
+type ScanOrder = 'rows' | 'snake' | 'columns';
+
+const SCAN_ORDER_LABELS: Record<ScanOrder, string> = {
+  rows: 'Row by row (left to right)',
+  snake: 'Row by row (alternating direction)',
+  columns: 'Column by column (top to bottom)',
+};
+
+/** A field converted to scratch space */
+interface ConvertedField {
+  name: string;
+  identifier: string;
+  scratchPath: string;
+  originalWidth: number;
+  jpegWidth: number;
+  jpegHeight: number;
+}
+
+interface StitchResult {
+  identifier: string;
+  width: number;
+  height: number;
+  scale: number;
+  positions: Array<{ x: number; y: number }>;
+  measuredLinks: number;
+  totalLinks: number;
+  preview: string;
+}
+
+const MICRONS_PER_CENTIMETER = 10000;
+
+/**
+ * Placeholder scale for fields when the mosaic has none (the same fallback
+ * NewMicrographDialog uses). Micrographs placed by control points take their
+ * effective scale from the micrograph they are placed on.
+ */
+const DEFAULT_PIXELS_PER_CENTIMETER = 100;
+
+/**
+ * Grid cell of the index-th field for a scan order
+ */
+function gridCell(index: number, columns: number, rows: number, order: ScanOrder): { column: number; row: number } {
+  if (order === 'columns') {
+    return { column: Math.floor(index / rows), row: index % rows };
+  }
+  const row = Math.floor(index / columns);
+  const offset = index % columns;
+  return { column: order === 'snake' && row % 2 === 1 ? columns - 1 - offset : offset, row };
+}
+
+export const MosaicStitchDialog: React.FC<MosaicStitchDialogProps> = ({ isOpen, onClose, sampleId }) => {
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [columns, setColumns] = useState('2');
+  const [rows, setRows] = useState('2');
+  const [scanOrder, setScanOrder] = useState<ScanOrder>('rows');
+  const [overlapPercent, setOverlapPercent] = useState('15');
+  const [micronsPerPixel, setMicronsPerPixel] = useState('');
+  const [mosaicName, setMosaicName] = useState('Mosaic');
+  const [keepFields, setKeepFields] = useState(true);
+
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState<{ stage: string; percent: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [stitchResult, setStitchResult] = useState<StitchResult | null>(null);
+  const [convertedFields, setConvertedFields] = useState<ConvertedField[]>([]);
+
+  // Guards against double-clicks while stitching or adding
+  const isWorkingRef = useRef(false);
+  // Scratch images not yet moved into the project, deleted on close or re-stitch
+  const pendingScratchRef = useRef<string[]>([]);
+
+  const validFiles = selectedFiles.filter((f) => !f.validationError);
+  const columnCount = parseInt(columns, 10);
+  const rowCount = parseInt(rows, 10);
+  const overlap = parseFloat(overlapPercent) / 100;
+  const gridValid =
+    columnCount >= 1 && rowCount >= 1 && columnCount * rowCount >= validFiles.length;
+  const overlapValid = overlap > 0 && overlap < 0.9;
+  const canStitch = validFiles.length >= 2 && gridValid && overlapValid && !isWorking;
+
+  const discardScratch = async () => {
+    const identifiers = pendingScratchRef.current;
+    pendingScratchRef.current = [];
+    for (const identifier of identifiers) {
+      try {
+        await window.api?.deleteScratchImage(identifier);
+      } catch (err) {
+        console.error(`[MosaicStitch] Failed to delete scratch image ${identifier}:`, err);
+      }
+    }
+  };
+
+  // Any change to the inputs invalidates a previous result
+  const clearResult = () => {
+    if (!stitchResult) return;
+    setStitchResult(null);
+    setConvertedFields([]);
+    void discardScratch();
+  };
+
+  const handleBrowseFiles = async () => {
+    if (!window.api?.openMultipleTiffDialog) return;
+    try {
+      const filePaths = await window.api.openMultipleTiffDialog();
+      if (!filePaths || filePaths.length === 0) return;
+
+      const validationResults = await window.api.validateImageFiles(filePaths);
+      const newFiles: SelectedFile[] = filePaths.map((filePath: string, i: number) => ({
+        path: filePath,
+        name: filePath.split(/[\\/]/).pop() || filePath,
+        validationError: validationResults[i]?.valid ? undefined : validationResults[i]?.error,
+      }));
+
+      // Cameras number fields in capture order, so keep the list sorted by name
+      setSelectedFiles((prev) => {
+        const existingPaths = new Set(prev.map((f) => f.path));
+        const uniqueNew = newFiles.filter((f) => !existingPaths.has(f.path));
+        return [...prev, ...uniqueNew].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { numeric: true })
+        );
+      });
+      clearResult();
+    } catch (err) {
+      console.error('Error selecting files:', err);
+    }
+  };
+
+  const handleRemoveFile = (path: string) => {
+    setSelectedFiles((prev) => prev.filter((f) => f.path !== path));
+    clearResult();
+  };
+
+  const handleStitch = async () => {
+    if (!canStitch || isWorkingRef.current || !window.api) return;
+    isWorkingRef.current = true;
+    setIsWorking(true);
+    setError(null);
+    setStitchResult(null);
+    setConvertedFields([]);
+    await discardScratch();
+
+    const unsubProgress = window.api.mosaic.onProgress((p) => setProgress(p));
+
+    try {
+      // Convert each field exactly as a single import would (format, size limits)
+      const converted: ConvertedField[] = [];
+      for (let i = 0; i < validFiles.length; i++) {
+        const file = validFiles[i];
+        setProgress({
+          stage: `Converting ${file.name} (${i + 1}/${validFiles.length})...`,
+          percent: (i / validFiles.length) * 100,
+        });
+        if (i > 0) {
+          await window.api.releaseMemory();
+        }
+        const result = await window.api.convertToScratchJPEG(file.path);
+        pendingScratchRef.current.push(result.identifier);
+        converted.push({
+          name: file.name,
+          identifier: result.identifier,
+          scratchPath: result.scratchPath,
+          originalWidth: result.originalWidth,
+          jpegWidth: result.jpegWidth,
+          jpegHeight: result.jpegHeight,
+        });
+      }
+
+      const result = await window.api.mosaic.stitch({
+        fields: converted.map((field, i) => ({
+          path: field.scratchPath,
+          ...gridCell(i, columnCount, rowCount, scanOrder),
+        })),
+        overlap,
+      });
+      if (!result.success || !result.identifier || !result.positions || !result.links) {
+        throw new Error(result.error || 'Stitching failed');
+      }
+      pendingScratchRef.current.push(result.identifier);
+
+      setConvertedFields(converted);
+      setStitchResult({
+        identifier: result.identifier,
+        width: result.width!,
+        height: result.height!,
+        scale: result.scale!,
+        positions: result.positions,
+        measuredLinks: result.links.filter((link) => link.measured).length,
+        totalLinks: result.links.length,
+        preview: result.preview!,
+      });
+    } catch (err) {
+      console.error('[MosaicStitch] Stitching failed:', err);
+      setError(`Stitching failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      await discardScratch();
+    } finally {
+      unsubProgress();
+      await window.api.releaseMemory();
+      setProgress(null);
+      isWorkingRef.current = false;
+      setIsWorking(false);
+    }
+  };
+
+  const handleAddMosaic = async () => {
+    if (!stitchResult || !sampleId || isWorkingRef.current || !window.api) return;
+
+    const project = useAppStore.getState().project;
+    const sampleExists = (project?.datasets || []).some(
+      (dataset) => (dataset.samples || []).some((sample) => sample.id === sampleId)
+    );
+    if (!project || !sampleExists) {
+      setError('The target sample could not be found in the current project. Please close this dialog and try again.');
+      return;
+    }
+
+    isWorkingRef.current = true;
+    setIsWorking(true);
+    setError(null);
+    let mosaicAdded = false;
+    let mosaic: MicrographMetadata | null = null;
+    const children: MicrographMetadata[] = [];
+
+    // The mosaic and its placed fields go in as one undo step
+    const insertMosaic = () => {
+      const parent = mosaic!;
+      runAsHistoryStep(`Add mosaic '${parent.name}'`, () => {
+        const { addMicrograph } = useAppStore.getState();
+        if (!addMicrograph(sampleId, parent)) {
+          throw new Error(
+            'The sample no longer exists in the project, so the mosaic could not be added. Please close this dialog and try again.'
+          );
+        }
+        for (const child of children) addMicrograph(sampleId, child);
+      });
+      mosaicAdded = true;
+    };
+
+    try {
+      await window.api.createProjectFolders(project.id);
+      const folderPaths = await window.api.getProjectFolderPaths(project.id);
+      if (!folderPaths) {
+        throw new Error('Could not get project folder paths');
+      }
+
+      // Field pixel size → mosaic scale (fields may have been resized on conversion)
+      const fieldMicronsPerPixel = parseFloat(micronsPerPixel);
+      const firstField = convertedFields[0];
+      const scalePixelsPerCentimeter = fieldMicronsPerPixel > 0
+        ? (MICRONS_PER_CENTIMETER / fieldMicronsPerPixel) *
+          (firstField.jpegWidth / firstField.originalWidth) *
+          stitchResult.scale
+        : undefined;
+
+      // Move the mosaic into the project BEFORE generating its tile cache
+      setProgress({ stage: 'Adding mosaic...', percent: 0 });
+      const mosaicId = crypto.randomUUID();
+      await window.api.moveFromScratch(stitchResult.identifier, project.id, mosaicId);
+      pendingScratchRef.current = pendingScratchRef.current.filter((id) => id !== stitchResult.identifier);
+      await window.api.loadImageWithTiles(`${folderPaths.images}/${mosaicId}`);
+
+      const name = mosaicName.trim() || 'Mosaic';
+      mosaic = {
+        id: mosaicId,
+        name,
+        imageFilename: `${name}.jpg`,
+        imagePath: mosaicId,
+        imageWidth: stitchResult.width,
+        imageHeight: stitchResult.height,
+        width: stitchResult.width,
+        height: stitchResult.height,
+        // No scale unless the field pixel size was given; the user is prompted for it
+        scalePixelsPerCentimeter,
+        needsInstrumentInfo: true,
+      };
+
+      if (keepFields) {
+        const s = stitchResult.scale;
+        for (let i = 0; i < convertedFields.length; i++) {
+          const field = convertedFields[i];
+          setProgress({
+            stage: `Placing ${field.name} (${i + 1}/${convertedFields.length})...`,
+            percent: (i / convertedFields.length) * 100,
+          });
+
+          const childId = crypto.randomUUID();
+          await window.api.moveFromScratch(field.identifier, project.id, childId);
+          pendingScratchRef.current = pendingScratchRef.current.filter((id) => id !== field.identifier);
+          const childPath = `${folderPaths.images}/${childId}`;
+          await window.api.loadImageWithTiles(childPath);
+
+          // Field pixels → mosaic pixels: the stitching position, at mosaic scale
+          const position = stitchResult.positions[i];
+          const affineMatrix: AffineMatrix = [s, 0, position.x * s, 0, s, position.y * s];
+          const affineResult = await window.api.generateAffineTiles(childPath, childId, affineMatrix);
+          if (!affineResult?.success) {
+            throw new Error(`Affine tile generation failed: ${affineResult?.error ?? 'unknown error'}`);
+          }
+          const bounds = computeTransformedBounds(field.jpegWidth, field.jpegHeight, affineMatrix);
+          const corners: Array<[number, number]> = [
+            [0, 0],
+            [field.jpegWidth, 0],
+            [field.jpegWidth, field.jpegHeight],
+            [0, field.jpegHeight],
+          ];
+
+          const child: MicrographMetadata = {
+            id: childId,
+            name: field.name.substring(0, field.name.lastIndexOf('.')) || field.name,
+            imageFilename: field.name,
+            imagePath: childId,
+            imageWidth: field.jpegWidth,
+            imageHeight: field.jpegHeight,
+            width: field.jpegWidth,
+            height: field.jpegHeight,
+            parentID: mosaicId,
+            scalePixelsPerCentimeter: scalePixelsPerCentimeter
+              ? scalePixelsPerCentimeter / s
+              : DEFAULT_PIXELS_PER_CENTIMETER,
+            placementType: 'affine',
+            affineMatrix,
+            controlPoints: corners.map(([x, y]) => ({
+              source: [x, y] as [number, number],
+              target: [x * s + position.x * s, y * s + position.y * s] as [number, number],
+            })),
+            affineBoundsOffset: { x: bounds.minX, y: bounds.minY },
+            affineTransformedWidth: Math.ceil(bounds.width),
+            affineTransformedHeight: Math.ceil(bounds.height),
+            // The child id is a stable, unique key for its baked tiles
+            affineTileHash: childId,
+            needsInstrumentInfo: true,
+          };
+          children.push(child);
+        }
+      }
+
+      insertMosaic();
+
+      // Fields not kept (or left over after a failure) are only scratch files
+      await discardScratch();
+
+      // Thumbnails: fields first, so the mosaic's composite thumbnail includes them
+      const projectForThumb = useAppStore.getState().project;
+      if (projectForThumb) {
+        for (const micrographId of [...children.map((child) => child.id), mosaicId]) {
+          try {
+            await window.api.generateCompositeThumbnail(projectForThumb.id, micrographId, projectForThumb);
+            window.dispatchEvent(new CustomEvent('thumbnail-generated', { detail: { micrographId } }));
+          } catch (err) {
+            console.error(`[MosaicStitch] Failed to generate thumbnail for ${micrographId}:`, err);
+          }
+        }
+      }
+
+      isWorkingRef.current = false;
+      setIsWorking(false);
+      handleClose();
+    } catch (err) {
+      console.error('[MosaicStitch] Adding mosaic failed:', err);
+      setError(`Adding the mosaic failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      if (mosaic && !mosaicAdded) {
+        // The mosaic image is already in the project; keep it with the fields placed so far
+        try {
+          insertMosaic();
+        } catch (insertErr) {
+          console.error('[MosaicStitch] Adding the mosaic after a field failed:', insertErr);
+        }
+      }
+      if (mosaicAdded) {
+        // The mosaic is in the project; only the remaining fields are lost
+        setStitchResult(null);
+        setConvertedFields([]);
+        await discardScratch();
+      }
+      isWorkingRef.current = false;
+      setIsWorking(false);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isWorkingRef.current) return;
+    void discardScratch();
+    setSelectedFiles([]);
+    setColumns('2');
+    setRows('2');
+    setScanOrder('rows');
+    setOverlapPercent('15');
+    setMicronsPerPixel('');
+    setMosaicName('Mosaic');
+    setKeepFields(true);
+    setError(null);
+    setStitchResult(null);
+    setConvertedFields([]);
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{ sx: { minHeight: '60vh' } }}
+    >
+      <DialogTitle>Stitch Mosaic Reference Micrograph</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Combine overlapping camera fields captured as a grid into one micrograph. Field
+            positions are measured from the overlaps and the seams are blended.
+          </Typography>
+
+          {/* File selection */}
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Field Image Files (in capture order):
+            </Typography>
+            <Button
+              variant="outlined"
+              startIcon={<CloudUpload />}
+              onClick={handleBrowseFiles}
+              disabled={isWorking}
+            >
+              Browse
+            </Button>
+          </Box>
+
+          {selectedFiles.length > 0 && (
+            <Paper variant="outlined" sx={{ maxHeight: 200, overflow: 'auto' }}>
+              <List dense>
+                {selectedFiles.map((file) => (
+                  <ListItem
+                    key={file.path}
+                    sx={{
+                      bgcolor: file.validationError ? 'error.dark' : 'action.hover',
+                      opacity: file.validationError ? 0.8 : 1,
+                    }}
+                  >
+                    {file.validationError && (
+                      <Warning color="error" sx={{ mr: 1, flexShrink: 0 }} fontSize="small" />
+                    )}
+                    <ListItemText
+                      primary={file.name}
+                      secondary={file.validationError || file.path}
+                      secondaryTypographyProps={{
+                        noWrap: !file.validationError,
+                        color: file.validationError ? 'error.light' : undefined,
+                      }}
+                    />
+                    <ListItemSecondaryAction>
+                      <IconButton
+                        edge="end"
+                        size="small"
+                        onClick={() => handleRemoveFile(file.path)}
+                        disabled={isWorking}
+                      >
+                        <Delete />
+                      </IconButton>
+                    </ListItemSecondaryAction>
+                  </ListItem>
+                ))}
+              </List>
+            </Paper>
+          )}
+
+          {/* Grid layout */}
+          <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+            <TextField
+              label="Columns"
+              type="number"
+              value={columns}
+              onChange={(e) => {
+                setColumns(e.target.value);
+                clearResult();
+              }}
+              size="small"
+              sx={{ width: 100 }}
+              inputProps={{ min: 1 }}
+              disabled={isWorking}
+            />
+            <TextField
+              label="Rows"
+              type="number"
+              value={rows}
+              onChange={(e) => {
+                setRows(e.target.value);
+                clearResult();
+              }}
+              size="small"
+              sx={{ width: 100 }}
+              inputProps={{ min: 1 }}
+              disabled={isWorking}
+            />
+            <TextField
+              select
+              label="Scan Order"
+              value={scanOrder}
+              onChange={(e) => {
+                setScanOrder(e.target.value as ScanOrder);
+                clearResult();
+              }}
+              size="small"
+              sx={{ width: 290 }}
+              disabled={isWorking}
+            >
+              {(Object.keys(SCAN_ORDER_LABELS) as ScanOrder[]).map((order) => (
+                <MenuItem key={order} value={order}>
+                  {SCAN_ORDER_LABELS[order]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Overlap (%)"
+              type="number"
+              value={overlapPercent}
+              onChange={(e) => {
+                setOverlapPercent(e.target.value);
+                clearResult();
+              }}
+              size="small"
+              sx={{ width: 120 }}
+              inputProps={{ min: 1, max: 89 }}
+              error={!overlapValid}
+              disabled={isWorking}
+            />
+          </Stack>
+
+          {validFiles.length > 0 && !gridValid && (
+            <Alert severity="warning">
+              A {columns} × {rows} grid cannot hold {validFiles.length} fields.
+            </Alert>
+          )}
+
+          {/* Output */}
+          <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+            <TextField
+              label="Micrograph Name"
+              value={mosaicName}
+              onChange={(e) => setMosaicName(e.target.value)}
+              size="small"
+              sx={{ width: 240 }}
+              disabled={isWorking}
+            />
+            <TextField
+              label="Field Pixel Size (µm/pixel)"
+              type="number"
+              value={micronsPerPixel}
+              onChange={(e) => setMicronsPerPixel(e.target.value)}
+              size="small"
+              sx={{ width: 220 }}
+              helperText="Optional; sets the mosaic's scale"
+              disabled={isWorking}
+            />
+          </Stack>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={keepFields}
+                onChange={(e) => setKeepFields(e.target.checked)}
+                disabled={isWorking}
+              />
+            }
+            label="Keep the source fields as associated micrographs placed on the mosaic"
+          />
+
+          {progress && (
+            <Box>
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                {progress.stage}
+              </Typography>
+              <LinearProgress variant="determinate" value={progress.percent} />
+            </Box>
+          )}
+
+          {stitchResult && (
+            <Stack spacing={1}>
+              <Box
+                component="img"
+                src={stitchResult.preview}
+                alt="Stitched mosaic preview"
+                sx={{ maxWidth: '100%', maxHeight: 360, alignSelf: 'center', border: 1, borderColor: 'divider' }}
+              />
+              <Typography variant="body2" color="text.secondary">
+                {stitchResult.width} × {stitchResult.height} px.{' '}
+                {stitchResult.measuredLinks} of {stitchResult.totalLinks} overlaps measured
+                {stitchResult.measuredLinks < stitchResult.totalLinks &&
+                  '; the rest were placed at the nominal overlap'}
+                .
+              </Typography>
+              {stitchResult.measuredLinks < stitchResult.totalLinks && (
+                <Alert severity="info">
+                  Overlaps that could not be measured usually mean the grid size, scan order or
+                  overlap differs from how the fields were captured, or the overlap is featureless.
+                </Alert>
+              )}
+            </Stack>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isWorking}>
+          Cancel
+        </Button>
+        <Button onClick={handleStitch} disabled={!canStitch}>
+          {stitchResult ? 'Stitch Again' : 'Stitch'}
+        </Button>
+        <Button variant="contained" onClick={handleAddMosaic} disabled={!stitchResult || isWorking}>
+          Add Mosaic
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -53,6 +53,7 @@ import { PointPlacementCanvas } from './PointPlacementCanvas';
 import { AffineRegistrationModal } from './AffineRegistrationModal';
 import { PanTool, Timeline, RestartAlt, CheckCircle, Cancel, RotateLeft, RotateRight } from '@mui/icons-material';
 import type { AffineMatrix, ControlPoint } from '@/utils/affineTransform';
+import { WARP_PLACEMENT_LABELS, placementWarpFields, type PlacementWarp } from '@/utils/placementWarp';
 import { computeCopySizePlacement } from '@/utils/copySizePlacement';
 import { findMicrographById } from '@/store/helpers';
 import {
@@ -146,6 +147,7 @@ interface MicrographFormData {
   affineTransformedWidth: number | null;
   affineTransformedHeight: number | null;
   affineTileHash: string | null; // Hash used to store/load affine tiles
+  placementWarp: PlacementWarp | null; // Transform chosen at registration (affine, projective or spline)
   instrumentType: string;
   otherInstrumentType: string;
   dataType: string;
@@ -277,6 +279,7 @@ const initialFormData: MicrographFormData = {
   affineTransformedWidth: null,
   affineTransformedHeight: null,
   affineTileHash: null,
+  placementWarp: null,
   // Scale method will be set based on location method (defaults to 'Trace Scale Bar' initially)
   instrumentType: '',
   otherInstrumentType: '',
@@ -927,6 +930,7 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
         affineTransformedWidth: null,
         affineTransformedHeight: null,
         affineTileHash: null,
+        placementWarp: null,
       }));
 
       setAppliedOrientation((prev) => composeOrientations(prev, pendingOrientation));
@@ -1441,6 +1445,7 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
         ...(isAssociated &&
           formData.locationMethod === '3-Point Registration' && {
             placementType: 'affine' as const,
+            ...(formData.placementWarp && placementWarpFields(formData.placementWarp)),
             affineMatrix: formData.affineMatrix,
             controlPoints: formData.affineControlPoints,
             affineBoundsOffset: formData.affineBoundsOffset,
@@ -2986,8 +2991,8 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
       return (
         <Stack spacing={2}>
           <Typography variant="body2" color="text.secondary">
-            Use 3-point registration to precisely align this micrograph on its parent by matching
-            corresponding features between both images.
+            Use control point registration to precisely align this micrograph on its parent by matching
+            three or more corresponding features between both images.
           </Typography>
 
           <Box sx={{
@@ -3011,6 +3016,7 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
                 </Box>
                 <Typography variant="body2" color="text.primary">
                   {formData.affineControlPoints?.length || 0} control points defined
+                  {formData.placementWarp && ` (${WARP_PLACEMENT_LABELS[formData.placementWarp.type].toLowerCase()})`}
                 </Typography>
                 <Button
                   variant="outlined"
@@ -3038,8 +3044,11 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
 
           {hasRegistration && (
             <Typography variant="caption" color="text.secondary">
-              The overlay will be transformed using an affine matrix computed from your control points.
-              This handles translation, rotation, scale, and skew corrections.
+              {formData.placementWarp?.type === 'homography'
+                ? 'The overlay will be transformed using a projective transform computed from your control points. This also corrects the perspective of oblique views.'
+                : formData.placementWarp?.type === 'thinPlateSpline'
+                  ? 'The overlay will be warped by a thin-plate spline through your control points. This corrects distortion that varies across the image.'
+                  : 'The overlay will be transformed using an affine matrix computed from your control points. This handles translation, rotation, scale, and skew corrections.'}
             </Typography>
           )}
         </Stack>
@@ -5109,9 +5118,11 @@ export const NewMicrographDialog: React.FC<NewMicrographDialogProps> = ({
           overlayWidth={formData.micrographWidth}
           overlayHeight={formData.micrographHeight}
           existingControlPoints={formData.affineControlPoints ?? undefined}
-          onApply={(matrix, controlPoints, boundsOffset, transformedWidth, transformedHeight, tileHash) => {
+          existingPlacementType={formData.placementWarp?.type}
+          onApply={(matrix, controlPoints, boundsOffset, transformedWidth, transformedHeight, tileHash, warp) => {
             setFormData((prev) => ({
               ...prev,
+              placementWarp: warp,
               affineMatrix: matrix,
               affineControlPoints: controlPoints,
               affineBoundsOffset: boundsOffset,
@@ -0,0 +1,558 @@
+/**
+ * Phase Classification Dialog
+ *
+ * Classifies the active micrograph's element maps into a mineral phase map.
+ * Features:
+ * - Training regions are the micrograph's polygon spots with a mineral assigned
+ * - k-nearest neighbors or Gaussian maximum likelihood classifier
+ * - Outlier rejection, majority-filter smoothing and working resolution settings
+ * - Phase map preview with per-phase area fractions and training accuracy
+ * - Vectorization of the phase map into polygon spots (generationMethod
+ *   'phase-classification') whose modal composition appears in the statistics views
+ */
+
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Divider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Checkbox,
+  IconButton,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  InputLabel,
+  LinearProgress,
+  Alert,
+  Chip,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { useAppStore, runAsHistoryStep } from '@/store';
+import { getSpotMineral } from '@/services/pointCounting';
+import {
+  loadFeatureStack,
+  isTrainingSpot,
+  buildTrainingSet,
+  classifyPhaseMap,
+  vectorizePhaseMap,
+  DEFAULT_PHASE_CLASSIFICATION_OPTIONS,
+  type PhaseClassificationOptions,
+  type PhaseMap,
+} from '@/services/phaseClassification';
+import { getMineralColor } from '@/types/point-count-types';
+import type { ElementMapLayer, MicrographMetadata, Spot } from '@/types/project-types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PhaseClassificationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Stable empty arrays to prevent unnecessary re-renders
+const EMPTY_LAYERS: ElementMapLayer[] = [];
+const EMPTY_SPOTS: Spot[] = [];
+
+const GRID_SIZE_OPTIONS = [256, 512, 768, 1024, 1536];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Paint a phase map into a canvas, one mineral color per phase
+ * (unclassified pixels are left black).
+ */
+function drawPhaseMap(canvas: HTMLCanvasElement, phaseMap: PhaseMap): void {
+  canvas.width = phaseMap.width;
+  canvas.height = phaseMap.height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(phaseMap.width, phaseMap.height);
+
+  const rgb = phaseMap.phases.map((phase) => {
+    const hex = getMineralColor(phase).replace('#', '');
+    return [0, 2, 4].map((i) => parseInt(hex.substring(i, i + 2), 16) || 0);
+  });
+
+  for (let i = 0; i < phaseMap.labels.length; i++) {
+    const label = phaseMap.labels[i];
+    const color = label >= 0 ? rgb[label] : [0, 0, 0];
+    image.data[i * 4] = color[0];
+    image.data[i * 4 + 1] = color[1];
+    image.data[i * 4 + 2] = color[2];
+    image.data[i * 4 + 3] = 255;
+  }
+
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Spots are stored on the primary sibling when a micrograph has a PPL/XPL pair.
+ */
+function getSpotOwner(
+  micrograph: MicrographMetadata,
+  micrographIndex: Map<string, MicrographMetadata>
+): MicrographMetadata {
+  if (micrograph.isPrimarySibling === false && micrograph.siblingImageId) {
+    return micrographIndex.get(micrograph.siblingImageId) ?? micrograph;
+  }
+  return micrograph;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function PhaseClassificationDialog({ open, onClose }: PhaseClassificationDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const addSpots = useAppStore((s) => s.addSpots);
+  const batchDeleteSpots = useAppStore((s) => s.batchDeleteSpots);
+  const setStatisticsPanelVisible = useAppStore((s) => s.setStatisticsPanelVisible);
+
+  const [options, setOptions] = useState<PhaseClassificationOptions>(DEFAULT_PHASE_CLASSIFICATION_OPTIONS);
+  const [excludedLayerIds, setExcludedLayerIds] = useState<string[]>([]);
+  const [replaceExisting, setReplaceExisting] = useState(true);
+  const [classifying, setClassifying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [phaseMap, setPhaseMap] = useState<PhaseMap | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const micrograph = useMemo(() => {
+    if (!activeMicrographId) return null;
+    return micrographIndex.get(activeMicrographId) || null;
+  }, [activeMicrographId, micrographIndex]);
+
+  const layers = micrograph?.elementMaps ?? EMPTY_LAYERS;
+  const bandLayers = useMemo(
+    () => layers.filter((l) => !excludedLayerIds.includes(l.id)),
+    [layers, excludedLayerIds]
+  );
+
+  const spotOwner = micrograph ? getSpotOwner(micrograph, micrographIndex) : null;
+  const spots = spotOwner?.spots ?? EMPTY_SPOTS;
+
+  // Training regions per mineral
+  const trainingSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const spot of spots) {
+      if (!isTrainingSpot(spot)) continue;
+      const mineral = getSpotMineral(spot)!;
+      counts.set(mineral, (counts.get(mineral) || 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [spots]);
+
+  const existingPhaseSpotIds = useMemo(
+    () => spots.filter((s) => s.generationMethod === 'phase-classification').map((s) => s.id),
+    [spots]
+  );
+
+  // A phase map belongs to one micrograph; clear it when switching
+  useEffect(() => {
+    setPhaseMap(null);
+    setExcludedLayerIds([]);
+    setError(null);
+  }, [activeMicrographId]);
+
+  // Paint the preview whenever a new phase map arrives
+  useEffect(() => {
+    if (phaseMap && canvasRef.current) {
+      drawPhaseMap(canvasRef.current, phaseMap);
+    }
+  }, [phaseMap]);
+
+  const handleOptionChange = <K extends keyof PhaseClassificationOptions>(
+    key: K,
+    value: PhaseClassificationOptions[K]
+  ) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleLayer = (layerId: string) => {
+    setExcludedLayerIds((prev) =>
+      prev.includes(layerId) ? prev.filter((id) => id !== layerId) : [...prev, layerId]
+    );
+  };
+
+  // Train and classify
+  const handleClassify = useCallback(async () => {
+    if (!project || !micrograph || bandLayers.length === 0) return;
+
+    setClassifying(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      // Loading maps is the first 30% of the work
+      const stack = await loadFeatureStack(project.id, bandLayers, options.maxGridSize, (done, total) =>
+        setProgress((done / total) * 30)
+      );
+      const training = buildTrainingSet(stack, micrograph, spots, options.maxTrainingPixelsPerPhase);
+      const result = await classifyPhaseMap(stack, training, options, (fraction) =>
+        setProgress(30 + fraction * 70)
+      );
+      setPhaseMap(result);
+    } catch (err) {
+      console.error('[PhaseClassification] Classification failed:', err);
+      setError(err instanceof Error ? err.message : 'Classification failed');
+    } finally {
+      setClassifying(false);
+    }
+  }, [project, micrograph, bandLayers, spots, options]);
+
+  // Vectorize the phase map into spots
+  const handleCreateSpots = useCallback(() => {
+    if (!phaseMap || !micrograph || !spotOwner) return;
+
+    const regions = vectorizePhaseMap(phaseMap, options.minRegionPixels, options.simplifyTolerance);
+    const micrographWidth = micrograph.imageWidth || micrograph.width || phaseMap.width;
+    const micrographHeight = micrograph.imageHeight || micrograph.height || phaseMap.height;
+    const scaleX = micrographWidth / phaseMap.width;
+    const scaleY = micrographHeight / phaseMap.height;
+    const timestamp = new Date().toISOString();
+    const counters = new Map<string, number>();
+
+    const newSpots: Spot[] = regions.map((region) => {
+      const n = (counters.get(region.phase) || 0) + 1;
+      counters.set(region.phase, n);
+      return {
+        id: uuidv4(),
+        name: `${region.phase} ${n}`,
+        geometryType: 'polygon',
+        points: region.contour.map((p) => ({
+          X: Math.round(p.x * scaleX),
+          Y: Math.round(p.y * scaleY),
+        })),
+        color: getMineralColor(region.phase),
+        opacity: 50,
+        mineralogy: { minerals: [{ name: region.phase }] },
+        generationMethod: 'phase-classification' as const,
+        generationTimestamp: timestamp,
+        areaPixels: region.areaPixels * scaleX * scaleY,
+        centroid: {
+          X: Math.round(region.centroid.x * scaleX),
+          Y: Math.round(region.centroid.y * scaleY),
+        },
+      };
+    });
+
+    console.log('[PhaseClassification] Generated', newSpots.length, 'phase spots');
+
+    runAsHistoryStep(`Classify ${newSpots.length} phase spots`, () => {
+      if (replaceExisting && existingPhaseSpotIds.length > 0) {
+        batchDeleteSpots(existingPhaseSpotIds);
+      }
+      addSpots(spotOwner.id, newSpots);
+    });
+    setStatisticsPanelVisible(true);
+    onClose();
+  }, [
+    phaseMap,
+    micrograph,
+    spotOwner,
+    options.minRegionPixels,
+    options.simplifyTolerance,
+    replaceExisting,
+    existingPhaseSpotIds,
+    batchDeleteSpots,
+    addSpots,
+    setStatisticsPanelVisible,
+    onClose,
+  ]);
+
+  const canClassify = !!micrograph && bandLayers.length > 0 && trainingSummary.length > 0 && !classifying;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      PaperProps={{ sx: { height: '85vh', maxHeight: 800 } }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h6">
+            Phase Classification{micrograph ? ` — ${micrograph.name}` : ''}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers sx={{ p: 2 }}>
+        {!micrograph ? (
+          <Alert severity="info">Select a micrograph to classify its element maps.</Alert>
+        ) : layers.length === 0 ? (
+          <Alert severity="info">
+            This micrograph has no element maps. Import them with Tools &rarr; Element Maps...
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2, height: '100%' }}>
+            {/* Settings */}
+            <Stack spacing={2} sx={{ width: 320, flexShrink: 0, overflow: 'auto' }}>
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>Element Maps</Typography>
+                <Stack direction="row" flexWrap="wrap">
+                  {layers.map((layer) => (
+                    <FormControlLabel
+                      key={layer.id}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={!excludedLayerIds.includes(layer.id)}
+                          onChange={() => toggleLayer(layer.id)}
+                        />
+                      }
+                      label={
+                        <Box component="span">
+                          <Box component="span" sx={{ color: layer.color, mr: 0.5 }}>■</Box>
+                          {layer.element || '?'}
+                        </Box>
+                      }
+                    />
+                  ))}
+                </Stack>
+              </Box>
+
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>Training Regions</Typography>
+                {trainingSummary.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Draw a few polygon spots inside each mineral and assign the mineral to them.
+                    Those spots train the classifier.
+                  </Typography>
+                ) : (
+                  <Stack direction="row" flexWrap="wrap" gap={0.5}>
+                    {trainingSummary.map(([mineral, count]) => (
+                      <Chip
+                        key={mineral}
+                        size="small"
+                        label={`${mineral} (${count})`}
+                        sx={{ borderLeft: `6px solid ${getMineralColor(mineral)}` }}
+                      />
+                    ))}
+                  </Stack>
+                )}
+              </Box>
+
+              <Divider />
+
+              <FormControl component="fieldset" size="small">
+                <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Classifier</FormLabel>
+                <RadioGroup
+                  value={options.classifier}
+                  onChange={(e) =>
+                    handleOptionChange('classifier', e.target.value as PhaseClassificationOptions['classifier'])
+                  }
+                >
+                  <FormControlLabel
+                    value="gaussian-ml"
+                    control={<Radio size="small" />}
+                    label="Gaussian maximum likelihood"
+                  />
+                  <FormControlLabel value="knn" control={<Radio size="small" />} label="k-nearest neighbors" />
+                </RadioGroup>
+              </FormControl>
+
+              {options.classifier === 'knn' ? (
+                <>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Neighbors (k)"
+                    value={options.k}
+                    onChange={(e) => handleOptionChange('k', Math.max(1, parseInt(e.target.value) || 1))}
+                    inputProps={{ min: 1, max: 50 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Reject beyond intensity distance (0 = off)"
+                    value={options.maxNeighborDistance}
+                    onChange={(e) =>
+                      handleOptionChange('maxNeighborDistance', Math.max(0, parseFloat(e.target.value) || 0))
+                    }
+                    inputProps={{ min: 0, step: 5 }}
+                    helperText="Pixels further from every training pixel stay unclassified"
+                  />
+                </>
+              ) : (
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Reject beyond σ (0 = off)"
+                  value={options.maxMahalanobisDistance}
+                  onChange={(e) =>
+                    handleOptionChange('maxMahalanobisDistance', Math.max(0, parseFloat(e.target.value) || 0))
+                  }
+                  inputProps={{ min: 0, step: 0.5 }}
+                  helperText="Pixels this many standard deviations from every phase stay unclassified"
+                />
+              )}
+
+              <TextField
+                size="small"
+                type="number"
+                label="Smoothing radius (px)"
+                value={options.smoothingRadius}
+                onChange={(e) => handleOptionChange('smoothingRadius', Math.max(0, parseInt(e.target.value) || 0))}
+                inputProps={{ min: 0, max: 5 }}
+              />
+
+              <FormControl size="small">
+                <InputLabel>Working resolution</InputLabel>
+                <Select
+                  label="Working resolution"
+                  value={options.maxGridSize}
+                  onChange={(e) => handleOptionChange('maxGridSize', e.target.value as number)}
+                >
+                  {GRID_SIZE_OPTIONS.map((size) => (
+                    <MenuItem key={size} value={size}>{size} px</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <Button variant="contained" onClick={handleClassify} disabled={!canClassify}>
+                Classify
+              </Button>
+              {classifying && <LinearProgress variant="determinate" value={progress} />}
+              {error && (
+                <Alert severity="error" onClose={() => setError(null)}>
+                  {error}
+                </Alert>
+              )}
+
+              <Divider />
+
+              <Typography variant="subtitle2">Spot Generation</Typography>
+              <TextField
+                size="small"
+                type="number"
+                label="Minimum region size (px)"
+                value={options.minRegionPixels}
+                onChange={(e) => handleOptionChange('minRegionPixels', Math.max(1, parseInt(e.target.value) || 1))}
+                inputProps={{ min: 1 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Outline simplification (px)"
+                value={options.simplifyTolerance}
+                onChange={(e) => handleOptionChange('simplifyTolerance', Math.max(0, parseFloat(e.target.value) || 0))}
+                inputProps={{ min: 0, step: 0.5 }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={replaceExisting}
+                    onChange={(e) => setReplaceExisting(e.target.checked)}
+                  />
+                }
+                label={`Replace existing phase spots (${existingPhaseSpotIds.length})`}
+              />
+            </Stack>
+
+            {/* Preview and results */}
+            <Stack spacing={2} sx={{ flex: 1, minWidth: 0, overflow: 'auto' }}>
+              <Paper
+                variant="outlined"
+                sx={{
+                  flex: 1,
+                  minHeight: 240,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  bgcolor: 'grey.900',
+                  overflow: 'hidden',
+                }}
+              >
+                {phaseMap ? (
+                  <canvas
+                    ref={canvasRef}
+                    style={{ maxWidth: '100%', maxHeight: '100%', imageRendering: 'pixelated' }}
+                  />
+                ) : (
+                  <Typography variant="body2" color="grey.500">
+                    {classifying ? 'Classifying...' : 'Run the classifier to preview the phase map'}
+                  </Typography>
+                )}
+              </Paper>
+
+              {phaseMap && (
+                <Paper variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Phase</TableCell>
+                        <TableCell align="right">Pixels</TableCell>
+                        <TableCell align="right">Area %</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {phaseMap.fractions.map((fraction) => (
+                        <TableRow key={fraction.name}>
+                          <TableCell>
+                            <Box component="span" sx={{ color: getMineralColor(fraction.name), mr: 0.5 }}>■</Box>
+                            {fraction.name}
+                          </TableCell>
+                          <TableCell align="right">{fraction.pixelCount.toLocaleString()}</TableCell>
+                          <TableCell align="right">{fraction.percentage.toFixed(1)}%</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell sx={{ color: 'text.secondary' }}>Unclassified</TableCell>
+                        <TableCell />
+                        <TableCell align="right" sx={{ color: 'text.secondary' }}>
+                          {phaseMap.unclassifiedPercentage.toFixed(1)}%
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', p: 1 }}>
+                    {phaseMap.width}×{phaseMap.height} grid · training accuracy{' '}
+                    {(phaseMap.trainingAccuracy * 100).toFixed(1)}%
+                  </Typography>
+                </Paper>
+              )}
+            </Stack>
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleCreateSpots} disabled={!phaseMap || classifying}>
+          Create Spots
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default PhaseClassificationDialog;
@@ -0,0 +1,717 @@
+/**
+ * Rotation Series Dialog
+ *
+ * Turns the active micrograph into a crossed-polars rotation series.
+ * Features:
+ * - Import images taken at known stage (or polarizer) angles (angle guessed from file name)
+ * - Automatic co-registration of each image to the micrograph
+ * - Per-pixel maximum-intensity, extinction-angle and retardation-proxy maps
+ * - Show one map as an overlay in the viewer
+ * - Query the maps inside spot geometries, with CSV export
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Divider,
+  FormControl,
+  FormLabel,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Checkbox,
+  IconButton,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  Slider,
+  Tooltip,
+  Chip,
+  LinearProgress,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { useAppStore } from '@/store';
+import {
+  guessAngleFromFileName,
+  registerRotationImage,
+  sampleSpotRotationMaps,
+  exportRotationStatsToCSV,
+  ROTATION_MAP_LABELS,
+  type SpotRotationStats,
+} from '@/services/rotationSeries';
+import { extractRotation, type AffineMatrix } from '@/utils/affineTransform';
+import type {
+  MicrographMetadata,
+  RotationSeriesImage,
+  RotationSeriesMapType,
+  RotationSeriesMode,
+} from '@/types/project-types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RotationSeriesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type SpotScope = 'selected' | 'all';
+
+// Stable empty array to prevent unnecessary re-renders
+const EMPTY_IMAGES: RotationSeriesImage[] = [];
+
+const IDENTITY: AffineMatrix = [1, 0, 0, 0, 1, 0];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Build a unique associatedFiles name for an imported series image
+ */
+function buildImageFileName(sourcePath: string, index: number): string {
+  const baseName = sourcePath.split(/[\\/]/).pop() || 'image';
+  return `rotationseries-${Date.now()}-${index}-${baseName}`;
+}
+
+/**
+ * Open the micrograph's own image in the tile cache
+ */
+async function loadMicrographImage(projectId: string, micrograph: MicrographMetadata) {
+  const folderPaths = await window.api!.getProjectFolderPaths(projectId);
+  const path = `${folderPaths.images}/${micrograph.imagePath || micrograph.id}`;
+  const result = await window.api!.loadImageWithTiles(path);
+  return { path, hash: result.hash, width: result.metadata.width, height: result.metadata.height };
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function RotationSeriesDialog({ open, onClose }: RotationSeriesDialogProps) {
+  const project = useAppStore((s) => s.project);
+  const activeMicrographId = useAppStore((s) => s.activeMicrographId);
+  const micrographIndex = useAppStore((s) => s.micrographIndex);
+  const selectedSpotIds = useAppStore((s) => s.selectedSpotIds);
+  const updateRotationSeries = useAppStore((s) => s.updateRotationSeries);
+  const removeRotationSeries = useAppStore((s) => s.removeRotationSeries);
+  const addRotationSeriesImage = useAppStore((s) => s.addRotationSeriesImage);
+  const updateRotationSeriesImage = useAppStore((s) => s.updateRotationSeriesImage);
+  const removeRotationSeriesImage = useAppStore((s) => s.removeRotationSeriesImage);
+
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [registrationErrors, setRegistrationErrors] = useState<Record<string, string>>({});
+  const [computeProgress, setComputeProgress] = useState<{ stage: string; percent: number } | null>(null);
+  const [spotScope, setSpotScope] = useState<SpotScope>('all');
+  const [sampling, setSampling] = useState(false);
+  const [samplingProgress, setSamplingProgress] = useState(0);
+  const [results, setResults] = useState<SpotRotationStats[] | null>(null);
+
+  const micrograph = useMemo(() => {
+    if (!activeMicrographId) return null;
+    return micrographIndex.get(activeMicrographId) || null;
+  }, [activeMicrographId, micrographIndex]);
+
+  const series = micrograph?.rotationSeries ?? null;
+  const images = series?.images ?? EMPTY_IMAGES;
+  const mode: RotationSeriesMode = series?.mode ?? 'stage';
+  const referenceAngle = series ? series.referenceAngle ?? null : 0;
+  const imageCount = images.length + (referenceAngle !== null ? 1 : 0);
+  const allRegistered = images.every((image) => !!image.registration);
+
+  const querySpots = useMemo(() => {
+    const spots = (micrograph?.spots || []).filter((s) => !s.archived);
+    if (spotScope === 'all') return spots;
+    const selected = new Set(selectedSpotIds);
+    return spots.filter((s) => selected.has(s.id));
+  }, [micrograph, spotScope, selectedSpotIds]);
+
+  // Results and registration errors belong to one micrograph; clear them when switching
+  useEffect(() => {
+    setResults(null);
+    setRegistrationErrors({});
+    setError(null);
+  }, [activeMicrographId]);
+
+  // Map computation progress from the main process
+  useEffect(() => {
+    if (!window.api) return;
+    return window.api.rotationSeries.onProgress((progress) => setComputeProgress(progress));
+  }, []);
+
+  // Computed maps no longer match the series once its images or angles change.
+  // The map files stay on disk so undo can restore them; orphan cleanup
+  // deletes them once the project is reopened without them.
+  const discardMaps = useCallback(() => {
+    if (!micrograph || !series?.maps) return;
+    updateRotationSeries(micrograph.id, { maps: null });
+    setResults(null);
+  }, [micrograph, series, updateRotationSeries]);
+
+  // Register series images to the micrograph, one at a time
+  const registerImages = useCallback(async (toRegister: RotationSeriesImage[], seriesMode: RotationSeriesMode) => {
+    if (!window.api || !project || !micrograph || toRegister.length === 0) return;
+
+    const target = await loadMicrographImage(project.id, micrograph);
+    const folderPaths = await window.api.getProjectFolderPaths(project.id);
+
+    for (let i = 0; i < toRegister.length; i++) {
+      const image = toRegister[i];
+      setBusy(`Registering image ${i + 1} of ${toRegister.length}...`);
+      try {
+        const loaded = await window.api.loadImageWithTiles(`${folderPaths.associatedFiles}/${image.fileName}`);
+        const registration = await registerRotationImage(
+          { hash: loaded.hash, width: loaded.metadata.width, height: loaded.metadata.height },
+          target,
+          seriesMode
+        );
+        updateRotationSeriesImage(micrograph.id, image.id, {
+          registration: registration.matrix,
+          registrationMethod: registration.method,
+          registrationRms: registration.rms,
+        });
+        setRegistrationErrors(({ [image.id]: _cleared, ...rest }) => rest);
+      } catch (err) {
+        console.error('[RotationSeriesDialog] Failed to register image:', err);
+        updateRotationSeriesImage(micrograph.id, image.id, {
+          registration: null,
+          registrationMethod: null,
+          registrationRms: null,
+        });
+        setRegistrationErrors((prev) => ({
+          ...prev,
+          [image.id]: err instanceof Error ? err.message : String(err),
+        }));
+      }
+    }
+  }, [project, micrograph, updateRotationSeriesImage]);
+
+  // Import images, then register them
+  const handleImport = useCallback(async () => {
+    if (!window.api || !project || !micrograph) return;
+
+    const filePaths = await window.api.openMultipleTiffDialog();
+    if (filePaths.length === 0) return;
+
+    setBusy('Importing images...');
+    setError(null);
+    try {
+      discardMaps();
+      const imported: RotationSeriesImage[] = [];
+      for (let i = 0; i < filePaths.length; i++) {
+        const sourcePath = filePaths[i];
+        const originalFileName = sourcePath.split(/[\\/]/).pop() || sourcePath;
+        const fileName = buildImageFileName(sourcePath, i);
+
+        // Read dimensions and warm the tile cache before copying into the project
+        const { metadata } = await window.api.loadImageWithTiles(sourcePath);
+        await window.api.copyToAssociatedFiles(sourcePath, project.id, fileName);
+
+        const image: Omit<RotationSeriesImage, 'id'> = {
+          fileName,
+          originalFileName,
+          angle: guessAngleFromFileName(originalFileName) ?? 0,
+          width: metadata.width,
+          height: metadata.height,
+          registration: null,
+          registrationMethod: null,
+          registrationRms: null,
+        };
+        const id = addRotationSeriesImage(micrograph.id, image);
+        imported.push({ ...image, id });
+      }
+      await registerImages(imported, mode);
+    } catch (err) {
+      console.error('[RotationSeriesDialog] Failed to import images:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  }, [project, micrograph, mode, discardMaps, addRotationSeriesImage, registerImages]);
+
+  const handleRegisterAll = useCallback(async () => {
+    setError(null);
+    try {
+      discardMaps();
+      await registerImages(images, mode);
+    } finally {
+      setBusy(null);
+    }
+  }, [images, mode, discardMaps, registerImages]);
+
+  // Remove an image (its copied file stays on disk for undo, like the maps)
+  const handleRemoveImage = useCallback((image: RotationSeriesImage) => {
+    if (!micrograph) return;
+    discardMaps();
+    removeRotationSeriesImage(micrograph.id, image.id);
+  }, [micrograph, discardMaps, removeRotationSeriesImage]);
+
+  // Remove the whole series, its images and maps
+  const handleRemoveSeries = useCallback(() => {
+    if (!micrograph || !series) return;
+    discardMaps();
+    removeRotationSeries(micrograph.id);
+  }, [micrograph, series, discardMaps, removeRotationSeries]);
+
+  const handleAngleChange = useCallback((image: RotationSeriesImage, value: string) => {
+    if (!micrograph) return;
+    const angle = parseFloat(value);
+    if (!Number.isFinite(angle)) return;
+    discardMaps();
+    updateRotationSeriesImage(micrograph.id, image.id, { angle });
+  }, [micrograph, discardMaps, updateRotationSeriesImage]);
+
+  const handleSeriesChange = useCallback((updates: { mode?: RotationSeriesMode; referenceAngle?: number | null }) => {
+    if (!micrograph) return;
+    discardMaps();
+    updateRotationSeries(micrograph.id, updates);
+  }, [micrograph, discardMaps, updateRotationSeries]);
+
+  // Compute the maps in the main process
+  const handleCompute = useCallback(async () => {
+    if (!window.api || !project || !micrograph || !series) return;
+
+    setBusy('Computing maps...');
+    setError(null);
+    setComputeProgress(null);
+    try {
+      const reference = await loadMicrographImage(project.id, micrograph);
+      const folderPaths = await window.api.getProjectFolderPaths(project.id);
+      const inputs = series.images.map((image) => ({
+        path: `${folderPaths.associatedFiles}/${image.fileName}`,
+        angle: image.angle,
+        matrix: image.registration!,
+      }));
+      if (series.referenceAngle !== null && series.referenceAngle !== undefined) {
+        inputs.unshift({ path: reference.path, angle: series.referenceAngle, matrix: IDENTITY });
+      }
+
+      const result = await window.api.rotationSeries.computeMaps({
+        projectId: project.id,
+        images: inputs,
+        width: reference.width,
+        height: reference.height,
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Map computation failed');
+      }
+
+      discardMaps();
+      updateRotationSeries(micrograph.id, {
+        maps: {
+          maxIntensityFileName: result.maxIntensityFileName!,
+          extinctionAngleFileName: result.extinctionAngleFileName!,
+          retardationFileName: result.retardationFileName!,
+          width: result.width!,
+          height: result.height!,
+          imageCount: result.imageCount!,
+          computedAt: new Date().toISOString(),
+        },
+        displayMap: series.displayMap ?? 'extinctionAngle',
+      });
+    } catch (err) {
+      console.error('[RotationSeriesDialog] Failed to compute maps:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+      setComputeProgress(null);
+    }
+  }, [project, micrograph, series, discardMaps, updateRotationSeries]);
+
+  // Query maps inside spots
+  const handleSample = useCallback(async () => {
+    if (!project || !micrograph || !series?.maps || querySpots.length === 0) return;
+
+    setSampling(true);
+    setSamplingProgress(0);
+    try {
+      const sampled = await sampleSpotRotationMaps(
+        project.id,
+        micrograph,
+        querySpots,
+        (completed, total) => setSamplingProgress((completed / total) * 100)
+      );
+      setResults(sampled);
+    } catch (err) {
+      console.error('[RotationSeriesDialog] Failed to sample rotation series maps:', err);
+    } finally {
+      setSampling(false);
+    }
+  }, [project, micrograph, series, querySpots]);
+
+  const handleExportCSV = useCallback(async () => {
+    if (!results) return;
+    const csv = exportRotationStatsToCSV(results);
+    const defaultName = `rotation-series-${new Date().toISOString().slice(0, 10)}.csv`;
+    await window.api?.saveTextFile(csv, defaultName, 'csv');
+  }, [results]);
+
+  const canCompute = !!series && imageCount >= 3 && allRegistered && !busy;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      PaperProps={{
+        sx: { height: '85vh', maxHeight: 860 },
+      }}
+    >
+      <DialogTitle sx={{ pb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h6">
+            Rotation Series{micrograph ? ` — ${micrograph.name}` : ''}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers sx={{ p: 2 }}>
+        {!micrograph ? (
+          <Alert severity="info">Select a micrograph to manage its rotation series.</Alert>
+        ) : (
+          <Stack spacing={2}>
+            {/* Series settings */}
+            <Stack direction="row" spacing={3} alignItems="center" flexWrap="wrap">
+              <FormControl component="fieldset" size="small">
+                <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Rotated</FormLabel>
+                <RadioGroup
+                  row
+                  value={mode}
+                  onChange={(e) => handleSeriesChange({ mode: e.target.value as RotationSeriesMode })}
+                >
+                  <FormControlLabel value="stage" control={<Radio size="small" />} label="Stage" />
+                  <FormControlLabel value="polarizers" control={<Radio size="small" />} label="Crossed polarizers" />
+                </RadioGroup>
+              </FormControl>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={referenceAngle !== null}
+                    onChange={(e) => handleSeriesChange({ referenceAngle: e.target.checked ? 0 : null })}
+                  />
+                }
+                label="Micrograph image is part of the series (XPL)"
+              />
+              {referenceAngle !== null && (
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Its angle (°)"
+                  value={referenceAngle}
+                  onChange={(e) => {
+                    const angle = parseFloat(e.target.value);
+                    if (Number.isFinite(angle)) handleSeriesChange({ referenceAngle: angle });
+                  }}
+                  sx={{ width: 110 }}
+                />
+              )}
+            </Stack>
+
+            {/* Images */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle2">
+                  Images ({imageCount})
+                </Typography>
+                <Stack direction="row" spacing={1}>
+                  <Button
+                    size="small"
+                    onClick={handleRegisterAll}
+                    disabled={!!busy || images.length === 0}
+                  >
+                    Re-register
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<AddIcon />}
+                    onClick={handleImport}
+                    disabled={!!busy}
+                  >
+                    Import Images...
+                  </Button>
+                </Stack>
+              </Box>
+
+              {busy && (
+                <Box sx={{ mb: 1 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {computeProgress?.stage ?? busy}
+                  </Typography>
+                  <LinearProgress
+                    variant={computeProgress ? 'determinate' : 'indeterminate'}
+                    value={computeProgress?.percent ?? 0}
+                  />
+                </Box>
+              )}
+              {error && (
+                <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>
+                  {error}
+                </Alert>
+              )}
+
+              {images.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No images yet. Import crossed-polars images of this field taken at known
+                  {mode === 'stage' ? ' stage' : ' polarizer'} angles; they are registered to the
+                  micrograph automatically. At least three angles that differ modulo 90° are needed.
+                </Typography>
+              ) : (
+                <Paper variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Angle (°)</TableCell>
+                        <TableCell>File</TableCell>
+                        <TableCell>Registration</TableCell>
+                        {mode === 'stage' && <TableCell align="right">Rotation</TableCell>}
+                        <TableCell>Size</TableCell>
+                        <TableCell padding="checkbox" />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {images.map((image) => {
+                        const registrationError = registrationErrors[image.id];
+                        return (
+                          <TableRow key={image.id}>
+                            <TableCell>
+                              <TextField
+                                size="small"
+                                variant="standard"
+                                type="number"
+                                defaultValue={image.angle}
+                                onBlur={(e) => {
+                                  if (parseFloat(e.target.value) !== image.angle) {
+                                    handleAngleChange(image, e.target.value);
+                                  }
+                                }}
+                                sx={{ width: 70 }}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Typography variant="body2" noWrap sx={{ maxWidth: 260 }}>
+                                {image.originalFileName || image.fileName}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>
+                              {image.registration ? (
+                                <Chip
+                                  size="small"
+                                  color={image.registrationMethod === 'auto' ? 'success' : 'default'}
+                                  label={
+                                    image.registrationMethod === 'auto'
+                                      ? `Matched (RMS ${(image.registrationRms ?? 0).toFixed(1)} px)`
+                                      : 'Assumed in register'
+                                  }
+                                />
+                              ) : (
+                                <Tooltip title={registrationError ?? ''}>
+                                  <Chip
+                                    size="small"
+                                    color={registrationError ? 'error' : 'default'}
+                                    label={registrationError ? 'Not matched' : 'Pending'}
+                                  />
+                                </Tooltip>
+                              )}
+                            </TableCell>
+                            {mode === 'stage' && (
+                              <TableCell align="right">
+                                <Typography variant="caption" color="text.secondary">
+                                  {image.registration
+                                    ? `${((extractRotation(image.registration) * 180) / Math.PI).toFixed(1)}°`
+                                    : '—'}
+                                </Typography>
+                              </TableCell>
+                            )}
+                            <TableCell>
+                              <Typography variant="caption" color="text.secondary">
+                                {image.width}×{image.height}
+                              </Typography>
+                            </TableCell>
+                            <TableCell padding="checkbox">
+                              <IconButton size="small" onClick={() => handleRemoveImage(image)} disabled={!!busy}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </Paper>
+              )}
+            </Box>
+
+            {/* Maps */}
+            <Box>
+              <Stack direction="row" spacing={3} alignItems="center" sx={{ mb: 1 }}>
+                <Typography variant="subtitle2">Maps</Typography>
+                <Button size="small" variant="contained" onClick={handleCompute} disabled={!canCompute}>
+                  {series?.maps ? 'Recompute Maps' : 'Compute Maps'}
+                </Button>
+                {series?.maps && (
+                  <>
+                    <Select
+                      size="small"
+                      value={series.displayMap ?? ''}
+                      displayEmpty
+                      onChange={(e) =>
+                        updateRotationSeries(micrograph.id, {
+                          displayMap: (e.target.value || null) as RotationSeriesMapType | null,
+                        })
+                      }
+                      sx={{ minWidth: 200 }}
+                    >
+                      <MenuItem value="">
+                        <em>No overlay</em>
+                      </MenuItem>
+                      {(Object.keys(ROTATION_MAP_LABELS) as RotationSeriesMapType[]).map((type) => (
+                        <MenuItem key={type} value={type}>{ROTATION_MAP_LABELS[type]}</MenuItem>
+                      ))}
+                    </Select>
+                    <Box sx={{ width: 160 }}>
+                      <Slider
+                        size="small"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={series.opacity}
+                        valueLabelDisplay="auto"
+                        valueLabelFormat={(v) => `${Math.round(v * 100)}%`}
+                        onChange={(_, v) => updateRotationSeries(micrograph.id, { opacity: v as number })}
+                      />
+                    </Box>
+                  </>
+                )}
+              </Stack>
+              <Typography variant="body2" color="text.secondary">
+                {series?.maps
+                  ? `Computed from ${series.maps.imageCount} images on ${new Date(series.maps.computedAt).toLocaleString()} ` +
+                    `(${series.maps.width}×${series.maps.height}). Extinction angles are ${mode === 'stage' ? 'stage' : 'polarizer'} ` +
+                    'readings modulo 90°; the retardation proxy is the brightness modulation over a full turn.'
+                  : imageCount < 3
+                    ? 'Add images until the series has at least three angles.'
+                    : !allRegistered
+                      ? 'Every image must be registered before maps can be computed; re-register or remove unmatched images.'
+                      : 'Maps have not been computed for the current images.'}
+              </Typography>
+            </Box>
+
+            <Divider />
+
+            {/* Spot query */}
+            <Box>
+              <Stack direction="row" spacing={3} alignItems="center" sx={{ mb: 1 }}>
+                <Typography variant="subtitle2">Spot Extinction</Typography>
+                <FormControl component="fieldset" size="small">
+                  <FormLabel component="legend" sx={{ fontSize: '0.75rem' }}>Spots</FormLabel>
+                  <RadioGroup
+                    row
+                    value={spotScope}
+                    onChange={(e) => setSpotScope(e.target.value as SpotScope)}
+                  >
+                    <FormControlLabel value="all" control={<Radio size="small" />} label="All spots" />
+                    <FormControlLabel
+                      value="selected"
+                      control={<Radio size="small" />}
+                      label={`Selected spots (${selectedSpotIds.length})`}
+                    />
+                  </RadioGroup>
+                </FormControl>
+                <Button
+                  size="small"
+                  variant="contained"
+                  onClick={handleSample}
+                  disabled={sampling || !series?.maps || querySpots.length === 0}
+                >
+                  Sample {querySpots.length} Spot{querySpots.length === 1 ? '' : 's'}
+                </Button>
+              </Stack>
+
+              {sampling && <LinearProgress variant="determinate" value={samplingProgress} sx={{ mb: 1 }} />}
+
+              {results && results.length > 0 && (
+                <Paper variant="outlined" sx={{ maxHeight: 280, overflow: 'auto' }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Spot</TableCell>
+                        <TableCell>Mineral</TableCell>
+                        <TableCell align="right">Extinction</TableCell>
+                        <TableCell align="right">Spread</TableCell>
+                        <TableCell align="right">Retardation</TableCell>
+                        <TableCell align="right">Max Intensity</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {results.map((result) => (
+                        <TableRow key={result.spotId}>
+                          <TableCell>{result.spotName}</TableCell>
+                          <TableCell>{result.mineral ?? '—'}</TableCell>
+                          <TableCell align="right">
+                            {result.extinctionAngle !== null ? `${result.extinctionAngle.toFixed(1)}°` : '—'}
+                          </TableCell>
+                          <TableCell align="right">
+                            {result.extinctionSpread !== null ? `${result.extinctionSpread.toFixed(1)}°` : '—'}
+                          </TableCell>
+                          <TableCell align="right">
+                            {result.pixelCount > 0
+                              ? `${result.retardationMean.toFixed(1)} ± ${result.retardationStdDev.toFixed(1)}`
+                              : '—'}
+                          </TableCell>
+                          <TableCell align="right">
+                            {result.pixelCount > 0 ? result.maxIntensityMean.toFixed(1) : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Paper>
+              )}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button color="error" onClick={handleRemoveSeries} disabled={!series || !!busy} sx={{ mr: 'auto' }}>
+          Remove Series
+        </Button>
+        <Button
+          startIcon={<DownloadIcon />}
+          onClick={handleExportCSV}
+          disabled={!results || results.length === 0}
+        >
+          Export CSV
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
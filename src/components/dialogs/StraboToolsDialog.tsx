@@ -46,6 +46,7 @@ import LayersIcon from '@mui/icons-material/Layers';
 import { v4 as uuidv4 } from 'uuid';
 import { useAppStore } from '@/store';
 import type { MicrographMetadata, StraboToolsResult } from '@/types/project-types';
+import { getPlacementWarp, isWarpedPlacement } from '@/utils/placementWarp';
 import {
   toGrayscale,
   applySobel,
@@ -603,7 +604,7 @@ export function StraboToolsDialog({ open, onClose, initialMicrographId }: Strabo
       // composite thumbnail both pick up the sibling's content immediately.
       const affineMatrix = sourceMicro.affineMatrix;
       const isAffineSource =
-        sourceMicro.placementType === 'affine' && Array.isArray(affineMatrix) && affineMatrix.length === 6;
+        isWarpedPlacement(sourceMicro.placementType) && Array.isArray(affineMatrix) && affineMatrix.length === 6;
       let affineTileHash: string | undefined;
       if (isAffineSource && affineMatrix) {
         setSaveProgress({ stage: 'Generating overlay tiles...', percent: 0 });
@@ -615,7 +616,8 @@ export function StraboToolsDialog({ open, onClose, initialMicrographId }: Strabo
         const affineResult = await window.api?.generateAffineTiles(
           siblingImagePath,
           affineTileHash,
-          affineMatrix
+          affineMatrix,
+          getPlacementWarp(sourceMicro)
         );
         if (!affineResult?.success) {
           throw new Error(`Affine tile generation failed: ${affineResult?.error ?? 'unknown error'}`);
@@ -648,9 +650,11 @@ export function StraboToolsDialog({ open, onClose, initialMicrographId }: Strabo
         scaleX: sourceMicro.scaleX,
         scaleY: sourceMicro.scaleY,
         scalePixelsPerCentimeter: sourceMicro.scalePixelsPerCentimeter,
-        // Affine geometry (only meaningful when placementType === 'affine'); the tiles
-        // are freshly baked above under the sibling's own affineTileHash.
+        // Control point geometry (only meaningful for affine, projective and spline
+        // placement); the tiles are freshly baked above under the sibling's own affineTileHash.
         affineMatrix: sourceMicro.affineMatrix,
+        homographyMatrix: sourceMicro.homographyMatrix,
+        thinPlateSpline: sourceMicro.thinPlateSpline,
         controlPoints: sourceMicro.controlPoints,
         affineBoundsOffset: sourceMicro.affineBoundsOffset,
         affineTransformedWidth: sourceMicro.affineTransformedWidth,
@@ -0,0 +1,116 @@
+/**
+ * Topology Cleanup Dialog
+ *
+ * Closes gaps and removes overlaps between the selected polygon spots so that
+ * adjacent grains share their boundaries. Shows a preview of what will change
+ * at the chosen tolerance before applying it as a single undo step.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { useAppStore } from '@/store';
+import type { Spot } from '@/types/project-types';
+import {
+  DEFAULT_TOPOLOGY_CLEANUP_OPTIONS,
+  cleanSharedBoundaries,
+  getTopologySpots,
+} from '@/services/spotTopology';
+
+interface TopologyCleanupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Spots to clean (polygon spots on one micrograph) */
+  spotIds: string[];
+}
+
+export function TopologyCleanupDialog({ open, onClose, spotIds }: TopologyCleanupDialogProps) {
+  const spotIndex = useAppStore((state) => state.spotIndex);
+  const cleanSpotTopology = useAppStore((state) => state.cleanSpotTopology);
+
+  const [tolerance, setTolerance] = useState(String(DEFAULT_TOPOLOGY_CLEANUP_OPTIONS.tolerance));
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setTolerance(String(DEFAULT_TOPOLOGY_CLEANUP_OPTIONS.tolerance));
+    }
+  }, [open]);
+
+  const toleranceValue = Number(tolerance);
+  const isValid = Number.isFinite(toleranceValue) && toleranceValue > 0;
+
+  // Dry run for the preview
+  const preview = useMemo(() => {
+    if (!open || !isValid) return null;
+    const spots = spotIds.map((id) => spotIndex.get(id)).filter((spot): spot is Spot => spot !== undefined);
+    return cleanSharedBoundaries(getTopologySpots(spots), { tolerance: toleranceValue });
+  }, [open, isValid, spotIds, spotIndex, toleranceValue]);
+
+  const handleApply = () => {
+    if (!isValid) return;
+    cleanSpotTopology(spotIds, toleranceValue);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Close Gaps / Remove Overlaps</DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Snaps nearby vertices of the {spotIds.length} selected spots together, adds shared vertices
+            along touching edges, and trims overlaps from the smaller spot. Larger spots keep their shape.
+          </Typography>
+
+          <TextField
+            autoFocus
+            fullWidth
+            type="number"
+            label="Tolerance (pixels)"
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            error={!isValid}
+            helperText={isValid ? 'Gaps narrower than this are closed' : 'Enter a positive number'}
+            inputProps={{ min: 0.1, step: 0.5 }}
+          />
+
+          {preview && (
+            preview.points.size > 0 ? (
+              <Alert severity="info">
+                {preview.points.size} spot{preview.points.size === 1 ? '' : 's'} will change:{' '}
+                {preview.verticesSnapped} vertices snapped, {preview.verticesInserted} shared vertices
+                added, {preview.overlapsRemoved} overlap{preview.overlapsRemoved === 1 ? '' : 's'} trimmed.
+              </Alert>
+            ) : (
+              <Alert severity="success">No gaps or overlaps found at this tolerance.</Alert>
+            )
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          variant="contained"
+          disabled={!preview || preview.points.size === 0}
+        >
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -17,7 +17,7 @@ import {
   Slider,
 } from '@mui/material';
 import { MuiColorInput } from 'mui-color-input';
-import { useAppStore } from '@/store';
+import { useAppStore, runAsHistoryStep } from '@/store';
 import { findSpotById } from '@/store/helpers';
 import { legacyColorToHex, hexToLegacyColor } from '@/utils/colorUtils';
 import { PresetSelector } from '../../PresetSelector';
@@ -85,17 +85,19 @@ export function EditSpotDialog({ isOpen, onClose, spotId }: EditSpotDialogProps)
 
     // Apply newly selected presets first (additive merge, store dedups),
     // then write the control values — controls win over preset appearance
-    for (const presetId of selectedPresetIds) {
-      applyPresetToSpot(presetId, spotId);
-    }
+    runAsHistoryStep(`Edit spot '${name.trim()}'`, () => {
+      for (const presetId of selectedPresetIds) {
+        applyPresetToSpot(presetId, spotId);
+      }
 
-    updateSpotData(spotId, {
-      name: name.trim(),
-      notes: notes.trim() || '',
-      labelColor: hexToLegacyColor(labelColor),
-      color: hexToLegacyColor(spotColor),
-      opacity,
-      modifiedTimestamp: Date.now(),
+      updateSpotData(spotId, {
+        name: name.trim(),
+        notes: notes.trim() || '',
+        labelColor: hexToLegacyColor(labelColor),
+        color: hexToLegacyColor(spotColor),
+        opacity,
+        modifiedTimestamp: Date.now(),
+      });
     });
 
     onClose();
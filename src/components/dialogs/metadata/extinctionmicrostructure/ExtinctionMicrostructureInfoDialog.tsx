@@ -2,6 +2,8 @@
  * Extinction Microstructure Info Dialog Component
  *
  * Dialog for managing extinction microstructure data.
+ * For spots on a micrograph with rotation series maps, the sampled extinction
+ * angle and spread are shown and can be added to the notes.
  */
 
 import { useState, useEffect } from 'react';
@@ -14,10 +16,11 @@ import {
 } from '@mui/material';
 import { useAppStore } from '@/store';
 import { ExtinctionMicrostructureInfoType, ExtinctionMicrostructureType, MineralogyType } from '@/types/project-types';
-import { findMicrographById, findSpotById, getAvailablePhasesFromMicrograph, getAvailablePhasesFromMineralogy, getAvailablePhasesFromSpot } from '@/store/helpers';
+import { findMicrographById, findSpotById, findSpotParentMicrograph, getAvailablePhasesFromMicrograph, getAvailablePhasesFromMineralogy, getAvailablePhasesFromSpot } from '@/store/helpers';
 import { ListManager } from '../reusable/ListManager';
 import { ExtinctionMicrostructureAddForm, ExtinctionMicrostructureData } from './ExtinctionMicrostructureAddForm';
 import { ExtinctionMicrostructureListItem } from './ExtinctionMicrostructureListItem';
+import { RotationSeriesSpotReadout } from '@/components/RotationSeriesSpotReadout';
 
 interface ExtinctionMicrostructureInfoDialogProps {
   isOpen: boolean;
@@ -113,6 +116,10 @@ export function ExtinctionMicrostructureInfoDialog({
         ? getAvailablePhasesFromSpot(findSpotById(project, spotId))
         : [];
 
+  // Rotation series maps of the spot's micrograph, if any
+  const spot = !presetMode && spotId && project ? findSpotById(project, spotId) : null;
+  const spotMicrograph = spot && project ? findSpotParentMicrograph(project, spot.id) : null;
+
   const title = presetMode
     ? 'Preset Extinction Microstructures'
     : micrographId
@@ -133,6 +140,14 @@ export function ExtinctionMicrostructureInfoDialog({
     >
       <DialogTitle>{title}</DialogTitle>
       <DialogContent sx={{ display: 'flex', flexDirection: 'column', p: 3 }}>
+        {project && spot && spotMicrograph?.rotationSeries?.maps && (
+          <RotationSeriesSpotReadout
+            projectId={project.id}
+            micrograph={spotMicrograph}
+            spot={spot}
+            onAddToNotes={(text) => setNotes((prev) => (prev ? `${prev}\n${text}` : text))}
+          />
+        )}
         <ListManager<ExtinctionMicrostructureData>
           items={extinctionMicrostructures}
           notes={notes}
@@ -21,7 +21,7 @@ import {
 } from '@mui/material';
 import { useAppStore } from '@/store';
 import { findMicrographById, findSpotById, getAvailablePhasesFromMicrograph, getAvailablePhasesFromMineralogy, getAvailablePhasesFromSpot } from '@/store/helpers';
-import { MineralogyType } from '@/types/project-types';
+import { GrainBoundaryStatisticsType, MineralogyType } from '@/types/project-types';
 
 export interface GrainBoundaryMorphologyData {
   type: string;
@@ -43,6 +43,7 @@ export interface GrainBoundaryData {
   phase2: string | null;
   morphologies: GrainBoundaryMorphologyData[];
   descriptors: GrainBoundaryDescriptorData[];
+  statistics?: GrainBoundaryStatisticsType | null;  // Measured by Grain Boundary Network, not edited here
 }
 
 interface GrainBoundaryAddFormProps {
@@ -273,6 +274,7 @@ export function GrainBoundaryAddForm({
       phase2: formData.phase2,
       morphologies,
       descriptors,
+      ...(initialData?.statistics && { statistics: initialData.statistics }),
     };
 
     onAdd(boundary);
@@ -80,6 +80,27 @@ export function GrainBoundaryListItem({ boundary }: GrainBoundaryListItemProps)
             </Box>
           </Box>
         )}
+
+        {/* Measured statistics */}
+        {boundary.statistics && (
+          <Box sx={{ mt: 1 }}>
+            <Typography variant="caption" sx={{ display: 'block', mb: 0.5, fontWeight: 600 }}>
+              Boundary Network Statistics:
+            </Typography>
+            <Typography variant="body2">
+              {boundary.statistics.segmentCount} segments ({(boundary.statistics.contactFrequency * 100).toFixed(1)}% of
+              contacts), {boundary.statistics.totalLength.toFixed(1)} {boundary.statistics.lengthUnit} total (
+              {(boundary.statistics.lengthFraction * 100).toFixed(1)}% of boundary length)
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Straightness {boundary.statistics.meanStraightness.toFixed(2)}
+              {boundary.statistics.medianDihedralAngle != null &&
+                ` · opposite dihedral angle ${boundary.statistics.medianDihedralAngle.toFixed(0)}°`}
+              {' · '}
+              {new Date(boundary.statistics.analysisTimestamp).toLocaleDateString()}
+            </Typography>
+          </Box>
+        )}
       </Box>
     </Box>
   );
@@ -19,7 +19,7 @@ import {
 } from '@mui/material';
 import { PhaseSelector } from '../reusable/PhaseSelector';
 import { OtherTextField } from '../reusable/OtherTextField';
-import { GrainOrientationType } from '@/types/legacy-types';
+import { GrainOrientationType } from '@/types/project-types';
 
 interface GrainOrientationAddFormProps {
   availablePhases: string[];
@@ -66,13 +66,25 @@ export function GrainOrientationAddForm({
   };
 
   const handleSubmit = () => {
+    const itemPhases = phases.length > 0 ? phases : null;
+    const itemOrientation = meanOrientation === '' ? null : meanOrientation;
+
+    // Rf/φ details describe the measured phases and orientation; once either
+    // is edited by hand they no longer belong to this entry
+    const measurementEdited =
+      (initialData?.phases || []).join('|') !== (itemPhases || []).join('|') ||
+      (initialData?.meanOrientation ?? null) !== itemOrientation;
+
     const item: GrainOrientationType = {
-      phases: phases.length > 0 ? phases : null,
-      meanOrientation: meanOrientation === '' ? null : meanOrientation,
+      // Keep fields this form doesn't edit, then set the edited ones over them
+      ...initialData,
+      phases: itemPhases,
+      meanOrientation: itemOrientation,
       relativeTo: relativeTo || null,
       software: software || null,
       spoTechnique: spoTechnique || null,
       spoOther: spoTechnique === 'Other' && spoOther ? spoOther : null,
+      rfPhi: measurementEdited ? null : initialData?.rfPhi ?? null,
     };
     onAdd(item);
   };
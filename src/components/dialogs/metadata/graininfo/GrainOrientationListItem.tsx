@@ -6,7 +6,7 @@
 
 import { Box, IconButton, Typography, Chip } from '@mui/material';
 import { Edit, Delete } from '@mui/icons-material';
-import { GrainOrientationType } from '@/types/legacy-types';
+import { GrainOrientationType } from '@/types/project-types';
 
 interface GrainOrientationListItemProps {
   item: GrainOrientationType;
@@ -29,6 +29,13 @@ export function GrainOrientationListItem({
     details.push(`Technique: ${technique}`);
   }
 
+  const rfPhi = item.rfPhi;
+  const measured: string[] = [];
+  if (rfPhi?.strainRatio != null) measured.push(`Rs (θ curves): ${rfPhi.strainRatio}`);
+  if (rfPhi?.shapeTensorRatio != null) measured.push(`Shape tensor: ${rfPhi.shapeTensorRatio}`);
+  if (rfPhi?.harmonicMeanRf != null) measured.push(`Harmonic mean Rf: ${rfPhi.harmonicMeanRf}`);
+  if (rfPhi?.grainCount != null) measured.push(`${rfPhi.grainCount} grains`);
+
   return (
     <Box
       sx={{
@@ -45,16 +52,22 @@ export function GrainOrientationListItem({
       }}
     >
       <Box sx={{ flex: 1 }}>
-        {item.phases && item.phases.length > 0 && (
+        {((item.phases && item.phases.length > 0) || rfPhi) && (
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
-            {item.phases.map((phase) => (
+            {item.phases?.map((phase) => (
               <Chip key={phase} label={phase} size="small" />
             ))}
+            {rfPhi && <Chip label="Rf/φ" size="small" color="primary" variant="outlined" />}
           </Box>
         )}
         <Typography variant="body2" color="text.secondary">
           {details.length > 0 ? details.join(' | ') : 'No orientation data provided'}
         </Typography>
+        {measured.length > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {measured.join(' | ')}
+          </Typography>
+        )}
       </Box>
       <Box sx={{ display: 'flex', gap: 0.5 }}>
         <IconButton size="small" onClick={onEdit} aria-label="Edit">
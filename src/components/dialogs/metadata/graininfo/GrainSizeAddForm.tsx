@@ -55,6 +55,8 @@ export function GrainSizeAddForm({
 
   const handleSubmit = () => {
     const item: GrainSizeType = {
+      // Keep fields this form doesn't edit (e.g. line-intercept measurement details)
+      ...initialData,
       phases: phases.length > 0 ? phases : null,
       mean: mean === '' ? null : mean,
       median: median === '' ? null : median,
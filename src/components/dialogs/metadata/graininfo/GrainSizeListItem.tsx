@@ -6,7 +6,7 @@
 
 import { Box, IconButton, Typography, Chip } from '@mui/material';
 import { Edit, Delete } from '@mui/icons-material';
-import { GrainSizeType } from '@/types/legacy-types';
+import { GrainSizeType } from '@/types/project-types';
 
 interface GrainSizeListItemProps {
   item: GrainSizeType;
@@ -22,6 +22,13 @@ export function GrainSizeListItem({ item, onEdit, onDelete }: GrainSizeListItemP
   if (item.standardDeviation != null)
     stats.push(`SD: ${item.standardDeviation}${item.sizeUnit || ''}`);
 
+  const lineIntercept = item.method === 'line-intercept' ? item.lineIntercept : null;
+  const details: string[] = [];
+  if (lineIntercept?.meanInterceptLength != null)
+    details.push(`Mean intercept: ${lineIntercept.meanInterceptLength}${item.sizeUnit || ''}`);
+  if (lineIntercept?.astmGrainSizeNumber != null) details.push(`ASTM G: ${lineIntercept.astmGrainSizeNumber}`);
+  if (lineIntercept?.anisotropyIndex != null) details.push(`Anisotropy: ${lineIntercept.anisotropyIndex}`);
+
   return (
     <Box
       sx={{
@@ -38,16 +45,22 @@ export function GrainSizeListItem({ item, onEdit, onDelete }: GrainSizeListItemP
       }}
     >
       <Box sx={{ flex: 1 }}>
-        {item.phases && item.phases.length > 0 && (
+        {((item.phases && item.phases.length > 0) || lineIntercept) && (
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
-            {item.phases.map((phase) => (
+            {item.phases?.map((phase) => (
               <Chip key={phase} label={phase} size="small" />
             ))}
+            {lineIntercept && <Chip label="Line intercept" size="small" color="primary" variant="outlined" />}
           </Box>
         )}
         <Typography variant="body2" color="text.secondary">
           {stats.length > 0 ? stats.join(' | ') : 'No statistics provided'}
         </Typography>
+        {details.length > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {details.join(' | ')}
+          </Typography>
+        )}
       </Box>
       <Box sx={{ display: 'flex', gap: 0.5 }}>
         <IconButton size="small" onClick={onEdit} aria-label="Edit">
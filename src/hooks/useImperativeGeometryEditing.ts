@@ -9,18 +9,48 @@
  * 2. Temporary polygon and handles are created imperatively on overlay layer
  * 3. All updates happen via direct Konva manipulation (no React re-renders)
  * 4. On save/cancel, imperative elements are destroyed and React spot is shown again
+ *
+ * With topology snapping on (topologySpotsRef holds the micrograph's spots):
+ * - Dragged vertices snap to nearby vertices and edges of other spots (hold Alt to skip)
+ * - Vertices shared with a neighbor move the neighbor's vertex too; the
+ *   neighbor's new outline is previewed as a dashed green line
+ * - Adding a vertex on a shared edge adds it to the neighbor as well
+ * - Neighbors are saved together with the edited spot as one undo step
  */
 
 import { useCallback, useRef } from 'react';
 import Konva from 'konva';
 import { useAppStore } from '@/store';
 import { Spot } from '@/types/project-types';
+import type { Pair } from '@/services/grainDetection/geometry';
+import {
+  SHARED_VERTEX_TOLERANCE,
+  SNAP_RADIUS_SCREEN_PX,
+  SnapIndex,
+  findSharedVertices,
+  getTopologySpots,
+  vertexKey,
+  type SnapResult,
+  type VertexRef,
+} from '@/services/spotTopology';
 
 interface GeometryEditingRefs {
   layerRef: React.RefObject<any>;
   stageRef: React.RefObject<any>;
+  /** Spots to snap to and share vertices with; null disables topology-aware editing */
+  topologySpotsRef?: React.RefObject<Spot[] | null>;
+}
+
+/** A neighbor spot whose vertices are linked to the edited spot */
+interface LinkedNeighbor {
+  points: Pair[];
+  closed: boolean;
+  ghost: Konva.Line;
+  changed: boolean;
 }
 
+const SNAPPED_FILL = '#33cc66';
+
 export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
   // Refs for imperative Konva elements
   const editingPolygonRef = useRef<Konva.Line | null>(null);
@@ -30,12 +60,177 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
   const editingSpotIdRef = useRef<string | null>(null);
   const currentScaleRef = useRef<number>(1); // Track current scale for drag handlers
 
+  // Topology state (only used when topology snapping is on)
+  const snapIndexRef = useRef<SnapIndex | null>(null);
+  const linksRef = useRef<VertexRef[][]>([]); // Linked neighbor vertices, per edited vertex
+  const neighborsRef = useRef<Map<string, LinkedNeighbor>>(new Map());
+
   // Store actions
   const startEditingSpot = useAppStore((state) => state.startEditingSpot);
   const updateEditingGeometry = useAppStore((state) => state.updateEditingGeometry);
   const saveEditingGeometry = useAppStore((state) => state.saveEditingGeometry);
   const cancelEditingGeometry = useAppStore((state) => state.cancelEditingGeometry);
 
+  /**
+   * Rebuild the snap index from the other spots, using the current
+   * (possibly moved) outlines of linked neighbors
+   */
+  const rebuildSnapIndex = useCallback(() => {
+    const spots = refs.topologySpotsRef?.current;
+    if (!spots || !editingSpotIdRef.current) {
+      snapIndexRef.current = null;
+      return;
+    }
+    const topologySpots = getTopologySpots(spots, [editingSpotIdRef.current]).map((spot) => {
+      const neighbor = neighborsRef.current.get(spot.spotId);
+      return neighbor ? { ...spot, points: neighbor.points } : spot;
+    });
+    snapIndexRef.current = new SnapIndex(topologySpots);
+  }, [refs]);
+
+  /**
+   * Get (or start tracking) a neighbor whose vertices will be linked
+   */
+  const getLinkedNeighbor = useCallback((spotId: string): LinkedNeighbor | null => {
+    const existing = neighborsRef.current.get(spotId);
+    if (existing) return existing;
+
+    const spot = snapIndexRef.current?.spots.find((s) => s.spotId === spotId);
+    const overlayLayer = refs.layerRef.current;
+    if (!spot || !overlayLayer) return null;
+
+    const scale = currentScaleRef.current;
+    const ghost = new Konva.Line({
+      points: spot.points.flat(),
+      closed: spot.closed,
+      stroke: SNAPPED_FILL,
+      strokeWidth: 2 / scale,
+      dash: [6 / scale, 4 / scale],
+      listening: false,
+    });
+    overlayLayer.add(ghost);
+    ghost.moveToBottom();
+
+    const neighbor: LinkedNeighbor = {
+      points: spot.points.map((p) => [p[0], p[1]] as Pair),
+      closed: spot.closed,
+      ghost,
+      changed: false,
+    };
+    neighborsRef.current.set(spotId, neighbor);
+    return neighbor;
+  }, [refs]);
+
+  /**
+   * Move linked neighbor vertices to the current positions of the edited vertices
+   */
+  const syncNeighbors = useCallback((polygon: Konva.Line) => {
+    if (neighborsRef.current.size === 0) return;
+
+    const points = polygon.points();
+    linksRef.current.forEach((links, vertex) => {
+      const x = polygon.x() + points[vertex * 2];
+      const y = polygon.y() + points[vertex * 2 + 1];
+      for (const link of links) {
+        const neighbor = neighborsRef.current.get(link.spotId);
+        if (!neighbor) continue;
+        const current = neighbor.points[link.index];
+        if (current[0] !== x || current[1] !== y) {
+          neighbor.points[link.index] = [x, y];
+          neighbor.changed = true;
+        }
+      }
+    });
+
+    neighborsRef.current.forEach((neighbor) => {
+      neighbor.ghost.points(neighbor.points.flat());
+    });
+  }, []);
+
+  /**
+   * Snap a dragged vertex handle onto nearby spots, ignoring the neighbor
+   * vertices it is already linked to. Stores the target on the handle so the
+   * link can be made when the drag ends.
+   */
+  const snapHandle = useCallback((circle: Konva.Circle, vertex: number, evt: MouseEvent | undefined) => {
+    const snapIndex = snapIndexRef.current;
+    let target: SnapResult | null = null;
+
+    if (snapIndex && !evt?.altKey) {
+      const exclude = new Set((linksRef.current[vertex] ?? []).map((link) => vertexKey(link.spotId, link.index)));
+      target = snapIndex.snap(circle.x(), circle.y(), SNAP_RADIUS_SCREEN_PX / currentScaleRef.current, exclude);
+    }
+
+    if (target) {
+      circle.position({ x: target.x, y: target.y });
+    }
+    circle.fill(target ? SNAPPED_FILL : '#cc3333');
+    circle.setAttr('snapTarget', target);
+  }, []);
+
+  /**
+   * Link a vertex to the spot it was snapped onto. Snapping onto an edge
+   * inserts a vertex into the neighbor so both spots share it.
+   */
+  const linkSnapTarget = useCallback((vertex: number, target: SnapResult | null) => {
+    if (!target) return;
+    const links = linksRef.current[vertex] ?? (linksRef.current[vertex] = []);
+    if (links.some((link) => link.spotId === target.spotId)) return;
+
+    const neighbor = getLinkedNeighbor(target.spotId);
+    if (!neighbor) return;
+
+    let index = target.index;
+    if (target.kind === 'edge') {
+      index = target.index + 1;
+      neighbor.points.splice(index, 0, [target.x, target.y]);
+      neighbor.changed = true;
+      // Later vertices of the neighbor shift by one
+      for (const other of linksRef.current) {
+        for (const link of other ?? []) {
+          if (link.spotId === target.spotId && link.index >= index) link.index++;
+        }
+      }
+    }
+    links.push({ spotId: target.spotId, index });
+  }, [getLinkedNeighbor]);
+
+  /**
+   * Insert a vertex into every neighbor that shares the edge being split
+   * @param edgeStart - Vertex number where the edge starts (the new vertex goes after it)
+   * @param vertexCount - Number of vertices before the insertion
+   */
+  const insertSharedVertex = useCallback((edgeStart: number, vertexCount: number, x: number, y: number) => {
+    const edgeEnd = (edgeStart + 1) % vertexCount;
+    const startLinks = linksRef.current[edgeStart] ?? [];
+    const endLinks = linksRef.current[edgeEnd] ?? [];
+    const newLinks: VertexRef[] = [];
+
+    for (const start of startLinks) {
+      const end = endLinks.find((link) => link.spotId === start.spotId);
+      const neighbor = neighborsRef.current.get(start.spotId);
+      if (!end || !neighbor) continue;
+
+      // The shared edge must also be an edge of the neighbor
+      const count = neighbor.points.length;
+      let index: number;
+      if ((start.index + 1) % count === end.index) index = start.index + 1;
+      else if ((end.index + 1) % count === start.index) index = end.index + 1;
+      else continue;
+
+      neighbor.points.splice(index, 0, [x, y]);
+      neighbor.changed = true;
+      for (const links of linksRef.current) {
+        for (const link of links ?? []) {
+          if (link.spotId === start.spotId && link.index >= index) link.index++;
+        }
+      }
+      newLinks.push({ spotId: start.spotId, index });
+    }
+
+    linksRef.current.splice(edgeStart + 1, 0, newLinks);
+  }, []);
+
   /**
    * Update vertex and midpoint handles
    * @param polygon - The polygon being edited
@@ -93,6 +288,7 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
       circle.on('dragmove', (e) => {
         e.cancelBubble = true;
         const vertexIndex = circle.getAttr('vertexIndex');
+        snapHandle(circle, vertexIndex / 2, e.evt);
         const newPoints = polygon.points().slice();
         newPoints[vertexIndex] = circle.x() - polygon.x();
         newPoints[vertexIndex + 1] = circle.y() - polygon.y();
@@ -125,12 +321,16 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
           midpointAfter.y(midY);
         }
 
+        syncNeighbors(polygon);
         overlayLayer?.batchDraw();
       });
 
       // Recreate handles after drag end - use ref for current scale
       circle.on('dragend', (e) => {
         e.cancelBubble = true;
+        linkSnapTarget(circle.getAttr('vertexIndex') / 2, circle.getAttr('snapTarget'));
+        syncNeighbors(polygon);
+        rebuildSnapIndex();
         updateEditHandles(polygon, geometryType, currentScaleRef.current);
       });
 
@@ -174,6 +374,9 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
         const newY = midCircle.y() - polygon.y();
         newPoints.splice(edgeStartIndex + 2, 0, newX, newY);
 
+        // Neighbors sharing this edge get the new vertex too
+        insertSharedVertex(edgeStartIndex / 2, newPoints.length / 2 - 1, midCircle.x(), midCircle.y());
+
         polygon.points(newPoints);
 
         // Mark as converted and update appearance - use ref for current scale
@@ -190,10 +393,12 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
         e.cancelBubble = true;
         if (midCircle.getAttr('isConverted')) {
           const vertexIndex = midCircle.getAttr('vertexIndex');
+          snapHandle(midCircle, vertexIndex / 2, e.evt);
           const newPoints = polygon.points().slice();
           newPoints[vertexIndex] = midCircle.x() - polygon.x();
           newPoints[vertexIndex + 1] = midCircle.y() - polygon.y();
           polygon.points(newPoints);
+          syncNeighbors(polygon);
           overlayLayer?.batchDraw();
         }
       });
@@ -202,6 +407,9 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
       midCircle.on('dragend', (e) => {
         e.cancelBubble = true;
         if (midCircle.getAttr('isConverted')) {
+          linkSnapTarget(midCircle.getAttr('vertexIndex') / 2, midCircle.getAttr('snapTarget'));
+          syncNeighbors(polygon);
+          rebuildSnapIndex();
           updateEditHandles(polygon, geometryType, currentScaleRef.current);
         }
       });
@@ -213,7 +421,7 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
     vertexCirclesRef.current = vertexCircles;
     midpointCirclesRef.current = midpointCircles;
     overlayLayer.batchDraw();
-  }, [refs]);
+  }, [refs, snapHandle, syncNeighbors, linkSnapTarget, insertSharedVertex, rebuildSnapIndex]);
 
   /**
    * Enter edit mode for a spot
@@ -308,21 +516,35 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
 
     polygon.on('dragmove', (e) => {
       e.cancelBubble = true;
+      syncNeighbors(polygon);
       updateEditHandles(polygon, geometryType, currentScaleRef.current);
     });
 
     polygon.on('dragend', (e) => {
       e.cancelBubble = true;
+      rebuildSnapIndex();
     });
 
     editingPolygonRef.current = polygon;
     overlayLayer.add(polygon);
 
+    // Link vertices that coincide with neighbor vertices
+    linksRef.current = [];
+    neighborsRef.current = new Map();
+    rebuildSnapIndex();
+    if (snapIndexRef.current) {
+      const vertices = geometry.map((p) => [p.X, p.Y] as Pair);
+      linksRef.current = findSharedVertices(vertices, snapIndexRef.current, SHARED_VERTEX_TOLERANCE);
+      for (const links of linksRef.current) {
+        for (const link of links) getLinkedNeighbor(link.spotId);
+      }
+    }
+
     // Create editing handles for lines/polygons, passing current scale for correct sizing
     updateEditHandles(polygon, geometryType, scale);
 
     // Note: The React-rendered spot should be hidden via the `isEditing` prop in SpotRenderer
-  }, [refs, startEditingSpot, updateEditHandles]);
+  }, [refs, startEditingSpot, updateEditHandles, rebuildSnapIndex, getLinkedNeighbor, syncNeighbors]);
 
   /**
    * Clean up all imperative editing elements
@@ -352,6 +574,12 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
     });
     midpointCirclesRef.current = [];
 
+    // Destroy neighbor previews and topology state
+    neighborsRef.current.forEach((neighbor) => neighbor.ghost.destroy());
+    neighborsRef.current = new Map();
+    linksRef.current = [];
+    snapIndexRef.current = null;
+
     // Clear refs
     originalGeometryRef.current = null;
     editingSpotIdRef.current = null;
@@ -395,11 +623,19 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
       }
     }
 
+    // Neighbors whose shared vertices moved with this spot
+    const linkedGeometries: Record<string, Array<{ X: number; Y: number }>> = {};
+    neighborsRef.current.forEach((neighbor, spotId) => {
+      if (neighbor.changed) {
+        linkedGeometries[spotId] = neighbor.points.map(([X, Y]) => ({ X, Y }));
+      }
+    });
+
     // Update the editing geometry in store
     updateEditingGeometry(newGeometry);
 
     // Save to spot (this will update the React spot)
-    saveEditingGeometry();
+    saveEditingGeometry(linkedGeometries);
 
     // Clean up imperative elements
     cleanupEditMode();
@@ -452,6 +688,12 @@ export const useImperativeGeometryEditing = (refs: GeometryEditingRefs) => {
           circle.strokeWidth(1 / newScale);
         }
       });
+
+      // Update neighbor previews
+      neighborsRef.current.forEach((neighbor) => {
+        neighbor.ghost.strokeWidth(2 / newScale);
+        neighbor.ghost.dash([6 / newScale, 4 / newScale]);
+      });
     }
 
     refs.layerRef.current?.batchDraw();
@@ -7,42 +7,96 @@
  * - Preview line shows current segment while drawing
  * - Double-click to finish (500ms threshold)
  * - Stroke width scales with zoom
+ * - Optional snapping onto neighboring spots (topology snapping)
+ * - Optional livewire mode: segments between clicks follow image edges
  */
 
 import { useRef, useCallback } from 'react';
 import Konva from 'konva';
+import type { LivewireTracer } from '@/services/livewire';
 
 interface LineDrawingState {
   currentLine: Konva.Line | null;
   previewLine: Konva.Line | null;
   currentPoints: number[];
   lastClickTime: number;
+  snapIndicator: Konva.Circle | null;
 }
 
 interface UseLineDrawingOptions {
   layer: Konva.Layer | null;
   scale: number;
   onComplete: (points: number[]) => void;
+  /** Returns the snapped position for an image coordinate, or null to keep it */
+  snap?: (imageX: number, imageY: number) => { x: number; y: number } | null;
+  /** Livewire tracer; when set, segments follow the strongest image edges */
+  livewire?: LivewireTracer | null;
   lineColor?: string; // Optional line color (default: #cc3333)
 }
 
 const DOUBLE_CLICK_THRESHOLD = 500; // 500ms threshold for double-click
 
-export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333' }: UseLineDrawingOptions) => {
+export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333', snap, livewire }: UseLineDrawingOptions) => {
   const stateRef = useRef<LineDrawingState>({
     currentLine: null,
     previewLine: null,
     currentPoints: [],
     lastClickTime: 0,
+    snapIndicator: null,
   });
 
+  /**
+   * Apply snapping to a position and show/hide the snap indicator
+   */
+  const applySnap = useCallback(
+    (imageX: number, imageY: number): [number, number] => {
+      const state = stateRef.current;
+      const snapped = snap?.(imageX, imageY) ?? null;
+
+      if (!snapped) {
+        if (state.snapIndicator) {
+          state.snapIndicator.destroy();
+          state.snapIndicator = null;
+        }
+        return [imageX, imageY];
+      }
+
+      if (!state.snapIndicator && layer) {
+        state.snapIndicator = new Konva.Circle({
+          radius: 5 / scale,
+          stroke: '#33cc66',
+          strokeWidth: 2 / scale,
+          listening: false,
+          name: 'drawing-snap-indicator',
+        });
+        layer.add(state.snapIndicator);
+      }
+      state.snapIndicator?.position({ x: snapped.x, y: snapped.y });
+      return [snapped.x, snapped.y];
+    },
+    [layer, scale, snap]
+  );
+
+  /**
+   * Traced points between the last point and a position (livewire mode),
+   * excluding both ends
+   */
+  const traceTo = useCallback(
+    (imageX: number, imageY: number): number[] => {
+      const path = livewire?.pathTo(imageX, imageY);
+      return path ? path.slice(1, -1).flat() : [];
+    },
+    [livewire]
+  );
+
   /**
    * Handle click to add point or finish line
    */
   const handleClick = useCallback(
-    (imageX: number, imageY: number) => {
+    (rawX: number, rawY: number) => {
       if (!layer) return;
 
+      const [imageX, imageY] = applySnap(rawX, rawY);
       const state = stateRef.current;
       const currentTime = Date.now();
       const timeSinceLastClick = currentTime - state.lastClickTime;
@@ -70,8 +124,12 @@ export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333'
 
       state.lastClickTime = currentTime;
 
-      // Add point to current line
+      // Add point to current line (after the traced segment in livewire mode)
+      if (state.currentPoints.length > 0) {
+        state.currentPoints.push(...traceTo(imageX, imageY));
+      }
       state.currentPoints.push(imageX, imageY);
+      livewire?.setAnchor(imageX, imageY);
 
       if (!state.currentLine) {
         // Create new line
@@ -107,18 +165,20 @@ export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333'
 
       layer.batchDraw();
     },
-    [layer, scale, onComplete, lineColor]
+    [layer, scale, onComplete, lineColor, applySnap, traceTo, livewire]
   );
 
   /**
    * Handle mouse move to update preview line
    */
   const handleMouseMove = useCallback(
-    (imageX: number, imageY: number) => {
+    (rawX: number, rawY: number) => {
       if (!layer) return;
 
+      const [imageX, imageY] = applySnap(rawX, rawY);
       const state = stateRef.current;
       if (!state.currentLine || !state.previewLine || state.currentPoints.length === 0) {
+        layer.batchDraw();
         return;
       }
 
@@ -127,12 +187,12 @@ export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333'
       const lastY = state.currentPoints[state.currentPoints.length - 1];
 
       // Preview line from last point to current mouse position
-      const previewPoints = [lastX, lastY, imageX, imageY];
+      const previewPoints = [lastX, lastY, ...traceTo(imageX, imageY), imageX, imageY];
 
       state.previewLine.points(previewPoints);
       layer.batchDraw();
     },
-    [layer]
+    [layer, applySnap, traceTo]
   );
 
   /**
@@ -147,6 +207,10 @@ export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333'
       if (state.previewLine) {
         state.previewLine.strokeWidth(2 / newScale);
       }
+      if (state.snapIndicator) {
+        state.snapIndicator.radius(5 / newScale);
+        state.snapIndicator.strokeWidth(2 / newScale);
+      }
       layer?.batchDraw();
     },
     [layer]
@@ -168,9 +232,18 @@ export const useLineDrawing = ({ layer, scale, onComplete, lineColor = '#cc3333'
       state.previewLine = null;
     }
 
+    if (state.snapIndicator) {
+      state.snapIndicator.destroy();
+      state.snapIndicator = null;
+    }
+
+    // The tracer is shared between tools; only release it if this tool was drawing
+    if (state.currentPoints.length > 0) {
+      livewire?.clearAnchor();
+    }
     state.currentPoints = [];
     layer?.batchDraw();
-  }, [layer]);
+  }, [layer, livewire]);
 
   /**
    * Cancel drawing
@@ -0,0 +1,188 @@
+/**
+ * useLivewire Hook - Edge-following ("intelligent scissors") tracing
+ *
+ * Provides the tracer the polygon and line tools use in livewire mode. The
+ * cost map is built from the Sobel gradient of the visible area only, sampled
+ * from the displayed tiles at screen resolution, so it stays cheap on large
+ * images; it is rebuilt when
+ * an anchor is placed outside it or the view moves while drawing. Until a map
+ * is ready, paths are null and the drawing tools fall back to straight edges.
+ *
+ * All coordinates are in full-resolution image pixels.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { loadTiledRegionImageData } from '@/utils/imageUtils';
+import { buildCostMap, LivewirePathfinder } from '@/services/livewire';
+import type { LivewireCostMap, LivewireTracer } from '@/services/livewire';
+import type { ImageRect } from './usePromptSegmentation';
+
+export interface UseLivewireOptions {
+  /** Whether livewire mode is on */
+  enabled: boolean;
+  /** Tile cache hash of the displayed image */
+  imageHash: string | null;
+  /** Full-resolution image size */
+  imageWidth: number;
+  imageHeight: number;
+  /** Tile halo of the displayed image's tile cache */
+  tilePadding?: number;
+  /** Visible area of the image */
+  viewport: ImageRect;
+  /** Current zoom (screen pixels per image pixel) */
+  scale: number;
+}
+
+/** Largest side of the cost map, in working pixels */
+const MAX_WORKING_SIZE = 1536;
+
+/** Fraction the viewport is expanded by on each side, so short pans need no new map */
+const VIEWPORT_MARGIN = 0.25;
+
+/** Wait this long after the view stops moving before rebuilding the map (ms) */
+const VIEW_SETTLE_DELAY = 300;
+
+/**
+ * Whether a cost map covers the viewport at (about) screen resolution
+ */
+function coversViewport(
+  map: LivewireCostMap,
+  viewport: ImageRect,
+  imageWidth: number,
+  imageHeight: number,
+  scale: number
+): boolean {
+  const x1 = Math.max(0, viewport.x);
+  const y1 = Math.max(0, viewport.y);
+  const x2 = Math.min(imageWidth, viewport.x + viewport.width);
+  const y2 = Math.min(imageHeight, viewport.y + viewport.height);
+  const covered =
+    x1 >= map.x && y1 >= map.y && x2 <= map.x + map.width / map.scale && y2 <= map.y + map.height / map.scale;
+  const wanted = Math.min(1, scale);
+  return covered && map.scale >= wanted / 2 && map.scale <= wanted * 2;
+}
+
+export function useLivewire({
+  enabled,
+  imageHash,
+  imageWidth,
+  imageHeight,
+  tilePadding,
+  viewport,
+  scale,
+}: UseLivewireOptions) {
+  // Refs for values read inside async work and drawing callbacks
+  const mapRef = useRef<LivewireCostMap | null>(null);
+  const pathfinderRef = useRef<LivewirePathfinder | null>(null);
+  const anchorRef = useRef<{ x: number; y: number } | null>(null);
+  const requestIdRef = useRef(0);
+  const viewRef = useRef({ imageHash, imageWidth, imageHeight, tilePadding, viewport, scale });
+  viewRef.current = { imageHash, imageWidth, imageHeight, tilePadding, viewport, scale };
+
+  /**
+   * Start a path search from the anchor on the current map
+   */
+  const restartSearch = useCallback(() => {
+    const map = mapRef.current;
+    const anchor = anchorRef.current;
+    if (!map || !anchor) {
+      pathfinderRef.current = null;
+      return;
+    }
+    const pathfinder = new LivewirePathfinder(map, anchor.x, anchor.y);
+    pathfinderRef.current = pathfinder.contains(anchor.x, anchor.y) ? pathfinder : null;
+  }, []);
+
+  /**
+   * Build the cost map for the visible area (and the anchor)
+   */
+  const loadCostMap = useCallback(async () => {
+    const {
+      imageHash: hash,
+      imageWidth: width,
+      imageHeight: height,
+      tilePadding: padding,
+      viewport: view,
+      scale: zoom,
+    } = viewRef.current;
+    if (!hash || !window.api) return;
+    const requestId = ++requestIdRef.current;
+
+    let x1 = view.x - view.width * VIEWPORT_MARGIN;
+    let y1 = view.y - view.height * VIEWPORT_MARGIN;
+    let x2 = view.x + view.width * (1 + VIEWPORT_MARGIN);
+    let y2 = view.y + view.height * (1 + VIEWPORT_MARGIN);
+    const anchor = anchorRef.current;
+    if (anchor) {
+      x1 = Math.min(x1, anchor.x);
+      y1 = Math.min(y1, anchor.y);
+      x2 = Math.max(x2, anchor.x + 1);
+      y2 = Math.max(y2, anchor.y + 1);
+    }
+    x1 = Math.max(0, Math.floor(x1));
+    y1 = Math.max(0, Math.floor(y1));
+    x2 = Math.min(width, Math.ceil(x2));
+    y2 = Math.min(height, Math.ceil(y2));
+    if (x2 <= x1 || y2 <= y1) return;
+
+    const region: ImageRect = { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+    const mapScale = Math.min(1, zoom, MAX_WORKING_SIZE / Math.max(region.width, region.height));
+    const mapWidth = Math.max(1, Math.round(region.width * mapScale));
+    const mapHeight = Math.max(1, Math.round(region.height * mapScale));
+
+    try {
+      const imageData = await loadTiledRegionImageData(
+        { hash, width, height, tilePadding: padding },
+        region,
+        mapWidth,
+        mapHeight
+      );
+      if (requestId !== requestIdRef.current) return;
+
+      mapRef.current = buildCostMap(imageData, region.x, region.y, mapWidth / region.width);
+      restartSearch();
+    } catch (err) {
+      console.error('[Livewire] Failed to build edge cost map:', err);
+    }
+  }, [restartSearch]);
+
+  // A new image or turning the mode off invalidates the map
+  useEffect(() => {
+    requestIdRef.current++;
+    mapRef.current = null;
+    pathfinderRef.current = null;
+  }, [imageHash, enabled]);
+
+  // Rebuild the map for the new view once panning/zooming stops while drawing
+  useEffect(() => {
+    if (!enabled || !anchorRef.current) return;
+    const map = mapRef.current;
+    if (map && coversViewport(map, viewport, imageWidth, imageHeight, scale)) return;
+
+    const timer = setTimeout(() => loadCostMap(), VIEW_SETTLE_DELAY);
+    return () => clearTimeout(timer);
+  }, [enabled, viewport, imageWidth, imageHeight, scale, loadCostMap]);
+
+  const tracer = useMemo<LivewireTracer>(
+    () => ({
+      setAnchor: (x, y) => {
+        anchorRef.current = { x, y };
+        restartSearch();
+        // Keep tracing on the current map while a better one loads
+        const { imageWidth: width, imageHeight: height, viewport: view, scale: zoom } = viewRef.current;
+        const map = mapRef.current;
+        if (!pathfinderRef.current || !map || !coversViewport(map, view, width, height, zoom)) {
+          loadCostMap();
+        }
+      },
+      clearAnchor: () => {
+        anchorRef.current = null;
+        pathfinderRef.current = null;
+      },
+      pathTo: (x, y) => pathfinderRef.current?.pathTo(x, y) ?? null,
+    }),
+    [restartSearch, loadCostMap]
+  );
+
+  return enabled ? tracer : null;
+}
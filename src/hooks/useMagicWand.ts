@@ -0,0 +1,308 @@
+/**
+ * useMagicWand Hook - Region-growing spot tool
+ *
+ * A click flood-fills the homogeneous region around the clicked pixel in the
+ * displayed part of the image, sampled from the displayed tiles at screen
+ * resolution, and previews its outline. Shift+click adds the
+ * region around another pixel, Alt+click subtracts it. Optionally the region
+ * must also be homogeneous in the PPL/XPL sibling image. commit() hands the
+ * outline to onComplete.
+ *
+ * Usage:
+ * On click: handleClick(x, y, { add, subtract }, viewport)
+ * Enter: commit()   Escape: cancel()
+ *
+ * All coordinates are in full-resolution image pixels.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { buildWandMask, traceWandOutline } from '@/services/magicWand';
+import type { MagicWandOptions, WandSeed, WandSeedMode } from '@/services/magicWand';
+import { loadTiledRegionImageData } from '@/utils/imageUtils';
+import type { TiledImageSource } from '@/utils/imageUtils';
+import type { ImageRect } from './usePromptSegmentation';
+
+/** A wand click, in image pixels */
+export interface MagicWandSeed {
+  x: number;
+  y: number;
+  mode: WandSeedMode;
+}
+
+/** Outline of the selected region, in image pixels */
+export interface MagicWandRegion {
+  points: Array<{ X: number; Y: number }>;
+  areaPixels: number;
+  /** Separate pieces in the region; only the largest becomes the spot */
+  pieceCount: number;
+}
+
+/** Tile cache entry of the sibling image */
+export type MagicWandSiblingImage = TiledImageSource;
+
+export type MagicWandStatus = 'idle' | 'running' | 'ready' | 'error';
+
+export interface UseMagicWandOptions {
+  /** Tile cache hash of the displayed image */
+  imageHash: string | null;
+  /** Full-resolution image size */
+  imageWidth: number;
+  imageHeight: number;
+  /** Tile halo of the displayed image's tile cache */
+  tilePadding?: number;
+  /** Current zoom (the wand samples at screen resolution) */
+  scale: number;
+  /** Tolerance, smoothing and simplification */
+  options: MagicWandOptions;
+  /** Loads the PPL/XPL sibling image (null if the micrograph has none) */
+  loadSiblingImage: (() => Promise<MagicWandSiblingImage | null>) | null;
+  /** Called with the region when the user commits */
+  onComplete: (region: MagicWandRegion) => void;
+}
+
+/** Largest side of the sampled area, in working pixels */
+const MAX_WORKING_SIZE = 2048;
+
+/** Displayed area and sibling sampled for the current region */
+interface WandContext {
+  images: ImageData[];
+  /** Sampled area in image pixels */
+  region: ImageRect;
+  /** Working pixels per image pixel */
+  scale: number;
+  /** Whether images includes the sibling */
+  withSibling: boolean;
+}
+
+function containsPoint(rect: ImageRect, x: number, y: number): boolean {
+  return x >= rect.x && y >= rect.y && x < rect.x + rect.width && y < rect.y + rect.height;
+}
+
+export function useMagicWand({
+  imageHash,
+  imageWidth,
+  imageHeight,
+  tilePadding,
+  scale,
+  options,
+  loadSiblingImage,
+  onComplete,
+}: UseMagicWandOptions) {
+  // State for rendering
+  const [seeds, setSeeds] = useState<MagicWandSeed[]>([]);
+  const [region, setRegion] = useState<MagicWandRegion | null>(null);
+  const [status, setStatus] = useState<MagicWandStatus>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Refs for values read inside async work and event handlers
+  const contextRef = useRef<WandContext | null>(null);
+  const seedsRef = useRef<MagicWandSeed[]>([]);
+  const regionRef = useRef<MagicWandRegion | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const requestIdRef = useRef(0);
+
+  const reset = useCallback(() => {
+    requestIdRef.current++;
+    contextRef.current = null;
+    seedsRef.current = [];
+    regionRef.current = null;
+    setSeeds([]);
+    setRegion(null);
+    setStatus('idle');
+    setMessage(null);
+  }, []);
+
+  // A new image invalidates the sampled area
+  useEffect(() => {
+    reset();
+  }, [imageHash, reset]);
+
+  /**
+   * Sample the area (and the sibling) the wand works on
+   */
+  const loadContext = useCallback(
+    async (area: ImageRect, withSibling: boolean): Promise<WandContext> => {
+      if (!imageHash) throw new Error('Image is not loaded');
+
+      const x1 = Math.max(0, Math.floor(area.x));
+      const y1 = Math.max(0, Math.floor(area.y));
+      const x2 = Math.min(imageWidth, Math.ceil(area.x + area.width));
+      const y2 = Math.min(imageHeight, Math.ceil(area.y + area.height));
+      const clipped: ImageRect = { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+      if (clipped.width <= 0 || clipped.height <= 0) throw new Error('Click inside the image');
+
+      // Screen resolution, never more than the image itself
+      const contextScale = Math.min(1, scale, MAX_WORKING_SIZE / Math.max(clipped.width, clipped.height));
+      const width = Math.max(1, Math.round(clipped.width * contextScale));
+      const height = Math.max(1, Math.round(clipped.height * contextScale));
+
+      const image: TiledImageSource = { hash: imageHash, width: imageWidth, height: imageHeight, tilePadding };
+      const images = [await loadTiledRegionImageData(image, clipped, width, height)];
+
+      if (withSibling) {
+        const sibling = await loadSiblingImage?.();
+        if (!sibling) throw new Error('Sibling image is not available');
+        // Siblings with matching aspect ratios may differ in size
+        const ratio = sibling.width / imageWidth;
+        const siblingRegion: ImageRect = {
+          x: clipped.x * ratio,
+          y: clipped.y * ratio,
+          width: clipped.width * ratio,
+          height: clipped.height * ratio,
+        };
+        images.push(await loadTiledRegionImageData(sibling, siblingRegion, width, height));
+      }
+
+      return { images, region: clipped, scale: width / clipped.width, withSibling };
+    },
+    [imageHash, imageWidth, imageHeight, tilePadding, scale, loadSiblingImage]
+  );
+
+  /**
+   * Grow the region from the clicks and trace its outline
+   */
+  const updateRegion = useCallback(() => {
+    const context = contextRef.current;
+    if (!context) return;
+
+    const { width, height } = context.images[0];
+    const currentOptions = optionsRef.current;
+    const workingSeeds: WandSeed[] = seedsRef.current.map((seed) => ({
+      x: (seed.x - context.region.x) * context.scale,
+      y: (seed.y - context.region.y) * context.scale,
+      mode: seed.mode,
+    }));
+
+    const mask = buildWandMask(context.images, workingSeeds, currentOptions);
+    // Tolerance is in image pixels, but never finer than the sampled pixels (staircase edges)
+    const tolerance = Math.max(1, currentOptions.simplifyTolerance * context.scale);
+    const outline = traceWandOutline(mask, width, height, tolerance);
+
+    if (!outline) {
+      regionRef.current = null;
+      setRegion(null);
+      setStatus('ready');
+      setMessage('Region is empty');
+      return;
+    }
+
+    const next: MagicWandRegion = {
+      points: outline.contour.map((p) => ({
+        X: Math.round(context.region.x + p.x / context.scale),
+        Y: Math.round(context.region.y + p.y / context.scale),
+      })),
+      areaPixels: outline.areaPixels / (context.scale * context.scale),
+      pieceCount: outline.pieceCount,
+    };
+    regionRef.current = next;
+    setRegion(next);
+    setStatus('ready');
+    setMessage(
+      outline.pieceCount > 1
+        ? `Region has ${outline.pieceCount} separate pieces; only the largest will be kept`
+        : null
+    );
+  }, []);
+
+  /**
+   * Update the region after the clicks change, sampling a new area if needed
+   */
+  const run = useCallback(
+    async (nextSeeds: MagicWandSeed[], area: ImageRect | null) => {
+      const requestId = ++requestIdRef.current;
+      seedsRef.current = nextSeeds;
+      setSeeds(nextSeeds);
+
+      const withSibling = optionsRef.current.useSibling && loadSiblingImage !== null;
+      try {
+        if (area || !contextRef.current || contextRef.current.withSibling !== withSibling) {
+          setStatus('running');
+          setMessage('Sampling image...');
+          const context = await loadContext(area ?? contextRef.current!.region, withSibling);
+          if (requestId !== requestIdRef.current) return;
+          contextRef.current = context;
+        }
+        updateRegion();
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('[MagicWand] Region growing failed:', err);
+        contextRef.current = null;
+        regionRef.current = null;
+        setRegion(null);
+        setStatus('error');
+        setMessage(err instanceof Error ? err.message : 'Region growing failed');
+      }
+    },
+    [loadContext, loadSiblingImage, updateRegion]
+  );
+
+  // Store run in ref so zooming does not redo the region
+  const runRef = useRef(run);
+  runRef.current = run;
+
+  // Redo the region when the tolerance, smoothing or sibling option changes
+  useEffect(() => {
+    if (seedsRef.current.length > 0 && contextRef.current) {
+      runRef.current(seedsRef.current, null);
+    }
+  }, [options]);
+
+  const handleClick = useCallback(
+    (x: number, y: number, modifiers: { add: boolean; subtract: boolean }, viewport: ImageRect) => {
+      if (x < 0 || y < 0 || x >= imageWidth || y >= imageHeight) return;
+
+      const context = contextRef.current;
+      const refine = (modifiers.add || modifiers.subtract) && seedsRef.current.length > 0 && context;
+
+      // A plain click starts a new region in the displayed area
+      if (!refine) {
+        regionRef.current = null;
+        setRegion(null);
+        run([{ x, y, mode: 'add' }], viewport);
+        return;
+      }
+
+      const seed: MagicWandSeed = { x, y, mode: modifiers.subtract ? 'subtract' : 'add' };
+      const nextSeeds = [...seedsRef.current, seed];
+
+      // Sample a larger area if the view moved since the first click
+      if (!containsPoint(context.region, x, y)) {
+        const x1 = Math.min(context.region.x, viewport.x);
+        const y1 = Math.min(context.region.y, viewport.y);
+        const x2 = Math.max(context.region.x + context.region.width, viewport.x + viewport.width);
+        const y2 = Math.max(context.region.y + context.region.height, viewport.y + viewport.height);
+        run(nextSeeds, { x: x1, y: y1, width: x2 - x1, height: y2 - y1 });
+        return;
+      }
+
+      run(nextSeeds, null);
+    },
+    [imageWidth, imageHeight, run]
+  );
+
+  /**
+   * Hand the previewed region to onComplete and clear the clicks
+   */
+  const commit = useCallback((): boolean => {
+    const current = regionRef.current;
+    if (!current || current.points.length < 3) return false;
+    onComplete(current);
+    reset();
+    return true;
+  }, [onComplete, reset]);
+
+  return {
+    /** Clicks so far */
+    seeds,
+    /** Previewed region */
+    region,
+    status,
+    message,
+    /** Whether there is a region to commit or cancel */
+    isActive: seeds.length > 0,
+    handleClick,
+    commit,
+    cancel: reset,
+  };
+}
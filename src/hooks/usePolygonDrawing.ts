@@ -7,41 +7,95 @@
  * - Preview line shows closed polygon shape while drawing
  * - Double-click to finish (500ms threshold)
  * - Stroke width scales with zoom
+ * - Optional snapping onto neighboring spots (topology snapping)
+ * - Optional livewire mode: edges between clicks follow image edges
  */
 
 import { useRef, useCallback } from 'react';
 import Konva from 'konva';
+import type { LivewireTracer } from '@/services/livewire';
 
 interface PolygonDrawingState {
   currentPolygon: Konva.Line | null;
   previewLine: Konva.Line | null;
   currentPoints: number[];
   lastClickTime: number;
+  snapIndicator: Konva.Circle | null;
 }
 
 interface UsePolygonDrawingOptions {
   layer: Konva.Layer | null;
   scale: number;
   onComplete: (points: number[]) => void;
+  /** Returns the snapped position for an image coordinate, or null to keep it */
+  snap?: (imageX: number, imageY: number) => { x: number; y: number } | null;
+  /** Livewire tracer; when set, edges follow the strongest image edges */
+  livewire?: LivewireTracer | null;
 }
 
 const DOUBLE_CLICK_THRESHOLD = 500; // 500ms threshold for double-click
 
-export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawingOptions) => {
+export const usePolygonDrawing = ({ layer, scale, onComplete, snap, livewire }: UsePolygonDrawingOptions) => {
   const stateRef = useRef<PolygonDrawingState>({
     currentPolygon: null,
     previewLine: null,
     currentPoints: [],
     lastClickTime: 0,
+    snapIndicator: null,
   });
 
+  /**
+   * Apply snapping to a position and show/hide the snap indicator
+   */
+  const applySnap = useCallback(
+    (imageX: number, imageY: number): [number, number] => {
+      const state = stateRef.current;
+      const snapped = snap?.(imageX, imageY) ?? null;
+
+      if (!snapped) {
+        if (state.snapIndicator) {
+          state.snapIndicator.destroy();
+          state.snapIndicator = null;
+        }
+        return [imageX, imageY];
+      }
+
+      if (!state.snapIndicator && layer) {
+        state.snapIndicator = new Konva.Circle({
+          radius: 5 / scale,
+          stroke: '#33cc66',
+          strokeWidth: 2 / scale,
+          listening: false,
+          name: 'drawing-snap-indicator',
+        });
+        layer.add(state.snapIndicator);
+      }
+      state.snapIndicator?.position({ x: snapped.x, y: snapped.y });
+      return [snapped.x, snapped.y];
+    },
+    [layer, scale, snap]
+  );
+
+  /**
+   * Traced points between the last vertex and a position (livewire mode),
+   * excluding both ends
+   */
+  const traceTo = useCallback(
+    (imageX: number, imageY: number): number[] => {
+      const path = livewire?.pathTo(imageX, imageY);
+      return path ? path.slice(1, -1).flat() : [];
+    },
+    [livewire]
+  );
+
   /**
    * Handle click to add vertex or finish polygon
    */
   const handleClick = useCallback(
-    (imageX: number, imageY: number) => {
+    (rawX: number, rawY: number) => {
       if (!layer) return;
 
+      const [imageX, imageY] = applySnap(rawX, rawY);
       const state = stateRef.current;
       const currentTime = Date.now();
       const timeSinceLastClick = currentTime - state.lastClickTime;
@@ -57,8 +111,8 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
         // Close the polygon
         state.currentPolygon.closed(true);
 
-        // Get final points
-        const finalPoints = [...state.currentPoints];
+        // Get final points (tracing the closing edge in livewire mode)
+        const finalPoints = [...state.currentPoints, ...traceTo(state.currentPoints[0], state.currentPoints[1])];
 
         // Cleanup
         cleanup();
@@ -72,8 +126,12 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
 
       state.lastClickTime = currentTime;
 
-      // Add point to current polygon
+      // Add point to current polygon (after the traced edge in livewire mode)
+      if (state.currentPoints.length > 0) {
+        state.currentPoints.push(...traceTo(imageX, imageY));
+      }
       state.currentPoints.push(imageX, imageY);
+      livewire?.setAnchor(imageX, imageY);
 
       if (!state.currentPolygon) {
         // Create new polygon
@@ -109,24 +167,27 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
 
       layer.batchDraw();
     },
-    [layer, scale, onComplete]
+    [layer, scale, onComplete, applySnap, traceTo, livewire]
   );
 
   /**
    * Handle mouse move to update preview line
    */
   const handleMouseMove = useCallback(
-    (imageX: number, imageY: number) => {
+    (rawX: number, rawY: number) => {
       if (!layer) return;
 
+      const [imageX, imageY] = applySnap(rawX, rawY);
       const state = stateRef.current;
       if (!state.currentPolygon || !state.previewLine || state.currentPoints.length === 0) {
+        layer.batchDraw();
         return;
       }
 
       // Create preview points: all existing points + current mouse position + back to first point
       const previewPoints = [
         ...state.currentPoints,
+        ...traceTo(imageX, imageY),
         imageX,
         imageY,
         state.currentPoints[0],
@@ -136,7 +197,7 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
       state.previewLine.points(previewPoints);
       layer.batchDraw();
     },
-    [layer]
+    [layer, applySnap, traceTo]
   );
 
   /**
@@ -151,6 +212,10 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
       if (state.previewLine) {
         state.previewLine.strokeWidth(2 / newScale);
       }
+      if (state.snapIndicator) {
+        state.snapIndicator.radius(5 / newScale);
+        state.snapIndicator.strokeWidth(2 / newScale);
+      }
       layer?.batchDraw();
     },
     [layer]
@@ -172,9 +237,18 @@ export const usePolygonDrawing = ({ layer, scale, onComplete }: UsePolygonDrawin
       state.previewLine = null;
     }
 
+    if (state.snapIndicator) {
+      state.snapIndicator.destroy();
+      state.snapIndicator = null;
+    }
+
+    // The tracer is shared between tools; only release it if this tool was drawing
+    if (state.currentPoints.length > 0) {
+      livewire?.clearAnchor();
+    }
     state.currentPoints = [];
     layer?.batchDraw();
-  }, [layer]);
+  }, [layer, livewire]);
 
   /**
    * Cancel drawing
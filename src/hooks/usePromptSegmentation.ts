@@ -0,0 +1,356 @@
+/**
+ * usePromptSegmentation Hook - Click-to-segment grains with FastSAM
+ *
+ * A click on a grain (or a box dragged around it) runs FastSAM on the area
+ * around the viewport and previews the mask that best matches the prompt.
+ * Shift+click adds a point the grain must include, Shift+Alt+click a point
+ * it must exclude; refinements reuse the model output, so only the first
+ * prompt pays for inference. commit() hands the outline to onComplete.
+ *
+ * Usage:
+ * On mousedown: handleMouseDown(x, y, { refine, negative }, viewport)
+ * On mousemove: handleMouseMove(x, y)
+ * On mouseup: handleMouseUp(x, y)
+ * Enter: commit()   Escape: cancel()
+ *
+ * All coordinates are in full-resolution image pixels.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import * as fastsamInference from '@/services/fastsamInference';
+import { loadImageAsImageData } from '@/utils/imageUtils';
+import type { PromptPoint, PromptSession, SegmentationPrompt } from '@/services/fastsamInference';
+import { vectorizeLabels } from '@/services/grainDetection/labelOutlines';
+
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Outline of the segmented grain, in image pixels */
+export interface SegmentedGrain {
+  points: Array<{ X: number; Y: number }>;
+  areaPixels: number;
+  centroid: { X: number; Y: number };
+  confidence: number;
+}
+
+export type PromptSegmentationStatus = 'idle' | 'running' | 'ready' | 'error';
+
+export interface UsePromptSegmentationOptions {
+  /** Tile cache hash of the displayed image */
+  imageHash: string | null;
+  /** Full-resolution image size */
+  imageWidth: number;
+  imageHeight: number;
+  /** Current zoom (to tell a click from a drag) */
+  scale: number;
+  /** Called with the grain when the user commits */
+  onComplete: (grain: SegmentedGrain) => void;
+}
+
+/**
+ * Drags shorter than this (screen pixels) are clicks
+ */
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Fraction the viewport is expanded by on each side to give the model
+ * context around grains at the edge of the view
+ */
+const CONTEXT_MARGIN = 0.25;
+
+/** Outline simplification tolerance, in model-context pixels */
+const SIMPLIFY_TOLERANCE = 1;
+
+/** Mask fragments smaller than this (model-context pixels) are ignored */
+const MIN_REGION_PIXELS = 16;
+
+/** Model input and region image for the current prompt */
+interface SegmentationContext {
+  session: PromptSession;
+  /** Region origin in image pixels */
+  x: number;
+  y: number;
+  /** Context pixels per image pixel */
+  scale: number;
+}
+
+/**
+ * Load the FastSAM model into the renderer if it is not loaded yet
+ */
+async function ensureModelLoaded(): Promise<void> {
+  if (fastsamInference.isModelLoaded()) return;
+
+  const availability = await window.api?.fastsam?.isAvailable();
+  if (!availability?.available) {
+    throw new Error('FastSAM model not found. Download it from the Grain Detection dialog first.');
+  }
+
+  const modelResult = await window.api?.fastsam?.loadModelBytes();
+  if (!modelResult?.success || !modelResult.buffer) {
+    throw new Error(modelResult?.error || 'Failed to load FastSAM model');
+  }
+  await fastsamInference.loadModel(modelResult.buffer);
+}
+
+export function usePromptSegmentation({
+  imageHash,
+  imageWidth,
+  imageHeight,
+  scale,
+  onComplete,
+}: UsePromptSegmentationOptions) {
+  // State for rendering
+  const [prompt, setPrompt] = useState<SegmentationPrompt | null>(null);
+  const [dragBox, setDragBox] = useState<[number, number, number, number] | null>(null);
+  const [grain, setGrain] = useState<SegmentedGrain | null>(null);
+  const [status, setStatus] = useState<PromptSegmentationStatus>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Refs for values read inside async work and event handlers
+  const contextRef = useRef<SegmentationContext | null>(null);
+  const promptRef = useRef<SegmentationPrompt | null>(null);
+  const grainRef = useRef<SegmentedGrain | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const viewportRef = useRef<ImageRect | null>(null);
+  const requestIdRef = useRef(0);
+
+  const reset = useCallback(() => {
+    requestIdRef.current++;
+    contextRef.current = null;
+    promptRef.current = null;
+    grainRef.current = null;
+    dragStartRef.current = null;
+    setPrompt(null);
+    setDragBox(null);
+    setGrain(null);
+    setStatus('idle');
+    setMessage(null);
+  }, []);
+
+  // A new image invalidates the model context
+  useEffect(() => {
+    reset();
+  }, [imageHash, reset]);
+
+  /**
+   * Region around the viewport (and the prompt) that the model sees
+   */
+  const getContextRegion = useCallback(
+    (viewport: ImageRect, next: SegmentationPrompt): ImageRect => {
+      let x1 = viewport.x - viewport.width * CONTEXT_MARGIN;
+      let y1 = viewport.y - viewport.height * CONTEXT_MARGIN;
+      let x2 = viewport.x + viewport.width * (1 + CONTEXT_MARGIN);
+      let y2 = viewport.y + viewport.height * (1 + CONTEXT_MARGIN);
+
+      for (const point of next.points) {
+        x1 = Math.min(x1, point.x);
+        y1 = Math.min(y1, point.y);
+        x2 = Math.max(x2, point.x);
+        y2 = Math.max(y2, point.y);
+      }
+      if (next.box) {
+        x1 = Math.min(x1, next.box[0]);
+        y1 = Math.min(y1, next.box[1]);
+        x2 = Math.max(x2, next.box[2]);
+        y2 = Math.max(y2, next.box[3]);
+      }
+
+      x1 = Math.max(0, Math.floor(x1));
+      y1 = Math.max(0, Math.floor(y1));
+      x2 = Math.min(imageWidth, Math.ceil(x2));
+      y2 = Math.min(imageHeight, Math.ceil(y2));
+      return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+    },
+    [imageWidth, imageHeight]
+  );
+
+  /**
+   * Segment with a prompt, creating the model context first if needed
+   */
+  const runPrompt = useCallback(
+    async (next: SegmentationPrompt, newContext: boolean) => {
+      const requestId = ++requestIdRef.current;
+      promptRef.current = next;
+      setPrompt(next);
+      setStatus('running');
+      setMessage(newContext ? 'Segmenting...' : null);
+
+      try {
+        if (newContext || !contextRef.current) {
+          if (!imageHash || !viewportRef.current) {
+            throw new Error('Image is not loaded');
+          }
+          contextRef.current = null;
+          await ensureModelLoaded();
+
+          const region = getContextRegion(viewportRef.current, next);
+          const loaded = await window.api!.loadImageRegion(imageHash, region, fastsamInference.INPUT_SIZE);
+          const imageData = await loadImageAsImageData(loaded.dataUrl);
+          const session = await fastsamInference.createPromptSession(imageData);
+          if (requestId !== requestIdRef.current) return;
+
+          contextRef.current = {
+            session,
+            x: loaded.x,
+            y: loaded.y,
+            scale: loaded.width / loaded.regionWidth,
+          };
+        }
+
+        const context = contextRef.current!;
+        const toContext = (x: number, y: number) => [(x - context.x) * context.scale, (y - context.y) * context.scale];
+
+        const contextPrompt: SegmentationPrompt = {
+          points: next.points.map((point): PromptPoint => {
+            const [x, y] = toContext(point.x, point.y);
+            return { x, y, positive: point.positive };
+          }),
+          box: next.box
+            ? ([...toContext(next.box[0], next.box[1]), ...toContext(next.box[2], next.box[3])] as [
+                number,
+                number,
+                number,
+                number,
+              ])
+            : null,
+        };
+
+        const result = fastsamInference.segmentWithPrompt(context.session, contextPrompt);
+        if (requestId !== requestIdRef.current) return;
+
+        // Keep the largest connected piece of the mask
+        const regions = result
+          ? vectorizeLabels(
+              Int8Array.from(result.mask, (v) => (v ? 0 : -1)),
+              result.width,
+              result.height,
+              MIN_REGION_PIXELS,
+              SIMPLIFY_TOLERANCE
+            )
+          : [];
+        const largest = regions.reduce<(typeof regions)[number] | null>(
+          (best, region) => (!best || region.areaPixels > best.areaPixels ? region : best),
+          null
+        );
+
+        if (!result || !largest) {
+          grainRef.current = null;
+          setGrain(null);
+          setStatus('ready');
+          setMessage('No grain found for this prompt');
+          return;
+        }
+
+        const segmented: SegmentedGrain = {
+          points: largest.contour.map((p) => ({
+            X: Math.round(context.x + p.x / context.scale),
+            Y: Math.round(context.y + p.y / context.scale),
+          })),
+          areaPixels: largest.areaPixels / (context.scale * context.scale),
+          centroid: {
+            X: Math.round(context.x + largest.centroid.x / context.scale),
+            Y: Math.round(context.y + largest.centroid.y / context.scale),
+          },
+          confidence: result.confidence,
+        };
+        grainRef.current = segmented;
+        setGrain(segmented);
+        setStatus('ready');
+        setMessage(null);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('[PromptSegmentation] Segmentation failed:', err);
+        contextRef.current = null;
+        grainRef.current = null;
+        setGrain(null);
+        setStatus('error');
+        setMessage(err instanceof Error ? err.message : 'Segmentation failed');
+      }
+    },
+    [imageHash, getContextRegion]
+  );
+
+  const handleMouseDown = useCallback(
+    (x: number, y: number, modifiers: { refine: boolean; negative: boolean }, viewport: ImageRect) => {
+      // Refine the current prompt
+      if (modifiers.refine && promptRef.current && contextRef.current) {
+        const point: PromptPoint = { x, y, positive: !modifiers.negative };
+        runPrompt({ ...promptRef.current, points: [...promptRef.current.points, point] }, false);
+        return;
+      }
+
+      dragStartRef.current = { x, y };
+      viewportRef.current = viewport;
+    },
+    [runPrompt]
+  );
+
+  const handleMouseMove = useCallback(
+    (x: number, y: number) => {
+      const start = dragStartRef.current;
+      if (!start) return;
+      if (Math.hypot(x - start.x, y - start.y) * scale < DRAG_THRESHOLD) {
+        setDragBox(null);
+        return;
+      }
+      setDragBox([Math.min(start.x, x), Math.min(start.y, y), Math.max(start.x, x), Math.max(start.y, y)]);
+    },
+    [scale]
+  );
+
+  const handleMouseUp = useCallback(
+    (x: number, y: number) => {
+      const start = dragStartRef.current;
+      if (!start) return;
+      dragStartRef.current = null;
+      setDragBox(null);
+
+      // A new click or box starts a new prompt (and a new model context)
+      const isDrag = Math.hypot(x - start.x, y - start.y) * scale >= DRAG_THRESHOLD;
+      const next: SegmentationPrompt = isDrag
+        ? {
+            points: [],
+            box: [Math.min(start.x, x), Math.min(start.y, y), Math.max(start.x, x), Math.max(start.y, y)],
+          }
+        : { points: [{ x, y, positive: true }], box: null };
+
+      grainRef.current = null;
+      setGrain(null);
+      runPrompt(next, true);
+    },
+    [scale, runPrompt]
+  );
+
+  /**
+   * Hand the previewed grain to onComplete and clear the prompt
+   */
+  const commit = useCallback((): boolean => {
+    const segmented = grainRef.current;
+    if (!segmented || segmented.points.length < 3) return false;
+    onComplete(segmented);
+    reset();
+    return true;
+  }, [onComplete, reset]);
+
+  return {
+    /** Current prompt (points and box) */
+    prompt,
+    /** Box being dragged */
+    dragBox,
+    /** Previewed grain */
+    grain,
+    status,
+    message,
+    /** Whether there is a prompt to commit or cancel */
+    isActive: prompt !== null || dragBox !== null,
+    handleMouseDown,
+    handleMouseMove,
+    handleMouseUp,
+    commit,
+    cancel: reset,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Auto-Registration Features
+ *
+ * Detects keypoints in the overlay and the parent with OpenCV.js (ORB or
+ * AKAZE, both with binary descriptors) and matches them, keeping only
+ * matches clearly better than the next-best candidate (Lowe's ratio test).
+ */
+
+import type { AutoRegistrationSettings, FeatureImage, FeatureMatch } from './types';
+
+// Type declaration for OpenCV.js
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type OpenCVInstance = any;
+
+/** Keypoints ORB keeps per image */
+const ORB_MAX_FEATURES = 3000;
+
+/** A match is kept when its distance is below this fraction of the second-best */
+const MATCH_RATIO = 0.8;
+
+/**
+ * Grayscale image features are detected in: contrast-equalized brightness,
+ * or gradient magnitude when matching on edges.
+ */
+function prepareImage(cv: OpenCVInstance, imageData: ImageData, matchEdges: boolean, mats: unknown[]): OpenCVInstance {
+  const src = cv.matFromImageData(imageData);
+  mats.push(src);
+
+  const gray = new cv.Mat();
+  cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+  mats.push(gray);
+
+  if (!matchEdges) {
+    const clahe = new cv.CLAHE(2.0, new cv.Size(8, 8));
+    const enhanced = new cv.Mat();
+    clahe.apply(gray, enhanced);
+    clahe.delete();
+    mats.push(enhanced);
+    return enhanced;
+  }
+
+  const blurred = new cv.Mat();
+  cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0);
+  mats.push(blurred);
+
+  const gradX = new cv.Mat();
+  const gradY = new cv.Mat();
+  cv.Sobel(blurred, gradX, cv.CV_32F, 1, 0);
+  cv.Sobel(blurred, gradY, cv.CV_32F, 0, 1);
+  mats.push(gradX, gradY);
+
+  const magnitude = new cv.Mat();
+  cv.magnitude(gradX, gradY, magnitude);
+  mats.push(magnitude);
+
+  const edges = new cv.Mat();
+  cv.normalize(magnitude, edges, 0, 255, cv.NORM_MINMAX, cv.CV_8U);
+  mats.push(edges);
+  return edges;
+}
+
+/**
+ * Keypoints (in image pixels) and descriptors of a sampled image area.
+ */
+function detectFeatures(
+  cv: OpenCVInstance,
+  image: FeatureImage,
+  settings: AutoRegistrationSettings,
+  mats: unknown[]
+): { points: Array<[number, number]>; descriptors: OpenCVInstance } {
+  const prepared = prepareImage(cv, image.imageData, settings.matchEdges, mats);
+
+  const detector = settings.detector === 'akaze' ? new cv.AKAZE() : new cv.ORB(ORB_MAX_FEATURES);
+  mats.push(detector);
+
+  const keypoints = new cv.KeyPointVector();
+  const descriptors = new cv.Mat();
+  const noMask = new cv.Mat();
+  mats.push(keypoints, descriptors, noMask);
+  detector.detectAndCompute(prepared, noMask, keypoints, descriptors);
+
+  const points: Array<[number, number]> = [];
+  for (let i = 0; i < keypoints.size(); i++) {
+    const { pt } = keypoints.get(i);
+    points.push([image.x + pt.x / image.scale, image.y + pt.y / image.scale]);
+  }
+  return { points, descriptors };
+}
+
+/**
+ * Match features of the overlay to features of the parent.
+ *
+ * OpenCV must be loaded first (the auto-registration worker loads it).
+ *
+ * @param cv - OpenCV instance
+ * @param overlay - Sampled overlay image
+ * @param parent - Sampled area of the parent the overlay is searched for in
+ * @param settings - Detector and preprocessing
+ * @returns Matches in full-resolution image pixels, best first
+ */
+export function matchFeatures(
+  cv: OpenCVInstance,
+  overlay: FeatureImage,
+  parent: FeatureImage,
+  settings: AutoRegistrationSettings
+): FeatureMatch[] {
+  // Track all Mats and OpenCV objects for cleanup
+  const mats: unknown[] = [];
+
+  try {
+    const overlayFeatures = detectFeatures(cv, overlay, settings, mats);
+    const parentFeatures = detectFeatures(cv, parent, settings, mats);
+    if (overlayFeatures.points.length < 3 || parentFeatures.points.length < 3) return [];
+
+    const matcher = new cv.BFMatcher(cv.NORM_HAMMING, false);
+    const knnMatches = new cv.DMatchVectorVector();
+    mats.push(matcher, knnMatches);
+    matcher.knnMatch(overlayFeatures.descriptors, parentFeatures.descriptors, knnMatches, 2);
+
+    const matches: FeatureMatch[] = [];
+    for (let i = 0; i < knnMatches.size(); i++) {
+      const candidates = knnMatches.get(i);
+      const best = candidates.size() >= 2 ? candidates.get(0) : null;
+      const second = best ? candidates.get(1) : null;
+      candidates.delete();
+      if (!best || best.distance >= MATCH_RATIO * second.distance) continue;
+
+      matches.push({
+        source: overlayFeatures.points[best.queryIdx],
+        target: parentFeatures.points[best.trainIdx],
+        distance: best.distance,
+      });
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  } finally {
+    // Clean up all OpenCV objects
+    for (const mat of mats) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (mat as any).delete();
+      } catch {
+        // Already deleted or not a Mat
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Auto-Registration Service
+ *
+ * Proposes overlay control points from image features: keypoints are
+ * detected and matched with OpenCV.js, RANSAC finds the affine transform
+ * most matches agree with, and a spread of the agreeing matches is returned
+ * for the user to accept or adjust in the registration modal.
+ *
+ * Matching runs in a web worker (worker.ts) so the modal stays responsive.
+ *
+ * Only overlay placement is proposed. PPL/XPL siblings are drawn in one
+ * shared pixel frame with no transform between them (see siblingImageId),
+ * so aligning offset siblings needs a sibling transform in the project
+ * model first and is not handled here.
+ *
+ * @module autoRegistration
+ */
+
+import type { AutoRegistrationSettings, FeatureImage, RegistrationProposal } from './types';
+
+export * from './types';
+export * from './features';
+export * from './ransac';
+export * from './propose';
+
+/**
+ * Propose a registration in the auto-registration worker.
+ *
+ * @param overlay - Sampled overlay image
+ * @param parent - Sampled area of the parent to search
+ * @param overlayWidth - Full-resolution overlay width
+ * @param overlayHeight - Full-resolution overlay height
+ * @param settings - Detector and preprocessing
+ * @throws Error if OpenCV fails to load or too few features match
+ */
+export async function runAutoRegistration(
+  overlay: FeatureImage,
+  parent: FeatureImage,
+  overlayWidth: number,
+  overlayHeight: number,
+  settings: AutoRegistrationSettings
+): Promise<RegistrationProposal> {
+  // Load OpenCV script via IPC (works in both dev and production)
+  let opencvScript: string | null = null;
+  try {
+    opencvScript = (await window.api?.loadOpencvScript()) || null;
+  } catch (err) {
+    console.warn('[AutoRegistration] Failed to load OpenCV via IPC, worker will try fetch:', err);
+  }
+
+  const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    return await new Promise<RegistrationProposal>((resolve, reject) => {
+      worker.onmessage = (event) => {
+        const message = event.data;
+        if (message.type === 'result') {
+          resolve(message.proposal);
+        } else if (message.type === 'error') {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (error) => {
+        console.error('[AutoRegistration] Worker error:', error);
+        reject(new Error('Auto-registration worker failed'));
+      };
+
+      worker.postMessage({
+        type: 'register',
+        overlay,
+        parent,
+        overlayWidth,
+        overlayHeight,
+        settings,
+        opencvScript,
+      });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Auto-Registration Proposal
+ *
+ * Combines feature matching and RANSAC into a registration proposal: the
+ * affine transform most matches agree with, and a spread of the agreeing
+ * matches as control points.
+ */
+
+import { matchFeatures } from './features';
+import { fitAffineRansac, selectControlPoints } from './ransac';
+import type { AutoRegistrationSettings, FeatureImage, RegistrationProposal } from './types';
+
+/** Largest error (working pixels of the parent sample) of a match that agrees */
+const INLIER_THRESHOLD = 3;
+
+/** Fewest agreeing matches for a proposal to be trusted */
+const MIN_INLIERS = 8;
+
+/**
+ * Propose a registration of an overlay onto an area of its parent.
+ *
+ * Both images should be sampled at about the same working size, with the
+ * parent area roughly where the overlay sits, so features appear at similar
+ * scales in both.
+ *
+ * @param cv - OpenCV instance (must be loaded first)
+ * @param overlay - Sampled overlay image
+ * @param parent - Sampled area of the parent
+ * @param overlayWidth - Full-resolution overlay width
+ * @param overlayHeight - Full-resolution overlay height
+ * @param settings - Detector and preprocessing
+ * @throws Error if too few features match consistently
+ */
+export function proposeRegistration(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cv: any,
+  overlay: FeatureImage,
+  parent: FeatureImage,
+  overlayWidth: number,
+  overlayHeight: number,
+  settings: AutoRegistrationSettings
+): RegistrationProposal {
+  const matches = matchFeatures(cv, overlay, parent, settings);
+  console.log(`[AutoRegistration] ${matches.length} matches (${settings.detector}${settings.matchEdges ? ', edges' : ''})`);
+
+  const ransac = fitAffineRansac(matches, INLIER_THRESHOLD / parent.scale);
+  if (!ransac || ransac.inlierCount < MIN_INLIERS) {
+    throw new Error(
+      `Only ${ransac?.inlierCount ?? 0} of ${matches.length} feature matches agree. ` +
+        'Draw a search region around the overlay area, or try AKAZE or edge matching.'
+    );
+  }
+
+  const controlPoints = selectControlPoints(matches, ransac, overlayWidth, overlayHeight);
+  if (controlPoints.length < 3) {
+    throw new Error('Matching features are bunched in one part of the overlay; place points by hand.');
+  }
+
+  console.log(
+    `[AutoRegistration] ${ransac.inlierCount} inliers, RMS ${ransac.rms.toFixed(2)} px, ${controlPoints.length} points proposed`
+  );
+  return {
+    matrix: ransac.matrix,
+    controlPoints,
+    matchCount: matches.length,
+    inlierCount: ransac.inlierCount,
+    rms: ransac.rms,
+    detector: settings.detector,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Auto-Registration RANSAC
+ *
+ * Finds the affine transform most matches agree with, ignoring the many
+ * wrong matches feature matching produces, and picks a spread of the
+ * agreeing matches to propose as control points.
+ */
+
+import { computeAffineMatrix, transformPoint, type AffineMatrix, type ControlPoint } from '@/utils/affineTransform';
+import type { FeatureMatch, RansacResult } from './types';
+
+/** Probability of drawing at least one all-inlier sample */
+const RANSAC_CONFIDENCE = 0.999;
+
+const RANSAC_MAX_ITERATIONS = 5000;
+
+/** Least-squares refits on the inliers after the best sample is found */
+const REFINE_PASSES = 3;
+
+/**
+ * Smallest triangle (fraction of the squared spread of the matches) a sample
+ * may form; thinner ones fit the noise rather than the transform
+ */
+const MIN_SAMPLE_AREA = 1e-3;
+
+/** Grid cells per side that proposed control points are spread over */
+const PROPOSAL_GRID = 3;
+
+/** Closest two proposed control points may be (fraction of the smaller overlay side) */
+const MIN_PROPOSAL_SPACING = 0.12;
+
+/**
+ * Deterministic pseudo-random generator (mulberry32), so the same images
+ * always give the same proposal
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function matchError(matrix: AffineMatrix, match: FeatureMatch): number {
+  const [x, y] = transformPoint(match.source[0], match.source[1], matrix);
+  return Math.hypot(x - match.target[0], y - match.target[1]);
+}
+
+function toControlPoints(matches: FeatureMatch[]): ControlPoint[] {
+  return matches.map((m) => ({ source: m.source, target: m.target }));
+}
+
+/**
+ * Inliers of a transform and their summed squared error
+ */
+function scoreMatrix(
+  matrix: AffineMatrix,
+  matches: FeatureMatch[],
+  threshold: number
+): { inliers: boolean[]; count: number; sumSquares: number } {
+  const inliers = new Array<boolean>(matches.length);
+  let count = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < matches.length; i++) {
+    const error = matchError(matrix, matches[i]);
+    inliers[i] = error <= threshold;
+    if (inliers[i]) {
+      count++;
+      sumSquares += error * error;
+    }
+  }
+  return { inliers, count, sumSquares };
+}
+
+/**
+ * Fit an affine transform to feature matches with RANSAC: fit random
+ * three-match samples, keep the one the most matches agree with, then refit
+ * it to all of them by least squares.
+ *
+ * @param matches - Overlay → parent matches, in image pixels
+ * @param threshold - Largest error (parent pixels) a match may have to count as agreeing
+ * @returns Best transform, or null if no sample could be fitted
+ */
+export function fitAffineRansac(matches: FeatureMatch[], threshold: number): RansacResult | null {
+  const n = matches.length;
+  if (n < 3) return null;
+
+  // Spread of the overlay points, for the degenerate-sample check
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const m of matches) {
+    minX = Math.min(minX, m.source[0]);
+    maxX = Math.max(maxX, m.source[0]);
+    minY = Math.min(minY, m.source[1]);
+    maxY = Math.max(maxY, m.source[1]);
+  }
+  const minArea = MIN_SAMPLE_AREA * Math.max(1, (maxX - minX) * (maxY - minY));
+
+  const random = createRandom(n * 2654435761);
+  let best: { matrix: AffineMatrix; count: number; sumSquares: number } | null = null;
+  let iterations = RANSAC_MAX_ITERATIONS;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const i = Math.floor(random() * n);
+    const j = Math.floor(random() * n);
+    const k = Math.floor(random() * n);
+    if (i === j || j === k || i === k) continue;
+
+    const [x1, y1] = matches[i].source;
+    const [x2, y2] = matches[j].source;
+    const [x3, y3] = matches[k].source;
+    if (Math.abs((x2 - x1) * (y3 - y1) - (x3 - x1) * (y2 - y1)) / 2 < minArea) continue;
+
+    let matrix: AffineMatrix;
+    try {
+      matrix = computeAffineMatrix(toControlPoints([matches[i], matches[j], matches[k]]));
+    } catch {
+      continue;
+    }
+
+    const { count, sumSquares } = scoreMatrix(matrix, matches, threshold);
+    if (!best || count > best.count || (count === best.count && sumSquares < best.sumSquares)) {
+      best = { matrix, count, sumSquares };
+
+      // Fewer iterations are needed once a large share of matches agree
+      const inlierRatio = count / n;
+      const allInlierSample = inlierRatio ** 3;
+      if (allInlierSample > 0 && allInlierSample < 1) {
+        const needed = Math.ceil(Math.log(1 - RANSAC_CONFIDENCE) / Math.log(1 - allInlierSample));
+        iterations = Math.min(iterations, Math.max(needed, iter + 1));
+      } else if (allInlierSample >= 1) {
+        break;
+      }
+    }
+  }
+
+  if (!best || best.count < 3) return null;
+
+  // Refit to all inliers; the inlier set can grow as the fit improves
+  let matrix = best.matrix;
+  let scored = scoreMatrix(matrix, matches, threshold);
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    let refit: AffineMatrix;
+    try {
+      refit = computeAffineMatrix(toControlPoints(matches.filter((_, index) => scored.inliers[index])));
+    } catch {
+      break;
+    }
+    const rescored = scoreMatrix(refit, matches, threshold);
+    if (rescored.count < scored.count) break;
+    matrix = refit;
+    scored = rescored;
+  }
+
+  if (scored.count < 3) return null;
+  return {
+    matrix,
+    inliers: scored.inliers,
+    inlierCount: scored.count,
+    rms: Math.sqrt(scored.sumSquares / scored.count),
+  };
+}
+
+/**
+ * Pick inlier matches spread over the overlay to propose as control points:
+ * the one nearest the center of each cell of a grid, skipping any too close
+ * to one already picked.
+ *
+ * @param matches - All matches
+ * @param ransac - RANSAC result for the matches
+ * @param overlayWidth - Overlay image width
+ * @param overlayHeight - Overlay image height
+ */
+export function selectControlPoints(
+  matches: FeatureMatch[],
+  ransac: RansacResult,
+  overlayWidth: number,
+  overlayHeight: number
+): ControlPoint[] {
+  const cellWidth = overlayWidth / PROPOSAL_GRID;
+  const cellHeight = overlayHeight / PROPOSAL_GRID;
+  const minSpacing = Math.min(overlayWidth, overlayHeight) * MIN_PROPOSAL_SPACING;
+  const picked: FeatureMatch[] = [];
+
+  for (let row = 0; row < PROPOSAL_GRID; row++) {
+    for (let col = 0; col < PROPOSAL_GRID; col++) {
+      const centerX = (col + 0.5) * cellWidth;
+      const centerY = (row + 0.5) * cellHeight;
+      let nearest: FeatureMatch | null = null;
+      let nearestDistance = Infinity;
+
+      for (let i = 0; i < matches.length; i++) {
+        if (!ransac.inliers[i]) continue;
+        const [x, y] = matches[i].source;
+        if (Math.floor(x / cellWidth) !== col || Math.floor(y / cellHeight) !== row) continue;
+        if (picked.some((p) => Math.hypot(p.source[0] - x, p.source[1] - y) < minSpacing)) continue;
+
+        const distance = Math.hypot(x - centerX, y - centerY);
+        if (distance < nearestDistance) {
+          nearest = matches[i];
+          nearestDistance = distance;
+        }
+      }
+
+      if (nearest) picked.push(nearest);
+    }
+  }
+
+  return toControlPoints(picked);
+}
@@ -0,0 +1,93 @@
+/**
+ * Auto-Registration Types
+ *
+ * Types for proposing overlay control points from matched image features
+ * instead of clicking them by hand.
+ */
+
+import type { AffineMatrix, ControlPoint } from '@/utils/affineTransform';
+import type { Pair } from '@/services/grainDetection/geometry';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * OpenCV keypoint detector. ORB is fast; AKAZE finds more stable points in
+ * low-contrast or noisy images at the cost of speed.
+ */
+export type FeatureDetector = 'orb' | 'akaze';
+
+export interface AutoRegistrationSettings {
+  detector: FeatureDetector;
+  /**
+   * Match on gradient magnitude instead of brightness, so images that show
+   * the same grain boundaries in different colors (PPL against XPL) still
+   * match
+   */
+  matchEdges: boolean;
+}
+
+export const DEFAULT_AUTO_REGISTRATION_SETTINGS: AutoRegistrationSettings = {
+  detector: 'orb',
+  matchEdges: false,
+};
+
+// ============================================================================
+// IMAGES AND MATCHES
+// ============================================================================
+
+/**
+ * A sampled area of an image that features are detected in
+ */
+export interface FeatureImage {
+  imageData: ImageData;
+  /** Origin of the sampled area in image pixels */
+  x: number;
+  y: number;
+  /** Working pixels per image pixel */
+  scale: number;
+}
+
+/**
+ * A keypoint in the overlay matched to one in the parent, in full-resolution
+ * image pixels
+ */
+export interface FeatureMatch {
+  source: Pair;
+  target: Pair;
+  /** Descriptor distance (Hamming bits) */
+  distance: number;
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/**
+ * Affine transform found by RANSAC, with the matches that agree with it
+ */
+export interface RansacResult {
+  matrix: AffineMatrix;
+  /** Per match: whether it is within the threshold of the transform */
+  inliers: boolean[];
+  inlierCount: number;
+  /** RMS error of the inliers, in parent pixels */
+  rms: number;
+}
+
+/**
+ * Proposed registration: a spread of inlier matches to use as control
+ * points, and the transform fitted to all inliers
+ */
+export interface RegistrationProposal {
+  matrix: AffineMatrix;
+  controlPoints: ControlPoint[];
+  /** Matches that passed the ratio test */
+  matchCount: number;
+  /** Matches that agree with the transform */
+  inlierCount: number;
+  /** RMS error of the inliers, in parent pixels */
+  rms: number;
+  detector: FeatureDetector;
+}
@@ -0,0 +1,55 @@
+/**
+ * Auto-Registration Web Worker
+ *
+ * Runs OpenCV feature matching and RANSAC in a background thread
+ * to prevent UI blocking.
+ */
+
+import { loadOpenCVInWorker } from '@/services/grainDetection/workerOpenCV';
+import { proposeRegistration } from './propose';
+import type { AutoRegistrationSettings, FeatureImage, RegistrationProposal } from './types';
+
+// Worker message types
+interface RegistrationRequest {
+  type: 'register';
+  overlay: FeatureImage;
+  parent: FeatureImage;
+  overlayWidth: number;
+  overlayHeight: number;
+  settings: AutoRegistrationSettings;
+  opencvScript?: string; // OpenCV script content passed from main thread (for production)
+}
+
+interface RegistrationResponse {
+  type: 'result';
+  proposal: RegistrationProposal;
+}
+
+interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+// OpenCV instance
+let cv: any = null;
+
+// Message handler
+self.onmessage = async (event: MessageEvent<RegistrationRequest>) => {
+  const { type, overlay, parent, overlayWidth, overlayHeight, settings, opencvScript } = event.data;
+
+  if (type === 'register') {
+    try {
+      cv = await loadOpenCVInWorker(opencvScript);
+
+      const proposal = proposeRegistration(cv, overlay, parent, overlayWidth, overlayHeight, settings);
+      self.postMessage({ type: 'result', proposal } as RegistrationResponse);
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Auto-registration failed',
+      } as ErrorMessage);
+    }
+  }
+};
+
+export {};
@@ -0,0 +1,308 @@
+/**
+ * COCO Dataset Export
+ *
+ * Turns a project's classified polygon spots into COCO instance-segmentation
+ * datasets. The renderer plans the export (images, crops, annotations and
+ * the train/validation split); the main process crops the images and writes
+ * the files.
+ *
+ * Spot shapes are clipped to each image, so a grain cut by a tile edge
+ * (or a spot with several polygons) becomes one annotation per visible
+ * piece. COCO polygons cannot describe holes, so a piece's segmentation is
+ * its outer ring while its area excludes the holes.
+ *
+ * @module cocoDataset/export
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type { MicrographMetadata, ProjectMetadata, Spot } from '@/types/project-types';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import { getSpotMineral } from '@/services/pointCounting/statistics';
+import { planDetectionWindows } from '@/services/grainDetection/tiled';
+import {
+  type ClipMultiPolygon,
+  type ClipPolygon,
+  type Pair,
+  ringBbox,
+} from '@/services/grainDetection/geometry';
+import { clipPolygonArea, spotToMultiPolygon } from '@/utils/spotPolygons';
+import type {
+  CocoAnnotation,
+  CocoCategory,
+  CocoDataset,
+  CocoExportOptions,
+  CocoExportPlan,
+  CocoImageJob,
+  CocoSourceCategory,
+  CocoSplit,
+} from './types';
+
+/**
+ * Clipped pieces smaller than this (square pixels) are slivers, not grains.
+ */
+const MIN_PIECE_AREA = 16;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface MicrographEntry {
+  micrograph: MicrographMetadata;
+  sampleId: string;
+}
+
+function collectMicrographs(project: ProjectMetadata): MicrographEntry[] {
+  const entries: MicrographEntry[] = [];
+  for (const dataset of project.datasets || []) {
+    for (const sample of dataset.samples || []) {
+      for (const micrograph of sample.micrographs || []) {
+        entries.push({ micrograph, sampleId: sample.id });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Source class of a spot (first mineral, or first tag with a name).
+ */
+function getSourceCategory(
+  spot: Spot,
+  source: CocoExportOptions['categorySource'],
+  tagNames: Map<string, string>
+): string | null {
+  if (source === 'mineral') return getSpotMineral(spot);
+  for (const tagId of spot.tags || []) {
+    const name = tagNames.get(tagId);
+    if (name) return name;
+  }
+  return null;
+}
+
+function getTagNames(project: ProjectMetadata): Map<string, string> {
+  return new Map((project.tags || []).filter((tag) => tag.name).map((tag) => [tag.id, tag.name]));
+}
+
+/** FNV-1a hash, used for a split that is stable across runs */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Assign groups to splits: groups are shuffled by a seeded hash and the
+ * first validationFraction of them go to validation (at least one when
+ * the fraction is non-zero and there is more than one group).
+ */
+function assignSplits(groups: string[], fraction: number, seed: number): Map<string, CocoSplit> {
+  const ordered = [...new Set(groups)].sort(
+    (a, b) => hashString(`${seed}:${a}`) - hashString(`${seed}:${b}`) || a.localeCompare(b)
+  );
+  let validationCount = Math.round(ordered.length * fraction);
+  if (fraction > 0 && validationCount === 0 && ordered.length > 1) validationCount = 1;
+  if (validationCount >= ordered.length && fraction < 1) validationCount = ordered.length - 1;
+
+  return new Map(ordered.map((group, i) => [group, i < validationCount ? 'val' : 'train']));
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\s]+/g, '_').replace(/^_+|_+$/g, '') || 'micrograph';
+}
+
+/**
+ * Clip a shape to an image rectangle and express the pieces relative to
+ * its top-left corner.
+ */
+function clipToRegion(
+  shape: ClipMultiPolygon,
+  region: { x: number; y: number; width: number; height: number }
+): ClipPolygon[] {
+  const { x, y, width, height } = region;
+  const rect: Pair[] = [
+    [x, y],
+    [x + width, y],
+    [x + width, y + height],
+    [x, y + height],
+    [x, y],
+  ];
+
+  let clipped: ClipMultiPolygon;
+  try {
+    clipped = polygonClipping.intersection(shape, [rect]) as ClipMultiPolygon;
+  } catch {
+    return [];
+  }
+
+  return clipped
+    .map((polygon) => polygon.map((ring) => ring.map(([px, py]) => [px - x, py - y] as Pair)))
+    .filter((piece) => piece[0].length >= 4 && clipPolygonArea(piece) >= MIN_PIECE_AREA);
+}
+
+/**
+ * COCO polygon: flat coordinate list without the closing vertex.
+ */
+function toCocoPolygon(ring: Pair[]): number[] {
+  const flat: number[] = [];
+  for (let i = 0; i < ring.length - 1; i++) {
+    flat.push(Math.round(ring[i][0] * 100) / 100, Math.round(ring[i][1] * 100) / 100);
+  }
+  return flat;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * List the classes found on the project's polygon spots, for building a
+ * class remapping.
+ */
+export function listSourceCategories(
+  project: ProjectMetadata,
+  source: CocoExportOptions['categorySource']
+): CocoSourceCategory[] {
+  const tagNames = getTagNames(project);
+  const counts = new Map<string, number>();
+
+  for (const { micrograph } of collectMicrographs(project)) {
+    for (const spot of micrograph.spots || []) {
+      if (!isPolygonSpot(spot.geometry, spot.geometryType)) continue;
+      const name = getSourceCategory(spot, source, tagNames);
+      if (name) counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Plan a COCO export of the project's classified polygon spots.
+ *
+ * @param project - Project to export
+ * @param options - Classes, images and split
+ * @returns Image crops for the main process and the COCO datasets per split
+ */
+export function buildCocoExportPlan(project: ProjectMetadata, options: CocoExportOptions): CocoExportPlan {
+  const tagNames = getTagNames(project);
+  const entries = collectMicrographs(project);
+
+  // Categories after remapping, numbered from 1 in name order
+  const targetOf = (name: string): string | null => {
+    if (!(name in options.classMap)) return name;
+    const target = options.classMap[name];
+    return target && target.trim() ? target.trim() : null;
+  };
+  const targetNames = new Set<string>();
+  for (const { name } of listSourceCategories(project, options.categorySource)) {
+    const target = targetOf(name);
+    if (target) targetNames.add(target);
+  }
+  const categories: CocoCategory[] = [...targetNames]
+    .sort((a, b) => a.localeCompare(b))
+    .map((name, i) => ({ id: i + 1, name, supercategory: options.categorySource }));
+  const categoryIds = new Map(categories.map((category) => [category.name, category.id]));
+
+  const splits = assignSplits(
+    entries.map((entry) => (options.splitBy === 'sample' ? entry.sampleId : entry.micrograph.id)),
+    options.validationFraction,
+    options.seed
+  );
+
+  const createdAt = new Date().toISOString();
+  const emptyDataset = (description: string): CocoDataset => ({
+    info: { description: `${project.name} (${description})`, version: '1.0', date_created: createdAt },
+    images: [],
+    annotations: [],
+    categories,
+  });
+  const datasets: Record<CocoSplit, CocoDataset> = {
+    train: emptyDataset('train'),
+    val: emptyDataset('validation'),
+  };
+  const images: CocoImageJob[] = [];
+  const skippedMicrographs: string[] = [];
+  let nextImageId = 1;
+  let nextAnnotationId = 1;
+
+  for (const { micrograph, sampleId } of entries) {
+    const labelled = (micrograph.spots || []).flatMap((spot) => {
+      if (!isPolygonSpot(spot.geometry, spot.geometryType)) return [];
+      const source = getSourceCategory(spot, options.categorySource, tagNames);
+      const target = source ? targetOf(source) : null;
+      const shape = spotToMultiPolygon(spot);
+      if (!target || shape.length === 0) return [];
+      const bbox = ringBbox(shape.flatMap((polygon) => polygon[0]));
+      return [{ spot, shape, bbox, categoryId: categoryIds.get(target)! }];
+    });
+    if (labelled.length === 0 && options.skipEmptyImages) continue;
+
+    const width = micrograph.imageWidth || micrograph.width;
+    const height = micrograph.imageHeight || micrograph.height;
+    const imagePath = micrograph.imagePath;
+    if (!width || !height || !imagePath) {
+      skippedMicrographs.push(micrograph.name);
+      continue;
+    }
+
+    const split = splits.get(options.splitBy === 'sample' ? sampleId : micrograph.id) ?? 'train';
+    const dataset = datasets[split];
+    const baseName = `${sanitizeFileName(micrograph.name)}_${micrograph.id.slice(0, 8)}`;
+    const regions =
+      options.imageMode === 'tiles'
+        ? planDetectionWindows(width, height, { windowSize: options.tileSize, overlap: options.tileOverlap })
+        : [{ x: 0, y: 0, width, height }];
+
+    for (const region of regions) {
+      const annotations: CocoAnnotation[] = [];
+      const imageId = nextImageId;
+      for (const { spot, shape, bbox, categoryId } of labelled) {
+        // Cheap rejection before clipping
+        if (bbox[2] <= region.x || bbox[0] >= region.x + region.width) continue;
+        if (bbox[3] <= region.y || bbox[1] >= region.y + region.height) continue;
+
+        for (const piece of clipToRegion(shape, region)) {
+          const [minX, minY, maxX, maxY] = ringBbox(piece[0]);
+          annotations.push({
+            id: nextAnnotationId++,
+            image_id: imageId,
+            category_id: categoryId,
+            segmentation: [toCocoPolygon(piece[0])],
+            area: Math.round(clipPolygonArea(piece) * 100) / 100,
+            bbox: [minX, minY, maxX - minX, maxY - minY],
+            iscrowd: 0,
+            strabo: { spotId: spot.id },
+          });
+        }
+      }
+      if (annotations.length === 0 && options.skipEmptyImages) continue;
+
+      const fileName =
+        options.imageMode === 'tiles' ? `${baseName}_x${region.x}_y${region.y}.jpg` : `${baseName}.jpg`;
+      nextImageId++;
+      dataset.images.push({
+        id: imageId,
+        file_name: fileName,
+        width: region.width,
+        height: region.height,
+        strabo: { micrographId: micrograph.id, x: region.x, y: region.y },
+      });
+      dataset.annotations.push(...annotations);
+      images.push({
+        split,
+        fileName,
+        micrographId: micrograph.id,
+        micrographName: micrograph.name,
+        imagePath,
+        region: { x: region.x, y: region.y, width: region.width, height: region.height },
+      });
+    }
+  }
+
+  return { images, datasets, skippedMicrographs };
+}
@@ -0,0 +1,388 @@
+/**
+ * COCO Predictions Import
+ *
+ * Reads model predictions in COCO form and resolves them to polygon
+ * outlines on the project's micrographs. Accepted inputs:
+ * - A COCO results list ([{ image_id, category_id, segmentation, score }])
+ *   together with the dataset it was predicted on, for images and categories
+ * - A complete COCO dataset whose annotations are the predictions
+ *
+ * Images exported by StraboMicro carry their micrograph and crop offset;
+ * other images are matched to a micrograph by file name.
+ *
+ * Segmentations may be polygons, uncompressed RLE or compressed RLE masks;
+ * predictions with only a bounding box become rectangles. Each prediction
+ * becomes one outline (its largest polygon or mask region).
+ *
+ * Predictions on overlapping tiles of one micrograph are stitched like
+ * tiled grain detection: grains cut by a tile edge are joined and grains
+ * seen by two tiles are kept once.
+ *
+ * @module cocoDataset/import
+ */
+
+import type { ProjectMetadata } from '@/types/project-types';
+import { vectorizeLabels } from '@/services/grainDetection/labelOutlines';
+import type { DetectedGrain, DetectionWindow } from '@/services/grainDetection/types';
+import { mergeWindowGrains } from '@/services/grainDetection/tiled';
+import { type Pair, ringArea, ringToGrain, toRing } from '@/services/grainDetection/geometry';
+import type {
+  CocoCategory,
+  CocoDataset,
+  CocoImage,
+  CocoImportOptions,
+  CocoImportResult,
+  CocoPrediction,
+  CocoRle,
+} from './types';
+
+/**
+ * Mask regions smaller than this (pixels) are noise.
+ */
+const MIN_MASK_REGION_PIXELS = 16;
+
+/**
+ * Douglas-Peucker tolerance (pixels) for outlines traced from masks.
+ */
+const MASK_SIMPLIFY_TOLERANCE = 1;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Predictions with the images and categories they refer to */
+export interface CocoPredictionSet {
+  predictions: CocoPrediction[];
+  images: CocoImage[];
+  categories: CocoCategory[];
+}
+
+function isDataset(value: unknown): value is CocoDataset {
+  return !!value && typeof value === 'object' && Array.isArray((value as CocoDataset).annotations);
+}
+
+/**
+ * Combine a parsed predictions file with an optional reference dataset.
+ *
+ * @param predictionsJson - Parsed results list or COCO dataset
+ * @param referenceJson - Parsed COCO dataset the predictions were made on
+ *   (needed for results lists; its images and categories are used when the
+ *   predictions file has none)
+ * @throws {Error} When the input is not COCO
+ */
+export function parseCocoPredictions(predictionsJson: unknown, referenceJson?: unknown): CocoPredictionSet {
+  let predictions: CocoPrediction[];
+  let images: CocoImage[] = [];
+  let categories: CocoCategory[] = [];
+
+  if (Array.isArray(predictionsJson)) {
+    predictions = predictionsJson as CocoPrediction[];
+  } else if (isDataset(predictionsJson)) {
+    predictions = predictionsJson.annotations;
+    images = predictionsJson.images || [];
+    categories = predictionsJson.categories || [];
+  } else {
+    throw new Error('Not a COCO results list or dataset');
+  }
+
+  if (referenceJson !== undefined) {
+    if (!isDataset(referenceJson)) {
+      throw new Error('The reference file is not a COCO dataset');
+    }
+    if (images.length === 0) images = referenceJson.images || [];
+    if (categories.length === 0) categories = referenceJson.categories || [];
+  }
+
+  return { predictions, images, categories };
+}
+
+// ============================================================================
+// SEGMENTATION DECODING
+// ============================================================================
+
+/**
+ * Decode the compressed RLE counts string used by pycocotools.
+ */
+function decodeRleString(text: string): number[] {
+  const counts: number[] = [];
+  let p = 0;
+  while (p < text.length) {
+    let x = 0;
+    let k = 0;
+    let more = 1;
+    while (more) {
+      const c = text.charCodeAt(p) - 48;
+      x |= (c & 0x1f) << (5 * k);
+      more = c & 0x20;
+      p++;
+      k++;
+      if (!more && c & 0x10) x |= -1 << (5 * k);
+    }
+    if (counts.length > 2) x += counts[counts.length - 2];
+    counts.push(x);
+  }
+  return counts;
+}
+
+/**
+ * Largest region of an RLE mask as a closed ring in mask pixels.
+ * The mask is decoded only inside the bounding box of its foreground runs,
+ * so small grains on large images stay cheap.
+ */
+function rleToRing(rle: CocoRle): Pair[] | null {
+  const [height, width] = rle.size;
+  const counts = typeof rle.counts === 'string' ? decodeRleString(rle.counts) : rle.counts;
+  const total = width * height;
+
+  // Runs alternate background/foreground in column-major order
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  let pos = 0;
+  counts.forEach((run, i) => {
+    const end = Math.min(pos + run, total);
+    if (i % 2 === 1 && end > pos) {
+      const firstColumn = Math.floor(pos / height);
+      const lastColumn = Math.floor((end - 1) / height);
+      minX = Math.min(minX, firstColumn);
+      maxX = Math.max(maxX, lastColumn);
+      // A run wrapping into the next column covers both ends of the rows
+      minY = Math.min(minY, firstColumn === lastColumn ? pos % height : 0);
+      maxY = Math.max(maxY, firstColumn === lastColumn ? (end - 1) % height : height - 1);
+    }
+    pos += run;
+  });
+  if (maxX < minX || maxY < minY) return null;
+
+  const cropWidth = maxX - minX + 1;
+  const cropHeight = maxY - minY + 1;
+  const labels = new Int8Array(cropWidth * cropHeight).fill(-1);
+  pos = 0;
+  counts.forEach((run, i) => {
+    if (i % 2 === 1) {
+      for (let j = pos; j < pos + run && j < total; j++) {
+        labels[((j % height) - minY) * cropWidth + Math.floor(j / height) - minX] = 0;
+      }
+    }
+    pos += run;
+  });
+
+  let best: Pair[] | null = null;
+  let bestArea = 0;
+  for (const region of vectorizeLabels(labels, cropWidth, cropHeight, MIN_MASK_REGION_PIXELS, MASK_SIMPLIFY_TOLERANCE)) {
+    if (region.areaPixels > bestArea) {
+      const ring = toRing(region.contour);
+      if (ring.length >= 4) {
+        best = ring;
+        bestArea = region.areaPixels;
+      }
+    }
+  }
+  return best && best.map(([x, y]): Pair => [x + minX, y + minY]);
+}
+
+/**
+ * Largest polygon of a COCO polygon list as a closed ring.
+ */
+function polygonsToRing(polygons: number[][]): Pair[] | null {
+  let best: Pair[] | null = null;
+  let bestArea = 0;
+  for (const flat of polygons) {
+    const ring: Pair[] = [];
+    for (let i = 0; i + 1 < flat.length; i += 2) ring.push([flat[i], flat[i + 1]]);
+    if (ring.length < 3) continue;
+    ring.push([ring[0][0], ring[0][1]]);
+    const area = ringArea(ring);
+    if (area > bestArea) {
+      best = ring;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+/**
+ * Outline of a prediction in image pixels.
+ */
+function predictionToRing(prediction: CocoPrediction): Pair[] | null {
+  const { segmentation, bbox } = prediction;
+  if (Array.isArray(segmentation) && segmentation.length > 0) {
+    return polygonsToRing(segmentation);
+  }
+  if (segmentation && !Array.isArray(segmentation) && Array.isArray(segmentation.size)) {
+    return rleToRing(segmentation);
+  }
+  if (bbox && bbox[2] > 0 && bbox[3] > 0) {
+    const [x, y, w, h] = bbox;
+    return [
+      [x, y],
+      [x + w, y],
+      [x + w, y + h],
+      [x, y + h],
+      [x, y],
+    ];
+  }
+  return null;
+}
+
+// ============================================================================
+// MICROGRAPH MATCHING
+// ============================================================================
+
+function fileStem(fileName: string): string {
+  const base = fileName.split(/[/\\]/).pop() || fileName;
+  return base.replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+interface ImageMatch {
+  micrographId: string;
+  /** Offset of the image within the micrograph */
+  x: number;
+  y: number;
+}
+
+/**
+ * Map each image to a micrograph and the offset of the image within it.
+ */
+function matchImages(images: CocoImage[], project: ProjectMetadata): Map<number, ImageMatch> {
+  const micrographIds = new Set<string>();
+  const byStem = new Map<string, string | null>();
+  const addStem = (stem: string, id: string) => {
+    // Ambiguous names match nothing
+    byStem.set(stem, byStem.has(stem) && byStem.get(stem) !== id ? null : id);
+  };
+
+  for (const dataset of project.datasets || []) {
+    for (const sample of dataset.samples || []) {
+      for (const micrograph of sample.micrographs || []) {
+        micrographIds.add(micrograph.id);
+        addStem(fileStem(micrograph.name), micrograph.id);
+        if (micrograph.imageFilename) addStem(fileStem(micrograph.imageFilename), micrograph.id);
+      }
+    }
+  }
+
+  const matches = new Map<number, ImageMatch>();
+  for (const image of images) {
+    if (image.strabo && micrographIds.has(image.strabo.micrographId)) {
+      matches.set(image.id, { ...image.strabo });
+      continue;
+    }
+    const micrographId = byStem.get(fileStem(image.file_name));
+    if (micrographId) matches.set(image.id, { micrographId, x: 0, y: 0 });
+  }
+  return matches;
+}
+
+function getMicrographSize(project: ProjectMetadata, micrographId: string): { width: number; height: number } | null {
+  for (const dataset of project.datasets || []) {
+    for (const sample of dataset.samples || []) {
+      const micrograph = (sample.micrographs || []).find((m) => m.id === micrographId);
+      if (micrograph) {
+        const width = micrograph.imageWidth || micrograph.width;
+        const height = micrograph.imageHeight || micrograph.height;
+        return width && height ? { width, height } : null;
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Resolve predictions to outlines on the project's micrographs.
+ *
+ * @param set - Parsed predictions with their images and categories
+ * @param project - Project to place the predictions in
+ * @param options - Score threshold
+ * @returns Outlines in micrograph pixels, with counts of skipped predictions
+ */
+export function resolveCocoPredictions(
+  set: CocoPredictionSet,
+  project: ProjectMetadata,
+  options: Pick<CocoImportOptions, 'minScore'>
+): CocoImportResult {
+  const matches = matchImages(set.images, project);
+  const imagesById = new Map(set.images.map((image) => [image.id, image]));
+  const categoryNames = new Map(set.categories.map((category) => [category.id, category.name]));
+  const result: CocoImportResult = { spots: [], belowThreshold: 0, unmatched: 0, invalid: 0 };
+
+  // Grains per image, in image pixels. The grain's mineral carries the
+  // predicted category, whatever it is recorded as later.
+  const grainsByImage = new Map<number, DetectedGrain[]>();
+  for (const prediction of set.predictions) {
+    const score = typeof prediction.score === 'number' ? prediction.score : undefined;
+    if (score !== undefined && score < options.minScore) {
+      result.belowThreshold++;
+      continue;
+    }
+    if (!matches.has(prediction.image_id)) {
+      result.unmatched++;
+      continue;
+    }
+
+    const ring = predictionToRing(prediction);
+    if (!ring || ringArea(ring) === 0) {
+      result.invalid++;
+      continue;
+    }
+
+    const grains = grainsByImage.get(prediction.image_id) || [];
+    const grain = ringToGrain(ring, `prediction-${grains.length}`);
+    const category = categoryNames.get(prediction.category_id);
+    grains.push({
+      ...grain,
+      ...(category !== undefined && { mineral: category }),
+      ...(score !== undefined && { score }),
+    });
+    grainsByImage.set(prediction.image_id, grains);
+  }
+
+  // Group images by micrograph
+  const windowsByMicrograph = new Map<string, Array<{ window: DetectionWindow; grains: DetectedGrain[] }>>();
+  for (const [imageId, grains] of grainsByImage) {
+    const match = matches.get(imageId)!;
+    const image = imagesById.get(imageId)!;
+    const windows = windowsByMicrograph.get(match.micrographId) || [];
+    windows.push({
+      window: { index: windows.length, x: match.x, y: match.y, width: image.width, height: image.height },
+      grains,
+    });
+    windowsByMicrograph.set(match.micrographId, windows);
+  }
+
+  for (const [micrographId, windows] of windowsByMicrograph) {
+    let grains: DetectedGrain[];
+    if (windows.length === 1) {
+      const { window } = windows[0];
+      grains = windows[0].grains.map((grain) => ({
+        ...grain,
+        contour: grain.contour.map((p) => ({ x: p.x + window.x, y: p.y + window.y })),
+      }));
+    } else {
+      const size = getMicrographSize(project, micrographId) ?? {
+        width: Math.max(...windows.map(({ window }) => window.x + window.width)),
+        height: Math.max(...windows.map(({ window }) => window.y + window.height)),
+      };
+      grains = mergeWindowGrains(windows, size.width, size.height);
+    }
+
+    for (const grain of grains) {
+      const ring = toRing(grain.contour);
+      if (ring.length < 4) continue;
+      result.spots.push({
+        micrographId,
+        ring,
+        category: grain.mineral ?? null,
+        score: grain.score ?? null,
+        area: ringArea(ring),
+      });
+    }
+  }
+
+  return result;
+}
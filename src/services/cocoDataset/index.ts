@@ -0,0 +1,12 @@
+/**
+ * COCO Dataset Service
+ *
+ * Exchange of training data with instance-segmentation tools:
+ * - Export of classified polygon spots as COCO datasets (image crops or
+ *   tiles, train/validation split, class remapping)
+ * - Import of COCO predictions as spots on the right micrograph
+ */
+
+export * from './types';
+export * from './export';
+export * from './import';
@@ -0,0 +1,193 @@
+/**
+ * COCO Dataset Types
+ *
+ * Type definitions for COCO instance-segmentation datasets exported from
+ * classified spots, and for model predictions imported back as spots.
+ *
+ * Exported images and annotations carry an extra `strabo` object that maps
+ * them back to their micrograph and spot; COCO tools ignore unknown keys.
+ */
+
+// ============================================================================
+// COCO FORMAT
+// ============================================================================
+
+/** Run-length encoded mask (column-major; counts start with background) */
+export interface CocoRle {
+  /** [height, width] */
+  size: [number, number];
+  /** Run lengths, or the compressed string form used by pycocotools */
+  counts: number[] | string;
+}
+
+/** Where an exported image came from */
+export interface CocoImageSource {
+  micrographId: string;
+  /** Top-left corner of the image in micrograph pixels */
+  x: number;
+  y: number;
+}
+
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+  strabo?: CocoImageSource;
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  /** Polygons as flat [x1, y1, x2, y2, ...] lists, or an RLE mask */
+  segmentation?: number[][] | CocoRle;
+  area?: number;
+  /** [x, y, width, height] */
+  bbox?: [number, number, number, number];
+  iscrowd?: 0 | 1;
+  /** Confidence of a predicted annotation */
+  score?: number;
+  strabo?: { spotId: string };
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory?: string;
+}
+
+export interface CocoDataset {
+  info?: {
+    description?: string;
+    version?: string;
+    date_created?: string;
+  };
+  images: CocoImage[];
+  annotations: CocoAnnotation[];
+  categories: CocoCategory[];
+}
+
+/**
+ * A prediction in the COCO results format (a flat list of these, without
+ * images or categories).
+ */
+export type CocoPrediction = Omit<CocoAnnotation, 'id'> & { id?: number };
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export type CocoSplit = 'train' | 'val';
+
+/**
+ * Where annotation classes come from:
+ * - 'mineral': the spot's first mineral
+ * - 'tag': the spot's first tag
+ */
+export type CocoCategorySource = 'mineral' | 'tag';
+
+export interface CocoExportOptions {
+  categorySource: CocoCategorySource;
+  /**
+   * Class remapping by source name. A string renames (several sources may
+   * share a target), null excludes the class; unlisted classes keep their name.
+   */
+  classMap: Record<string, string | null>;
+  /**
+   * - 'full': one image per micrograph
+   * - 'tiles': overlapping square tiles of tileSize pixels
+   */
+  imageMode: 'full' | 'tiles';
+  tileSize: number;
+  tileOverlap: number;
+  /** Leave out images without any annotation */
+  skipEmptyImages: boolean;
+  /** Fraction of the groups (micrographs or samples) held out for validation */
+  validationFraction: number;
+  /** Images of one micrograph or sample always land in the same split */
+  splitBy: 'micrograph' | 'sample';
+  /** Seed of the split; the same seed gives the same split */
+  seed: number;
+}
+
+export const DEFAULT_COCO_EXPORT_OPTIONS: CocoExportOptions = {
+  categorySource: 'mineral',
+  classMap: {},
+  imageMode: 'tiles',
+  tileSize: 1024,
+  tileOverlap: 128,
+  skipEmptyImages: true,
+  validationFraction: 0.2,
+  splitBy: 'micrograph',
+  seed: 42,
+};
+
+/** A class found on the project's spots, before remapping */
+export interface CocoSourceCategory {
+  name: string;
+  /** Polygon spots in this class */
+  count: number;
+}
+
+/** An image the main process crops out of a micrograph */
+export interface CocoImageJob {
+  split: CocoSplit;
+  /** File name inside images/<split>/ */
+  fileName: string;
+  micrographId: string;
+  micrographName: string;
+  /** Image path relative to the project's images folder */
+  imagePath: string;
+  /** Crop in micrograph pixels */
+  region: { x: number; y: number; width: number; height: number };
+}
+
+/** Everything needed to write a dataset to disk */
+export interface CocoExportPlan {
+  images: CocoImageJob[];
+  datasets: Record<CocoSplit, CocoDataset>;
+  /** Micrographs left out because their image or its size is unknown */
+  skippedMicrographs: string[];
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface CocoImportOptions {
+  /** Predictions scoring below this are ignored */
+  minScore: number;
+  /**
+   * How the predicted category is recorded:
+   * - 'mineral': as the spot's mineral
+   * - 'tag': as a tag (created when missing)
+   * - 'none': not at all
+   */
+  assignCategoryAs: 'mineral' | 'tag' | 'none';
+}
+
+export const DEFAULT_COCO_IMPORT_OPTIONS: CocoImportOptions = {
+  minScore: 0.5,
+  assignCategoryAs: 'mineral',
+};
+
+/** A prediction resolved to a polygon on a micrograph */
+export interface PredictedSpot {
+  micrographId: string;
+  /** Closed outline in micrograph pixels */
+  ring: Array<[number, number]>;
+  category: string | null;
+  score: number | null;
+  area: number;
+}
+
+export interface CocoImportResult {
+  spots: PredictedSpot[];
+  /** Predictions below the score threshold */
+  belowThreshold: number;
+  /** Predictions whose image could not be matched to a micrograph */
+  unmatched: number;
+  /** Predictions without a usable outline */
+  invalid: number;
+}
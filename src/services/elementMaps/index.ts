@@ -0,0 +1,39 @@
+/**
+ * Element Map Service
+ *
+ * Loads co-registered EDS/WDS element maps through the tile cache and
+ * queries their intensities inside spot geometries.
+ *
+ * @example
+ * ```typescript
+ * import { sampleSpotIntensities } from '@/services/elementMaps';
+ *
+ * const results = await sampleSpotIntensities(project.id, micrograph, spots);
+ * console.log(`${results[0].values[0].element}: ${results[0].values[0].mean}`);
+ * ```
+ */
+
+// Types
+export type {
+  ElementMapSource,
+  ElementMapRegion,
+  SpotPixelGroup,
+  ElementIntensityStats,
+  SpotElementIntensities,
+} from './types';
+
+export { DEFAULT_ELEMENT_COLORS, ELEMENT_MAP_PALETTE } from './types';
+
+// Sampling
+export {
+  guessElementFromFileName,
+  getDefaultElementColor,
+  getElementMapPath,
+  loadElementMapSource,
+  readElementMapPixels,
+  getSpotMapPixels,
+  groupSpotPixels,
+  calculateIntensityStats,
+  sampleSpotIntensities,
+  exportSpotIntensitiesToCSV,
+} from './sampling';
@@ -0,0 +1,435 @@
+/**
+ * Element Map Sampling
+ *
+ * Reads element map intensities and summarizes them inside spot geometries.
+ * Maps are stretched over the full micrograph extent, so spot coordinates
+ * (micrograph pixels) are scaled into map pixels before sampling. Spot
+ * statistics and phase classification read the map files directly: the tile
+ * cache's WebP tiles carry compression error, which would bias means and
+ * widen spreads.
+ */
+
+import type { ElementMapLayer, MicrographMetadata, Spot } from '@/types/project-types';
+import { getSpotMineral } from '@/services/pointCounting';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import { spotToMultiPolygon } from '@/utils/spotPolygons';
+import {
+  type ClipMultiPolygon,
+  type Pair,
+  isPointInMultiPolygon,
+  ringBbox,
+} from '@/services/grainDetection/geometry';
+import {
+  DEFAULT_ELEMENT_COLORS,
+  ELEMENT_MAP_PALETTE,
+  type ElementIntensityStats,
+  type ElementMapRegion,
+  type ElementMapSource,
+  type SpotElementIntensities,
+  type SpotPixelGroup,
+} from './types';
+
+/** Radius (in map pixels) of the neighborhood sampled around point spots */
+const POINT_SAMPLE_RADIUS = 1;
+
+/** Cell size (in map pixels) spots are grouped by for block reads */
+const SAMPLE_GROUP_SIZE = 1024;
+
+// Element symbols, longest first so "Fe" wins over "F" when matching file names
+const ELEMENT_SYMBOLS = [
+  'He', 'Li', 'Be', 'Ne', 'Na', 'Mg', 'Al', 'Si', 'Cl', 'Ar', 'Ca', 'Sc', 'Ti', 'Cr', 'Mn',
+  'Fe', 'Co', 'Ni', 'Cu', 'Zn', 'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr', 'Rb', 'Sr', 'Zr', 'Nb',
+  'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In', 'Sn', 'Sb', 'Te', 'Xe', 'Cs', 'Ba', 'La',
+  'Ce', 'Pr', 'Nd', 'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb', 'Lu', 'Hf',
+  'Ta', 'Re', 'Os', 'Ir', 'Pt', 'Au', 'Hg', 'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn', 'Fr', 'Ra',
+  'Ac', 'Th', 'Pa', 'Np', 'Pu',
+  'H', 'B', 'C', 'N', 'O', 'F', 'P', 'S', 'K', 'V', 'Y', 'I', 'W', 'U',
+];
+
+// ============================================================================
+// LAYER DEFAULTS
+// ============================================================================
+
+/**
+ * Guess the element symbol from a map file name.
+ * Handles typical EDS export names such as "Fe Ka1.tif", "Map_Mg_K.png" or "Si.tiff".
+ *
+ * @param fileName - Map file name (with or without path)
+ * @returns Element symbol, or empty string if none could be identified
+ */
+export function guessElementFromFileName(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() || fileName;
+  const stem = baseName.replace(/\.[^.]+$/, '');
+  const tokens = stem.split(/[\s_\-.()]+/).filter(Boolean);
+
+  for (const token of tokens) {
+    // Exact symbol match with original capitalization (e.g. "Fe", "K")
+    if (ELEMENT_SYMBOLS.includes(token)) return token;
+  }
+
+  for (const token of tokens) {
+    // Symbol followed by an X-ray line (e.g. "FeKa", "MgK", "SiKa1")
+    const match = token.match(/^([A-Z][a-z]?)(K|L|M)(a|b)?\d?$/);
+    if (match && ELEMENT_SYMBOLS.includes(match[1])) return match[1];
+  }
+
+  return '';
+}
+
+/**
+ * Pick a false color for a new element map layer.
+ * Uses the conventional color for the element if it is not already taken,
+ * otherwise the first unused palette color.
+ *
+ * @param element - Element symbol
+ * @param usedColors - Colors already assigned to other layers on the micrograph
+ * @returns Hex color string
+ */
+export function getDefaultElementColor(element: string, usedColors: string[]): string {
+  const used = new Set(usedColors.map((c) => c.toLowerCase()));
+  const conventional = DEFAULT_ELEMENT_COLORS[element];
+  if (conventional && !used.has(conventional)) return conventional;
+
+  const unused = ELEMENT_MAP_PALETTE.find((c) => !used.has(c));
+  return unused ?? conventional ?? ELEMENT_MAP_PALETTE[usedColors.length % ELEMENT_MAP_PALETTE.length];
+}
+
+// ============================================================================
+// MAP ACCESS
+// ============================================================================
+
+/**
+ * Build the on-disk path of an element map stored in the project's associatedFiles folder.
+ */
+export async function getElementMapPath(projectId: string, fileName: string): Promise<string> {
+  const folderPaths = await window.api!.getProjectFolderPaths(projectId);
+  return `${folderPaths.associatedFiles}/${fileName}`;
+}
+
+/**
+ * Open an element map in the tile cache (generating its thumbnail/medium on first use).
+ *
+ * @param projectId - Project owning the map file
+ * @param layer - Element map layer
+ * @returns Tile-cache handle for the map
+ */
+export async function loadElementMapSource(
+  projectId: string,
+  layer: ElementMapLayer
+): Promise<ElementMapSource> {
+  const fullPath = await getElementMapPath(projectId, layer.fileName);
+  const result = await window.api!.loadImageWithTiles(fullPath);
+  return {
+    hash: result.hash,
+    width: result.metadata.width,
+    height: result.metadata.height,
+    tilePadding: result.metadata.tilePadding ?? 0,
+  };
+}
+
+/**
+ * Read map intensities losslessly from the map file.
+ *
+ * The intensity of a pixel is its brightest channel, so both true grayscale
+ * maps and maps exported pre-tinted in a single hue read correctly.
+ *
+ * @param projectId - Project owning the map file
+ * @param fileName - Map file name in the associatedFiles folder
+ * @param region - Block to read in map pixels (whole map if omitted)
+ * @returns Intensities for the block (clamped to the map bounds)
+ */
+export async function readElementMapPixels(
+  projectId: string,
+  fileName: string,
+  region?: { x: number; y: number; width: number; height: number }
+): Promise<ElementMapRegion> {
+  const fullPath = await getElementMapPath(projectId, fileName);
+  const pixels = await window.api!.readImageRegion(fullPath, region);
+  const { channels } = pixels;
+
+  const data = new Uint8ClampedArray(pixels.width * pixels.height);
+  for (let i = 0; i < data.length; i++) {
+    let value = pixels.data[i * channels];
+    for (let c = 1; c < channels; c++) value = Math.max(value, pixels.data[i * channels + c]);
+    data[i] = value;
+  }
+
+  return { x: pixels.x, y: pixels.y, width: pixels.width, height: pixels.height, data };
+}
+
+// ============================================================================
+// SPOT GEOMETRY
+// ============================================================================
+
+/**
+ * Extract line or point vertices in micrograph pixel coordinates.
+ */
+function getSpotCoordinates(spot: Spot): number[][] {
+  if (spot.geometry?.coordinates) {
+    const { type, coordinates } = spot.geometry;
+    if (type === 'Point') return [coordinates as number[]];
+    if (type === 'LineString') return coordinates as number[][];
+  }
+  return (spot.points || []).map((p) => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0]);
+}
+
+/**
+ * Map pixels whose centers lie inside a polygon shape (holes excluded).
+ */
+function getShapeMapPixels(shape: ClipMultiPolygon): Array<[number, number]> {
+  const [minX, minY, maxX, maxY] = ringBbox(shape.flatMap((polygon) => polygon[0]));
+  const pixels: Array<[number, number]> = [];
+  for (let py = Math.floor(minY); py <= Math.ceil(maxY); py++) {
+    for (let px = Math.floor(minX); px <= Math.ceil(maxX); px++) {
+      if (isPointInMultiPolygon(px + 0.5, py + 0.5, shape)) pixels.push([px, py]);
+    }
+  }
+  // Grains smaller than a map pixel still get the pixel under their vertices
+  if (pixels.length === 0) {
+    const [x, y] = shape[0][0][0];
+    pixels.push([Math.floor(x), Math.floor(y)]);
+  }
+  return pixels;
+}
+
+/**
+ * List the map pixels covered by a spot.
+ *
+ * Polygons (with their holes and extra parts) use pixel-center containment,
+ * lines are sampled at one-pixel steps and points sample a small square
+ * neighborhood.
+ *
+ * @param spot - Spot in micrograph pixel coordinates
+ * @param scaleX - Map pixels per micrograph pixel (horizontal)
+ * @param scaleY - Map pixels per micrograph pixel (vertical)
+ * @returns Covered pixel coordinates in map space
+ */
+export function getSpotMapPixels(spot: Spot, scaleX: number, scaleY: number): Array<[number, number]> {
+  if (isPolygonSpot(spot.geometry, spot.geometryType)) {
+    const shape = spotToMultiPolygon(spot).map((polygon) =>
+      polygon.map((ring) => ring.map(([x, y]): Pair => [x * scaleX, y * scaleY]))
+    );
+    if (shape.length > 0) return getShapeMapPixels(shape);
+  }
+
+  const coords = getSpotCoordinates(spot).map(([x, y]) => [x * scaleX, y * scaleY]);
+  if (coords.length === 0) return [];
+
+  const pixels: Array<[number, number]> = [];
+  const type = (spot.geometry?.type || spot.geometryType || '').toLowerCase();
+
+  if ((type === 'line' || type === 'linestring') && coords.length >= 2) {
+    const seen = new Set<string>();
+    for (let i = 0; i < coords.length - 1; i++) {
+      const [x1, y1] = coords[i];
+      const [x2, y2] = coords[i + 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(x2 - x1, y2 - y1)));
+      for (let s = 0; s <= steps; s++) {
+        const px = Math.floor(x1 + ((x2 - x1) * s) / steps);
+        const py = Math.floor(y1 + ((y2 - y1) * s) / steps);
+        const key = `${px},${py}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          pixels.push([px, py]);
+        }
+      }
+    }
+  } else {
+    const cx = Math.floor(coords[0][0]);
+    const cy = Math.floor(coords[0][1]);
+    for (let dy = -POINT_SAMPLE_RADIUS; dy <= POINT_SAMPLE_RADIUS; dy++) {
+      for (let dx = -POINT_SAMPLE_RADIUS; dx <= POINT_SAMPLE_RADIUS; dx++) {
+        pixels.push([cx + dx, cy + dy]);
+      }
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Group spots into nearby clusters that are each read as one block.
+ *
+ * Spots are grouped by the grid cell their bounding-box center falls in, so
+ * neighboring grains share tiles while spots far apart never pull in the map
+ * between them. A block spans at most one cell plus the extent of its spots.
+ *
+ * @param spotPixels - Covered map pixels per spot, from getSpotMapPixels
+ * @returns Groups with the block covering their spots (spots without pixels are left out)
+ */
+export function groupSpotPixels(spotPixels: Array<Array<[number, number]>>): SpotPixelGroup[] {
+  const groups = new Map<string, { spotIndices: number[]; minX: number; minY: number; maxX: number; maxY: number }>();
+
+  spotPixels.forEach((pixels, spotIndex) => {
+    if (pixels.length === 0) return;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const [px, py] of pixels) {
+      if (px < minX) minX = px;
+      if (py < minY) minY = py;
+      if (px > maxX) maxX = px;
+      if (py > maxY) maxY = py;
+    }
+
+    const cellX = Math.floor((minX + maxX) / 2 / SAMPLE_GROUP_SIZE);
+    const cellY = Math.floor((minY + maxY) / 2 / SAMPLE_GROUP_SIZE);
+    const key = `${cellX},${cellY}`;
+    const group = groups.get(key);
+    if (group) {
+      group.spotIndices.push(spotIndex);
+      group.minX = Math.min(group.minX, minX);
+      group.minY = Math.min(group.minY, minY);
+      group.maxX = Math.max(group.maxX, maxX);
+      group.maxY = Math.max(group.maxY, maxY);
+    } else {
+      groups.set(key, { spotIndices: [spotIndex], minX, minY, maxX, maxY });
+    }
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    spotIndices: group.spotIndices,
+    x: group.minX,
+    y: group.minY,
+    width: group.maxX - group.minX + 1,
+    height: group.maxY - group.minY + 1,
+  }));
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Summarize a set of intensities.
+ *
+ * @param values - Intensities (0-255)
+ * @returns Count, mean, median, standard deviation, min and max (zeros if empty)
+ */
+export function calculateIntensityStats(
+  values: number[]
+): Omit<ElementIntensityStats, 'layerId' | 'element'> {
+  const n = values.length;
+  if (n === 0) {
+    return { pixelCount: 0, mean: 0, median: 0, stdDev: 0, min: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
+  const mid = Math.floor(n / 2);
+  const median = n % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  return {
+    pixelCount: n,
+    mean,
+    median,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[n - 1],
+  };
+}
+
+/**
+ * Query element map intensities inside each spot.
+ *
+ * Nearby spots are read together as one block (see groupSpotPixels), so a
+ * query over many small grains neither rereads the same part of the map
+ * repeatedly nor reads the whole map when the grains are spread across it.
+ *
+ * @param projectId - Project owning the map files
+ * @param micrograph - Micrograph the spots and maps belong to
+ * @param spots - Spots to query
+ * @param layers - Element map layers to sample (defaults to all maps on the micrograph)
+ * @param onProgress - Called after each map is processed
+ * @returns Per-spot intensity statistics
+ */
+export async function sampleSpotIntensities(
+  projectId: string,
+  micrograph: MicrographMetadata,
+  spots: Spot[],
+  layers: ElementMapLayer[] = micrograph.elementMaps || [],
+  onProgress?: (completed: number, total: number) => void
+): Promise<SpotElementIntensities[]> {
+  const micrographWidth = micrograph.imageWidth || micrograph.width || 0;
+  const micrographHeight = micrograph.imageHeight || micrograph.height || 0;
+
+  const results: SpotElementIntensities[] = spots.map((spot) => ({
+    spotId: spot.id,
+    spotName: spot.name,
+    mineral: getSpotMineral(spot),
+    values: [],
+  }));
+
+  if (!micrographWidth || !micrographHeight) return results;
+
+  for (let layerIndex = 0; layerIndex < layers.length; layerIndex++) {
+    const layer = layers[layerIndex];
+    const source = await loadElementMapSource(projectId, layer);
+    const scaleX = source.width / micrographWidth;
+    const scaleY = source.height / micrographHeight;
+
+    const spotPixels = spots.map((spot) => getSpotMapPixels(spot, scaleX, scaleY));
+    const spotValues: number[][] = spots.map(() => []);
+
+    for (const { spotIndices, ...block } of groupSpotPixels(spotPixels)) {
+      const region = await readElementMapPixels(projectId, layer.fileName, block);
+      for (const spotIndex of spotIndices) {
+        for (const [px, py] of spotPixels[spotIndex]) {
+          const rx = px - region.x;
+          const ry = py - region.y;
+          if (rx >= 0 && ry >= 0 && rx < region.width && ry < region.height) {
+            spotValues[spotIndex].push(region.data[ry * region.width + rx]);
+          }
+        }
+      }
+    }
+
+    spotValues.forEach((values, spotIndex) => {
+      results[spotIndex].values.push({
+        layerId: layer.id,
+        element: layer.element,
+        ...calculateIntensityStats(values),
+      });
+    });
+
+    onProgress?.(layerIndex + 1, layers.length);
+  }
+
+  return results;
+}
+
+/**
+ * Export spot intensity results to CSV (one row per spot, mean and std dev per element).
+ *
+ * @param results - Results from sampleSpotIntensities
+ * @param layers - Layers that were queried (defines column order)
+ * @returns CSV content
+ */
+export function exportSpotIntensitiesToCSV(
+  results: SpotElementIntensities[],
+  layers: ElementMapLayer[]
+): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const header = ['Spot', 'Mineral'];
+  for (const layer of layers) {
+    header.push(`${layer.element} Mean`, `${layer.element} Std Dev`, `${layer.element} Pixels`);
+  }
+
+  const rows = results.map((result) => {
+    const row = [escape(result.spotName), escape(result.mineral ?? '')];
+    for (const layer of layers) {
+      const stats = result.values.find((v) => v.layerId === layer.id);
+      row.push(
+        stats ? stats.mean.toFixed(2) : '',
+        stats ? stats.stdDev.toFixed(2) : '',
+        stats ? String(stats.pixelCount) : ''
+      );
+    }
+    return row.join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,119 @@
+/**
+ * Element Map Types
+ *
+ * Type definitions for EDS/WDS element map overlays and spot intensity queries.
+ */
+
+// ============================================================================
+// MAP SOURCE TYPES
+// ============================================================================
+
+/** Tile-cache handle for an element map image */
+export interface ElementMapSource {
+  /** Tile cache hash of the map file */
+  hash: string;
+  /** Map width in pixels */
+  width: number;
+  /** Map height in pixels */
+  height: number;
+  /** Halo pixels each tile carries on edges with neighbors (0 for legacy caches) */
+  tilePadding: number;
+}
+
+/** A rectangular block of grayscale map intensities (0-255) */
+export interface ElementMapRegion {
+  /** Left edge of the block in map pixels */
+  x: number;
+  /** Top edge of the block in map pixels */
+  y: number;
+  /** Block width in pixels */
+  width: number;
+  /** Block height in pixels */
+  height: number;
+  /** Row-major intensities, one byte per pixel */
+  data: Uint8ClampedArray;
+}
+
+/** Spots whose map pixels are read together as one block */
+export interface SpotPixelGroup {
+  /** Indices into the sampled spot list */
+  spotIndices: number[];
+  /** Left edge of the block covering the spots (map pixels) */
+  x: number;
+  /** Top edge of the block (map pixels) */
+  y: number;
+  /** Block width in pixels */
+  width: number;
+  /** Block height in pixels */
+  height: number;
+}
+
+// ============================================================================
+// INTENSITY QUERY TYPES
+// ============================================================================
+
+/** Intensity statistics of one element map inside one spot */
+export interface ElementIntensityStats {
+  /** Element map layer ID */
+  layerId: string;
+  /** Element symbol */
+  element: string;
+  /** Number of map pixels sampled */
+  pixelCount: number;
+  /** Mean intensity (0-255) */
+  mean: number;
+  /** Median intensity (0-255) */
+  median: number;
+  /** Standard deviation of intensity */
+  stdDev: number;
+  /** Minimum intensity */
+  min: number;
+  /** Maximum intensity */
+  max: number;
+}
+
+/** Element map intensities for a single spot */
+export interface SpotElementIntensities {
+  /** Spot ID */
+  spotId: string;
+  /** Spot name */
+  spotName: string;
+  /** Primary mineral name (if classified) */
+  mineral: string | null;
+  /** One entry per queried element map */
+  values: ElementIntensityStats[];
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/** Conventional false colors for commonly mapped elements */
+export const DEFAULT_ELEMENT_COLORS: Record<string, string> = {
+  Fe: '#ff0000',
+  Mg: '#00ff00',
+  Si: '#0000ff',
+  Ca: '#ffff00',
+  Al: '#00ffff',
+  K: '#ff00ff',
+  Na: '#ff8000',
+  Ti: '#8000ff',
+  Mn: '#ff0080',
+  Cr: '#00ff80',
+  P: '#80ff00',
+  S: '#ffd700',
+  Zr: '#0080ff',
+  O: '#ffffff',
+};
+
+/** Fallback palette for elements without a conventional color */
+export const ELEMENT_MAP_PALETTE = [
+  '#ff0000',
+  '#00ff00',
+  '#0000ff',
+  '#ffff00',
+  '#00ffff',
+  '#ff00ff',
+  '#ff8000',
+  '#8000ff',
+];
@@ -27,6 +27,14 @@ const DEFAULT_PARAMS = {
   maxDetections: 500,
 };
 
+/** FastSAM input: RGB scaled to [0, 1] */
+const FASTSAM_INPUT: ModelInputConfig = {
+  inputSize: INPUT_SIZE,
+  mean: [0, 0, 0],
+  std: [1, 1, 1],
+  channelOrder: 'rgb',
+};
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -66,6 +74,17 @@ export interface ProgressInfo {
   percent: number;
 }
 
+/**
+ * How an image is fed to a model: letterboxed to a square input and
+ * normalized per channel as (value / 255 - mean) / std.
+ */
+export interface ModelInputConfig {
+  inputSize: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+  channelOrder: 'rgb' | 'bgr';
+}
+
 // ============================================================================
 // WASM Configuration
 // ============================================================================
@@ -80,7 +99,7 @@ let wasmConfigured = false;
  * In development: WASM files are served from node_modules via Vite dev server
  * In production: WASM files are copied to the dist output alongside the app
  */
-function configureWasm(): void {
+export function configureWasm(): void {
   if (wasmConfigured) return;
 
   if (import.meta.env.DEV) {
@@ -208,15 +227,18 @@ export function isModelLoaded(): boolean {
 // ============================================================================
 
 /**
- * Preprocess image for FastSAM inference using canvas.
- * - Resize with letterboxing to INPUT_SIZE x INPUT_SIZE
- * - Convert to RGB float32 normalized to [0, 1]
+ * Preprocess image for model inference using canvas.
+ * - Resize with letterboxing to inputSize x inputSize
+ * - Convert to float32 normalized per channel (FastSAM: RGB in [0, 1])
  * - Channel order: CHW (channels, height, width)
  */
-async function preprocessImage(
+export async function preprocessImage(
   imageData: ImageData,
+  input: ModelInputConfig = FASTSAM_INPUT,
   progressCallback?: (info: ProgressInfo) => void
 ): Promise<{ tensor: ort.Tensor; preprocessInfo: PreprocessInfo }> {
+  const size = input.inputSize;
+
   if (progressCallback) {
     progressCallback({ step: 'Preprocessing image...', percent: 15 });
   }
@@ -226,23 +248,23 @@ async function preprocessImage(
   console.log('[FastSAM-Web] Original image size:', origW, 'x', origH);
 
   // Calculate letterbox dimensions (preserve aspect ratio)
-  const scale = Math.min(INPUT_SIZE / origW, INPUT_SIZE / origH);
+  const scale = Math.min(size / origW, size / origH);
   const newW = Math.round(origW * scale);
   const newH = Math.round(origH * scale);
-  const padX = Math.floor((INPUT_SIZE - newW) / 2);
-  const padY = Math.floor((INPUT_SIZE - newH) / 2);
+  const padX = Math.floor((size - newW) / 2);
+  const padY = Math.floor((size - newH) / 2);
 
   console.log('[FastSAM-Web] Resized:', newW, 'x', newH, ', padding:', padX, ',', padY);
 
   // Create canvas for resizing
   const canvas = document.createElement('canvas');
-  canvas.width = INPUT_SIZE;
-  canvas.height = INPUT_SIZE;
+  canvas.width = size;
+  canvas.height = size;
   const ctx = canvas.getContext('2d')!;
 
   // Fill with gray padding (YOLO style)
   ctx.fillStyle = 'rgb(114, 114, 114)';
-  ctx.fillRect(0, 0, INPUT_SIZE, INPUT_SIZE);
+  ctx.fillRect(0, 0, size, size);
 
   // Create temp canvas with original image
   const tempCanvas = document.createElement('canvas');
@@ -255,46 +277,29 @@ async function preprocessImage(
   ctx.drawImage(tempCanvas, padX, padY, newW, newH);
 
   // Get pixel data
-  const resizedData = ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE);
+  const resizedData = ctx.getImageData(0, 0, size, size);
 
-  // Convert to float32 CHW format normalized to [0, 1]
-  const float32Data = new Float32Array(3 * INPUT_SIZE * INPUT_SIZE);
+  // Convert to float32 CHW format, normalized per channel
+  const float32Data = new Float32Array(3 * size * size);
   for (let c = 0; c < 3; c++) {
-    for (let y = 0; y < INPUT_SIZE; y++) {
-      for (let x = 0; x < INPUT_SIZE; x++) {
-        const srcIdx = (y * INPUT_SIZE + x) * 4 + c; // RGBA format
-        const dstIdx = c * INPUT_SIZE * INPUT_SIZE + y * INPUT_SIZE + x;
-        float32Data[dstIdx] = resizedData.data[srcIdx] / 255.0;
+    const srcChannel = input.channelOrder === 'bgr' ? 2 - c : c;
+    const mean = input.mean[c];
+    const std = input.std[c];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const srcIdx = (y * size + x) * 4 + srcChannel; // RGBA format
+        const dstIdx = c * size * size + y * size + x;
+        float32Data[dstIdx] = (resizedData.data[srcIdx] / 255.0 - mean) / std;
       }
     }
   }
 
   return {
-    tensor: new ort.Tensor('float32', float32Data, [1, 3, INPUT_SIZE, INPUT_SIZE]),
+    tensor: new ort.Tensor('float32', float32Data, [1, 3, size, size]),
     preprocessInfo: { scale, padX, padY, origW, origH },
   };
 }
 
-/**
- * Load an image from a data URL and return ImageData.
- */
-export async function loadImageAsImageData(imageUrl: string): Promise<ImageData> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d')!;
-      ctx.drawImage(img, 0, 0);
-      resolve(ctx.getImageData(0, 0, img.width, img.height));
-    };
-    img.onerror = reject;
-    img.src = imageUrl;
-  });
-}
-
 // ============================================================================
 // Post-Processing
 // ============================================================================
@@ -347,54 +352,32 @@ function nms(detections: Detection[], iouThreshold: number): Detection[] {
   return kept;
 }
 
-interface MaskResult {
-  mask: Uint8Array;
-  maskH: number;
-  maskW: number;
-  box: number[];
-  confidence: number;
-  area: number;
-}
+/** Mask coefficients per detection (YOLOv8-seg) */
+const NUM_MASK_COEFFS = 32;
 
-function postprocessOutput(
+/**
+ * Extract detections above a confidence threshold from the detection head
+ * output, skipping those centered in the letterbox padding.
+ */
+function extractDetections(
   output0: ort.Tensor,
-  output1: ort.Tensor,
-  params: Required<FastSAMParams>,
+  confidenceThreshold: number,
   preprocessInfo: PreprocessInfo,
-  progressCallback?: (info: ProgressInfo) => void
-): MaskResult[] {
-  if (progressCallback) {
-    progressCallback({ step: 'Processing detections...', percent: 60 });
-  }
-
+  inputSize: number = INPUT_SIZE
+): Detection[] {
   const output0Data = output0.data as Float32Array;
-  const output0Dims = output0.dims;
-  const output1Data = output1.data as Float32Array;
-  const output1Dims = output1.dims;
-
-  console.log('[FastSAM-Web] output0 shape:', output0Dims);
-  console.log('[FastSAM-Web] output1 shape:', output1Dims);
-
-  const numDetections = output0Dims[2] as number;
-  const numFeatures = output0Dims[1] as number;
-  const numMaskCoeffs = 32;
-  const numClasses = numFeatures - 4 - numMaskCoeffs;
-
-  const maskH = output1Dims[2] as number;
-  const maskW = output1Dims[3] as number;
-
-  console.log('[FastSAM-Web] Detections:', numDetections, ', Classes:', numClasses);
-  console.log('[FastSAM-Web] Prototype mask size:', maskH, 'x', maskW);
+  const numDetections = output0.dims[2] as number;
+  const numFeatures = output0.dims[1] as number;
+  const numClasses = numFeatures - 4 - NUM_MASK_COEFFS;
 
   // Define active region (exclude padding)
   const { padX, padY } = preprocessInfo;
   const margin = 20;
   const activeTop = padY + margin;
-  const activeBottom = INPUT_SIZE - padY - margin;
+  const activeBottom = inputSize - padY - margin;
   const activeLeft = padX + margin;
-  const activeRight = INPUT_SIZE - padX - margin;
+  const activeRight = inputSize - padX - margin;
 
-  // Extract detections above confidence threshold
   const detections: Detection[] = [];
   for (let i = 0; i < numDetections; i++) {
     const cx = output0Data[0 * numDetections + i];
@@ -411,7 +394,7 @@ function postprocessOutput(
       }
     }
 
-    if (maxScore < params.confidenceThreshold) continue;
+    if (maxScore < confidenceThreshold) continue;
 
     // Skip detections outside active region (in padding area)
     if (cy < activeTop || cy > activeBottom || cx < activeLeft || cx > activeRight) continue;
@@ -423,8 +406,8 @@ function postprocessOutput(
     const y2 = cy + h / 2;
 
     // Extract mask coefficients
-    const maskCoeffs = new Float32Array(numMaskCoeffs);
-    for (let m = 0; m < numMaskCoeffs; m++) {
+    const maskCoeffs = new Float32Array(NUM_MASK_COEFFS);
+    for (let m = 0; m < NUM_MASK_COEFFS; m++) {
       maskCoeffs[m] = output0Data[(4 + numClasses + m) * numDetections + i];
     }
 
@@ -435,6 +418,94 @@ function postprocessOutput(
     });
   }
 
+  return detections;
+}
+
+/**
+ * Compute a detection's binary mask in prototype space:
+ * sigmoid(coeffs @ prototypes) > 0.5, clipped to the detection box.
+ */
+function computeMask(
+  det: Detection,
+  prototypes: Float32Array,
+  maskH: number,
+  maskW: number,
+  inputSize: number = INPUT_SIZE
+): { mask: Uint8Array; pixelCount: number } {
+  const mask = new Uint8Array(maskH * maskW);
+  let pixelCount = 0;
+
+  for (let y = 0; y < maskH; y++) {
+    for (let x = 0; x < maskW; x++) {
+      // Clip to bounding box
+      const imgX = Math.floor((x * inputSize) / maskW);
+      const imgY = Math.floor((y * inputSize) / maskH);
+      if (imgX < det.box[0] || imgX > det.box[2] || imgY < det.box[1] || imgY > det.box[3]) continue;
+
+      if (sigmoid(maskLogit(det, prototypes, maskH, maskW, x, y)) > 0.5) {
+        mask[y * maskW + x] = 1;
+        pixelCount++;
+      }
+    }
+  }
+
+  return { mask, pixelCount };
+}
+
+/**
+ * Mask logit (coeffs @ prototypes) of a detection at one prototype cell.
+ * Positive logits are inside the mask (sigmoid > 0.5).
+ */
+function maskLogit(
+  det: Detection,
+  prototypes: Float32Array,
+  maskH: number,
+  maskW: number,
+  x: number,
+  y: number
+): number {
+  let sum = 0;
+  for (let m = 0; m < NUM_MASK_COEFFS; m++) {
+    sum += det.maskCoeffs[m] * prototypes[m * maskH * maskW + y * maskW + x];
+  }
+  return sum;
+}
+
+interface MaskResult {
+  mask: Uint8Array;
+  maskH: number;
+  maskW: number;
+  box: number[];
+  confidence: number;
+  area: number;
+}
+
+function postprocessOutput(
+  output0: ort.Tensor,
+  output1: ort.Tensor,
+  params: Required<FastSAMParams>,
+  preprocessInfo: PreprocessInfo,
+  inputSize: number,
+  progressCallback?: (info: ProgressInfo) => void
+): MaskResult[] {
+  if (progressCallback) {
+    progressCallback({ step: 'Processing detections...', percent: 60 });
+  }
+
+  const output0Dims = output0.dims;
+  const output1Data = output1.data as Float32Array;
+  const output1Dims = output1.dims;
+
+  console.log('[FastSAM-Web] output0 shape:', output0Dims);
+  console.log('[FastSAM-Web] output1 shape:', output1Dims);
+
+  const maskH = output1Dims[2] as number;
+  const maskW = output1Dims[3] as number;
+
+  console.log('[FastSAM-Web] Detections:', output0Dims[2]);
+  console.log('[FastSAM-Web] Prototype mask size:', maskH, 'x', maskW);
+
+  const detections = extractDetections(output0, params.confidenceThreshold, preprocessInfo, inputSize);
   console.log('[FastSAM-Web] Detections above threshold:', detections.length);
 
   // Apply NMS
@@ -457,37 +528,10 @@ function postprocessOutput(
   for (let idx = 0; idx < limitedDetections.length; idx++) {
     const det = limitedDetections[idx];
 
-    // Compute mask: sigmoid(coeffs @ prototypes)
-    const mask = new Uint8Array(maskH * maskW);
-    let maskPixelCount = 0;
-
-    for (let y = 0; y < maskH; y++) {
-      for (let x = 0; x < maskW; x++) {
-        let sum = 0;
-        for (let m = 0; m < numMaskCoeffs; m++) {
-          const protoIdx = m * maskH * maskW + y * maskW + x;
-          sum += det.maskCoeffs[m] * output1Data[protoIdx];
-        }
-
-        // Apply sigmoid and threshold, clip to bounding box
-        const imgX = Math.floor((x * INPUT_SIZE) / maskW);
-        const imgY = Math.floor((y * INPUT_SIZE) / maskH);
-
-        if (
-          sigmoid(sum) > 0.5 &&
-          imgX >= det.box[0] &&
-          imgX <= det.box[2] &&
-          imgY >= det.box[1] &&
-          imgY <= det.box[3]
-        ) {
-          mask[y * maskW + x] = 1;
-          maskPixelCount++;
-        }
-      }
-    }
+    const { mask, pixelCount: maskPixelCount } = computeMask(det, output1Data, maskH, maskW, inputSize);
 
     // Calculate area in original image coordinates
-    const scaleToOrig = (INPUT_SIZE / maskW) * (1 / preprocessInfo.scale);
+    const scaleToOrig = (inputSize / maskW) * (1 / preprocessInfo.scale);
     const areaOriginal = maskPixelCount * scaleToOrig * scaleToOrig;
 
     // Filter by minimum area
@@ -523,7 +567,8 @@ function upsampleMask(
   maskH: number,
   targetW: number,
   targetH: number,
-  preprocessInfo: PreprocessInfo
+  preprocessInfo: PreprocessInfo,
+  inputSize: number
 ): string {
   // Create canvas at mask size
   const canvas = document.createElement('canvas');
@@ -542,7 +587,7 @@ function upsampleMask(
   }
   ctx.putImageData(imgData, 0, 0);
 
-  // The mask represents the full INPUT_SIZE x INPUT_SIZE space which includes
+  // The mask represents the full inputSize x inputSize space which includes
   // letterbox padding. We need to extract just the image region (excluding padding)
   // and then scale that to the target (original image) dimensions.
   const { padX, padY, scale } = preprocessInfo;
@@ -550,10 +595,10 @@ function upsampleMask(
   const newH = Math.round(targetH * scale); // image height in input space
 
   // Map from input space to mask space
-  const maskPadX = (padX / INPUT_SIZE) * maskW;
-  const maskPadY = (padY / INPUT_SIZE) * maskH;
-  const maskImageW = (newW / INPUT_SIZE) * maskW;
-  const maskImageH = (newH / INPUT_SIZE) * maskH;
+  const maskPadX = (padX / inputSize) * maskW;
+  const maskPadY = (padY / inputSize) * maskH;
+  const maskImageW = (newW / inputSize) * maskW;
+  const maskImageH = (newH / inputSize) * maskH;
 
   // Create target canvas and draw only the image region (exclude padding)
   const targetCanvas = document.createElement('canvas');
@@ -593,15 +638,34 @@ export async function detectGrains(
     throw new Error('Model not loaded. Call loadModel() first.');
   }
 
+  return runInstanceSegmentation(session, FASTSAM_INPUT, imageData, params, progressCallback);
+}
+
+/**
+ * Run a YOLOv8-seg style instance segmentation model (detection head plus
+ * mask prototypes, like FastSAM) on an image.
+ *
+ * @param modelSession - Loaded ONNX session
+ * @param input - Model input size and normalization
+ * @param imageData - ImageData from canvas
+ * @param params - Detection parameters
+ * @param progressCallback - Optional progress callback
+ * @returns Detection result with masks
+ */
+export async function runInstanceSegmentation(
+  modelSession: ort.InferenceSession,
+  input: ModelInputConfig,
+  imageData: ImageData,
+  params: FastSAMParams = {},
+  progressCallback?: (info: ProgressInfo) => void
+): Promise<FastSAMDetectionResult> {
   const startTime = Date.now();
   const mergedParams = { ...DEFAULT_PARAMS, ...params } as Required<FastSAMParams>;
 
   console.log('[FastSAM-Web] Starting detection with params:', mergedParams);
 
-  const modelSession = session;
-
   // Preprocess image
-  const { tensor, preprocessInfo } = await preprocessImage(imageData, progressCallback);
+  const { tensor, preprocessInfo } = await preprocessImage(imageData, input, progressCallback);
 
   // Run inference
   if (progressCallback) {
@@ -620,7 +684,7 @@ export async function detectGrains(
   const output0 = results[modelSession.outputNames[0]];
   const output1 = results[modelSession.outputNames[1]];
 
-  const rawMasks = postprocessOutput(output0, output1, mergedParams, preprocessInfo, progressCallback);
+  const rawMasks = postprocessOutput(output0, output1, mergedParams, preprocessInfo, input.inputSize, progressCallback);
 
   // Upsample masks to original image size
   if (progressCallback) {
@@ -633,7 +697,7 @@ export async function detectGrains(
   for (let i = 0; i < rawMasks.length; i++) {
     const m = rawMasks[i];
     try {
-      const maskBase64 = upsampleMask(m.mask, m.maskW, m.maskH, origW, origH, preprocessInfo);
+      const maskBase64 = upsampleMask(m.mask, m.maskW, m.maskH, origW, origH, preprocessInfo, input.inputSize);
       upsampledMasks.push({
         maskBase64,
         confidence: m.confidence,
@@ -663,7 +727,219 @@ export async function detectGrains(
     },
     processingTimeMs: totalTime,
     inferenceTimeMs: inferenceTime,
-    inputSize: INPUT_SIZE,
+    inputSize: input.inputSize,
+  };
+}
+
+// ============================================================================
+// Prompted Segmentation
+// ============================================================================
+
+/**
+ * Detection parameters for prompted segmentation. Lower confidence and
+ * looser NMS than automatic detection keep more candidate masks, so a
+ * click can still find a grain the automatic pass would drop.
+ */
+const PROMPT_PARAMS = {
+  confidenceThreshold: 0.25,
+  iouThreshold: 0.9,
+};
+
+/**
+ * Among masks containing a positive point, the smallest one within this
+ * fraction of the best confidence wins: a click inside a grain should pick
+ * the grain, not the aggregate around it.
+ */
+const PROMPT_CONFIDENCE_RATIO = 0.8;
+
+/** A click prompt, in pixels of the image the session was created from */
+export interface PromptPoint {
+  x: number;
+  y: number;
+  /** false for a point the mask must exclude */
+  positive: boolean;
+}
+
+/** Point and box prompts for one segmentation */
+export interface SegmentationPrompt {
+  points: PromptPoint[];
+  /** [x1, y1, x2, y2] in image pixels */
+  box: [number, number, number, number] | null;
+}
+
+/**
+ * Model output for one image, kept so prompts can be re-evaluated without
+ * running inference again.
+ */
+export interface PromptSession {
+  detections: Detection[];
+  prototypes: Float32Array;
+  maskH: number;
+  maskW: number;
+  preprocessInfo: PreprocessInfo;
+}
+
+/** Mask selected by a prompt, at the size of the session image */
+export interface PromptMask {
+  /** 1 inside the mask, row-major */
+  mask: Uint8Array;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+/**
+ * Run FastSAM once on an image and keep every candidate mask for prompting.
+ * Model must be loaded first via loadModel().
+ *
+ * @param imageData - ImageData from canvas
+ * @param progressCallback - Optional progress callback
+ * @returns Session to pass to segmentWithPrompt()
+ */
+export async function createPromptSession(
+  imageData: ImageData,
+  progressCallback?: (info: ProgressInfo) => void
+): Promise<PromptSession> {
+  if (!session) {
+    throw new Error('Model not loaded. Call loadModel() first.');
+  }
+
+  const modelSession = session;
+  const { tensor, preprocessInfo } = await preprocessImage(imageData, FASTSAM_INPUT, progressCallback);
+
+  if (progressCallback) {
+    progressCallback({ step: 'Running inference...', percent: 40 });
+  }
+
+  const feeds: Record<string, ort.Tensor> = {};
+  feeds[modelSession.inputNames[0]] = tensor;
+  const results = await modelSession.run(feeds);
+
+  const output0 = results[modelSession.outputNames[0]];
+  const output1 = results[modelSession.outputNames[1]];
+
+  const detections = nms(
+    extractDetections(output0, PROMPT_PARAMS.confidenceThreshold, preprocessInfo),
+    PROMPT_PARAMS.iouThreshold
+  );
+  console.log('[FastSAM-Web] Prompt session candidates:', detections.length);
+
+  if (progressCallback) {
+    progressCallback({ step: 'Ready', percent: 100 });
+  }
+
+  return {
+    detections,
+    prototypes: output1.data as Float32Array,
+    maskH: output1.dims[2] as number,
+    maskW: output1.dims[3] as number,
+    preprocessInfo,
+  };
+}
+
+/**
+ * Select the mask a prompt points at.
+ *
+ * Masks containing a negative point are never selected. A box selects the
+ * mask whose box overlaps it best; each positive point selects the
+ * smallest confident mask containing it. The result is the union of the
+ * selected masks.
+ *
+ * @param promptSession - Session from createPromptSession()
+ * @param prompt - Points and/or box in session image pixels
+ * @returns Mask at session image size, or null if nothing matches
+ */
+export function segmentWithPrompt(
+  promptSession: PromptSession,
+  prompt: SegmentationPrompt
+): PromptMask | null {
+  const { detections, prototypes, maskH, maskW, preprocessInfo } = promptSession;
+  const { scale, padX, padY, origW, origH } = preprocessInfo;
+
+  // Image pixels -> input space
+  const toInput = (x: number, y: number) => [x * scale + padX, y * scale + padY];
+
+  const contains = (det: Detection, point: PromptPoint) => {
+    const [ix, iy] = toInput(point.x, point.y);
+    if (ix < det.box[0] || ix > det.box[2] || iy < det.box[1] || iy > det.box[3]) return false;
+    const mx = Math.min(maskW - 1, Math.max(0, Math.floor((ix * maskW) / INPUT_SIZE)));
+    const my = Math.min(maskH - 1, Math.max(0, Math.floor((iy * maskH) / INPUT_SIZE)));
+    return maskLogit(det, prototypes, maskH, maskW, mx, my) > 0;
+  };
+
+  const negatives = prompt.points.filter((p) => !p.positive);
+  const candidates = detections.filter((det) => !negatives.some((p) => contains(det, p)));
+
+  const masks = new Map<Detection, { mask: Uint8Array; pixelCount: number }>();
+  const maskOf = (det: Detection) => {
+    let computed = masks.get(det);
+    if (!computed) {
+      computed = computeMask(det, prototypes, maskH, maskW);
+      masks.set(det, computed);
+    }
+    return computed;
+  };
+
+  const selected = new Set<Detection>();
+
+  if (prompt.box) {
+    const [x1, y1] = toInput(prompt.box[0], prompt.box[1]);
+    const [x2, y2] = toInput(prompt.box[2], prompt.box[3]);
+    let best: Detection | null = null;
+    let bestIoU = 0;
+    for (const det of candidates) {
+      const iou = calculateIoU(det.box, [x1, y1, x2, y2]);
+      if (iou > bestIoU) {
+        bestIoU = iou;
+        best = det;
+      }
+    }
+    if (best) selected.add(best);
+  }
+
+  for (const point of prompt.points) {
+    if (!point.positive) continue;
+    const containing = candidates.filter((det) => contains(det, point));
+    if (containing.length === 0) continue;
+
+    const maxConfidence = Math.max(...containing.map((det) => det.confidence));
+    let best: Detection | null = null;
+    for (const det of containing) {
+      if (det.confidence < maxConfidence * PROMPT_CONFIDENCE_RATIO) continue;
+      if (!best || maskOf(det).pixelCount < maskOf(best).pixelCount) best = det;
+    }
+    if (best) selected.add(best);
+  }
+
+  if (selected.size === 0) return null;
+
+  // Union in prototype space, then sample at image size (strips letterbox padding)
+  const union = new Uint8Array(maskH * maskW);
+  for (const det of selected) {
+    const { mask } = maskOf(det);
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i]) union[i] = 1;
+    }
+  }
+
+  const mask = new Uint8Array(origW * origH);
+  const colIndex = new Int32Array(origW);
+  for (let x = 0; x < origW; x++) {
+    colIndex[x] = Math.min(maskW - 1, Math.floor((((x + 0.5) * scale + padX) * maskW) / INPUT_SIZE));
+  }
+  for (let y = 0; y < origH; y++) {
+    const my = Math.min(maskH - 1, Math.floor((((y + 0.5) * scale + padY) * maskH) / INPUT_SIZE));
+    const row = my * maskW;
+    for (let x = 0; x < origW; x++) {
+      mask[y * origW + x] = union[row + colIndex[x]];
+    }
+  }
+
+  return {
+    mask,
+    width: origW,
+    height: origH,
+    confidence: Math.max(...[...selected].map((det) => det.confidence)),
   };
 }
 
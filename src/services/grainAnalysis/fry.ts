@@ -0,0 +1,279 @@
+/**
+ * Fry Method (Center-to-Center Strain Analysis)
+ *
+ * Strain from the spacing of grain centers (Fry 1979). Every centroid is
+ * placed in turn at the origin and the positions of its neighbours are
+ * plotted; in a strained aggregate the empty region around the origin
+ * (the central vacancy) is an ellipse with the shape and orientation of
+ * the strain ellipse.
+ *
+ * The vacancy is auto-fitted from the closest Fry points in angular
+ * sectors, and can then be adjusted by hand. Orientations are in image
+ * coordinates (degrees clockwise from horizontal, 0-180).
+ */
+
+import type { FryAnalysisResult, Spot } from '@/types/project-types';
+import { multiPolygonCentroid, spotToMultiPolygon } from '../../utils/spotPolygons';
+import {
+  imageDirectionToFabricAngle,
+  imageDirectionToTrendPlunge,
+  type OrientationFrame,
+} from '../orientation';
+import type { FryEllipse, FryPoint, FryResults } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Fewer centroids than this give no Fry plot */
+export const MIN_FRY_CENTROIDS = 10;
+
+/** Separations out to this many mean nearest-neighbour distances are plotted */
+export const FRY_EXTENT_FACTOR = 4;
+
+/** Angular sectors used to find the edge of the central vacancy */
+const VACANCY_SECTORS = 36;
+
+/**
+ * Rank of the Fry point taken as the vacancy edge in each sector (0 = closest).
+ * Skipping the closest point keeps single touching or overlapping grains from
+ * pulling the edge inward.
+ */
+const VACANCY_EDGE_RANK = 1;
+
+// =============================================================================
+// Centroids
+// =============================================================================
+
+/**
+ * Centroid of a spot in image pixels: the stored grain-detection centroid
+ * when present, otherwise the area-weighted centroid of all its polygons
+ * (holes subtracted), so multipolygon grains are placed like simple ones.
+ *
+ * @param spot - Spot to locate
+ * @returns Centroid, or null for spots without polygon area
+ */
+export function getSpotCentroid(spot: Spot): { X: number; Y: number } | null {
+  if (spot.centroid) return spot.centroid;
+
+  const centroid = multiPolygonCentroid(spotToMultiPolygon(spot));
+  return centroid ? { X: centroid.x, Y: centroid.y } : null;
+}
+
+// =============================================================================
+// Fry Plot
+// =============================================================================
+
+/**
+ * Build Fry points from grain centroids.
+ *
+ * Only separations up to FRY_EXTENT_FACTOR mean nearest-neighbour distances
+ * are kept; the vacancy is defined by near neighbours and distant pairs
+ * would only add points (n² of them) to the plot.
+ *
+ * @param centroids - Grain centers in image pixels
+ * @returns Fry points (each pair in both directions), or null with too few centroids
+ */
+export function calculateFry(centroids: Array<{ X: number; Y: number }>): FryResults | null {
+  if (centroids.length < MIN_FRY_CENTROIDS) return null;
+
+  // Sweep in X order so distant pairs can be skipped early
+  const sorted = [...centroids].sort((a, b) => a.X - b.X);
+  const n = sorted.length;
+
+  // Mean nearest-neighbour distance
+  const nearest = new Array<number>(n).fill(Infinity);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = sorted[j].X - sorted[i].X;
+      if (dx >= nearest[i]) break;
+      const d = Math.hypot(dx, sorted[j].Y - sorted[i].Y);
+      if (d > 0) {
+        if (d < nearest[i]) nearest[i] = d;
+        if (d < nearest[j]) nearest[j] = d;
+      }
+    }
+  }
+  // The sweep only looks right; finish each point's search to the left
+  for (let i = 0; i < n; i++) {
+    for (let j = i - 1; j >= 0; j--) {
+      const dx = sorted[i].X - sorted[j].X;
+      if (dx >= nearest[i]) break;
+      const d = Math.hypot(dx, sorted[i].Y - sorted[j].Y);
+      if (d > 0 && d < nearest[i]) nearest[i] = d;
+    }
+  }
+  const finite = nearest.filter(Number.isFinite);
+  if (finite.length === 0) return null;
+  const meanNearestNeighbor = finite.reduce((sum, d) => sum + d, 0) / finite.length;
+  const extent = FRY_EXTENT_FACTOR * meanNearestNeighbor;
+
+  const points: FryPoint[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = sorted[j].X - sorted[i].X;
+      if (dx > extent) break;
+      const dy = sorted[j].Y - sorted[i].Y;
+      if ((dx !== 0 || dy !== 0) && dx * dx + dy * dy <= extent * extent) {
+        points.push({ dx, dy }, { dx: -dx, dy: -dy });
+      }
+    }
+  }
+
+  return {
+    centroidCount: n,
+    points,
+    meanNearestNeighbor,
+    extent,
+    autoEllipse: fitFryVacancy(points),
+  };
+}
+
+/**
+ * Fit the central vacancy ellipse.
+ *
+ * Takes the edge point in each angular sector and fits the origin-centered
+ * conic A·x² + 2B·xy + C·y² = 1 to them by least squares.
+ *
+ * @param points - Fry points
+ * @returns Vacancy ellipse, or null if the edge points do not define one
+ */
+export function fitFryVacancy(points: FryPoint[]): FryEllipse | null {
+  const sectorWidth = (2 * Math.PI) / VACANCY_SECTORS;
+  const sectors: FryPoint[][] = Array.from({ length: VACANCY_SECTORS }, () => []);
+  for (const point of points) {
+    const angle = Math.atan2(point.dy, point.dx) + Math.PI;
+    sectors[Math.min(VACANCY_SECTORS - 1, Math.floor(angle / sectorWidth))].push(point);
+  }
+
+  const edge: FryPoint[] = [];
+  for (const sector of sectors) {
+    if (sector.length === 0) continue;
+    sector.sort((a, b) => a.dx * a.dx + a.dy * a.dy - (b.dx * b.dx + b.dy * b.dy));
+    edge.push(sector[Math.min(VACANCY_EDGE_RANK, sector.length - 1)]);
+  }
+  if (edge.length < VACANCY_SECTORS / 2) return null;
+
+  // Normal equations for [A, B, C]
+  const m = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const r = [0, 0, 0];
+  for (const { dx, dy } of edge) {
+    const row = [dx * dx, 2 * dx * dy, dy * dy];
+    for (let i = 0; i < 3; i++) {
+      r[i] += row[i];
+      for (let j = 0; j < 3; j++) m[i][j] += row[i] * row[j];
+    }
+  }
+  const solution = solve3(m, r);
+  if (!solution) return null;
+  const [A, B, C] = solution;
+  if (A <= 0 || A * C - B * B <= 0) return null;
+
+  // Eigenvalues of [[A, B], [B, C]]: the smaller one belongs to the long axis
+  const discriminant = Math.sqrt((A - C) * (A - C) + 4 * B * B);
+  const lambdaLarge = (A + C + discriminant) / 2;
+  const lambdaSmall = (A + C - discriminant) / 2;
+  const shortAxisAngle = (0.5 * Math.atan2(2 * B, A - C) * 180) / Math.PI;
+
+  return {
+    semiMajor: 1 / Math.sqrt(lambdaSmall),
+    semiMinor: 1 / Math.sqrt(lambdaLarge),
+    orientation: (((shortAxisAngle + 90) % 180) + 180) % 180,
+  };
+}
+
+/**
+ * Solve a 3×3 linear system by Cramer's rule
+ */
+function solve3(m: number[][], r: number[]): [number, number, number] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-300) return null;
+  const replace = (column: number) => m.map((row, i) => row.map((v, j) => (j === column ? r[i] : v)));
+  return [det(replace(0)) / d, det(replace(1)) / d, det(replace(2)) / d];
+}
+
+// =============================================================================
+// Orientation
+// =============================================================================
+
+/**
+ * Convert a vacancy ellipse to the result stored on the micrograph.
+ *
+ * @param ellipse - Fitted or adjusted vacancy ellipse
+ * @param spotCount - Number of centroids used
+ * @param fitMethod - Whether the ellipse was auto-fitted or adjusted by hand
+ * @param frame - Resolved orientation frame, for geographic/fabric reporting
+ * @returns Fry analysis result
+ */
+export function fryEllipseToAnalysis(
+  ellipse: FryEllipse,
+  spotCount: number,
+  fitMethod: 'auto' | 'manual',
+  frame: OrientationFrame | null
+): FryAnalysisResult {
+  const geographic = frame ? imageDirectionToTrendPlunge(ellipse.orientation, frame) : null;
+  const fabricAngle = frame ? imageDirectionToFabricAngle(ellipse.orientation, frame) : null;
+  const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+  return {
+    timestamp: new Date().toISOString(),
+    spotCount,
+    fitMethod,
+    strainRatio: round(ellipse.semiMajor / ellipse.semiMinor, 3),
+    orientation: round(ellipse.orientation, 1),
+    semiMajorPixels: round(ellipse.semiMajor, 2),
+    semiMinorPixels: round(ellipse.semiMinor, 2),
+    trend: geographic ? round(geographic.trend, 1) : null,
+    plunge: geographic ? round(geographic.plunge, 1) : null,
+    sectionPlane: frame?.fabricPlane ?? null,
+    fabricAngle: fabricAngle != null ? round(fabricAngle, 1) : null,
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Format Fry points and the vacancy ellipse as a CSV string for export.
+ *
+ * @param results - Fry plot data
+ * @param analysis - Saved or current vacancy ellipse result
+ * @returns CSV string with headers
+ */
+export function exportFryToCSV(results: FryResults, analysis: FryAnalysisResult): string {
+  const lines: string[] = [];
+
+  lines.push('Fry Strain Analysis Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Centroids: ${results.centroidCount}`);
+  lines.push(`Mean Nearest Neighbour (px): ${results.meanNearestNeighbor.toFixed(2)}`);
+  lines.push(`Vacancy Fit: ${analysis.fitMethod}`);
+  lines.push(`Strain Ratio: ${analysis.strainRatio}`);
+  lines.push(`Long Axis (° from image horizontal): ${analysis.orientation}`);
+  if (analysis.trend != null && analysis.plunge != null) {
+    lines.push(`Long Axis Trend/Plunge: ${analysis.trend}/${analysis.plunge}`);
+  }
+  if (analysis.sectionPlane) {
+    lines.push(`Section Plane: ${analysis.sectionPlane}`);
+  }
+  if (analysis.sectionPlane && analysis.fabricAngle != null) {
+    lines.push(`Long Axis (° from ${analysis.sectionPlane[0]} toward ${analysis.sectionPlane[1]}): ${analysis.fabricAngle}`);
+  }
+  lines.push('');
+
+  lines.push('dX (px),dY (px)');
+  for (const point of results.points) {
+    lines.push(`${point.dx.toFixed(2)},${point.dy.toFixed(2)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -6,3 +6,7 @@
 
 export * from './types';
 export * from './statistics';
+export * from './lineIntercept';
+export * from './stereology';
+export * from './rfPhi';
+export * from './fry';
@@ -0,0 +1,339 @@
+/**
+ * Line-Intercept Grain Size Measurement
+ *
+ * Mean intercept length, corrected grain size and directional anisotropy
+ * from grain boundary intersections marked along test lines (ASTM E112
+ * Heyn/Abrams procedures and ASTM E1268 for anisotropy).
+ */
+
+import type { TestLine, TestLinePattern } from '../pointCounting/types';
+import type { GrainSizeType } from '@/types/project-types';
+import type {
+  InterceptKind,
+  LineInterceptMark,
+  LineInterceptDirectionStats,
+  LineInterceptResults,
+} from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Intersection weights: a test line through a triple junction crosses
+ * one and a half boundaries on average (ASTM E112).
+ */
+export const INTERCEPT_WEIGHTS: Record<InterceptKind, number> = {
+  boundary: 1,
+  triple: 1.5,
+};
+
+/**
+ * Factors converting mean intercept length to a 3D grain size
+ */
+export const INTERCEPT_CORRECTION_FACTORS: { value: number; label: string }[] = [
+  { value: 1, label: 'None (mean intercept length)' },
+  { value: 1.5, label: '1.5 – spheres' },
+  { value: 1.56, label: '1.56 – tetrakaidecahedra (Mendelson)' },
+];
+
+/** Directions closer than this (degrees) are treated as the same line set */
+const DIRECTION_TOLERANCE = 1;
+
+/** Sectors used to group randomly oriented lines for anisotropy */
+const RANDOM_DIRECTION_SECTORS = 4;
+
+/** Two-sided 95% Student t values for 1-30 degrees of freedom */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function studentT95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) return NaN;
+  return degreesOfFreedom <= T_95.length ? T_95[degreesOfFreedom - 1] : 1.96;
+}
+
+/**
+ * Smallest angular difference between two line directions (0-90 degrees)
+ */
+function directionDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 180;
+  return Math.min(diff, 180 - diff);
+}
+
+/**
+ * Group lines into directions: parallel sets keep their own direction,
+ * scattered (random) directions are binned into sectors.
+ */
+function groupLinesByDirection(lines: TestLine[]): { angle: number; lines: TestLine[] }[] {
+  const groups: { angle: number; lines: TestLine[] }[] = [];
+  for (const line of lines) {
+    const group = groups.find((g) => directionDifference(g.angle, line.angle) < DIRECTION_TOLERANCE);
+    if (group) {
+      group.lines.push(line);
+    } else {
+      groups.push({ angle: line.angle, lines: [line] });
+    }
+  }
+
+  if (groups.length <= RANDOM_DIRECTION_SECTORS) {
+    return groups.sort((a, b) => a.angle - b.angle);
+  }
+
+  const sectorWidth = 180 / RANDOM_DIRECTION_SECTORS;
+  const sectors = Array.from({ length: RANDOM_DIRECTION_SECTORS }, (_, i) => ({
+    angle: i * sectorWidth,
+    lines: [] as TestLine[],
+  }));
+  for (const line of lines) {
+    const sector = Math.round(line.angle / sectorWidth) % RANDOM_DIRECTION_SECTORS;
+    sectors[sector].lines.push(line);
+  }
+  return sectors.filter((s) => s.lines.length > 0);
+}
+
+/**
+ * Get the image position of a mark on its test line
+ */
+export function getInterceptPosition(line: TestLine, t: number): { x: number; y: number } {
+  return {
+    x: line.x1 + (line.x2 - line.x1) * t,
+    y: line.y1 + (line.y2 - line.y1) * t,
+  };
+}
+
+/**
+ * Project an image point onto a test line.
+ *
+ * @returns Position along the line (clamped to 0-1) and distance from the line in pixels
+ */
+export function projectOntoTestLine(
+  line: TestLine,
+  x: number,
+  y: number
+): { t: number; distance: number } {
+  const dx = line.x2 - line.x1;
+  const dy = line.y2 - line.y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - line.x1) * dx + (y - line.y1) * dy) / lengthSq)) : 0;
+  const position = getInterceptPosition(line, t);
+  return { t, distance: Math.hypot(x - position.x, y - position.y) };
+}
+
+// =============================================================================
+// Calculation
+// =============================================================================
+
+/**
+ * Calculate line-intercept grain size results.
+ *
+ * The mean intercept length is the total test line length divided by the
+ * weighted number of boundary intersections. Its 95% confidence interval
+ * and relative accuracy follow ASTM E112, treating each line as a field.
+ *
+ * @param lines - Measured test lines
+ * @param marks - Intersections marked on those lines
+ * @param scalePixelsPerCentimeter - Micrograph scale (results are in pixels without one)
+ * @param correctionFactor - Factor converting mean intercept length to grain size
+ * @returns Line-intercept results
+ */
+export function calculateLineInterceptResults(
+  lines: TestLine[],
+  marks: LineInterceptMark[],
+  scalePixelsPerCentimeter: number | null | undefined,
+  correctionFactor: number = 1.5
+): LineInterceptResults {
+  const micronsPerPixel = scalePixelsPerCentimeter ? 10000 / scalePixelsPerCentimeter : null;
+  const unitsPerPixel = micronsPerPixel ?? 1;
+
+  const intersectionsByLine = new Map<number, number>();
+  for (const mark of marks) {
+    intersectionsByLine.set(
+      mark.lineIndex,
+      (intersectionsByLine.get(mark.lineIndex) ?? 0) + INTERCEPT_WEIGHTS[mark.kind]
+    );
+  }
+
+  const lineLength = (line: TestLine) => line.length * unitsPerPixel;
+  const lineIntersections = (line: TestLine) => intersectionsByLine.get(line.index) ?? 0;
+
+  const totalLength = lines.reduce((sum, line) => sum + lineLength(line), 0);
+  const intersections = lines.reduce((sum, line) => sum + lineIntersections(line), 0);
+  const meanInterceptLength = intersections > 0 ? totalLength / intersections : null;
+
+  // Per-line intersections per unit length, treated as independent fields
+  const perLineDensity = lines.filter((l) => l.length > 0).map((l) => lineIntersections(l) / lineLength(l));
+  let confidenceInterval95: number | null = null;
+  let relativeAccuracy: number | null = null;
+  if (perLineDensity.length > 1 && intersections > 0) {
+    const n = perLineDensity.length;
+    const mean = perLineDensity.reduce((sum, v) => sum + v, 0) / n;
+    const sd = Math.sqrt(perLineDensity.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+    confidenceInterval95 = (studentT95(n - 1) * sd) / Math.sqrt(n);
+    relativeAccuracy = (confidenceInterval95 / (intersections / totalLength)) * 100;
+  }
+
+  // Spread of per-line mean intercept lengths
+  const perLineIntercepts = lines
+    .filter((l) => lineIntersections(l) > 0)
+    .map((l) => lineLength(l) / lineIntersections(l));
+  let interceptStdDev: number | null = null;
+  if (perLineIntercepts.length > 1) {
+    const n = perLineIntercepts.length;
+    const mean = perLineIntercepts.reduce((sum, v) => sum + v, 0) / n;
+    interceptStdDev = Math.sqrt(perLineIntercepts.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+  }
+
+  // ASTM E112: G = -6.643856 log10(l) - 3.288, with l in millimetres
+  const astmGrainSizeNumber = meanInterceptLength !== null && micronsPerPixel !== null
+    ? -6.643856 * Math.log10(meanInterceptLength / 1000) - 3.288
+    : null;
+
+  // Directional anisotropy
+  const directions: LineInterceptDirectionStats[] = groupLinesByDirection(lines).map((group) => {
+    const groupLength = group.lines.reduce((sum, line) => sum + lineLength(line), 0);
+    const groupIntersections = group.lines.reduce((sum, line) => sum + lineIntersections(line), 0);
+    return {
+      angle: group.angle,
+      lineCount: group.lines.length,
+      totalLength: groupLength,
+      intersections: groupIntersections,
+      meanInterceptLength: groupIntersections > 0 ? groupLength / groupIntersections : null,
+    };
+  });
+
+  let anisotropyIndex: number | null = null;
+  let degreeOfOrientation: number | null = null;
+  let elongationDirection: number | null = null;
+  const measuredDirections = directions.filter((d) => d.meanInterceptLength !== null);
+  if (measuredDirections.length >= 2) {
+    const longest = measuredDirections.reduce((a, b) => (b.meanInterceptLength! > a.meanInterceptLength! ? b : a));
+    const shortest = measuredDirections.reduce((a, b) => (b.meanInterceptLength! < a.meanInterceptLength! ? b : a));
+    anisotropyIndex = longest.meanInterceptLength! / shortest.meanInterceptLength!;
+    elongationDirection = longest.angle;
+
+    // ASTM E1268: Omega-12 = (PL_perp - PL_par) / (PL_perp + 0.571 PL_par), where
+    // "parallel" lines run along the elongation and cross the fewest boundaries
+    const perpendicular = measuredDirections.reduce((a, b) =>
+      directionDifference(b.angle, longest.angle) > directionDifference(a.angle, longest.angle) ? b : a
+    );
+    const plParallel = 1 / longest.meanInterceptLength!;
+    const plPerpendicular = 1 / perpendicular.meanInterceptLength!;
+    degreeOfOrientation = Math.max(0, (plPerpendicular - plParallel) / (plPerpendicular + 0.571 * plParallel));
+  }
+
+  return {
+    sizeUnit: micronsPerPixel !== null ? 'um' : 'px',
+    lineCount: lines.length,
+    totalLength,
+    intersections,
+    meanInterceptLength,
+    interceptStdDev,
+    confidenceInterval95,
+    relativeAccuracy,
+    correctionFactor,
+    correctedGrainSize: meanInterceptLength !== null ? meanInterceptLength * correctionFactor : null,
+    astmGrainSizeNumber,
+    directions,
+    anisotropyIndex,
+    degreeOfOrientation,
+    elongationDirection,
+  };
+}
+
+// =============================================================================
+// Conversion & Export
+// =============================================================================
+
+function round(value: number | null, decimals: number = 2): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert line-intercept results to a grain size entry for the micrograph.
+ *
+ * The entry's mean is the corrected grain size; the raw mean intercept
+ * length and anisotropy are kept in its lineIntercept details.
+ *
+ * @param results - Line-intercept results
+ * @param pattern - Test line pattern used
+ * @param phases - Phases the measurement applies to
+ * @returns Grain size entry
+ */
+export function lineInterceptResultsToGrainSize(
+  results: LineInterceptResults,
+  pattern: TestLinePattern,
+  phases: string[]
+): GrainSizeType {
+  return {
+    phases: phases.length > 0 ? phases : null,
+    mean: round(results.correctedGrainSize),
+    median: null,
+    mode: null,
+    standardDeviation: results.interceptStdDev !== null
+      ? round(results.interceptStdDev * results.correctionFactor)
+      : null,
+    sizeUnit: results.sizeUnit,
+    method: 'line-intercept',
+    lineIntercept: {
+      pattern,
+      testLineCount: results.lineCount,
+      totalLineLength: round(results.totalLength),
+      intersectionCount: results.intersections,
+      meanInterceptLength: round(results.meanInterceptLength),
+      correctionFactor: results.correctionFactor,
+      astmGrainSizeNumber: round(results.astmGrainSizeNumber, 1),
+      relativeAccuracy: round(results.relativeAccuracy, 1),
+      anisotropyIndex: round(results.anisotropyIndex),
+      degreeOfOrientation: round(results.degreeOfOrientation),
+      elongationDirection: round(results.elongationDirection, 1),
+      directions: results.directions.map((d) => ({
+        angle: round(d.angle, 1),
+        intersectionCount: d.intersections,
+        meanInterceptLength: round(d.meanInterceptLength),
+      })),
+      measuredAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Format line-intercept results as a CSV string for export.
+ *
+ * @param results - Line-intercept results
+ * @returns CSV string with headers
+ */
+export function exportLineInterceptToCSV(results: LineInterceptResults): string {
+  const unit = results.sizeUnit;
+  const fmt = (value: number | null, decimals: number = 2) => (value !== null ? value.toFixed(decimals) : '');
+  const lines: string[] = [];
+
+  lines.push('Line Intercept Grain Size Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Test Lines: ${results.lineCount}`);
+  lines.push(`Total Line Length (${unit}): ${fmt(results.totalLength)}`);
+  lines.push(`Intersections: ${results.intersections}`);
+  lines.push(`Mean Intercept Length (${unit}): ${fmt(results.meanInterceptLength)}`);
+  lines.push(`Correction Factor: ${results.correctionFactor}`);
+  lines.push(`Corrected Grain Size (${unit}): ${fmt(results.correctedGrainSize)}`);
+  lines.push(`ASTM Grain Size Number: ${fmt(results.astmGrainSizeNumber, 1)}`);
+  lines.push(`Relative Accuracy (%): ${fmt(results.relativeAccuracy, 1)}`);
+  lines.push(`Anisotropy Index: ${fmt(results.anisotropyIndex)}`);
+  lines.push(`Degree of Orientation: ${fmt(results.degreeOfOrientation)}`);
+  lines.push('');
+
+  lines.push(`Direction (deg),Lines,Length (${unit}),Intersections,Mean Intercept (${unit})`);
+  for (const d of results.directions) {
+    lines.push(`${d.angle.toFixed(1)},${d.lineCount},${d.totalLength.toFixed(2)},${d.intersections},${fmt(d.meanInterceptLength)}`);
+  }
+
+  return lines.join('\n');
+}
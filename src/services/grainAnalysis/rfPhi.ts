@@ -0,0 +1,331 @@
+/**
+ * Rf/φ Strain Analysis and Shape Tensor
+ *
+ * Finite strain from the shapes of deformed grains, treating each grain as
+ * its best-fit ellipse (second moments, see calculateEllipseMetrics):
+ * - Rf/φ data: axial ratio against long-axis orientation
+ * - Harmonic mean Rf and vector mean orientation (Lisle 1977)
+ * - Theta-curve fitting: the strain ratio Rs whose removal gives the most
+ *   uniform distribution of initial orientations, judged by χ² (Lisle 1985)
+ * - Bulk shape tensor averaged from unit-determinant grain tensors
+ *   (Shimamoto & Ikeda 1976)
+ *
+ * Orientations are in image coordinates (degrees from horizontal, 0-180).
+ */
+
+import type { GrainMetrics } from '../../utils/grainMetrics';
+import type { GrainOrientationType } from '@/types/project-types';
+import type { RfPhiPoint, RfPhiResults, ShapeTensor, ThetaCurve } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Fewer grains than this give no theta-curve fit */
+export const MIN_THETA_FIT_GRAINS = 20;
+
+/** Initial orientations (degrees) drawn as theta curves */
+export const DEFAULT_THETA_CURVE_ANGLES = [-80, -60, -40, -20, 0, 20, 40, 60, 80];
+
+/** Expected count per θ class needed for a meaningful χ² test */
+const MIN_EXPECTED_PER_CLASS = 5;
+const MIN_THETA_CLASSES = 4;
+const MAX_THETA_CLASSES = 18;
+
+/** Step in ln(Rs) when searching for the best-fit strain ratio */
+const STRAIN_SEARCH_STEP = 0.005;
+
+/** χ² critical values at 95% for 1-17 degrees of freedom */
+const CHI_SQUARED_95 = [
+  3.841, 5.991, 7.815, 9.488, 11.07, 12.592, 14.067, 15.507, 16.919,
+  18.307, 19.675, 21.026, 22.362, 23.685, 24.996, 26.296, 27.587,
+];
+
+// =============================================================================
+// Tensor Helpers
+// =============================================================================
+
+interface Tensor2 {
+  xx: number;
+  xy: number;
+  yy: number;
+}
+
+/**
+ * Wrap an axial angle into [-90, 90)
+ */
+function wrapAxial(degrees: number): number {
+  return ((((degrees + 90) % 180) + 180) % 180) - 90;
+}
+
+/**
+ * Unit-determinant tensor of an ellipse with axial ratio r and long axis at angle degrees
+ */
+function ellipseTensor(ratio: number, degrees: number): Tensor2 {
+  const t = (degrees * Math.PI) / 180;
+  const c = Math.cos(t);
+  const s = Math.sin(t);
+  const major = ratio;
+  const minor = 1 / ratio;
+  return {
+    xx: major * c * c + minor * s * s,
+    xy: (major - minor) * c * s,
+    yy: major * s * s + minor * c * c,
+  };
+}
+
+/**
+ * Axial ratio and long-axis angle (degrees, -90 to 90) of a tensor ellipse
+ */
+function tensorEllipse(tensor: Tensor2): { ratio: number; angle: number } {
+  const diff = tensor.xx - tensor.yy;
+  const discriminant = Math.sqrt(diff * diff + 4 * tensor.xy * tensor.xy);
+  const lambda1 = (tensor.xx + tensor.yy + discriminant) / 2;
+  const lambda2 = (tensor.xx + tensor.yy - discriminant) / 2;
+  const angle = (0.5 * Math.atan2(2 * tensor.xy, diff) * 180) / Math.PI;
+  return {
+    ratio: lambda2 > 0 ? Math.sqrt(lambda1 / lambda2) : Infinity,
+    angle,
+  };
+}
+
+/**
+ * Apply a pure shear with ratio rs (extension along x) to a tensor: F S Fᵀ.
+ * A ratio below 1 removes strain.
+ */
+function strainTensor(tensor: Tensor2, rs: number): Tensor2 {
+  return { xx: tensor.xx * rs, xy: tensor.xy, yy: tensor.yy / rs };
+}
+
+// =============================================================================
+// Theta-Curve Fitting
+// =============================================================================
+
+/**
+ * χ² of initial orientations against a uniform distribution after removing
+ * strain ratio rs (φ measured from the extension direction).
+ */
+function initialOrientationChiSquared(points: RfPhiPoint[], rs: number, classCount: number): number {
+  const counts = new Array<number>(classCount).fill(0);
+  const classWidth = 180 / classCount;
+
+  for (const point of points) {
+    const unstrained = tensorEllipse(strainTensor(ellipseTensor(point.rf, point.phi), 1 / rs));
+    const index = Math.min(classCount - 1, Math.floor((unstrained.angle + 90) / classWidth));
+    counts[index]++;
+  }
+
+  const expected = points.length / classCount;
+  return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+/**
+ * Find the strain ratio whose removal best randomizes initial orientations.
+ *
+ * @param points - Rf/φ data, φ relative to the assumed extension direction
+ * @returns Best-fit strain ratio, χ² and class count, or null with too few grains
+ */
+export function fitStrainRatio(
+  points: RfPhiPoint[]
+): { strainRatio: number; chiSquared: number; classCount: number } | null {
+  if (points.length < MIN_THETA_FIT_GRAINS) return null;
+
+  const classCount = Math.max(
+    MIN_THETA_CLASSES,
+    Math.min(MAX_THETA_CLASSES, Math.floor(points.length / MIN_EXPECTED_PER_CLASS))
+  );
+  const maxRf = Math.max(...points.map((p) => p.rf));
+
+  // Rs cannot exceed the largest observed Rf
+  let best = { strainRatio: 1, chiSquared: Infinity };
+  for (let lnRs = 0; lnRs <= Math.log(maxRf) + 1e-9; lnRs += STRAIN_SEARCH_STEP) {
+    const rs = Math.exp(lnRs);
+    const chiSquared = initialOrientationChiSquared(points, rs, classCount);
+    // Ties go to the smaller strain
+    if (chiSquared < best.chiSquared) {
+      best = { strainRatio: rs, chiSquared };
+    }
+  }
+
+  return { ...best, classCount };
+}
+
+/**
+ * Generate theta curves: the Rf/φ paths of initial ellipses of increasing
+ * axial ratio Ri that all started at orientation θ, after a strain Rs
+ * (φ measured from the extension direction).
+ *
+ * @param strainRatio - Strain ratio Rs
+ * @param maxInitialRatio - Largest initial ratio Ri to trace
+ * @param thetas - Initial orientations in degrees
+ * @returns One curve per θ
+ */
+export function generateThetaCurves(
+  strainRatio: number,
+  maxInitialRatio: number,
+  thetas: number[] = DEFAULT_THETA_CURVE_ANGLES
+): ThetaCurve[] {
+  const steps = 60;
+  const lnMax = Math.log(Math.max(maxInitialRatio, 1.01));
+
+  return thetas.map((theta) => {
+    const points: Array<{ phi: number; rf: number }> = [];
+    for (let k = 1; k <= steps; k++) {
+      const ri = Math.exp((k / steps) * lnMax);
+      const strained = tensorEllipse(strainTensor(ellipseTensor(ri, theta), strainRatio));
+      points.push({ phi: strained.angle, rf: strained.ratio });
+    }
+    return { theta, points };
+  });
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Calculate Rf/φ statistics, theta-curve strain fit and bulk shape tensor.
+ *
+ * @param grains - Grain metrics (best-fit ellipse axes and orientation)
+ * @returns Results, or null if fewer than two grains have measurable shape
+ */
+export function calculateRfPhi(grains: GrainMetrics[]): RfPhiResults | null {
+  const valid = grains.filter((g) => g.majorAxisPixels > 0 && g.minorAxisPixels > 0);
+  if (valid.length < 2) return null;
+
+  // Vector mean of doubled angles
+  let sumCos = 0;
+  let sumSin = 0;
+  for (const grain of valid) {
+    const doubled = (2 * grain.orientationDegrees * Math.PI) / 180;
+    sumCos += Math.cos(doubled);
+    sumSin += Math.sin(doubled);
+  }
+  const vectorMeanOrientation = ((((Math.atan2(sumSin, sumCos) * 90) / Math.PI) % 180) + 180) % 180;
+  const vectorMeanStrength = Math.sqrt(sumCos * sumCos + sumSin * sumSin) / valid.length;
+
+  const points: RfPhiPoint[] = valid.map((grain) => ({
+    spotId: grain.spotId,
+    mineral: grain.mineral,
+    rf: grain.majorAxisPixels / grain.minorAxisPixels,
+    phi: wrapAxial(grain.orientationDegrees - vectorMeanOrientation),
+    orientation: grain.orientationDegrees,
+  }));
+
+  const harmonicMeanRf = points.length / points.reduce((sum, p) => sum + 1 / p.rf, 0);
+  const phis = points.map((p) => p.phi);
+  const fluctuation = Math.max(...phis) - Math.min(...phis);
+
+  // Mean of unit-determinant second-moment tensors
+  const mean = points.reduce(
+    (sum, p) => {
+      const t = ellipseTensor(p.rf, p.orientation);
+      return { xx: sum.xx + t.xx, xy: sum.xy + t.xy, yy: sum.yy + t.yy };
+    },
+    { xx: 0, xy: 0, yy: 0 }
+  );
+  const tensor: Tensor2 = { xx: mean.xx / points.length, xy: mean.xy / points.length, yy: mean.yy / points.length };
+  const tensorShape = tensorEllipse(tensor);
+  const shapeTensor: ShapeTensor = {
+    ...tensor,
+    ratio: tensorShape.ratio,
+    orientation: ((tensorShape.angle % 180) + 180) % 180,
+  };
+
+  const fit = fitStrainRatio(points);
+  const classCount = fit?.classCount ?? 0;
+
+  return {
+    grainCount: points.length,
+    points,
+    harmonicMeanRf,
+    vectorMeanOrientation,
+    vectorMeanStrength,
+    fluctuation,
+    strainRatio: fit?.strainRatio ?? null,
+    chiSquared: fit?.chiSquared ?? null,
+    chiSquaredCritical: fit ? CHI_SQUARED_95[classCount - 2] : null,
+    thetaClassCount: classCount,
+    shapeTensor,
+  };
+}
+
+// =============================================================================
+// Conversion and Export
+// =============================================================================
+
+function round(value: number | null, decimals: number = 2): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert Rf/φ results to a grain orientation entry for the micrograph.
+ *
+ * @param results - Rf/φ results
+ * @param source - Which orientation to record: the shape tensor or the Rf/φ vector mean
+ * @param phases - Phases the measurement applies to
+ * @returns Grain orientation entry with the SPO technique filled in
+ */
+export function rfPhiResultsToGrainOrientation(
+  results: RfPhiResults,
+  source: 'tensor' | 'vector-mean',
+  phases: string[]
+): GrainOrientationType {
+  return {
+    phases: phases.length > 0 ? phases : null,
+    meanOrientation: round(
+      source === 'tensor' ? results.shapeTensor.orientation : results.vectorMeanOrientation,
+      1
+    ),
+    relativeTo: 'Image horizontal',
+    software: 'StraboMicro',
+    spoTechnique: source === 'tensor' ? 'Tensor Method' : 'Best Fit Ellipse',
+    spoOther: null,
+    rfPhi: {
+      grainCount: results.grainCount,
+      harmonicMeanRf: round(results.harmonicMeanRf),
+      vectorMeanOrientation: round(results.vectorMeanOrientation, 1),
+      vectorMeanStrength: round(results.vectorMeanStrength, 3),
+      strainRatio: round(results.strainRatio),
+      chiSquared: round(results.chiSquared),
+      shapeTensorRatio: round(results.shapeTensor.ratio),
+      shapeTensorOrientation: round(results.shapeTensor.orientation, 1),
+      measuredAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Format Rf/φ results as a CSV string for export.
+ *
+ * @param results - Rf/φ results
+ * @returns CSV string with headers
+ */
+export function exportRfPhiToCSV(results: RfPhiResults): string {
+  const lines: string[] = [];
+
+  lines.push('Rf/Phi Strain Analysis Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Grains: ${results.grainCount}`);
+  lines.push(`Harmonic Mean Rf: ${results.harmonicMeanRf.toFixed(3)}`);
+  lines.push(`Vector Mean Orientation (°): ${results.vectorMeanOrientation.toFixed(1)}`);
+  lines.push(`Vector Mean Strength: ${results.vectorMeanStrength.toFixed(3)}`);
+  lines.push(`Fluctuation (°): ${results.fluctuation.toFixed(1)}`);
+  lines.push(`Strain Ratio Rs (theta curves): ${results.strainRatio !== null ? results.strainRatio.toFixed(3) : ''}`);
+  lines.push(`Chi-squared: ${results.chiSquared !== null ? results.chiSquared.toFixed(2) : ''}`);
+  lines.push(`Chi-squared Critical (95%): ${results.chiSquaredCritical !== null ? results.chiSquaredCritical.toFixed(2) : ''}`);
+  lines.push(`Shape Tensor Ratio: ${results.shapeTensor.ratio.toFixed(3)}`);
+  lines.push(`Shape Tensor Orientation (°): ${results.shapeTensor.orientation.toFixed(1)}`);
+  lines.push('');
+
+  lines.push('SpotID,Mineral,Rf,Phi (°),Orientation (°)');
+  for (const point of results.points) {
+    lines.push(
+      `${point.spotId},${point.mineral || ''},${point.rf.toFixed(3)},${point.phi.toFixed(1)},${point.orientation.toFixed(1)}`
+    );
+  }
+
+  return lines.join('\n');
+}
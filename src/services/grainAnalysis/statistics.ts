@@ -17,7 +17,10 @@ import type {
   SortingClass,
   HistogramBin,
   RoseSector,
+  CSDOptions,
 } from './types';
+import { calculateCSD } from './stereology';
+import { calculateRfPhi } from './rfPhi';
 
 // =============================================================================
 // Classification Schemes
@@ -453,7 +456,8 @@ export function analyzeGrains(
   sampleName: string,
   scalePixelsPerCentimeter: number,
   micrographAreaMicrons2: number,
-  rockType: RockType = 'sedimentary'
+  rockType: RockType = 'sedimentary',
+  csdOptions: Partial<CSDOptions> = {}
 ): GrainAnalysisResults {
   // Extract arrays for statistics
   const diameters = grains.map(g => g.equivalentDiameterMicrons);
@@ -491,6 +495,12 @@ export function analyzeGrains(
   // Group by mineral
   const mineralGroups = groupByMineral(grains);
 
+  // Stereological 3D size distribution
+  const csd = calculateCSD(diameters, micrographAreaMicrons2, csdOptions);
+
+  // Strain from grain shapes
+  const rfPhi = calculateRfPhi(grains);
+
   return {
     micrographId,
     micrographName,
@@ -515,6 +525,9 @@ export function analyzeGrains(
     sortingClass,
 
     mineralGroups,
+
+    csd,
+    rfPhi,
   };
 }
 
@@ -0,0 +1,340 @@
+/**
+ * Stereological Correction for Crystal Size Distributions
+ *
+ * Converts apparent 2D section diameters into a 3D crystal size distribution
+ * (CSD) by Saltykov-style unfolding: starting from the largest size class,
+ * the sections expected from each class of larger grains are subtracted
+ * before the remaining sections are attributed to the current class.
+ *
+ * Section probabilities are exact for spheres. For other shapes (given as
+ * short : intermediate : long axis ratios, as in CSDCorrections) they come
+ * from randomly sectioning randomly oriented ellipsoids. Sizes are reported
+ * as the 3D long axis, in millimetres, with population density in mm⁻⁴.
+ */
+
+import type { CSDShape, CSDOptions, CSDBin, CSDResults } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SPHERE_SHAPE: CSDShape = { short: 1, intermediate: 1, long: 1 };
+
+export const DEFAULT_CSD_OPTIONS: CSDOptions = {
+  shape: SPHERE_SHAPE,
+  binsPerDecade: 5,
+  binCount: 10,
+};
+
+/** Fewer grains than this give no meaningful CSD */
+export const MIN_CSD_GRAINS = 10;
+
+/** Random sections used to build the probability table for non-spherical shapes */
+const SECTION_SAMPLES = 20000;
+
+// =============================================================================
+// Section Size Distributions
+// =============================================================================
+
+/**
+ * Probability model for random sections through grains of unit reference size.
+ *
+ * The reference size is the largest possible section (equivalent circle
+ * diameter of the central section normal to the short axis), so section
+ * ratios always fall between 0 and 1.
+ */
+interface SectionModel {
+  /** Probability that a section's diameter ratio lies in [low, high) */
+  probability: (low: number, high: number) => number;
+  /** Mean caliper diameter relative to the reference size (sections per unit N_V) */
+  meanCaliper: number;
+  /** Long axis relative to the reference size */
+  longAxisFactor: number;
+}
+
+function isSphere(shape: CSDShape): boolean {
+  return shape.short === shape.intermediate && shape.intermediate === shape.long;
+}
+
+/**
+ * Sphere: a random plane cuts a unit sphere at a uniform distance from its
+ * center, so P(d < x) = 1 - sqrt(1 - x²).
+ */
+function sphereSectionModel(): SectionModel {
+  const cdf = (x: number) => 1 - Math.sqrt(1 - Math.min(1, Math.max(0, x)) ** 2);
+  return {
+    probability: (low, high) => Math.max(0, cdf(high) - cdf(low)),
+    meanCaliper: 1,
+    longAxisFactor: 1,
+  };
+}
+
+/**
+ * Small deterministic PRNG so repeated analyses give identical results
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Ellipsoid: sample random plane orientations (weighted by the caliper
+ * width, since wider grains are cut more often) and offsets, and record the
+ * equivalent circle diameter of each section ellipse.
+ */
+function ellipsoidSectionModel(shape: CSDShape): SectionModel {
+  const [s, i, l] = [shape.short, shape.intermediate, shape.long].sort((x, y) => x - y);
+  // Semi-axes with the long axis normalized to 1
+  const a = s / l / 2;
+  const b = i / l / 2;
+  const c = 1 / 2;
+  const referenceSize = 2 * Math.sqrt(b * c);
+
+  const random = mulberry32(0x5a17);
+  const ratios = new Float64Array(SECTION_SAMPLES);
+  const weights = new Float64Array(SECTION_SAMPLES);
+  let totalWeight = 0;
+  let caliperSum = 0;
+
+  for (let k = 0; k < SECTION_SAMPLES; k++) {
+    // Uniform random plane normal
+    const z = random() * 2 - 1;
+    const phi = random() * 2 * Math.PI;
+    const rxy = Math.sqrt(1 - z * z);
+    const n = [rxy * Math.cos(phi), rxy * Math.sin(phi), z];
+
+    // Orthonormal basis (u, v) of the plane
+    const e = Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    let u = [n[1] * e[2] - n[2] * e[1], n[2] * e[0] - n[0] * e[2], n[0] * e[1] - n[1] * e[0]];
+    const uLength = Math.hypot(u[0], u[1], u[2]);
+    u = u.map((x) => x / uLength);
+    const v = [n[1] * u[2] - n[2] * u[1], n[2] * u[0] - n[0] * u[2], n[0] * u[1] - n[1] * u[0]];
+
+    // Quadratic form of the ellipsoid restricted to the plane
+    const m = [1 / (a * a), 1 / (b * b), 1 / (c * c)];
+    const quu = m[0] * u[0] * u[0] + m[1] * u[1] * u[1] + m[2] * u[2] * u[2];
+    const qvv = m[0] * v[0] * v[0] + m[1] * v[1] * v[1] + m[2] * v[2] * v[2];
+    const quv = m[0] * u[0] * v[0] + m[1] * u[1] * v[1] + m[2] * u[2] * v[2];
+    const centralDiameter = 2 * Math.pow(quu * qvv - quv * quv, -0.25);
+
+    // Support distance (half caliper) along the normal; offsets are uniform within it
+    const h = Math.sqrt(a * a * n[0] * n[0] + b * b * n[1] * n[1] + c * c * n[2] * n[2]);
+    const t = random();
+
+    ratios[k] = Math.min(1, (centralDiameter * Math.sqrt(1 - t * t)) / referenceSize);
+    weights[k] = h;
+    totalWeight += h;
+    caliperSum += 2 * h;
+  }
+
+  // Weighted cumulative distribution of section ratios
+  const order = Array.from(ratios.keys()).sort((x, y) => ratios[x] - ratios[y]);
+  const sortedRatios = new Float64Array(SECTION_SAMPLES);
+  const cumulative = new Float64Array(SECTION_SAMPLES);
+  let running = 0;
+  order.forEach((index, k) => {
+    sortedRatios[k] = ratios[index];
+    running += weights[index] / totalWeight;
+    cumulative[k] = running;
+  });
+
+  const cdf = (x: number): number => {
+    // Weight of samples with ratio < x
+    let lo = 0;
+    let hi = SECTION_SAMPLES;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedRatios[mid] < x) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo === 0 ? 0 : cumulative[lo - 1];
+  };
+
+  return {
+    probability: (low, high) => Math.max(0, (high >= 1 ? 1 : cdf(high)) - cdf(low)),
+    meanCaliper: caliperSum / SECTION_SAMPLES / referenceSize,
+    longAxisFactor: 1 / referenceSize,
+  };
+}
+
+// =============================================================================
+// Unfolding
+// =============================================================================
+
+/**
+ * Least-squares line through (x, y) points
+ */
+function linearFit(points: Array<[number, number]>): { slope: number; intercept: number; rSquared: number } | null {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared: syy > 0 ? (sxy * sxy) / (sxx * syy) : 1,
+  };
+}
+
+/**
+ * Calculate a stereologically corrected crystal size distribution.
+ *
+ * Size classes are logarithmic, with the top class ending at the largest
+ * section. Sections smaller than the lowest class are ignored (below the
+ * practical resolution of the measurement).
+ *
+ * @param diametersMicrons - Apparent 2D equivalent diameters in microns
+ * @param measuredAreaMicrons2 - Area over which the grains were measured
+ * @param options - Shape assumption and binning
+ * @returns CSD results, or null with too few grains or no area
+ */
+export function calculateCSD(
+  diametersMicrons: number[],
+  measuredAreaMicrons2: number,
+  options: Partial<CSDOptions> = {}
+): CSDResults | null {
+  const { shape, binsPerDecade, binCount } = { ...DEFAULT_CSD_OPTIONS, ...options };
+  const diameters = diametersMicrons.filter((d) => d > 0).map((d) => d / 1000);
+  if (diameters.length < MIN_CSD_GRAINS || measuredAreaMicrons2 <= 0) return null;
+  if (!(shape.short > 0 && shape.intermediate > 0 && shape.long > 0)) return null;
+
+  const areaMm2 = measuredAreaMicrons2 / 1e6;
+  const model = isSphere(shape) ? sphereSectionModel() : ellipsoidSectionModel(shape);
+
+  // Class edges in reference-size space, largest first: edges[j] is the top of class j
+  const factor = Math.pow(10, 1 / binsPerDecade);
+  const maxSize = Math.max(...diameters);
+  const edges = Array.from({ length: binCount + 1 }, (_, k) => maxSize / Math.pow(factor, k));
+
+  const counts = new Array<number>(binCount).fill(0);
+  for (const d of diameters) {
+    const j = Math.floor(Math.log(maxSize / d) / Math.log(factor));
+    if (j >= 0 && j < binCount) counts[j]++;
+  }
+  const numberPerArea = counts.map((count) => count / areaMm2);
+
+  // Sections in class i from grains of class j (grain size taken as the class top)
+  const sectionsPerGrain = (i: number, j: number) =>
+    model.meanCaliper * edges[j] * model.probability(edges[i + 1] / edges[j], edges[i] / edges[j]);
+
+  const numberPerVolume = new Array<number>(binCount).fill(0);
+  let negativeBinCount = 0;
+  for (let j = 0; j < binCount; j++) {
+    let remaining = numberPerArea[j];
+    for (let k = 0; k < j; k++) {
+      remaining -= numberPerVolume[k] * sectionsPerGrain(j, k);
+    }
+    const own = sectionsPerGrain(j, j);
+    if (remaining < 0) {
+      if (numberPerArea[j] > 0) negativeBinCount++;
+      remaining = 0;
+    }
+    numberPerVolume[j] = own > 1e-12 ? remaining / own : 0;
+  }
+
+  // Report classes by 3D long axis, smallest first
+  const bins: CSDBin[] = [];
+  for (let j = binCount - 1; j >= 0; j--) {
+    const sizeMin = edges[j + 1] * model.longAxisFactor;
+    const sizeMax = edges[j] * model.longAxisFactor;
+    const populationDensity = numberPerVolume[j] / (sizeMax - sizeMin);
+    bins.push({
+      sizeMin,
+      sizeMax,
+      sizeMid: Math.sqrt(sizeMin * sizeMax),
+      count2D: counts[j],
+      numberPerArea: numberPerArea[j],
+      numberPerVolume: numberPerVolume[j],
+      populationDensity,
+      lnPopulationDensity: populationDensity > 0 ? Math.log(populationDensity) : null,
+    });
+  }
+
+  const fit = linearFit(
+    bins
+      .filter((bin) => bin.lnPopulationDensity !== null)
+      .map((bin) => [bin.sizeMid, bin.lnPopulationDensity!] as [number, number])
+  );
+
+  // Ellipsoid volume = π/6 · S · I · L, with S and I scaled from the long axis
+  const [s, i, l] = [shape.short, shape.intermediate, shape.long].sort((x, y) => x - y);
+  const volumeFraction = bins.reduce(
+    (sum, bin) => sum + bin.numberPerVolume * (Math.PI / 6) * bin.sizeMid ** 3 * (s / l) * (i / l),
+    0
+  );
+
+  return {
+    shape,
+    binsPerDecade,
+    measuredAreaMm2: areaMm2,
+    bins,
+    negativeBinCount,
+    slope: fit?.slope ?? null,
+    intercept: fit?.intercept ?? null,
+    characteristicLength: fit && fit.slope < 0 ? -1 / fit.slope : null,
+    rSquared: fit?.rSquared ?? null,
+    volumeFraction,
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Format a crystal size distribution as a CSV string for export.
+ *
+ * @param csd - CSD results
+ * @returns CSV string with headers
+ */
+export function exportCSDToCSV(csd: CSDResults): string {
+  const fmt = (value: number | null, digits: number = 4) => (value !== null ? value.toPrecision(digits) : '');
+  const lines: string[] = [];
+
+  lines.push('Crystal Size Distribution Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Shape (S:I:L): ${csd.shape.short}:${csd.shape.intermediate}:${csd.shape.long}`);
+  lines.push(`Bins per Decade: ${csd.binsPerDecade}`);
+  lines.push(`Measured Area (mm²): ${fmt(csd.measuredAreaMm2)}`);
+  lines.push(`Slope (mm⁻¹): ${fmt(csd.slope)}`);
+  lines.push(`Intercept ln(n⁰): ${fmt(csd.intercept)}`);
+  lines.push(`Characteristic Length (mm): ${fmt(csd.characteristicLength)}`);
+  lines.push(`R²: ${fmt(csd.rSquared, 3)}`);
+  lines.push(`Volume Fraction: ${fmt(csd.volumeFraction, 3)}`);
+  lines.push(`Negative Classes (set to 0): ${csd.negativeBinCount}`);
+  lines.push('');
+
+  lines.push('Size Min (mm),Size Max (mm),Size Mid (mm),Sections,N_A (mm⁻²),N_V (mm⁻³),n (mm⁻⁴),ln(n)');
+  for (const bin of csd.bins) {
+    lines.push(
+      [
+        fmt(bin.sizeMin),
+        fmt(bin.sizeMax),
+        fmt(bin.sizeMid),
+        bin.count2D,
+        fmt(bin.numberPerArea),
+        fmt(bin.numberPerVolume),
+        fmt(bin.populationDensity),
+        bin.lnPopulationDensity !== null ? bin.lnPopulationDensity.toFixed(3) : '',
+      ].join(',')
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -3,6 +3,7 @@
  */
 
 import type { GrainMetrics } from '../../utils/grainMetrics';
+import type { TestLine, TestLinePattern } from '../pointCounting/types';
 
 /**
  * Rock type classification scheme
@@ -124,6 +125,12 @@ export interface GrainAnalysisResults {
 
   // By mineral
   mineralGroups: MineralGroupStats[];
+
+  // Stereological 3D crystal size distribution (null if too few grains)
+  csd: CSDResults | null;
+
+  // Rf/φ strain analysis and bulk shape tensor (null if too few grains)
+  rfPhi: RfPhiResults | null;
 }
 
 /**
@@ -146,3 +153,202 @@ export interface RoseSector {
   count: number;
   percentage: number;
 }
+
+/**
+ * Assumed 3D grain shape for stereological correction, as short : intermediate : long
+ * axis ratios (CSDCorrections convention). A sphere is 1 : 1 : 1.
+ */
+export interface CSDShape {
+  short: number;
+  intermediate: number;
+  long: number;
+}
+
+/**
+ * Options for 2D-to-3D crystal size distribution correction
+ */
+export interface CSDOptions {
+  shape: CSDShape;
+  binsPerDecade: number; // logarithmic bin width, e.g. 5 = 10^0.2 per bin
+  binCount: number; // number of bins below the largest grain
+}
+
+/**
+ * One size class of a crystal size distribution
+ */
+export interface CSDBin {
+  sizeMin: number; // mm, 3D long axis
+  sizeMax: number; // mm
+  sizeMid: number; // mm, geometric mean of the bin edges
+  count2D: number; // sections measured in this class
+  numberPerArea: number; // N_A, sections per mm²
+  numberPerVolume: number; // N_V, grains per mm³ (after unfolding, clamped at 0)
+  populationDensity: number; // n = N_V / bin width, mm⁻⁴
+  lnPopulationDensity: number | null; // null for empty or negative classes
+}
+
+/**
+ * Stereologically corrected crystal size distribution
+ */
+export interface CSDResults {
+  shape: CSDShape;
+  binsPerDecade: number;
+  measuredAreaMm2: number;
+  bins: CSDBin[];
+  negativeBinCount: number; // classes where unfolding went negative (clamped to 0)
+
+  // Linear fit of ln(n) against size
+  slope: number | null; // mm⁻¹
+  intercept: number | null; // ln(n⁰)
+  characteristicLength: number | null; // -1 / slope, mm
+  rSquared: number | null;
+
+  volumeFraction: number | null; // estimated from N_V and the shape (a consistency check)
+}
+
+/**
+ * One grain on the Rf/φ plot
+ */
+export interface RfPhiPoint {
+  spotId: string;
+  mineral?: string;
+  rf: number; // axial ratio of the best-fit ellipse
+  phi: number; // degrees, long axis relative to the vector mean (-90 to 90)
+  orientation: number; // degrees, long axis in image coordinates (0-180)
+}
+
+/**
+ * Bulk 2D shape tensor: the mean of each grain's second-moment tensor,
+ * normalized to unit determinant so every grain counts equally
+ */
+export interface ShapeTensor {
+  xx: number;
+  xy: number;
+  yy: number;
+  ratio: number; // axial ratio of the mean tensor ellipse
+  orientation: number; // degrees, long axis in image coordinates (0-180)
+}
+
+/**
+ * Rf/φ path of initial ellipses sharing one initial orientation θ (Lisle 1985)
+ */
+export interface ThetaCurve {
+  theta: number; // degrees, initial long axis relative to the extension direction
+  points: Array<{ phi: number; rf: number }>;
+}
+
+/**
+ * Rf/φ strain analysis of grain shapes
+ */
+export interface RfPhiResults {
+  grainCount: number;
+  points: RfPhiPoint[];
+
+  harmonicMeanRf: number;
+  vectorMeanOrientation: number; // degrees, image coordinates (0-180)
+  vectorMeanStrength: number; // mean resultant length of doubled angles (0-1)
+  fluctuation: number; // degrees, range of φ
+
+  // Theta-curve fit: strain ratio that best restores a uniform initial orientation
+  strainRatio: number | null; // Rs (null if too few grains)
+  chiSquared: number | null;
+  chiSquaredCritical: number | null; // 95% level for thetaClassCount - 1 degrees of freedom
+  thetaClassCount: number;
+
+  shapeTensor: ShapeTensor;
+}
+
+/**
+ * Separation between two grain centroids (one Fry point)
+ */
+export interface FryPoint {
+  dx: number; // pixels
+  dy: number; // pixels
+}
+
+/**
+ * Origin-centered ellipse on the Fry plot
+ */
+export interface FryEllipse {
+  semiMajor: number; // pixels
+  semiMinor: number; // pixels
+  orientation: number; // degrees, long axis in image coordinates (0-180)
+}
+
+/**
+ * Fry plot data and the automatically fitted central vacancy
+ */
+export interface FryResults {
+  centroidCount: number;
+  points: FryPoint[];
+  meanNearestNeighbor: number; // pixels
+  extent: number; // pixels, separations beyond this are left out
+  autoEllipse: FryEllipse | null; // null if the vacancy could not be fitted
+}
+
+/**
+ * Kind of test-line intersection. ASTM E112 counts a grain boundary as one
+ * intersection and a triple junction as 1.5.
+ */
+export type InterceptKind = 'boundary' | 'triple';
+
+/**
+ * An intersection marked on a line-intercept test line
+ */
+export interface LineInterceptMark {
+  id: string;
+  lineIndex: number;
+  t: number; // position along the line, 0 (start) to 1 (end)
+  kind: InterceptKind;
+}
+
+/**
+ * Line-intercept results for one test line direction
+ */
+export interface LineInterceptDirectionStats {
+  angle: number; // degrees 0-180 (sector center for random lines)
+  lineCount: number;
+  totalLength: number; // in sizeUnit
+  intersections: number; // weighted count
+  meanInterceptLength: number | null; // null when no intersections
+}
+
+/**
+ * Complete line-intercept grain size results
+ */
+export interface LineInterceptResults {
+  sizeUnit: string; // 'um' when the micrograph has a scale, otherwise 'px'
+  lineCount: number; // measured lines only
+  totalLength: number; // in sizeUnit
+  intersections: number; // weighted count
+
+  // Mean intercept length (total line length / intersections)
+  meanInterceptLength: number | null;
+  interceptStdDev: number | null; // spread of per-line mean intercept lengths
+  confidenceInterval95: number | null; // of intersections per unit length
+  relativeAccuracy: number | null; // %RA (ASTM E112)
+
+  // Grain size
+  correctionFactor: number;
+  correctedGrainSize: number | null;
+  astmGrainSizeNumber: number | null; // null without a scale
+
+  // Directional anisotropy
+  directions: LineInterceptDirectionStats[];
+  anisotropyIndex: number | null; // longest / shortest directional intercept
+  degreeOfOrientation: number | null; // ASTM E1268 Omega-12, 0-1
+  elongationDirection: number | null; // direction of the longest intercepts
+}
+
+/**
+ * An in-progress line-intercept measurement on a micrograph
+ */
+export interface LineInterceptSession {
+  micrographId: string;
+  pattern: TestLinePattern;
+  lines: TestLine[];
+  marks: LineInterceptMark[];
+  measuredLineIndices: number[]; // lines visited or marked (only these are counted)
+  correctionFactor: number;
+  phases: string[];
+}
@@ -0,0 +1,9 @@
+/**
+ * Grain Boundary Network Service
+ *
+ * Re-exports boundary network topology and statistics
+ */
+
+export * from './types';
+export * from './network';
+export * from './statistics';
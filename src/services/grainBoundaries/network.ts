@@ -0,0 +1,682 @@
+/**
+ * Grain Boundary Network
+ *
+ * Builds the planar graph of grain boundaries from adjacent polygon spots.
+ * Every outline is sampled at short intervals and each sample is labelled
+ * with the neighbouring grain within the tolerance (or the grain it lies
+ * inside, where outlines overlap). Runs of samples with the same label are
+ * shared boundaries; places where the label changes from one neighbour to
+ * another are triple junctions.
+ *
+ * Boundaries are traced along the middle of the contact, so the small gaps
+ * and overlaps left between hand-traced neighbours do not break the network.
+ * Dihedral angles are measured between boundary directions at each junction
+ * and curvature from the turning of each traced boundary.
+ */
+
+import type { Spot } from '@/types/project-types';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import { getSpotMineral } from '@/services/pointCounting/statistics';
+import {
+  type Pair,
+  type Bbox,
+  type ClipMultiPolygon,
+  ringBbox,
+  isPointInMultiPolygon,
+} from '@/services/grainDetection/geometry';
+import { spotToMultiPolygon } from '@/utils/spotPolygons';
+import {
+  UNCLASSIFIED_PHASE,
+  type BoundaryEdge,
+  type BoundaryNetwork,
+  type BoundaryNetworkOptions,
+  type BoundaryNode,
+  type DihedralAngle,
+  type NetworkGrain,
+  type Point,
+  type TripleJunction,
+} from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Gaps in a contact up to this many tolerances long are bridged */
+const GAP_BRIDGE_FACTOR = 2;
+
+/**
+ * Junction estimates from the rings of the grains meeting there are joined
+ * within this many tolerances, and boundary ends attach to junctions as far.
+ */
+const JUNCTION_RADIUS_FACTOR = 3;
+
+/** Boundary directions at junctions are taken this many tolerances out */
+const TANGENT_LENGTH_FACTOR = 4;
+
+/** Minimum distance (pixels) over which boundary directions are taken */
+const MIN_TANGENT_LENGTH = 8;
+
+/** Grid cell size of the outline index, in tolerances */
+const CELL_SIZE_FACTOR = 4;
+
+// =============================================================================
+// Input
+// =============================================================================
+
+/** A grain outline to build the network from */
+export interface NetworkInputGrain extends NetworkGrain {
+  /** Polygons (outer ring, then holes) in image pixels */
+  shape: ClipMultiPolygon;
+}
+
+/** One ring of a grain; holes and extra parts are sampled like outer rings */
+interface GrainOutline {
+  grain: number;
+  ring: Pair[];
+}
+
+/**
+ * Polygon spots as network grains, with their mineral as the phase.
+ *
+ * @param spots - Spots of one micrograph
+ * @returns Grains with at least one polygon
+ */
+export function getNetworkGrains(spots: Spot[]): NetworkInputGrain[] {
+  const grains: NetworkInputGrain[] = [];
+  for (const spot of spots) {
+    if (spot.archived || !isPolygonSpot(spot.geometry, spot.geometryType)) continue;
+    const shape = spotToMultiPolygon(spot);
+    if (shape.length === 0) continue;
+    grains.push({ spotId: spot.id, phase: getSpotMineral(spot) || UNCLASSIFIED_PHASE, shape });
+  }
+  return grains;
+}
+
+/**
+ * Key of a phase pair, independent of order (e.g. "Feldspar–Quartz").
+ */
+export function phasePairKey(phase1: string, phase2: string): string {
+  return [phase1, phase2].sort((a, b) => a.localeCompare(b)).join('–');
+}
+
+// =============================================================================
+// Outline index
+// =============================================================================
+
+interface IndexedSegment {
+  grain: number;
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+}
+
+/**
+ * Uniform grid of outline pieces, each stored in every cell within the
+ * tolerance of it, so a point only needs to search its own cell.
+ */
+class OutlineIndex {
+  private readonly cells = new Map<string, IndexedSegment[]>();
+  private readonly grainCells = new Map<string, number[]>();
+  private readonly bboxes: Bbox[];
+
+  constructor(
+    private readonly grains: NetworkInputGrain[],
+    outlines: GrainOutline[],
+    private readonly cellSize: number,
+    tolerance: number
+  ) {
+    this.bboxes = grains.map((grain) => ringBbox(grain.shape.flatMap((polygon) => polygon[0])));
+
+    for (const { grain: index, ring } of outlines) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [x0, y0] = ring[i];
+        const [x1, y1] = ring[i + 1];
+        // Split long edges so each piece covers only a few cells
+        const pieces = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / cellSize));
+        for (let k = 0; k < pieces; k++) {
+          const segment: IndexedSegment = {
+            grain: index,
+            ax: x0 + ((x1 - x0) * k) / pieces,
+            ay: y0 + ((y1 - y0) * k) / pieces,
+            bx: x0 + ((x1 - x0) * (k + 1)) / pieces,
+            by: y0 + ((y1 - y0) * (k + 1)) / pieces,
+          };
+          this.insert(this.cells, segment, [
+            Math.min(segment.ax, segment.bx) - tolerance,
+            Math.min(segment.ay, segment.by) - tolerance,
+            Math.max(segment.ax, segment.bx) + tolerance,
+            Math.max(segment.ay, segment.by) + tolerance,
+          ]);
+        }
+      }
+    }
+    this.bboxes.forEach((bbox, index) => this.insert(this.grainCells, index, bbox));
+  }
+
+  private insert<T>(cells: Map<string, T[]>, item: T, bbox: Bbox): void {
+    const [minX, minY, maxX, maxY] = bbox;
+    for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+      for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) {
+        const key = `${cx},${cy}`;
+        const list = cells.get(key);
+        if (list) list.push(item);
+        else cells.set(key, [item]);
+      }
+    }
+  }
+
+  private cellKey(x: number, y: number): string {
+    return `${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`;
+  }
+
+  /**
+   * Closest outline of another grain within the tolerance.
+   */
+  nearest(x: number, y: number, self: number, tolerance: number): { grain: number; x: number; y: number } | null {
+    let best: { grain: number; x: number; y: number } | null = null;
+    let bestDist = tolerance * tolerance;
+    for (const s of this.cells.get(this.cellKey(x, y)) || []) {
+      if (s.grain === self) continue;
+      const dx = s.bx - s.ax;
+      const dy = s.by - s.ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - s.ax) * dx + (y - s.ay) * dy) / lengthSq)) : 0;
+      const px = s.ax + t * dx;
+      const py = s.ay + t * dy;
+      const dist = (px - x) * (px - x) + (py - y) * (py - y);
+      if (dist <= bestDist) {
+        bestDist = dist;
+        best = { grain: s.grain, x: px, y: py };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Another grain the point lies inside (overlapping outlines).
+   */
+  containing(x: number, y: number, self: number): number | null {
+    for (const index of this.grainCells.get(this.cellKey(x, y)) || []) {
+      if (index === self) continue;
+      const [minX, minY, maxX, maxY] = this.bboxes[index];
+      if (x < minX || x > maxX || y < minY || y > maxY) continue;
+      if (isPointInMultiPolygon(x, y, this.grains[index].shape)) return index;
+    }
+    return null;
+  }
+}
+
+// =============================================================================
+// Outline labelling
+// =============================================================================
+
+interface Sample {
+  x: number;
+  y: number;
+  /** Arc length along the ring */
+  s: number;
+  /** Neighbouring grain, or -1 */
+  label: number;
+  /** Point midway to the neighbour's outline */
+  mid: Point;
+}
+
+/** A run of consecutive samples with the same label */
+interface Run {
+  label: number;
+  /** Sample indices, in ring order (wrapping around) */
+  indices: number[];
+  /** Arc length covered */
+  length: number;
+}
+
+function sampleRing(ring: Pair[], step: number): Sample[] {
+  const samples: Sample[] = [];
+  let s = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    if (length === 0) continue;
+    const n = Math.max(1, Math.ceil(length / step));
+    for (let k = 0; k < n; k++) {
+      const x = x0 + ((x1 - x0) * k) / n;
+      const y = y0 + ((y1 - y0) * k) / n;
+      samples.push({ x, y, s: s + (length * k) / n, label: -1, mid: { x, y } });
+    }
+    s += length;
+  }
+  return samples;
+}
+
+function ringLength(ring: Pair[]): number {
+  let length = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    length += Math.hypot(ring[i + 1][0] - ring[i][0], ring[i + 1][1] - ring[i][1]);
+  }
+  return length;
+}
+
+/**
+ * Split a ring's labels into runs, starting at a label change so no run
+ * wraps past the end (a single run when the label never changes).
+ */
+function toRuns(samples: Sample[], perimeter: number): Run[] {
+  const n = samples.length;
+  if (n === 0) return [];
+  let start = 0;
+  while (start < n && samples[start].label === samples[(start - 1 + n) % n].label) start++;
+  if (start === n) {
+    return [{ label: samples[0].label, indices: samples.map((_, i) => i), length: perimeter }];
+  }
+
+  const runs: Run[] = [];
+  for (let k = 0; k < n; k++) {
+    const i = (start + k) % n;
+    const last = runs[runs.length - 1];
+    if (last && last.label === samples[i].label) last.indices.push(i);
+    else runs.push({ label: samples[i].label, indices: [i], length: 0 });
+  }
+  for (const run of runs) {
+    const first = samples[run.indices[0]].s;
+    const next = samples[(run.indices[run.indices.length - 1] + 1) % n].s;
+    run.length = next > first ? next - first : next + perimeter - first;
+  }
+  return runs;
+}
+
+/**
+ * Clean a ring's labels: single stray samples take the label around them,
+ * and short gaps within one contact are bridged.
+ */
+function smoothLabels(samples: Sample[], perimeter: number, maxGap: number): void {
+  let runs = toRuns(samples, perimeter);
+  if (runs.length < 3) return;
+  runs.forEach((run, i) => {
+    const prev = runs[(i - 1 + runs.length) % runs.length];
+    const next = runs[(i + 1) % runs.length];
+    if (run.indices.length === 1 && prev.label === next.label && prev !== run) {
+      samples[run.indices[0]].label = prev.label;
+    }
+  });
+
+  runs = toRuns(samples, perimeter);
+  if (runs.length < 3) return;
+  runs.forEach((run, i) => {
+    const prev = runs[(i - 1 + runs.length) % runs.length];
+    const next = runs[(i + 1) % runs.length];
+    if (run.label === -1 && run.length <= maxGap && prev.label >= 0 && prev.label === next.label) {
+      for (const index of run.indices) {
+        samples[index].label = prev.label;
+        samples[index].mid = { x: samples[index].x, y: samples[index].y };
+      }
+    }
+  });
+}
+
+// =============================================================================
+// Measurements
+// =============================================================================
+
+function polylineLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Points at equal arc-length spacing along a polyline.
+ */
+function resample(points: Point[], spacing: number): Point[] {
+  if (points.length < 2) return points.slice();
+  const result: Point[] = [points[0]];
+  let carried = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    let d = spacing - carried;
+    while (d <= length) {
+      result.push({ x: a.x + ((b.x - a.x) * d) / length, y: a.y + ((b.y - a.y) * d) / length });
+      d += spacing;
+    }
+    carried = length - (d - spacing);
+  }
+  const last = points[points.length - 1];
+  const end = result[result.length - 1];
+  if (Math.hypot(last.x - end.x, last.y - end.y) > spacing / 2) result.push(last);
+  return result;
+}
+
+/**
+ * Total absolute turning angle (radians) along a polyline.
+ */
+function totalTurning(points: Point[], closed: boolean): number {
+  const n = points.length;
+  let turning = 0;
+  const count = closed ? n - 1 : n - 2;
+  for (let i = 0; i < count; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % (closed ? n - 1 : n)];
+    const c = points[(i + 2) % (closed ? n - 1 : n)];
+    const angle1 = Math.atan2(b.y - a.y, b.x - a.x);
+    const angle2 = Math.atan2(c.y - b.y, c.x - b.x);
+    let delta = angle2 - angle1;
+    while (delta > Math.PI) delta -= 2 * Math.PI;
+    while (delta < -Math.PI) delta += 2 * Math.PI;
+    turning += Math.abs(delta);
+  }
+  return turning;
+}
+
+/**
+ * Direction (radians) of a boundary leaving a junction, from the junction
+ * to the point the given distance along the boundary.
+ */
+function departureAngle(points: Point[], distance: number): number {
+  const origin = points[0];
+  let travelled = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (travelled + length >= distance && length > 0) {
+      const t = (distance - travelled) / length;
+      return Math.atan2(a.y + (b.y - a.y) * t - origin.y, a.x + (b.x - a.x) * t - origin.x);
+    }
+    travelled += length;
+  }
+  const end = points[points.length - 1];
+  return Math.atan2(end.y - origin.y, end.x - origin.x);
+}
+
+/**
+ * Angles between consecutive boundaries around a junction, each assigned
+ * to the grain the two boundaries share. Empty unless every grain at the
+ * junction is bounded by two of the boundaries.
+ */
+function measureDihedralAngles(
+  node: BoundaryNode,
+  edges: BoundaryEdge[],
+  tangentLength: number
+): DihedralAngle[] {
+  const departures: Array<{ angle: number; grains: [number, number] }> = [];
+  for (const edge of edges) {
+    if (edge.startNode === node.index) {
+      departures.push({ angle: departureAngle(edge.points, tangentLength), grains: edge.grains });
+    }
+    if (edge.endNode === node.index) {
+      departures.push({ angle: departureAngle(edge.points.slice().reverse(), tangentLength), grains: edge.grains });
+    }
+  }
+  if (departures.length < node.grains.length || departures.length < 3) return [];
+
+  departures.sort((a, b) => a.angle - b.angle);
+  const angles: DihedralAngle[] = [];
+  for (let i = 0; i < departures.length; i++) {
+    const a = departures[i];
+    const b = departures[(i + 1) % departures.length];
+    const shared = a.grains.filter((grain) => b.grains.includes(grain));
+    if (shared.length !== 1) return [];
+    let gap = b.angle - a.angle;
+    if (gap <= 0) gap += 2 * Math.PI;
+    angles.push({ grain: shared[0], angle: (gap * 180) / Math.PI });
+  }
+  return angles;
+}
+
+// =============================================================================
+// Network
+// =============================================================================
+
+interface JunctionCandidate {
+  grains: number[];
+  x: number;
+  y: number;
+}
+
+interface NodeCluster {
+  grains: number[];
+  points: Point[];
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function clusterCenter(cluster: NodeCluster): Point {
+  const x = cluster.points.reduce((sum, p) => sum + p.x, 0) / cluster.points.length;
+  const y = cluster.points.reduce((sum, p) => sum + p.y, 0) / cluster.points.length;
+  return { x, y };
+}
+
+/**
+ * Build the boundary network of a micrograph's grains.
+ *
+ * @param micrographId - Micrograph the grains belong to
+ * @param grains - Grain outlines (see getNetworkGrains)
+ * @param options - Contact tolerance
+ * @returns Boundaries, junctions and dihedral angles
+ */
+export function buildBoundaryNetwork(
+  micrographId: string,
+  grains: NetworkInputGrain[],
+  options: BoundaryNetworkOptions
+): BoundaryNetwork {
+  const tolerance = Math.max(0.5, options.tolerance);
+  const step = Math.max(0.5, tolerance / 2);
+  const junctionRadius = JUNCTION_RADIUS_FACTOR * tolerance;
+  const outlines: GrainOutline[] = grains.flatMap((grain, g) =>
+    grain.shape.flatMap((polygon) => polygon.filter((ring) => ring.length >= 4).map((ring) => ({ grain: g, ring })))
+  );
+  const index = new OutlineIndex(grains, outlines, Math.max(8, CELL_SIZE_FACTOR * tolerance), tolerance);
+
+  // Label every outline sample with the grain it touches
+  const samplesByOutline = outlines.map(({ grain: g, ring }) => {
+    const samples = sampleRing(ring, step);
+    for (const sample of samples) {
+      const near = index.nearest(sample.x, sample.y, g, tolerance);
+      if (near) {
+        sample.label = near.grain;
+        sample.mid = { x: (sample.x + near.x) / 2, y: (sample.y + near.y) / 2 };
+      } else {
+        const inside = index.containing(sample.x, sample.y, g);
+        if (inside !== null) sample.label = inside;
+      }
+    }
+    return samples;
+  });
+  const perimeters = outlines.map(({ ring }) => ringLength(ring));
+  samplesByOutline.forEach((samples, o) => smoothLabels(samples, perimeters[o], GAP_BRIDGE_FACTOR * tolerance));
+  const runsByOutline = samplesByOutline.map((samples, o) => toRuns(samples, perimeters[o]));
+
+  // Junctions: where a ring passes from one neighbour to another, directly
+  // or across a gap no wider than a junction
+  const candidates: JunctionCandidate[] = [];
+  runsByOutline.forEach((runs, o) => {
+    if (runs.length < 2) return;
+    const g = outlines[o].grain;
+    const samples = samplesByOutline[o];
+    runs.forEach((run, i) => {
+      if (run.label < 0) return;
+      const next = runs[(i + 1) % runs.length];
+      let other: Run | null = null;
+      let at: Point;
+      if (next.label >= 0) {
+        other = next;
+        const a = samples[run.indices[run.indices.length - 1]].mid;
+        const b = samples[next.indices[0]].mid;
+        at = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      } else {
+        const after = runs[(i + 2) % runs.length];
+        if (runs.length < 3 || next.length > junctionRadius || after.label < 0) return;
+        other = after;
+        const middle = samples[next.indices[Math.floor(next.indices.length / 2)]];
+        at = { x: middle.x, y: middle.y };
+      }
+      if (other.label === run.label) return;
+      candidates.push({ grains: [g, run.label, other.label].sort((a, b) => a - b), ...at });
+    });
+  });
+
+  // Join the estimates of each junction, then junctions of four or more
+  // grains (neighbouring triples sharing two grains)
+  const clustersByKey = new Map<string, NodeCluster[]>();
+  for (const candidate of candidates) {
+    const key = candidate.grains.join(',');
+    const sameKey = clustersByKey.get(key) || [];
+    const existing = sameKey.find((cluster) => distance(clusterCenter(cluster), candidate) <= junctionRadius);
+    if (existing) existing.points.push({ x: candidate.x, y: candidate.y });
+    else sameKey.push({ grains: candidate.grains, points: [{ x: candidate.x, y: candidate.y }] });
+    clustersByKey.set(key, sameKey);
+  }
+  const triples = [...clustersByKey.values()].flat();
+  const parent = triples.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const byGrain = new Map<number, number[]>();
+  triples.forEach((cluster, i) => {
+    for (const grain of cluster.grains) {
+      if (!byGrain.has(grain)) byGrain.set(grain, []);
+      byGrain.get(grain)!.push(i);
+    }
+  });
+  triples.forEach((cluster, i) => {
+    for (const grain of cluster.grains) {
+      for (const j of byGrain.get(grain)!) {
+        if (j <= i) continue;
+        const shared = cluster.grains.filter((g) => triples[j].grains.includes(g));
+        if (shared.length >= 2 && distance(clusterCenter(cluster), clusterCenter(triples[j])) <= junctionRadius) {
+          parent[root(j)] = root(i);
+        }
+      }
+    }
+  });
+  const merged = new Map<number, NodeCluster>();
+  triples.forEach((cluster, i) => {
+    const r = root(i);
+    const target = merged.get(r);
+    if (target) {
+      target.grains = [...new Set([...target.grains, ...cluster.grains])].sort((x, y) => x - y);
+      target.points.push(...cluster.points);
+    } else {
+      merged.set(r, { grains: cluster.grains, points: [...cluster.points] });
+    }
+  });
+  const clusters = [...merged.values()];
+
+  const nodes: BoundaryNode[] = clusters.map((cluster, i) => ({
+    index: i,
+    kind: 'triple',
+    position: clusterCenter(cluster),
+    grains: cluster.grains,
+  }));
+
+  // Boundaries: each contact is traced once, from the ring of the lower
+  // grain; an inclusion's contact only shows on the inclusion's own ring
+  const touches = grains.map(() => new Set<number>());
+  runsByOutline.forEach((runs, o) => runs.forEach((run) => touches[outlines[o].grain].add(run.label)));
+  const edges: BoundaryEdge[] = [];
+
+  const triplesByGrain = new Map<number, BoundaryNode[]>();
+  for (const node of nodes) {
+    for (const grain of node.grains) {
+      if (!triplesByGrain.has(grain)) triplesByGrain.set(grain, []);
+      triplesByGrain.get(grain)!.push(node);
+    }
+  }
+  const attach = (position: Point, pair: [number, number]): number => {
+    let best: BoundaryNode | null = null;
+    let bestDist = junctionRadius;
+    for (const node of triplesByGrain.get(pair[0]) || []) {
+      if (!node.grains.includes(pair[1])) continue;
+      const d = distance(node.position, position);
+      if (d <= bestDist) {
+        bestDist = d;
+        best = node;
+      }
+    }
+    if (best) return best.index;
+    nodes.push({ index: nodes.length, kind: 'end', position, grains: [...pair] });
+    return nodes.length - 1;
+  };
+
+  runsByOutline.forEach((runs, o) => {
+    const g = outlines[o].grain;
+    const samples = samplesByOutline[o];
+    for (const run of runs) {
+      const other = run.label;
+      if (other < 0 || (other < g && touches[other].has(g))) continue;
+
+      const pair: [number, number] = g < other ? [g, other] : [other, g];
+      const closed = runs.length === 1;
+      let points = run.indices.map((i) => samples[i].mid);
+      let startNode: number | null = null;
+      let endNode: number | null = null;
+      if (closed) {
+        points = [...points, points[0]];
+      } else {
+        startNode = attach(points[0], pair);
+        endNode = attach(points[points.length - 1], pair);
+        // Grains touching only at a junction (e.g. diagonal neighbours at a
+        // four-grain junction) share no boundary
+        if (startNode === endNode && nodes[startNode].kind === 'triple' && run.length <= 2 * junctionRadius) continue;
+        points = [nodes[startNode].position, ...points, nodes[endNode].position];
+      }
+      if (points.length < 2) continue;
+
+      const length = polylineLength(points);
+      if (length === 0) continue;
+      const smoothed = resample(points, Math.max(2, tolerance));
+      const chord = distance(points[0], points[points.length - 1]);
+
+      edges.push({
+        index: edges.length,
+        grains: pair,
+        pairKey: phasePairKey(grains[pair[0]].phase, grains[pair[1]].phase),
+        points,
+        closed,
+        startNode,
+        endNode,
+        length,
+        curvature: totalTurning(smoothed, closed) / length,
+        straightness: closed ? 0 : chord / length,
+      });
+    }
+  });
+
+  // Junctions no boundary reached are dropped
+  const used = new Set(edges.flatMap((edge) => [edge.startNode, edge.endNode]));
+  const renumber = new Map<number, number>();
+  const keptNodes: BoundaryNode[] = [];
+  for (const node of nodes) {
+    if (!used.has(node.index)) continue;
+    renumber.set(node.index, keptNodes.length);
+    keptNodes.push({ ...node, index: keptNodes.length });
+  }
+  for (const edge of edges) {
+    if (edge.startNode !== null) edge.startNode = renumber.get(edge.startNode)!;
+    if (edge.endNode !== null) edge.endNode = renumber.get(edge.endNode)!;
+  }
+
+  const incident: BoundaryEdge[][] = keptNodes.map(() => []);
+  for (const edge of edges) {
+    if (edge.startNode !== null) incident[edge.startNode].push(edge);
+    if (edge.endNode !== null && edge.endNode !== edge.startNode) incident[edge.endNode].push(edge);
+  }
+  const tangentLength = Math.max(MIN_TANGENT_LENGTH, TANGENT_LENGTH_FACTOR * tolerance);
+  const junctions: TripleJunction[] = keptNodes
+    .filter((node) => node.kind === 'triple')
+    .map((node) => ({ node: node.index, angles: measureDihedralAngles(node, incident[node.index], tangentLength) }));
+
+  return {
+    micrographId,
+    grains: grains.map(({ spotId, phase }) => ({ spotId, phase })),
+    nodes: keptNodes,
+    edges,
+    junctions,
+    options: { ...options },
+  };
+}
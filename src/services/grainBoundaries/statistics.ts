@@ -0,0 +1,371 @@
+/**
+ * Grain Boundary Network Statistics
+ *
+ * Phase-pair boundary lengths and contact frequencies, dihedral angle
+ * distributions and junction types from a boundary network, with CSV
+ * export and the per-phase-pair statistics recorded in the micrograph's
+ * grain boundary info.
+ */
+
+import type {
+  GrainBoundaryDescriptorType,
+  GrainBoundaryInfoType,
+  GrainBoundaryStatisticsType,
+  GrainBoundaryType,
+} from '@/types/project-types';
+import { phasePairKey } from './network';
+import type {
+  BoundaryNetwork,
+  BoundaryNetworkStats,
+  JunctionTypeStats,
+  PhaseDihedralStats,
+  PhasePairStats,
+} from './types';
+
+/** Junctions whose angles are all within this of 120° are equilibrated */
+const EQUILIBRIUM_ANGLE_TOLERANCE = 15;
+
+/** A junction with an angle above this is T-shaped (one boundary ends on a straight one) */
+const T_JUNCTION_MIN_ANGLE = 165;
+
+/** Overlay colors of phase pairs, in order of total boundary length */
+const PHASE_PAIR_PALETTE = [
+  '#FFEB3B',
+  '#F44336',
+  '#2196F3',
+  '#4CAF50',
+  '#FF9800',
+  '#E040FB',
+  '#00BCD4',
+  '#8BC34A',
+  '#FF4081',
+  '#795548',
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Summarize a boundary network by phase pair, phase and junction type.
+ *
+ * @param network - Network from buildBoundaryNetwork
+ * @returns Statistics in pixels (curvature in radians per pixel)
+ */
+export function calculateBoundaryNetworkStats(network: BoundaryNetwork): BoundaryNetworkStats {
+  const { grains, nodes, edges, junctions } = network;
+  const totalLength = edges.reduce((sum, edge) => sum + edge.length, 0);
+  const phaseOf = (grain: number) => grains[grain].phase;
+
+  // Dihedral angles opposite each phase pair (at three-grain junctions) and within each phase
+  const oppositeAngles = new Map<string, number[]>();
+  const anglesByPhase = new Map<string, number[]>();
+  for (const junction of junctions) {
+    const node = nodes[junction.node];
+    for (const { grain, angle } of junction.angles) {
+      const phase = phaseOf(grain);
+      if (!anglesByPhase.has(phase)) anglesByPhase.set(phase, []);
+      anglesByPhase.get(phase)!.push(angle);
+      if (node.grains.length !== 3) continue;
+      const [a, b] = node.grains.filter((g) => g !== grain);
+      const key = phasePairKey(phaseOf(a), phaseOf(b));
+      if (!oppositeAngles.has(key)) oppositeAngles.set(key, []);
+      oppositeAngles.get(key)!.push(angle);
+    }
+  }
+
+  const edgesByPair = new Map<string, typeof edges>();
+  for (const edge of edges) {
+    if (!edgesByPair.has(edge.pairKey)) edgesByPair.set(edge.pairKey, []);
+    edgesByPair.get(edge.pairKey)!.push(edge);
+  }
+
+  const phasePairs: PhasePairStats[] = [...edgesByPair.entries()].map(([pairKey, pairEdges]) => {
+    const [phase1, phase2] = [phaseOf(pairEdges[0].grains[0]), phaseOf(pairEdges[0].grains[1])].sort((a, b) =>
+      a.localeCompare(b)
+    );
+    const length = pairEdges.reduce((sum, edge) => sum + edge.length, 0);
+    const open = pairEdges.filter((edge) => !edge.closed);
+    const openLength = open.reduce((sum, edge) => sum + edge.length, 0);
+    const junctionNodes = new Set(
+      pairEdges
+        .flatMap((edge) => [edge.startNode, edge.endNode])
+        .filter((node): node is number => node !== null && nodes[node].kind === 'triple')
+    );
+    const opposite = oppositeAngles.get(pairKey) || [];
+
+    return {
+      pairKey,
+      phase1,
+      phase2,
+      typeOfBoundary: phase1 === phase2 ? 'grain' : 'phase',
+      segmentCount: pairEdges.length,
+      contactFrequency: pairEdges.length / edges.length,
+      totalLength: length,
+      lengthFraction: totalLength > 0 ? length / totalLength : 0,
+      meanSegmentLength: length / pairEdges.length,
+      meanCurvature: length > 0 ? pairEdges.reduce((sum, edge) => sum + edge.curvature * edge.length, 0) / length : 0,
+      meanStraightness:
+        openLength > 0 ? open.reduce((sum, edge) => sum + edge.straightness * edge.length, 0) / openLength : 0,
+      tripleJunctionCount: junctionNodes.size,
+      medianDihedralAngle: opposite.length > 0 ? median(opposite) : null,
+    };
+  });
+  phasePairs.sort((a, b) => b.totalLength - a.totalLength);
+
+  const dihedralAngles: PhaseDihedralStats[] = [...anglesByPhase.entries()]
+    .map(([phase, angles]) => {
+      const mean = angles.reduce((sum, a) => sum + a, 0) / angles.length;
+      const variance =
+        angles.length > 1 ? angles.reduce((sum, a) => sum + (a - mean) * (a - mean), 0) / (angles.length - 1) : 0;
+      return { phase, count: angles.length, mean, median: median(angles), stdDev: Math.sqrt(variance) };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  const junctionCounts = new Map<string, number>();
+  for (const node of nodes) {
+    if (node.kind !== 'triple') continue;
+    const key = node.grains
+      .map(phaseOf)
+      .sort((a, b) => a.localeCompare(b))
+      .join('–');
+    junctionCounts.set(key, (junctionCounts.get(key) || 0) + 1);
+  }
+  const junctionTypes: JunctionTypeStats[] = [...junctionCounts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    grainCount: grains.length,
+    connectedGrainCount: new Set(edges.flatMap((edge) => edge.grains)).size,
+    segmentCount: edges.length,
+    totalLength,
+    tripleJunctionCount: nodes.filter((node) => node.kind === 'triple').length,
+    endNodeCount: nodes.filter((node) => node.kind === 'end').length,
+    phasePairs,
+    dihedralAngles,
+    junctionTypes,
+  };
+}
+
+/**
+ * Overlay color of each phase pair in a network. Pairs are colored in order
+ * of total boundary length, so the longest boundary types stay distinct.
+ *
+ * @param network - Network from buildBoundaryNetwork
+ * @returns Map of pair key to color
+ */
+export function getPhasePairColors(network: BoundaryNetwork): Map<string, string> {
+  const lengths = new Map<string, number>();
+  for (const edge of network.edges) {
+    lengths.set(edge.pairKey, (lengths.get(edge.pairKey) || 0) + edge.length);
+  }
+  const colors = new Map<string, string>();
+  [...lengths.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([pairKey], i) => colors.set(pairKey, PHASE_PAIR_PALETTE[i % PHASE_PAIR_PALETTE.length]));
+  return colors;
+}
+
+/**
+ * Dihedral angles measured at junctions where boundaries of the given
+ * phase pair meet, for classifying the pair's junctions.
+ */
+function junctionAnglesForPair(network: BoundaryNetwork, pairKey: string): number[][] {
+  const nodesWithPair = new Set(
+    network.edges
+      .filter((edge) => edge.pairKey === pairKey)
+      .flatMap((edge) => [edge.startNode, edge.endNode])
+      .filter((node): node is number => node !== null)
+  );
+  return network.junctions
+    .filter((junction) => nodesWithPair.has(junction.node) && junction.angles.length > 0)
+    .map((junction) => junction.angles.map((a) => a.angle));
+}
+
+/**
+ * Triple junction descriptor for a phase pair: '120' when most of its
+ * junctions are equilibrated, 'T-Junction' when most are T-shaped.
+ */
+function tripleJunctionDescriptor(angleSets: number[][]): GrainBoundaryDescriptorType | null {
+  if (angleSets.length === 0) return null;
+  const equilibrated = angleSets.filter((angles) =>
+    angles.every((angle) => Math.abs(angle - 120) <= EQUILIBRIUM_ANGLE_TOLERANCE)
+  ).length;
+  const tShaped = angleSets.filter((angles) => angles.some((angle) => angle >= T_JUNCTION_MIN_ANGLE)).length;
+
+  if (equilibrated * 2 > angleSets.length) {
+    return { type: 'Triple Junction', subTypes: [{ type: '120' }] };
+  }
+  if (tShaped * 2 > angleSets.length) {
+    return { type: 'Triple Junction', subTypes: [{ type: 'T-Junction' }] };
+  }
+  return null;
+}
+
+/**
+ * Record per-phase-pair boundary statistics in a micrograph's grain
+ * boundary info. Existing entries for a phase pair (in either order) get
+ * the new statistics; other pairs are added as new boundary entries, with
+ * a triple junction descriptor when their junctions are clearly
+ * equilibrated or T-shaped.
+ *
+ * @param info - Current grain boundary info of the micrograph
+ * @param network - Network the statistics were calculated from
+ * @param stats - Statistics from calculateBoundaryNetworkStats
+ * @param micronsPerPixel - Image scale, or null to keep lengths in pixels
+ * @returns Updated grain boundary info
+ */
+export function applyBoundaryStatistics(
+  info: GrainBoundaryInfoType | null | undefined,
+  network: BoundaryNetwork,
+  stats: BoundaryNetworkStats,
+  micronsPerPixel: number | null
+): GrainBoundaryInfoType {
+  const scale = micronsPerPixel ?? 1;
+  const timestamp = new Date().toISOString();
+  const boundaries: GrainBoundaryType[] = [...(info?.boundaries || [])];
+
+  for (const pair of stats.phasePairs) {
+    const statistics: GrainBoundaryStatisticsType = {
+      analysisTimestamp: timestamp,
+      segmentCount: pair.segmentCount,
+      contactFrequency: pair.contactFrequency,
+      totalLength: pair.totalLength * scale,
+      meanSegmentLength: pair.meanSegmentLength * scale,
+      lengthUnit: micronsPerPixel ? 'µm' : 'px',
+      lengthFraction: pair.lengthFraction,
+      meanCurvature: pair.meanCurvature / scale,
+      meanStraightness: pair.meanStraightness,
+      tripleJunctionCount: pair.tripleJunctionCount,
+      medianDihedralAngle: pair.medianDihedralAngle,
+    };
+
+    const existing = boundaries.findIndex(
+      (boundary) =>
+        !!boundary.phase1 &&
+        !!boundary.phase2 &&
+        phasePairKey(boundary.phase1, boundary.phase2) === pair.pairKey
+    );
+    if (existing >= 0) {
+      boundaries[existing] = { ...boundaries[existing], statistics };
+      continue;
+    }
+
+    const descriptor = tripleJunctionDescriptor(junctionAnglesForPair(network, pair.pairKey));
+    boundaries.push({
+      typeOfBoundary: pair.typeOfBoundary,
+      phase1: pair.phase1,
+      phase2: pair.phase2,
+      morphologies: [],
+      descriptors: descriptor ? [descriptor] : [],
+      statistics,
+    });
+  }
+
+  return { ...info, boundaries };
+}
+
+/**
+ * Export network statistics, boundary segments and junctions to CSV.
+ *
+ * @param network - Network from buildBoundaryNetwork
+ * @param stats - Statistics from calculateBoundaryNetworkStats
+ * @param micronsPerPixel - Image scale, or null to report pixels
+ */
+export function exportBoundaryNetworkToCSV(
+  network: BoundaryNetwork,
+  stats: BoundaryNetworkStats,
+  micronsPerPixel: number | null
+): string {
+  const scale = micronsPerPixel ?? 1;
+  const unit = micronsPerPixel ? 'µm' : 'px';
+  const lines: string[] = [];
+  const phaseOf = (grain: number) => network.grains[grain].phase;
+
+  lines.push('Grain Boundary Network Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Contact Tolerance (px): ${network.options.tolerance}`);
+  lines.push(`Grains: ${stats.grainCount}`);
+  lines.push(`Grains With Shared Boundaries: ${stats.connectedGrainCount}`);
+  lines.push(`Boundary Segments: ${stats.segmentCount}`);
+  lines.push(`Total Boundary Length (${unit}): ${(stats.totalLength * scale).toFixed(2)}`);
+  lines.push(`Triple Junctions: ${stats.tripleJunctionCount}`);
+  lines.push(`Free Boundary Ends: ${stats.endNodeCount}`);
+  lines.push('');
+
+  lines.push('PHASE PAIRS');
+  lines.push(
+    `Phase 1,Phase 2,Boundary Type,Segments,Contact Frequency (%),Total Length (${unit}),Length Fraction (%),` +
+      `Mean Segment Length (${unit}),Mean Curvature (rad/${unit}),Mean Straightness,Triple Junctions,Median Opposite Dihedral Angle (°)`
+  );
+  for (const pair of stats.phasePairs) {
+    lines.push(
+      [
+        `"${pair.phase1}"`,
+        `"${pair.phase2}"`,
+        pair.typeOfBoundary,
+        pair.segmentCount,
+        (pair.contactFrequency * 100).toFixed(2),
+        (pair.totalLength * scale).toFixed(2),
+        (pair.lengthFraction * 100).toFixed(2),
+        (pair.meanSegmentLength * scale).toFixed(2),
+        (pair.meanCurvature / scale).toFixed(5),
+        pair.meanStraightness.toFixed(3),
+        pair.tripleJunctionCount,
+        pair.medianDihedralAngle !== null ? pair.medianDihedralAngle.toFixed(1) : '',
+      ].join(',')
+    );
+  }
+  lines.push('');
+
+  lines.push('DIHEDRAL ANGLES BY PHASE');
+  lines.push('Phase,Count,Mean (°),Median (°),Std Dev (°)');
+  for (const phase of stats.dihedralAngles) {
+    lines.push(
+      `"${phase.phase}",${phase.count},${phase.mean.toFixed(1)},${phase.median.toFixed(1)},${phase.stdDev.toFixed(1)}`
+    );
+  }
+  lines.push('');
+
+  lines.push('JUNCTION TYPES');
+  lines.push('Phases,Count');
+  for (const type of stats.junctionTypes) {
+    lines.push(`"${type.key}",${type.count}`);
+  }
+  lines.push('');
+
+  lines.push('BOUNDARY SEGMENTS');
+  lines.push(`Segment,Spot 1,Spot 2,Phase 1,Phase 2,Length (${unit}),Curvature (rad/${unit}),Straightness,Closed`);
+  for (const edge of network.edges) {
+    const [a, b] = edge.grains;
+    lines.push(
+      [
+        edge.index + 1,
+        network.grains[a].spotId,
+        network.grains[b].spotId,
+        `"${phaseOf(a)}"`,
+        `"${phaseOf(b)}"`,
+        (edge.length * scale).toFixed(2),
+        (edge.curvature / scale).toFixed(5),
+        edge.straightness.toFixed(3),
+        edge.closed ? 'yes' : 'no',
+      ].join(',')
+    );
+  }
+  lines.push('');
+
+  lines.push('TRIPLE JUNCTIONS');
+  lines.push('Junction,X (px),Y (px),Phases,Dihedral Angles (°)');
+  network.junctions.forEach((junction, i) => {
+    const node = network.nodes[junction.node];
+    const angles = junction.angles.map((a) => `${phaseOf(a.grain)} ${a.angle.toFixed(1)}`).join('; ');
+    lines.push(
+      `${i + 1},${node.position.x.toFixed(1)},${node.position.y.toFixed(1)},"${node.grains.map(phaseOf).join('–')}","${angles}"`
+    );
+  });
+
+  return lines.join('\n');
+}
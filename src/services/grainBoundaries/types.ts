@@ -0,0 +1,165 @@
+/**
+ * Grain Boundary Network Types
+ *
+ * Type definitions for the boundary network built from adjacent polygon
+ * spots: shared boundaries (edges), triple junctions and free boundary
+ * ends (nodes), and the statistics derived from them.
+ */
+
+export type Point = { x: number; y: number };
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export interface BoundaryNetworkOptions {
+  /**
+   * Outlines closer than this (pixels) are treated as touching. Covers the
+   * small gaps and overlaps between hand-traced or detected neighbours.
+   */
+  tolerance: number;
+}
+
+export const DEFAULT_BOUNDARY_NETWORK_OPTIONS: BoundaryNetworkOptions = {
+  tolerance: 3,
+};
+
+/** Phase of polygon spots without a mineral */
+export const UNCLASSIFIED_PHASE = 'Unclassified';
+
+// ============================================================================
+// NETWORK
+// ============================================================================
+
+/** A polygon spot taking part in the network */
+export interface NetworkGrain {
+  spotId: string;
+  /** Mineral of the spot, or UNCLASSIFIED_PHASE */
+  phase: string;
+}
+
+/**
+ * A node of the planar graph:
+ * - 'triple': where three (or more) grains meet
+ * - 'end': where a shared boundary ends without meeting another grain
+ *   (open outline, image edge or a gap wider than the tolerance)
+ */
+export interface BoundaryNode {
+  index: number;
+  kind: 'triple' | 'end';
+  position: Point;
+  /** Grains meeting at the node (indices into the network's grains) */
+  grains: number[];
+}
+
+/** A dihedral angle measured at a triple junction */
+export interface DihedralAngle {
+  /** Grain the angle is measured in */
+  grain: number;
+  /** Degrees */
+  angle: number;
+}
+
+/** A triple junction with its measured dihedral angles */
+export interface TripleJunction {
+  node: number;
+  /**
+   * Angles within each of the three grains, between the boundaries they
+   * share with the other two (sum to 360°). Empty when a boundary could
+   * not be followed away from the junction.
+   */
+  angles: DihedralAngle[];
+}
+
+/** A shared boundary between two grains */
+export interface BoundaryEdge {
+  index: number;
+  /** The two grains, lower index first */
+  grains: [number, number];
+  /** Phase pair key, see phasePairKey() */
+  pairKey: string;
+  /** Polyline along the middle of the contact, in image pixels */
+  points: Point[];
+  /** Whether the boundary goes all the way around one grain (an inclusion) */
+  closed: boolean;
+  /** End nodes (null for closed boundaries) */
+  startNode: number | null;
+  endNode: number | null;
+  /** Length in pixels */
+  length: number;
+  /** Total absolute turning angle per pixel of length (radians / px) */
+  curvature: number;
+  /** End-to-end distance over length (1 = straight; 0 for closed boundaries) */
+  straightness: number;
+}
+
+export interface BoundaryNetwork {
+  micrographId: string;
+  grains: NetworkGrain[];
+  nodes: BoundaryNode[];
+  edges: BoundaryEdge[];
+  junctions: TripleJunction[];
+  /** Options the network was built with */
+  options: BoundaryNetworkOptions;
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/** Statistics of one phase pair (e.g. Quartz–Feldspar) */
+export interface PhasePairStats {
+  pairKey: string;
+  phase1: string;
+  phase2: string;
+  /** 'grain' for boundaries within one phase, 'phase' between phases */
+  typeOfBoundary: 'grain' | 'phase';
+  segmentCount: number;
+  /** Fraction of all boundary segments */
+  contactFrequency: number;
+  /** Total length in pixels */
+  totalLength: number;
+  /** Fraction of the total boundary length */
+  lengthFraction: number;
+  meanSegmentLength: number;
+  /** Length-weighted mean curvature (radians / px) */
+  meanCurvature: number;
+  /** Length-weighted mean straightness */
+  meanStraightness: number;
+  /** Triple junctions this boundary type ends at */
+  tripleJunctionCount: number;
+  /**
+   * Median dihedral angle opposite the boundary: the angle in the third
+   * grain where this boundary meets it (degrees, null if none measured)
+   */
+  medianDihedralAngle: number | null;
+}
+
+/** Dihedral angles measured within grains of one phase */
+export interface PhaseDihedralStats {
+  phase: string;
+  count: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+}
+
+/** Triple junctions by the phases meeting there */
+export interface JunctionTypeStats {
+  /** Sorted phases joined with '–' */
+  key: string;
+  count: number;
+}
+
+export interface BoundaryNetworkStats {
+  grainCount: number;
+  /** Grains sharing at least one boundary */
+  connectedGrainCount: number;
+  segmentCount: number;
+  totalLength: number;
+  tripleJunctionCount: number;
+  endNodeCount: number;
+  phasePairs: PhasePairStats[];
+  dihedralAngles: PhaseDihedralStats[];
+  junctionTypes: JunctionTypeStats[];
+}
@@ -7,112 +7,10 @@
  * IMPORTANT: This worker loads OpenCV ONCE and then processes all masks sequentially.
  */
 
+import { loadOpenCVInWorker } from './workerOpenCV';
+
 // OpenCV instance - loaded once, reused for all masks
 let cv: any = null;
-let opencvLoadPromise: Promise<void> | null = null;
-
-/**
- * Load OpenCV.js once and cache it
- */
-async function ensureOpenCVLoaded(scriptContent?: string): Promise<void> {
-  // Already loaded
-  if (cv) return;
-
-  // Currently loading - wait for it
-  if (opencvLoadPromise) {
-    return opencvLoadPromise;
-  }
-
-  // Start loading
-  opencvLoadPromise = loadOpenCV(scriptContent);
-  await opencvLoadPromise;
-}
-
-async function loadOpenCV(scriptContent?: string): Promise<void> {
-  console.log('[ContourWorker] Loading OpenCV.js...');
-
-  let scriptText: string;
-
-  try {
-    if (scriptContent) {
-      scriptText = scriptContent;
-    } else {
-      const possibleUrls = ['/opencv.js', 'http://localhost:5173/opencv.js'];
-      let response: Response | null = null;
-
-      for (const url of possibleUrls) {
-        try {
-          response = await fetch(url);
-          if (response.ok) break;
-          response = null;
-        } catch {
-          response = null;
-        }
-      }
-
-      if (!response || !response.ok) {
-        throw new Error('Failed to fetch OpenCV.js');
-      }
-      scriptText = await response.text();
-    }
-
-    // Execute the script
-    // eslint-disable-next-line no-eval
-    (0, eval)(scriptText);
-
-    // Wait for OpenCV to initialize
-    await new Promise<void>((resolve, reject) => {
-      const startTime = Date.now();
-      const timeoutMs = 30000;
-
-      const checkReady = () => {
-        const globalCv = (self as any).cv;
-
-        if (globalCv && typeof globalCv.Mat === 'function') {
-          cv = globalCv;
-          console.log('[ContourWorker] OpenCV.js ready');
-          resolve();
-          return;
-        }
-
-        if (globalCv && typeof globalCv === 'function') {
-          try {
-            const result = globalCv();
-            if (result && typeof result.then === 'function') {
-              result.then((resolvedCv: any) => {
-                cv = resolvedCv;
-                (self as any).cv = resolvedCv;
-                resolve();
-              }).catch(reject);
-              return;
-            }
-          } catch {
-            // Continue polling
-          }
-        }
-
-        if (globalCv && 'onRuntimeInitialized' in globalCv) {
-          globalCv.onRuntimeInitialized = () => {
-            cv = globalCv;
-            resolve();
-          };
-          return;
-        }
-
-        if (Date.now() - startTime > timeoutMs) {
-          reject(new Error('OpenCV.js initialization timed out'));
-          return;
-        }
-
-        setTimeout(checkReady, 100);
-      };
-
-      checkReady();
-    });
-  } catch (e) {
-    throw new Error(`Failed to load OpenCV.js: ${e}`);
-  }
-}
 
 function generateId(): string {
   return 'grain-' + Math.random().toString(36).substr(2, 9) + '-' + Date.now().toString(36);
@@ -236,7 +134,7 @@ self.onmessage = async (event: MessageEvent) => {
   if (data.type === 'init') {
     // Initialize OpenCV once
     try {
-      await ensureOpenCVLoaded(data.opencvScript);
+      cv = await loadOpenCVInWorker(data.opencvScript);
       self.postMessage({ type: 'init-complete' });
     } catch (error) {
       self.postMessage({
@@ -0,0 +1,307 @@
+/**
+ * Grain Detection Evaluation
+ *
+ * Scores detected grains against hand-traced reference grains so detection
+ * settings and presets can be validated instead of tuned by eye.
+ *
+ * Both sets are restricted to a reference region (grains whose centroid
+ * lies inside it), then:
+ * - Detected and reference grains are matched one-to-one by IoU
+ *   (greedy, best pairs first) for precision, recall and F1.
+ * - A reference grain split into several detected grains is
+ *   over-segmented; a detected grain swallowing several reference grains
+ *   is under-segmented.
+ * - Equivalent circular diameters of both sets are compared for size bias.
+ *
+ * A parameter sweep runs this evaluation for a grid of settings plus the
+ * presets and ranks them by F1.
+ *
+ * @module grainDetection/evaluation
+ */
+
+import type {
+  DetectedGrain,
+  DetectionEvaluation,
+  DetectionPreset,
+  DetectionSettings,
+  EvaluationOptions,
+  GrainMatch,
+  SizeDistributionBias,
+  SweepCandidate,
+  SweepGrid,
+  SweepResult,
+} from './types';
+import { DEFAULT_EVALUATION_OPTIONS } from './types';
+import {
+  type Bbox,
+  type Pair,
+  bboxesOverlap,
+  isPointInRing,
+  ringArea,
+  ringBbox,
+  ringCentroid,
+  ringIntersectionArea,
+  toRing,
+} from './geometry';
+
+/** Grain outline in image pixels (detected grains and traced spots alike) */
+export type EvaluationGrain = Pick<DetectedGrain, 'contour'>;
+
+interface PreparedGrain {
+  ring: Pair[];
+  bbox: Bbox;
+  area: number;
+}
+
+/** Overlap between a detected and a reference grain */
+interface Overlap {
+  detectedIndex: number;
+  referenceIndex: number;
+  intersection: number;
+  iou: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Close the grains' contours and keep those whose centroid is in the region.
+ */
+function prepareGrains(grains: EvaluationGrain[], region: Pair[] | null): PreparedGrain[] {
+  const prepared: PreparedGrain[] = [];
+  for (const grain of grains) {
+    const ring = toRing(grain.contour);
+    if (ring.length < 4) continue;
+    const area = ringArea(ring);
+    if (area <= 0) continue;
+    if (region) {
+      const centroid = ringCentroid(ring);
+      if (!isPointInRing(centroid.x, centroid.y, region)) continue;
+    }
+    prepared.push({ ring, bbox: ringBbox(ring), area });
+  }
+  return prepared;
+}
+
+/** Equivalent circular diameter of an area */
+function equivalentDiameter(area: number): number {
+  return 2 * Math.sqrt(area / Math.PI);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Two-sample Kolmogorov-Smirnov statistic: largest gap between the two
+ * empirical cumulative distributions.
+ */
+function ksStatistic(a: number[], b: number[]): number {
+  let i = 0;
+  let j = 0;
+  let maxGap = 0;
+  while (i < a.length && j < b.length) {
+    const value = Math.min(a[i], b[j]);
+    while (i < a.length && a[i] <= value) i++;
+    while (j < b.length && b[j] <= value) j++;
+    maxGap = Math.max(maxGap, Math.abs(i / a.length - j / b.length));
+  }
+  return maxGap;
+}
+
+function sizeDistributionBias(detected: PreparedGrain[], reference: PreparedGrain[]): SizeDistributionBias | null {
+  if (detected.length === 0 || reference.length === 0) return null;
+
+  const detectedDiameters = detected.map((g) => equivalentDiameter(g.area)).sort((a, b) => a - b);
+  const referenceDiameters = reference.map((g) => equivalentDiameter(g.area)).sort((a, b) => a - b);
+
+  const detectedMean = mean(detectedDiameters);
+  const referenceMean = mean(referenceDiameters);
+  const detectedMedian = median(detectedDiameters);
+  const referenceMedian = median(referenceDiameters);
+
+  return {
+    referenceMeanDiameter: referenceMean,
+    detectedMeanDiameter: detectedMean,
+    referenceMedianDiameter: referenceMedian,
+    detectedMedianDiameter: detectedMedian,
+    meanBiasPercent: ((detectedMean - referenceMean) / referenceMean) * 100,
+    medianBiasPercent: ((detectedMedian - referenceMedian) / referenceMedian) * 100,
+    ksStatistic: ksStatistic(detectedDiameters, referenceDiameters),
+  };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Compare detected grains with hand-traced reference grains.
+ *
+ * @param detected - Detected grains in image pixels
+ * @param reference - Hand-traced grains in the same pixel space
+ * @param region - Reference region outline; null compares everything
+ * @param options - Matching thresholds
+ * @returns Matching and accuracy statistics
+ */
+export function evaluateDetection(
+  detected: EvaluationGrain[],
+  reference: EvaluationGrain[],
+  region: Array<{ x: number; y: number }> | null = null,
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): DetectionEvaluation {
+  const regionRing = region && region.length >= 3 ? toRing(region) : null;
+  const detectedGrains = prepareGrains(detected, regionRing);
+  const referenceGrains = prepareGrains(reference, regionRing);
+
+  // Pairwise overlaps (bounding boxes first; traced regions hold tens to hundreds of grains)
+  const overlaps: Overlap[] = [];
+  detectedGrains.forEach((d, detectedIndex) => {
+    referenceGrains.forEach((r, referenceIndex) => {
+      if (!bboxesOverlap(d.bbox, r.bbox)) return;
+      const intersection = ringIntersectionArea(d.ring, r.ring);
+      if (intersection <= 0) return;
+      overlaps.push({
+        detectedIndex,
+        referenceIndex,
+        intersection,
+        iou: intersection / (d.area + r.area - intersection),
+      });
+    });
+  });
+
+  // Greedy one-to-one matching, best IoU first
+  const matches: GrainMatch[] = [];
+  const matchedDetected = new Set<number>();
+  const matchedReference = new Set<number>();
+  for (const overlap of [...overlaps].sort((a, b) => b.iou - a.iou)) {
+    if (overlap.iou < options.iouThreshold) break;
+    if (matchedDetected.has(overlap.detectedIndex) || matchedReference.has(overlap.referenceIndex)) continue;
+    matchedDetected.add(overlap.detectedIndex);
+    matchedReference.add(overlap.referenceIndex);
+    matches.push({ detectedIndex: overlap.detectedIndex, referenceIndex: overlap.referenceIndex, iou: overlap.iou });
+  }
+
+  // Fragments per reference grain and swallowed reference grains per detected grain
+  const fragments = new Map<number, number>();
+  const swallowed = new Map<number, number>();
+  for (const overlap of overlaps) {
+    if (overlap.intersection >= options.coverThreshold * detectedGrains[overlap.detectedIndex].area) {
+      fragments.set(overlap.referenceIndex, (fragments.get(overlap.referenceIndex) || 0) + 1);
+    }
+    if (overlap.intersection >= options.coverThreshold * referenceGrains[overlap.referenceIndex].area) {
+      swallowed.set(overlap.detectedIndex, (swallowed.get(overlap.detectedIndex) || 0) + 1);
+    }
+  }
+
+  const truePositives = matches.length;
+  const precision = detectedGrains.length > 0 ? truePositives / detectedGrains.length : 0;
+  const recall = referenceGrains.length > 0 ? truePositives / referenceGrains.length : 0;
+
+  return {
+    detectedCount: detectedGrains.length,
+    referenceCount: referenceGrains.length,
+    matches,
+    truePositives,
+    falsePositives: detectedGrains.length - truePositives,
+    falseNegatives: referenceGrains.length - truePositives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    meanMatchedIoU: matches.length > 0 ? mean(matches.map((m) => m.iou)) : 0,
+    overSegmented: [...fragments.values()].filter((count) => count >= 2).length,
+    underSegmented: [...swallowed.values()].filter((count) => count >= 2).length,
+    sizeBias: sizeDistributionBias(detectedGrains, referenceGrains),
+  };
+}
+
+// ============================================================================
+// PARAMETER SWEEP
+// ============================================================================
+
+/**
+ * List the settings a sweep tries: every sensitivity/edge contrast pair of
+ * the grid (other settings from the base), then each preset.
+ */
+export function buildSweepCandidates(
+  base: DetectionSettings,
+  grid: SweepGrid,
+  presets: DetectionPreset[]
+): SweepCandidate[] {
+  const candidates: SweepCandidate[] = [];
+
+  for (const sensitivity of grid.sensitivity) {
+    for (const edgeContrast of grid.edgeContrast) {
+      candidates.push({
+        label: `Sensitivity ${sensitivity}, edge contrast ${edgeContrast}`,
+        settings: { ...base, sensitivity, edgeContrast, presetName: 'custom' },
+      });
+    }
+  }
+
+  for (const preset of presets) {
+    candidates.push({
+      label: preset.name,
+      presetId: preset.id,
+      settings: { ...preset.settings, presetName: preset.name },
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Options for runParameterSweep.
+ */
+export interface ParameterSweepOptions {
+  candidates: SweepCandidate[];
+  /** Hand-traced grains in image pixels */
+  reference: EvaluationGrain[];
+  /** Reference region outline (null for the whole image) */
+  region: Array<{ x: number; y: number }> | null;
+  /** Run detection with the given settings; grains in the reference's pixel space */
+  detect: (settings: DetectionSettings) => Promise<EvaluationGrain[]>;
+  evaluationOptions?: EvaluationOptions;
+  /** Called after each candidate */
+  onProgress?: (done: number, total: number) => void;
+  /** Aborts the sweep between candidates */
+  signal?: AbortSignal;
+}
+
+/**
+ * Evaluate each candidate and rank them, best F1 first (mean IoU breaks ties).
+ *
+ * @throws Error if the sweep is aborted or detection fails
+ */
+export async function runParameterSweep({
+  candidates,
+  reference,
+  region,
+  detect,
+  evaluationOptions = DEFAULT_EVALUATION_OPTIONS,
+  onProgress,
+  signal,
+}: ParameterSweepOptions): Promise<SweepResult[]> {
+  const results: SweepResult[] = [];
+
+  for (const candidate of candidates) {
+    if (signal?.aborted) throw new Error('Parameter sweep cancelled');
+
+    const detected = await detect(candidate.settings);
+    results.push({
+      ...candidate,
+      evaluation: evaluateDetection(detected, reference, region, evaluationOptions),
+    });
+    onProgress?.(results.length, candidates.length);
+  }
+
+  return results.sort(
+    (a, b) => b.evaluation.f1 - a.evaluation.f1 || b.evaluation.meanMatchedIoU - a.evaluation.meanMatchedIoU
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Polygon helpers shared by tiled detection, evaluation and model output
+ * vectorization.
+ *
+ * Grains are handled as closed rings of [x, y] pairs, the format
+ * polygon-clipping works with.
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type { DetectedGrain } from './types';
+
+export type Pair = [number, number];
+export type ClipPolygon = Pair[][];
+export type ClipMultiPolygon = ClipPolygon[];
+export type Bbox = [number, number, number, number];
+
+/**
+ * Area of a closed ring in square pixels.
+ */
+export function ringArea(ring: Pair[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Bounding box of a ring as [minX, minY, maxX, maxY].
+ */
+export function ringBbox(ring: Pair[]): Bbox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of ring) {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  return [minX, minY, maxX, maxY];
+}
+
+export function bboxesOverlap(a: Bbox, b: Bbox): boolean {
+  return a[0] < b[2] && b[0] < a[2] && a[1] < b[3] && b[1] < a[3];
+}
+
+/**
+ * Area of a multipolygon in square pixels (holes subtracted).
+ */
+export function multiPolygonArea(shape: ClipMultiPolygon): number {
+  let area = 0;
+  for (const polygon of shape) {
+    polygon.forEach((ring, index) => {
+      area += index === 0 ? ringArea(ring) : -ringArea(ring);
+    });
+  }
+  return Math.max(0, area);
+}
+
+/**
+ * Area shared by two rings (0 if they do not overlap or clipping fails).
+ */
+export function ringIntersectionArea(a: Pair[], b: Pair[]): number {
+  try {
+    return multiPolygonArea(polygonClipping.intersection([a], [b]) as ClipMultiPolygon);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Close a contour into a ring of rounded [x, y] pairs, dropping repeated vertices.
+ */
+export function toRing(points: Array<{ x: number; y: number }>): Pair[] {
+  const ring: Pair[] = [];
+  for (const p of points) {
+    const pair: Pair = [Math.round(p.x), Math.round(p.y)];
+    const prev = ring[ring.length - 1];
+    if (!prev || prev[0] !== pair[0] || prev[1] !== pair[1]) ring.push(pair);
+  }
+  if (ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]) {
+    ring.pop();
+  }
+  if (ring.length > 0) ring.push([ring[0][0], ring[0][1]]);
+  return ring;
+}
+
+/**
+ * Area-weighted centroid of a closed ring (bounding box center if degenerate).
+ */
+export function ringCentroid(ring: Pair[]): { x: number; y: number } {
+  let signedArea = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    signedArea += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  signedArea /= 2;
+  if (signedArea === 0) {
+    const [minX, minY, maxX, maxY] = ringBbox(ring);
+    return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  }
+  return { x: cx / (6 * signedArea), y: cy / (6 * signedArea) };
+}
+
+/**
+ * Even-odd point-in-polygon test.
+ */
+export function isPointInRing(x: number, y: number, ring: Pair[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Even-odd point-in-polygon test over every ring of a multipolygon, so
+ * points inside a hole are outside the shape.
+ */
+export function isPointInMultiPolygon(x: number, y: number, shape: ClipMultiPolygon): boolean {
+  let inside = false;
+  for (const polygon of shape) {
+    for (const ring of polygon) {
+      if (isPointInRing(x, y, ring)) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Build a DetectedGrain from a closed ring, recomputing its measurements.
+ */
+export function ringToGrain(ring: Pair[], tempId: string): DetectedGrain {
+  let perimeter = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    perimeter += Math.hypot(ring[i + 1][0] - ring[i][0], ring[i + 1][1] - ring[i][1]);
+  }
+  const area = ringArea(ring);
+  const [minX, minY, maxX, maxY] = ringBbox(ring);
+  const centroid = ringCentroid(ring);
+
+  return {
+    tempId,
+    contour: ring.slice(0, -1).map(([x, y]) => ({ x, y })),
+    area,
+    centroid: { x: Math.round(centroid.x), y: Math.round(centroid.y) },
+    boundingBox: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+    perimeter,
+    circularity: perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0,
+  };
+}
@@ -23,6 +23,9 @@ import type {
 // Re-export types and loader functions
 export * from './types';
 export * from './opencvLoader';
+export * from './tiled';
+export * from './evaluation';
+export * from './labelOutlines';
 
 /**
  * Maximum image dimension for processing.
@@ -483,7 +486,8 @@ function extractGrains(
  *
  * @param grains - Detected grains from detectGrainBoundaries
  * @param outputType - 'polygon' for outlines, 'point' for centroids
- * @returns Array of geometry data ready for spot creation
+ * @returns Array of geometry data ready for spot creation (with the grain's
+ *   mineral when a semantic model assigned one)
  */
 export function grainsToSpotGeometry(
   grains: DetectedGrain[],
@@ -493,6 +497,7 @@ export function grainsToSpotGeometry(
   points: Array<{ X: number; Y: number }>;
   area?: number;
   centroid?: { X: number; Y: number };
+  mineral?: string;
 }> {
   return grains.map((grain) => {
     if (outputType === 'point') {
@@ -500,6 +505,7 @@ export function grainsToSpotGeometry(
         geometryType: 'point' as const,
         points: [{ X: grain.centroid.x, Y: grain.centroid.y }],
         centroid: { X: grain.centroid.x, Y: grain.centroid.y },
+        mineral: grain.mineral,
       };
     }
 
@@ -508,6 +514,7 @@ export function grainsToSpotGeometry(
       points: grain.contour.map((p) => ({ X: p.x, Y: p.y })),
       area: grain.area,
       centroid: { X: grain.centroid.x, Y: grain.centroid.y },
+      mineral: grain.mineral,
     };
   });
 }
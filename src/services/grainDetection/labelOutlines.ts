@@ -0,0 +1,163 @@
+/**
+ * Label Grid Outlines
+ *
+ * Turns a grid of integer labels into polygon outlines: connected regions
+ * of each label are found (4-connectivity), their outer boundary is followed
+ * along pixel edges, and the outline is simplified with Douglas-Peucker.
+ *
+ * Outlines follow pixel edges rather than pixel centers, so neighboring
+ * regions share their boundary exactly before simplification. Used for
+ * phase maps, model masks, magic wand selections and COCO RLE masks.
+ *
+ * @module grainDetection/labelOutlines
+ */
+
+import { simplifyRing } from '@/utils/outlineSimplification';
+import type { LabelRegion } from './types';
+
+type Vertex = { x: number; y: number };
+
+// ============================================================================
+// REGION LABELING AND TRACING
+// ============================================================================
+
+// Edge directions in image coordinates (y down): right, down, left, up
+const DIR_X = [1, 0, -1, 0];
+const DIR_Y = [0, 1, 0, -1];
+
+/**
+ * Follow the outer boundary of a 4-connected region along pixel edges.
+ *
+ * Starts at the top-left corner of the region's first pixel in raster order
+ * and walks with the region on the right-hand side, recording a vertex at
+ * every turn.
+ *
+ * @param regionIds - Row-major region ids
+ * @param width - Grid width
+ * @param height - Grid height
+ * @param regionId - Region to trace
+ * @param startCell - Region's first pixel in raster order
+ * @returns Outline vertices in pixel-corner coordinates
+ */
+function traceRegionOutline(
+  regionIds: Int32Array,
+  width: number,
+  height: number,
+  regionId: number,
+  startCell: number
+): Vertex[] {
+  const inside = (px: number, py: number) =>
+    px >= 0 && py >= 0 && px < width && py < height && regionIds[py * width + px] === regionId;
+
+  const startX = startCell % width;
+  const startY = Math.floor(startCell / width);
+  const outline: Vertex[] = [];
+
+  let cx = startX;
+  let cy = startY;
+  let dir = 0;
+  const maxSteps = 4 * (width + 1) * (height + 1);
+
+  for (let step = 0; step < maxSteps; step++) {
+    // Pixels ahead of the corner, left and right of the direction of travel
+    const aheadLeftX = Math.floor(cx + 0.5 * DIR_X[dir] + 0.5 * DIR_Y[dir]);
+    const aheadLeftY = Math.floor(cy + 0.5 * DIR_Y[dir] - 0.5 * DIR_X[dir]);
+    const aheadRightX = Math.floor(cx + 0.5 * DIR_X[dir] - 0.5 * DIR_Y[dir]);
+    const aheadRightY = Math.floor(cy + 0.5 * DIR_Y[dir] + 0.5 * DIR_X[dir]);
+
+    let nextDir: number;
+    if (inside(aheadRightX, aheadRightY)) {
+      nextDir = inside(aheadLeftX, aheadLeftY) ? (dir + 3) % 4 : dir;
+    } else {
+      // Diagonal-only contact is not a connection under 4-connectivity
+      nextDir = (dir + 1) % 4;
+    }
+
+    if (nextDir !== dir || step === 0) outline.push({ x: cx, y: cy });
+    dir = nextDir;
+    cx += DIR_X[dir];
+    cy += DIR_Y[dir];
+
+    if (cx === startX && cy === startY) break;
+  }
+
+  return outline;
+}
+
+/**
+ * Vectorize a label grid into one polygon per connected region.
+ *
+ * Negative labels never form regions. Holes are not cut out of the
+ * outlines; the regions filling them become their own polygons, and each
+ * region's area counts only its own pixels.
+ *
+ * @param labels - Row-major labels (negative = unlabeled)
+ * @param width - Grid width
+ * @param height - Grid height
+ * @param minRegionPixels - Regions smaller than this are dropped
+ * @param simplifyTolerance - Douglas-Peucker tolerance in grid pixels
+ * @returns Regions in grid coordinates
+ */
+export function vectorizeLabels(
+  labels: ArrayLike<number>,
+  width: number,
+  height: number,
+  minRegionPixels: number,
+  simplifyTolerance: number
+): LabelRegion[] {
+  const regionIds = new Int32Array(width * height).fill(-1);
+  const stack = new Int32Array(width * height);
+  const regions: LabelRegion[] = [];
+  let nextRegionId = 0;
+
+  for (let seed = 0; seed < labels.length; seed++) {
+    const label = labels[seed];
+    if (label < 0 || regionIds[seed] !== -1) continue;
+
+    // Flood fill the region (seed is its first pixel in raster order)
+    const regionId = nextRegionId++;
+    let stackSize = 0;
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    regionIds[seed] = regionId;
+    stack[stackSize++] = seed;
+
+    while (stackSize > 0) {
+      const cell = stack[--stackSize];
+      const x = cell % width;
+      const y = (cell - x) / width;
+      count++;
+      sumX += x + 0.5;
+      sumY += y + 0.5;
+
+      const neighbors = [
+        x > 0 ? cell - 1 : -1,
+        x < width - 1 ? cell + 1 : -1,
+        y > 0 ? cell - width : -1,
+        y < height - 1 ? cell + width : -1,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && regionIds[neighbor] === -1 && labels[neighbor] === label) {
+          regionIds[neighbor] = regionId;
+          stack[stackSize++] = neighbor;
+        }
+      }
+    }
+
+    if (count < minRegionPixels) continue;
+
+    const outline = traceRegionOutline(regionIds, width, height, regionId, seed);
+    if (outline.length < 3) continue;
+
+    regions.push({
+      label,
+      contour: simplifyRing(outline, simplifyTolerance),
+      areaPixels: count,
+      centroid: { x: sumX / count, y: sumY / count },
+    });
+  }
+
+  return regions;
+}
+
@@ -0,0 +1,465 @@
+/**
+ * Tiled Grain Detection
+ *
+ * Runs a detector over overlapping full-resolution windows read from the
+ * tile pyramid, so large micrographs are analysed without downscaling.
+ *
+ * Windows overlap by a margin wider than the grains a seam is expected to
+ * cut. After every window has been processed the results are stitched:
+ * - A grain touching an interior window edge is "cut" by the seam.
+ * - A cut grain that lies inside another window's whole grain is dropped.
+ * - Cut pieces of the same grain (and model class) from neighbouring windows
+ *   are unioned.
+ * - Whole grains found twice in an overlap zone are kept once.
+ *
+ * @module grainDetection/tiled
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type {
+  DetectedGrain,
+  DetectionResult,
+  DetectionSettings,
+  DetectionWindow,
+  TiledDetectionOptions,
+  TiledDetectionProgress,
+} from './types';
+import {
+  type Bbox,
+  type ClipMultiPolygon,
+  type Pair,
+  bboxesOverlap,
+  ringArea,
+  ringBbox,
+  ringIntersectionArea,
+  ringToGrain,
+  toRing,
+} from './geometry';
+
+/**
+ * Grains whose bounding box comes this close (pixels) to an interior
+ * window edge are treated as cut by the seam.
+ */
+const SEAM_TOLERANCE = 2;
+
+/**
+ * Whole grains from different windows overlapping by more than this
+ * fraction of the smaller grain are duplicates.
+ */
+const DUPLICATE_OVERLAP = 0.5;
+
+/**
+ * Cut pieces overlapping by more than this fraction of the smaller piece
+ * belong to the same grain.
+ */
+const PIECE_OVERLAP = 0.05;
+
+/**
+ * Cell size of the spatial index used while merging.
+ */
+const INDEX_CELL_SIZE = 256;
+
+// ============================================================================
+// WINDOW PLANNING
+// ============================================================================
+
+/**
+ * Axis offsets of the windows covering [0, length). The last window is
+ * aligned to the far edge so every window has the full size.
+ */
+function windowOffsets(length: number, windowSize: number, step: number): number[] {
+  if (length <= windowSize) return [0];
+  const offsets: number[] = [];
+  for (let offset = 0; offset + windowSize < length; offset += step) {
+    offsets.push(offset);
+  }
+  offsets.push(length - windowSize);
+  return offsets;
+}
+
+/**
+ * Check window options before planning. The overlap must leave a positive
+ * stride between windows, otherwise the windows never advance.
+ *
+ * @param options - Window size and overlap
+ * @returns Error message, or null if the options are usable
+ */
+export function validateTiledDetectionOptions(options: TiledDetectionOptions): string | null {
+  if (!Number.isFinite(options.windowSize) || options.windowSize < 1) {
+    return 'Window size must be at least 1 pixel';
+  }
+  if (!Number.isFinite(options.overlap) || options.overlap < 0) {
+    return 'Overlap cannot be negative';
+  }
+  if (options.overlap >= options.windowSize) {
+    return `Overlap must be smaller than the window size (${options.windowSize} px)`;
+  }
+  return null;
+}
+
+/**
+ * Plan the overlapping windows covering an image, row by row.
+ *
+ * @param imageWidth - Full-resolution image width
+ * @param imageHeight - Full-resolution image height
+ * @param options - Window size and overlap
+ * @returns Windows in processing order
+ * @throws Error if the overlap leaves no stride between windows
+ */
+export function planDetectionWindows(
+  imageWidth: number,
+  imageHeight: number,
+  options: TiledDetectionOptions
+): DetectionWindow[] {
+  const error = validateTiledDetectionOptions(options);
+  if (error) throw new Error(error);
+
+  const step = Math.max(1, options.windowSize - options.overlap);
+  const xs = windowOffsets(imageWidth, options.windowSize, step);
+  const ys = windowOffsets(imageHeight, options.windowSize, step);
+
+  const windows: DetectionWindow[] = [];
+  for (const y of ys) {
+    for (const x of xs) {
+      windows.push({
+        index: windows.length,
+        x,
+        y,
+        width: Math.min(options.windowSize, imageWidth),
+        height: Math.min(options.windowSize, imageHeight),
+      });
+    }
+  }
+  return windows;
+}
+
+// ============================================================================
+// WINDOW LOADING
+// ============================================================================
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * Assemble a window of the full-resolution image from cached tiles.
+ *
+ * @param imageHash - Tile cache hash of the image
+ * @param bounds - Window to load
+ * @param tileSize - Tile size from the tile metadata
+ * @param tilePadding - Tile halo from the tile metadata (0 if none)
+ * @returns Pixels of the window
+ */
+export async function loadWindowImageData(
+  imageHash: string,
+  bounds: DetectionWindow,
+  tileSize: number,
+  tilePadding = 0
+): Promise<ImageData> {
+  const tiles: Array<{ x: number; y: number }> = [];
+  const firstX = Math.floor(bounds.x / tileSize);
+  const firstY = Math.floor(bounds.y / tileSize);
+  const lastX = Math.floor((bounds.x + bounds.width - 1) / tileSize);
+  const lastY = Math.floor((bounds.y + bounds.height - 1) / tileSize);
+  for (let ty = firstY; ty <= lastY; ty++) {
+    for (let tx = firstX; tx <= lastX; tx++) {
+      tiles.push({ x: tx, y: ty });
+    }
+  }
+
+  const loaded = await window.api!.loadTilesBatch(imageHash, tiles);
+  const images = await Promise.all(loaded.map((tile) => loadImage(tile.dataUrl)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bounds.width;
+  canvas.height = bounds.height;
+  const ctx = canvas.getContext('2d')!;
+
+  loaded.forEach((tile, i) => {
+    // Padded tiles carry a halo on every side except the image's top/left edge
+    const padLeft = tile.x > 0 ? tilePadding : 0;
+    const padTop = tile.y > 0 ? tilePadding : 0;
+    ctx.drawImage(images[i], tile.x * tileSize - padLeft - bounds.x, tile.y * tileSize - padTop - bounds.y);
+  });
+
+  return ctx.getImageData(0, 0, bounds.width, bounds.height);
+}
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+interface MergeCandidate {
+  /** Outer ring, closed */
+  ring: Pair[];
+  /** [minX, minY, maxX, maxY] */
+  bbox: Bbox;
+  area: number;
+  windowIndices: Set<number>;
+  cut: boolean;
+  removed: boolean;
+  mineral?: string;
+  score?: number;
+}
+
+function intersectionArea(a: MergeCandidate, b: MergeCandidate): number {
+  return bboxesOverlap(a.bbox, b.bbox) ? ringIntersectionArea(a.ring, b.ring) : 0;
+}
+
+// ============================================================================
+// SEAM MERGING
+// ============================================================================
+
+/**
+ * Whether a grain (in window coordinates) touches an edge of its window
+ * that lies inside the image.
+ */
+function isCutBySeam(grain: DetectedGrain, window: DetectionWindow, imageWidth: number, imageHeight: number): boolean {
+  const { x, y, width, height } = grain.boundingBox;
+  return (
+    (window.x > 0 && x <= SEAM_TOLERANCE) ||
+    (window.y > 0 && y <= SEAM_TOLERANCE) ||
+    (window.x + window.width < imageWidth && x + width >= window.width - 1 - SEAM_TOLERANCE) ||
+    (window.y + window.height < imageHeight && y + height >= window.height - 1 - SEAM_TOLERANCE)
+  );
+}
+
+/**
+ * Merge per-window detections into one set of grains in image coordinates.
+ *
+ * @param results - Grains of each window, in window coordinates
+ * @param imageWidth - Full-resolution image width
+ * @param imageHeight - Full-resolution image height
+ * @returns Stitched and de-duplicated grains, keeping model minerals and scores
+ */
+export function mergeWindowGrains(
+  results: Array<{ window: DetectionWindow; grains: DetectedGrain[] }>,
+  imageWidth: number,
+  imageHeight: number
+): DetectedGrain[] {
+  const candidates: MergeCandidate[] = [];
+  for (const { window, grains } of results) {
+    for (const grain of grains) {
+      const ring = toRing(grain.contour.map((p) => ({ x: p.x + window.x, y: p.y + window.y })));
+      if (ring.length < 4) continue;
+      candidates.push({
+        ring,
+        bbox: ringBbox(ring),
+        area: ringArea(ring),
+        windowIndices: new Set([window.index]),
+        cut: isCutBySeam(grain, window, imageWidth, imageHeight),
+        removed: false,
+        mineral: grain.mineral,
+        score: grain.score,
+      });
+    }
+  }
+
+  // Whole grains first (largest first), so cut pieces can defer to them
+  candidates.sort((a, b) => Number(a.cut) - Number(b.cut) || b.area - a.area);
+
+  const kept: MergeCandidate[] = [];
+  const index = new Map<string, number[]>();
+
+  const cellsOf = (bbox: Bbox): string[] => {
+    const keys: string[] = [];
+    for (let cy = Math.floor(bbox[1] / INDEX_CELL_SIZE); cy <= Math.floor(bbox[3] / INDEX_CELL_SIZE); cy++) {
+      for (let cx = Math.floor(bbox[0] / INDEX_CELL_SIZE); cx <= Math.floor(bbox[2] / INDEX_CELL_SIZE); cx++) {
+        keys.push(`${cx},${cy}`);
+      }
+    }
+    return keys;
+  };
+
+  const keep = (candidate: MergeCandidate) => {
+    const id = kept.length;
+    kept.push(candidate);
+    for (const key of cellsOf(candidate.bbox)) {
+      const cell = index.get(key);
+      if (cell) cell.push(id);
+      else index.set(key, [id]);
+    }
+  };
+
+  // Kept grains from other windows whose bounding boxes overlap the candidate
+  const neighbours = (candidate: MergeCandidate): MergeCandidate[] => {
+    const ids = new Set<number>();
+    for (const key of cellsOf(candidate.bbox)) {
+      for (const id of index.get(key) || []) ids.add(id);
+    }
+    return [...ids]
+      .map((id) => kept[id])
+      .filter(
+        (other) =>
+          !other.removed &&
+          bboxesOverlap(other.bbox, candidate.bbox) &&
+          ![...candidate.windowIndices].some((w) => other.windowIndices.has(w))
+      );
+  };
+
+  for (const candidate of candidates) {
+    const others = neighbours(candidate);
+
+    if (!candidate.cut) {
+      const duplicate = others.some(
+        (other) => intersectionArea(candidate, other) > DUPLICATE_OVERLAP * Math.min(candidate.area, other.area)
+      );
+      if (!duplicate) keep(candidate);
+      continue;
+    }
+
+    // A piece of a grain another window saw whole
+    const covered = others.some(
+      (other) => !other.cut && intersectionArea(candidate, other) > DUPLICATE_OVERLAP * candidate.area
+    );
+    if (covered) continue;
+
+    // Pieces of the same grain cut by the seam
+    const pieces = others.filter(
+      (other) =>
+        other.cut &&
+        other.mineral === candidate.mineral &&
+        intersectionArea(candidate, other) > PIECE_OVERLAP * Math.min(candidate.area, other.area)
+    );
+    if (pieces.length === 0) {
+      keep(candidate);
+      continue;
+    }
+
+    let union: ClipMultiPolygon;
+    try {
+      union = polygonClipping.union([candidate.ring], ...pieces.map((piece) => [piece.ring])) as ClipMultiPolygon;
+    } catch {
+      keep(candidate);
+      continue;
+    }
+
+    // Keep the largest part; holes are not carried over to spots
+    const outer = union
+      .map((polygon) => polygon[0])
+      .reduce<Pair[] | null>((best, ring) => (!best || ringArea(ring) > ringArea(best) ? ring : best), null);
+    if (!outer) continue;
+
+    const windowIndices = new Set(candidate.windowIndices);
+    let score = candidate.score;
+    for (const piece of pieces) {
+      piece.removed = true;
+      piece.windowIndices.forEach((w) => windowIndices.add(w));
+      if (piece.score !== undefined) score = Math.max(score ?? 0, piece.score);
+    }
+    const ring = toRing(outer.map(([x, y]) => ({ x, y })));
+    keep({
+      ring,
+      bbox: ringBbox(ring),
+      area: ringArea(ring),
+      windowIndices,
+      cut: true,
+      removed: false,
+      mineral: candidate.mineral,
+      score,
+    });
+  }
+
+  // Model labels survive stitching
+  return kept
+    .filter((c) => !c.removed)
+    .map((c, i) => {
+      const grain = ringToGrain(c.ring, `grain-${i}`);
+      return {
+        ...grain,
+        ...(c.mineral !== undefined && { mineral: c.mineral }),
+        ...(c.score !== undefined && { score: c.score }),
+      };
+    });
+}
+
+// ============================================================================
+// ORCHESTRATION
+// ============================================================================
+
+/**
+ * Options for runTiledDetection.
+ */
+export interface RunTiledDetectionOptions {
+  /** Tile cache hash of the image */
+  imageHash: string;
+  /** Full-resolution image size */
+  imageWidth: number;
+  imageHeight: number;
+  /** Tile layout from the tile metadata */
+  tileSize: number;
+  tilePadding?: number;
+  /** Window size and overlap */
+  options: TiledDetectionOptions;
+  /** Settings recorded in the result */
+  settings: DetectionSettings;
+  /**
+   * Detect grains in one window. Returned coordinates must be in window
+   * pixels (the same size as the image data passed in).
+   */
+  detect: (imageData: ImageData, window: DetectionWindow) => Promise<DetectedGrain[]>;
+  /** Called after each window and before merging */
+  onProgress?: (progress: TiledDetectionProgress) => void;
+  /** Aborts the run between windows */
+  signal?: AbortSignal;
+}
+
+/**
+ * Detect grains over the full-resolution image, window by window.
+ *
+ * @returns Merged detection result in full-resolution image coordinates
+ * @throws Error if the run is aborted or a window fails
+ */
+export async function runTiledDetection({
+  imageHash,
+  imageWidth,
+  imageHeight,
+  tileSize,
+  tilePadding = 0,
+  options,
+  settings,
+  detect,
+  onProgress,
+  signal,
+}: RunTiledDetectionOptions): Promise<DetectionResult> {
+  const startTime = performance.now();
+  const windows = planDetectionWindows(imageWidth, imageHeight, options);
+  const results: Array<{ window: DetectionWindow; grains: DetectedGrain[] }> = [];
+  let grainCount = 0;
+
+  console.log(`[TiledDetection] ${windows.length} windows of ${options.windowSize}px over ${imageWidth}x${imageHeight}`);
+
+  for (const window of windows) {
+    if (signal?.aborted) throw new Error('Tiled detection cancelled');
+
+    const imageData = await loadWindowImageData(imageHash, window, tileSize, tilePadding);
+    const grains = await detect(imageData, window);
+    results.push({ window, grains });
+    grainCount += grains.length;
+
+    onProgress?.({ stage: 'detecting', windowsDone: window.index + 1, windowCount: windows.length, grainCount });
+  }
+
+  if (signal?.aborted) throw new Error('Tiled detection cancelled');
+  onProgress?.({ stage: 'merging', windowsDone: windows.length, windowCount: windows.length, grainCount });
+
+  const grains = mergeWindowGrains(results, imageWidth, imageHeight);
+  const processingTimeMs = performance.now() - startTime;
+
+  console.log(
+    `[TiledDetection] ${grainCount} window grains merged to ${grains.length} in ${processingTimeMs.toFixed(0)}ms`
+  );
+
+  return {
+    grains,
+    processingTimeMs,
+    settings,
+    imageDimensions: { width: imageWidth, height: imageHeight },
+    scaleFactor: 1,
+  };
+}
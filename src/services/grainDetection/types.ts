@@ -107,6 +107,17 @@ export interface DetectedGrain {
    * 1.0 = perfect circle, lower = more irregular.
    */
   circularity?: number;
+
+  /**
+   * Mineral assigned by a semantic segmentation model.
+   * Spots generated from the grain carry it in their mineralogy.
+   */
+  mineral?: string;
+
+  /**
+   * Confidence (0-1) of a model prediction.
+   */
+  score?: number;
 }
 
 /**
@@ -144,6 +155,219 @@ export interface DetectionResult {
   scaleFactor: number;
 }
 
+/**
+ * A window of the full-resolution image processed in tiled detection.
+ */
+export interface DetectionWindow {
+  /**
+   * Position of the window in processing order.
+   */
+  index: number;
+
+  /**
+   * Window bounds in full-resolution image pixels.
+   */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for full-resolution tiled detection.
+ */
+export interface TiledDetectionOptions {
+  /**
+   * Window size in pixels (windows at the right/bottom edge may be smaller
+   * only when the image itself is smaller).
+   */
+  windowSize: number;
+
+  /**
+   * Overlap between neighbouring windows in pixels.
+   * Should be larger than the grains expected to be cut by a seam.
+   */
+  overlap: number;
+}
+
+/**
+ * Default tiled detection options.
+ * 1024px windows match the size the detectors process without downscaling.
+ */
+export const DEFAULT_TILED_DETECTION_OPTIONS: TiledDetectionOptions = {
+  windowSize: 1024,
+  overlap: 192,
+};
+
+/**
+ * Progress of a tiled detection run.
+ */
+export interface TiledDetectionProgress {
+  /**
+   * Current stage of the run.
+   */
+  stage: 'detecting' | 'merging';
+
+  /**
+   * Number of windows finished so far.
+   */
+  windowsDone: number;
+
+  /**
+   * Total number of windows.
+   */
+  windowCount: number;
+
+  /**
+   * Grains found so far (before seam merging).
+   */
+  grainCount: number;
+}
+
+/**
+ * Options for comparing detected grains with hand-traced reference grains.
+ */
+export interface EvaluationOptions {
+  /**
+   * Minimum intersection-over-union for a detected grain to match a reference grain.
+   */
+  iouThreshold: number;
+
+  /**
+   * Fraction of a grain's area that must lie inside another grain for it to
+   * count as a fragment of it (over-segmentation) or as swallowed by it
+   * (under-segmentation).
+   */
+  coverThreshold: number;
+}
+
+/**
+ * Default evaluation options (the usual 0.5 IoU criterion).
+ */
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  iouThreshold: 0.5,
+  coverThreshold: 0.5,
+};
+
+/**
+ * A one-to-one match between a detected and a reference grain.
+ */
+export interface GrainMatch {
+  detectedIndex: number;
+  referenceIndex: number;
+  iou: number;
+}
+
+/**
+ * Difference between the detected and reference grain size distributions,
+ * measured as equivalent circular diameter (pixels).
+ */
+export interface SizeDistributionBias {
+  referenceMeanDiameter: number;
+  detectedMeanDiameter: number;
+  referenceMedianDiameter: number;
+  detectedMedianDiameter: number;
+
+  /**
+   * (detected - reference) / reference mean diameter, in percent.
+   * Positive = grains detected too large.
+   */
+  meanBiasPercent: number;
+
+  /**
+   * (detected - reference) / reference median diameter, in percent.
+   */
+  medianBiasPercent: number;
+
+  /**
+   * Two-sample Kolmogorov-Smirnov statistic (0 = identical distributions).
+   */
+  ksStatistic: number;
+}
+
+/**
+ * Accuracy of a detection run against hand-traced reference grains.
+ */
+export interface DetectionEvaluation {
+  /**
+   * Grains compared (after restricting both sets to the reference region).
+   */
+  detectedCount: number;
+  referenceCount: number;
+
+  /**
+   * One-to-one matches at or above the IoU threshold.
+   */
+  matches: GrainMatch[];
+
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+
+  /**
+   * Mean IoU of the matched pairs.
+   */
+  meanMatchedIoU: number;
+
+  /**
+   * Reference grains split into two or more detected grains.
+   */
+  overSegmented: number;
+
+  /**
+   * Detected grains that merge two or more reference grains.
+   */
+  underSegmented: number;
+
+  /**
+   * Size distribution bias (null when either set is empty).
+   */
+  sizeBias: SizeDistributionBias | null;
+}
+
+/**
+ * Grid of OpenCV settings tried by a parameter sweep.
+ */
+export interface SweepGrid {
+  sensitivity: number[];
+  edgeContrast: number[];
+}
+
+/**
+ * Default sweep grid (3 x 3 around the default settings).
+ */
+export const DEFAULT_SWEEP_GRID: SweepGrid = {
+  sensitivity: [30, 50, 70],
+  edgeContrast: [30, 50, 70],
+};
+
+/**
+ * Settings tried by a parameter sweep.
+ */
+export interface SweepCandidate {
+  /**
+   * Preset name, or a description of the grid point.
+   */
+  label: string;
+
+  /**
+   * Preset id when the candidate is an existing preset.
+   */
+  presetId?: string;
+
+  settings: DetectionSettings;
+}
+
+/**
+ * A sweep candidate with its evaluation.
+ */
+export interface SweepResult extends SweepCandidate {
+  evaluation: DetectionEvaluation;
+}
+
 /**
  * Optional region mask to limit detection to a specific area.
  */
@@ -159,6 +383,20 @@ export interface RegionMask {
   coveragePercent: number;
 }
 
+/**
+ * A connected region of one label, outlined as a polygon.
+ */
+export interface LabelRegion {
+  /** Label shared by the region's pixels */
+  label: number;
+  /** Outline vertices in grid pixels */
+  contour: Array<{ x: number; y: number }>;
+  /** Region area in grid pixels (holes excluded) */
+  areaPixels: number;
+  /** Region centroid in grid pixels */
+  centroid: { x: number; y: number };
+}
+
 /**
  * A saved detection preset.
  */
@@ -182,6 +420,35 @@ export interface DetectionPreset {
    * The detection settings for this preset.
    */
   settings: Omit<DetectionSettings, 'presetName'>;
+
+  /**
+   * Accuracy against hand-traced grains, for presets saved from a parameter sweep.
+   */
+  validation?: PresetValidation;
+}
+
+/**
+ * Record of how a user preset scored when it was validated.
+ */
+export interface PresetValidation {
+  /**
+   * Micrograph the reference grains were traced on.
+   */
+  micrographName: string;
+
+  /**
+   * Number of reference grains.
+   */
+  referenceCount: number;
+
+  precision: number;
+  recall: number;
+  f1: number;
+
+  /**
+   * ISO timestamp of the evaluation.
+   */
+  evaluatedAt: string;
 }
 
 /**
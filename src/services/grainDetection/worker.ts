@@ -5,6 +5,8 @@
  * to prevent UI blocking.
  */
 
+import { loadOpenCVInWorker } from './workerOpenCV';
+
 // Worker message types
 interface DetectionRequest {
   type: 'detect';
@@ -55,113 +57,6 @@ let cv: any = null;
  */
 const MAX_PROCESSING_SIZE = 1024;
 
-/**
- * Load OpenCV.js in the worker context
- * Prefers script passed from main thread (works in production),
- * falls back to fetch (works in dev mode)
- */
-async function loadOpenCVInWorker(scriptContent?: string): Promise<void> {
-  if (cv) return;
-
-  self.postMessage({ type: 'progress', step: 'Loading OpenCV...', percent: 5 } as ProgressMessage);
-
-  let scriptText: string;
-
-  try {
-    // If script content was passed from main thread, use it directly
-    if (scriptContent) {
-      console.log('[Worker] Using OpenCV script passed from main thread');
-      scriptText = scriptContent;
-    } else {
-      // Fall back to fetch (works in dev mode)
-      console.log('[Worker] Fetching OpenCV script...');
-      const possibleUrls = [
-        '/opencv.js', // Works in dev mode with Vite
-        'http://localhost:5173/opencv.js', // Vite dev server explicit
-      ];
-
-      let response: Response | null = null;
-      let lastError: Error | null = null;
-
-      for (const url of possibleUrls) {
-        try {
-          response = await fetch(url);
-          if (response.ok) {
-            break;
-          }
-          response = null;
-        } catch (e) {
-          lastError = e instanceof Error ? e : new Error(String(e));
-          response = null;
-        }
-      }
-
-      if (!response || !response.ok) {
-        throw lastError || new Error('Failed to fetch OpenCV.js from any location');
-      }
-      scriptText = await response.text();
-    }
-
-    // Execute the script in worker context
-    // eslint-disable-next-line no-eval
-    (0, eval)(scriptText);
-
-    // Wait for OpenCV to initialize
-    await new Promise<void>((resolve, reject) => {
-      const startTime = Date.now();
-      const timeoutMs = 30000;
-
-      const checkReady = () => {
-        const globalCv = (self as any).cv;
-
-        if (globalCv && typeof globalCv.Mat === 'function') {
-          cv = globalCv;
-          resolve();
-          return;
-        }
-
-        // Check for factory pattern
-        if (globalCv && typeof globalCv === 'function') {
-          try {
-            const result = globalCv();
-            if (result && typeof result.then === 'function') {
-              result.then((resolvedCv: any) => {
-                cv = resolvedCv;
-                (self as any).cv = resolvedCv;
-                resolve();
-              }).catch(reject);
-              return;
-            }
-          } catch (e) {
-            // Continue polling
-          }
-        }
-
-        // Check for onRuntimeInitialized
-        if (globalCv && 'onRuntimeInitialized' in globalCv) {
-          globalCv.onRuntimeInitialized = () => {
-            cv = globalCv;
-            resolve();
-          };
-          return;
-        }
-
-        // Check timeout
-        if (Date.now() - startTime > timeoutMs) {
-          reject(new Error('OpenCV.js initialization timed out'));
-          return;
-        }
-
-        setTimeout(checkReady, 100);
-      };
-
-      checkReady();
-    });
-  } catch (e) {
-    throw new Error(`Failed to load OpenCV.js: ${e}`);
-  }
-}
-
 /**
  * Prepare image for processing, downscaling if necessary.
  */
@@ -411,7 +306,10 @@ self.onmessage = async (event: MessageEvent<DetectionRequest>) => {
   if (type === 'detect') {
     try {
       // Load OpenCV if needed (pass script content if provided)
-      await loadOpenCVInWorker(opencvScript);
+      if (!cv) {
+        self.postMessage({ type: 'progress', step: 'Loading OpenCV...', percent: 5 } as ProgressMessage);
+        cv = await loadOpenCVInWorker(opencvScript);
+      }
 
       // Run detection
       const result = runDetection(imageData, settings);
@@ -0,0 +1,111 @@
+/**
+ * OpenCV.js Loader for Web Workers
+ *
+ * Shared by the grain detection, contour extraction and auto-registration
+ * workers. Workers cannot use the main-thread loader (opencvLoader.ts), so
+ * the script is evaluated in the worker scope: the content passed from the
+ * main thread is preferred (works in production), with a fetch from the Vite
+ * dev server as fallback.
+ *
+ * The instance is loaded once per worker and reused for every request.
+ */
+
+/** How long OpenCV may take to initialize after its script runs */
+const INIT_TIMEOUT_MS = 30000;
+
+/** Locations the script is fetched from when none was passed in */
+const OPENCV_URLS = [
+  '/opencv.js', // Works in dev mode with Vite
+  'http://localhost:5173/opencv.js', // Vite dev server explicit
+];
+
+let loadPromise: Promise<any> | null = null;
+
+/**
+ * Fetch the OpenCV.js script text from the dev server.
+ */
+async function fetchOpenCVScript(): Promise<string> {
+  let lastError: Error | null = null;
+  for (const url of OPENCV_URLS) {
+    try {
+      const response = await fetch(url);
+      if (response.ok) return await response.text();
+    } catch (e) {
+      lastError = e instanceof Error ? e : new Error(String(e));
+    }
+  }
+  throw lastError || new Error('Failed to fetch OpenCV.js from any location');
+}
+
+/**
+ * Evaluate the script and wait until the cv instance is usable.
+ */
+async function initializeOpenCV(scriptContent?: string): Promise<any> {
+  const scriptText = scriptContent || (await fetchOpenCVScript());
+
+  // Execute the script in worker context
+  // eslint-disable-next-line no-eval
+  (0, eval)(scriptText);
+
+  return new Promise<any>((resolve, reject) => {
+    const startTime = Date.now();
+
+    const checkReady = () => {
+      const globalCv = (self as any).cv;
+
+      if (globalCv && typeof globalCv.Mat === 'function') {
+        resolve(globalCv);
+        return;
+      }
+
+      // Check for factory pattern
+      if (globalCv && typeof globalCv === 'function') {
+        try {
+          const result = globalCv();
+          if (result && typeof result.then === 'function') {
+            result.then((resolvedCv: any) => {
+              (self as any).cv = resolvedCv;
+              resolve(resolvedCv);
+            }).catch(reject);
+            return;
+          }
+        } catch {
+          // Continue polling
+        }
+      }
+
+      // Check for onRuntimeInitialized
+      if (globalCv && 'onRuntimeInitialized' in globalCv) {
+        globalCv.onRuntimeInitialized = () => resolve(globalCv);
+        return;
+      }
+
+      if (Date.now() - startTime > INIT_TIMEOUT_MS) {
+        reject(new Error('OpenCV.js initialization timed out'));
+        return;
+      }
+
+      setTimeout(checkReady, 100);
+    };
+
+    checkReady();
+  });
+}
+
+/**
+ * Load OpenCV.js in the current worker, once.
+ *
+ * @param scriptContent - OpenCV script passed from the main thread (production)
+ * @returns The cv instance
+ * @throws Error if the script cannot be loaded or does not initialize
+ */
+export function loadOpenCVInWorker(scriptContent?: string): Promise<any> {
+  if (!loadPromise) {
+    loadPromise = initializeOpenCV(scriptContent).catch((e) => {
+      // Allow a later request to retry
+      loadPromise = null;
+      throw new Error(`Failed to load OpenCV.js: ${e instanceof Error ? e.message : e}`);
+    });
+  }
+  return loadPromise;
+}
@@ -0,0 +1,75 @@
+/**
+ * Livewire Cost Map
+ *
+ * Turns a sampled image area into per-pixel tracing costs using the Sobel
+ * gradient magnitude from the StraboTools edge detector.
+ */
+
+import { applySobel, toGrayscale } from '@/services/straboToolsProcessing';
+import type { LivewireCostMap } from './types';
+
+/**
+ * Cost added to every step so that, between equally strong edges, the
+ * shorter path wins (keeps paths from wandering along every edge)
+ */
+const LENGTH_COST = 0.05;
+
+/**
+ * Gradients at or above this percentile count as full-strength edges, so a
+ * few very bright edges do not make every other edge look weak
+ */
+const EDGE_PERCENTILE = 0.98;
+
+/**
+ * Magnitude at a percentile, from a 256-bin histogram.
+ */
+function magnitudePercentile(magnitude: Float32Array, percentile: number): number {
+  let max = 0;
+  for (let i = 0; i < magnitude.length; i++) {
+    if (magnitude[i] > max) max = magnitude[i];
+  }
+  if (max === 0) return 0;
+
+  const bins = new Uint32Array(256);
+  for (let i = 0; i < magnitude.length; i++) {
+    bins[Math.min(255, Math.floor((magnitude[i] / max) * 256))]++;
+  }
+
+  const target = magnitude.length * percentile;
+  let count = 0;
+  for (let bin = 0; bin < 256; bin++) {
+    count += bins[bin];
+    if (count >= target) return ((bin + 1) / 256) * max;
+  }
+  return max;
+}
+
+/**
+ * Build the tracing cost map for a sampled image area.
+ *
+ * @param imageData - Sampled area, in working pixels
+ * @param x - Origin of the area in image pixels
+ * @param y - Origin of the area in image pixels
+ * @param scale - Working pixels per image pixel
+ */
+export function buildCostMap(imageData: ImageData, x: number, y: number, scale: number): LivewireCostMap {
+  const { width, height } = imageData;
+  const cost = new Float32Array(width * height).fill(1 + LENGTH_COST);
+
+  // Sobel output excludes the 1-pixel border; the border keeps the flat-area cost
+  if (width > 2 && height > 2) {
+    const sobel = applySobel(toGrayscale(imageData), width, height);
+    const strong = magnitudePercentile(sobel.magnitude, EDGE_PERCENTILE);
+
+    if (strong > 0) {
+      for (let row = 0; row < sobel.height; row++) {
+        for (let col = 0; col < sobel.width; col++) {
+          const edge = Math.min(1, sobel.magnitude[row * sobel.width + col] / strong);
+          cost[(row + 1) * width + col + 1] = 1 - edge + LENGTH_COST;
+        }
+      }
+    }
+  }
+
+  return { cost, width, height, x, y, scale };
+}
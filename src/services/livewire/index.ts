@@ -0,0 +1,10 @@
+/**
+ * Livewire Service
+ *
+ * Re-exports the edge cost map and lowest-cost path search used for
+ * "intelligent scissors" tracing
+ */
+
+export * from './types';
+export * from './costMap';
+export * from './pathfinder';
@@ -0,0 +1,182 @@
+/**
+ * Livewire Pathfinder
+ *
+ * Lowest-cost paths from an anchor over a cost map (8-connected Dijkstra).
+ * The search is expanded lazily: each query settles pixels only until the
+ * target is reached, and later queries continue from there, so following the
+ * cursor stays cheap after the first few moves.
+ */
+
+import { simplifyPolyline } from '@/utils/outlineSimplification';
+import type { Pair } from '@/services/grainDetection/geometry';
+import type { LivewireCostMap } from './types';
+
+/** Path simplification tolerance, in working pixels */
+const SIMPLIFY_TOLERANCE = 0.75;
+
+const NEIGHBOR_DX = [1, -1, 0, 0, 1, 1, -1, -1];
+const NEIGHBOR_DY = [0, 0, 1, -1, 1, -1, 1, -1];
+const NEIGHBOR_LENGTH = [1, 1, 1, 1, Math.SQRT2, Math.SQRT2, Math.SQRT2, Math.SQRT2];
+
+/**
+ * Binary min-heap of pixel indices. Entries are never updated in place; a
+ * pixel is pushed again when its distance improves and stale entries are
+ * skipped when popped.
+ */
+class PixelHeap {
+  private keys = new Float64Array(1024);
+  private values = new Int32Array(1024);
+  size = 0;
+
+  push(key: number, value: number): void {
+    if (this.size === this.keys.length) {
+      const keys = new Float64Array(this.size * 2);
+      const values = new Int32Array(this.size * 2);
+      keys.set(this.keys);
+      values.set(this.values);
+      this.keys = keys;
+      this.values = values;
+    }
+
+    let i = this.size++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.keys[i] = this.keys[parent];
+      this.values[i] = this.values[parent];
+      i = parent;
+    }
+    this.keys[i] = key;
+    this.values[i] = value;
+  }
+
+  /** Remove the smallest entry and return its value */
+  pop(): number {
+    const top = this.values[0];
+    const key = this.keys[--this.size];
+    const value = this.values[this.size];
+
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= this.size) break;
+      if (child + 1 < this.size && this.keys[child + 1] < this.keys[child]) child++;
+      if (this.keys[child] >= key) break;
+      this.keys[i] = this.keys[child];
+      this.values[i] = this.values[child];
+      i = child;
+    }
+    this.keys[i] = key;
+    this.values[i] = value;
+    return top;
+  }
+}
+
+/**
+ * Shortest-path tree from one anchor pixel.
+ */
+export class LivewirePathfinder {
+  private readonly distance: Float32Array;
+  private readonly previous: Int32Array;
+  private readonly settled: Uint8Array;
+  private readonly heap = new PixelHeap();
+
+  /**
+   * @param map - Cost map of the traced area
+   * @param anchorX - Anchor in image pixels
+   * @param anchorY - Anchor in image pixels
+   */
+  constructor(
+    private readonly map: LivewireCostMap,
+    readonly anchorX: number,
+    readonly anchorY: number
+  ) {
+    const size = map.width * map.height;
+    this.distance = new Float32Array(size).fill(Infinity);
+    this.previous = new Int32Array(size).fill(-1);
+    this.settled = new Uint8Array(size);
+
+    // An anchor outside the map leaves the search empty (every path is null)
+    const anchor = this.toCell(anchorX, anchorY);
+    if (anchor !== null) {
+      this.distance[anchor] = 0;
+      this.heap.push(0, anchor);
+    }
+  }
+
+  /**
+   * Working-grid cell of an image position, or null outside the map
+   */
+  private toCell(x: number, y: number): number | null {
+    const { map } = this;
+    const col = Math.floor((x - map.x) * map.scale);
+    const row = Math.floor((y - map.y) * map.scale);
+    if (col < 0 || row < 0 || col >= map.width || row >= map.height) return null;
+    return row * map.width + col;
+  }
+
+  /**
+   * Settle pixels in cost order until the target is settled
+   */
+  private expandTo(target: number): void {
+    const { cost, width, height } = this.map;
+    const { distance, previous, settled, heap } = this;
+
+    while (!settled[target] && heap.size > 0) {
+      const cell = heap.pop();
+      if (settled[cell]) continue;
+      settled[cell] = 1;
+
+      const x = cell % width;
+      const y = (cell - x) / width;
+      for (let k = 0; k < 8; k++) {
+        const nx = x + NEIGHBOR_DX[k];
+        const ny = y + NEIGHBOR_DY[k];
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const next = ny * width + nx;
+        if (settled[next]) continue;
+
+        const candidate = distance[cell] + cost[next] * NEIGHBOR_LENGTH[k];
+        if (candidate < distance[next]) {
+          distance[next] = candidate;
+          previous[next] = cell;
+          heap.push(candidate, next);
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether an image position lies inside the traced area
+   */
+  contains(x: number, y: number): boolean {
+    return this.toCell(x, y) !== null;
+  }
+
+  /**
+   * Lowest-cost path from the anchor to a position, simplified, in image
+   * pixels. The exact anchor and target positions are the path's ends.
+   *
+   * @returns Path, or null if the position is outside the traced area
+   */
+  pathTo(x: number, y: number): Pair[] | null {
+    const target = this.toCell(x, y);
+    if (target === null) return null;
+    this.expandTo(target);
+    if (!this.settled[target]) return null;
+
+    const { map } = this;
+    const cells: Array<{ x: number; y: number }> = [];
+    for (let cell = target; cell !== -1; cell = this.previous[cell]) {
+      const col = cell % map.width;
+      cells.push({ x: col + 0.5, y: (cell - col) / map.width + 0.5 });
+    }
+    cells.reverse();
+
+    const simplified = simplifyPolyline(cells, SIMPLIFY_TOLERANCE);
+    const path: Pair[] = simplified
+      .slice(1, -1)
+      .map((p) => [map.x + p.x / map.scale, map.y + p.y / map.scale]);
+    return [[this.anchorX, this.anchorY], ...path, [x, y]];
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Livewire Types
+ *
+ * Types for "intelligent scissors" tracing: paths between clicked anchors
+ * follow the strongest image edges of the visible area.
+ */
+
+import type { Pair } from '@/services/grainDetection/geometry';
+
+// ============================================================================
+// COST MAP
+// ============================================================================
+
+/**
+ * Per-pixel cost of tracing through a sampled area of the image: low on
+ * strong edges, high in flat areas.
+ */
+export interface LivewireCostMap {
+  /** Cost per working pixel (row-major) */
+  cost: Float32Array;
+  width: number;
+  height: number;
+  /** Origin of the sampled area in image pixels */
+  x: number;
+  y: number;
+  /** Working pixels per image pixel */
+  scale: number;
+}
+
+// ============================================================================
+// TRACING
+// ============================================================================
+
+/**
+ * Traces edge-following paths from an anchor. Drawing hooks use this in
+ * livewire mode; paths are null where there is no cost map (the hook then
+ * draws a straight segment).
+ */
+export interface LivewireTracer {
+  /** Start paths at an anchor (image pixels) */
+  setAnchor(x: number, y: number): void;
+  /** Forget the anchor (drawing finished or cancelled) */
+  clearAnchor(): void;
+  /** Path from the anchor to a position, both ends included (image pixels) */
+  pathTo(x: number, y: number): Pair[] | null;
+}
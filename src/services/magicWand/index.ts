@@ -0,0 +1,8 @@
+/**
+ * Magic Wand Service
+ *
+ * Re-exports region growing and outline tracing for the magic wand tool
+ */
+
+export * from './types';
+export * from './regionGrowing';
@@ -0,0 +1,235 @@
+/**
+ * Magic Wand Region Growing
+ *
+ * Grows a region from clicked pixels: a 4-connected flood fill takes in every
+ * pixel whose color is within the tolerance of the clicked color (in every
+ * sampled image, so a PPL/XPL pair can be used together). Later clicks add to
+ * or subtract from the region. The result is smoothed with a majority filter,
+ * holes are filled, and the outline is traced and simplified with the grain
+ * detection contour tools.
+ */
+
+import { vectorizeLabels } from '@/services/grainDetection/labelOutlines';
+import type { MagicWandOptions, WandOutline, WandSeed } from './types';
+
+/** Pieces smaller than this (working pixels) are ignored when tracing */
+const MIN_PIECE_PIXELS = 9;
+
+/** Euclidean RGB distance is divided by this so tolerances stay on a 0-255 scale */
+const RGB_DISTANCE_SCALE = Math.sqrt(3);
+
+// ============================================================================
+// FLOOD FILL
+// ============================================================================
+
+/**
+ * Mean color of the 3x3 neighborhood around a pixel (less sensitive to noise
+ * than the single clicked pixel).
+ */
+function seedColor(image: ImageData, px: number, py: number): [number, number, number] {
+  const { width, height, data } = image;
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let y = Math.max(0, py - 1); y <= Math.min(height - 1, py + 1); y++) {
+    for (let x = Math.max(0, px - 1); x <= Math.min(width - 1, px + 1); x++) {
+      const i = (y * width + x) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+  return [r / count, g / count, b / count];
+}
+
+/**
+ * Flood fill from a pixel over all pixels within the tolerance of its color.
+ *
+ * @param images - Images of the same size; a pixel must match in every one
+ * @param px - Seed column
+ * @param py - Seed row
+ * @param tolerance - Maximum color distance (0-255)
+ * @returns Mask (1 = in region)
+ */
+export function floodFillRegion(images: ImageData[], px: number, py: number, tolerance: number): Uint8Array {
+  const { width, height } = images[0];
+  const mask = new Uint8Array(width * height);
+  if (px < 0 || py < 0 || px >= width || py >= height) return mask;
+
+  const seeds = images.map((image) => seedColor(image, px, py));
+  // Compare squared distances on the raw RGB scale
+  const limit = (tolerance * RGB_DISTANCE_SCALE) ** 2;
+
+  const matches = (cell: number): boolean => {
+    const i = cell * 4;
+    for (let k = 0; k < images.length; k++) {
+      const { data } = images[k];
+      const [r, g, b] = seeds[k];
+      const dr = data[i] - r;
+      const dg = data[i + 1] - g;
+      const db = data[i + 2] - b;
+      if (dr * dr + dg * dg + db * db > limit) return false;
+    }
+    return true;
+  };
+
+  const stack = new Int32Array(width * height);
+  let stackSize = 0;
+  const start = py * width + px;
+  mask[start] = 1;
+  stack[stackSize++] = start;
+
+  while (stackSize > 0) {
+    const cell = stack[--stackSize];
+    const x = cell % width;
+    const y = (cell - x) / width;
+
+    if (x > 0 && !mask[cell - 1] && matches(cell - 1)) {
+      mask[cell - 1] = 1;
+      stack[stackSize++] = cell - 1;
+    }
+    if (x < width - 1 && !mask[cell + 1] && matches(cell + 1)) {
+      mask[cell + 1] = 1;
+      stack[stackSize++] = cell + 1;
+    }
+    if (y > 0 && !mask[cell - width] && matches(cell - width)) {
+      mask[cell - width] = 1;
+      stack[stackSize++] = cell - width;
+    }
+    if (y < height - 1 && !mask[cell + width] && matches(cell + width)) {
+      mask[cell + width] = 1;
+      stack[stackSize++] = cell + width;
+    }
+  }
+
+  return mask;
+}
+
+// ============================================================================
+// MASK CLEANUP
+// ============================================================================
+
+/**
+ * Majority filter: a pixel is in the region when more than half of the
+ * (2r+1)² box around it is. Rounds off jagged edges and removes specks.
+ */
+export function smoothMask(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  if (radius <= 0) return mask;
+
+  // Summed-area table with a zero row and column
+  const stride = width + 1;
+  const sums = new Int32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += mask[y * width + x];
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const result = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const count = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+      const area = (x1 - x0) * (y1 - y0);
+      result[y * width + x] = count * 2 > area ? 1 : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fill holes: background not connected to the image border joins the region.
+ */
+export function fillMaskHoles(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const outside = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let stackSize = 0;
+
+  const push = (cell: number) => {
+    if (!mask[cell] && !outside[cell]) {
+      outside[cell] = 1;
+      stack[stackSize++] = cell;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+
+  while (stackSize > 0) {
+    const cell = stack[--stackSize];
+    const x = cell % width;
+    const y = (cell - x) / width;
+    if (x > 0) push(cell - 1);
+    if (x < width - 1) push(cell + 1);
+    if (y > 0) push(cell - width);
+    if (y < height - 1) push(cell + width);
+  }
+
+  const result = new Uint8Array(width * height);
+  for (let i = 0; i < result.length; i++) result[i] = outside[i] ? 0 : 1;
+  return result;
+}
+
+// ============================================================================
+// REGION
+// ============================================================================
+
+/**
+ * Replay the clicks into a region mask. The first click starts the region;
+ * later clicks add or subtract their flood fill.
+ *
+ * @param images - Sampled images of the same size (displayed image, optionally its sibling)
+ * @param seeds - Clicks in working pixels
+ * @param options - Wand options
+ * @returns Smoothed, hole-free mask
+ */
+export function buildWandMask(images: ImageData[], seeds: WandSeed[], options: MagicWandOptions): Uint8Array {
+  const { width, height } = images[0];
+  const mask = new Uint8Array(width * height);
+
+  for (const seed of seeds) {
+    const fill = floodFillRegion(images, Math.floor(seed.x), Math.floor(seed.y), options.tolerance);
+    if (seed.mode === 'add') {
+      for (let i = 0; i < mask.length; i++) mask[i] |= fill[i];
+    } else {
+      for (let i = 0; i < mask.length; i++) if (fill[i]) mask[i] = 0;
+    }
+  }
+
+  const smoothed = smoothMask(mask, width, height, Math.round(options.smoothing));
+  return fillMaskHoles(smoothed, width, height);
+}
+
+/**
+ * Trace the outline of the largest piece of a region mask.
+ *
+ * @returns Outline in working pixels, or null if the region is empty
+ */
+export function traceWandOutline(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  simplifyTolerance: number
+): WandOutline | null {
+  const labels = Int8Array.from(mask, (v) => (v ? 0 : -1));
+  const pieces = vectorizeLabels(labels, width, height, MIN_PIECE_PIXELS, simplifyTolerance);
+  if (pieces.length === 0) return null;
+
+  const largest = pieces.reduce((best, piece) => (piece.areaPixels > best.areaPixels ? piece : best));
+  if (largest.contour.length < 3) return null;
+
+  return { contour: largest.contour, areaPixels: largest.areaPixels, pieceCount: pieces.length };
+}
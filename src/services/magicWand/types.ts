@@ -0,0 +1,65 @@
+/**
+ * Magic Wand Types
+ *
+ * Types for the magic wand (region-growing) spot tool.
+ */
+
+import { DEFAULT_DETECTION_SETTINGS } from '@/services/grainDetection/types';
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export interface MagicWandOptions {
+  /** Color distance from the clicked color (0-255) still included in the region */
+  tolerance: number;
+  /** Also require the region to be homogeneous in the PPL/XPL sibling image */
+  useSibling: boolean;
+  /** Majority-filter radius for smoothing the region, in screen pixels (0 = off) */
+  smoothing: number;
+  /** Douglas-Peucker outline tolerance, in image pixels */
+  simplifyTolerance: number;
+}
+
+export const DEFAULT_MAGIC_WAND_OPTIONS: MagicWandOptions = {
+  tolerance: 24,
+  useSibling: false,
+  smoothing: 2,
+  simplifyTolerance: DEFAULT_DETECTION_SETTINGS.simplifyTolerance,
+};
+
+// ============================================================================
+// WORKING DATA
+// ============================================================================
+
+/**
+ * Image the wand samples: the displayed part of the micrograph, rendered at
+ * (at most) screen resolution.
+ */
+export interface WandImage {
+  data: ImageData;
+  /** Origin of the sampled area in image pixels */
+  x: number;
+  y: number;
+  /** Working pixels per image pixel */
+  scale: number;
+}
+
+/** How a click changes the region */
+export type WandSeedMode = 'add' | 'subtract';
+
+/** A click, in working pixels */
+export interface WandSeed {
+  x: number;
+  y: number;
+  mode: WandSeedMode;
+}
+
+/** Outline of the selected region, in working pixels */
+export interface WandOutline {
+  contour: Array<{ x: number; y: number }>;
+  /** Pixels in the kept piece */
+  areaPixels: number;
+  /** Number of separate pieces in the region (only the largest is kept) */
+  pieceCount: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Orientation Service
+ *
+ * Converts image-space directions into geographic and fabric-relative
+ * reference frames using micrograph orientation metadata.
+ */
+
+// Types
+export * from './types';
+
+// Transforms
+export * from './transform';
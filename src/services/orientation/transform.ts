@@ -0,0 +1,327 @@
+/**
+ * Orientation Transforms
+ *
+ * Converts directions measured in image coordinates (degrees clockwise from
+ * image horizontal, y down, 0-180) into the micrograph's geographic or
+ * fabric reference frame.
+ *
+ * - Geographic: trend/plunge from the top and side edge orientations, or
+ *   from the foliation and lineation of a fabric-referenced section
+ * - Fabric: angle in the section plane, counterclockwise from the first
+ *   fabric axis (image +x) toward the second (image up)
+ *
+ * Associated micrographs without their own orientation use the nearest
+ * oriented ancestor's, mapped through their rotation or control point placement.
+ */
+
+import type { MicrographMetadata, MicrographOrientation } from '@/types/project-types';
+import { isWarpedPlacement } from '@/utils/placementWarp';
+import type {
+  FabricPlane,
+  GeographicAxes,
+  LinearMap2D,
+  OrientationFrame,
+  ReferenceFrame,
+  TrendPlunge,
+  Vector3,
+} from './types';
+
+const IDENTITY: LinearMap2D = [1, 0, 0, 1];
+
+const DEG = Math.PI / 180;
+
+// =============================================================================
+// Vector Helpers
+// =============================================================================
+
+/** Unit vector (north, east, down) for a trend/plunge in degrees */
+function lineVector(trend: number, plunge: number): Vector3 {
+  const t = trend * DEG;
+  const p = plunge * DEG;
+  return [Math.cos(p) * Math.cos(t), Math.cos(p) * Math.sin(t), Math.sin(p)];
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function scale(a: Vector3, s: number): Vector3 {
+  return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+function normalize(a: Vector3): Vector3 | null {
+  const length = Math.hypot(a[0], a[1], a[2]);
+  return length > 1e-9 ? scale(a, 1 / length) : null;
+}
+
+function composeMaps(outer: LinearMap2D, inner: LinearMap2D): LinearMap2D {
+  const [a, b, c, d] = outer;
+  const [e, f, g, h] = inner;
+  return [a * e + b * g, a * f + b * h, c * e + d * g, c * f + d * h];
+}
+
+/** Axial angle in [0, 180) */
+function axial(angle: number): number {
+  return ((angle % 180) + 180) % 180;
+}
+
+// =============================================================================
+// Frame Resolution
+// =============================================================================
+
+/** True when the orientation metadata records something beyond "unoriented" */
+function isOriented(orientation: MicrographOrientation | null | undefined): boolean {
+  return (
+    orientation?.orientationMethod === 'trendPlunge' ||
+    orientation?.orientationMethod === 'fabricReference'
+  );
+}
+
+/**
+ * Linear part of a child micrograph's placement in its parent: the affine
+ * matrix for control point placement (for projective and spline placement,
+ * the least-squares affine of the same points), otherwise the clockwise
+ * display rotation. Uniform scale is dropped since only directions are
+ * transformed.
+ */
+function placementMap(micrograph: MicrographMetadata): LinearMap2D {
+  if (isWarpedPlacement(micrograph.placementType) && micrograph.affineMatrix?.length === 6) {
+    const [a, b, , c, d] = micrograph.affineMatrix;
+    return [a, b, c, d];
+  }
+  const r = (micrograph.rotation || 0) * DEG;
+  return [Math.cos(r), -Math.sin(r), Math.sin(r), Math.cos(r)];
+}
+
+/**
+ * Geographic axes from top and side edge trend/plunge. Image +x runs away
+ * from the top reference corner and image +y (down) away from the side one.
+ */
+function edgeAxes(orientation: MicrographOrientation): GeographicAxes | null {
+  const { topTrend, topPlunge, sideTrend, sidePlunge } = orientation;
+  if (topTrend == null || topPlunge == null || sideTrend == null || sidePlunge == null) {
+    return null;
+  }
+  const xSign = orientation.topReferenceCorner === 'right' ? -1 : 1;
+  const ySign = orientation.sideReferenceCorner === 'bottom' ? -1 : 1;
+  return {
+    xAxis: scale(lineVector(topTrend, topPlunge), xSign),
+    yAxis: scale(lineVector(sideTrend, sidePlunge), ySign),
+  };
+}
+
+/**
+ * Fabric axes (X lineation, Z foliation pole, Y = Z × X) from the foliation
+ * strike/dip (right-hand rule) and the lineation trend/plunge or rake.
+ */
+function fabricAxes(orientation: MicrographOrientation): { X: Vector3; Y: Vector3; Z: Vector3 } | null {
+  const { fabricStrike, fabricDip, fabricTrend, fabricPlunge, fabricRake } = orientation;
+  if (fabricStrike == null || fabricDip == null) return null;
+
+  const strikeVector = lineVector(fabricStrike, 0);
+  const dipVector = lineVector(fabricStrike + 90, fabricDip);
+  const Z = normalize(cross(strikeVector, dipVector));
+  if (!Z) return null;
+
+  let lineation: Vector3;
+  if (fabricTrend != null && fabricPlunge != null) {
+    lineation = lineVector(fabricTrend, fabricPlunge);
+  } else if (fabricRake != null) {
+    const r = fabricRake * DEG;
+    lineation = [0, 1, 2].map((i) => Math.cos(r) * strikeVector[i] + Math.sin(r) * dipVector[i]) as Vector3;
+  } else {
+    return null;
+  }
+
+  // Project into the foliation so the axes are orthogonal
+  const X = normalize(lineation.map((v, i) => v - dot(lineation, Z) * Z[i]) as Vector3);
+  if (!X) return null;
+  return { X, Y: cross(Z, X), Z };
+}
+
+/**
+ * Geographic axes of a fabric-referenced section. Image +x lies along the
+ * first axis of the section plane and image up along the second, with the
+ * sense of the second chosen so the viewer looks down or up as recorded.
+ * Vertical sections record no look direction, so image up is taken as
+ * geographically up; which side the section is viewed from stays unknown.
+ */
+function sectionAxes(orientation: MicrographOrientation, plane: FabricPlane): GeographicAxes | null {
+  const axes = fabricAxes(orientation);
+  if (!axes) return null;
+
+  const right = axes[plane[0] as 'X' | 'Y' | 'Z'];
+  let up = axes[plane[1] as 'X' | 'Y' | 'Z'];
+
+  // Screen (right, up, toward viewer) is right-handed, so the view runs along up × right
+  const view = cross(up, right);
+  const lookingDown = orientation.lookDirection !== 'up';
+  if (Math.abs(view[2]) > 1e-9 ? view[2] > 0 !== lookingDown : up[2] > 0) {
+    up = scale(up, -1);
+  }
+
+  return { xAxis: right, yAxis: scale(up, -1) };
+}
+
+function fabricPlaneOf(orientation: MicrographOrientation): FabricPlane | null {
+  const plane = orientation.fabricReference?.toUpperCase();
+  return plane === 'XZ' || plane === 'YZ' || plane === 'XY' ? plane : null;
+}
+
+/**
+ * Resolve the orientation frame for a micrograph. Walks up the parent chain
+ * to the first micrograph with orientation metadata, accumulating the
+ * placement of each child in its parent.
+ *
+ * @param micrograph - Micrograph the directions were measured on
+ * @param micrographIndex - Lookup for parent micrographs
+ * @returns Resolved frame (geographic and fabric parts null when unavailable)
+ */
+export function resolveOrientationFrame(
+  micrograph: MicrographMetadata,
+  micrographIndex: Map<string, MicrographMetadata>
+): OrientationFrame {
+  let current: MicrographMetadata | undefined = micrograph;
+  let placement = IDENTITY;
+  const visited = new Set<string>();
+
+  while (current && !isOriented(current.orientationInfo)) {
+    if (!current.parentID || visited.has(current.id)) break;
+    visited.add(current.id);
+    placement = composeMaps(placementMap(current), placement);
+    current = micrographIndex.get(current.parentID);
+  }
+
+  const orientation = current?.orientationInfo;
+  if (!current || !orientation || !isOriented(orientation)) {
+    return { micrographId: micrograph.id, orientedMicrographId: null, placement: IDENTITY, geographic: null, fabricPlane: null };
+  }
+
+  const fabricPlane = orientation.orientationMethod === 'fabricReference' ? fabricPlaneOf(orientation) : null;
+  const geographic =
+    orientation.orientationMethod === 'trendPlunge'
+      ? edgeAxes(orientation)
+      : fabricPlane
+        ? sectionAxes(orientation, fabricPlane)
+        : null;
+
+  return { micrographId: micrograph.id, orientedMicrographId: current.id, placement, geographic, fabricPlane };
+}
+
+/**
+ * Reference frames a resolved frame can report directions in.
+ */
+export function availableReferenceFrames(frame: OrientationFrame): ReferenceFrame[] {
+  const frames: ReferenceFrame[] = ['image'];
+  if (frame.geographic) frames.push('geographic');
+  if (frame.fabricPlane) frames.push('fabric');
+  return frames;
+}
+
+// =============================================================================
+// Direction Transforms
+// =============================================================================
+
+/** Image direction mapped into the oriented ancestor's image, as an angle */
+function orientedImageAngle(angle: number, frame: OrientationFrame): number {
+  const [a, b, c, d] = frame.placement;
+  const x = Math.cos(angle * DEG);
+  const y = Math.sin(angle * DEG);
+  return Math.atan2(c * x + d * y, a * x + b * y) / DEG;
+}
+
+/**
+ * Convert an image direction to a geographic line (lower hemisphere).
+ * Horizontal lines are reported with the trend below 180°.
+ *
+ * @param angle - Degrees clockwise from image horizontal
+ * @param frame - Resolved orientation frame
+ * @returns Trend/plunge, or null when the frame has no geographic orientation
+ */
+export function imageDirectionToTrendPlunge(angle: number, frame: OrientationFrame): TrendPlunge | null {
+  if (!frame.geographic) return null;
+  const { xAxis, yAxis } = frame.geographic;
+
+  const a = orientedImageAngle(angle, frame) * DEG;
+  let v = normalize([0, 1, 2].map((i) => Math.cos(a) * xAxis[i] + Math.sin(a) * yAxis[i]) as Vector3);
+  if (!v) return null;
+  if (v[2] < 0) v = scale(v, -1);
+
+  let trend = (((Math.atan2(v[1], v[0]) / DEG) % 360) + 360) % 360;
+  if (Math.abs(v[2]) < 1e-9 && trend >= 180) trend -= 180;
+
+  return { trend, plunge: Math.asin(Math.min(1, v[2])) / DEG };
+}
+
+/**
+ * Convert an image direction to an angle in the fabric section plane,
+ * counterclockwise from the first fabric axis toward the second (0-180).
+ *
+ * @param angle - Degrees clockwise from image horizontal
+ * @param frame - Resolved orientation frame
+ * @returns Fabric angle, or null when the micrograph is not fabric-referenced
+ */
+export function imageDirectionToFabricAngle(angle: number, frame: OrientationFrame): number | null {
+  if (!frame.fabricPlane) return null;
+  return axial(-orientedImageAngle(angle, frame));
+}
+
+/**
+ * Convert an image direction to an axial azimuth (0-180) in a reference
+ * frame, for rose diagrams and exports: the image angle, the geographic
+ * trend, or the fabric angle.
+ *
+ * @param angle - Degrees clockwise from image horizontal
+ * @param frame - Resolved orientation frame
+ * @param target - Reference frame to report in
+ * @returns Azimuth in degrees, or null when the frame is unavailable
+ */
+export function transformImageDirection(
+  angle: number,
+  frame: OrientationFrame,
+  target: ReferenceFrame
+): number | null {
+  switch (target) {
+    case 'geographic': {
+      const line = imageDirectionToTrendPlunge(angle, frame);
+      return line ? axial(line.trend) : null;
+    }
+    case 'fabric':
+      return imageDirectionToFabricAngle(angle, frame);
+    default:
+      return axial(angle);
+  }
+}
+
+/**
+ * Convert a StraboTools edge-fabric azimuth (counterclockwise from image
+ * horizontal, from y-up gradients) to the image convention used here.
+ */
+export function straboToolsAzimuthToImageAngle(azimuth: number): number {
+  return axial(-azimuth);
+}
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+/**
+ * Describe how azimuths in a reference frame are measured, e.g. for axis
+ * titles and export headers.
+ */
+export function describeReferenceFrame(target: ReferenceFrame, fabricPlane?: FabricPlane | null): string {
+  switch (target) {
+    case 'geographic':
+      return 'trend, ° clockwise from north';
+    case 'fabric':
+      return fabricPlane
+        ? `° from ${fabricPlane[0]} toward ${fabricPlane[1]} (${fabricPlane} section)`
+        : '° from first fabric axis';
+    default:
+      return '° clockwise from image horizontal';
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Orientation Transform Types
+ *
+ * Type definitions for converting image-space directions into geographic
+ * and fabric-relative reference frames.
+ */
+
+/** Reference frame a direction is reported in */
+export type ReferenceFrame = 'image' | 'geographic' | 'fabric';
+
+/** Unit vector in geographic coordinates: [north, east, down] */
+export type Vector3 = [number, number, number];
+
+/**
+ * 2x2 linear map [a, b, c, d] applied to image direction vectors:
+ *   x' = a*x + b*y
+ *   y' = c*x + d*y
+ */
+export type LinearMap2D = [number, number, number, number];
+
+/** Fabric section plane; image +x is the first axis, image up the second */
+export type FabricPlane = 'XZ' | 'YZ' | 'XY';
+
+/** Geographic directions of an oriented image's axes */
+export interface GeographicAxes {
+  xAxis: Vector3;                 // Image +x (right)
+  yAxis: Vector3;                 // Image +y (down)
+}
+
+/**
+ * Orientation frame resolved for one micrograph. Micrographs without their
+ * own orientation inherit it from the nearest oriented ancestor through
+ * their placement in the parent.
+ */
+export interface OrientationFrame {
+  micrographId: string;
+  orientedMicrographId: string | null;  // Micrograph whose orientation metadata is used
+  placement: LinearMap2D;               // This image → oriented ancestor's image
+  geographic: GeographicAxes | null;    // Null without enough orientation data
+  fabricPlane: FabricPlane | null;      // Null unless oriented by fabric reference
+}
+
+/** Geographic line orientation (lower hemisphere) */
+export interface TrendPlunge {
+  trend: number;                  // degrees clockwise from north, 0-360
+  plunge: number;                 // degrees below horizontal, 0-90
+}
@@ -0,0 +1,397 @@
+/**
+ * Phase Classifiers
+ *
+ * Supervised per-pixel classification of element map intensities:
+ * - k-nearest neighbors: majority vote of the k closest training pixels
+ * - Gaussian maximum likelihood: one multivariate normal per phase, equal priors
+ *
+ * Both classifiers can leave pixels unclassified when they are far from every
+ * training phase (e.g. epoxy, holes or a mineral nobody trained).
+ */
+
+import type {
+  FeatureStack,
+  PhaseClassificationOptions,
+  PhaseFraction,
+  PhaseMap,
+  TrainingSet,
+} from './types';
+
+/** Label used for pixels no phase claims */
+export const UNCLASSIFIED_LABEL = -1;
+
+/** Rows classified between yields to the event loop */
+const ROWS_PER_CHUNK = 32;
+
+/** A trained classifier */
+export interface PhaseClassifier {
+  /** Phase names, indexed by label */
+  phases: string[];
+  /**
+   * Classify one feature vector.
+   * @param features - Array holding the vector
+   * @param offset - Index of the vector's first band
+   * @returns Phase label, or UNCLASSIFIED_LABEL
+   */
+  predict: (features: ArrayLike<number>, offset: number) => number;
+}
+
+// ============================================================================
+// K-NEAREST NEIGHBORS
+// ============================================================================
+
+/**
+ * Train a k-NN classifier (stores the training pixels).
+ *
+ * @param training - Training set
+ * @param bands - Feature vector length
+ * @param k - Number of voting neighbors
+ * @param maxDistance - Reject pixels whose nearest training pixel is further than this (0 = never)
+ */
+export function trainKnnClassifier(
+  training: TrainingSet,
+  bands: number,
+  k: number,
+  maxDistance: number
+): PhaseClassifier {
+  const total = training.samples.reduce((sum, block) => sum + block.length / bands, 0);
+  const points = new Float32Array(total * bands);
+  const labels = new Int16Array(total);
+
+  let n = 0;
+  training.samples.forEach((block, label) => {
+    points.set(block, n * bands);
+    labels.fill(label, n, n + block.length / bands);
+    n += block.length / bands;
+  });
+
+  const kEff = Math.max(1, Math.min(k, total));
+  const maxDistanceSq = maxDistance > 0 ? maxDistance * maxDistance : Infinity;
+  const nearestDist = new Float64Array(kEff);
+  const nearestLabel = new Int16Array(kEff);
+  const votes = new Float64Array(training.phases.length);
+
+  const predict = (features: ArrayLike<number>, offset: number): number => {
+    if (total === 0) return UNCLASSIFIED_LABEL;
+    nearestDist.fill(Infinity);
+    nearestLabel.fill(UNCLASSIFIED_LABEL);
+
+    for (let i = 0; i < total; i++) {
+      let d = 0;
+      for (let b = 0; b < bands; b++) {
+        const diff = features[offset + b] - points[i * bands + b];
+        d += diff * diff;
+      }
+      if (d >= nearestDist[kEff - 1]) continue;
+
+      // Insert into the sorted neighbor list
+      let j = kEff - 1;
+      while (j > 0 && nearestDist[j - 1] > d) {
+        nearestDist[j] = nearestDist[j - 1];
+        nearestLabel[j] = nearestLabel[j - 1];
+        j--;
+      }
+      nearestDist[j] = d;
+      nearestLabel[j] = labels[i];
+    }
+
+    if (nearestDist[0] > maxDistanceSq) return UNCLASSIFIED_LABEL;
+
+    // Majority vote; closer neighbors break ties
+    votes.fill(0);
+    for (let j = 0; j < kEff; j++) {
+      if (nearestLabel[j] >= 0) votes[nearestLabel[j]] += 1 + 1e-6 / (1 + nearestDist[j]);
+    }
+    let best = UNCLASSIFIED_LABEL;
+    for (let label = 0; label < votes.length; label++) {
+      if (votes[label] > 0 && (best < 0 || votes[label] > votes[best])) best = label;
+    }
+    return best;
+  };
+
+  return { phases: training.phases, predict };
+}
+
+// ============================================================================
+// GAUSSIAN MAXIMUM LIKELIHOOD
+// ============================================================================
+
+/**
+ * Cholesky decomposition of a symmetric positive-definite matrix (row-major).
+ * Returns the lower-triangular factor.
+ */
+function cholesky(matrix: Float64Array, n: number): Float64Array {
+  const L = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i * n + j];
+      for (let k = 0; k < j; k++) sum -= L[i * n + k] * L[j * n + k];
+      if (i === j) {
+        L[i * n + i] = Math.sqrt(Math.max(sum, 1e-9));
+      } else {
+        L[i * n + j] = sum / L[j * n + j];
+      }
+    }
+  }
+  return L;
+}
+
+/**
+ * Train a Gaussian maximum likelihood classifier.
+ *
+ * Covariances get a small ridge so phases with uniform intensities (or fewer
+ * training pixels than bands) still have an invertible covariance.
+ *
+ * @param training - Training set
+ * @param bands - Feature vector length
+ * @param maxMahalanobis - Reject pixels further than this many σ from the winning phase (0 = never)
+ */
+export function trainGaussianClassifier(
+  training: TrainingSet,
+  bands: number,
+  maxMahalanobis: number
+): PhaseClassifier {
+  const models = training.samples.map((block) => {
+    const count = block.length / bands;
+    const mean = new Float64Array(bands);
+    for (let i = 0; i < count; i++) {
+      for (let b = 0; b < bands; b++) mean[b] += block[i * bands + b];
+    }
+    for (let b = 0; b < bands; b++) mean[b] /= Math.max(1, count);
+
+    const cov = new Float64Array(bands * bands);
+    for (let i = 0; i < count; i++) {
+      for (let a = 0; a < bands; a++) {
+        const da = block[i * bands + a] - mean[a];
+        for (let b = 0; b <= a; b++) {
+          cov[a * bands + b] += da * (block[i * bands + b] - mean[b]);
+        }
+      }
+    }
+    let trace = 0;
+    for (let a = 0; a < bands; a++) {
+      for (let b = 0; b <= a; b++) {
+        cov[a * bands + b] /= Math.max(1, count - 1);
+        cov[b * bands + a] = cov[a * bands + b];
+      }
+      trace += cov[a * bands + a];
+    }
+    // Ridge: at least one intensity level of noise per band
+    const ridge = Math.max(1, (1e-3 * trace) / bands);
+    for (let a = 0; a < bands; a++) cov[a * bands + a] += ridge;
+
+    const L = cholesky(cov, bands);
+    let logDet = 0;
+    for (let a = 0; a < bands; a++) logDet += 2 * Math.log(L[a * bands + a]);
+
+    return { mean, L, logDet };
+  });
+
+  const maxDistanceSq = maxMahalanobis > 0 ? maxMahalanobis * maxMahalanobis : Infinity;
+  const z = new Float64Array(bands);
+
+  const predict = (features: ArrayLike<number>, offset: number): number => {
+    let best = UNCLASSIFIED_LABEL;
+    let bestScore = -Infinity;
+    let bestDistanceSq = Infinity;
+
+    models.forEach((model, label) => {
+      // Solve L z = (x - μ); squared Mahalanobis distance is |z|²
+      let distanceSq = 0;
+      for (let a = 0; a < bands; a++) {
+        let sum = features[offset + a] - model.mean[a];
+        for (let b = 0; b < a; b++) sum -= model.L[a * bands + b] * z[b];
+        z[a] = sum / model.L[a * bands + a];
+        distanceSq += z[a] * z[a];
+      }
+      const score = -0.5 * (model.logDet + distanceSq);
+      if (score > bestScore) {
+        bestScore = score;
+        best = label;
+        bestDistanceSq = distanceSq;
+      }
+    });
+
+    return bestDistanceSq > maxDistanceSq ? UNCLASSIFIED_LABEL : best;
+  };
+
+  return { phases: training.phases, predict };
+}
+
+// ============================================================================
+// PHASE MAP
+// ============================================================================
+
+/**
+ * Train the classifier selected in the options.
+ */
+export function trainClassifier(
+  training: TrainingSet,
+  bands: number,
+  options: PhaseClassificationOptions
+): PhaseClassifier {
+  return options.classifier === 'knn'
+    ? trainKnnClassifier(training, bands, options.k, options.maxNeighborDistance)
+    : trainGaussianClassifier(training, bands, options.maxMahalanobisDistance);
+}
+
+/**
+ * Fraction of training pixels the classifier assigns to their own phase.
+ */
+export function calculateTrainingAccuracy(
+  classifier: PhaseClassifier,
+  training: TrainingSet,
+  bands: number
+): number {
+  let correct = 0;
+  let total = 0;
+  training.samples.forEach((block, label) => {
+    for (let offset = 0; offset < block.length; offset += bands) {
+      if (classifier.predict(block, offset) === label) correct++;
+      total++;
+    }
+  });
+  return total > 0 ? correct / total : 0;
+}
+
+/**
+ * Replace each label by the most common label in its (2r+1)² neighborhood.
+ * Removes salt-and-pepper misclassifications along phase boundaries.
+ *
+ * @param labels - Row-major labels (-1 = unclassified)
+ * @param width - Grid width
+ * @param height - Grid height
+ * @param phaseCount - Number of phases
+ * @param radius - Neighborhood radius in pixels
+ * @returns Filtered labels
+ */
+export function majorityFilter(
+  labels: Int16Array,
+  width: number,
+  height: number,
+  phaseCount: number,
+  radius: number
+): Int16Array {
+  if (radius <= 0) return labels;
+
+  const result = new Int16Array(labels.length);
+  // Slot 0 counts unclassified pixels, slot label+1 counts each phase
+  const counts = new Uint16Array(phaseCount + 1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      counts.fill(0);
+      for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+        for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+          counts[labels[ny * width + nx] + 1]++;
+        }
+      }
+      // Keep the current label on ties so boundaries do not drift
+      const own = labels[y * width + x];
+      let best = own + 1;
+      for (let slot = 0; slot < counts.length; slot++) {
+        if (counts[slot] > counts[best]) best = slot;
+      }
+      result[y * width + x] = best - 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Count pixels per phase.
+ */
+export function calculatePhaseFractions(
+  labels: Int16Array,
+  phases: string[]
+): { fractions: PhaseFraction[]; unclassifiedPercentage: number } {
+  const counts = new Array<number>(phases.length).fill(0);
+  let unclassified = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] >= 0) counts[labels[i]]++;
+    else unclassified++;
+  }
+
+  const total = Math.max(1, labels.length);
+  const fractions = phases
+    .map((name, label) => ({
+      name,
+      pixelCount: counts[label],
+      percentage: (counts[label] / total) * 100,
+    }))
+    .sort((a, b) => b.pixelCount - a.pixelCount);
+
+  return { fractions, unclassifiedPercentage: (unclassified / total) * 100 };
+}
+
+/**
+ * Classify every pixel of a feature stack into a phase map.
+ *
+ * Pixels with identical (rounded) intensities are classified once; element
+ * maps are heavily quantized, so this makes k-NN practical on full grids.
+ * Work is done in row chunks that yield to the event loop for progress updates.
+ *
+ * @param stack - Feature stack from loadFeatureStack
+ * @param training - Training set from buildTrainingSet
+ * @param options - Classification settings
+ * @param onProgress - Called with the fraction of rows classified (0-1)
+ * @returns Classified phase map
+ */
+export async function classifyPhaseMap(
+  stack: FeatureStack,
+  training: TrainingSet,
+  options: PhaseClassificationOptions,
+  onProgress?: (fraction: number) => void
+): Promise<PhaseMap> {
+  if (training.phases.length === 0) {
+    throw new Error('No training regions found. Draw polygon spots and assign a mineral to each.');
+  }
+
+  const { width, height } = stack;
+  const bands = stack.layerIds.length;
+  const classifier = trainClassifier(training, bands, options);
+
+  const rounded = new Float32Array(bands);
+  // Packed keys stay exact up to 6 bands of 8-bit intensities (2^48 < 2^53)
+  const cache = bands <= 6 ? new Map<number, number>() : null;
+  let labels: Int16Array = new Int16Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = y * width + x;
+      let key = 0;
+      for (let b = 0; b < bands; b++) {
+        rounded[b] = Math.round(stack.data[cell * bands + b]);
+        key = key * 256 + rounded[b];
+      }
+
+      let label = cache?.get(key);
+      if (label === undefined) {
+        label = classifier.predict(rounded, 0);
+        cache?.set(key, label);
+      }
+      labels[cell] = label;
+    }
+
+    if ((y + 1) % ROWS_PER_CHUNK === 0) {
+      onProgress?.((y + 1) / height);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  labels = majorityFilter(labels, width, height, training.phases.length, options.smoothingRadius);
+  onProgress?.(1);
+
+  const { fractions, unclassifiedPercentage } = calculatePhaseFractions(labels, training.phases);
+
+  return {
+    width,
+    height,
+    phases: training.phases,
+    labels,
+    fractions,
+    unclassifiedPercentage,
+    trainingAccuracy: calculateTrainingAccuracy(classifier, training, bands),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Phase Classification Features
+ *
+ * Builds the per-pixel feature vectors the classifiers work on: every element
+ * map is block-averaged onto one common working grid (maps are stretched over
+ * the full micrograph extent, so differing map sizes line up), and training
+ * pixels are collected from polygon spots that have a mineral assigned.
+ */
+
+import type { ElementMapLayer, MicrographMetadata, Spot } from '@/types/project-types';
+import { getSpotMineral } from '@/services/pointCounting';
+import { getSpotMapPixels, readElementMapPixels } from '@/services/elementMaps';
+import type { FeatureStack, TrainingSet } from './types';
+
+// ============================================================================
+// FEATURE STACK
+// ============================================================================
+
+/**
+ * Load element maps onto a common working grid.
+ *
+ * The grid takes the aspect ratio of the first map and is scaled down so its
+ * longest side is at most maxGridSize. Each map is read at full resolution,
+ * losslessly from its file so compression noise cannot tip pixels near a
+ * class boundary, and averaged into the grid cells it covers.
+ *
+ * @param projectId - Project owning the map files
+ * @param layers - Element map layers to use as bands (at least one)
+ * @param maxGridSize - Longest side of the working grid in pixels
+ * @param onProgress - Called after each map is loaded
+ * @returns Pixel-interleaved feature stack
+ */
+export async function loadFeatureStack(
+  projectId: string,
+  layers: ElementMapLayer[],
+  maxGridSize: number,
+  onProgress?: (completed: number, total: number) => void
+): Promise<FeatureStack> {
+  if (layers.length === 0) {
+    throw new Error('At least one element map is required for classification');
+  }
+
+  const bands = layers.length;
+  let width = 0;
+  let height = 0;
+  let data = new Float32Array(0);
+
+  for (let band = 0; band < bands; band++) {
+    const region = await readElementMapPixels(projectId, layers[band].fileName);
+
+    if (band === 0) {
+      const scale = Math.min(1, maxGridSize / Math.max(region.width, region.height));
+      width = Math.max(1, Math.round(region.width * scale));
+      height = Math.max(1, Math.round(region.height * scale));
+      data = new Float32Array(width * height * bands);
+    }
+
+    const sums = new Float64Array(width * height);
+    const counts = new Uint32Array(width * height);
+
+    for (let py = 0; py < region.height; py++) {
+      const gy = Math.min(height - 1, Math.floor((py * height) / region.height));
+      for (let px = 0; px < region.width; px++) {
+        const gx = Math.min(width - 1, Math.floor((px * width) / region.width));
+        const cell = gy * width + gx;
+        sums[cell] += region.data[py * region.width + px];
+        counts[cell]++;
+      }
+    }
+
+    for (let cell = 0; cell < width * height; cell++) {
+      data[cell * bands + band] = counts[cell] > 0 ? sums[cell] / counts[cell] : 0;
+    }
+
+    onProgress?.(band + 1, bands);
+  }
+
+  return {
+    width,
+    height,
+    layerIds: layers.map((l) => l.id),
+    elements: layers.map((l) => l.element),
+    data,
+  };
+}
+
+// ============================================================================
+// TRAINING DATA
+// ============================================================================
+
+/**
+ * Check whether a spot can serve as a training region: a classified polygon
+ * that was not itself produced by phase classification.
+ */
+export function isTrainingSpot(spot: Spot): boolean {
+  if (spot.archived) return false;
+  if (spot.generationMethod === 'phase-classification') return false;
+  const type = (spot.geometry?.type || spot.geometryType || '').toLowerCase();
+  return type === 'polygon' && getSpotMineral(spot) !== null;
+}
+
+/**
+ * Collect training pixels from a micrograph's classified polygon spots.
+ *
+ * @param stack - Feature stack from loadFeatureStack
+ * @param micrograph - Micrograph the spots belong to (defines coordinate extent)
+ * @param spots - Candidate spots (non-training spots are ignored)
+ * @param maxPixelsPerPhase - Larger training sets are subsampled evenly to this size
+ * @returns Training set with one sample block per phase
+ */
+export function buildTrainingSet(
+  stack: FeatureStack,
+  micrograph: MicrographMetadata,
+  spots: Spot[],
+  maxPixelsPerPhase: number
+): TrainingSet {
+  const micrographWidth = micrograph.imageWidth || micrograph.width || stack.width;
+  const micrographHeight = micrograph.imageHeight || micrograph.height || stack.height;
+  const scaleX = stack.width / micrographWidth;
+  const scaleY = stack.height / micrographHeight;
+  const bands = stack.layerIds.length;
+
+  const cellsByPhase = new Map<string, number[]>();
+  const spotIds: string[] = [];
+
+  for (const spot of spots) {
+    if (!isTrainingSpot(spot)) continue;
+    const phase = getSpotMineral(spot)!;
+    const cells = cellsByPhase.get(phase) ?? [];
+
+    let added = 0;
+    for (const [px, py] of getSpotMapPixels(spot, scaleX, scaleY)) {
+      if (px < 0 || py < 0 || px >= stack.width || py >= stack.height) continue;
+      cells.push(py * stack.width + px);
+      added++;
+    }
+
+    if (added > 0) {
+      cellsByPhase.set(phase, cells);
+      spotIds.push(spot.id);
+    }
+  }
+
+  const phases = Array.from(cellsByPhase.keys()).sort();
+  const pixelCounts: number[] = [];
+  const samples = phases.map((phase) => {
+    const cells = cellsByPhase.get(phase)!;
+    pixelCounts.push(cells.length);
+
+    const keep = Math.min(cells.length, maxPixelsPerPhase);
+    const step = cells.length / keep;
+    const block = new Float32Array(keep * bands);
+    for (let i = 0; i < keep; i++) {
+      const cell = cells[Math.floor(i * step)];
+      for (let b = 0; b < bands; b++) {
+        block[i * bands + b] = stack.data[cell * bands + b];
+      }
+    }
+    return block;
+  });
+
+  return { phases, samples, spotIds, pixelCounts };
+}
@@ -0,0 +1,60 @@
+/**
+ * Phase Classification Service
+ *
+ * Supervised classification of co-registered element maps into a mineral
+ * phase map, trained on polygon spots with a mineral assigned, and
+ * vectorization of the phase map into polygon spots.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   loadFeatureStack,
+ *   buildTrainingSet,
+ *   classifyPhaseMap,
+ *   vectorizePhaseMap,
+ *   DEFAULT_PHASE_CLASSIFICATION_OPTIONS as options,
+ * } from '@/services/phaseClassification';
+ *
+ * const stack = await loadFeatureStack(project.id, micrograph.elementMaps, options.maxGridSize);
+ * const training = buildTrainingSet(stack, micrograph, micrograph.spots, options.maxTrainingPixelsPerPhase);
+ * const phaseMap = await classifyPhaseMap(stack, training, options);
+ * const regions = vectorizePhaseMap(phaseMap, options.minRegionPixels, options.simplifyTolerance);
+ * ```
+ */
+
+// Types
+export type {
+  PhaseClassifierType,
+  PhaseClassificationOptions,
+  FeatureStack,
+  TrainingSet,
+  PhaseFraction,
+  PhaseMap,
+  PhaseRegion,
+  PhaseAreaStats,
+  PhaseModalStatistics,
+} from './types';
+
+export { DEFAULT_PHASE_CLASSIFICATION_OPTIONS } from './types';
+
+// Features
+export { loadFeatureStack, isTrainingSpot, buildTrainingSet } from './features';
+
+// Classification
+export {
+  UNCLASSIFIED_LABEL,
+  trainKnnClassifier,
+  trainGaussianClassifier,
+  trainClassifier,
+  calculateTrainingAccuracy,
+  majorityFilter,
+  calculatePhaseFractions,
+  classifyPhaseMap,
+  type PhaseClassifier,
+} from './classifier';
+
+// Vectorization
+export { vectorizePhaseMap } from './vectorize';
+
+// Statistics
+export { calculatePhaseModalStatistics, exportPhaseStatisticsToCSV } from './statistics';
@@ -0,0 +1,68 @@
+/**
+ * Phase Map Statistics
+ *
+ * Area-weighted modal composition of the spots produced by phase classification.
+ */
+
+import type { Spot } from '@/types/project-types';
+import { calculateAreaModalStatistics } from '@/services/pointCounting';
+import type { PhaseAreaStats, PhaseModalStatistics } from './types';
+
+/**
+ * Calculate modal composition from a micrograph's phase-classification spots.
+ *
+ * Areas come from the same area-fraction analysis as classified polygon
+ * spots (see calculateAreaModalStatistics), measured from the current spot
+ * geometry, so spots edited after vectorization are counted as they are now.
+ * Percentages are fractions of the area the phase spots cover.
+ *
+ * @param allSpots - All spots on the micrograph
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @returns Modal statistics (empty when there are no phase-classification spots)
+ */
+export function calculatePhaseModalStatistics(
+  allSpots: Spot[],
+  imageWidth: number,
+  imageHeight: number
+): PhaseModalStatistics {
+  const phaseSpots = allSpots.filter(
+    (spot) => spot.generationMethod === 'phase-classification' && !spot.archived
+  );
+  if (phaseSpots.length === 0) return { totalArea: 0, regionCount: 0, phases: [] };
+
+  const areaStats = calculateAreaModalStatistics(phaseSpots, imageWidth, imageHeight);
+  const phases: PhaseAreaStats[] = areaStats.mineralStats.map((mineral) => ({
+    name: mineral.name,
+    regionCount: mineral.spotCount,
+    areaPixels: mineral.areaPixels,
+    percentage: mineral.percentage,
+  }));
+
+  return { totalArea: areaStats.classifiedAreaPixels, regionCount: phaseSpots.length, phases };
+}
+
+/**
+ * Format phase modal statistics as a CSV string for export.
+ *
+ * @param stats - Statistics to export
+ * @returns CSV string with headers
+ */
+export function exportPhaseStatisticsToCSV(stats: PhaseModalStatistics): string {
+  const lines: string[] = [];
+
+  lines.push('Phase Map Statistics Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Regions: ${stats.regionCount}`);
+  lines.push(`Total Area (px): ${Math.round(stats.totalArea)}`);
+  lines.push('');
+
+  lines.push('Phase,Regions,Area (px),Percentage');
+  for (const phase of stats.phases) {
+    lines.push(
+      `${phase.name},${phase.regionCount},${Math.round(phase.areaPixels)},${phase.percentage.toFixed(1)}%`
+    );
+  }
+
+  return lines.join('\n');
+}
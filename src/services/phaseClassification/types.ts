@@ -0,0 +1,155 @@
+/**
+ * Phase Classification Types
+ *
+ * Type definitions for supervised classification of element map chemistry
+ * into mineral phases, and for vectorizing the resulting phase map into spots.
+ */
+
+import type { LabelRegion } from '@/services/grainDetection/types';
+
+// ============================================================================
+// CLASSIFIER SETTINGS
+// ============================================================================
+
+/**
+ * Supported classifiers.
+ * 'knn' = k-nearest neighbors on raw intensities
+ * 'gaussian-ml' = Gaussian maximum likelihood (one multivariate normal per phase)
+ */
+export type PhaseClassifierType = 'knn' | 'gaussian-ml';
+
+/** Settings for training, classification and vectorization */
+export interface PhaseClassificationOptions {
+  /** Classifier algorithm */
+  classifier: PhaseClassifierType;
+  /** Number of neighbors that vote (k-NN only) */
+  k: number;
+  /** Maximum training pixels kept per phase (larger sets are subsampled evenly) */
+  maxTrainingPixelsPerPhase: number;
+  /**
+   * k-NN outlier rejection: pixels whose nearest training pixel is further
+   * than this (Euclidean distance in intensity levels) stay unclassified.
+   * 0 disables rejection.
+   */
+  maxNeighborDistance: number;
+  /**
+   * Gaussian ML outlier rejection: pixels more than this many σ (Mahalanobis
+   * distance) from the winning phase stay unclassified. 0 disables rejection.
+   */
+  maxMahalanobisDistance: number;
+  /** Radius of the majority filter applied to the phase map (0 = no smoothing) */
+  smoothingRadius: number;
+  /** Longest side of the working grid in pixels (maps are block-averaged down to it) */
+  maxGridSize: number;
+  /** Regions smaller than this many grid pixels are not turned into spots */
+  minRegionPixels: number;
+  /** Douglas-Peucker tolerance for region outlines, in grid pixels */
+  simplifyTolerance: number;
+}
+
+/** Default settings */
+export const DEFAULT_PHASE_CLASSIFICATION_OPTIONS: PhaseClassificationOptions = {
+  classifier: 'gaussian-ml',
+  k: 5,
+  maxTrainingPixelsPerPhase: 500,
+  maxNeighborDistance: 0,
+  maxMahalanobisDistance: 4,
+  smoothingRadius: 1,
+  maxGridSize: 768,
+  minRegionPixels: 20,
+  simplifyTolerance: 1,
+};
+
+// ============================================================================
+// FEATURES AND TRAINING
+// ============================================================================
+
+/** Element map intensities resampled onto a common working grid */
+export interface FeatureStack {
+  /** Grid width in pixels */
+  width: number;
+  /** Grid height in pixels */
+  height: number;
+  /** Element map layer IDs, one per band */
+  layerIds: string[];
+  /** Element symbols, one per band */
+  elements: string[];
+  /** Pixel-interleaved intensities (0-255): data[(y * width + x) * bands + band] */
+  data: Float32Array;
+}
+
+/** Training pixels collected from classified polygon spots */
+export interface TrainingSet {
+  /** Phase (mineral) names, in label order */
+  phases: string[];
+  /** Pixel-interleaved feature vectors per phase */
+  samples: Float32Array[];
+  /** Spots that contributed training pixels */
+  spotIds: string[];
+  /** Training pixels found per phase before subsampling */
+  pixelCounts: number[];
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/** Area fraction of one phase in the phase map */
+export interface PhaseFraction {
+  /** Phase (mineral) name */
+  name: string;
+  /** Number of grid pixels assigned to the phase */
+  pixelCount: number;
+  /** Percentage of all grid pixels */
+  percentage: number;
+}
+
+/** Classified phase map */
+export interface PhaseMap {
+  /** Grid width in pixels */
+  width: number;
+  /** Grid height in pixels */
+  height: number;
+  /** Phase (mineral) names, indexed by label */
+  phases: string[];
+  /** Row-major phase labels (-1 = unclassified) */
+  labels: Int16Array;
+  /** Per-phase area fractions (sorted by area, descending) */
+  fractions: PhaseFraction[];
+  /** Percentage of grid pixels left unclassified */
+  unclassifiedPercentage: number;
+  /** Fraction of training pixels the classifier reproduces (0-1) */
+  trainingAccuracy: number;
+}
+
+/** A connected region of one phase, outlined as a polygon */
+export interface PhaseRegion extends Omit<LabelRegion, 'label'> {
+  /** Phase (mineral) name */
+  phase: string;
+}
+
+// ============================================================================
+// MODAL STATISTICS
+// ============================================================================
+
+/** Area statistics of one phase across phase-classification spots */
+export interface PhaseAreaStats {
+  /** Phase (mineral) name */
+  name: string;
+  /** Number of spots of this phase */
+  regionCount: number;
+  /** Total spot area in micrograph pixels */
+  areaPixels: number;
+  /** Percentage of the total classified area */
+  percentage: number;
+}
+
+/** Modal composition derived from phase-classification spots */
+export interface PhaseModalStatistics {
+  /** Total classified area in micrograph pixels */
+  totalArea: number;
+  /** Number of phase-classification spots */
+  regionCount: number;
+  /** Per-phase statistics (sorted by area, descending) */
+  phases: PhaseAreaStats[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Phase Map Vectorization
+ *
+ * Turns a classified phase map into polygon outlines, one per connected
+ * phase region, using the grain detection label outliner.
+ */
+
+import { vectorizeLabels } from '@/services/grainDetection/labelOutlines';
+import type { PhaseMap, PhaseRegion } from './types';
+
+/**
+ * Vectorize a phase map into one polygon per connected phase region.
+ * Unclassified pixels never form regions.
+ *
+ * @param phaseMap - Classified phase map
+ * @param minRegionPixels - Regions smaller than this are dropped
+ * @param simplifyTolerance - Douglas-Peucker tolerance in grid pixels
+ * @returns Regions in grid coordinates
+ */
+export function vectorizePhaseMap(
+  phaseMap: PhaseMap,
+  minRegionPixels: number,
+  simplifyTolerance: number
+): PhaseRegion[] {
+  const { width, height, labels, phases } = phaseMap;
+  return vectorizeLabels(labels, width, height, minRegionPixels, simplifyTolerance).map(
+    ({ label, ...region }) => ({ phase: phases[label], ...region })
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Area-Fraction Modal Analysis
+ *
+ * Modal composition from classified polygon spots, reported as area
+ * percentages so it can be checked against point-count results.
+ *
+ * Overlapping polygons are resolved with polygon-clipping: where spots
+ * overlap, the area belongs to the top-most spot (the one drawn last), so
+ * every image pixel is counted at most once. Polygons are clipped to the
+ * image bounds, and whatever no classified polygon covers is reported as
+ * the unclassified remainder.
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type { MicrographMetadata, Spot } from '@/types/project-types';
+import {
+  bboxesOverlap,
+  multiPolygonArea,
+  ringBbox,
+  type Bbox,
+  type ClipMultiPolygon,
+  type ClipPolygon,
+} from '@/services/grainDetection/geometry';
+import { isPolygonSpot } from '@/utils/geometryMeasurements';
+import { spotToMultiPolygon } from '@/utils/spotPolygons';
+import type {
+  AreaMineralStats,
+  AreaModalStatistics,
+  ModalComparisonRow,
+  PointCountStatistics,
+} from './types';
+import { getSpotMineral } from './statistics';
+
+interface ClassifiedPolygon {
+  mineral: string;
+  shape: ClipMultiPolygon;
+  bbox: Bbox;
+}
+
+/**
+ * Whether a spot contributes to area-fraction statistics.
+ */
+function isClassifiedPolygon(spot: Spot): boolean {
+  return !spot.archived && isPolygonSpot(spot.geometry, spot.geometryType) && !!getSpotMineral(spot);
+}
+
+// ============================================================================
+// STATISTICS CALCULATION
+// ============================================================================
+
+/**
+ * Count the spots area-fraction statistics would include, without the
+ * polygon clipping, to decide whether the analysis is worth offering.
+ *
+ * @param spots - Spots to check
+ * @returns Number of classified, unarchived polygon spots
+ */
+export function countClassifiedPolygonSpots(spots: Spot[]): number {
+  return spots.filter(isClassifiedPolygon).length;
+}
+
+/**
+ * Calculate area-fraction modal statistics for a set of spots.
+ *
+ * Only classified polygon spots contribute; points, lines, unclassified and
+ * archived spots are ignored. Spots later in the array are treated as lying
+ * on top of earlier ones.
+ *
+ * @param spots - Spots to analyze (in drawing order)
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @param scalePixelsPerCentimeter - Micrograph scale for absolute areas (optional)
+ * @returns Area statistics including overlap and unclassified remainder
+ */
+export function calculateAreaModalStatistics(
+  spots: Spot[],
+  imageWidth: number,
+  imageHeight: number,
+  scalePixelsPerCentimeter?: number | null
+): AreaModalStatistics {
+  const imageRect: ClipPolygon = [[[0, 0], [imageWidth, 0], [imageWidth, imageHeight], [0, imageHeight], [0, 0]]];
+  const polygons: ClassifiedPolygon[] = [];
+  let clippedAreaSum = 0;
+
+  for (const spot of spots) {
+    if (!isClassifiedPolygon(spot)) continue;
+    const mineral = getSpotMineral(spot)!;
+
+    const spotShape: ClipMultiPolygon = spotToMultiPolygon(spot);
+    if (spotShape.length === 0) continue;
+
+    try {
+      const shape = polygonClipping.intersection(spotShape, imageRect) as ClipMultiPolygon;
+      if (shape.length === 0) continue;
+      polygons.push({ mineral, shape, bbox: ringBbox(shape.flatMap((polygon) => polygon[0] || [])) });
+      clippedAreaSum += multiPolygonArea(shape);
+    } catch (error) {
+      console.warn(`[AreaStatistics] Skipping invalid polygon for spot ${spot.id}:`, error);
+    }
+  }
+
+  // Resolve overlaps from the top down: each polygon keeps only what no later polygon covers
+  const areaByMineral = new Map<string, { spotCount: number; areaPixels: number }>();
+  let classifiedAreaPixels = 0;
+
+  for (let i = polygons.length - 1; i >= 0; i--) {
+    const current = polygons[i];
+    const above: ClipMultiPolygon[] = [];
+    for (let j = i + 1; j < polygons.length; j++) {
+      if (bboxesOverlap(current.bbox, polygons[j].bbox)) above.push(polygons[j].shape);
+    }
+
+    let visibleArea: number;
+    try {
+      visibleArea = above.length > 0
+        ? multiPolygonArea(polygonClipping.difference(current.shape, ...above) as ClipMultiPolygon)
+        : multiPolygonArea(current.shape);
+    } catch (error) {
+      console.warn('[AreaStatistics] Overlap resolution failed, using full polygon area:', error);
+      visibleArea = multiPolygonArea(current.shape);
+    }
+
+    const entry = areaByMineral.get(current.mineral) ?? { spotCount: 0, areaPixels: 0 };
+    entry.spotCount++;
+    entry.areaPixels += visibleArea;
+    areaByMineral.set(current.mineral, entry);
+    classifiedAreaPixels += visibleArea;
+  }
+
+  const imageAreaPixels = imageWidth * imageHeight;
+  const scale = scalePixelsPerCentimeter || null;
+
+  const mineralStats: AreaMineralStats[] = Array.from(areaByMineral.entries())
+    .map(([name, entry]) => ({
+      name,
+      spotCount: entry.spotCount,
+      areaPixels: entry.areaPixels,
+      areaCm2: scale ? entry.areaPixels / (scale * scale) : null,
+      percentage: classifiedAreaPixels > 0 ? (entry.areaPixels / classifiedAreaPixels) * 100 : 0,
+      percentageOfImage: imageAreaPixels > 0 ? (entry.areaPixels / imageAreaPixels) * 100 : 0,
+    }))
+    .sort((a, b) => b.areaPixels - a.areaPixels);
+
+  const unclassifiedAreaPixels = Math.max(0, imageAreaPixels - classifiedAreaPixels);
+
+  return {
+    polygonCount: polygons.length,
+    imageAreaPixels,
+    classifiedAreaPixels,
+    overlapAreaPixels: Math.max(0, clippedAreaSum - classifiedAreaPixels),
+    unclassifiedAreaPixels,
+    unclassifiedPercentage: imageAreaPixels > 0 ? (unclassifiedAreaPixels / imageAreaPixels) * 100 : 0,
+    scalePixelsPerCentimeter: scale,
+    mineralStats,
+    calculatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Calculate area-fraction modal statistics for a micrograph's spots,
+ * using its image dimensions and scale.
+ *
+ * @param micrograph - Micrograph whose spots to analyze
+ * @returns Area statistics
+ */
+export function calculateAreaModalStatisticsForMicrograph(
+  micrograph: MicrographMetadata
+): AreaModalStatistics {
+  return calculateAreaModalStatistics(
+    micrograph.spots || [],
+    micrograph.imageWidth || micrograph.width || 0,
+    micrograph.imageHeight || micrograph.height || 0,
+    micrograph.scalePixelsPerCentimeter
+  );
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Line up point-count and area-fraction results mineral by mineral.
+ *
+ * @param pointStats - Point counting statistics (null if no points)
+ * @param areaStats - Area statistics (null if no polygons)
+ * @returns One row per mineral found by either method, sorted by the larger percentage
+ */
+export function compareModalAnalyses(
+  pointStats: PointCountStatistics | null,
+  areaStats: AreaModalStatistics | null
+): ModalComparisonRow[] {
+  const names = new Set<string>([
+    ...(pointStats?.mineralStats.map((m) => m.name) ?? []),
+    ...(areaStats?.mineralStats.map((m) => m.name) ?? []),
+  ]);
+
+  const rows: ModalComparisonRow[] = Array.from(names).map((name) => {
+    const point = pointStats?.mineralStats.find((m) => m.name === name) ?? null;
+    const area = areaStats?.mineralStats.find((m) => m.name === name) ?? null;
+    return {
+      name,
+      pointPercentage: point?.percentage ?? null,
+      pointConfidenceInterval: point?.confidenceInterval ?? null,
+      areaPercentage: area?.percentage ?? null,
+      difference: point && area ? area.percentage - point.percentage : null,
+      withinConfidenceInterval: point && area
+        ? area.percentage >= point.percentageLow && area.percentage <= point.percentageHigh
+        : null,
+    };
+  });
+
+  rows.sort(
+    (a, b) =>
+      Math.max(b.pointPercentage ?? 0, b.areaPercentage ?? 0) -
+      Math.max(a.pointPercentage ?? 0, a.areaPercentage ?? 0)
+  );
+  return rows;
+}
+
+// ============================================================================
+// EXPORT UTILITIES
+// ============================================================================
+
+/**
+ * Format area statistics as a CSV string for export.
+ *
+ * @param stats - Area statistics to export
+ * @returns CSV string with headers
+ */
+export function exportAreaStatisticsToCSV(stats: AreaModalStatistics): string {
+  const lines: string[] = [];
+
+  lines.push('Area Fraction Statistics Export');
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push(`Classified Polygons: ${stats.polygonCount}`);
+  lines.push(`Image Area (px²): ${Math.round(stats.imageAreaPixels)}`);
+  lines.push(`Classified Area (px²): ${Math.round(stats.classifiedAreaPixels)}`);
+  lines.push(`Overlap Area (px²): ${Math.round(stats.overlapAreaPixels)}`);
+  lines.push(`Unclassified: ${stats.unclassifiedPercentage.toFixed(1)}%`);
+  lines.push('');
+
+  lines.push('Mineral,Spots,Area (px²),Area (cm²),Percentage,Percentage of Image');
+  for (const mineral of stats.mineralStats) {
+    lines.push(
+      `${mineral.name},${mineral.spotCount},${Math.round(mineral.areaPixels)},${mineral.areaCm2 !== null ? mineral.areaCm2.toExponential(4) : ''},${mineral.percentage.toFixed(1)}%,${mineral.percentageOfImage.toFixed(1)}%`
+    );
+  }
+
+  return lines.join('\n');
+}
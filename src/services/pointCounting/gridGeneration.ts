@@ -2,10 +2,17 @@
  * Grid Generation Service
  *
  * Algorithms for generating point grids for modal analysis.
- * Supports regular grids, random points, and stratified random sampling.
+ * Supports regular grids, random points, and stratified random sampling,
+ * plus test lines for line-intercept grain size measurement.
  */
 
-import type { GridPoint, GridDimensions, GridType } from './types';
+import type {
+  GridPoint,
+  GridDimensions,
+  GridType,
+  TestLine,
+  TestLineOptions,
+} from './types';
 
 // ============================================================================
 // GRID DIMENSION CALCULATIONS
@@ -203,6 +210,208 @@ export function generatePoints(
   }
 }
 
+// ============================================================================
+// TEST LINE GENERATION
+// ============================================================================
+
+/** Lines shorter than this (in pixels) after clipping are dropped */
+const MIN_TEST_LINE_LENGTH = 1;
+
+/** Normalize an angle in degrees to the 0-180 range */
+function normalizeLineAngle(angle: number): number {
+  return ((angle % 180) + 180) % 180;
+}
+
+/**
+ * Clip a line through a point to the image rectangle.
+ *
+ * @param px - X of a point on the line
+ * @param py - Y of a point on the line
+ * @param angle - Line direction in degrees
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param halfLength - Half-length of the segment centered on the point (Infinity = full chord)
+ * @returns Clipped segment endpoints, or null if the line misses the image
+ */
+function clipLineToImage(
+  px: number,
+  py: number,
+  angle: number,
+  imageWidth: number,
+  imageHeight: number,
+  halfLength: number = Infinity
+): [number, number, number, number] | null {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+
+  // Liang-Barsky: narrow the parameter range against each image edge
+  let tMin = -halfLength;
+  let tMax = halfLength;
+  const edges: [number, number][] = [
+    [-dx, px],
+    [dx, imageWidth - px],
+    [-dy, py],
+    [dy, imageHeight - py],
+  ];
+  for (const [p, q] of edges) {
+    if (Math.abs(p) < 1e-12) {
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > tMin) tMin = t;
+    } else if (t < tMax) {
+      tMax = t;
+    }
+  }
+
+  if (tMax - tMin < MIN_TEST_LINE_LENGTH) return null;
+  return [px + tMin * dx, py + tMin * dy, px + tMax * dx, py + tMax * dy];
+}
+
+function toTestLine(
+  index: number,
+  segment: [number, number, number, number],
+  angle: number
+): TestLine {
+  const [x1, y1, x2, y2] = segment;
+  return { index, x1, y1, x2, y2, angle, length: Math.hypot(x2 - x1, y2 - y1) };
+}
+
+/**
+ * Generate evenly spaced parallel test lines spanning the image.
+ *
+ * Lines are spaced evenly across the image extent perpendicular to their
+ * direction (offset by half a spacing from the corners) and clipped to
+ * the image bounds.
+ *
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param lineCount - Number of lines
+ * @param angle - Line direction in degrees (0 = horizontal, 90 = vertical, y down)
+ * @param startIndex - Index assigned to the first line
+ * @returns Array of test lines
+ */
+export function generateParallelLines(
+  imageWidth: number,
+  imageHeight: number,
+  lineCount: number,
+  angle: number,
+  startIndex: number = 0
+): TestLine[] {
+  const direction = normalizeLineAngle(angle);
+  const radians = (direction * Math.PI) / 180;
+  const nx = -Math.sin(radians);
+  const ny = Math.cos(radians);
+  const cx = imageWidth / 2;
+  const cy = imageHeight / 2;
+
+  // Extent of the image measured along the line normal, from the center
+  const corners: [number, number][] = [[0, 0], [imageWidth, 0], [imageWidth, imageHeight], [0, imageHeight]];
+  const offsets = corners.map(([x, y]) => (x - cx) * nx + (y - cy) * ny);
+  const minOffset = Math.min(...offsets);
+  const spacing = (Math.max(...offsets) - minOffset) / lineCount;
+
+  const lines: TestLine[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    const offset = minOffset + (i + 0.5) * spacing;
+    const segment = clipLineToImage(cx + offset * nx, cy + offset * ny, direction, imageWidth, imageHeight);
+    if (segment) {
+      lines.push(toTestLine(startIndex + lines.length, segment, direction));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generate test lines in several equally spaced directions.
+ *
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param lineCount - Number of lines per direction
+ * @param angle - Direction of the first line set in degrees
+ * @param directionCount - Number of directions spread over 180 degrees
+ * @returns Array of test lines, grouped by direction
+ */
+export function generateMultidirectionalLines(
+  imageWidth: number,
+  imageHeight: number,
+  lineCount: number,
+  angle: number,
+  directionCount: number = 4
+): TestLine[] {
+  const lines: TestLine[] = [];
+  for (let d = 0; d < directionCount; d++) {
+    lines.push(
+      ...generateParallelLines(imageWidth, imageHeight, lineCount, angle + (d * 180) / directionCount, lines.length)
+    );
+  }
+  return lines;
+}
+
+/**
+ * Generate randomly oriented test lines.
+ *
+ * Line centers are placed by stratified random sampling so the lines cover
+ * the whole image; each line gets a random direction and spans two grid
+ * cells (clipped to the image). Random directions make the mean intercept
+ * length insensitive to any grain shape fabric.
+ *
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param lineCount - Target number of lines (determines cell count)
+ * @returns Array of test lines
+ */
+export function generateRandomLines(
+  imageWidth: number,
+  imageHeight: number,
+  lineCount: number
+): TestLine[] {
+  const { spacingX, spacingY } = calculateGridDimensions(imageWidth, imageHeight, lineCount);
+  const halfLength = Math.hypot(spacingX, spacingY);
+
+  const lines: TestLine[] = [];
+  for (const center of generateStratifiedRandomPoints(imageWidth, imageHeight, lineCount)) {
+    const direction = Math.random() * 180;
+    const segment = clipLineToImage(center.x, center.y, direction, imageWidth, imageHeight, halfLength);
+    if (segment) {
+      lines.push(toTestLine(lines.length, segment, direction));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generate test lines using the specified pattern.
+ *
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param options - Pattern, line count and direction
+ * @returns Array of generated test lines
+ */
+export function generateTestLines(
+  imageWidth: number,
+  imageHeight: number,
+  options: TestLineOptions
+): TestLine[] {
+  const { pattern, lineCount, angle } = options;
+  switch (pattern) {
+    case 'orthogonal':
+      return generateMultidirectionalLines(imageWidth, imageHeight, lineCount, angle, 2);
+    case 'multidirectional':
+      return generateMultidirectionalLines(imageWidth, imageHeight, lineCount, angle, 4);
+    case 'random':
+      return generateRandomLines(imageWidth, imageHeight, lineCount);
+    case 'parallel':
+    default:
+      return generateParallelLines(imageWidth, imageHeight, lineCount, angle);
+  }
+}
+
 // ============================================================================
 // REGION FILTERING
 // ============================================================================
@@ -2,7 +2,9 @@
  * Point Counting Service
  *
  * Provides grid generation algorithms and statistical calculations
- * for modal analysis using the point counting method.
+ * for modal analysis using the point counting method, plus area-fraction
+ * modal analysis of classified polygon spots for cross-checking, and
+ * test line generation for line-intercept grain size measurement.
  *
  * @example
  * ```typescript
@@ -27,12 +29,18 @@ export type {
   GridPoint,
   GridDimensions,
   GridGenerationOptions,
+  TestLinePattern,
+  TestLine,
+  TestLineOptions,
   MineralStats,
   PointCountStatistics,
   ClassifiedSpot,
   ConfidenceLevel,
   GenerationSettings,
   SpotAppearanceOptions,
+  AreaMineralStats,
+  AreaModalStatistics,
+  ModalComparisonRow,
 } from './types';
 
 export { Z_SCORES } from './types';
@@ -45,6 +53,10 @@ export {
   generateRandomPoints,
   generateStratifiedRandomPoints,
   generatePoints,
+  generateParallelLines,
+  generateMultidirectionalLines,
+  generateRandomLines,
+  generateTestLines,
   filterPointsByRegion,
   type RegionBounds,
 } from './gridGeneration';
@@ -63,3 +75,12 @@ export {
   exportStatisticsToCSV,
   formatMineralStats,
 } from './statistics';
+
+// Area-Fraction Analysis
+export {
+  countClassifiedPolygonSpots,
+  calculateAreaModalStatistics,
+  calculateAreaModalStatisticsForMicrograph,
+  compareModalAnalyses,
+  exportAreaStatisticsToCSV,
+} from './areaStatistics';
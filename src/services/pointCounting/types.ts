@@ -45,6 +45,41 @@ export interface GridGenerationOptions {
   offsetByHalfSpacing: boolean;
 }
 
+/** Layout of test lines for line-intercept grain size measurement */
+export type TestLinePattern = 'parallel' | 'orthogonal' | 'multidirectional' | 'random';
+
+/**
+ * A test line for line-intercept measurement, clipped to the image.
+ * Angles are in image pixel coordinates (x right, y down), 0-180 degrees,
+ * matching the grain orientation convention used by grain analysis.
+ */
+export interface TestLine {
+  /** Sequential index of the line */
+  index: number;
+  /** Start X coordinate in image pixels */
+  x1: number;
+  /** Start Y coordinate in image pixels */
+  y1: number;
+  /** End X coordinate in image pixels */
+  x2: number;
+  /** End Y coordinate in image pixels */
+  y2: number;
+  /** Line direction in degrees (0-180) */
+  angle: number;
+  /** Line length in image pixels */
+  length: number;
+}
+
+/** Options for generating line-intercept test lines */
+export interface TestLineOptions {
+  /** Layout of the test lines */
+  pattern: TestLinePattern;
+  /** Number of lines per direction (or total lines for random) */
+  lineCount: number;
+  /** Direction of the first line set in degrees (ignored for random) */
+  angle: number;
+}
+
 // ============================================================================
 // STATISTICS TYPES
 // ============================================================================
@@ -89,6 +124,64 @@ export interface ClassifiedSpot {
   mineral: string | null;
 }
 
+// ============================================================================
+// AREA ANALYSIS TYPES
+// ============================================================================
+
+/** Area statistics for a single mineral/category */
+export interface AreaMineralStats {
+  /** Name of the mineral or category */
+  name: string;
+  /** Number of polygon spots classified as this mineral */
+  spotCount: number;
+  /** Visible area in square pixels (after overlaps are resolved) */
+  areaPixels: number;
+  /** Visible area in cm² (null if the micrograph has no scale) */
+  areaCm2: number | null;
+  /** Percentage of total classified area */
+  percentage: number;
+  /** Percentage of the whole image area */
+  percentageOfImage: number;
+}
+
+/** Area-fraction modal analysis of classified polygon spots */
+export interface AreaModalStatistics {
+  /** Number of classified polygon spots analyzed */
+  polygonCount: number;
+  /** Image area in square pixels */
+  imageAreaPixels: number;
+  /** Area covered by classified polygons, overlaps counted once */
+  classifiedAreaPixels: number;
+  /** Area hidden by overlapping polygons (counted toward the top-most spot only) */
+  overlapAreaPixels: number;
+  /** Image area not covered by any classified polygon */
+  unclassifiedAreaPixels: number;
+  /** Unclassified remainder as a percentage of the image area */
+  unclassifiedPercentage: number;
+  /** Micrograph scale used for absolute areas (null if not set) */
+  scalePixelsPerCentimeter: number | null;
+  /** Per-mineral statistics sorted by area descending */
+  mineralStats: AreaMineralStats[];
+  /** Timestamp when statistics were calculated */
+  calculatedAt: string;
+}
+
+/** One row of a point-count vs area-fraction comparison */
+export interface ModalComparisonRow {
+  /** Name of the mineral or category */
+  name: string;
+  /** Point-count percentage (null if the mineral was not counted) */
+  pointPercentage: number | null;
+  /** Point-count 95% confidence interval as ± percentage points */
+  pointConfidenceInterval: number | null;
+  /** Area percentage (null if no polygon has this mineral) */
+  areaPercentage: number | null;
+  /** Area minus point percentage (null unless both are present) */
+  difference: number | null;
+  /** Whether the area percentage lies within the point-count confidence interval */
+  withinConfidenceInterval: boolean | null;
+}
+
 // ============================================================================
 // CONFIDENCE INTERVAL TYPES
 // ============================================================================
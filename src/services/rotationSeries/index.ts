@@ -0,0 +1,38 @@
+/**
+ * Rotation Series Service
+ *
+ * Registers crossed-polars images taken at known stage (or polarizer) angles
+ * to their micrograph, and queries the extinction maps computed from them
+ * (electron/rotationSeries.js) inside spot geometries.
+ *
+ * @example
+ * ```typescript
+ * import { sampleSpotRotationMaps } from '@/services/rotationSeries';
+ *
+ * const [stats] = await sampleSpotRotationMaps(project.id, micrograph, [spot]);
+ * console.log(`Extinction at ${stats.extinctionAngle}° ± ${stats.extinctionSpread}°`);
+ * ```
+ */
+
+// Types
+export type {
+  RotationImageRegistration,
+  RotationMapPixels,
+  RotationMapStats,
+  SpotRotationStats,
+} from './types';
+
+export { EXTINCTION_LEVELS, ROTATION_MAP_LABELS } from './types';
+
+// Registration
+export { guessAngleFromFileName, registerRotationImage } from './registration';
+
+// Sampling
+export {
+  decodeExtinctionAngle,
+  readRotationMap,
+  calculateRotationStats,
+  sampleSpotRotationMaps,
+  formatRotationStats,
+  exportRotationStatsToCSV,
+} from './sampling';
@@ -0,0 +1,119 @@
+/**
+ * Rotation Series Registration
+ *
+ * Registers each crossed-polars image of a rotation series to its micrograph.
+ * Features are matched on gradient magnitude, since the same grain changes
+ * brightness and color from one angle to the next but its boundaries do not
+ * move. On a rotating stage the images turn with the sample, so the affine
+ * fit recovers the rotation as well as any centering offset.
+ */
+
+import type { RotationSeriesMode } from '@/types/project-types';
+import { runAutoRegistration, type FeatureImage } from '@/services/autoRegistration';
+import { loadImageAsImageData } from '@/utils/imageUtils';
+import type { RotationImageRegistration } from './types';
+
+/** Long edge (px) both images are sampled at for feature matching */
+const REGISTRATION_SIZE = 1024;
+
+// ============================================================================
+// IMAGE DEFAULTS
+// ============================================================================
+
+/**
+ * Guess the rotation angle from an image file name.
+ * Handles names such as "XPL_045.tif", "qtz 30deg.png", "stage-67.5°.jpg"
+ * or "rot_120.tiff"; an explicit degree marker wins over other numbers.
+ *
+ * @param fileName - Image file name (with or without path)
+ * @returns Angle in degrees, or null if none could be identified
+ */
+export function guessAngleFromFileName(fileName: string): number | null {
+  const baseName = fileName.split(/[\\/]/).pop() || fileName;
+  const stem = baseName.replace(/\.[^.]+$/, '');
+
+  const marked = stem.match(/(\d{1,3}(?:\.\d+)?)\s*(?:°|deg(?:rees?)?)/i);
+  if (marked) return parseFloat(marked[1]);
+
+  // Otherwise the last number that can be an angle
+  const numbers = stem.match(/\d+(?:\.\d+)?/g) || [];
+  for (let i = numbers.length - 1; i >= 0; i--) {
+    const value = parseFloat(numbers[i]);
+    if (value <= 360) return value;
+  }
+  return null;
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/** A tile-cached image */
+interface CachedImage {
+  hash: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Sample a whole tile-cached image for feature detection.
+ */
+async function sampleImage(image: CachedImage): Promise<FeatureImage> {
+  const loaded = await window.api!.loadImageRegion(
+    image.hash,
+    { x: 0, y: 0, width: image.width, height: image.height },
+    REGISTRATION_SIZE
+  );
+  const imageData = await loadImageAsImageData(loaded.dataUrl);
+  return { imageData, x: loaded.x, y: loaded.y, scale: imageData.width / loaded.regionWidth };
+}
+
+/**
+ * Transform that stretches an image over the micrograph extent, for images
+ * taken without moving the sample.
+ */
+function identityRegistration(image: CachedImage, micrograph: CachedImage): RotationImageRegistration {
+  return {
+    matrix: [micrograph.width / image.width, 0, 0, 0, micrograph.height / image.height, 0],
+    method: 'identity',
+    rms: null,
+  };
+}
+
+/**
+ * Register a series image to the micrograph.
+ *
+ * With rotating polarizers the sample does not move, so an image whose
+ * features cannot be matched (e.g. one taken near extinction of most grains)
+ * is assumed to be in register. With a rotating stage the rotation must be
+ * measured, so a failed match is an error.
+ *
+ * @param image - Series image in the tile cache
+ * @param micrograph - Micrograph image in the tile cache
+ * @param mode - What was rotated between images
+ * @returns Transform from image pixels to micrograph pixels
+ * @throws Error if a stage-rotation image cannot be matched
+ */
+export async function registerRotationImage(
+  image: CachedImage,
+  micrograph: CachedImage,
+  mode: RotationSeriesMode
+): Promise<RotationImageRegistration> {
+  try {
+    const proposal = await runAutoRegistration(
+      await sampleImage(image),
+      await sampleImage(micrograph),
+      image.width,
+      image.height,
+      { detector: 'orb', matchEdges: true }
+    );
+    return { matrix: proposal.matrix, method: 'auto', rms: proposal.rms };
+  } catch (error) {
+    if (mode === 'polarizers') {
+      console.warn('[RotationSeries] Feature matching failed, assuming the image is in register:', error);
+      return identityRegistration(image, micrograph);
+    }
+    throw error;
+  }
+}
+
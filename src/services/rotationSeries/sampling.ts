@@ -0,0 +1,270 @@
+/**
+ * Rotation Series Sampling
+ *
+ * Reads a micrograph's rotation series maps and summarizes them inside spot
+ * geometries. The maps cover the full micrograph extent, so spots are scaled
+ * into map pixels exactly as for element maps. Pixels not covered by every
+ * image of the series are black in all maps and are left out of the
+ * statistics.
+ *
+ * Unlike element maps, the saved PNGs are read directly rather than through
+ * the tile cache: its lossy tiles smear the extinction codes, and since 0 and
+ * 255 are neighboring angles the artifacts decode as spurious extinctions.
+ */
+
+import type { MicrographMetadata, Spot } from '@/types/project-types';
+import { getSpotMineral } from '@/services/pointCounting';
+import { getSpotMapPixels, groupSpotPixels } from '@/services/elementMaps';
+import {
+  EXTINCTION_LEVELS,
+  type RotationMapPixels,
+  type RotationMapStats,
+  type SpotRotationStats,
+} from './types';
+
+// ============================================================================
+// MAP ACCESS
+// ============================================================================
+
+/**
+ * Convert an extinction angle map value to degrees (0-90).
+ */
+export function decodeExtinctionAngle(value: number): number {
+  return (value * 90) / EXTINCTION_LEVELS;
+}
+
+/**
+ * Read raw pixels of a rotation series map from its saved PNG.
+ *
+ * @param projectId - Project owning the map file
+ * @param fileName - Map file name in the associatedFiles folder
+ * @param region - Block to read in map pixels (whole map if omitted)
+ * @param maxSize - Long edge to reduce to, nearest neighbor (full resolution if omitted)
+ * @returns Map pixels
+ * @throws Error if the map cannot be read
+ */
+export async function readRotationMap(
+  projectId: string,
+  fileName: string,
+  region?: { x: number; y: number; width: number; height: number },
+  maxSize?: number
+): Promise<RotationMapPixels> {
+  const result = await window.api!.rotationSeries.readMap({ projectId, fileName, region, maxSize });
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `Failed to read rotation series map: ${fileName}`);
+  }
+  return {
+    x: result.x!,
+    y: result.y!,
+    width: result.width!,
+    height: result.height!,
+    channels: result.channels!,
+    data: result.data,
+  };
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Summarize rotation series map values at a set of pixels.
+ *
+ * The extinction angle repeats every 90°, so it is averaged as a direction
+ * (angles ×4 on the unit circle) rather than arithmetically; 89° and 1° average
+ * to 0°, not 45°.
+ *
+ * @param extinction - Extinction map values (0-255)
+ * @param retardation - Retardation map values (0-255), same pixels
+ * @param maxIntensity - Maximum-intensity map values (0-255), same pixels
+ * @returns Statistics over the pixels covered by the whole series
+ */
+export function calculateRotationStats(
+  extinction: number[],
+  retardation: number[],
+  maxIntensity: number[]
+): RotationMapStats {
+  let count = 0;
+  let retardationSum = 0;
+  let retardationSqSum = 0;
+  let maxIntensitySum = 0;
+  let weightSum = 0;
+  let cosSum = 0;
+  let sinSum = 0;
+
+  for (let i = 0; i < extinction.length; i++) {
+    // Black at the brightest angle: outside the area every image covers
+    if (maxIntensity[i] === 0) continue;
+    count++;
+    retardationSum += retardation[i];
+    retardationSqSum += retardation[i] * retardation[i];
+    maxIntensitySum += maxIntensity[i];
+
+    const t = (4 * decodeExtinctionAngle(extinction[i]) * Math.PI) / 180;
+    weightSum += retardation[i];
+    cosSum += retardation[i] * Math.cos(t);
+    sinSum += retardation[i] * Math.sin(t);
+  }
+
+  if (count === 0) {
+    return {
+      pixelCount: 0,
+      extinctionAngle: null,
+      extinctionSpread: null,
+      retardationMean: 0,
+      retardationStdDev: 0,
+      maxIntensityMean: 0,
+    };
+  }
+
+  const retardationMean = retardationSum / count;
+  let extinctionAngle: number | null = null;
+  let extinctionSpread: number | null = null;
+  if (weightSum > 0) {
+    const mean = (Math.atan2(sinSum, cosSum) * 180) / Math.PI / 4;
+    extinctionAngle = ((mean % 90) + 90) % 90;
+    const resultant = Math.min(1, Math.hypot(cosSum, sinSum) / weightSum);
+    extinctionSpread = resultant > 0 ? (Math.sqrt(-2 * Math.log(resultant)) * 180) / Math.PI / 4 : 90;
+  }
+
+  return {
+    pixelCount: count,
+    extinctionAngle,
+    extinctionSpread,
+    retardationMean,
+    retardationStdDev: Math.sqrt(Math.max(0, retardationSqSum / count - retardationMean * retardationMean)),
+    maxIntensityMean: maxIntensitySum / count,
+  };
+}
+
+/**
+ * Query rotation series maps inside each spot.
+ *
+ * Nearby spots are read together as one block of each map (see
+ * groupSpotPixels), so spots spread across the field do not pull in the whole
+ * map between them.
+ *
+ * @param projectId - Project owning the map files
+ * @param micrograph - Micrograph the spots and maps belong to
+ * @param spots - Spots to query
+ * @param onProgress - Called after each block is read
+ * @returns Per-spot statistics (empty if the maps have not been computed)
+ */
+export async function sampleSpotRotationMaps(
+  projectId: string,
+  micrograph: MicrographMetadata,
+  spots: Spot[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<SpotRotationStats[]> {
+  const maps = micrograph.rotationSeries?.maps;
+  const micrographWidth = micrograph.imageWidth || micrograph.width || 0;
+  const micrographHeight = micrograph.imageHeight || micrograph.height || 0;
+  if (!maps || !micrographWidth || !micrographHeight || spots.length === 0) return [];
+
+  const scaleX = maps.width / micrographWidth;
+  const scaleY = maps.height / micrographHeight;
+  const spotPixels = spots.map((spot) => getSpotMapPixels(spot, scaleX, scaleY));
+  const values = spots.map(() => ({
+    extinction: [] as number[],
+    retardation: [] as number[],
+    maxIntensity: [] as number[],
+  }));
+
+  const groups = groupSpotPixels(spotPixels);
+  for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+    const { spotIndices, ...region } = groups[groupIndex];
+    // The maps share one pixel grid, so the blocks line up
+    const extinction = await readRotationMap(projectId, maps.extinctionAngleFileName, region);
+    const retardation = await readRotationMap(projectId, maps.retardationFileName, region);
+    const maxIntensity = await readRotationMap(projectId, maps.maxIntensityFileName, region);
+
+    for (const spotIndex of spotIndices) {
+      const spotValues = values[spotIndex];
+      for (const [px, py] of spotPixels[spotIndex]) {
+        const rx = px - extinction.x;
+        const ry = py - extinction.y;
+        if (rx < 0 || ry < 0 || rx >= extinction.width || ry >= extinction.height) continue;
+        const i = ry * extinction.width + rx;
+        spotValues.extinction.push(extinction.data[i]);
+        spotValues.retardation.push(retardation.data[i]);
+        // Brightest channel, as element map intensities are read
+        const c = i * maxIntensity.channels;
+        let brightest = 0;
+        for (let k = 0; k < maxIntensity.channels; k++) brightest = Math.max(brightest, maxIntensity.data[c + k]);
+        spotValues.maxIntensity.push(brightest);
+      }
+    }
+    onProgress?.(groupIndex + 1, groups.length);
+  }
+
+  return spots.map((spot, spotIndex) => ({
+    spotId: spot.id,
+    spotName: spot.name,
+    mineral: getSpotMineral(spot),
+    ...calculateRotationStats(
+      values[spotIndex].extinction,
+      values[spotIndex].retardation,
+      values[spotIndex].maxIntensity
+    ),
+  }));
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+/**
+ * One-line summary of spot statistics, for notes.
+ */
+export function formatRotationStats(stats: RotationMapStats): string {
+  if (stats.pixelCount === 0) return 'Rotation series: spot lies outside the mapped area';
+
+  const parts: string[] = [];
+  if (stats.extinctionAngle !== null) {
+    parts.push(
+      `extinction at ${stats.extinctionAngle.toFixed(1)}°` +
+        (stats.extinctionSpread !== null ? ` (spread ${stats.extinctionSpread.toFixed(1)}°)` : '')
+    );
+  } else {
+    parts.push('no extinction (isotropic)');
+  }
+  parts.push(`retardation proxy ${stats.retardationMean.toFixed(0)} ± ${stats.retardationStdDev.toFixed(0)}`);
+  parts.push(`max intensity ${stats.maxIntensityMean.toFixed(0)}`);
+  return `Rotation series: ${parts.join(', ')}`;
+}
+
+/**
+ * Export spot statistics to CSV (one row per spot).
+ *
+ * @param results - Results from sampleSpotRotationMaps
+ * @returns CSV content
+ */
+export function exportRotationStatsToCSV(results: SpotRotationStats[]): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const header = [
+    'Spot',
+    'Mineral',
+    'Pixels',
+    'Extinction Angle (deg)',
+    'Extinction Spread (deg)',
+    'Retardation Mean',
+    'Retardation Std Dev',
+    'Max Intensity Mean',
+  ];
+
+  const rows = results.map((result) =>
+    [
+      escape(result.spotName),
+      escape(result.mineral ?? ''),
+      String(result.pixelCount),
+      result.extinctionAngle !== null ? result.extinctionAngle.toFixed(2) : '',
+      result.extinctionSpread !== null ? result.extinctionSpread.toFixed(2) : '',
+      result.retardationMean.toFixed(2),
+      result.retardationStdDev.toFixed(2),
+      result.maxIntensityMean.toFixed(2),
+    ].join(',')
+  );
+
+  return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,92 @@
+/**
+ * Rotation Series Types
+ *
+ * Type definitions for registering crossed-polars rotation series and
+ * querying their extinction maps inside spot geometries.
+ */
+
+import type { RotationSeriesMapType } from '@/types/project-types';
+
+// ============================================================================
+// REGISTRATION TYPES
+// ============================================================================
+
+/** Registration of one series image to the micrograph */
+export interface RotationImageRegistration {
+  /** Affine transform [a, b, tx, c, d, ty] from image pixels to micrograph pixels */
+  matrix: [number, number, number, number, number, number];
+  /** 'auto' when matched from image features, 'identity' when the image was assumed to be in register */
+  method: 'auto' | 'identity';
+  /** RMS error of the matched features, in micrograph pixels (null for identity) */
+  rms: number | null;
+}
+
+// ============================================================================
+// MAP TYPES
+// ============================================================================
+
+/** Raw pixels of a computed map, or a block of one */
+export interface RotationMapPixels {
+  /** Left edge of the block in map pixels */
+  x: number;
+  /** Top edge of the block in map pixels */
+  y: number;
+  /** Block width in pixels (as read, after any reduction) */
+  width: number;
+  /** Block height in pixels */
+  height: number;
+  /** Values per pixel (1 for extinction and retardation, 3 for maximum intensity) */
+  channels: number;
+  /** Row-major interleaved values */
+  data: Uint8Array;
+}
+
+// ============================================================================
+// SPOT QUERY TYPES
+// ============================================================================
+
+/** Rotation series map statistics inside one spot */
+export interface RotationMapStats {
+  /** Number of map pixels covered by every image of the series */
+  pixelCount: number;
+  /**
+   * Mean extinction angle (degrees, 0-90), weighted by retardation so
+   * isotropic pixels do not pull it (null when nothing in the spot modulates)
+   */
+  extinctionAngle: number | null;
+  /**
+   * Circular standard deviation of the extinction angle in degrees: near zero
+   * for sharp extinction, large for undulose or patchy extinction
+   */
+  extinctionSpread: number | null;
+  /** Mean retardation proxy (peak-to-peak modulation, 0-255) */
+  retardationMean: number;
+  /** Standard deviation of the retardation proxy */
+  retardationStdDev: number;
+  /** Mean brightness at the brightest angle (0-255) */
+  maxIntensityMean: number;
+}
+
+/** Rotation series map statistics for a single spot */
+export interface SpotRotationStats extends RotationMapStats {
+  /** Spot ID */
+  spotId: string;
+  /** Spot name */
+  spotName: string;
+  /** Primary mineral name (if classified) */
+  mineral: string | null;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/** Levels the extinction angle map quantizes 90° to (matches electron/rotationSeries.js) */
+export const EXTINCTION_LEVELS = 256;
+
+/** Display names of the computed maps */
+export const ROTATION_MAP_LABELS: Record<RotationSeriesMapType, string> = {
+  maxIntensity: 'Maximum Intensity',
+  extinctionAngle: 'Extinction Angle',
+  retardation: 'Retardation (proxy)',
+};
@@ -0,0 +1,15 @@
+/**
+ * Segmentation Models
+ *
+ * User-registered ONNX models for grain detection: a registry of model
+ * manifests kept by the main process, and renderer-side inference that
+ * turns each model's output into the same DetectedGrain preview as FastSAM.
+ *
+ * Output types:
+ * - Instance masks (YOLOv8-seg, like FastSAM): masks go through the contour worker
+ * - Semantic class maps: connected class regions become mineral-labelled grains
+ * - Boundary probability maps: areas enclosed by boundaries become grains
+ */
+
+export * from './types';
+export * from './inference';
@@ -0,0 +1,269 @@
+/**
+ * Segmentation Model Inference (Renderer Process)
+ *
+ * Runs user-registered ONNX models with onnxruntime-web, like FastSAM.
+ * Instance-mask models share FastSAM's YOLOv8-seg postprocessing and
+ * return masks for the contour worker. Semantic and boundary models are
+ * turned into a label grid at image size and vectorized into grains here;
+ * semantic grains carry the mineral of their class.
+ *
+ * Only one registered model is kept in memory at a time.
+ *
+ * @module segmentationModels/inference
+ */
+
+import * as ort from 'onnxruntime-web';
+import {
+  type FastSAMDetectionResult,
+  type FastSAMParams,
+  type ModelInputConfig,
+  type PreprocessInfo,
+  type ProgressInfo,
+  configureWasm,
+  preprocessImage,
+  runInstanceSegmentation,
+} from '@/services/fastsamInference';
+import { vectorizeLabels } from '@/services/grainDetection/labelOutlines';
+import type { DetectedGrain } from '@/services/grainDetection/types';
+import { ringToGrain, toRing } from '@/services/grainDetection/geometry';
+import type { ModelInput, RegionSegmentationOptions, RegisteredModel } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Output of a registered model: masks for the contour worker (instance
+ * models) or finished grains (semantic and boundary models).
+ */
+export type ModelSegmentationResult =
+  | { kind: 'masks'; detection: FastSAMDetectionResult }
+  | { kind: 'grains'; grains: DetectedGrain[]; processingTimeMs: number };
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+let current: { id: string; session: Promise<ort.InferenceSession> } | null = null;
+
+async function createSession(model: RegisteredModel): Promise<ort.InferenceSession> {
+  const result = await window.api?.models?.loadBytes(model.id);
+  if (!result?.success || !result.buffer) {
+    throw new Error(result?.error || `Failed to load model "${model.manifest.name}"`);
+  }
+
+  configureWasm();
+  const startTime = Date.now();
+  const session = await ort.InferenceSession.create(result.buffer.buffer as ArrayBuffer, {
+    executionProviders: ['wasm'],
+    graphOptimizationLevel: 'all',
+  });
+  console.log('[SegmentationModels] Loaded', model.manifest.name, 'in', Date.now() - startTime, 'ms');
+  console.log('[SegmentationModels] Input names:', session.inputNames, 'Output names:', session.outputNames);
+  return session;
+}
+
+/**
+ * Load a registered model (replacing the previously loaded one).
+ */
+export function loadSegmentationModel(model: RegisteredModel): Promise<ort.InferenceSession> {
+  if (current?.id !== model.id) {
+    const id = model.id;
+    const session = createSession(model);
+    current = { id, session };
+    // A failed load must not stick
+    session.catch(() => {
+      if (current?.id === id) current = null;
+    });
+  }
+  return current.session;
+}
+
+/**
+ * Drop the loaded model to free memory.
+ */
+export function unloadSegmentationModel(): void {
+  current = null;
+}
+
+function toInputConfig(input: ModelInput): ModelInputConfig {
+  return { inputSize: input.size, mean: input.mean, std: input.std, channelOrder: input.channelOrder };
+}
+
+// ============================================================================
+// OUTPUT DECODING
+// ============================================================================
+
+/** Value of a tensor element (int64 outputs come back as BigInt64Array) */
+function tensorValues(tensor: ort.Tensor): ArrayLike<number> {
+  const data = tensor.data;
+  if (data instanceof BigInt64Array || data instanceof BigUint64Array) {
+    return Float64Array.from(data, (v) => Number(v));
+  }
+  return data as ArrayLike<number>;
+}
+
+/**
+ * Resample a label grid in model output space to image size, stripping
+ * the letterbox padding (nearest neighbor).
+ */
+function resampleToImage(
+  grid: Int16Array,
+  gridW: number,
+  gridH: number,
+  inputSize: number,
+  info: PreprocessInfo
+): Int16Array {
+  const { scale, padX, padY, origW, origH } = info;
+  const labels = new Int16Array(origW * origH);
+
+  const colIndex = new Int32Array(origW);
+  for (let x = 0; x < origW; x++) {
+    colIndex[x] = Math.min(gridW - 1, Math.floor((((x + 0.5) * scale + padX) * gridW) / inputSize));
+  }
+  for (let y = 0; y < origH; y++) {
+    const gy = Math.min(gridH - 1, Math.floor((((y + 0.5) * scale + padY) * gridH) / inputSize));
+    const row = gy * gridW;
+    for (let x = 0; x < origW; x++) {
+      labels[y * origW + x] = grid[row + colIndex[x]];
+    }
+  }
+  return labels;
+}
+
+/**
+ * Class index per output cell: argmax over channels of [1, C, H, W] scores,
+ * or the values of a [1, H, W] / [1, 1, H, W] class map.
+ */
+function decodeClassMap(tensor: ort.Tensor): { classes: Int32Array; width: number; height: number } {
+  const dims = tensor.dims;
+  const height = dims[dims.length - 2] as number;
+  const width = dims[dims.length - 1] as number;
+  const channels = dims.length === 4 ? (dims[1] as number) : 1;
+  const values = tensorValues(tensor);
+  const cells = width * height;
+  const classes = new Int32Array(cells);
+
+  if (channels === 1) {
+    for (let i = 0; i < cells; i++) classes[i] = Math.round(values[i]);
+    return { classes, width, height };
+  }
+
+  for (let i = 0; i < cells; i++) {
+    let best = 0;
+    let bestScore = values[i];
+    for (let c = 1; c < channels; c++) {
+      const score = values[c * cells + i];
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    classes[i] = best;
+  }
+  return { classes, width, height };
+}
+
+/**
+ * Vectorize an image-size label grid into grains.
+ */
+function labelsToGrains(
+  labels: Int16Array,
+  info: PreprocessInfo,
+  cellSize: number,
+  options: RegionSegmentationOptions,
+  mineralOf: (label: number) => string | undefined
+): DetectedGrain[] {
+  const minRegionPixels = (info.origW * info.origH * options.minAreaPercent) / 100;
+  // Outlines follow the model's output cells; smooth away their staircase
+  const tolerance = Math.max(1, cellSize / 2);
+
+  const grains: DetectedGrain[] = [];
+  for (const region of vectorizeLabels(labels, info.origW, info.origH, minRegionPixels, tolerance)) {
+    const ring = toRing(region.contour);
+    if (ring.length < 4) continue;
+    const grain = ringToGrain(ring, `grain-${grains.length}`);
+    const mineral = mineralOf(region.label);
+    grains.push(mineral ? { ...grain, mineral } : grain);
+  }
+  return grains;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * Run a registered model on an image.
+ *
+ * @param model - Registered model (loaded on first use)
+ * @param imageData - ImageData from canvas
+ * @param params - Detection parameters (instance models use all of them,
+ *   semantic and boundary models only minAreaPercent)
+ * @param progressCallback - Optional progress callback
+ * @returns Masks (instance models) or grains in image pixels
+ */
+export async function runSegmentationModel(
+  model: RegisteredModel,
+  imageData: ImageData,
+  params: FastSAMParams = {},
+  progressCallback?: (info: ProgressInfo) => void
+): Promise<ModelSegmentationResult> {
+  const { manifest } = model;
+  progressCallback?.({ step: `Loading ${manifest.name}...`, percent: 5 });
+  const session = await loadSegmentationModel(model);
+  const input = toInputConfig(manifest.input);
+  const output = manifest.output;
+
+  if (output.type === 'instance-masks') {
+    const detection = await runInstanceSegmentation(session, input, imageData, params, progressCallback);
+    return { kind: 'masks', detection };
+  }
+
+  const startTime = Date.now();
+  const { tensor, preprocessInfo } = await preprocessImage(imageData, input, progressCallback);
+
+  progressCallback?.({ step: 'Running inference...', percent: 40 });
+  const results = await session.run({ [session.inputNames[0]]: tensor });
+  const outputTensor = results[session.outputNames[0]];
+  console.log('[SegmentationModels] Output shape:', outputTensor.dims);
+
+  progressCallback?.({ step: 'Vectorizing regions...', percent: 70 });
+  const options: RegionSegmentationOptions = { minAreaPercent: params.minAreaPercent ?? 0.01 };
+  let grid: Int16Array;
+  let gridW: number;
+  let gridH: number;
+  let mineralOf: (label: number) => string | undefined = () => undefined;
+
+  if (output.type === 'semantic') {
+    // Labels index the non-background classes
+    const labelOfClass = new Map<number, number>();
+    const foreground = output.classes.filter((cls) => !cls.background);
+    foreground.forEach((cls, label) => labelOfClass.set(cls.index, label));
+    mineralOf = (label) => foreground[label].mineral || foreground[label].name;
+
+    const decoded = decodeClassMap(outputTensor);
+    gridW = decoded.width;
+    gridH = decoded.height;
+    grid = Int16Array.from(decoded.classes, (cls) => labelOfClass.get(cls) ?? -1);
+  } else {
+    // Grains are the connected areas between boundaries
+    const dims = outputTensor.dims;
+    gridH = dims[dims.length - 2] as number;
+    gridW = dims[dims.length - 1] as number;
+    const values = tensorValues(outputTensor);
+    grid = new Int16Array(gridW * gridH);
+    for (let i = 0; i < grid.length; i++) {
+      const probability = output.sigmoid ? 1 / (1 + Math.exp(-values[i])) : values[i];
+      grid[i] = probability < output.threshold ? 0 : -1;
+    }
+  }
+
+  const labels = resampleToImage(grid, gridW, gridH, input.inputSize, preprocessInfo);
+  const cellSize = input.inputSize / gridW / preprocessInfo.scale;
+  const grains = labelsToGrains(labels, preprocessInfo, cellSize, options, mineralOf);
+
+  progressCallback?.({ step: 'Detection complete', percent: 100 });
+  console.log('[SegmentationModels]', manifest.name, 'found', grains.length, 'regions');
+  return { kind: 'grains', grains, processingTimeMs: Date.now() - startTime };
+}
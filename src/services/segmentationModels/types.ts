@@ -0,0 +1,85 @@
+/**
+ * Segmentation Model Types
+ *
+ * Type definitions for user-registered ONNX segmentation models. The
+ * manifest format is validated in the main process (electron/modelRegistry.js).
+ */
+
+// ============================================================================
+// MANIFEST
+// ============================================================================
+
+/**
+ * What a model outputs:
+ * - 'instance-masks': YOLOv8-seg detections + mask prototypes (like FastSAM)
+ * - 'semantic': per-pixel class scores [1, C, H, W] or class indices [1, H, W]
+ * - 'boundary': grain boundary probability [1, 1, H, W]
+ */
+export type SegmentationOutputType = 'instance-masks' | 'semantic' | 'boundary';
+
+/**
+ * How images are fed to the model. Images are letterboxed to a square
+ * input and normalized per channel as (value / 255 - mean) / std.
+ */
+export interface ModelInput {
+  /** Square input size in pixels */
+  size: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+  channelOrder: 'rgb' | 'bgr';
+}
+
+/** A class of a semantic model */
+export interface SemanticClass {
+  /** Channel (or class value) in the model output */
+  index: number;
+  /** Display name */
+  name: string;
+  /** Mineral name for generated spots (defaults to the class name) */
+  mineral?: string;
+  /** Background classes never become spots */
+  background: boolean;
+}
+
+export type ModelOutput =
+  | { type: 'instance-masks' }
+  | { type: 'semantic'; classes: SemanticClass[] }
+  | {
+      type: 'boundary';
+      /** Boundary probability above which a pixel separates grains */
+      threshold: number;
+      /** Whether the output is logits that need a sigmoid */
+      sigmoid: boolean;
+    };
+
+/** Manifest describing a registered ONNX model */
+export interface ModelManifest {
+  name: string;
+  description?: string;
+  /** Path to the .onnx file, relative to the manifest */
+  model: string;
+  input: ModelInput;
+  output: ModelOutput;
+}
+
+/** A model in the registry */
+export interface RegisteredModel {
+  id: string;
+  manifestPath: string;
+  /** Absolute path to the .onnx file */
+  modelPath: string;
+  manifest: ModelManifest;
+  registeredAt: string;
+  /** Whether the model file still exists */
+  available: boolean;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/** Options for semantic and boundary model postprocessing */
+export interface RegionSegmentationOptions {
+  /** Regions smaller than this percentage of the image are dropped */
+  minAreaPercent: number;
+}
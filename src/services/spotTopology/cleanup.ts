@@ -0,0 +1,189 @@
+/**
+ * Spot Topology Cleanup
+ *
+ * Makes a set of adjacent polygon spots share clean boundaries:
+ * 1. Vertices within the tolerance of a neighbor's vertex are moved onto it
+ *    (larger spots keep their vertices, smaller spots move)
+ * 2. Vertices lying within the tolerance of a neighbor's edge are inserted
+ *    into that edge (moving onto it first if they belong to the smaller
+ *    spot), so both spots follow the same line
+ * 3. Remaining overlaps are cut out of the smaller spot with polygon-clipping
+ */
+
+import polygonClipping from 'polygon-clipping';
+import {
+  type Bbox,
+  type ClipMultiPolygon,
+  type Pair,
+  bboxesOverlap,
+  ringArea,
+  ringBbox,
+  ringIntersectionArea,
+} from '@/services/grainDetection/geometry';
+import { SnapIndex, vertexKey } from './snapping';
+import {
+  DEFAULT_TOPOLOGY_CLEANUP_OPTIONS,
+  type TopologyCleanupOptions,
+  type TopologyCleanupResult,
+  type TopologySpot,
+} from './types';
+
+/** Overlaps smaller than this (px²) are rounding noise along a shared edge */
+const MIN_OVERLAP_AREA = 1e-3;
+
+function closeRing(points: Pair[]): Pair[] {
+  return [...points, points[0]];
+}
+
+function samePoint(a: Pair, b: Pair): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Drop consecutive repeated vertices (including the wrap-around).
+ */
+function removeRepeatedVertices(points: Pair[]): Pair[] {
+  const result: Pair[] = [];
+  for (const p of points) {
+    if (result.length === 0 || !samePoint(result[result.length - 1], p)) result.push(p);
+  }
+  while (result.length > 1 && samePoint(result[0], result[result.length - 1])) result.pop();
+  return result;
+}
+
+/**
+ * Close gaps and remove overlaps between the given polygon spots.
+ * Line spots are passed through untouched.
+ */
+export function cleanSharedBoundaries(
+  spots: TopologySpot[],
+  options: TopologyCleanupOptions = DEFAULT_TOPOLOGY_CLEANUP_OPTIONS
+): TopologyCleanupResult {
+  const { tolerance } = options;
+  const polygons = spots.filter((spot) => spot.closed && spot.points.length >= 3);
+
+  // Larger spots anchor the shared boundary
+  const working: TopologySpot[] = polygons
+    .map((spot) => ({ ...spot, points: spot.points.map((p) => [p[0], p[1]] as Pair) }))
+    .sort((a, b) => ringArea(closeRing(b.points)) - ringArea(closeRing(a.points)));
+  const rank = new Map(working.map((spot, i) => [spot.spotId, i]));
+
+  // --- 1. Snap vertices onto neighbor vertices ---
+  let verticesSnapped = 0;
+  const vertexIndex = new SnapIndex(working);
+  const settled = new Set<string>();
+
+  for (const spot of working) {
+    spot.points.forEach((anchor, index) => {
+      const key = vertexKey(spot.spotId, index);
+      if (settled.has(key)) return;
+      settled.add(key);
+
+      for (const ref of vertexIndex.verticesNear(anchor[0], anchor[1], tolerance)) {
+        const refKey = vertexKey(ref.spotId, ref.index);
+        if (ref.spotId === spot.spotId || settled.has(refKey)) continue;
+        settled.add(refKey);
+
+        const target = working[rank.get(ref.spotId)!].points;
+        if (!samePoint(target[ref.index], anchor)) {
+          target[ref.index] = [anchor[0], anchor[1]];
+          verticesSnapped++;
+        }
+      }
+    });
+  }
+
+  // --- 2. Insert vertices that sit on a neighbor's edge ---
+  let verticesInserted = 0;
+  const edgeIndex = new SnapIndex(working);
+  // spotId -> edge start index -> points to insert, with their position along the edge
+  const insertions = new Map<string, Map<number, Array<{ t: number; point: Pair }>>>();
+
+  for (const spot of working) {
+    for (const point of spot.points) {
+      for (const hit of edgeIndex.edgesNear(point[0], point[1], tolerance)) {
+        if (hit.spotId === spot.spotId) continue;
+        const target = working[rank.get(hit.spotId)!].points;
+        const a = target[hit.index];
+        const b = target[(hit.index + 1) % target.length];
+        // Vertex-to-vertex contacts were handled above
+        if (Math.hypot(point[0] - a[0], point[1] - a[1]) <= tolerance) continue;
+        if (Math.hypot(point[0] - b[0], point[1] - b[1]) <= tolerance) continue;
+
+        // A smaller spot's vertex moves onto the larger spot's edge; otherwise
+        // the smaller spot's edge bends to pass through the vertex
+        if (rank.get(spot.spotId)! > rank.get(hit.spotId)!) {
+          point[0] = hit.x;
+          point[1] = hit.y;
+        }
+
+        const t = Math.hypot(point[0] - a[0], point[1] - a[1]);
+        let byEdge = insertions.get(hit.spotId);
+        if (!byEdge) insertions.set(hit.spotId, (byEdge = new Map()));
+        const list = byEdge.get(hit.index) ?? [];
+        if (!list.some((entry) => samePoint(entry.point, point))) {
+          list.push({ t, point: [point[0], point[1]] });
+        }
+        byEdge.set(hit.index, list);
+      }
+    }
+  }
+
+  for (const [spotId, byEdge] of insertions) {
+    const spot = working[rank.get(spotId)!];
+    const points: Pair[] = [];
+    spot.points.forEach((p, index) => {
+      points.push(p);
+      const list = byEdge.get(index);
+      if (!list) return;
+      list.sort((a, b) => a.t - b.t);
+      for (const entry of list) points.push(entry.point);
+      verticesInserted += list.length;
+    });
+    spot.points = points;
+  }
+
+  // --- 3. Cut remaining overlaps out of the smaller spot ---
+  let overlapsRemoved = 0;
+  const bboxes: Bbox[] = working.map((spot) => ringBbox(closeRing(spot.points)));
+
+  for (let i = 0; i < working.length; i++) {
+    for (let j = i + 1; j < working.length; j++) {
+      if (!bboxesOverlap(bboxes[i], bboxes[j])) continue;
+      const larger = closeRing(working[i].points);
+      const smaller = closeRing(working[j].points);
+      if (ringIntersectionArea(larger, smaller) <= MIN_OVERLAP_AREA) continue;
+
+      let remainder: ClipMultiPolygon;
+      try {
+        remainder = polygonClipping.difference([smaller], [larger]) as ClipMultiPolygon;
+      } catch (error) {
+        console.warn('[SpotTopology] Could not trim overlap:', error);
+        continue;
+      }
+
+      // Keep the largest remaining piece; a fully covered spot is left alone
+      let best: Pair[] | null = null;
+      for (const polygon of remainder) {
+        if (!best || ringArea(polygon[0]) > ringArea(best)) best = polygon[0];
+      }
+      if (!best || best.length < 4) continue;
+
+      working[j].points = best.slice(0, -1).map((p) => [p[0], p[1]] as Pair);
+      bboxes[j] = ringBbox(best);
+      overlapsRemoved++;
+    }
+  }
+
+  // --- Collect changed spots ---
+  const points = new Map<string, Pair[]>();
+  for (const original of polygons) {
+    const cleaned = removeRepeatedVertices(working[rank.get(original.spotId)!].points);
+    if (cleaned.length < 3) continue;
+    const changed =
+      cleaned.length !== original.points.length || cleaned.some((p, i) => !samePoint(p, original.points[i]));
+    if (changed) points.set(original.spotId, cleaned);
+  }
+
+  return { points, verticesSnapped, verticesInserted, overlapsRemoved };
+}
@@ -0,0 +1,9 @@
+/**
+ * Spot Topology Service
+ *
+ * Re-exports snapping, shared vertex lookup and gap/overlap cleanup
+ */
+
+export * from './types';
+export * from './snapping';
+export * from './cleanup';
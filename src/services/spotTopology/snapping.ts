@@ -0,0 +1,249 @@
+/**
+ * Spot Snapping
+ *
+ * Spatial index over the vertices and edges of a micrograph's line and
+ * polygon spots. Used while drawing and editing to snap the cursor onto a
+ * neighbor's outline, and to find vertices that two spots share.
+ */
+
+import type { Spot } from '@/types/project-types';
+import type { Pair } from '@/services/grainDetection/geometry';
+import type { SnapResult, TopologySpot, VertexRef } from './types';
+
+// ============================================================================
+// SPOT ACCESS
+// ============================================================================
+
+/**
+ * Editable vertices of a spot, read from spot.points the same way geometry
+ * editing reads them. A repeated closing vertex is dropped.
+ */
+export function getSpotVertices(spot: Spot): Pair[] {
+  const points: Pair[] = (spot.points || []).map((p) => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0]);
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) points.pop();
+  }
+  return points;
+}
+
+/**
+ * Line and polygon spots that can be snapped to, skipping archived spots
+ * and any spot in excludeIds (typically the spot being edited).
+ */
+export function getTopologySpots(spots: Spot[], excludeIds: Iterable<string> = []): TopologySpot[] {
+  const excluded = new Set(excludeIds);
+  const result: TopologySpot[] = [];
+
+  for (const spot of spots) {
+    if (excluded.has(spot.id) || spot.archived) continue;
+
+    const type = (spot.geometryType || spot.geometry?.type || '').toLowerCase();
+    const closed = type === 'polygon';
+    if (!closed && type !== 'line' && type !== 'linestring') continue;
+
+    const points = getSpotVertices(spot);
+    if (points.length < (closed ? 3 : 2)) continue;
+
+    result.push({ spotId: spot.id, points, closed });
+  }
+
+  return result;
+}
+
+/**
+ * Key of a vertex, for exclusion sets.
+ */
+export function vertexKey(spotId: string, index: number): string {
+  return `${spotId}:${index}`;
+}
+
+// ============================================================================
+// SNAP INDEX
+// ============================================================================
+
+interface IndexedVertex {
+  spot: number;
+  index: number;
+}
+
+interface IndexedEdge {
+  spot: number;
+  /** Index of the edge's start vertex */
+  index: number;
+}
+
+/**
+ * Grid of spot vertices and edges.
+ *
+ * Positions are captured when the index is built; rebuild it after the
+ * spots change.
+ */
+export class SnapIndex {
+  private readonly vertexCells = new Map<string, IndexedVertex[]>();
+  private readonly edgeCells = new Map<string, IndexedEdge[]>();
+
+  constructor(
+    readonly spots: TopologySpot[],
+    private readonly cellSize = 32
+  ) {
+    spots.forEach((spot, s) => {
+      const { points } = spot;
+      const edgeCount = spot.closed ? points.length : points.length - 1;
+
+      points.forEach(([x, y], index) => {
+        this.insert(this.vertexCells, { spot: s, index }, x, y, x, y);
+      });
+
+      for (let index = 0; index < edgeCount; index++) {
+        const [x0, y0] = points[index];
+        const [x1, y1] = points[(index + 1) % points.length];
+        const edge: IndexedEdge = { spot: s, index };
+        // Register long edges piecewise so they only occupy cells along the edge
+        const pieces = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / cellSize));
+        for (let k = 0; k < pieces; k++) {
+          const ax = x0 + ((x1 - x0) * k) / pieces;
+          const ay = y0 + ((y1 - y0) * k) / pieces;
+          const bx = x0 + ((x1 - x0) * (k + 1)) / pieces;
+          const by = y0 + ((y1 - y0) * (k + 1)) / pieces;
+          this.insert(this.edgeCells, edge, Math.min(ax, bx), Math.min(ay, by), Math.max(ax, bx), Math.max(ay, by));
+        }
+      }
+    });
+  }
+
+  private insert<T>(cells: Map<string, T[]>, item: T, minX: number, minY: number, maxX: number, maxY: number): void {
+    for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+      for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) {
+        const key = `${cx},${cy}`;
+        const list = cells.get(key);
+        if (list) {
+          // Consecutive pieces of one edge often land in the same cell
+          if (list[list.length - 1] !== item) list.push(item);
+        } else {
+          cells.set(key, [item]);
+        }
+      }
+    }
+  }
+
+  private *query<T>(cells: Map<string, T[]>, x: number, y: number, radius: number): Generator<T> {
+    const minCx = Math.floor((x - radius) / this.cellSize);
+    const maxCx = Math.floor((x + radius) / this.cellSize);
+    const minCy = Math.floor((y - radius) / this.cellSize);
+    const maxCy = Math.floor((y + radius) / this.cellSize);
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      for (let cy = minCy; cy <= maxCy; cy++) {
+        const list = cells.get(`${cx},${cy}`);
+        if (list) yield* list;
+      }
+    }
+  }
+
+  /**
+   * Nearest snap target within the radius. Vertices win over edges so that
+   * neighboring spots end up sharing vertices rather than just touching.
+   *
+   * @param exclude - Vertex keys (see vertexKey) to ignore; edges touching
+   *   an excluded vertex are ignored too
+   */
+  snap(x: number, y: number, radius: number, exclude?: Set<string>): SnapResult | null {
+    let best: SnapResult | null = null;
+
+    for (const v of this.query(this.vertexCells, x, y, radius)) {
+      const spot = this.spots[v.spot];
+      if (exclude?.has(vertexKey(spot.spotId, v.index))) continue;
+      const [vx, vy] = spot.points[v.index];
+      const distance = Math.hypot(vx - x, vy - y);
+      if (distance <= radius && (!best || distance < best.distance)) {
+        best = { x: vx, y: vy, kind: 'vertex', spotId: spot.spotId, index: v.index, distance };
+      }
+    }
+    if (best) return best;
+
+    for (const e of this.query(this.edgeCells, x, y, radius)) {
+      const spot = this.spots[e.spot];
+      const next = (e.index + 1) % spot.points.length;
+      if (exclude?.has(vertexKey(spot.spotId, e.index)) || exclude?.has(vertexKey(spot.spotId, next))) continue;
+      const [ax, ay] = spot.points[e.index];
+      const [bx, by] = spot.points[next];
+      const [px, py] = projectOntoSegment(x, y, ax, ay, bx, by);
+      const distance = Math.hypot(px - x, py - y);
+      if (distance <= radius && (!best || distance < best.distance)) {
+        best = { x: px, y: py, kind: 'edge', spotId: spot.spotId, index: e.index, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Closest vertex of each spot within the radius.
+   */
+  verticesNear(x: number, y: number, radius: number): VertexRef[] {
+    const nearest = new Map<string, { ref: VertexRef; distance: number }>();
+
+    for (const v of this.query(this.vertexCells, x, y, radius)) {
+      const spot = this.spots[v.spot];
+      const [vx, vy] = spot.points[v.index];
+      const distance = Math.hypot(vx - x, vy - y);
+      if (distance > radius) continue;
+      const current = nearest.get(spot.spotId);
+      if (!current || distance < current.distance) {
+        nearest.set(spot.spotId, { ref: { spotId: spot.spotId, index: v.index }, distance });
+      }
+    }
+
+    return [...nearest.values()].map((entry) => entry.ref);
+  }
+
+  /**
+   * Closest point on the edges of each spot within the radius.
+   */
+  edgesNear(x: number, y: number, radius: number): SnapResult[] {
+    const nearest = new Map<string, SnapResult>();
+
+    for (const e of this.query(this.edgeCells, x, y, radius)) {
+      const spot = this.spots[e.spot];
+      const [ax, ay] = spot.points[e.index];
+      const [bx, by] = spot.points[(e.index + 1) % spot.points.length];
+      const [px, py] = projectOntoSegment(x, y, ax, ay, bx, by);
+      const distance = Math.hypot(px - x, py - y);
+      if (distance > radius) continue;
+      const current = nearest.get(spot.spotId);
+      if (!current || distance < current.distance) {
+        nearest.set(spot.spotId, { x: px, y: py, kind: 'edge', spotId: spot.spotId, index: e.index, distance });
+      }
+    }
+
+    return [...nearest.values()];
+  }
+}
+
+/**
+ * Closest point to (x, y) on segment a-b.
+ */
+export function projectOntoSegment(x: number, y: number, ax: number, ay: number, bx: number, by: number): Pair {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return [ax, ay];
+  const t = Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSq));
+  return [ax + t * dx, ay + t * dy];
+}
+
+// ============================================================================
+// SHARED VERTICES
+// ============================================================================
+
+/**
+ * For each vertex of an edited spot, the neighbor vertices that coincide
+ * with it. Moving the vertex should move these with it.
+ *
+ * @param points - Vertices of the edited spot
+ * @param neighbors - Index built from the other spots on the micrograph
+ * @param tolerance - Maximum distance (image px) for two vertices to count as shared
+ */
+export function findSharedVertices(points: Pair[], neighbors: SnapIndex, tolerance: number): VertexRef[][] {
+  return points.map(([x, y]) => neighbors.verticesNear(x, y, tolerance));
+}
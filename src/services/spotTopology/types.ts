@@ -0,0 +1,80 @@
+/**
+ * Spot Topology Types
+ *
+ * Types for topology-aware spot editing: snapping to neighboring spots,
+ * vertices shared between adjacent polygons, and gap/overlap cleanup.
+ */
+
+import type { Pair } from '@/services/grainDetection/geometry';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Snap radius in screen pixels (divided by zoom to get image pixels) */
+export const SNAP_RADIUS_SCREEN_PX = 10;
+
+/** Vertices of two spots closer than this (image px) are treated as one shared vertex */
+export const SHARED_VERTEX_TOLERANCE = 0.5;
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Vertices of a line or polygon spot, in image pixels.
+ * Polygon rings are stored open (the first vertex is not repeated at the end),
+ * the same way spot.points stores them.
+ */
+export interface TopologySpot {
+  spotId: string;
+  points: Pair[];
+  closed: boolean;
+}
+
+/** A vertex of a spot, by position in its points array */
+export interface VertexRef {
+  spotId: string;
+  index: number;
+}
+
+// ============================================================================
+// SNAPPING
+// ============================================================================
+
+export interface SnapResult {
+  /** Snapped position in image pixels */
+  x: number;
+  y: number;
+  /** Whether the position is an existing vertex or a point on an edge */
+  kind: 'vertex' | 'edge';
+  spotId: string;
+  /** Vertex index, or index of the edge's start vertex */
+  index: number;
+  /** Distance from the query position */
+  distance: number;
+}
+
+// ============================================================================
+// CLEANUP
+// ============================================================================
+
+export interface TopologyCleanupOptions {
+  /** Gaps narrower than this (image px) are closed */
+  tolerance: number;
+}
+
+export const DEFAULT_TOPOLOGY_CLEANUP_OPTIONS: TopologyCleanupOptions = {
+  tolerance: 3,
+};
+
+export interface TopologyCleanupResult {
+  /** New vertices for every spot that changed */
+  points: Map<string, Pair[]>;
+  /** Vertices moved onto a neighbor's vertex */
+  verticesSnapped: number;
+  /** Vertices added to edges so that neighbors share them */
+  verticesInserted: number;
+  /** Overlapping spot pairs that were trimmed */
+  overlapsRemoved: number;
+}
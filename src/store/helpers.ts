@@ -11,6 +11,7 @@ import {
   SampleMetadata,
   MicrographMetadata,
   MineralogyType,
+  RotationSeries,
   Spot,
 } from '@/types/project-types';
 import type { PresetData } from '@/types/preset-types';
@@ -308,6 +309,40 @@ export function isPointPlacedMicrograph(micrograph: MicrographMetadata): boolean
   return micrograph.placementType === 'point' || micrograph.pointInParent != null;
 }
 
+/**
+ * Name for a new spot from a naming pattern such as "Grain {n}", numbered one
+ * past the highest number already used with that pattern, so names stay
+ * unique after spots are deleted
+ */
+export function getNextSpotName(spots: Spot[], namingPattern: string): string {
+  const [prefix, suffix = ''] = namingPattern.split('{n}');
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^${escape(prefix)}(\\d+)${escape(suffix)}$`);
+
+  let highest = 0;
+  for (const spot of spots) {
+    const match = spot.name?.match(pattern);
+    if (match) highest = Math.max(highest, parseInt(match[1], 10));
+  }
+  return namingPattern.replace('{n}', String(highest + 1));
+}
+
+/**
+ * Create an empty rotation series: stage rotation, with the micrograph's own
+ * image taken at 0° and no overlay shown
+ */
+export function createRotationSeries(): RotationSeries {
+  return {
+    mode: 'stage',
+    referenceAngle: 0,
+    images: [],
+    maps: null,
+    displayMap: null,
+    opacity: 0.7,
+    createdAt: new Date().toISOString(),
+  };
+}
+
 /**
  * Get all reference micrographs (no parentID)
  */
@@ -0,0 +1,239 @@
+/**
+ * Undo History Labels
+ *
+ * Gives each undo step a readable label. Store actions listed in
+ * HISTORY_LABELS are wrapped so every project change they make carries the
+ * action's label in `historyLabel`; the temporal middleware snapshots that
+ * field along with the rest of the state, so each past/future state knows
+ * which action produced it.
+ *
+ * Only the synchronous part of an action is labeled. Project changes from
+ * unlabeled actions or direct setState calls get a null label.
+ */
+
+import type { StateCreator, StoreApi } from 'zustand';
+import type { AppState } from './useAppStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionKey = {
+  [K in keyof AppState]: AppState[K] extends (...args: any[]) => unknown ? K : never;
+}[keyof AppState];
+
+type LabelBuilder<K extends ActionKey> = (
+  state: AppState,
+  ...args: Parameters<AppState[K]>
+) => string;
+
+type HistoryLabelBuilders = { [K in ActionKey]?: LabelBuilder<K> };
+
+/** The store creator as seen inside devtools(persist(temporal(...))) */
+type AppStateCreator = StateCreator<
+  AppState,
+  [['zustand/devtools', never], ['zustand/persist', unknown], ['temporal', unknown]],
+  []
+>;
+
+/** Number of undo steps kept */
+export const HISTORY_LIMIT = 50;
+
+// ============================================================================
+// LABEL HELPERS
+// ============================================================================
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function micrographName(state: AppState, id: string): string {
+  const name = state.micrographIndex.get(id)?.name;
+  return name ? `'${name}'` : 'micrograph';
+}
+
+function spotName(state: AppState, id: string): string {
+  const name = state.spotIndex.get(id)?.name;
+  return name ? `'${name}'` : 'spot';
+}
+
+function presetName(state: AppState, id: string): string {
+  const name = state.getPresetById(id)?.name;
+  return name ? `'${name}'` : 'preset';
+}
+
+// ============================================================================
+// ACTION LABELS
+// ============================================================================
+
+/** Labels for the store actions that change project data */
+export const HISTORY_LABELS: HistoryLabelBuilders = {
+  // Project
+  loadProject: () => 'Open project',
+  closeProject: () => 'Close project',
+
+  // Datasets, samples, micrographs
+  addDataset: (_s, dataset) => `Add dataset '${dataset.name}'`,
+  updateDataset: () => 'Edit dataset',
+  deleteDataset: () => 'Delete dataset',
+  reorderDatasets: () => 'Reorder datasets',
+  addSample: (_s, _datasetId, sample) => `Add sample '${sample.label || sample.sampleID || 'sample'}'`,
+  updateSample: () => 'Edit sample',
+  deleteSample: () => 'Delete sample',
+  reorderSamples: () => 'Reorder samples',
+  addMicrograph: (_s, _sampleId, micrograph) => `Add micrograph '${micrograph.name}'`,
+  updateMicrographMetadata: (s, id) => `Edit micrograph ${micrographName(s, id)}`,
+  updateMicrographScaleWithCascade: (s, id) => `Rescale micrograph ${micrographName(s, id)}`,
+  deleteMicrograph: (s, id) => `Delete micrograph ${micrographName(s, id)}`,
+  reorderMicrographs: () => 'Reorder micrographs',
+  linkSiblingImages: () => 'Link XPL/PPL siblings',
+  unlinkSiblingImages: () => 'Unlink XPL/PPL siblings',
+
+  // Spots
+  addSpot: (_s, _micrographId, spot) => `Add spot '${spot.name}'`,
+  addSpots: (_s, _micrographId, spots) => `Add ${plural(spots.length, 'spot')}`,
+  updateSpotData: (s, id) => `Edit spot ${spotName(s, id)}`,
+  batchUpdateSpots: (_s, spotIds) => `Edit ${plural(spotIds.length, 'spot')}`,
+  deleteSpot: (s, id) => `Delete spot ${spotName(s, id)}`,
+  batchDeleteSpots: (_s, spotIds) => `Delete ${plural(spotIds.length, 'spot')}`,
+  clearAllSpots: (s, micrographId) => `Delete all spots on ${micrographName(s, micrographId)}`,
+  mergeSpots: (_s, spotIds) => `Merge ${plural(spotIds.length, 'spot')}`,
+  splitSpot: (s, spotId) => `Split spot ${spotName(s, spotId)}`,
+  subtractSpots: (s, targetSpotId) => `Subtract spots from ${spotName(s, targetSpotId)}`,
+  intersectSpots: (s, targetSpotId) => `Intersect ${spotName(s, targetSpotId)} with spots`,
+  addSpotHole: (s, spotId) => `Cut hole in ${spotName(s, spotId)}`,
+  cleanSpotTopology: (_s, spotIds) => `Close gaps and overlaps between ${plural(spotIds.length, 'spot')}`,
+  saveEditingGeometry: (_s, linkedGeometries) => {
+    const linked = linkedGeometries ? Object.keys(linkedGeometries).length : 0;
+    return linked > 0 ? `Edit shared geometry of ${plural(linked + 1, 'spot')}` : 'Edit spot geometry';
+  },
+  quickEditDeleteCurrent: () => 'Delete spot',
+
+  // Presets
+  createPreset: (_s, preset) => `Create preset '${preset.name}'`,
+  updatePreset: (s, id) => `Edit preset ${presetName(s, id)}`,
+  deletePreset: (s, id) => `Delete preset ${presetName(s, id)}`,
+  applyPresetToSpot: (s, presetId, spotId) => `Apply preset ${presetName(s, presetId)} to ${spotName(s, spotId)}`,
+  applyPresetToSpots: (s, presetId, spotIds) =>
+    `Apply preset ${presetName(s, presetId)} to ${plural(spotIds.length, 'spot')}`,
+
+  // Groups and tags
+  createGroup: (_s, group) => `Create group '${group.name}'`,
+  updateGroup: () => 'Edit group',
+  deleteGroup: () => 'Delete group',
+  addMicrographToGroup: () => 'Add micrograph to group',
+  removeMicrographFromGroup: () => 'Remove micrograph from group',
+  createTag: (_s, tag) => `Create tag '${tag.name}'`,
+  updateTag: () => 'Edit tag',
+  deleteTag: () => 'Delete tag',
+  addTagToSpot: () => 'Tag spot',
+  removeTagFromSpot: () => 'Untag spot',
+
+  // Sketches, element maps and rotation series
+  addSketchLayer: () => 'Add sketch layer',
+  removeSketchLayer: () => 'Delete sketch layer',
+  renameSketchLayer: () => 'Rename sketch layer',
+  addSketchStroke: () => 'Draw sketch stroke',
+  removeSketchStroke: () => 'Erase sketch stroke',
+  addSketchText: () => 'Add sketch text',
+  removeSketchText: () => 'Delete sketch text',
+  updateSketchText: () => 'Edit sketch text',
+  addElementMap: (_s, _micrographId, layer) => `Add element map '${layer.element}'`,
+  updateElementMap: () => 'Edit element map',
+  removeElementMap: () => 'Delete element map',
+  updateRotationSeries: () => 'Edit rotation series',
+  removeRotationSeries: () => 'Delete rotation series',
+  addRotationSeriesImage: (_s, _micrographId, image) => `Add rotation series image at ${image.angle}°`,
+  updateRotationSeriesImage: () => 'Edit rotation series image',
+  removeRotationSeriesImage: () => 'Delete rotation series image',
+
+  // Colors
+  setProjectMineralColors: () => 'Change project mineral colors',
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/** Label of the outermost labeled action currently running */
+let activeLabel: string | null = null;
+
+/**
+ * Wrap the store creator so labeled actions tag their project changes.
+ * Goes inside the temporal middleware, so the label is part of each
+ * snapshot it records.
+ */
+export function withHistoryLabels(creator: AppStateCreator): AppStateCreator {
+  return (set, get, api) => {
+    // Attach the active label (or clear a stale one) whenever the project changes
+    const label = (partial: unknown): unknown => {
+      return (state: AppState) => {
+        const next = (typeof partial === 'function' ? partial(state) : partial) as Partial<AppState>;
+        if (next && next !== state && 'project' in next && next.project !== state.project) {
+          return { ...next, historyLabel: activeLabel };
+        }
+        return next;
+      };
+    };
+
+    const labeledSet = ((partial: unknown, replace?: boolean) =>
+      (set as (p: unknown, r?: boolean) => void)(label(partial), replace)) as typeof set;
+
+    const apiSetState = api.setState as (p: unknown, r?: boolean) => void;
+    (api as StoreApi<AppState>).setState = ((partial: unknown, replace?: boolean) =>
+      apiSetState(label(partial), replace)) as StoreApi<AppState>['setState'];
+
+    const state = creator(labeledSet, get, api);
+
+    for (const key of Object.keys(HISTORY_LABELS) as ActionKey[]) {
+      const action = state[key] as (...args: unknown[]) => unknown;
+      const builder = HISTORY_LABELS[key] as (state: AppState, ...args: unknown[]) => string;
+      (state as unknown as Record<string, unknown>)[key] = (...args: unknown[]) => {
+        if (activeLabel !== null) return action(...args);
+        activeLabel = builder(get(), ...args);
+        try {
+          return action(...args);
+        } finally {
+          activeLabel = null;
+        }
+      };
+    }
+
+    return state;
+  };
+}
+
+// ============================================================================
+// HISTORY LIST
+// ============================================================================
+
+/** Label shown for project changes no labeled action made */
+const UNLABELED_STEP = 'Edit project';
+
+/** A state in the undo history, labeled by the action that produced it */
+export interface HistoryEntry {
+  label: string;
+  /** Steps from the current state: negative to undo, positive to redo */
+  offset: number;
+}
+
+/**
+ * List the undo history oldest first: past states, the current state
+ * (offset 0), then redo states.
+ */
+export function getHistoryEntries(
+  pastStates: Partial<AppState>[],
+  futureStates: Partial<AppState>[],
+  current: Partial<AppState>
+): HistoryEntry[] {
+  const labelOf = (state: Partial<AppState>) =>
+    state.historyLabel || (state.project === null ? 'No project' : UNLABELED_STEP);
+
+  const past = pastStates.map((state, i) => ({ label: labelOf(state), offset: i - pastStates.length }));
+  // Redo pops from the end of futureStates, so the nearest future state is last
+  const future = futureStates
+    .map((state, i) => ({ label: labelOf(state), offset: futureStates.length - i }))
+    .reverse();
+
+  return [...past, { label: labelOf(current), offset: 0 }, ...future];
+}
@@ -4,9 +4,12 @@
  * Barrel export for all store-related modules
  */
 
-export { useAppStore, useTemporalStore } from './useAppStore';
+export { useAppStore, useTemporalStore, runAsHistoryStep } from './useAppStore';
 export type { DrawingTool, SidebarTab } from './useAppStore';
 
+export { getHistoryEntries, HISTORY_LABELS } from './history';
+export type { HistoryEntry } from './history';
+
 export {
   findDatasetById,
   findSampleById,
@@ -20,4 +23,5 @@ export {
   getSampleParentDataset,
   getChildMicrographs,
   getReferenceMicrographs,
+  getNextSpotName,
 } from './helpers';
@@ -11,6 +11,7 @@
 import { create } from 'zustand';
 import { devtools, persist, createJSONStorage, StateStorage } from 'zustand/middleware';
 import { temporal } from 'zundo';
+import { withHistoryLabels, HISTORY_LIMIT } from './history';
 
 /**
  * Custom storage adapter that uses Electron IPC to persist state to a file
@@ -96,6 +97,9 @@ import {
   SketchLayer,
   SketchStroke,
   SketchText,
+  ElementMapLayer,
+  RotationSeries,
+  RotationSeriesImage,
 } from '@/types/project-types';
 import * as turf from '@turf/turf';
 import polygonClipping from 'polygon-clipping';
@@ -112,6 +116,7 @@ import type {
   PresetKeyBindings,
 } from '@/types/preset-types';
 import type { MineralColorEntry, SpotColorMode, SpotLabelMode } from '@/types/mineral-color-types';
+import type { DetectionPreset } from '@/services/grainDetection/types';
 import { DEFAULT_MINERAL_COLORS } from '@/constants/mineralColorDefaults';
 import { PRESET_FEATURE_FIELDS } from '@/types/preset-types';
 import {
@@ -124,18 +129,25 @@ import {
   getDescendantMicrographs,
   isPointPlacedMicrograph,
   mergePresetIntoSpot,
+  createRotationSeries,
 } from './helpers';
 import type { TiledViewerRef } from '@/components/TiledViewer';
+import type { InterceptKind, LineInterceptSession } from '@/services/grainAnalysis/types';
+import type { BoundaryNetwork } from '@/services/grainBoundaries/types';
+import { cleanSharedBoundaries, getTopologySpots, type TopologyCleanupResult } from '@/services/spotTopology';
+import { applySpotShape, clipSpotShape, multiPolygonToSpotShape, pointsToRing, spotToMultiPolygon } from '@/utils/spotPolygons';
+import type { ClipMultiPolygon } from '@/services/grainDetection/geometry';
+import { DEFAULT_MAGIC_WAND_OPTIONS, type MagicWandOptions } from '@/services/magicWand/types';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-export type DrawingTool = 'select' | 'point' | 'line' | 'polygon' | 'measure' | 'sketch-pen' | 'sketch-marker' | 'sketch-eraser' | 'sketch-text' | null;
+export type DrawingTool = 'select' | 'point' | 'line' | 'polygon' | 'measure' | 'segment' | 'magic-wand' | 'sketch-pen' | 'sketch-marker' | 'sketch-eraser' | 'sketch-text' | null;
 export type SidebarTab = 'samples' | 'groups' | 'spots' | 'tags';
 export type ThemeMode = 'dark' | 'light' | 'system';
 
-interface AppState {
+export interface AppState {
   // ========== PROJECT STATE ==========
   project: ProjectMetadata | null;
   projectFilePath: string | null;
@@ -158,6 +170,7 @@ interface AppState {
 
   // ========== SPLIT MODE STATE ==========
   splitModeSpotId: string | null; // When set, user is drawing a split line on this spot
+  holeModeSpotId: string | null; // When set, user is drawing a hole to cut out of this spot
 
   // ========== VIEWER STATE ==========
   activeTool: DrawingTool;
@@ -172,6 +185,9 @@ interface AppState {
   showArchivedSpots: boolean;
   showRulers: boolean;
   spotOverlayOpacity: number;
+  topologySnapping: boolean; // Snap to neighboring spots and keep shared vertices together while drawing/editing
+  livewireTracing: boolean; // Polygon/line edges follow image edges between clicks (intelligent scissors)
+  magicWandOptions: MagicWandOptions; // Tolerance, smoothing and sibling sampling for the magic wand tool
   viewerRef: React.RefObject<TiledViewerRef> | null;
 
   // ========== UI STATE (persisted) ==========
@@ -219,6 +235,18 @@ interface AppState {
   /** Indices of points selected via lasso (for batch operations) */
   selectedPointIndices: number[];
 
+  // ========== LINE INTERCEPT MODE STATE ==========
+  /** Active line-intercept grain size session (null = mode inactive) */
+  lineInterceptSession: LineInterceptSession | null;
+  /** Index of the test line being measured */
+  currentTestLineIndex: number;
+  /** Marker position along the current test line (0 = start, 1 = end) */
+  lineInterceptCursor: number;
+
+  // ========== GRAIN BOUNDARY NETWORK STATE ==========
+  /** Boundary network shown over its micrograph (null = no overlay) */
+  grainBoundaryNetwork: BoundaryNetwork | null;
+
   // ========== QUICK EDIT MODE STATE ==========
   /** Whether Quick Edit mode is active */
   quickEditMode: boolean;
@@ -282,6 +310,8 @@ interface AppState {
     opacity: number;
     namingPattern: string;
   } | null;
+  /** User grain detection presets (e.g. saved from a validated parameter sweep) */
+  grainDetectionPresets: DetectionPreset[];
 
   // ========== MINERAL COLOR STATE ==========
   /** Current spot color mode: 'spot-color' (default) or 'mineral-color' */
@@ -293,6 +323,11 @@ interface AppState {
   micrographIndex: Map<string, MicrographMetadata>;
   spotIndex: Map<string, Spot>;
 
+  // ========== UNDO HISTORY STATE ==========
+  // Label of the action that produced the current project state (see history.ts).
+  // Snapshotted with each undo step; not persisted.
+  historyLabel: string | null;
+
   // ========== PROJECT ACTIONS ==========
   loadProject: (project: ProjectMetadata, filePath: string | null) => void;
   closeProject: () => void;
@@ -317,6 +352,7 @@ interface AppState {
 
   // ========== SPLIT MODE ACTIONS ==========
   setSplitModeSpotId: (spotId: string | null) => void;
+  setHoleModeSpotId: (spotId: string | null) => void;
 
   // ========== XPL/PPL SIBLING ACTIONS ==========
   /** Toggle between PPL (primary) and XPL (sibling) view */
@@ -364,6 +400,29 @@ interface AppState {
   /** Set whether the sketch text input overlay is active */
   setSketchTextInputActive: (active: boolean) => void;
 
+  // ========== ELEMENT MAP ACTIONS ==========
+  /** Add an element map layer to a micrograph (returns the new layer ID) */
+  addElementMap: (micrographId: string, layer: Omit<ElementMapLayer, 'id' | 'createdAt'>) => string;
+  /** Update display settings or metadata of an element map layer */
+  updateElementMap: (micrographId: string, layerId: string, updates: Partial<ElementMapLayer>) => void;
+  /** Remove an element map layer from a micrograph */
+  removeElementMap: (micrographId: string, layerId: string) => void;
+
+  // ========== ROTATION SERIES ACTIONS ==========
+  /** Update a micrograph's rotation series settings (creating the series if needed) */
+  updateRotationSeries: (
+    micrographId: string,
+    updates: Partial<Omit<RotationSeries, 'images' | 'createdAt'>>
+  ) => void;
+  /** Remove a micrograph's rotation series */
+  removeRotationSeries: (micrographId: string) => void;
+  /** Add an image to a micrograph's rotation series (returns the new image ID) */
+  addRotationSeriesImage: (micrographId: string, image: Omit<RotationSeriesImage, 'id'>) => string;
+  /** Update the angle or registration of a rotation series image */
+  updateRotationSeriesImage: (micrographId: string, imageId: string, updates: Partial<RotationSeriesImage>) => void;
+  /** Remove an image from a micrograph's rotation series */
+  removeRotationSeriesImage: (micrographId: string, imageId: string) => void;
+
   // ========== CRUD: DATASET ==========
   addDataset: (dataset: DatasetMetadata) => void;
   updateDataset: (id: string, updates: Partial<DatasetMetadata>) => void;
@@ -409,6 +468,14 @@ interface AppState {
   mergeSpots: (spotIds: string[]) => string | null;
   /** Split a polygon spot with a line, creating multiple spots */
   splitSpot: (spotId: string, splitLine: SimpleCoord[]) => string[] | null;
+  /** Cut other polygon spots out of a polygon spot (the cutting spots are kept) */
+  subtractSpots: (targetSpotId: string, cutterSpotIds: string[]) => boolean;
+  /** Reduce a polygon spot to its overlap with other polygon spots (the others are kept) */
+  intersectSpots: (targetSpotId: string, otherSpotIds: string[]) => boolean;
+  /** Cut a drawn ring out of a polygon spot as a hole */
+  addSpotHole: (spotId: string, ring: SimpleCoord[]) => boolean;
+  /** Close gaps and remove overlaps between adjacent polygon spots - single undo step */
+  cleanSpotTopology: (spotIds: string[], tolerance: number) => TopologyCleanupResult | null;
 
   /** Mark startup project validation as settled, unblocking the Viewer's initial load */
   setStartupValidationComplete: (value: boolean) => void;
@@ -505,6 +572,24 @@ interface AppState {
   /** Classify all selected points with a mineral (batch operation) */
   classifySelectedPoints: (mineral: string) => void;
 
+  // ========== LINE INTERCEPT MODE ACTIONS ==========
+  /** Enter line-intercept mode with a session of generated test lines */
+  enterLineInterceptMode: (session: LineInterceptSession) => void;
+  /** Exit line-intercept mode (discards unsaved marks) */
+  exitLineInterceptMode: () => void;
+  /** Mark an intersection on the current line (at the marker unless a position is given) */
+  addLineIntercept: (kind: InterceptKind, t?: number) => void;
+  /** Remove the most recent mark on the current line */
+  removeLastLineIntercept: () => void;
+  /** Move the marker along the current line */
+  setLineInterceptCursor: (t: number) => void;
+  /** Go to a test line, counting the line being left as measured */
+  goToTestLine: (index: number) => void;
+
+  // ========== GRAIN BOUNDARY NETWORK ACTIONS ==========
+  /** Show a boundary network overlay, or hide it (null) */
+  setGrainBoundaryNetwork: (network: BoundaryNetwork | null) => void;
+
   // ========== QUICK EDIT MODE ACTIONS ==========
   /** Enter Quick Edit mode with spots from current micrograph */
   enterQuickEditMode: (
@@ -531,6 +616,10 @@ interface AppState {
   setLastPointCountSettings: (settings: AppState['lastPointCountSettings']) => void;
   /** Update last used grain detection settings */
   setLastGrainDetectionSettings: (settings: AppState['lastGrainDetectionSettings']) => void;
+  /** Add a user grain detection preset (replaces one with the same id) */
+  saveGrainDetectionPreset: (preset: DetectionPreset) => void;
+  /** Delete a user grain detection preset */
+  deleteGrainDetectionPreset: (id: string) => void;
 
   // ========== CRUD: GROUP ==========
   createGroup: (group: GroupMetadata) => void;
@@ -557,13 +646,17 @@ interface AppState {
   setShowRecursiveSpots: (show: boolean) => void;
   setShowArchivedSpots: (show: boolean) => void;
   setShowRulers: (show: boolean) => void;
+  setTopologySnapping: (enabled: boolean) => void;
+  setLivewireTracing: (enabled: boolean) => void;
+  setMagicWandOptions: (options: Partial<MagicWandOptions>) => void;
   setSpotOverlayOpacity: (opacity: number) => void;
   setViewerRef: (ref: React.RefObject<TiledViewerRef> | null) => void;
 
   // ========== GEOMETRY EDITING ACTIONS ==========
   startEditingSpot: (spotId: string, geometry: Array<{ X: number; Y: number }>) => void;
   updateEditingGeometry: (geometry: Array<{ X: number; Y: number }>) => void;
-  saveEditingGeometry: () => void;
+  /** Save the edited spot, plus any neighbor spots whose shared vertices moved with it */
+  saveEditingGeometry: (linkedGeometries?: Record<string, SimpleCoord[]>) => void;
   cancelEditingGeometry: () => void;
 
   // ========== UI ACTIONS ==========
@@ -591,7 +684,7 @@ export const useAppStore = create<AppState>()(
   devtools(
     persist(
       temporal(
-        (set, get) => ({
+        withHistoryLabels((set, get) => ({
           // ========== INITIAL STATE ==========
           project: null,
           projectFilePath: null,
@@ -607,6 +700,7 @@ export const useAppStore = create<AppState>()(
           spotLassoToolActive: false,
 
           splitModeSpotId: null,
+          holeModeSpotId: null,
 
           activeTool: 'select',
           editingSpotId: null,
@@ -620,6 +714,9 @@ export const useAppStore = create<AppState>()(
           showArchivedSpots: false,
           showRulers: true,
           spotOverlayOpacity: 0.7,
+          topologySnapping: false,
+          livewireTracing: false,
+          magicWandOptions: DEFAULT_MAGIC_WAND_OPTIONS,
           viewerRef: null,
 
           sidebarTab: 'samples',
@@ -672,6 +769,14 @@ export const useAppStore = create<AppState>()(
           lassoToolActive: false,
           selectedPointIndices: [],
 
+          // Line Intercept mode state
+          lineInterceptSession: null,
+          currentTestLineIndex: -1,
+          lineInterceptCursor: 0,
+
+          // Grain boundary network overlay
+          grainBoundaryNetwork: null,
+
           // Quick Edit mode state
           quickEditMode: false,
           quickEditSpotIds: [],
@@ -698,6 +803,7 @@ export const useAppStore = create<AppState>()(
           // Generation settings (persisted defaults)
           lastPointCountSettings: null,
           lastGrainDetectionSettings: null,
+          grainDetectionPresets: [],
 
           // Grain analysis selection state (synced to project on save)
           grainAnalysisSpotFilter: 'all' as const,
@@ -710,6 +816,8 @@ export const useAppStore = create<AppState>()(
           micrographIndex: new Map(),
           spotIndex: new Map(),
 
+          historyLabel: null,
+
           // ========== PROJECT ACTIONS ==========
 
           loadProject: (project, filePath) => {
@@ -733,6 +841,7 @@ export const useAppStore = create<AppState>()(
               // Restore grain analysis selection from project
               grainAnalysisSpotFilter: project.grainAnalysisSpotFilter || 'all',
               grainAnalysisSelectedSpotIds: project.grainAnalysisSelectedSpotIds || [],
+              grainBoundaryNetwork: null,
               micrographIndex,
               spotIndex,
             });
@@ -757,6 +866,7 @@ export const useAppStore = create<AppState>()(
             siblingViewActive: false,
             siblingCachedZoom: null,
             siblingCachedPosition: null,
+            grainBoundaryNetwork: null,
             micrographIndex: new Map(),
             spotIndex: new Map(),
           }),
@@ -935,6 +1045,7 @@ export const useAppStore = create<AppState>()(
 
           // ========== SPLIT MODE ACTIONS ==========
           setSplitModeSpotId: (spotId) => set({ splitModeSpotId: spotId }),
+          setHoleModeSpotId: (spotId) => set({ holeModeSpotId: spotId }),
 
           // ========== XPL/PPL SIBLING ACTIONS ==========
 
@@ -1414,6 +1525,176 @@ export const useAppStore = create<AppState>()(
             set({ sketchTextInputActive: active });
           },
 
+          // ========== ELEMENT MAP ACTIONS ==========
+
+          addElementMap: (micrographId, layer) => {
+            const layerId = `element-map-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+            const newLayer: ElementMapLayer = {
+              ...layer,
+              id: layerId,
+              createdAt: new Date().toISOString(),
+            };
+
+            set((state) => {
+              if (!state.project) return state;
+
+              const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+                if (!m.elementMaps) {
+                  m.elementMaps = [];
+                }
+                m.elementMaps.push(newLayer);
+              });
+
+              if (!updatedProject) return state;
+
+              return {
+                project: updatedProject,
+                isDirty: true,
+                micrographIndex: buildMicrographIndex(updatedProject),
+              };
+            });
+
+            return layerId;
+          },
+
+          updateElementMap: (micrographId, layerId, updates) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              const layer = m.elementMaps?.find((l) => l.id === layerId);
+              if (layer) {
+                // ID and import timestamp are fixed for the lifetime of the layer
+                Object.assign(layer, updates, { id: layer.id, createdAt: layer.createdAt });
+              }
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
+          removeElementMap: (micrographId, layerId) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              if (m.elementMaps) {
+                m.elementMaps = m.elementMaps.filter((l) => l.id !== layerId);
+              }
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
+          // ========== ROTATION SERIES ACTIONS ==========
+
+          updateRotationSeries: (micrographId, updates) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              if (!m.rotationSeries) {
+                m.rotationSeries = createRotationSeries();
+              }
+              const { images, createdAt } = m.rotationSeries;
+              Object.assign(m.rotationSeries, updates, { images, createdAt });
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
+          removeRotationSeries: (micrographId) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              m.rotationSeries = null;
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
+          addRotationSeriesImage: (micrographId, image) => {
+            const imageId = `rotation-image-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+            set((state) => {
+              if (!state.project) return state;
+
+              const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+                if (!m.rotationSeries) {
+                  m.rotationSeries = createRotationSeries();
+                }
+                m.rotationSeries.images.push({ ...image, id: imageId });
+              });
+
+              if (!updatedProject) return state;
+
+              return {
+                project: updatedProject,
+                isDirty: true,
+                micrographIndex: buildMicrographIndex(updatedProject),
+              };
+            });
+
+            return imageId;
+          },
+
+          updateRotationSeriesImage: (micrographId, imageId, updates) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              const image = m.rotationSeries?.images.find((i) => i.id === imageId);
+              if (image) {
+                Object.assign(image, updates, { id: image.id });
+              }
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
+          removeRotationSeriesImage: (micrographId, imageId) => set((state) => {
+            if (!state.project) return state;
+
+            const updatedProject = updateMicrograph(state.project, micrographId, (m) => {
+              if (m.rotationSeries) {
+                m.rotationSeries.images = m.rotationSeries.images.filter((i) => i.id !== imageId);
+              }
+            });
+
+            if (!updatedProject) return state;
+
+            return {
+              project: updatedProject,
+              isDirty: true,
+              micrographIndex: buildMicrographIndex(updatedProject),
+            };
+          }),
+
           // ========== CRUD: DATASET ==========
 
           addDataset: (dataset) => set((state) => {
@@ -2061,10 +2342,7 @@ export const useAppStore = create<AppState>()(
             }
 
             // Filter to only polygon spots
-            const polygonSpots = spots.filter(s => {
-              const points = s.points || [];
-              return points.length >= 3; // Polygons need at least 3 points
-            });
+            const polygonSpots = spots.filter(s => spotToMultiPolygon(s).length > 0);
 
             if (polygonSpots.length < 2) {
               console.warn('[Store] Need at least 2 polygon spots to merge');
@@ -2072,69 +2350,17 @@ export const useAppStore = create<AppState>()(
             }
 
             try {
-              // Convert spots to Turf polygons
-              const turfPolygons = polygonSpots.map(spot => {
-                const points = spot.points || [];
-                const coords = points.map(p => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0] as [number, number]);
-                // Close the ring if not already closed
-                if (coords.length > 0) {
-                  const first = coords[0];
-                  const last = coords[coords.length - 1];
-                  if (first[0] !== last[0] || first[1] !== last[1]) {
-                    coords.push([first[0], first[1]]);
-                  }
-                }
-                return turf.polygon([coords]);
-              });
-
-              // Try union first - works well for overlapping polygons
-              let merged = turfPolygons[0];
-              let useConvexHull = false;
-
-              for (let i = 1; i < turfPolygons.length; i++) {
-                const result = turf.union(turf.featureCollection([merged, turfPolygons[i]]));
-                if (result && result.geometry.type === 'Polygon') {
-                  merged = result as ReturnType<typeof turf.polygon>;
-                } else if (result && result.geometry.type === 'MultiPolygon') {
-                  // Non-overlapping polygons produce MultiPolygon - use convex hull instead
-                  useConvexHull = true;
-                  break;
-                }
-              }
-
-              // If polygons don't overlap, use convex hull to create enclosing polygon
-              if (useConvexHull) {
-                // Collect all points from all polygons
-                const allPoints: [number, number][] = [];
-                for (const poly of turfPolygons) {
-                  const coords = poly.geometry.coordinates[0];
-                  for (const coord of coords) {
-                    allPoints.push([coord[0], coord[1]]);
-                  }
-                }
-
-                // Create convex hull from all points
-                const points = turf.featureCollection(
-                  allPoints.map(p => turf.point(p))
-                );
-                const hull = turf.convex(points);
-
-                if (hull && hull.geometry.type === 'Polygon') {
-                  merged = hull as ReturnType<typeof turf.polygon>;
-                } else {
-                  console.warn('[Store] Could not create convex hull');
-                  return null;
-                }
+              // Union of the spots' polygons (holes included)
+              const shapes = polygonSpots.map(spotToMultiPolygon);
+              // Spots that do not touch stay separate parts of one multipolygon spot
+              const merged = polygonClipping.union(shapes[0], ...shapes.slice(1)) as ClipMultiPolygon;
+
+              const mergedShape = multiPolygonToSpotShape(merged);
+              if (!mergedShape.points || mergedShape.points.length < 3) {
+                console.warn('[Store] Merged shape is empty');
+                return null;
               }
 
-              // Extract coordinates from merged polygon
-              const mergedCoords = merged.geometry.coordinates[0];
-              // Remove closing point (last == first)
-              const newPoints: SimpleCoord[] = mergedCoords.slice(0, -1).map(coord => ({
-                X: coord[0],
-                Y: coord[1],
-              }));
-
               // Create merged spot with properties from first spot
               const firstSpot = polygonSpots[0];
               const newSpotId = crypto.randomUUID();
@@ -2143,7 +2369,7 @@ export const useAppStore = create<AppState>()(
                 name: `Merged (${polygonSpots.length} spots)`,
                 color: firstSpot.color,
                 opacity: firstSpot.opacity,
-                points: newPoints,
+                ...mergedShape,
                 geometryType: 'Polygon',
                 modifiedTimestamp: Date.now(),
                 mergedFrom: spotIds,
@@ -2326,8 +2552,8 @@ export const useAppStore = create<AppState>()(
               // This works with raw pixel coordinates (no geographic assumptions)
               // polygon-clipping expects: Polygon = Ring[], Ring = [number, number][]
               const result = polygonClipping.difference(
-                [coords],          // subject polygon (array of rings, first is exterior)
-                [cuttingPolygon]   // clip polygon (the cutting line buffer)
+                spotToMultiPolygon(spot),  // subject polygons (array of rings, first is exterior)
+                [cuttingPolygon]           // clip polygon (the cutting line buffer)
               );
 
               console.log('[Store] polygon-clipping result:', result);
@@ -2350,13 +2576,10 @@ export const useAppStore = create<AppState>()(
                 const exteriorRing = poly[0];
                 if (!exteriorRing || exteriorRing.length < 4) continue; // Need at least 3 points + closing
 
-                // Remove closing point and convert to SimpleCoord
-                const newPoints: SimpleCoord[] = exteriorRing.slice(0, -1).map(coord => ({
-                  X: coord[0],
-                  Y: coord[1],
-                }));
+                // Remove closing points and convert to SimpleCoord (holes kept)
+                const { points: newPoints, holes: newHoles } = multiPolygonToSpotShape([poly]);
 
-                if (newPoints.length >= 3) {
+                if (newPoints && newPoints.length >= 3) {
                   const newId = crypto.randomUUID();
                   newSpotIds.push(newId);
                   newSpots.push({
@@ -2365,6 +2588,7 @@ export const useAppStore = create<AppState>()(
                     color: spot.color,
                     opacity: spot.opacity,
                     points: newPoints,
+                    holes: newHoles,
                     geometryType: 'polygon',
                     modifiedTimestamp: Date.now(),
                     splitFrom: spotId,
@@ -2411,6 +2635,135 @@ export const useAppStore = create<AppState>()(
             }
           },
 
+          subtractSpots: (targetSpotId, cutterSpotIds) => {
+            const state = get();
+            const target = state.spotIndex.get(targetSpotId);
+            if (!state.project || !target) return false;
+
+            const others = cutterSpotIds
+              .filter((id) => id !== targetSpotId)
+              .map((id) => state.spotIndex.get(id))
+              .filter((spot): spot is Spot => spot !== undefined)
+              .map(spotToMultiPolygon);
+
+            try {
+              const shape = clipSpotShape(target, 'difference', others);
+              if (!shape) {
+                console.warn('[Store] Subtraction would remove the whole spot');
+                return false;
+              }
+
+              const newProject = updateSpot(state.project, targetSpotId, (spot) => applySpotShape(spot, shape));
+              set({
+                project: newProject,
+                isDirty: true,
+                selectedSpotIds: [targetSpotId],
+                activeSpotId: targetSpotId,
+                spotIndex: buildSpotIndex(newProject),
+              });
+              return true;
+            } catch (error) {
+              console.error('[Store] Error computing difference of spots:', error);
+              return false;
+            }
+          },
+
+          intersectSpots: (targetSpotId, otherSpotIds) => {
+            const state = get();
+            const target = state.spotIndex.get(targetSpotId);
+            if (!state.project || !target) return false;
+
+            const others = otherSpotIds
+              .filter((id) => id !== targetSpotId)
+              .map((id) => state.spotIndex.get(id))
+              .filter((spot): spot is Spot => spot !== undefined)
+              .map(spotToMultiPolygon);
+
+            try {
+              const shape = clipSpotShape(target, 'intersection', others);
+              if (!shape) {
+                console.warn('[Store] Spots do not overlap');
+                return false;
+              }
+
+              const newProject = updateSpot(state.project, targetSpotId, (spot) => applySpotShape(spot, shape));
+              set({
+                project: newProject,
+                isDirty: true,
+                selectedSpotIds: [targetSpotId],
+                activeSpotId: targetSpotId,
+                spotIndex: buildSpotIndex(newProject),
+              });
+              return true;
+            } catch (error) {
+              console.error('[Store] Error computing intersection of spots:', error);
+              return false;
+            }
+          },
+
+          addSpotHole: (spotId, ring) => {
+            const state = get();
+            const spot = state.spotIndex.get(spotId);
+            if (!state.project || !spot || ring.length < 3) return false;
+
+            try {
+              const shape = clipSpotShape(spot, 'difference', [[[pointsToRing(ring)]]]);
+              if (!shape) {
+                console.warn('[Store] Hole would remove the whole spot');
+                return false;
+              }
+
+              const newProject = updateSpot(state.project, spotId, (target) => applySpotShape(target, shape));
+              set({
+                project: newProject,
+                isDirty: true,
+                spotIndex: buildSpotIndex(newProject),
+              });
+              return true;
+            } catch (error) {
+              console.error('[Store] Error cutting hole in spot:', error);
+              return false;
+            }
+          },
+
+          cleanSpotTopology: (spotIds, tolerance) => {
+            const state = get();
+            if (!state.project || spotIds.length < 2) return null;
+
+            const spots = spotIds
+              .map((id) => state.spotIndex.get(id))
+              .filter((spot): spot is Spot => spot !== undefined);
+
+            const result = cleanSharedBoundaries(getTopologySpots(spots), { tolerance });
+            if (result.points.size === 0) return result;
+
+            const newProject = structuredClone(state.project);
+            const modifiedTimestamp = Date.now();
+
+            for (const dataset of newProject.datasets || []) {
+              for (const sample of dataset.samples || []) {
+                for (const micrograph of sample.micrographs || []) {
+                  if (!micrograph.spots) continue;
+                  micrograph.spots = micrograph.spots.map((spot) => {
+                    const points = result.points.get(spot.id);
+                    return points
+                      ? { ...spot, points: points.map(([X, Y]) => ({ X, Y })), modifiedTimestamp }
+                      : spot;
+                  });
+                }
+              }
+            }
+
+            set({
+              project: newProject,
+              isDirty: true,
+              spotIndex: buildSpotIndex(newProject),
+            });
+
+            console.log(`[Store] Cleaned topology of ${result.points.size} spots`);
+            return result;
+          },
+
           // ========== CRUD: GROUP ==========
 
           createGroup: (group) => set((state) => {
@@ -2652,6 +3005,13 @@ export const useAppStore = create<AppState>()(
 
           setShowRulers: (show) => set({ showRulers: show }),
 
+          setTopologySnapping: (enabled) => set({ topologySnapping: enabled }),
+
+          setLivewireTracing: (enabled) => set({ livewireTracing: enabled }),
+
+          setMagicWandOptions: (options) =>
+            set((state) => ({ magicWandOptions: { ...state.magicWandOptions, ...options } })),
+
           setSpotOverlayOpacity: (opacity) => set({ spotOverlayOpacity: opacity }),
 
           setViewerRef: (ref) => set({ viewerRef: ref }),
@@ -2670,7 +3030,7 @@ export const useAppStore = create<AppState>()(
               editingGeometry: [...geometry],
             }),
 
-          saveEditingGeometry: () =>
+          saveEditingGeometry: (linkedGeometries) =>
             set((state) => {
               if (!state.project || !state.editingSpotId || !state.editingGeometry) {
                 return state;
@@ -2712,6 +3072,23 @@ export const useAppStore = create<AppState>()(
                 }
               }
 
+              // Update neighbors whose shared vertices moved with the edited spot
+              if (linkedGeometries && Object.keys(linkedGeometries).length > 0) {
+                const modifiedTimestamp = Date.now();
+                for (const dataset of newProject.datasets || []) {
+                  for (const sample of dataset.samples || []) {
+                    for (const micrograph of sample.micrographs || []) {
+                      if (!micrograph.spots) continue;
+                      micrograph.spots = micrograph.spots.map((spot) =>
+                        linkedGeometries[spot.id]
+                          ? { ...spot, points: linkedGeometries[spot.id], modifiedTimestamp }
+                          : spot
+                      );
+                    }
+                  }
+                }
+              }
+
               return {
                 project: newProject,
                 isDirty: true,
@@ -3439,6 +3816,105 @@ export const useAppStore = create<AppState>()(
             }, 10);
           },
 
+          // ========== LINE INTERCEPT MODE ACTIONS ==========
+
+          enterLineInterceptMode: (session) => {
+            // Set navigation guard so marks aren't lost by navigating away
+            const lineInterceptNavigationGuard = async (): Promise<boolean> => {
+              const { lineInterceptSession } = get();
+              if (lineInterceptSession && lineInterceptSession.marks.length > 0) {
+                const shouldExit = window.confirm(
+                  'You are measuring grain size with the line-intercept method.\n\n' +
+                  'Navigating away will discard intersections that have not been saved.\n\n' +
+                  'Do you want to exit line-intercept mode?'
+                );
+                if (!shouldExit) return false; // Block navigation
+              }
+
+              get().exitLineInterceptMode();
+              return true; // Allow navigation
+            };
+
+            set({
+              lineInterceptSession: session,
+              currentTestLineIndex: session.lines.length > 0 ? 0 : -1,
+              lineInterceptCursor: 0,
+              navigationGuard: lineInterceptNavigationGuard,
+            });
+          },
+
+          exitLineInterceptMode: () => {
+            set({
+              lineInterceptSession: null,
+              currentTestLineIndex: -1,
+              lineInterceptCursor: 0,
+              navigationGuard: null,
+            });
+          },
+
+          addLineIntercept: (kind, t) => {
+            const { lineInterceptSession, currentTestLineIndex, lineInterceptCursor } = get();
+            if (!lineInterceptSession || currentTestLineIndex < 0) return;
+
+            const line = lineInterceptSession.lines[currentTestLineIndex];
+            const position = Math.max(0, Math.min(1, t ?? lineInterceptCursor));
+
+            set({
+              lineInterceptSession: {
+                ...lineInterceptSession,
+                marks: [
+                  ...lineInterceptSession.marks,
+                  { id: crypto.randomUUID(), lineIndex: line.index, t: position, kind },
+                ],
+                measuredLineIndices: lineInterceptSession.measuredLineIndices.includes(line.index)
+                  ? lineInterceptSession.measuredLineIndices
+                  : [...lineInterceptSession.measuredLineIndices, line.index],
+              },
+              lineInterceptCursor: position,
+            });
+          },
+
+          removeLastLineIntercept: () => {
+            const { lineInterceptSession, currentTestLineIndex } = get();
+            if (!lineInterceptSession || currentTestLineIndex < 0) return;
+
+            const lineIndex = lineInterceptSession.lines[currentTestLineIndex].index;
+            const lastIndex = lineInterceptSession.marks.map((m) => m.lineIndex).lastIndexOf(lineIndex);
+            if (lastIndex < 0) return;
+
+            const marks = lineInterceptSession.marks.filter((_, i) => i !== lastIndex);
+            const previousOnLine = marks.filter((m) => m.lineIndex === lineIndex).pop();
+
+            set({
+              lineInterceptSession: { ...lineInterceptSession, marks },
+              lineInterceptCursor: previousOnLine?.t ?? 0,
+            });
+          },
+
+          setLineInterceptCursor: (t) => set({ lineInterceptCursor: Math.max(0, Math.min(1, t)) }),
+
+          goToTestLine: (index) => {
+            const { lineInterceptSession, currentTestLineIndex } = get();
+            if (!lineInterceptSession || index < 0 || index >= lineInterceptSession.lines.length) return;
+
+            // A line the user has moved past counts as measured even without intersections
+            const leaving = lineInterceptSession.lines[currentTestLineIndex]?.index;
+            const measuredLineIndices =
+              leaving === undefined || lineInterceptSession.measuredLineIndices.includes(leaving)
+                ? lineInterceptSession.measuredLineIndices
+                : [...lineInterceptSession.measuredLineIndices, leaving];
+
+            set({
+              lineInterceptSession: { ...lineInterceptSession, measuredLineIndices },
+              currentTestLineIndex: index,
+              lineInterceptCursor: 0,
+            });
+          },
+
+          // ========== GRAIN BOUNDARY NETWORK ACTIONS ==========
+
+          setGrainBoundaryNetwork: (network) => set({ grainBoundaryNetwork: network }),
+
           // ========== QUICK EDIT MODE ACTIONS ==========
 
           enterQuickEditMode: (filter, sortOrder) => {
@@ -3729,10 +4205,23 @@ export const useAppStore = create<AppState>()(
           setLastPointCountSettings: (settings) => set({ lastPointCountSettings: settings }),
 
           setLastGrainDetectionSettings: (settings) => set({ lastGrainDetectionSettings: settings }),
-        }),
+
+          saveGrainDetectionPreset: (preset) =>
+            set((state) => ({
+              grainDetectionPresets: [
+                ...state.grainDetectionPresets.filter((p) => p.id !== preset.id),
+                { ...preset, isBuiltIn: false },
+              ],
+            })),
+
+          deleteGrainDetectionPreset: (id) =>
+            set((state) => ({
+              grainDetectionPresets: state.grainDetectionPresets.filter((p) => p.id !== id),
+            })),
+        })),
         {
           // Temporal (undo/redo) configuration
-          limit: 50,
+          limit: HISTORY_LIMIT,
           equality: (a, b) => a.project === b.project,
         }
       ),
@@ -3756,6 +4245,9 @@ export const useAppStore = create<AppState>()(
           sidebarTab: state.sidebarTab,
           detailsPanelOpen: state.detailsPanelOpen,
           showRulers: state.showRulers,
+          topologySnapping: state.topologySnapping,
+          livewireTracing: state.livewireTracing,
+          magicWandOptions: state.magicWandOptions,
           spotLabelMode: state.spotLabelMode,
           showMicrographOutlines: state.showMicrographOutlines,
           showRecursiveSpots: state.showRecursiveSpots,
@@ -3778,6 +4270,7 @@ export const useAppStore = create<AppState>()(
           // Generation settings
           lastPointCountSettings: state.lastPointCountSettings,
           lastGrainDetectionSettings: state.lastGrainDetectionSettings,
+          grainDetectionPresets: state.grainDetectionPresets,
 
           // Mineral color settings
           spotColorMode: state.spotColorMode,
@@ -3834,6 +4327,49 @@ export const useAppStore = create<AppState>()(
 
 export const useTemporalStore = useAppStore.temporal;
 
+/** Nesting depth of runAsHistoryStep calls */
+let historyGroupDepth = 0;
+
+/**
+ * Run a multi-step operation as a single undo step with the given label.
+ * History tracking is paused while `fn` runs (including an async `fn`);
+ * afterwards one step back to the state before the operation is recorded
+ * if the project changed. Nested calls join the outermost step.
+ */
+export function runAsHistoryStep<T>(label: string, fn: () => T): T {
+  if (historyGroupDepth > 0) return fn();
+
+  const temporalStore = useAppStore.temporal;
+  const before = useAppStore.getState();
+  historyGroupDepth++;
+  temporalStore.getState().pause();
+
+  const finish = () => {
+    historyGroupDepth--;
+    temporalStore.getState().resume();
+    if (useAppStore.getState().project === before.project) return;
+    // Project unchanged by this set, so it records no step of its own
+    useAppStore.setState({ historyLabel: label });
+    temporalStore.setState((t) => ({
+      pastStates: [...t.pastStates, before].slice(-HISTORY_LIMIT),
+      futureStates: [],
+    }));
+  };
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    finish();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.finally(finish) as T;
+  }
+  finish();
+  return result;
+}
+
 // ============================================================================
 // DEBUG HELPERS (development only)
 // ============================================================================
@@ -137,6 +137,28 @@ export interface MicrographOrientation {
   topCorner?: string | null;
 }
 
+/**
+ * 3x3 projective matrix, row-major: [h11, h12, h13, h21, h22, h23, h31, h32, h33]
+ */
+export type HomographyMatrix = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Thin-plate spline from one image's pixels to another's. Coordinates are
+ * normalized before evaluation for numerical stability:
+ *   q = ((x, y) - origin) / scale
+ *   f(q) = affine(q) + sum_i weights[i] * U(|q - centers[i]|),  U(r) = r^2 * ln(r^2)
+ * `affine` is [a, b, tx, c, d, ty] and the result is in target pixels.
+ */
+export interface ThinPlateSplineParams {
+  origin: [number, number];
+  scale: number;
+  /** Control point sources, normalized */
+  centers: Array<[number, number]>;
+  /** Kernel weights for x' and y' at each center */
+  weights: Array<[number, number]>;
+  affine: [number, number, number, number, number, number];
+}
+
 export interface MicrographMetadata {
   id: string;
   name: string;
@@ -169,15 +191,23 @@ export interface MicrographMetadata {
   scaleY?: number | null;  // Scale factor in Y direction
   pointInParent?: SimpleCoord | null;  // For point-based placement
 
-  // Affine transform placement (3-point registration)
+  // Warped placement (control point registration)
   /**
    * Placement type discriminator for associated micrographs.
    * - undefined: infer from other fields (legacy compatibility)
    * - "point": Single point marker (uses pointInParent)
    * - "rectangle": Scaled/rotated rectangle (uses offsetInParent)
-   * - "affine": 3-point affine transform (uses affineMatrix + controlPoints)
+   * - "affine": Affine transform fitted to control points (uses affineMatrix + controlPoints)
+   * - "homography": Projective transform, for oblique views such as photos
+   *   through the eyepiece (uses homographyMatrix + controlPoints)
+   * - "thinPlateSpline": Smooth warp through every control point, for
+   *   non-linear distortion such as SEM scan drift (uses thinPlateSpline + controlPoints)
+   *
+   * All three warped types share the affine* tile fields below, and also
+   * store affineMatrix as the least-squares affine of their control points
+   * for consumers that need a single scale/rotation.
    */
-  placementType?: 'point' | 'rectangle' | 'affine' | null;
+  placementType?: 'point' | 'rectangle' | 'affine' | 'homography' | 'thinPlateSpline' | null;
 
   /**
    * 2x3 affine transformation matrix stored as flat array: [a, b, tx, c, d, ty]
@@ -189,8 +219,26 @@ export interface MicrographMetadata {
   affineMatrix?: [number, number, number, number, number, number] | null;
 
   /**
-   * Control points used to compute the affine matrix.
-   * Stored for potential future re-editing of registration.
+   * 3x3 projective matrix, row-major: [h11, h12, h13, h21, h22, h23, h31, h32, h33]
+   * Transforms overlay pixel (x,y) to parent pixel (x',y'):
+   *   w  = h31*x + h32*y + h33
+   *   x' = (h11*x + h12*y + h13) / w
+   *   y' = (h21*x + h22*y + h23) / w
+   * Only present when placementType is "homography".
+   */
+  homographyMatrix?: HomographyMatrix | null;
+
+  /**
+   * Thin-plate spline mapping overlay pixels to parent pixels (forward) and
+   * its fitted inverse, used to sample the overlay when baking tiles.
+   * Only present when placementType is "thinPlateSpline".
+   */
+  thinPlateSpline?: { forward: ThinPlateSplineParams; inverse: ThinPlateSplineParams } | null;
+
+  /**
+   * Control points used to compute the affine matrix: all of them, including
+   * any beyond the three needed, so the least-squares fit and its residuals
+   * can be audited and the registration re-edited later.
    * Only present when placementType is "affine".
    */
   controlPoints?: Array<{
@@ -203,13 +251,13 @@ export interface MicrographMetadata {
   /**
    * Bounding box offset for affine-transformed overlay in parent coordinates.
    * Stored after tile generation to position the overlay correctly.
-   * Only present when placementType is "affine".
+   * Present for all warped placement types (affine, homography, thinPlateSpline).
    */
   affineBoundsOffset?: { x: number; y: number } | null;
 
   /**
    * Dimensions of the affine-transformed image (after transform applied).
-   * Used for viewport culling. Only present when placementType is "affine".
+   * Used for viewport culling. Present for all warped placement types.
    */
   affineTransformedWidth?: number | null;
   affineTransformedHeight?: number | null;
@@ -218,7 +266,7 @@ export interface MicrographMetadata {
    * Hash key used to locate affine tiles in the tile cache.
    * This is stored because the hash is computed from the scratch path during registration,
    * but the image is later moved to the project folder with a different path.
-   * Only present when placementType is "affine".
+   * Present for all warped placement types.
    */
   affineTileHash?: string | null;
 
@@ -270,6 +318,18 @@ export interface MicrographMetadata {
   /** Results from StraboTools image analysis (Edge Fabric, Color Index, Edge Detect, Mode) */
   straboTools?: StraboToolsResult | null;
 
+  // ========== FRY STRAIN ANALYSIS ==========
+  /** Center-to-center (Fry) strain estimate from spot centroids */
+  fryAnalysis?: FryAnalysisResult | null;
+
+  // ========== ELEMENT MAP OVERLAYS ==========
+  /** Co-registered EDS/WDS element maps blended over this micrograph */
+  elementMaps?: ElementMapLayer[] | null;
+
+  // ========== ROTATION SERIES ==========
+  /** Crossed-polars images at known rotation angles, and the maps computed from them */
+  rotationSeries?: RotationSeries | null;
+
   // ========== BATCH IMPORT COMPLETION FLAGS ==========
   /**
    * Set to true when a micrograph was created via Batch Import with the
@@ -311,6 +371,10 @@ export interface Spot {
   geometry?: Geometry | null;
   geometryType?: string | null;
   points?: SimpleCoord[] | null;
+  /** Polygon spots: interior rings (holes) of the `points` ring */
+  holes?: SimpleCoord[][] | null;
+  /** Polygon spots: further polygons of a multipolygon spot */
+  parts?: SpotPolygonPart[] | null;
 
   // Supporting data
   associatedFiles?: AssociatedFileType[] | null;
@@ -344,8 +408,16 @@ export interface Spot {
    * 'manual' = drawn by user (default)
    * 'point-count' = generated by point counting grid
    * 'grain-detection' = detected by CV algorithm
+   * 'phase-classification' = vectorized from an element map phase map
+   * 'model-prediction' = imported from COCO segmentation predictions
    */
-  generationMethod?: 'manual' | 'point-count' | 'grain-detection' | null;
+  generationMethod?:
+    | 'manual'
+    | 'point-count'
+    | 'grain-detection'
+    | 'phase-classification'
+    | 'model-prediction'
+    | null;
 
   /**
    * For point counting: grid position (row, col)
@@ -410,11 +482,11 @@ export interface Spot {
 // GEOMETRY (GeoJSON-like)
 // ============================================================================
 
-export type GeometryType = 'Point' | 'LineString' | 'Polygon';
+export type GeometryType = 'Point' | 'LineString' | 'Polygon' | 'MultiPolygon';
 
 export interface Geometry {
   type: GeometryType;
-  coordinates: number[] | number[][] | number[][][];
+  coordinates: number[] | number[][] | number[][][] | number[][][][];
 }
 
 export interface PointGeometry extends Geometry {
@@ -432,6 +504,20 @@ export interface PolygonGeometry extends Geometry {
   coordinates: Array<Array<[number, number]>>;
 }
 
+export interface MultiPolygonGeometry extends Geometry {
+  type: 'MultiPolygon';
+  coordinates: Array<Array<Array<[number, number]>>>;
+}
+
+/**
+ * An additional polygon of a multipolygon spot (outer ring plus holes,
+ * stored like the spot's own `points`/`holes`)
+ */
+export interface SpotPolygonPart {
+  points: SimpleCoord[];
+  holes?: SimpleCoord[][] | null;
+}
+
 // ============================================================================
 // SKETCH OVERLAY TYPES
 // ============================================================================
@@ -515,6 +601,177 @@ export interface StraboToolsResult {
   modePhasePercentages?: number[] | null;
 }
 
+// ─── Fry Strain Analysis ───────────────────────────────────────────────────
+
+export interface FryAnalysisResult {
+  /** ISO timestamp of when the ellipse was saved */
+  timestamp: string;
+  /** Number of centroids used */
+  spotCount: number;
+  /** Whether the vacancy ellipse was auto-fitted or adjusted by hand */
+  fitMethod: 'auto' | 'manual';
+  /** Axial ratio of the central vacancy ellipse (strain ratio Rs) */
+  strainRatio: number;
+  /** Long axis, degrees clockwise from image horizontal (0-180) */
+  orientation: number;
+  /** Vacancy ellipse semi-axes in image pixels */
+  semiMajorPixels: number;
+  semiMinorPixels: number;
+  /** Long axis trend/plunge, when the micrograph (or an ancestor) is geographically oriented */
+  trend?: number | null;
+  plunge?: number | null;
+  /** Fabric section plane ('XZ', 'YZ', 'XY'), when oriented by fabric reference */
+  sectionPlane?: string | null;
+  /** Long axis in the section plane, degrees from the first fabric axis toward the second */
+  fabricAngle?: number | null;
+}
+
+// ─── Element Map Overlay Types ─────────────────────────────────────────────
+
+/**
+ * A single-element chemical map (EDS/WDS) registered to a micrograph.
+ * The map covers the same field as the micrograph and is stretched over
+ * its full extent, regardless of the map's own pixel dimensions.
+ */
+export interface ElementMapLayer {
+  /** Unique identifier */
+  id: string;
+
+  /** Element symbol (e.g. "Fe", "Mg") */
+  element: string;
+
+  /** Optional X-ray line or label (e.g. "Ka1") */
+  line?: string | null;
+
+  /** Name of the grayscale map file in the project's associatedFiles folder */
+  fileName: string;
+
+  /** Original file name as selected by the user */
+  originalFileName?: string | null;
+
+  /** Map dimensions in pixels */
+  width: number;
+  height: number;
+
+  /** False color applied to the grayscale intensities (hex, e.g. "#ff0000") */
+  color: string;
+
+  /** Layer opacity (0-1) */
+  opacity: number;
+
+  /** Whether layer is currently visible */
+  visible: boolean;
+
+  /** Detector type the map was acquired with (matches InstrumentDetectorType.detectorType) */
+  detectorType?: string | null;
+
+  /** WDS standard used for this element (matches InstrumentWDSStandardsType.standardName) */
+  standardName?: string | null;
+
+  /** ISO timestamp of import */
+  createdAt: string;
+}
+
+// ─── Rotation Series Types ─────────────────────────────────────────────────
+
+/**
+ * What was rotated between the images of a rotation series: the stage (the
+ * sample turns under fixed polars, so images must be rotated back into
+ * register) or the crossed polarizers together (the sample stays still).
+ */
+export type RotationSeriesMode = 'stage' | 'polarizers';
+
+/** Per-pixel maps computed from a rotation series */
+export type RotationSeriesMapType = 'maxIntensity' | 'extinctionAngle' | 'retardation';
+
+/**
+ * One crossed-polars image of a rotation series, registered to the micrograph.
+ */
+export interface RotationSeriesImage {
+  /** Unique identifier */
+  id: string;
+
+  /** Name of the image file in the project's associatedFiles folder */
+  fileName: string;
+
+  /** Original file name as selected by the user */
+  originalFileName?: string | null;
+
+  /** Stage (or polarizer) angle the image was taken at, in degrees */
+  angle: number;
+
+  /** Image dimensions in pixels */
+  width: number;
+  height: number;
+
+  /**
+   * Affine transform [a, b, tx, c, d, ty] from image pixels to micrograph
+   * pixels (null until the image has been registered)
+   */
+  registration?: [number, number, number, number, number, number] | null;
+
+  /** How the registration was found */
+  registrationMethod?: 'auto' | 'identity' | null;
+
+  /** RMS error of the automatic registration, in micrograph pixels */
+  registrationRms?: number | null;
+}
+
+/**
+ * Map images written to the project's associatedFiles folder. All maps cover
+ * the full micrograph extent; pixels not covered by every image are black.
+ */
+export interface RotationSeriesMaps {
+  /** RGB of each pixel at its brightest angle */
+  maxIntensityFileName: string;
+
+  /** Grayscale extinction angle: value v is v × 90 / 256 degrees */
+  extinctionAngleFileName: string;
+
+  /**
+   * Grayscale peak-to-peak intensity modulation over a full turn, a proxy for
+   * retardation (first-order birefringence × thickness)
+   */
+  retardationFileName: string;
+
+  /** Map dimensions in pixels */
+  width: number;
+  height: number;
+
+  /** Number of images the maps were computed from */
+  imageCount: number;
+
+  /** ISO timestamp of computation */
+  computedAt: string;
+}
+
+/**
+ * A series of crossed-polars images of the micrograph's field taken at known
+ * rotation angles. The micrograph's own image may be one of them.
+ */
+export interface RotationSeries {
+  /** What was rotated between images */
+  mode: RotationSeriesMode;
+
+  /** Angle of the micrograph's own image, or null if it is not part of the series (e.g. a PPL image) */
+  referenceAngle?: number | null;
+
+  /** Additional images, each registered to the micrograph */
+  images: RotationSeriesImage[];
+
+  /** Computed maps (null until computed, or after the images change) */
+  maps?: RotationSeriesMaps | null;
+
+  /** Map shown as an overlay in the viewer (null hides the overlay) */
+  displayMap?: RotationSeriesMapType | null;
+
+  /** Overlay opacity (0-1) */
+  opacity: number;
+
+  /** ISO timestamp of creation */
+  createdAt: string;
+}
+
 // ─── Sketch Overlay Types ──────────────────────────────────────────────────
 
 export interface SketchLayer {
@@ -663,6 +920,32 @@ export interface GrainSizeType {
   mode?: number | null;
   standardDeviation?: number | null;
   sizeUnit?: string | null;
+  method?: string | null; // 'line-intercept' when measured with test lines; absent for manual entries
+  lineIntercept?: LineInterceptMeasurementType | null;
+}
+
+/**
+ * Line-intercept grain size measurement details
+ * (mean on the parent GrainSizeType is the corrected grain size)
+ */
+export interface LineInterceptMeasurementType {
+  pattern?: string | null; // 'parallel' | 'orthogonal' | 'multidirectional' | 'random'
+  testLineCount?: number | null;
+  totalLineLength?: number | null;
+  intersectionCount?: number | null;
+  meanInterceptLength?: number | null;
+  correctionFactor?: number | null;
+  astmGrainSizeNumber?: number | null;
+  relativeAccuracy?: number | null; // %RA at 95% confidence
+  anisotropyIndex?: number | null;
+  degreeOfOrientation?: number | null;
+  elongationDirection?: number | null; // degrees, image coordinates
+  directions?: {
+    angle?: number | null;
+    intersectionCount?: number | null;
+    meanInterceptLength?: number | null;
+  }[] | null;
+  measuredAt?: string | null;
 }
 
 /**
@@ -683,6 +966,23 @@ export interface GrainOrientationType {
   software?: string | null;
   spoTechnique?: string | null;
   spoOther?: string | null;
+  rfPhi?: RfPhiMeasurementType | null;
+}
+
+/**
+ * Rf/φ and shape tensor results behind a measured grain orientation
+ * (orientations in degrees, image coordinates)
+ */
+export interface RfPhiMeasurementType {
+  grainCount?: number | null;
+  harmonicMeanRf?: number | null;
+  vectorMeanOrientation?: number | null;
+  vectorMeanStrength?: number | null;
+  strainRatio?: number | null; // Rs from theta-curve fitting
+  chiSquared?: number | null;
+  shapeTensorRatio?: number | null;
+  shapeTensorOrientation?: number | null;
+  measuredAt?: string | null;
 }
 
 // ============================================================================
@@ -961,6 +1261,35 @@ export interface GrainBoundaryType {
   phase2?: string | null;
   morphologies?: GrainBoundaryMorphologyType[] | null;
   descriptors?: GrainBoundaryDescriptorType[] | null;
+  /** Measured from the boundary network of the micrograph's polygon spots */
+  statistics?: GrainBoundaryStatisticsType | null;
+}
+
+/**
+ * Boundary segment statistics for one phase pair, measured from the
+ * boundary network (Tools > Grain Boundary Network)
+ */
+export interface GrainBoundaryStatisticsType {
+  /** ISO timestamp of the analysis */
+  analysisTimestamp: string;
+  /** Number of boundary segments between grains of this phase pair */
+  segmentCount: number;
+  /** Fraction of all boundary segments on the micrograph (0-1) */
+  contactFrequency: number;
+  totalLength: number;
+  meanSegmentLength: number;
+  /** 'µm' when the micrograph is scaled, otherwise 'px' */
+  lengthUnit: string;
+  /** Fraction of the total boundary length on the micrograph (0-1) */
+  lengthFraction: number;
+  /** Length-weighted mean curvature, radians per length unit */
+  meanCurvature: number;
+  /** Length-weighted mean chord/length ratio (1 = straight) */
+  meanStraightness: number;
+  /** Triple junctions this boundary type ends at */
+  tripleJunctionCount: number;
+  /** Median dihedral angle (degrees) in the third grain where these boundaries meet it */
+  medianDihedralAngle?: number | null;
 }
 
 /**
@@ -1303,6 +1632,13 @@ export function isPolygonGeometry(geometry: Geometry): geometry is PolygonGeomet
   return geometry.type === 'Polygon';
 }
 
+/**
+ * Type guard to check if geometry is a MultiPolygon
+ */
+export function isMultiPolygonGeometry(geometry: Geometry): geometry is MultiPolygonGeometry {
+  return geometry.type === 'MultiPolygon';
+}
+
 /**
  * Union type of all feature Info container types
  */
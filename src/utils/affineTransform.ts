@@ -1,8 +1,9 @@
 /**
  * Affine Transform Utilities
  *
- * Computes 2x3 affine matrices from control point pairs and provides
- * coordinate transformation functions for image registration.
+ * Computes 2x3 affine matrices from control point pairs (exact for three
+ * pairs, least squares for more), reports the fit error at each pair, and
+ * provides coordinate transformation functions for image registration.
  *
  * The affine transformation maps overlay image pixels to parent image pixels:
  *   x' = a*x + b*y + tx
@@ -42,61 +43,207 @@ export interface BoundingBox {
 }
 
 /**
- * Compute affine transformation matrix from exactly 3 control point pairs.
- * Solves the linear system to find the unique matrix that maps source→target.
+ * Per-point fit error of a registration.
+ */
+export interface ControlPointResidual {
+  /** Index of the control point in the input array */
+  index: number;
+  /** Transformed source minus target, in parent image pixels */
+  dx: number;
+  dy: number;
+  /** Distance between transformed source and target, in parent image pixels */
+  error: number;
+  /** Whether the point disagrees strongly with the others (likely mis-clicked) */
+  isOutlier: boolean;
+}
+
+/**
+ * Fit quality of a registration.
+ */
+export interface RegistrationResiduals {
+  residuals: ControlPointResidual[];
+  /** Root-mean-square error over all points, in parent image pixels */
+  rms: number;
+}
+
+/**
+ * Compute affine transformation matrix from 3 or more control point pairs.
+ *
+ * With exactly 3 points the matrix maps every source onto its target. With
+ * more, it is the least-squares fit, so a single misplaced point is averaged
+ * out instead of warping the overlay, and the leftover error can be reported
+ * with computeRegistrationResiduals().
  *
- * Uses Cramer's rule to solve the system of linear equations.
+ * Coordinates are centered on their means before solving the normal
+ * equations, which keeps the 2x2 system well conditioned for large images.
  *
- * @param points - Array of exactly 3 control points
+ * @param points - Array of at least 3 control points
  * @returns 2x3 affine matrix as [a, b, tx, c, d, ty]
- * @throws Error if points array doesn't have exactly 3 points
+ * @throws Error if fewer than 3 points are given
  * @throws Error if points are collinear (determinant ≈ 0)
  */
 export function computeAffineMatrix(points: ControlPoint[]): AffineMatrix {
-  if (points.length !== 3) {
-    throw new Error(`Exactly 3 control points required for affine transform, got ${points.length}`);
+  if (points.length < 3) {
+    throw new Error(`At least 3 control points required for affine transform, got ${points.length}`);
   }
 
-  const [p1, p2, p3] = points;
-  const [x1, y1] = p1.source;
-  const [x2, y2] = p2.source;
-  const [x3, y3] = p3.source;
-  const [x1p, y1p] = p1.target;
-  const [x2p, y2p] = p2.target;
-  const [x3p, y3p] = p3.target;
+  const n = points.length;
+  let sx = 0, sy = 0, tx0 = 0, ty0 = 0;
+  for (const p of points) {
+    sx += p.source[0];
+    sy += p.source[1];
+    tx0 += p.target[0];
+    ty0 += p.target[1];
+  }
+  const mx = sx / n;
+  const my = sy / n;
+  const mxp = tx0 / n;
+  const myp = ty0 / n;
+
+  // Sums of products of the centered coordinates
+  let sxx = 0, sxy = 0, syy = 0;
+  let sxX = 0, syX = 0, sxY = 0, syY = 0;
+  for (const p of points) {
+    const x = p.source[0] - mx;
+    const y = p.source[1] - my;
+    const xp = p.target[0] - mxp;
+    const yp = p.target[1] - myp;
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+    sxX += x * xp;
+    syX += y * xp;
+    sxY += x * yp;
+    syY += y * yp;
+  }
 
-  // Compute determinant of source point matrix
-  // | x1  y1  1 |
-  // | x2  y2  1 |
-  // | x3  y3  1 |
-  const det = x1 * (y2 - y3) - y1 * (x2 - x3) + (x2 * y3 - x3 * y2);
+  // Normal equations:
+  // | sxx sxy |   | a  c |   | sxX sxY |
+  // | sxy syy | × | b  d | = | syX syY |
+  const det = sxx * syy - sxy * sxy;
 
-  if (Math.abs(det) < 1e-10) {
+  // Relative to the spread of the points, so the check does not depend on image size
+  if (Math.abs(det) < 1e-10 * Math.max(1, sxx * syy)) {
     throw new Error('Control points are collinear - cannot compute affine transform');
   }
 
-  // Solve for affine matrix coefficients using Cramer's rule
-  // We need to solve:
-  // | x1  y1  1 |   | a  c |   | x1'  y1' |
-  // | x2  y2  1 | × | b  d | = | x2'  y2' |
-  // | x3  y3  1 |   | tx ty|   | x3'  y3' |
+  const a = (sxX * syy - syX * sxy) / det;
+  const b = (syX * sxx - sxX * sxy) / det;
+  const c = (sxY * syy - syY * sxy) / det;
+  const d = (syY * sxx - sxY * sxy) / det;
 
-  // For x' coefficients (a, b, tx):
-  // a = det(| x1' y1 1 |, | x2' y2 1 |, | x3' y3 1 |) / det
-  const a = (x1p * (y2 - y3) - y1 * (x2p - x3p) + (x2p * y3 - x3p * y2)) / det;
+  // The fit passes through the centroids
+  const tx = mxp - a * mx - b * my;
+  const ty = myp - c * mx - d * my;
 
-  // b = det(| x1 x1' 1 |, | x2 x2' 1 |, | x3 x3' 1 |) / det
-  const b = (x1 * (x2p - x3p) - x1p * (x2 - x3) + (x2 * x3p - x3 * x2p)) / det;
+  return [a, b, tx, c, d, ty];
+}
+
+/**
+ * Leverage of each control point in the least-squares fit: how strongly the
+ * fit is pulled toward it (1/n at the centroid, approaching 1 for a point far
+ * from the others).
+ */
+function pointLeverages(points: ControlPoint[]): number[] {
+  const n = points.length;
+  const mx = points.reduce((sum, p) => sum + p.source[0], 0) / n;
+  const my = points.reduce((sum, p) => sum + p.source[1], 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  for (const p of points) {
+    const x = p.source[0] - mx;
+    const y = p.source[1] - my;
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+  }
+  const det = sxx * syy - sxy * sxy;
+  return points.map((p) => {
+    const x = p.source[0] - mx;
+    const y = p.source[1] - my;
+    return 1 / n + (syy * x * x - 2 * sxy * x * y + sxx * y * y) / det;
+  });
+}
 
-  // tx = det(| x1 y1 x1' |, | x2 y2 x2' |, | x3 y3 x3' |) / det
-  const tx = (x1 * (y2 * x3p - y3 * x2p) - y1 * (x2 * x3p - x3 * x2p) + x1p * (x2 * y3 - x3 * y2)) / det;
+/**
+ * Outlier test for each control point: the error of the fit of the other
+ * points at this point, and that error in units of the error expected from
+ * how well the other points agree (the studentized deleted residual).
+ */
+function deletedResiduals(points: ControlPoint[]): Array<{ error: number; studentized: number }> {
+  const n = points.length;
+  const matrix = computeAffineMatrix(points);
+  const errors = points.map((p) => {
+    const [x, y] = transformPoint(p.source[0], p.source[1], matrix);
+    return Math.hypot(x - p.target[0], y - p.target[1]);
+  });
+  const sumSquares = errors.reduce((sum, e) => sum + e * e, 0);
+  const leverages = pointLeverages(points);
+
+  return errors.map((e, i) => {
+    const h = leverages[i];
+    if (h >= 1 - 1e-9) return { error: 0, studentized: 0 };
+    // Squared error left by the other points (6 parameters use up 3 points' worth)
+    const othersSumSquares = Math.max(sumSquares - (e * e) / (1 - h), 0);
+    const sigma = Math.sqrt(othersSumSquares / (n - 4));
+    return {
+      error: e / (1 - h),
+      studentized: sigma > 0 ? e / (sigma * Math.sqrt(1 - h)) : e > 0 ? Infinity : 0,
+    };
+  });
+}
 
-  // For y' coefficients (c, d, ty):
-  const c = (y1p * (y2 - y3) - y1 * (y2p - y3p) + (y2p * y3 - y3p * y2)) / det;
-  const d = (x1 * (y2p - y3p) - y1p * (x2 - x3) + (x2 * y3p - x3 * y2p)) / det;
-  const ty = (x1 * (y2 * y3p - y3 * y2p) - y1 * (x2 * y3p - x3 * y2p) + y1p * (x2 * y3 - x3 * y2)) / det;
+/**
+ * Compute per-point residuals and RMS error of a registration.
+ *
+ * Outliers are only flagged with 5 or more points: 3 points always fit
+ * exactly, and with 4 any one of them can be dropped to fit the rest
+ * exactly, so a bad point cannot be told apart. The point whose studentized
+ * deleted residual is largest is flagged if that exceeds `outlierFactor` and
+ * the fit of the other points misses it by more than `minOutlierError`
+ * pixels; it is then set aside and the rest are tested again. Leaving points
+ * out matters because a mis-clicked point pulls a least-squares fit toward
+ * itself and spreads its error over the others.
+ *
+ * @param points - Control points the matrix was fitted to
+ * @param matrix - Fitted affine matrix
+ * @param outlierFactor - Studentized residual above which a point is an outlier (default: 3)
+ * @param minOutlierError - Smallest miss in parent pixels that can be an outlier (default: 2)
+ * @returns Residual for each point (in input order) and the RMS error
+ */
+export function computeRegistrationResiduals(
+  points: ControlPoint[],
+  matrix: AffineMatrix,
+  outlierFactor: number = 3,
+  minOutlierError: number = 2
+): RegistrationResiduals {
+  const residuals: ControlPointResidual[] = points.map((p, index) => {
+    const [x, y] = transformPoint(p.source[0], p.source[1], matrix);
+    const dx = x - p.target[0];
+    const dy = y - p.target[1];
+    return { index, dx, dy, error: Math.hypot(dx, dy), isOutlier: false };
+  });
+
+  const rms = residuals.length > 0
+    ? Math.sqrt(residuals.reduce((sum, r) => sum + r.error * r.error, 0) / residuals.length)
+    : 0;
+
+  let remaining = points.map((_, i) => i);
+  while (remaining.length >= 5) {
+    const subset = remaining.map((i) => points[i]);
+    if (arePointsCollinear(subset)) break;
+
+    const tests = deletedResiduals(subset);
+    let worst = 0;
+    tests.forEach((test, k) => {
+      if (test.studentized > tests[worst].studentized) worst = k;
+    });
+    if (tests[worst].studentized <= outlierFactor || tests[worst].error <= minOutlierError) break;
+
+    residuals[remaining[worst]].isOutlier = true;
+    remaining = remaining.filter((_, k) => k !== worst);
+  }
 
-  return [a, b, tx, c, d, ty];
+  return { residuals, rms };
 }
 
 /**
@@ -161,8 +308,10 @@ export function computeTransformedBounds(
 }
 
 /**
- * Check if three points are approximately collinear.
- * Returns true if the triangle area formed by the source points is below threshold.
+ * Check if control points are approximately collinear.
+ * Returns true if the largest triangle that can be formed from the source
+ * points (the farthest pair plus the point farthest from the line through
+ * them) has an area below threshold.
  *
  * @param points - Array of control points (uses source coordinates)
  * @param threshold - Minimum triangle area in pixels squared (default: 100)
@@ -174,14 +323,29 @@ export function arePointsCollinear(
 ): boolean {
   if (points.length < 3) return true;
 
-  const [p1, p2, p3] = points;
-  const [x1, y1] = p1.source;
-  const [x2, y2] = p2.source;
-  const [x3, y3] = p3.source;
+  // Farthest pair of source points
+  let i1 = 0, i2 = 1, maxDist = -1;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dist = Math.hypot(points[j].source[0] - points[i].source[0], points[j].source[1] - points[i].source[1]);
+      if (dist > maxDist) {
+        maxDist = dist;
+        i1 = i;
+        i2 = j;
+      }
+    }
+  }
 
-  // Compute triangle area using cross product formula
+  const [x1, y1] = points[i1].source;
+  const [x2, y2] = points[i2].source;
+
+  // Compute the largest triangle area using cross product formula
   // Area = |((x2-x1)(y3-y1) - (x3-x1)(y2-y1))| / 2
-  const area = Math.abs((x2 - x1) * (y3 - y1) - (x3 - x1) * (y2 - y1)) / 2;
+  let area = 0;
+  for (const p of points) {
+    const [x3, y3] = p.source;
+    area = Math.max(area, Math.abs((x2 - x1) * (y3 - y1) - (x3 - x1) * (y2 - y1)) / 2);
+  }
   return area < threshold;
 }
 
@@ -5,12 +5,18 @@
  * using the micrograph's scale calibration (scalePixelsPerCentimeter).
  */
 
-import type { Geometry, SimpleCoord } from '@/types/project-types';
+import type { Geometry, SimpleCoord, Spot } from '@/types/project-types';
+import { spotToMultiPolygon } from './spotPolygons';
 
 // Unit thresholds for auto-selection (in centimeters)
 const CM_TO_UM = 10000;  // 10,000 micrometers per cm
 const CM_TO_MM = 10;     // 10 millimeters per cm
 
+/**
+ * Interior rings and extra polygons of a polygon spot
+ */
+export type PolygonRings = Pick<Spot, 'holes' | 'parts'>;
+
 /**
  * Measurement result with value and formatted string
  */
@@ -150,7 +156,7 @@ function formatLength(lengthCm: number): Measurement {
  * Convert an area from square centimeters to the most appropriate unit
  * and format with 3 decimal places
  */
-function formatArea(areaCm2: number): Measurement {
+export function formatArea(areaCm2: number): Measurement {
   const areaMm2 = areaCm2 * (CM_TO_MM * CM_TO_MM);      // 100 mm² per cm²
   const areaUm2 = areaCm2 * (CM_TO_UM * CM_TO_UM);      // 100,000,000 μm² per cm²
 
@@ -196,6 +202,28 @@ export function calculateLineLength(
   return formatLength(lengthCm);
 }
 
+/**
+ * Calculate polygon area in square pixels: the area of every polygon of the
+ * spot with its holes subtracted
+ * Returns null if geometry is invalid
+ */
+export function calculatePolygonAreaPixels(
+  geometry: Geometry | null | undefined,
+  points: SimpleCoord[] | null | undefined,
+  rings?: PolygonRings | null
+): number | null {
+  const polygons = spotToMultiPolygon({ geometry, points, holes: rings?.holes, parts: rings?.parts });
+  if (polygons.length === 0) return null;
+
+  let area = 0;
+  for (const polygon of polygons) {
+    polygon.forEach((ring, index) => {
+      area += index === 0 ? calculateAreaPixels(ring) : -calculateAreaPixels(ring);
+    });
+  }
+  return Math.max(0, area);
+}
+
 /**
  * Calculate polygon area measurement
  * Returns null if scale is not set or geometry is invalid
@@ -203,14 +231,14 @@ export function calculateLineLength(
 export function calculatePolygonArea(
   geometry: Geometry | null | undefined,
   points: SimpleCoord[] | null | undefined,
-  scalePixelsPerCentimeter: number | null | undefined
+  scalePixelsPerCentimeter: number | null | undefined,
+  rings?: PolygonRings | null
 ): Measurement | null {
   if (!scalePixelsPerCentimeter) return null;
 
-  const coords = extractCoordinates(geometry, points);
-  if (!coords || coords.length < 3) return null;
+  const areaPixels = calculatePolygonAreaPixels(geometry, points, rings);
+  if (areaPixels === null) return null;
 
-  const areaPixels = calculateAreaPixels(coords);
   // Convert: (pixels²) / (pixels/cm)² = cm²
   const areaCm2 = areaPixels / (scalePixelsPerCentimeter * scalePixelsPerCentimeter);
 
@@ -218,20 +246,27 @@ export function calculatePolygonArea(
 }
 
 /**
- * Calculate polygon perimeter measurement
+ * Calculate polygon perimeter measurement (outer boundaries and hole
+ * boundaries of every polygon of the spot)
  * Returns null if scale is not set or geometry is invalid
  */
 export function calculatePolygonPerimeter(
   geometry: Geometry | null | undefined,
   points: SimpleCoord[] | null | undefined,
-  scalePixelsPerCentimeter: number | null | undefined
+  scalePixelsPerCentimeter: number | null | undefined,
+  rings?: PolygonRings | null
 ): Measurement | null {
   if (!scalePixelsPerCentimeter) return null;
 
-  const coords = extractCoordinates(geometry, points);
-  if (!coords || coords.length < 3) return null;
+  const polygons = spotToMultiPolygon({ geometry, points, holes: rings?.holes, parts: rings?.parts });
+  if (polygons.length === 0) return null;
 
-  const perimeterPixels = calculatePerimeterPixels(coords);
+  let perimeterPixels = 0;
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      perimeterPixels += calculatePerimeterPixels(ring);
+    }
+  }
   const perimeterCm = perimeterPixels / scalePixelsPerCentimeter;
 
   return formatLength(perimeterCm);
@@ -256,7 +291,7 @@ export function isPolygonSpot(
   geometry: Geometry | null | undefined,
   geometryType: string | null | undefined
 ): boolean {
-  if (geometry?.type === 'Polygon') return true;
+  if (geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon') return true;
   if (geometryType?.toLowerCase() === 'polygon') return true;
   return false;
 }
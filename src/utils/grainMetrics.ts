@@ -12,6 +12,7 @@
  */
 
 import type { Spot } from '../types/project-types';
+import { hasHolesOrParts, ringToPoints, spotToMultiPolygon } from './spotPolygons';
 
 /**
  * Normalized coordinate point
@@ -190,6 +191,87 @@ export function calculateEllipseMetrics(points: Point[]): {
   return { majorAxis, minorAxis, orientation };
 }
 
+/**
+ * Area-weighted metrics for a spot with holes or several polygons.
+ *
+ * Simple polygons use the vertex-based methods above; once interior rings
+ * are involved the vertices no longer describe where the material is, so
+ * area, centroid and the best-fit ellipse come from the area moments of the
+ * filled region instead (holes subtract). The ellipse has the same second
+ * moments as the region, with axes 4×sqrt(eigenvalue) like above.
+ * @param polygons - Polygons as rings of vertices (outer ring first, then holes)
+ */
+export function calculateRegionMetrics(polygons: Point[][][]): {
+  area: number;
+  perimeter: number;
+  centroid: Point;
+  majorAxis: number;
+  minorAxis: number;
+  orientation: number; // degrees 0-180
+} {
+  let area = 0, perimeter = 0;
+  let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+
+  for (const polygon of polygons) {
+    polygon.forEach((ring, index) => {
+      if (ring.length < 3) return;
+      perimeter += calculatePerimeter(ring);
+
+      // Green's theorem sums over the ring's edges
+      let a = 0, mx = 0, my = 0, mxx = 0, myy = 0, mxy = 0;
+      for (let i = 0; i < ring.length; i++) {
+        const { X: x0, Y: y0 } = ring[i];
+        const { X: x1, Y: y1 } = ring[(i + 1) % ring.length];
+        const cross = x0 * y1 - x1 * y0;
+        a += cross;
+        mx += (x0 + x1) * cross;
+        my += (y0 + y1) * cross;
+        mxx += (x0 * x0 + x0 * x1 + x1 * x1) * cross;
+        myy += (y0 * y0 + y0 * y1 + y1 * y1) * cross;
+        mxy += (x0 * y1 + 2 * x0 * y0 + 2 * x1 * y1 + x1 * y0) * cross;
+      }
+      if (a === 0) return;
+
+      // Outer rings add and holes subtract, whatever their winding
+      const sign = (index === 0 ? 1 : -1) * Math.sign(a);
+      area += (sign * a) / 2;
+      sx += (sign * mx) / 6;
+      sy += (sign * my) / 6;
+      sxx += (sign * mxx) / 12;
+      syy += (sign * myy) / 12;
+      sxy += (sign * mxy) / 24;
+    });
+  }
+
+  if (area <= 1e-10) {
+    const all = polygons.flat(2);
+    return { area: 0, perimeter, centroid: calculateCentroid(all), majorAxis: 0, minorAxis: 0, orientation: 0 };
+  }
+
+  const cx = sx / area;
+  const cy = sy / area;
+  const mu20 = sxx / area - cx * cx;
+  const mu02 = syy / area - cy * cy;
+  const mu11 = sxy / area - cx * cy;
+
+  const diff = mu20 - mu02;
+  const discriminant = Math.sqrt(diff * diff + 4 * mu11 * mu11);
+  const lambda1 = (mu20 + mu02 + discriminant) / 2;
+  const lambda2 = (mu20 + mu02 - discriminant) / 2;
+
+  let orientation = 0.5 * Math.atan2(2 * mu11, diff);
+  orientation = ((orientation * 180 / Math.PI) % 180 + 180) % 180;
+
+  return {
+    area,
+    perimeter,
+    centroid: { X: cx, Y: cy },
+    majorAxis: 4 * Math.sqrt(Math.max(lambda1, 0)),
+    minorAxis: 4 * Math.sqrt(Math.max(lambda2, 0)),
+    orientation,
+  };
+}
+
 /**
  * Calculate circularity (isoperimetric quotient)
  * A circle has circularity = 1, more irregular shapes approach 0
@@ -222,14 +304,31 @@ export function calculateGrainMetrics(
     return null;
   }
 
-  // Normalize point format
-  const points = spot.points.map(p => normalizePoint(p as { X?: number; Y?: number; x?: number; y?: number }));
-
-  // Calculate pixel metrics
-  const areaPixels = calculateArea(points);
-  const perimeterPixels = calculatePerimeter(points);
-  const centroid = calculateCentroid(points);
-  const ellipse = calculateEllipseMetrics(points);
+  let areaPixels: number;
+  let perimeterPixels: number;
+  let centroid: Point;
+  let ellipse: { majorAxis: number; minorAxis: number; orientation: number };
+
+  if (hasHolesOrParts(spot)) {
+    // Holes / multiple polygons: measure the filled region
+    const polygons = spotToMultiPolygon(spot).map(polygon =>
+      polygon.map(ring => ringToPoints(ring).map(p => normalizePoint(p as { X?: number; Y?: number })))
+    );
+    const region = calculateRegionMetrics(polygons);
+    areaPixels = region.area;
+    perimeterPixels = region.perimeter;
+    centroid = region.centroid;
+    ellipse = region;
+  } else {
+    // Normalize point format
+    const points = spot.points.map(p => normalizePoint(p as { X?: number; Y?: number; x?: number; y?: number }));
+
+    // Calculate pixel metrics
+    areaPixels = calculateArea(points);
+    perimeterPixels = calculatePerimeter(points);
+    centroid = calculateCentroid(points);
+    ellipse = calculateEllipseMetrics(points);
+  }
   const circularity = calculateCircularity(areaPixels, perimeterPixels);
 
   // Convert to microns
@@ -1,5 +1,6 @@
 /**
- * Helpers for HTMLImageElement lifecycle in Konva-rendered components.
+ * Helpers for HTMLImageElement lifecycle in Konva-rendered components, and
+ * for decoding images into pixels.
  *
  * Konva draws image elements directly with canvas drawImage(), which THROWS
  * InvalidStateError for an element whose load FAILED (onerror fired — the
@@ -30,3 +31,138 @@ export function releaseImage(img: HTMLImageElement): void {
 export function isImageUsable(img: HTMLImageElement): boolean {
   return img.complete && img.naturalWidth > 0;
 }
+
+/**
+ * Decode an image (e.g. a data URL from loadImageRegion) into pixels.
+ */
+export async function loadImageAsImageData(imageUrl: string): Promise<ImageData> {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = reject;
+    img.src = imageUrl;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0);
+  releaseImage(img);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  canvas.width = 0;
+  canvas.height = 0;
+  return imageData;
+}
+
+// ============================================================================
+// TILE PYRAMID REGIONS
+// ============================================================================
+
+/** Full-resolution tile size of the tile cache */
+const TILE_SIZE = 256;
+
+/** Long edge of the tile cache's medium image */
+const MEDIUM_SIZE = 2048;
+
+/** Tiles requested per IPC call, so a large region is never held at once */
+const TILES_PER_BATCH = 16;
+
+/** A tile-cached image (see loadImageWithTiles) */
+export interface TiledImageSource {
+  hash: string;
+  /** Full-resolution size */
+  width: number;
+  height: number;
+  /** Pixels of halo each tile carries on every edge that has a neighbor (absent on legacy caches) */
+  tilePadding?: number;
+}
+
+async function decodeImageElement(imageUrl: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  return img;
+}
+
+/**
+ * Read part of a tile-cached image into pixels of exactly width x height,
+ * from the same tile pyramid the viewer displays. Coarse reads come from
+ * the medium image; finer ones are drawn tile by tile from the full-resolution
+ * tiles, so memory follows the output size rather than the region.
+ *
+ * @param source - Cached image
+ * @param region - Area in full-resolution pixels (clamped to the image)
+ * @param width - Output width
+ * @param height - Output height
+ */
+export async function loadTiledRegionImageData(
+  source: TiledImageSource,
+  region: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): Promise<ImageData> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+
+  const scaleX = width / region.width;
+  const scaleY = height / region.height;
+  const mediumScale = Math.min(1, MEDIUM_SIZE / Math.max(source.width, source.height));
+
+  if (Math.max(scaleX, scaleY) < mediumScale) {
+    const medium = await decodeImageElement(await window.api!.loadMedium(source.hash));
+    const mediumX = medium.naturalWidth / source.width;
+    const mediumY = medium.naturalHeight / source.height;
+    ctx.drawImage(
+      medium,
+      region.x * mediumX,
+      region.y * mediumY,
+      region.width * mediumX,
+      region.height * mediumY,
+      0,
+      0,
+      width,
+      height
+    );
+    releaseImage(medium);
+  } else {
+    const tiles: Array<{ x: number; y: number }> = [];
+    const firstX = Math.max(0, Math.floor(region.x / TILE_SIZE));
+    const firstY = Math.max(0, Math.floor(region.y / TILE_SIZE));
+    const lastX = Math.min(Math.ceil(source.width / TILE_SIZE), Math.ceil((region.x + region.width) / TILE_SIZE)) - 1;
+    const lastY = Math.min(Math.ceil(source.height / TILE_SIZE), Math.ceil((region.y + region.height) / TILE_SIZE)) - 1;
+    for (let ty = firstY; ty <= lastY; ty++) {
+      for (let tx = firstX; tx <= lastX; tx++) {
+        tiles.push({ x: tx, y: ty });
+      }
+    }
+
+    const padding = source.tilePadding ?? 0;
+    for (let start = 0; start < tiles.length; start += TILES_PER_BATCH) {
+      const loaded = await window.api!.loadTilesBatch(source.hash, tiles.slice(start, start + TILES_PER_BATCH));
+      for (const tile of loaded) {
+        const img = await decodeImageElement(tile.dataUrl);
+        // Padded tiles carry a halo on every side except the image's top/left edge
+        const left = tile.x * TILE_SIZE - (tile.x > 0 ? padding : 0);
+        const top = tile.y * TILE_SIZE - (tile.y > 0 ? padding : 0);
+        ctx.drawImage(
+          img,
+          (left - region.x) * scaleX,
+          (top - region.y) * scaleY,
+          img.naturalWidth * scaleX,
+          img.naturalHeight * scaleY
+        );
+        releaseImage(img);
+      }
+    }
+  }
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+  return imageData;
+}
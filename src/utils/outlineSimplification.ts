@@ -0,0 +1,88 @@
+/**
+ * Outline Simplification
+ *
+ * Douglas-Peucker simplification for outlines traced without OpenCV: phase
+ * map and mask regions, magic wand selections and livewire paths. Grain
+ * detection runs the same algorithm through OpenCV's approxPolyDP.
+ */
+
+type Vertex = { x: number; y: number };
+
+/**
+ * Distance from a point to a line segment.
+ */
+function perpendicularDistance(point: Vertex, start: Vertex, end: Vertex): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  if (dx === 0 && dy === 0) {
+    return Math.hypot(point.x - start.x, point.y - start.y);
+  }
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+/**
+ * Douglas-Peucker simplification of an open polyline.
+ */
+function douglasPeucker(points: Vertex[], epsilon: number): Vertex[] {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDist = 0;
+  let maxIdx = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const dist = perpendicularDistance(points[i], first, last);
+    if (dist > maxDist) {
+      maxDist = dist;
+      maxIdx = i;
+    }
+  }
+
+  if (maxDist <= epsilon) return [first, last];
+
+  const left = douglasPeucker(points.slice(0, maxIdx + 1), epsilon);
+  const right = douglasPeucker(points.slice(maxIdx), epsilon);
+  return left.slice(0, -1).concat(right);
+}
+
+/**
+ * Simplify an open polyline, keeping both end points.
+ *
+ * @param points - Polyline vertices
+ * @param epsilon - Tolerance (0 keeps every vertex)
+ * @returns Simplified polyline
+ */
+export function simplifyPolyline(points: Vertex[], epsilon: number): Vertex[] {
+  if (epsilon <= 0) return points;
+  return douglasPeucker(points, epsilon);
+}
+
+/**
+ * Simplify a closed polygon. The ring is split at the vertex furthest from the
+ * start so the start vertex itself can be simplified away.
+ *
+ * @param ring - Polygon vertices (not repeating the first vertex)
+ * @param epsilon - Tolerance (0 keeps every vertex)
+ * @returns Simplified ring
+ */
+export function simplifyRing(ring: Vertex[], epsilon: number): Vertex[] {
+  if (ring.length < 4 || epsilon <= 0) return ring;
+
+  let farIdx = 0;
+  let farDist = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const dist = Math.hypot(ring[i].x - ring[0].x, ring[i].y - ring[0].y);
+    if (dist > farDist) {
+      farDist = dist;
+      farIdx = i;
+    }
+  }
+
+  const firstHalf = douglasPeucker(ring.slice(0, farIdx + 1), epsilon);
+  const secondHalf = douglasPeucker([...ring.slice(farIdx), ring[0]], epsilon);
+  const simplified = firstHalf.slice(0, -1).concat(secondHalf.slice(0, -1));
+
+  // Never collapse a region below a triangle
+  return simplified.length >= 3 ? simplified : ring;
+}
@@ -0,0 +1,573 @@
+/**
+ * Placement Warp Utilities
+ *
+ * Control point placements of an overlay on its parent micrograph. Besides
+ * the affine transform (see affineTransform.ts) two non-linear warps are
+ * supported:
+ * - homography: projective transform, for oblique views such as phone photos
+ *   through the eyepiece (straight lines stay straight, parallels converge)
+ * - thin-plate spline: smooth warp that passes through every control point,
+ *   for distortion that varies across the image such as SEM scan drift
+ *
+ * All warps map overlay pixels to parent pixels. Warps are fitted here and
+ * evaluated by electron/placementWarpMath.mjs, which the main process also
+ * loads to bake warped overlays into tiles, so both see the same outline.
+ */
+
+import type { HomographyMatrix, MicrographMetadata, ThinPlateSplineParams } from '@/types/project-types';
+import {
+  computeAffineMatrix,
+  computeRegistrationResiduals,
+  type AffineMatrix,
+  type BoundingBox,
+  type ControlPoint,
+  type ControlPointResidual,
+  type RegistrationResiduals,
+} from './affineTransform';
+import * as warpMath from '../../electron/placementWarpMath.mjs';
+
+/**
+ * Placement types positioned by control points
+ */
+export type WarpPlacementType = 'affine' | 'homography' | 'thinPlateSpline';
+
+/**
+ * A fitted overlay→parent warp
+ */
+export type PlacementWarp =
+  | { type: 'affine'; matrix: AffineMatrix }
+  | { type: 'homography'; matrix: HomographyMatrix }
+  | { type: 'thinPlateSpline'; forward: ThinPlateSplineParams; inverse: ThinPlateSplineParams };
+
+/**
+ * Fewest control points each placement type can be fitted to
+ */
+export const MIN_CONTROL_POINTS: Record<WarpPlacementType, number> = {
+  affine: 3,
+  homography: 4,
+  thinPlateSpline: 3,
+};
+
+/**
+ * Display names of the placement types
+ */
+export const WARP_PLACEMENT_LABELS: Record<WarpPlacementType, string> = {
+  affine: 'Affine',
+  homography: 'Projective',
+  thinPlateSpline: 'Thin-Plate Spline',
+};
+
+/** Longest spot edge, in overlay pixels, drawn straight under a thin-plate spline warp */
+const SPLINE_SEGMENT_LENGTH = 32;
+
+/** Studentized residual above which a projective control point is an outlier (as for affine) */
+const OUTLIER_FACTOR = 3;
+
+/** Smallest miss in parent pixels that can mark a projective control point as an outlier */
+const MIN_OUTLIER_ERROR = 2;
+
+/**
+ * Whether a placement type is positioned by a control point warp (and
+ * rendered from pre-warped tiles)
+ */
+export function isWarpedPlacement(
+  placementType: MicrographMetadata['placementType'] | undefined
+): placementType is WarpPlacementType {
+  return placementType === 'affine' || placementType === 'homography' || placementType === 'thinPlateSpline';
+}
+
+// ============================================================================
+// LINEAR ALGEBRA
+// ============================================================================
+
+/**
+ * Solve A·X = B by Gaussian elimination with partial pivoting. B has one
+ * column per right-hand side.
+ *
+ * @throws Error if A is singular
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row) => row.slice());
+  const b = rhs.map((row) => row.slice());
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Control points are degenerate - cannot compute transform');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      for (let k = 0; k < b[row].length; k++) b[row][k] -= factor * b[col][k];
+    }
+  }
+
+  const x = b.map((row) => row.map(() => 0));
+  for (let row = n - 1; row >= 0; row--) {
+    for (let k = 0; k < b[row].length; k++) {
+      let sum = b[row][k];
+      for (let col = row + 1; col < n; col++) sum -= a[row][col] * x[col][k];
+      x[row][k] = sum / a[row][row];
+    }
+  }
+  return x;
+}
+
+/**
+ * Centroid and spread of a point set, used to normalize coordinates so the
+ * fits are well conditioned for large images.
+ */
+function normalization(points: Array<[number, number]>): { origin: [number, number]; scale: number } {
+  const n = points.length;
+  const cx = points.reduce((sum, p) => sum + p[0], 0) / n;
+  const cy = points.reduce((sum, p) => sum + p[1], 0) / n;
+  const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p[0] - cx, p[1] - cy), 0) / n;
+  return { origin: [cx, cy], scale: meanDistance > 0 ? meanDistance / Math.SQRT2 : 1 };
+}
+
+// ============================================================================
+// HOMOGRAPHY
+// ============================================================================
+
+/**
+ * Apply a homography to a point.
+ */
+export function applyHomography(matrix: HomographyMatrix, x: number, y: number): [number, number] {
+  return warpMath.applyHomography(matrix, x, y);
+}
+
+/**
+ * Invert a homography.
+ *
+ * @throws Error if the matrix is singular
+ */
+export function invertHomography(matrix: HomographyMatrix): HomographyMatrix {
+  return warpMath.invertHomography(matrix) as HomographyMatrix;
+}
+
+/**
+ * Normal equations of the normalized direct linear transform (h33 fixed at 1),
+ * with the rows each point contributes.
+ */
+function homographySystem(points: ControlPoint[]) {
+  const src = normalization(points.map((p) => p.source));
+  const dst = normalization(points.map((p) => p.target));
+
+  const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0));
+  const atb = Array.from({ length: 8 }, () => [0]);
+  const rows = points.map((p) => {
+    const x = (p.source[0] - src.origin[0]) / src.scale;
+    const y = (p.source[1] - src.origin[1]) / src.scale;
+    const u = (p.target[0] - dst.origin[0]) / dst.scale;
+    const v = (p.target[1] - dst.origin[1]) / dst.scale;
+    return [
+      { row: [x, y, 1, 0, 0, 0, -u * x, -u * y], value: u },
+      { row: [0, 0, 0, x, y, 1, -v * x, -v * y], value: v },
+    ];
+  });
+
+  for (const { row, value } of rows.flat()) {
+    for (let i = 0; i < 8; i++) {
+      if (row[i] === 0) continue;
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j];
+      atb[i][0] += row[i] * value;
+    }
+  }
+  return { src, dst, ata, atb, rows };
+}
+
+/**
+ * Compute a homography (projective transform) from 4 or more control points.
+ *
+ * With exactly 4 points every source maps onto its target; with more the fit
+ * is least squares (normalized direct linear transform with h33 fixed at 1
+ * in normalized coordinates). The result is scaled so that h33 = 1.
+ *
+ * @param points - Array of at least 4 control points
+ * @returns Row-major 3x3 matrix mapping source (overlay) to target (parent)
+ * @throws Error if fewer than 4 points are given or they are degenerate
+ */
+export function computeHomography(points: ControlPoint[]): HomographyMatrix {
+  if (points.length < 4) {
+    throw new Error(`At least 4 control points required for projective transform, got ${points.length}`);
+  }
+
+  const { src, dst, ata, atb } = homographySystem(points);
+  const h = solveLinearSystem(ata, atb).map((row) => row[0]);
+  const normalized: HomographyMatrix = [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+
+  // Undo the normalization: H = Tdst^-1 · Hn · Tsrc
+  const s = 1 / src.scale;
+  const tSrc: HomographyMatrix = [s, 0, -src.origin[0] * s, 0, s, -src.origin[1] * s, 0, 0, 1];
+  const tDstInv: HomographyMatrix = [dst.scale, 0, dst.origin[0], 0, dst.scale, dst.origin[1], 0, 0, 1];
+  const result = multiplyHomographies(tDstInv, multiplyHomographies(normalized, tSrc));
+
+  const scale = result[8];
+  if (Math.abs(scale) < 1e-15) {
+    throw new Error('Control points are degenerate - cannot compute transform');
+  }
+  return result.map((value) => value / scale) as HomographyMatrix;
+}
+
+/**
+ * Outlier test for each control point of a projective fit, linearized like
+ * the affine one: the error of the fit of the other points at this point,
+ * and that error in units of the error expected from how well the other
+ * points agree (the studentized deleted residual).
+ */
+function homographyDeletedResiduals(points: ControlPoint[]): Array<{ error: number; studentized: number }> {
+  const n = points.length;
+  const matrix = computeHomography(points);
+  const errors = points.map((p) => {
+    const [x, y] = applyHomography(matrix, p.source[0], p.source[1]);
+    return Math.hypot(x - p.target[0], y - p.target[1]);
+  });
+  const sumSquares = errors.reduce((sum, e) => sum + e * e, 0);
+
+  // Leverage of each point: mean over its two rows of r·(AᵀA)⁻¹·r
+  const { ata, rows } = homographySystem(points);
+  const inverse = solveLinearSystem(ata, ata.map((_, i) => ata.map((__, j) => (i === j ? 1 : 0))));
+  const leverages = rows.map((pointRows) =>
+    pointRows.reduce((sum, { row }) => {
+      let quad = 0;
+      for (let i = 0; i < 8; i++) {
+        for (let j = 0; j < 8; j++) quad += row[i] * inverse[i][j] * row[j];
+      }
+      return sum + quad / 2;
+    }, 0)
+  );
+
+  return errors.map((e, i) => {
+    const h = leverages[i];
+    if (h >= 1 - 1e-9) return { error: 0, studentized: 0 };
+    // Squared error left by the other points (8 parameters use up 4 points' worth)
+    const othersSumSquares = Math.max(sumSquares - (e * e) / (1 - h), 0);
+    const sigma = Math.sqrt(othersSumSquares / (n - 5));
+    return {
+      error: e / (1 - h),
+      studentized: sigma > 0 ? e / (sigma * Math.sqrt(1 - h)) : e > 0 ? Infinity : 0,
+    };
+  });
+}
+
+function multiplyHomographies(left: HomographyMatrix, right: HomographyMatrix): HomographyMatrix {
+  const result = new Array<number>(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) result[row * 3 + col] += left[row * 3 + k] * right[k * 3 + col];
+    }
+  }
+  return result as HomographyMatrix;
+}
+
+// ============================================================================
+// THIN-PLATE SPLINE
+// ============================================================================
+
+function splineKernel(r2: number): number {
+  return r2 > 0 ? r2 * Math.log(r2) : 0;
+}
+
+/**
+ * Evaluate a thin-plate spline at a point.
+ */
+export function applyThinPlateSpline(params: ThinPlateSplineParams, x: number, y: number): [number, number] {
+  return warpMath.applyThinPlateSpline(params, x, y);
+}
+
+/**
+ * Compute the thin-plate spline that maps every control point source exactly
+ * onto its target and bends as little as possible in between.
+ *
+ * @param points - Array of at least 3 non-collinear control points
+ * @throws Error if fewer than 3 points are given or they are degenerate
+ */
+export function computeThinPlateSpline(points: ControlPoint[]): ThinPlateSplineParams {
+  if (points.length < 3) {
+    throw new Error(`At least 3 control points required for thin-plate spline, got ${points.length}`);
+  }
+
+  const { origin, scale } = normalization(points.map((p) => p.source));
+  const centers = points.map(
+    (p) => [(p.source[0] - origin[0]) / scale, (p.source[1] - origin[1]) / scale] as [number, number]
+  );
+  const n = centers.length;
+
+  // | K  P | |w|   |v|
+  // | Pᵀ 0 | |a| = |0|
+  const system = Array.from({ length: n + 3 }, () => new Array<number>(n + 3).fill(0));
+  const rhs = Array.from({ length: n + 3 }, () => [0, 0]);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const dx = centers[i][0] - centers[j][0];
+      const dy = centers[i][1] - centers[j][1];
+      system[i][j] = splineKernel(dx * dx + dy * dy);
+    }
+    const p = [1, centers[i][0], centers[i][1]];
+    for (let k = 0; k < 3; k++) {
+      system[i][n + k] = p[k];
+      system[n + k][i] = p[k];
+    }
+    rhs[i] = [points[i].target[0], points[i].target[1]];
+  }
+
+  const solution = solveLinearSystem(system, rhs);
+  const [c0, cx, cy] = [solution[n], solution[n + 1], solution[n + 2]];
+  return {
+    origin,
+    scale,
+    centers,
+    weights: solution.slice(0, n).map((w) => [w[0], w[1]] as [number, number]),
+    affine: [cx[0], cy[0], c0[0], cx[1], cy[1], c0[1]],
+  };
+}
+
+// ============================================================================
+// GENERIC WARPS
+// ============================================================================
+
+/**
+ * Fit a placement warp to control points.
+ *
+ * @throws Error if there are too few points for the type or they are degenerate
+ */
+export function fitPlacementWarp(type: WarpPlacementType, points: ControlPoint[]): PlacementWarp {
+  if (points.length < MIN_CONTROL_POINTS[type]) {
+    throw new Error(
+      `At least ${MIN_CONTROL_POINTS[type]} control points required for ${WARP_PLACEMENT_LABELS[type].toLowerCase()} placement, got ${points.length}`
+    );
+  }
+  switch (type) {
+    case 'affine':
+      return { type, matrix: computeAffineMatrix(points) };
+    case 'homography':
+      return { type, matrix: computeHomography(points) };
+    case 'thinPlateSpline': {
+      // The inverse is only used to sample the overlay when baking tiles, where
+      // electron/placementWarp.js refines it against the forward spline
+      const swapped = points.map((p) => ({ source: p.target, target: p.source }));
+      return { type, forward: computeThinPlateSpline(points), inverse: computeThinPlateSpline(swapped) };
+    }
+  }
+}
+
+/**
+ * The warp a micrograph is placed with, or null if it is not placed by control points.
+ */
+export function getPlacementWarp(micrograph: MicrographMetadata): PlacementWarp | null {
+  switch (micrograph.placementType) {
+    case 'affine':
+      return micrograph.affineMatrix?.length === 6 ? { type: 'affine', matrix: micrograph.affineMatrix } : null;
+    case 'homography':
+      return micrograph.homographyMatrix?.length === 9 ? { type: 'homography', matrix: micrograph.homographyMatrix } : null;
+    case 'thinPlateSpline':
+      return micrograph.thinPlateSpline
+        ? { type: 'thinPlateSpline', forward: micrograph.thinPlateSpline.forward, inverse: micrograph.thinPlateSpline.inverse }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Micrograph fields that record a warp (other than affineMatrix and the tile fields).
+ */
+export function placementWarpFields(
+  warp: PlacementWarp
+): Pick<MicrographMetadata, 'placementType' | 'homographyMatrix' | 'thinPlateSpline'> {
+  return {
+    placementType: warp.type,
+    homographyMatrix: warp.type === 'homography' ? warp.matrix : null,
+    thinPlateSpline: warp.type === 'thinPlateSpline' ? { forward: warp.forward, inverse: warp.inverse } : null,
+  };
+}
+
+/**
+ * Map an overlay pixel to parent pixels.
+ */
+export function warpPoint(warp: PlacementWarp, x: number, y: number): [number, number] {
+  return warpMath.warpPoint(warp, x, y);
+}
+
+/**
+ * Parent pixels per overlay pixel along the overlay's x axis at a point.
+ * Constant for affine placement; varies across the image for the others.
+ */
+export function warpLocalScale(warp: PlacementWarp, x: number, y: number): number {
+  if (warp.type === 'affine') {
+    const [a, , , c] = warp.matrix;
+    return Math.sqrt(a * a + c * c);
+  }
+  const [x1, y1] = warpPoint(warp, x - 0.5, y);
+  const [x2, y2] = warpPoint(warp, x + 0.5, y);
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/**
+ * Outline of a warped image in parent pixels: the corners, plus points along
+ * each edge for a thin-plate spline (whose edges curve).
+ */
+export function warpOutline(warp: PlacementWarp, width: number, height: number): Array<[number, number]> {
+  return warpMath.warpOutline(warp, width, height);
+}
+
+/**
+ * Bounding box of a warped image in parent pixels.
+ *
+ * @throws Error if a projective warp sends part of the image to infinity
+ */
+export function computeWarpBounds(warp: PlacementWarp, width: number, height: number): BoundingBox {
+  return warpMath.computeWarpBounds(warp, width, height);
+}
+
+/**
+ * Map a polyline or ring of overlay pixels to parent pixels. Under a
+ * thin-plate spline, long edges are subdivided so they follow the warp.
+ */
+export function warpPath(warp: PlacementWarp, path: Array<[number, number]>, closed: boolean): Array<[number, number]> {
+  if (warp.type !== 'thinPlateSpline' || path.length < 2) {
+    return path.map(([x, y]) => warpPoint(warp, x, y));
+  }
+
+  const result: Array<[number, number]> = [];
+  const edgeCount = closed ? path.length : path.length - 1;
+  for (let i = 0; i < edgeCount; i++) {
+    const [x1, y1] = path[i];
+    const [x2, y2] = path[(i + 1) % path.length];
+    const steps = Math.max(1, Math.ceil(Math.hypot(x2 - x1, y2 - y1) / SPLINE_SEGMENT_LENGTH));
+    for (let k = 0; k < steps; k++) {
+      const t = k / steps;
+      result.push(warpPoint(warp, x1 + (x2 - x1) * t, y1 + (y2 - y1) * t));
+    }
+  }
+  if (!closed) {
+    const [x, y] = path[path.length - 1];
+    result.push(warpPoint(warp, x, y));
+  }
+  return result;
+}
+
+/**
+ * How far the spline through all points but one misses that point, for each
+ * point ([0, 0] where the others cannot be fitted).
+ */
+function splineLeaveOneOutErrors(points: ControlPoint[]): Array<[number, number]> {
+  return points.map((p, i) => {
+    try {
+      const spline = computeThinPlateSpline(points.filter((_, k) => k !== i));
+      const [x, y] = applyThinPlateSpline(spline, p.source[0], p.source[1]);
+      return [x - p.target[0], y - p.target[1]];
+    } catch {
+      return [0, 0];
+    }
+  });
+}
+
+/**
+ * Compute per-point residuals and RMS error of a warp fitted to control points.
+ *
+ * Affine fits use computeRegistrationResiduals(). Projective fits report how
+ * far they miss each point, and flag outliers the same way once there are 6
+ * or more points. A thin-plate spline passes through every point, so it
+ * reports the leave-one-out error instead: how far the spline through the
+ * other points misses each one. That is large for a point that disagrees
+ * with its neighbors, but also for points outside the others, so spline
+ * points are not flagged as outliers.
+ */
+export function computeWarpResiduals(points: ControlPoint[], warp: PlacementWarp): RegistrationResiduals {
+  if (warp.type === 'affine') {
+    return computeRegistrationResiduals(points, warp.matrix);
+  }
+
+  const offsets = warp.type === 'thinPlateSpline'
+    ? splineLeaveOneOutErrors(points)
+    : points.map((p) => {
+      const [x, y] = warpPoint(warp, p.source[0], p.source[1]);
+      return [x - p.target[0], y - p.target[1]] as [number, number];
+    });
+  const residuals: ControlPointResidual[] = offsets.map(([dx, dy], index) => ({
+    index,
+    dx,
+    dy,
+    error: Math.hypot(dx, dy),
+    isOutlier: false,
+  }));
+
+  const rms = residuals.length > 0
+    ? Math.sqrt(residuals.reduce((sum, r) => sum + r.error * r.error, 0) / residuals.length)
+    : 0;
+
+  if (warp.type === 'homography') {
+    let remaining = points.map((_, i) => i);
+    while (remaining.length >= 6) {
+      let tests: Array<{ error: number; studentized: number }>;
+      try {
+        tests = homographyDeletedResiduals(remaining.map((i) => points[i]));
+      } catch {
+        break;
+      }
+      let worst = 0;
+      tests.forEach((test, k) => {
+        if (test.studentized > tests[worst].studentized) worst = k;
+      });
+      if (tests[worst].studentized <= OUTLIER_FACTOR || tests[worst].error <= MIN_OUTLIER_ERROR) break;
+
+      residuals[remaining[worst]].isOutlier = true;
+      remaining = remaining.filter((_, k) => k !== worst);
+    }
+  }
+
+  return { residuals, rms };
+}
+
+/**
+ * Pixels per centimeter at a point of a micrograph placed by control points,
+ * walking up through warped placements to the first ancestor with its own
+ * calibrated scale. The scale of each warp is taken where the point lands,
+ * so projective and spline placements read correct local distances. Falls
+ * back to the micrograph's own scale when no ancestor on the way has one.
+ *
+ * @param micrograph - Micrograph the point is in
+ * @param x - Point in the micrograph's pixels
+ * @param y - Point in the micrograph's pixels
+ * @param getMicrograph - Lookup of micrographs by id (for parents)
+ * @returns Pixels per centimeter, or null if no scale is known
+ */
+export function calibratedScaleAt(
+  micrograph: MicrographMetadata,
+  x: number,
+  y: number,
+  getMicrograph: (id: string) => MicrographMetadata | undefined | null
+): number | null {
+  let cumulativeScale = 1;
+  let current = micrograph;
+  let px = x;
+  let py = y;
+
+  for (;;) {
+    const warp = current.parentID ? getPlacementWarp(current) : null;
+    if (!warp) break;
+    const scale = warpLocalScale(warp, px, py);
+    if (!(scale > 0)) break;
+    const parent = getMicrograph(current.parentID!);
+    if (!parent) break;
+
+    cumulativeScale *= scale;
+    [px, py] = warpPoint(warp, px, py);
+    current = parent;
+
+    if (current.scalePixelsPerCentimeter) {
+      return current.scalePixelsPerCentimeter / cumulativeScale;
+    }
+  }
+
+  return micrograph.scalePixelsPerCentimeter ?? null;
+}
@@ -0,0 +1,217 @@
+/**
+ * Spot Polygon Utilities
+ *
+ * Polygon spots store their outer ring in `points`, interior rings (holes) in
+ * `holes`, and any further polygons of a multipolygon spot in `parts`. Older
+ * spots may instead carry a GeoJSON `geometry`. These helpers convert between
+ * those fields and the closed-ring multipolygon format polygon-clipping uses,
+ * so boolean operations and measurements see every ring.
+ */
+
+import polygonClipping from 'polygon-clipping';
+import type { Geometry, SimpleCoord, Spot, SpotPolygonPart } from '@/types/project-types';
+import {
+  type ClipMultiPolygon,
+  type ClipPolygon,
+  type Pair,
+  ringArea,
+  ringCentroid,
+} from '@/services/grainDetection/geometry';
+
+/**
+ * The spot fields that describe polygon shape
+ */
+export type SpotPolygonShape = Pick<Spot, 'geometry' | 'points' | 'holes' | 'parts'>;
+
+/**
+ * Close a ring of [x, y] pairs (first point repeated at the end).
+ */
+function closeRing(coords: Pair[]): Pair[] {
+  if (coords.length > 0) {
+    const first = coords[0];
+    const last = coords[coords.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      coords.push([first[0], first[1]]);
+    }
+  }
+  return coords;
+}
+
+/**
+ * Convert a ring of spot points to a closed ring of [x, y] pairs.
+ */
+export function pointsToRing(points: SimpleCoord[]): Pair[] {
+  return closeRing(points.map((p) => [p.X ?? p.x ?? 0, p.Y ?? p.y ?? 0] as Pair));
+}
+
+/**
+ * Convert a closed ring back to spot points (closing point dropped).
+ */
+export function ringToPoints(ring: Pair[]): SimpleCoord[] {
+  const open =
+    ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+      ? ring.slice(0, -1)
+      : ring;
+  return open.map(([x, y]) => ({ X: x, Y: y }));
+}
+
+function toClipPolygon(points: SimpleCoord[], holes?: SimpleCoord[][] | null): ClipPolygon | null {
+  if (points.length < 3) return null;
+  const rings = [pointsToRing(points)];
+  for (const hole of holes || []) {
+    if (hole.length >= 3) rings.push(pointsToRing(hole));
+  }
+  return rings;
+}
+
+/**
+ * Polygons of a GeoJSON Polygon/MultiPolygon geometry, as closed rings.
+ */
+function geometryToMultiPolygon(geometry: Geometry): ClipMultiPolygon {
+  const toPolygon = (rings: number[][][]): ClipPolygon =>
+    rings.filter((ring) => ring.length >= 3).map((ring) => closeRing(ring.map((c) => [c[0], c[1]] as Pair)));
+
+  if (geometry.type === 'Polygon') {
+    const polygon = toPolygon(geometry.coordinates as number[][][]);
+    return polygon.length > 0 ? [polygon] : [];
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return (geometry.coordinates as number[][][][]).map(toPolygon).filter((polygon) => polygon.length > 0);
+  }
+  return [];
+}
+
+/**
+ * All polygons of a spot as a polygon-clipping multipolygon: each polygon is
+ * its outer ring followed by its holes, every ring closed. Empty for spots
+ * that are not polygons.
+ */
+export function spotToMultiPolygon(spot: SpotPolygonShape): ClipMultiPolygon {
+  if (spot.geometry?.coordinates && (spot.geometry.type === 'Polygon' || spot.geometry.type === 'MultiPolygon')) {
+    return geometryToMultiPolygon(spot.geometry);
+  }
+
+  const polygons: ClipMultiPolygon = [];
+  const main = toClipPolygon(spot.points || [], spot.holes);
+  if (main) polygons.push(main);
+  for (const part of spot.parts || []) {
+    const polygon = toClipPolygon(part.points || [], part.holes);
+    if (polygon) polygons.push(polygon);
+  }
+  return polygons;
+}
+
+/**
+ * Net area of a polygon (outer ring minus its holes), in square pixels.
+ */
+export function clipPolygonArea(polygon: ClipPolygon): number {
+  let area = 0;
+  polygon.forEach((ring, index) => {
+    area += index === 0 ? ringArea(ring) : -ringArea(ring);
+  });
+  return Math.max(0, area);
+}
+
+/**
+ * Area-weighted centroid of a multipolygon (holes subtracted), or null if it
+ * has no area.
+ */
+export function multiPolygonCentroid(shape: ClipMultiPolygon): { x: number; y: number } | null {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (const polygon of shape) {
+    polygon.forEach((ring, index) => {
+      const ringWeight = index === 0 ? ringArea(ring) : -ringArea(ring);
+      const center = ringCentroid(ring);
+      area += ringWeight;
+      cx += center.x * ringWeight;
+      cy += center.y * ringWeight;
+    });
+  }
+  return area > 0 ? { x: cx / area, y: cy / area } : null;
+}
+
+/**
+ * Spot fields for a multipolygon. The largest polygon becomes `points` and
+ * `holes`; any others become `parts`. Fields with nothing in them are null
+ * so simple polygons stay in the legacy shape.
+ */
+export function multiPolygonToSpotShape(shape: ClipMultiPolygon): Pick<Spot, 'points' | 'holes' | 'parts'> {
+  const polygons = shape
+    .filter((polygon) => polygon.length > 0 && polygon[0].length >= 4)
+    .map((polygon) => ({ polygon, area: clipPolygonArea(polygon) }))
+    .sort((a, b) => b.area - a.area)
+    .map(({ polygon }) => polygon);
+
+  if (polygons.length === 0) {
+    return { points: [], holes: null, parts: null };
+  }
+
+  const toPart = (polygon: ClipPolygon): SpotPolygonPart => {
+    const holes = polygon.slice(1).map(ringToPoints);
+    return { points: ringToPoints(polygon[0]), holes: holes.length > 0 ? holes : null };
+  };
+
+  const [main, ...rest] = polygons.map(toPart);
+  return {
+    points: main.points,
+    holes: main.holes ?? null,
+    parts: rest.length > 0 ? rest : null,
+  };
+}
+
+/**
+ * Whether a spot has interior rings or more than one polygon, i.e. cannot be
+ * drawn or measured from its outer ring alone.
+ */
+export function hasHolesOrParts(spot: SpotPolygonShape): boolean {
+  if (spot.geometry?.type === 'MultiPolygon') return true;
+  if (spot.geometry?.type === 'Polygon') return (spot.geometry.coordinates as number[][][]).length > 1;
+  return !!(spot.holes?.length || spot.parts?.length);
+}
+
+/**
+ * Boolean operations available between polygon spots
+ */
+export type SpotBooleanOperation = 'difference' | 'intersection';
+
+/**
+ * Result of cutting other shapes out of a spot ('difference') or keeping
+ * only the part of the spot inside them ('intersection').
+ *
+ * @param spot - Spot whose shape is changed
+ * @param operation - Boolean operation to apply
+ * @param others - Shapes to subtract / intersect with (their union is used)
+ * @returns New spot fields, or null if the spot is not a polygon or nothing is left
+ */
+export function clipSpotShape(
+  spot: SpotPolygonShape,
+  operation: SpotBooleanOperation,
+  others: ClipMultiPolygon[]
+): Pick<Spot, 'points' | 'holes' | 'parts'> | null {
+  const subject = spotToMultiPolygon(spot);
+  const clips = others.filter((shape) => shape.length > 0);
+  if (subject.length === 0 || clips.length === 0) return null;
+
+  const result =
+    operation === 'difference'
+      ? polygonClipping.difference(subject, ...clips)
+      : polygonClipping.intersection(subject, polygonClipping.union(clips[0], ...clips.slice(1)));
+
+  const shape = multiPolygonToSpotShape(result as ClipMultiPolygon);
+  return shape.points && shape.points.length >= 3 ? shape : null;
+}
+
+/**
+ * Write polygon fields onto a spot (mutates it). Any GeoJSON geometry is
+ * dropped so the points/holes/parts fields are authoritative.
+ */
+export function applySpotShape(spot: Spot, shape: Pick<Spot, 'points' | 'holes' | 'parts'>): void {
+  spot.points = shape.points;
+  spot.holes = shape.holes ?? null;
+  spot.parts = shape.parts ?? null;
+  spot.geometryType = 'polygon';
+  if (spot.geometry) spot.geometry = null;
+  spot.modifiedTimestamp = Date.now();
+}
@@ -74,6 +74,8 @@ interface AffineTileMetadata {
   /** Ratio of output-buffer size to parent-coord size; renderer scales by 1/oversample. Absent (=1) on legacy caches. */
   oversample?: number;
   affineMatrix: [number, number, number, number, number, number];
+  /** Projective / thin-plate spline warp the tiles were baked with (null or absent for affine) */
+  warp?: import('@/utils/placementWarp').PlacementWarp | null;
   boundsOffset: { x: number; y: number };
   tileSize: number;
   /** Halo pixels each affine tile carries on edges with neighbors. Absent on legacy caches. */
@@ -199,6 +201,39 @@ interface Window {
     loadOpencvScript: () => Promise<string>;
     loadTile: (imageHash: string, tileX: number, tileY: number) => Promise<string>;
     loadTilesBatch: (imageHash: string, tiles: TileCoordinate[]) => Promise<TileData[]>;
+    loadImageRegion: (
+      imageHash: string,
+      region: { x: number; y: number; width: number; height: number },
+      maxSize: number
+    ) => Promise<{
+      dataUrl: string;
+      /** Clamped region in original image pixels */
+      x: number;
+      y: number;
+      regionWidth: number;
+      regionHeight: number;
+      /** Size of the returned (downscaled) image */
+      width: number;
+      height: number;
+    }>;
+    // Read a block of an image file as raw 8-bit pixels (lossless, unlike the tile cache)
+    readImageRegion: (
+      imagePath: string,
+      region?: { x: number; y: number; width: number; height: number }
+    ) => Promise<{
+      /** Clamped region in image pixels */
+      x: number;
+      y: number;
+      regionWidth: number;
+      regionHeight: number;
+      /** Size of the returned block */
+      width: number;
+      height: number;
+      /** 1 for grayscale images, 3 otherwise */
+      channels: number;
+      /** Row-major interleaved values */
+      data: Uint8Array;
+    }>;
     getCacheStats: () => Promise<CacheStats>;
     clearImageCache: (imageHash: string) => Promise<{ success: boolean }>;
     clearAllCaches: () => Promise<{ success: boolean }>;
@@ -246,16 +281,19 @@ interface Window {
       totalTiles: number;
     }) => void) => Unsubscribe;
 
-    // Affine tile operations (3-point registration placement)
+    // Affine tile operations (control point placement; projective and
+    // thin-plate spline overlays pass their warp and share the affine cache)
     generateAffineTiles: (
       imagePath: string,
       imageHash: string,
-      affineMatrix: [number, number, number, number, number, number]
+      affineMatrix: [number, number, number, number, number, number],
+      warp?: import('@/utils/placementWarp').PlacementWarp | null
     ) => Promise<AffineTileGenerationResult>;
     ensureAffineTiles: (
       imagePath: string,
       imageHash: string,
-      affineMatrix: [number, number, number, number, number, number]
+      affineMatrix: [number, number, number, number, number, number],
+      warp?: import('@/utils/placementWarp').PlacementWarp | null
     ) => Promise<{ success: boolean; regenerated?: boolean; error?: string }>;
     loadAffineTile: (imageHash: string, tileX: number, tileY: number) => Promise<string | null>;
     loadAffineTilesBatch: (imageHash: string, tiles: TileCoordinate[]) => Promise<TileData[]>;
@@ -466,6 +504,10 @@ interface Window {
     // Menu event for export all images
     onExportAllImages: (callback: () => void) => Unsubscribe;
 
+    // Menu events for COCO training datasets
+    onExportCocoDataset: (callback: () => void) => Unsubscribe;
+    onImportCocoPredictions: (callback: () => void) => Unsubscribe;
+
     // Menu event for export with sketches
     onExportWithSketches: (callback: () => void) => Unsubscribe;
 
@@ -839,6 +881,12 @@ interface Window {
     onImageComparator: (callback: () => void) => Unsubscribe;
     onGrainSizeAnalysis: (callback: () => void) => Unsubscribe;
     onStraboTools: (callback: () => void) => Unsubscribe;
+    onElementMaps: (callback: () => void) => Unsubscribe;
+    onRotationSeries: (callback: () => void) => Unsubscribe;
+    onPhaseClassification: (callback: () => void) => Unsubscribe;
+    onLineIntercept: (callback: () => void) => Unsubscribe;
+    onFryAnalysis: (callback: () => void) => Unsubscribe;
+    onGrainBoundaryNetwork: (callback: () => void) => Unsubscribe;
     straboTools: {
       processFullResolution: (params: {
         imagePath: string;
@@ -862,6 +910,69 @@ interface Window {
       }) => Promise<{ success: boolean; error?: string }>;
       onProgress: (callback: (progress: { stage: string; percent: number }) => void) => Unsubscribe;
     };
+    mosaic: {
+      // Stitch overlapping fields (scratch JPEGs) into one scratch JPEG
+      stitch: (params: {
+        fields: Array<{ path: string; column: number; row: number }>;
+        // Nominal overlap between grid neighbors (fraction of the field size)
+        overlap: number;
+      }) => Promise<{
+        success: boolean;
+        identifier?: string;
+        scratchPath?: string;
+        width?: number;
+        height?: number;
+        // Mosaic pixels per field pixel (below 1 when the mosaic was reduced to the import size limit)
+        scale?: number;
+        // Top-left corner of each field in field pixels
+        positions?: Array<{ x: number; y: number }>;
+        // Pairwise alignments; unmeasured pairs were placed at the nominal offset
+        links?: Array<{ from: number; to: number; measured: boolean; correlation: number | null }>;
+        preview?: string;
+        error?: string;
+      }>;
+      onProgress: (callback: (progress: { stage: string; percent: number }) => void) => Unsubscribe;
+    };
+    rotationSeries: {
+      // Compute extinction maps from registered crossed-polars images into the project's associatedFiles
+      computeMaps: (params: {
+        projectId: string;
+        // Registration maps image pixels to micrograph pixels ([a, b, tx, c, d, ty])
+        images: Array<{ path: string; angle: number; matrix: number[] }>;
+        // Micrograph dimensions (the maps cover its full extent)
+        width: number;
+        height: number;
+      }) => Promise<{
+        success: boolean;
+        maxIntensityFileName?: string;
+        extinctionAngleFileName?: string;
+        retardationFileName?: string;
+        width?: number;
+        height?: number;
+        imageCount?: number;
+        error?: string;
+      }>;
+      // Read raw pixels of a computed map PNG (lossless, unlike the tile cache)
+      readMap: (params: {
+        projectId: string;
+        fileName: string;
+        // Block to read in map pixels (whole map if omitted)
+        region?: { x: number; y: number; width: number; height: number };
+        // Long edge to reduce to, nearest neighbor (full resolution if omitted)
+        maxSize?: number;
+      }) => Promise<{
+        success: boolean;
+        x?: number;
+        y?: number;
+        width?: number;
+        height?: number;
+        channels?: number;
+        // Interleaved pixels, row by row
+        data?: Uint8Array;
+        error?: string;
+      }>;
+      onProgress: (callback: (progress: { stage: string; percent: number }) => void) => Unsubscribe;
+    };
     onConfigureMineralColors: (callback: () => void) => Unsubscribe;
     onSpotColorMode: (callback: (mode: 'spot-color' | 'mineral-color') => void) => Unsubscribe;
 
@@ -908,6 +1019,58 @@ interface Window {
       }>;
     };
 
+    // Segmentation model registry (user-registered ONNX models; inference runs in renderer)
+    models: {
+      // List registered models
+      list: () => Promise<{
+        success: boolean;
+        models?: import('@/services/segmentationModels/types').RegisteredModel[];
+        error?: string;
+      }>;
+      // Pick a model manifest and register it
+      register: () => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        model?: import('@/services/segmentationModels/types').RegisteredModel;
+        error?: string;
+      }>;
+      // Remove a model from the registry
+      remove: (id: string) => Promise<{ success: boolean; error?: string }>;
+      // Read model file bytes (renderer passes to onnxruntime-web directly)
+      loadBytes: (id: string) => Promise<{
+        success: boolean;
+        buffer?: Uint8Array;
+        error?: string;
+      }>;
+    };
+
+    coco: {
+      // Pick a folder and write a planned dataset into it
+      exportDataset: (projectId: string, plan: import('@/services/cocoDataset/types').CocoExportPlan) => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        folderPath?: string;
+        exported?: number;
+        error?: string;
+        errors?: Array<{ name: string; error: string }>;
+      }>;
+      // Pick and parse a COCO JSON file
+      openJson: (title?: string) => Promise<{
+        success: boolean;
+        canceled?: boolean;
+        filePath?: string;
+        data?: unknown;
+        error?: string;
+      }>;
+      onExportProgress: (callback: (progress: {
+        current: number;
+        total: number;
+        currentName: string;
+        status: 'processing' | 'complete' | 'error';
+        error?: string;
+      }) => void) => Unsubscribe;
+    };
+
     versionHistory: {
       // Create a new version (auto-save)
       create: (